@@ -133,6 +133,10 @@ jest.mock('src/lib/platform-icons', () => ({
   }),
   getAllPlatforms: () => ['twitter', 'linkedin', 'instagram', 'facebook', 'email', 'newsletter', 'thread'],
   formatPlatformName: (platform) => platform.charAt(0).toUpperCase() + platform.slice(1),
+  platformConfigs: Object.fromEntries(
+    ['twitter', 'linkedin', 'instagram', 'facebook', 'email', 'newsletter', 'thread', 'general']
+      .map(platform => [platform, { name: platform.charAt(0).toUpperCase() + platform.slice(1) }])
+  ),
 }))
 
 jest.mock('src/lib/responsive', () => ({
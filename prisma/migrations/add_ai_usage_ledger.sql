@@ -0,0 +1,39 @@
+-- Migration: Add AI Usage Ledger
+-- Records tokens, latency and cost for every AI call, tied to user, team and content
+
+CREATE TABLE IF NOT EXISTS "AiUsageEntry" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT,
+    "teamId" TEXT,
+    "contentId" TEXT,
+    "requestId" TEXT,
+    "plan" TEXT,
+    "operation" TEXT NOT NULL,
+    "platform" TEXT,
+    "provider" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "inputTokens" INTEGER NOT NULL DEFAULT 0,
+    "outputTokens" INTEGER NOT NULL DEFAULT 0,
+    "estimated" BOOLEAN NOT NULL DEFAULT false,
+    "latencyMs" INTEGER NOT NULL DEFAULT 0,
+    "costUsd" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AiUsageEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- Add indexes
+CREATE INDEX IF NOT EXISTS "AiUsageEntry_userId_createdAt_idx" ON "AiUsageEntry"("userId", "createdAt");
+CREATE INDEX IF NOT EXISTS "AiUsageEntry_teamId_createdAt_idx" ON "AiUsageEntry"("teamId", "createdAt");
+CREATE INDEX IF NOT EXISTS "AiUsageEntry_contentId_idx" ON "AiUsageEntry"("contentId");
+CREATE INDEX IF NOT EXISTS "AiUsageEntry_requestId_idx" ON "AiUsageEntry"("requestId");
+CREATE INDEX IF NOT EXISTS "AiUsageEntry_plan_createdAt_idx" ON "AiUsageEntry"("plan", "createdAt");
+CREATE INDEX IF NOT EXISTS "AiUsageEntry_provider_model_idx" ON "AiUsageEntry"("provider", "model");
+CREATE INDEX IF NOT EXISTS "AiUsageEntry_createdAt_idx" ON "AiUsageEntry"("createdAt");
+
+-- Add foreign key constraints; ledger rows outlive the records they reference
+ALTER TABLE "AiUsageEntry" ADD CONSTRAINT "AiUsageEntry_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE "AiUsageEntry" ADD CONSTRAINT "AiUsageEntry_teamId_fkey" FOREIGN KEY ("teamId") REFERENCES "Team"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE "AiUsageEntry" ADD CONSTRAINT "AiUsageEntry_contentId_fkey" FOREIGN KEY ("contentId") REFERENCES "Content"("id") ON DELETE SET NULL ON UPDATE CASCADE;
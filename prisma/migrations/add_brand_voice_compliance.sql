@@ -0,0 +1,7 @@
+-- Migration: Add Brand Voice Compliance
+-- Required disclaimers and a target reading level on brand voices, and the compliance report of each platform output
+
+ALTER TABLE "BrandVoice" ADD COLUMN IF NOT EXISTS "disclaimers" TEXT[] DEFAULT ARRAY[]::TEXT[];
+ALTER TABLE "BrandVoice" ADD COLUMN IF NOT EXISTS "readingLevel" TEXT;
+
+ALTER TABLE "RepurposedContent" ADD COLUMN IF NOT EXISTS "compliance" JSONB;
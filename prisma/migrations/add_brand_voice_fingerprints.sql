@@ -0,0 +1,4 @@
+-- Migration: Add Brand Voice Fingerprints
+-- Stylometric fingerprint of the example posts a brand voice was learned from, used to score output against the voice
+
+ALTER TABLE "BrandVoice" ADD COLUMN IF NOT EXISTS "fingerprint" JSONB;
@@ -0,0 +1,44 @@
+-- Migration: Add Brand Voice Profiles
+-- Named brand voice profiles per user, optionally shared with a team and assigned to clients and campaigns
+
+CREATE TABLE IF NOT EXISTS "BrandVoice" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "teamId" TEXT,
+    "name" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "tone" TEXT,
+    "targetAudience" TEXT,
+    "guidelines" TEXT,
+    "preferredWords" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "avoidWords" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "samplePosts" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "emojiPolicy" TEXT NOT NULL DEFAULT 'sparing',
+    "hashtagPolicy" TEXT NOT NULL DEFAULT 'platform',
+    "hashtags" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "isDefault" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "BrandVoice_pkey" PRIMARY KEY ("id")
+);
+
+ALTER TABLE "Content" ADD COLUMN IF NOT EXISTS "brandVoiceId" TEXT;
+ALTER TABLE "Client" ADD COLUMN IF NOT EXISTS "brandVoiceId" TEXT;
+ALTER TABLE "Campaign" ADD COLUMN IF NOT EXISTS "brandVoiceId" TEXT;
+
+-- Add indexes
+CREATE UNIQUE INDEX IF NOT EXISTS "BrandVoice_userId_name_key" ON "BrandVoice"("userId", "name");
+CREATE INDEX IF NOT EXISTS "BrandVoice_teamId_idx" ON "BrandVoice"("teamId");
+CREATE INDEX IF NOT EXISTS "BrandVoice_userId_isDefault_idx" ON "BrandVoice"("userId", "isDefault");
+
+-- Add foreign key constraints
+ALTER TABLE "BrandVoice" ADD CONSTRAINT "BrandVoice_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "BrandVoice" ADD CONSTRAINT "BrandVoice_teamId_fkey" FOREIGN KEY ("teamId") REFERENCES "Team"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE "Content" ADD CONSTRAINT "Content_brandVoiceId_fkey" FOREIGN KEY ("brandVoiceId") REFERENCES "BrandVoice"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE "Client" ADD CONSTRAINT "Client_brandVoiceId_fkey" FOREIGN KEY ("brandVoiceId") REFERENCES "BrandVoice"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE "Campaign" ADD CONSTRAINT "Campaign_brandVoiceId_fkey" FOREIGN KEY ("brandVoiceId") REFERENCES "BrandVoice"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,65 @@
+-- Migration: Add Clients and Campaigns
+-- Team-owned agency clients and campaigns; content, outputs and AI usage are attributed to them
+
+CREATE TABLE IF NOT EXISTS "Client" (
+    "id" TEXT NOT NULL,
+    "teamId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "brandVoice" TEXT,
+    "notes" TEXT,
+    "createdById" TEXT,
+    "archivedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Client_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE IF NOT EXISTS "Campaign" (
+    "id" TEXT NOT NULL,
+    "teamId" TEXT NOT NULL,
+    "clientId" TEXT,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "brandVoice" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'active',
+    "startsAt" TIMESTAMP(3),
+    "endsAt" TIMESTAMP(3),
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Campaign_pkey" PRIMARY KEY ("id")
+);
+
+ALTER TABLE "Content" ADD COLUMN IF NOT EXISTS "clientId" TEXT;
+ALTER TABLE "Content" ADD COLUMN IF NOT EXISTS "campaignId" TEXT;
+ALTER TABLE "AiUsageEntry" ADD COLUMN IF NOT EXISTS "clientId" TEXT;
+
+-- Atomized outputs saved before campaigns existed carry generated ids with no campaign row
+UPDATE "RepurposedContent" SET "campaignId" = NULL
+WHERE "campaignId" IS NOT NULL AND "campaignId" NOT IN (SELECT "id" FROM "Campaign");
+
+-- Add indexes
+CREATE UNIQUE INDEX IF NOT EXISTS "Client_teamId_name_key" ON "Client"("teamId", "name");
+CREATE INDEX IF NOT EXISTS "Client_teamId_archivedAt_idx" ON "Client"("teamId", "archivedAt");
+CREATE INDEX IF NOT EXISTS "Campaign_teamId_status_idx" ON "Campaign"("teamId", "status");
+CREATE INDEX IF NOT EXISTS "Campaign_clientId_idx" ON "Campaign"("clientId");
+CREATE INDEX IF NOT EXISTS "Content_clientId_createdAt_idx" ON "Content"("clientId", "createdAt");
+CREATE INDEX IF NOT EXISTS "Content_campaignId_idx" ON "Content"("campaignId");
+CREATE INDEX IF NOT EXISTS "AiUsageEntry_clientId_createdAt_idx" ON "AiUsageEntry"("clientId", "createdAt");
+
+-- Add foreign key constraints
+ALTER TABLE "Client" ADD CONSTRAINT "Client_teamId_fkey" FOREIGN KEY ("teamId") REFERENCES "Team"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "Campaign" ADD CONSTRAINT "Campaign_teamId_fkey" FOREIGN KEY ("teamId") REFERENCES "Team"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "Campaign" ADD CONSTRAINT "Campaign_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "Client"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE "Content" ADD CONSTRAINT "Content_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "Client"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE "Content" ADD CONSTRAINT "Content_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "Campaign"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE "RepurposedContent" ADD CONSTRAINT "RepurposedContent_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "Campaign"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE "AiUsageEntry" ADD CONSTRAINT "AiUsageEntry_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "Client"("id") ON DELETE SET NULL ON UPDATE CASCADE;
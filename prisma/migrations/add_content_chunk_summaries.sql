@@ -0,0 +1,29 @@
+-- Migration: Add Content Chunk Summaries
+-- Summaries of long-document chunks (map step), reused when the same content is repurposed again
+
+CREATE TABLE IF NOT EXISTS "ContentChunkSummary" (
+    "id" TEXT NOT NULL,
+    "contentId" TEXT,
+    "requestId" TEXT,
+    "userId" TEXT NOT NULL,
+    "chunkIndex" INTEGER NOT NULL,
+    "chunkHash" TEXT NOT NULL,
+    "heading" TEXT,
+    "charCount" INTEGER NOT NULL,
+    "summary" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ContentChunkSummary_pkey" PRIMARY KEY ("id")
+);
+
+-- Add indexes
+CREATE UNIQUE INDEX IF NOT EXISTS "ContentChunkSummary_contentId_chunkHash_key" ON "ContentChunkSummary"("contentId", "chunkHash");
+CREATE INDEX IF NOT EXISTS "ContentChunkSummary_requestId_idx" ON "ContentChunkSummary"("requestId");
+CREATE INDEX IF NOT EXISTS "ContentChunkSummary_userId_createdAt_idx" ON "ContentChunkSummary"("userId", "createdAt");
+
+-- Add foreign key constraints
+ALTER TABLE "ContentChunkSummary" ADD CONSTRAINT "ContentChunkSummary_contentId_fkey" FOREIGN KEY ("contentId") REFERENCES "Content"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "ContentChunkSummary" ADD CONSTRAINT "ContentChunkSummary_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,27 @@
+-- Migration: Add Content Exports
+-- Export files built in the background, downloadable through an expiring signed link
+
+CREATE TABLE IF NOT EXISTS "ContentExport" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "jobId" TEXT,
+    "format" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "mimeType" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "itemCount" INTEGER NOT NULL,
+    "skipped" INTEGER NOT NULL DEFAULT 0,
+    "data" BYTEA NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "downloadedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ContentExport_pkey" PRIMARY KEY ("id")
+);
+
+-- Add indexes
+CREATE INDEX IF NOT EXISTS "ContentExport_userId_createdAt_idx" ON "ContentExport"("userId", "createdAt");
+CREATE INDEX IF NOT EXISTS "ContentExport_expiresAt_idx" ON "ContentExport"("expiresAt");
+
+-- Add foreign key constraints
+ALTER TABLE "ContentExport" ADD CONSTRAINT "ContentExport_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- Migration: Add Content Source
+-- Where imported content came from: uploaded file format or article URL, plus extracted author and headings
+
+ALTER TABLE "Content" ADD COLUMN IF NOT EXISTS "sourceType" TEXT;
+ALTER TABLE "Content" ADD COLUMN IF NOT EXISTS "sourceUrl" TEXT;
+ALTER TABLE "Content" ADD COLUMN IF NOT EXISTS "sourceMetadata" JSONB;
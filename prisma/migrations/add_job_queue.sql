@@ -0,0 +1,33 @@
+-- Migration: Add Job Queue
+-- Persisted background jobs for AI generation and bulk repurposing, claimed by workers with FOR UPDATE SKIP LOCKED
+
+CREATE TABLE IF NOT EXISTS "Job" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'queued',
+    "payload" JSONB NOT NULL,
+    "result" JSONB,
+    "progress" JSONB,
+    "error" TEXT,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "maxAttempts" INTEGER NOT NULL DEFAULT 3,
+    "runAfter" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lockedAt" TIMESTAMP(3),
+    "lockedBy" TEXT,
+    "cancelRequested" BOOLEAN NOT NULL DEFAULT false,
+    "startedAt" TIMESTAMP(3),
+    "finishedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Job_pkey" PRIMARY KEY ("id")
+);
+
+-- Add indexes
+CREATE INDEX IF NOT EXISTS "Job_status_runAfter_idx" ON "Job"("status", "runAfter");
+CREATE INDEX IF NOT EXISTS "Job_userId_status_idx" ON "Job"("userId", "status");
+CREATE INDEX IF NOT EXISTS "Job_userId_createdAt_idx" ON "Job"("userId", "createdAt");
+
+-- Add foreign key constraints
+ALTER TABLE "Job" ADD CONSTRAINT "Job_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,13 @@
+-- Migration: Add Localized Variants
+-- Translated platform outputs stored as variants linked to the output they were translated from
+
+ALTER TABLE "RepurposedContent" ADD COLUMN IF NOT EXISTS "locale" TEXT;
+ALTER TABLE "RepurposedContent" ADD COLUMN IF NOT EXISTS "sourceId" TEXT;
+ALTER TABLE "RepurposedContent" ADD COLUMN IF NOT EXISTS "translationStatus" TEXT;
+
+-- Add indexes
+CREATE UNIQUE INDEX IF NOT EXISTS "RepurposedContent_sourceId_locale_key" ON "RepurposedContent"("sourceId", "locale");
+CREATE INDEX IF NOT EXISTS "RepurposedContent_contentId_locale_idx" ON "RepurposedContent"("contentId", "locale");
+
+-- Add foreign key constraints
+ALTER TABLE "RepurposedContent" ADD CONSTRAINT "RepurposedContent_sourceId_fkey" FOREIGN KEY ("sourceId") REFERENCES "RepurposedContent"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,48 @@
+-- Migration: Add Prompt Experiments
+-- A/B tests between two prompt template versions, with the outcomes recorded for each arm
+
+CREATE TABLE IF NOT EXISTS "PromptExperiment" (
+    "id" TEXT NOT NULL,
+    "templateId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "controlVersion" INTEGER NOT NULL,
+    "treatmentVersion" INTEGER NOT NULL,
+    "trafficPercent" INTEGER NOT NULL DEFAULT 50,
+    "status" TEXT NOT NULL DEFAULT 'running',
+    "winner" TEXT,
+    "createdBy" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "endedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PromptExperiment_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE IF NOT EXISTS "PromptExperimentOutcome" (
+    "id" TEXT NOT NULL,
+    "experimentId" TEXT NOT NULL,
+    "arm" TEXT NOT NULL,
+    "promptVersionId" TEXT,
+    "userId" TEXT NOT NULL,
+    "contentId" TEXT,
+    "platform" TEXT,
+    "type" TEXT NOT NULL,
+    "value" DOUBLE PRECISION,
+    "exposureId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PromptExperimentOutcome_pkey" PRIMARY KEY ("id")
+);
+
+-- Add indexes
+CREATE INDEX IF NOT EXISTS "PromptExperiment_templateId_status_idx" ON "PromptExperiment"("templateId", "status");
+CREATE INDEX IF NOT EXISTS "PromptExperiment_status_idx" ON "PromptExperiment"("status");
+CREATE UNIQUE INDEX IF NOT EXISTS "PromptExperimentOutcome_exposureId_type_key" ON "PromptExperimentOutcome"("exposureId", "type");
+CREATE INDEX IF NOT EXISTS "PromptExperimentOutcome_experimentId_arm_type_idx" ON "PromptExperimentOutcome"("experimentId", "arm", "type");
+CREATE INDEX IF NOT EXISTS "PromptExperimentOutcome_contentId_platform_type_idx" ON "PromptExperimentOutcome"("contentId", "platform", "type");
+
+-- Add foreign key constraints
+ALTER TABLE "PromptExperiment" ADD CONSTRAINT "PromptExperiment_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "PromptTemplate"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "PromptExperimentOutcome" ADD CONSTRAINT "PromptExperimentOutcome_experimentId_fkey" FOREIGN KEY ("experimentId") REFERENCES "PromptExperiment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
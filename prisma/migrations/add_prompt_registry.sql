@@ -0,0 +1,42 @@
+-- Migration: Add Prompt Registry
+-- Versioned prompt templates editable from admin settings, and the prompt version behind each repurposed output
+
+CREATE TABLE IF NOT EXISTS "PromptTemplate" (
+    "id" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "variant" TEXT NOT NULL DEFAULT 'default',
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "activeVersion" INTEGER NOT NULL DEFAULT 1,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PromptTemplate_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE IF NOT EXISTS "PromptTemplateVersion" (
+    "id" TEXT NOT NULL,
+    "templateId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "body" TEXT NOT NULL,
+    "variables" TEXT[],
+    "changeNote" TEXT,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PromptTemplateVersion_pkey" PRIMARY KEY ("id")
+);
+
+ALTER TABLE "RepurposedContent" ADD COLUMN IF NOT EXISTS "promptVersionId" TEXT;
+
+-- Add indexes
+CREATE UNIQUE INDEX IF NOT EXISTS "PromptTemplate_key_variant_key" ON "PromptTemplate"("key", "variant");
+CREATE INDEX IF NOT EXISTS "PromptTemplate_key_idx" ON "PromptTemplate"("key");
+CREATE UNIQUE INDEX IF NOT EXISTS "PromptTemplateVersion_templateId_version_key" ON "PromptTemplateVersion"("templateId", "version");
+CREATE INDEX IF NOT EXISTS "PromptTemplateVersion_templateId_idx" ON "PromptTemplateVersion"("templateId");
+CREATE INDEX IF NOT EXISTS "RepurposedContent_promptVersionId_idx" ON "RepurposedContent"("promptVersionId");
+
+-- Add foreign key constraints
+ALTER TABLE "PromptTemplateVersion" ADD CONSTRAINT "PromptTemplateVersion_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "PromptTemplate"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "RepurposedContent" ADD CONSTRAINT "RepurposedContent_promptVersionId_fkey" FOREIGN KEY ("promptVersionId") REFERENCES "PromptTemplateVersion"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,63 @@
+-- Migration: Add Publishing Accounts
+-- Connected accounts (encrypted tokens) scheduled posts are published through, and a log of every publish attempt
+
+CREATE TABLE IF NOT EXISTS "ConnectedAccount" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "teamId" TEXT,
+    "clientId" TEXT,
+    "platform" TEXT NOT NULL,
+    "adapter" TEXT NOT NULL,
+    "externalId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "accessToken" TEXT NOT NULL,
+    "refreshToken" TEXT,
+    "tokenExpiresAt" TIMESTAMP(3),
+    "scopes" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "settings" JSONB,
+    "status" TEXT NOT NULL DEFAULT 'active',
+    "lastError" TEXT,
+    "lastUsedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ConnectedAccount_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE IF NOT EXISTS "PublishAttempt" (
+    "id" TEXT NOT NULL,
+    "scheduleId" TEXT NOT NULL,
+    "accountId" TEXT,
+    "platform" TEXT NOT NULL,
+    "adapter" TEXT NOT NULL,
+    "occurrenceAt" TIMESTAMP(3) NOT NULL,
+    "attempt" INTEGER NOT NULL,
+    "status" TEXT NOT NULL,
+    "payload" JSONB NOT NULL,
+    "response" JSONB,
+    "externalId" TEXT,
+    "url" TEXT,
+    "error" TEXT,
+    "retryable" BOOLEAN NOT NULL DEFAULT false,
+    "durationMs" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PublishAttempt_pkey" PRIMARY KEY ("id")
+);
+
+ALTER TABLE "ScheduledPost" ADD COLUMN IF NOT EXISTS "accountId" TEXT;
+
+-- Add indexes
+CREATE UNIQUE INDEX IF NOT EXISTS "ConnectedAccount_userId_platform_externalId_key" ON "ConnectedAccount"("userId", "platform", "externalId");
+CREATE INDEX IF NOT EXISTS "ConnectedAccount_teamId_platform_idx" ON "ConnectedAccount"("teamId", "platform");
+CREATE INDEX IF NOT EXISTS "PublishAttempt_scheduleId_createdAt_idx" ON "PublishAttempt"("scheduleId", "createdAt");
+CREATE INDEX IF NOT EXISTS "PublishAttempt_accountId_createdAt_idx" ON "PublishAttempt"("accountId", "createdAt");
+CREATE INDEX IF NOT EXISTS "ScheduledPost_accountId_idx" ON "ScheduledPost"("accountId");
+
+-- Add foreign key constraints
+ALTER TABLE "ConnectedAccount" ADD CONSTRAINT "ConnectedAccount_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "ConnectedAccount" ADD CONSTRAINT "ConnectedAccount_teamId_fkey" FOREIGN KEY ("teamId") REFERENCES "Team"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "ConnectedAccount" ADD CONSTRAINT "ConnectedAccount_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "Client"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "PublishAttempt" ADD CONSTRAINT "PublishAttempt_scheduleId_fkey" FOREIGN KEY ("scheduleId") REFERENCES "ScheduledPost"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "PublishAttempt" ADD CONSTRAINT "PublishAttempt_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "ConnectedAccount"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "ScheduledPost" ADD CONSTRAINT "ScheduledPost_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "ConnectedAccount"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- Migration: Add Atomized Campaign Fields
+-- Posts written from one source in atomize mode are grouped under a campaign, one key idea per post
+
+ALTER TABLE "RepurposedContent" ADD COLUMN IF NOT EXISTS "campaignId" TEXT;
+ALTER TABLE "RepurposedContent" ADD COLUMN IF NOT EXISTS "angle" TEXT;
+ALTER TABLE "RepurposedContent" ADD COLUMN IF NOT EXISTS "sequence" INTEGER;
+
+CREATE INDEX IF NOT EXISTS "RepurposedContent_campaignId_platform_sequence_idx" ON "RepurposedContent"("campaignId", "platform", "sequence");
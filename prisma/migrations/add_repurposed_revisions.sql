@@ -0,0 +1,4 @@
+-- Migration: Add Repurposed Content Revisions
+-- Earlier versions of each platform output, kept when it is regenerated, refined or transformed
+
+ALTER TABLE "RepurposedContent" ADD COLUMN IF NOT EXISTS "revisions" JSONB;
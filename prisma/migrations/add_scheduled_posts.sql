@@ -0,0 +1,35 @@
+-- Migration: Add Scheduled Posts
+-- Publishing schedule for repurposed outputs, with recurrence, moved to due and published by the dispatcher cron
+
+CREATE TABLE IF NOT EXISTS "ScheduledPost" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "repurposedId" TEXT NOT NULL,
+    "platform" TEXT NOT NULL,
+    "clientId" TEXT,
+    "publishAt" TIMESTAMP(3) NOT NULL,
+    "startsAt" TIMESTAMP(3) NOT NULL,
+    "timezone" TEXT NOT NULL,
+    "recurrence" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'scheduled',
+    "occurrences" INTEGER NOT NULL DEFAULT 0,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "lastPublishedAt" TIMESTAMP(3),
+    "lastResult" JSONB,
+    "error" TEXT,
+    "lockedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ScheduledPost_pkey" PRIMARY KEY ("id")
+);
+
+-- Add indexes
+CREATE UNIQUE INDEX IF NOT EXISTS "ScheduledPost_repurposedId_key" ON "ScheduledPost"("repurposedId");
+CREATE INDEX IF NOT EXISTS "ScheduledPost_status_publishAt_idx" ON "ScheduledPost"("status", "publishAt");
+CREATE INDEX IF NOT EXISTS "ScheduledPost_userId_publishAt_idx" ON "ScheduledPost"("userId", "publishAt");
+CREATE INDEX IF NOT EXISTS "ScheduledPost_platform_publishAt_idx" ON "ScheduledPost"("platform", "publishAt");
+
+-- Add foreign key constraints
+ALTER TABLE "ScheduledPost" ADD CONSTRAINT "ScheduledPost_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "ScheduledPost" ADD CONSTRAINT "ScheduledPost_repurposedId_fkey" FOREIGN KEY ("repurposedId") REFERENCES "RepurposedContent"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,4 @@
+-- Migration: Add Structured Output
+-- Validated per-platform parts of each repurposed output (thread tweets, email subject/body, YouTube chapters, ...)
+
+ALTER TABLE "RepurposedContent" ADD COLUMN IF NOT EXISTS "structured" JSONB;
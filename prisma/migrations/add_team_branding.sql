@@ -0,0 +1,4 @@
+-- Migration: Add Team Branding
+-- Logo, brand colors and fonts applied to the team's rendered emails and newsletters
+
+ALTER TABLE "Team" ADD COLUMN IF NOT EXISTS "branding" JSONB;
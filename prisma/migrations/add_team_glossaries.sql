@@ -0,0 +1,24 @@
+-- Migration: Add Team Glossaries
+-- Preferred terms and forbidden variants enforced on a team's generated output, and the replacements made in each platform output
+
+CREATE TABLE IF NOT EXISTS "GlossaryTerm" (
+    "id" TEXT NOT NULL,
+    "teamId" TEXT NOT NULL,
+    "preferred" TEXT,
+    "forbidden" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "caseSensitive" BOOLEAN NOT NULL DEFAULT false,
+    "note" TEXT,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "GlossaryTerm_pkey" PRIMARY KEY ("id")
+);
+
+ALTER TABLE "RepurposedContent" ADD COLUMN IF NOT EXISTS "glossary" JSONB;
+
+-- Add indexes
+CREATE INDEX IF NOT EXISTS "GlossaryTerm_teamId_idx" ON "GlossaryTerm"("teamId");
+
+-- Add foreign key constraints
+ALTER TABLE "GlossaryTerm" ADD CONSTRAINT "GlossaryTerm_teamId_fkey" FOREIGN KEY ("teamId") REFERENCES "Team"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -9,7 +9,7 @@ import {
 import {
   TrendingUp, DollarSign, Users, FileText, MessageSquare, Star,
   Calendar, Activity, ArrowUpRight, ArrowDownRight, RefreshCw, Download,
-  AlertTriangle, ChevronRight, Home
+  AlertTriangle, ChevronRight, Home, FlaskConical
 } from 'lucide-react';
 import Link from 'next/link';
 
@@ -41,6 +41,7 @@ interface AnalyticsData {
     contentCreationTrend: Array<{ date: string; count: number }>;
     topPerformers: Array<{ title: string; author: string; repurposed: number }>;
     usageByPlan: Array<{ plan: string; usage: number; limit: number }>;
+    promptExperiments?: PromptExperimentSummary[];
   };
   support: {
     ticketsByStatus: Array<{ status: string; count: number }>;
@@ -55,6 +56,26 @@ interface AnalyticsData {
   };
 }
 
+interface PromptExperimentSummary {
+  id: string;
+  name: string;
+  status: 'running' | 'stopped' | 'promoted';
+  trafficPercent: number;
+  winner: 'control' | 'treatment' | null;
+  startedAt: string;
+  template: { key: string; variant: string; name: string };
+  results: Array<{
+    arm: 'control' | 'treatment';
+    version: number;
+    generated: number;
+    copyRate: number;
+    exportRate: number;
+    editRate: number;
+    regenerateRate: number;
+    positiveRatingRate: number | null;
+  }>;
+}
+
 const COLORS = ['#3B82F6', '#10B981', '#F59E0B', '#EF4444', '#8B5CF6', '#06B6D4'];
 
 export default function AnalyticsPage() {
@@ -178,7 +199,8 @@ export default function AnalyticsPage() {
       contentByType: data?.content?.contentByType || [],
       contentCreationTrend: data?.content?.contentCreationTrend || [],
       topPerformers: data?.content?.topPerformers || [],
-      usageByPlan: data?.content?.usageByPlan || []
+      usageByPlan: data?.content?.usageByPlan || [],
+      promptExperiments: data?.content?.promptExperiments || []
     },
     support: {
       ticketsByStatus: data?.support?.ticketsByStatus || [],
@@ -516,6 +538,74 @@ export default function AnalyticsPage() {
         </div>
       </div>
 
+      {/* Prompt Experiments */}
+      <div className="bg-white rounded-lg shadow-sm border p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold flex items-center">
+            <FlaskConical className="h-5 w-5 mr-2 text-purple-600" />
+            Prompt Experiments
+          </h3>
+          <Link href="/admin/settings/prompts" className="text-sm text-blue-600 hover:text-blue-800">
+            Manage experiments
+          </Link>
+        </div>
+        {safeData.content.promptExperiments.length > 0 ? (
+          <div className="space-y-6">
+            {safeData.content.promptExperiments.map(experiment => (
+              <div key={experiment.id}>
+                <div className="flex items-center justify-between mb-2">
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">{experiment.name}</p>
+                    <p className="text-xs text-gray-500">
+                      {experiment.template.key} · {experiment.template.variant} · {experiment.trafficPercent}% of users on the treatment
+                    </p>
+                  </div>
+                  <span className={`text-xs px-2 py-0.5 rounded-full ${
+                    experiment.status === 'running'
+                      ? 'bg-green-100 text-green-800'
+                      : experiment.status === 'promoted'
+                        ? 'bg-purple-100 text-purple-800'
+                        : 'bg-gray-100 text-gray-700'
+                  }`}>
+                    {experiment.status === 'promoted' ? `${experiment.winner} promoted` : experiment.status}
+                  </span>
+                </div>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs text-gray-500 uppercase">
+                      <th className="py-1">Arm</th>
+                      <th className="py-1 text-right">Outputs</th>
+                      <th className="py-1 text-right">Copied</th>
+                      <th className="py-1 text-right">Exported</th>
+                      <th className="py-1 text-right">Edited</th>
+                      <th className="py-1 text-right">Regenerated</th>
+                      <th className="py-1 text-right">Rated helpful</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y">
+                    {experiment.results.map(result => (
+                      <tr key={result.arm}>
+                        <td className="py-1 capitalize">{result.arm} (v{result.version})</td>
+                        <td className="py-1 text-right">{result.generated}</td>
+                        <td className="py-1 text-right">{(result.copyRate * 100).toFixed(1)}%</td>
+                        <td className="py-1 text-right">{(result.exportRate * 100).toFixed(1)}%</td>
+                        <td className="py-1 text-right">{(result.editRate * 100).toFixed(1)}%</td>
+                        <td className="py-1 text-right">{(result.regenerateRate * 100).toFixed(1)}%</td>
+                        <td className="py-1 text-right">
+                          {result.positiveRatingRate === null ? '—' : `${(result.positiveRatingRate * 100).toFixed(1)}%`}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-gray-500 text-sm">No prompt experiments in this period</p>
+        )}
+      </div>
+
       {/* Support Analytics */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         <div className="bg-white rounded-lg shadow-sm border p-6">
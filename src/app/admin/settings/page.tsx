@@ -18,7 +18,8 @@ import {
   AlertTriangle,
   Info,
   Users,
-  ChevronRight
+  ChevronRight,
+  FileText
 } from 'lucide-react';
 import Link from 'next/link';
 
@@ -336,6 +337,30 @@ export default function AdminSettingsPage() {
         </div>
       </div>
 
+      {/* Prompt Templates Quick Access */}
+      <div className="mb-6">
+        <div className="bg-white rounded-lg shadow p-6">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center">
+              <div className="bg-blue-100 p-3 rounded-lg mr-4">
+                <FileText className="h-6 w-6 text-blue-600" />
+              </div>
+              <div>
+                <h3 className="text-lg font-medium text-gray-900">Prompt Templates</h3>
+                <p className="text-gray-600">Edit, version and roll back the AI prompts used for every platform</p>
+              </div>
+            </div>
+            <Link
+              href="/admin/settings/prompts"
+              className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              Manage Prompts
+              <ChevronRight className="h-4 w-4 ml-2" />
+            </Link>
+          </div>
+        </div>
+      </div>
+
       {/* Tabs */}
       <div className="mb-6">
         <nav className="flex space-x-8">
@@ -0,0 +1,616 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import {
+  FileText,
+  ChevronRight,
+  Home,
+  RefreshCw,
+  Save,
+  RotateCcw,
+  CheckCircle2,
+  AlertTriangle,
+  X,
+  History,
+  FlaskConical,
+  Square,
+  Trophy
+} from 'lucide-react';
+
+interface PromptTemplateSummary {
+  id: string;
+  key: string;
+  variant: string;
+  name: string;
+  description: string | null;
+  activeVersion: number;
+  versionCount: number;
+  updatedAt: string;
+}
+
+interface PromptVersion {
+  id: string;
+  version: number;
+  body: string;
+  variables: string[];
+  changeNote: string | null;
+  createdBy: string | null;
+  createdAt: string;
+  outputCount: number;
+}
+
+interface PromptTemplateDetail extends Omit<PromptTemplateSummary, 'versionCount'> {
+  allowedVariables: string[];
+  versions: PromptVersion[];
+}
+
+interface ExperimentArmResult {
+  arm: 'control' | 'treatment';
+  version: number;
+  generated: number;
+  copyRate: number;
+  exportRate: number;
+  editRate: number;
+  regenerateRate: number;
+  positiveRatingRate: number | null;
+}
+
+interface PromptExperiment {
+  id: string;
+  name: string;
+  status: 'running' | 'stopped' | 'promoted';
+  controlVersion: number;
+  treatmentVersion: number;
+  trafficPercent: number;
+  winner: 'control' | 'treatment' | null;
+  startedAt: string;
+  endedAt: string | null;
+  results: ExperimentArmResult[];
+}
+
+const formatRate = (value: number | null) => (value === null ? '—' : `${(value * 100).toFixed(1)}%`);
+
+const authHeaders = (): Record<string, string> => ({
+  'Authorization': `Bearer ${localStorage.getItem('admin_token')}`,
+  'Content-Type': 'application/json'
+});
+
+export default function PromptTemplatesPage() {
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [errorDetails, setErrorDetails] = useState<string[]>([]);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [templates, setTemplates] = useState<PromptTemplateSummary[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [template, setTemplate] = useState<PromptTemplateDetail | null>(null);
+  const [draft, setDraft] = useState('');
+  const [changeNote, setChangeNote] = useState('');
+  const [experiments, setExperiments] = useState<PromptExperiment[]>([]);
+  const [treatmentVersion, setTreatmentVersion] = useState<number | null>(null);
+  const [trafficPercent, setTrafficPercent] = useState(50);
+
+  const loadTemplates = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetch('/api/admin/settings/prompts', { headers: authHeaders() });
+      if (!response.ok) {
+        throw new Error('Failed to load prompt templates');
+      }
+
+      const data = await response.json();
+      setTemplates(data.templates);
+      setSelectedId(current => current ?? data.templates[0]?.id ?? null);
+    } catch (error) {
+      console.error('Error loading prompt templates:', error);
+      setError('Failed to load prompt templates');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const loadTemplate = useCallback(async (templateId: string) => {
+    try {
+      const response = await fetch(`/api/admin/settings/prompts/${templateId}`, { headers: authHeaders() });
+      if (!response.ok) {
+        throw new Error('Failed to load prompt template');
+      }
+
+      const data = await response.json();
+      const active = data.template.versions.find((v: PromptVersion) => v.version === data.template.activeVersion);
+      setTemplate(data.template);
+      setDraft(active?.body || '');
+      setChangeNote('');
+    } catch (error) {
+      console.error('Error loading prompt template:', error);
+      setError('Failed to load prompt template');
+    }
+  }, []);
+
+  const loadExperiments = useCallback(async (templateId: string) => {
+    try {
+      const response = await fetch(`/api/admin/settings/prompts/experiments?templateId=${templateId}`, { headers: authHeaders() });
+      if (!response.ok) {
+        throw new Error('Failed to load prompt experiments');
+      }
+
+      const data = await response.json();
+      setExperiments(data.experiments);
+      setTreatmentVersion(null);
+    } catch (error) {
+      console.error('Error loading prompt experiments:', error);
+      setExperiments([]);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTemplates();
+  }, [loadTemplates]);
+
+  useEffect(() => {
+    if (selectedId) {
+      loadTemplate(selectedId);
+      loadExperiments(selectedId);
+    }
+  }, [selectedId, loadTemplate, loadExperiments]);
+
+  const startExperiment = async () => {
+    if (!template || treatmentVersion === null) return;
+
+    try {
+      setSaving(true);
+      setError(null);
+
+      const response = await fetch('/api/admin/settings/prompts/experiments', {
+        method: 'POST',
+        headers: authHeaders(),
+        body: JSON.stringify({ templateId: template.id, treatmentVersion, trafficPercent })
+      });
+
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to start experiment');
+      }
+
+      setSuccess(`Testing version ${treatmentVersion} on ${trafficPercent}% of users`);
+      await loadExperiments(template.id);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to start experiment');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateExperiment = async (experiment: PromptExperiment, update: { action: 'stop' } | { action: 'promote'; winner: 'control' | 'treatment' }) => {
+    if (!template) return;
+    if (update.action === 'promote') {
+      const version = update.winner === 'treatment' ? experiment.treatmentVersion : experiment.controlVersion;
+      if (!confirm(`End "${experiment.name}" and make version ${version} the live prompt?`)) return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+
+      const response = await fetch(`/api/admin/settings/prompts/experiments/${experiment.id}`, {
+        method: 'PATCH',
+        headers: authHeaders(),
+        body: JSON.stringify(update)
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to update experiment');
+      }
+
+      setSuccess(update.action === 'stop' ? `Stopped "${experiment.name}"` : `Promoted the ${update.winner} of "${experiment.name}"`);
+      await Promise.all([loadTemplate(template.id), loadTemplates(), loadExperiments(template.id)]);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to update experiment');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const saveVersion = async () => {
+    if (!template) return;
+
+    try {
+      setSaving(true);
+      setError(null);
+      setErrorDetails([]);
+
+      const response = await fetch(`/api/admin/settings/prompts/${template.id}`, {
+        method: 'POST',
+        headers: authHeaders(),
+        body: JSON.stringify({ body: draft, changeNote: changeNote || undefined })
+      });
+
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        setErrorDetails(data.details || []);
+        throw new Error(data.error || 'Failed to save prompt version');
+      }
+
+      setSuccess(`Saved and activated version ${data.version.version} of "${template.name}"`);
+      await Promise.all([loadTemplate(template.id), loadTemplates()]);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to save prompt version');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const activateVersion = async (version: number) => {
+    if (!template) return;
+    if (!confirm(`Make version ${version} the live prompt for "${template.name}"?`)) return;
+
+    try {
+      setSaving(true);
+      setError(null);
+
+      const response = await fetch(`/api/admin/settings/prompts/${template.id}`, {
+        method: 'PATCH',
+        headers: authHeaders(),
+        body: JSON.stringify({ version })
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to activate version');
+      }
+
+      setSuccess(`Version ${version} of "${template.name}" is now live`);
+      await Promise.all([loadTemplate(template.id), loadTemplates()]);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to activate version');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const activeBody = template?.versions.find(v => v.version === template.activeVersion)?.body || '';
+  const runningExperiment = experiments.find(experiment => experiment.status === 'running');
+  const templatesByKey = templates.reduce((groups: Record<string, PromptTemplateSummary[]>, item) => {
+    (groups[item.key] = groups[item.key] || []).push(item);
+    return groups;
+  }, {});
+
+  if (loading) {
+    return (
+      <div className="p-6">
+        <div className="flex items-center justify-center min-h-96">
+          <div className="text-center">
+            <RefreshCw className="h-8 w-8 animate-spin text-blue-600 mx-auto mb-4" />
+            <p className="text-gray-600">Loading prompt templates...</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 max-w-7xl mx-auto space-y-6">
+      {/* Breadcrumb */}
+      <nav className="flex items-center space-x-2 text-sm text-gray-600">
+        <Link href="/admin" className="hover:text-blue-600 flex items-center">
+          <Home className="h-4 w-4 mr-1" />
+          Admin
+        </Link>
+        <ChevronRight className="h-4 w-4" />
+        <Link href="/admin/settings" className="hover:text-blue-600">Settings</Link>
+        <ChevronRight className="h-4 w-4" />
+        <span className="text-gray-900 font-medium">Prompt Templates</span>
+      </nav>
+
+      {/* Page Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 flex items-center">
+            <FileText className="h-8 w-8 mr-3 text-blue-600" />
+            Prompt Templates
+          </h1>
+          <p className="text-gray-600 mt-1">
+            Edit the prompts used for generation, repurposing and analysis. Every edit is saved as a new version.
+          </p>
+        </div>
+        <button
+          onClick={loadTemplates}
+          className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 flex items-center"
+        >
+          <RefreshCw className="h-4 w-4 mr-2" />
+          Refresh
+        </button>
+      </div>
+
+      {/* Alerts */}
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <div className="flex items-center">
+            <AlertTriangle className="h-5 w-5 text-red-500 mr-3" />
+            <span className="text-red-700">{error}</span>
+            <button onClick={() => { setError(null); setErrorDetails([]); }} className="ml-auto text-red-500 hover:text-red-700">
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+          {errorDetails.length > 0 && (
+            <ul className="mt-2 ml-8 list-disc text-sm text-red-700">
+              {errorDetails.map(detail => <li key={detail}>{detail}</li>)}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {success && (
+        <div className="bg-green-50 border border-green-200 rounded-md p-4 flex items-center">
+          <CheckCircle2 className="h-5 w-5 text-green-500 mr-3" />
+          <span className="text-green-700">{success}</span>
+          <button onClick={() => setSuccess(null)} className="ml-auto text-green-500 hover:text-green-700">
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Template List */}
+        <div className="lg:col-span-1">
+          <div className="bg-white rounded-lg shadow-sm border p-6 space-y-6">
+            {Object.entries(templatesByKey).map(([key, group]) => (
+              <div key={key}>
+                <h2 className="text-sm font-semibold text-gray-500 uppercase tracking-wide mb-2">{key}</h2>
+                <div className="space-y-2">
+                  {group.map(item => (
+                    <div
+                      key={item.id}
+                      className={`p-3 border rounded-lg cursor-pointer transition-colors ${
+                        selectedId === item.id
+                          ? 'border-blue-500 bg-blue-50'
+                          : 'border-gray-200 hover:border-gray-300'
+                      }`}
+                      onClick={() => setSelectedId(item.id)}
+                    >
+                      <div className="flex items-center justify-between">
+                        <span className="font-medium text-gray-900">{item.variant}</span>
+                        <span className="text-xs text-gray-500">v{item.activeVersion} of {item.versionCount}</span>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Editor and History */}
+        <div className="lg:col-span-2 space-y-6">
+          {template && (
+            <>
+              <div className="bg-white rounded-lg shadow-sm border p-6">
+                <h2 className="text-xl font-semibold text-gray-900">{template.name}</h2>
+                {template.description && <p className="text-sm text-gray-600 mt-1">{template.description}</p>}
+
+                <div className="mt-4 flex flex-wrap gap-2">
+                  {template.allowedVariables.map(variable => (
+                    <code key={variable} className="text-xs bg-gray-100 text-gray-700 px-2 py-1 rounded">
+                      {`{{${variable}}}`}
+                    </code>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500 mt-2">
+                  {'Wrap optional text in {{#name}}...{{/name}} to include it only when the variable is set.'}
+                </p>
+
+                <textarea
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  rows={18}
+                  className="mt-4 w-full border border-gray-300 rounded-md px-3 py-2 font-mono text-sm"
+                />
+                <input
+                  type="text"
+                  value={changeNote}
+                  onChange={(e) => setChangeNote(e.target.value)}
+                  placeholder="What changed? (optional)"
+                  className="mt-3 w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+                />
+                <div className="mt-4 flex justify-end space-x-3">
+                  <button
+                    onClick={() => setDraft(activeBody)}
+                    disabled={saving || draft === activeBody}
+                    className="px-4 py-2 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 disabled:opacity-50"
+                  >
+                    Discard
+                  </button>
+                  <button
+                    onClick={saveVersion}
+                    disabled={saving || draft === activeBody}
+                    className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 flex items-center"
+                  >
+                    <Save className="h-4 w-4 mr-2" />
+                    {saving ? 'Saving...' : 'Save as New Version'}
+                  </button>
+                </div>
+              </div>
+
+              <div className="bg-white rounded-lg shadow-sm border p-6">
+                <h2 className="text-lg font-semibold text-gray-900 flex items-center mb-1">
+                  <FlaskConical className="h-5 w-5 mr-2 text-purple-600" />
+                  Experiments
+                </h2>
+                <p className="text-sm text-gray-600 mb-4">
+                  Serve another version to a share of users and compare what they do with the output. Each user always gets the same version.
+                </p>
+
+                {!runningExperiment && (
+                  <div className="flex flex-wrap items-end gap-3 mb-4">
+                    <div>
+                      <label className="block text-xs font-medium text-gray-600 mb-1">Test version</label>
+                      <select
+                        value={treatmentVersion ?? ''}
+                        onChange={(e) => setTreatmentVersion(e.target.value ? Number(e.target.value) : null)}
+                        className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+                      >
+                        <option value="">Choose a version</option>
+                        {template.versions
+                          .filter(version => version.version !== template.activeVersion)
+                          .map(version => (
+                            <option key={version.id} value={version.version}>Version {version.version}</option>
+                          ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-gray-600 mb-1">Users on test version (%)</label>
+                      <input
+                        type="number"
+                        min={1}
+                        max={99}
+                        value={trafficPercent}
+                        onChange={(e) => setTrafficPercent(Math.min(99, Math.max(1, Number(e.target.value) || 1)))}
+                        className="w-28 border border-gray-300 rounded-md px-3 py-2 text-sm"
+                      />
+                    </div>
+                    <button
+                      onClick={startExperiment}
+                      disabled={saving || treatmentVersion === null}
+                      className="px-4 py-2 bg-purple-600 text-white rounded-md hover:bg-purple-700 disabled:opacity-50 flex items-center"
+                    >
+                      <FlaskConical className="h-4 w-4 mr-2" />
+                      Start Experiment
+                    </button>
+                  </div>
+                )}
+
+                {experiments.length === 0 ? (
+                  <p className="text-sm text-gray-500">No experiments have been run on this template</p>
+                ) : (
+                  <div className="divide-y">
+                    {experiments.map(experiment => (
+                      <div key={experiment.id} className="py-3">
+                        <div className="flex items-center justify-between">
+                          <div>
+                            <div className="flex items-center space-x-2">
+                              <span className="font-medium text-gray-900">{experiment.name}</span>
+                              <span className={`text-xs px-2 py-0.5 rounded-full ${
+                                experiment.status === 'running'
+                                  ? 'bg-green-100 text-green-800'
+                                  : experiment.status === 'promoted'
+                                    ? 'bg-purple-100 text-purple-800'
+                                    : 'bg-gray-100 text-gray-700'
+                              }`}>
+                                {experiment.status === 'promoted' ? `${experiment.winner} promoted` : experiment.status}
+                              </span>
+                            </div>
+                            <p className="text-sm text-gray-600">
+                              v{experiment.controlVersion} vs v{experiment.treatmentVersion} · {experiment.trafficPercent}% on v{experiment.treatmentVersion} · started {new Date(experiment.startedAt).toLocaleString()}
+                            </p>
+                          </div>
+                          {experiment.status !== 'promoted' && (
+                            <div className="flex space-x-2">
+                              {experiment.status === 'running' && (
+                                <button
+                                  onClick={() => updateExperiment(experiment, { action: 'stop' })}
+                                  disabled={saving}
+                                  className="text-sm px-3 py-1 bg-gray-100 text-gray-700 rounded hover:bg-gray-200 disabled:opacity-50 flex items-center"
+                                >
+                                  <Square className="h-3 w-3 mr-1" />
+                                  Stop
+                                </button>
+                              )}
+                              {(['control', 'treatment'] as const).map(arm => (
+                                <button
+                                  key={arm}
+                                  onClick={() => updateExperiment(experiment, { action: 'promote', winner: arm })}
+                                  disabled={saving}
+                                  className="text-sm px-3 py-1 bg-purple-100 text-purple-800 rounded hover:bg-purple-200 disabled:opacity-50 flex items-center"
+                                >
+                                  <Trophy className="h-3 w-3 mr-1" />
+                                  Promote v{arm === 'treatment' ? experiment.treatmentVersion : experiment.controlVersion}
+                                </button>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                        <table className="w-full text-sm mt-2">
+                          <thead>
+                            <tr className="text-left text-xs text-gray-500 uppercase">
+                              <th className="py-1">Arm</th>
+                              <th className="py-1 text-right">Outputs</th>
+                              <th className="py-1 text-right">Copied</th>
+                              <th className="py-1 text-right">Exported</th>
+                              <th className="py-1 text-right">Edited</th>
+                              <th className="py-1 text-right">Regenerated</th>
+                              <th className="py-1 text-right">Rated helpful</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {experiment.results.map(result => (
+                              <tr key={result.arm}>
+                                <td className="py-1 capitalize">{result.arm} (v{result.version})</td>
+                                <td className="py-1 text-right">{result.generated}</td>
+                                <td className="py-1 text-right">{formatRate(result.copyRate)}</td>
+                                <td className="py-1 text-right">{formatRate(result.exportRate)}</td>
+                                <td className="py-1 text-right">{formatRate(result.editRate)}</td>
+                                <td className="py-1 text-right">{formatRate(result.regenerateRate)}</td>
+                                <td className="py-1 text-right">{formatRate(result.positiveRatingRate)}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div className="bg-white rounded-lg shadow-sm border p-6">
+                <h2 className="text-lg font-semibold text-gray-900 flex items-center mb-4">
+                  <History className="h-5 w-5 mr-2 text-gray-500" />
+                  Version History
+                </h2>
+                <div className="divide-y">
+                  {template.versions.map(version => (
+                    <div key={version.id} className="py-3 flex items-center justify-between">
+                      <div>
+                        <div className="flex items-center space-x-2">
+                          <span className="font-medium text-gray-900">Version {version.version}</span>
+                          {version.version === template.activeVersion && (
+                            <span className="text-xs bg-green-100 text-green-800 px-2 py-0.5 rounded-full">Live</span>
+                          )}
+                        </div>
+                        <p className="text-sm text-gray-600">
+                          {version.changeNote || 'No change note'} · {version.createdBy || 'unknown'} · {new Date(version.createdAt).toLocaleString()}
+                        </p>
+                        <p className="text-xs text-gray-500">{version.outputCount} repurposed outputs</p>
+                      </div>
+                      <div className="flex space-x-2">
+                        <button
+                          onClick={() => setDraft(version.body)}
+                          className="text-sm px-3 py-1 bg-gray-100 text-gray-700 rounded hover:bg-gray-200"
+                        >
+                          Load
+                        </button>
+                        {version.version !== template.activeVersion && (
+                          <button
+                            onClick={() => activateVersion(version.version)}
+                            disabled={saving}
+                            className="text-sm px-3 py-1 bg-amber-100 text-amber-800 rounded hover:bg-amber-200 disabled:opacity-50 flex items-center"
+                          >
+                            <RotateCcw className="h-3 w-3 mr-1" />
+                            {version.version < template.activeVersion ? 'Roll back' : 'Activate'}
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
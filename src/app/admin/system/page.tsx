@@ -53,6 +53,23 @@ interface SystemStatus {
     buildDate: string;
     maintenanceMode: boolean;
   };
+  aiProviders: AIProviderStatus[];
+  fallbackChains: Record<string, string[]>;
+}
+
+interface AIProviderStatus {
+  id: string;
+  name: string;
+  configured: boolean;
+  defaultModel: string;
+  circuit: {
+    state: 'CLOSED' | 'OPEN' | 'HALF_OPEN';
+    failures: number;
+    failureThreshold: number;
+    recoveryTimeout: number;
+    lastFailureAt: string | null;
+    nextAttemptAt: string | null;
+  };
 }
 
 interface LogEntry {
@@ -204,7 +221,9 @@ export default function SystemPage() {
             version: '1.0.0',
             buildDate: new Date().toISOString().split('T')[0] || '',
             maintenanceMode: false
-          }
+          },
+          aiProviders: [],
+          fallbackChains: {}
         });
         setLoading(false);
         setRefreshing(false);
@@ -256,13 +275,38 @@ export default function SystemPage() {
         console.error('Error fetching performance metrics:', error);
       }
       
+      let aiData: { providers: AIProviderStatus[]; fallbackChains: Record<string, string[]> } = { providers: [], fallbackChains: {} };
+      try {
+        // Fetch AI provider circuit breaker state
+        const aiResponse = await fetch('/api/admin/system/ai-providers', { headers });
+        if (aiResponse.ok) {
+          aiData = await aiResponse.json();
+        } else {
+          console.error('AI provider check failed:', aiResponse.status, aiResponse.statusText);
+        }
+      } catch (error) {
+        console.error('Error fetching AI provider status:', error);
+      }
+
+      const configuredAIProviders = aiData.providers.filter(provider => provider.configured);
+      const openAICircuits = configuredAIProviders.filter(provider => provider.circuit.state === 'OPEN').length;
+      const aiServiceStatus = configuredAIProviders.length === 0 || openAICircuits === configuredAIProviders.length
+        ? 'error' as const
+        : 'running' as const;
+
       // Mock services data
       const servicesData = [
         { name: 'Database', status: 'running' as const, description: 'PostgreSQL database connection' },
         { name: 'Authentication', status: 'running' as const, description: 'NextAuth.js authentication service' },
         { name: 'Email Service', status: 'running' as const, description: 'Email delivery service' },
         { name: 'Background Jobs', status: 'running' as const, description: 'Cron jobs and scheduled tasks' },
-        { name: 'AI Service', status: 'running' as const, description: 'Content repurposing AI service' }
+        {
+          name: 'AI Service',
+          status: aiServiceStatus,
+          description: openAICircuits > 0
+            ? `Content repurposing AI service (${openAICircuits} of ${configuredAIProviders.length} provider circuits open)`
+            : 'Content repurposing AI service'
+        }
       ];
       
       setSystemStatus({
@@ -290,7 +334,9 @@ export default function SystemPage() {
           version: '1.0.0',
           buildDate: new Date().toISOString().split('T')[0] || '',
           maintenanceMode: maintenanceData.maintenanceMode || false
-        }
+        },
+        aiProviders: aiData.providers || [],
+        fallbackChains: aiData.fallbackChains || {}
       });
       
     } catch (error) {
@@ -314,7 +360,9 @@ export default function SystemPage() {
           version: '1.0.0',
           buildDate: new Date().toISOString().split('T')[0] || '',
           maintenanceMode: false
-        }
+        },
+        aiProviders: [],
+        fallbackChains: {}
       });
     } finally {
       setLoading(false);
@@ -965,6 +1013,68 @@ export default function SystemPage() {
             </div>
           </div>
 
+          {/* AI Provider Circuit Breakers */}
+          <div className="bg-white rounded-lg shadow">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h3 className="text-lg font-medium text-gray-900">AI Provider Circuit Breakers</h3>
+              <p className="text-sm text-gray-500 mt-1">
+                A provider&apos;s circuit opens after repeated rate limit, server or timeout errors; requests then use the next provider in the plan&apos;s fallback chain until the cool-down ends.
+              </p>
+            </div>
+            <div className="p-6">
+              {systemStatus.aiProviders.filter(provider => provider.configured).length === 0 ? (
+                <p className="text-sm text-gray-500">No AI providers are configured.</p>
+              ) : (
+                <div className="space-y-3">
+                  {systemStatus.aiProviders.filter(provider => provider.configured).map(provider => (
+                    <div key={provider.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                      <div className="flex items-center">
+                        <Cloud className="h-5 w-5 text-indigo-600 mr-2" />
+                        <div>
+                          <span className="text-sm font-medium">{provider.name}</span>
+                          <p className="text-xs text-gray-500">
+                            {provider.defaultModel} &middot; {provider.circuit.failures}/{provider.circuit.failureThreshold} failures
+                            {provider.circuit.lastFailureAt && ` · last failure ${new Date(provider.circuit.lastFailureAt).toLocaleTimeString()}`}
+                          </p>
+                        </div>
+                      </div>
+                      <div className="flex items-center space-x-4">
+                        {provider.circuit.state === 'OPEN' && provider.circuit.nextAttemptAt && (
+                          <span className="text-xs text-gray-500">
+                            Retry at {new Date(provider.circuit.nextAttemptAt).toLocaleTimeString()}
+                          </span>
+                        )}
+                        <span className={`px-2 py-1 text-xs font-medium rounded-full ${
+                          provider.circuit.state === 'CLOSED'
+                            ? 'bg-green-100 text-green-800'
+                            : provider.circuit.state === 'OPEN'
+                            ? 'bg-red-100 text-red-800'
+                            : 'bg-yellow-100 text-yellow-800'
+                        }`}>
+                          {provider.circuit.state.replace('_', '-').toLowerCase()}
+                        </span>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {Object.keys(systemStatus.fallbackChains).length > 0 && (
+                <div className="mt-6">
+                  <h4 className="text-sm font-medium text-gray-900 mb-2">Fallback chain by plan</h4>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-xs">
+                    {Object.entries(systemStatus.fallbackChains).map(([plan, chain]) => (
+                      <div key={plan} className="flex items-center justify-between p-2 border border-gray-200 rounded">
+                        <span className="font-medium capitalize">{plan}</span>
+                        <span className="text-gray-600">{chain.join(' → ')}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+
           {/* Service Dependencies */}
           <div className="bg-white rounded-lg shadow">
             <div className="px-6 py-4 border-b border-gray-200">
@@ -0,0 +1,58 @@
+/**
+ * @jest-environment node
+ */
+import { getServerSession } from 'next-auth'
+import { providerRegistry } from '@/lib/ai-providers'
+import { POST } from '../ai/validate/route'
+
+jest.mock('next-auth', () => ({ getServerSession: jest.fn() }))
+jest.mock('@/lib/ai-providers', () => ({ providerRegistry: { describe: jest.fn() } }))
+
+const mockedSession = getServerSession as any
+const mockedDescribe = providerRegistry.describe as any
+
+const validateRequest = (body: unknown) => new Request('http://localhost:3000/api/ai/validate', {
+  method: 'POST',
+  body: JSON.stringify(body)
+})
+
+const validBody = {
+  content: 'We launched a new product today. It helps small teams plan, write and publish their posts in one place.',
+  contentType: 'blog'
+}
+
+const provider = (id: string, configured: boolean, healthy: boolean) => ({
+  id,
+  name: id,
+  configured,
+  health: { healthy, checkedAt: '2026-01-01T00:00:00.000Z', ...(!healthy && { error: 'Timed out' }) }
+})
+
+describe('/api/ai/validate', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockedSession.mockResolvedValue({ user: { id: 'user-1' } })
+  })
+
+  it('should report the registry providers that pass their health probe', async () => {
+    mockedDescribe.mockResolvedValue([provider('anthropic', true, false), provider('groq', true, true), provider('mock', false, false)])
+
+    const response = await POST(validateRequest(validBody))
+    const { data } = await response.json()
+
+    expect(mockedDescribe).toHaveBeenCalledWith({ includeHealth: true })
+    expect(data.isValid).toBe(true)
+    expect(data.aiService).toMatchObject({ availableProviders: ['groq'], defaultProvider: 'groq' })
+    expect(data.aiService.providers).toHaveLength(3)
+  })
+
+  it('should mark content invalid when no configured provider is healthy', async () => {
+    mockedDescribe.mockResolvedValue([provider('anthropic', true, false), provider('mock', false, false)])
+
+    const { data } = await (await POST(validateRequest(validBody))).json()
+
+    expect(data.isValid).toBe(false)
+    expect(data.validation.errors).toEqual(['No AI provider is reachable right now. Please try again in a few minutes.'])
+    expect(data.aiService).toMatchObject({ availableProviders: [], defaultProvider: null })
+  })
+})
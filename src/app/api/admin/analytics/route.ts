@@ -1,6 +1,8 @@
 import { NextResponse } from 'next/server';
 import { validateAdminRequest } from '@/lib/admin-auth';
 import { withPrisma } from '@/lib/prisma-dynamic';
+import { aiUsageLedger, buildMarginReport, AIMarginReport, RevenueLookup } from '@/lib/ai-usage-ledger';
+import { promptExperiments } from '@/lib/prompt-experiments';
 
 // Force dynamic to prevent build-time execution
 export const dynamic = 'force-dynamic';
@@ -211,6 +213,43 @@ export async function GET(req: Request) {
       });
     }
 
+    // AI cost vs subscription revenue for the selected range (prices are monthly)
+    let aiCosts: AIMarginReport | null = null;
+    try {
+      const periodMonths = daysBack / 30;
+      const revenueLookup: RevenueLookup = { byPlan: {}, byUser: {} };
+      for (const [tier, count] of Object.entries(subscriptionBreakdown)) {
+        const price = tierPricing[tier as keyof typeof tierPricing] || 0;
+        revenueLookup.byPlan[tier] = Math.round(price * (count as number) * periodMonths * 100);
+      }
+      for (const subscriber of userSubscriptions) {
+        const tier = subscriber.subscriptionPlan || 'free';
+        const price = tierPricing[tier as keyof typeof tierPricing] || 0;
+        revenueLookup.byUser[subscriber.id] = {
+          revenue: Math.round(price * periodMonths * 100),
+          email: subscriber.email,
+          name: subscriber.name,
+          plan: tier
+        };
+      }
+
+      const costReport = await aiUsageLedger.getCostReport(startDate, now);
+      aiCosts = buildMarginReport(costReport, revenueLookup);
+    } catch (ledgerError) {
+      console.error('Analytics AI cost error:', ledgerError);
+    }
+
+    // Prompt A/B tests that are running or ended within the selected range
+    let experiments: any[] = [];
+    try {
+      const allExperiments = await promptExperiments.listExperiments();
+      experiments = allExperiments.filter((experiment: any) =>
+        experiment.status === 'running' || (experiment.endedAt && new Date(experiment.endedAt) >= startDate)
+      );
+    } catch (experimentError) {
+      console.error('Analytics prompt experiments error:', experimentError);
+    }
+
     const analyticsData = {
       success: true,
       overview: {
@@ -231,7 +270,8 @@ export async function GET(req: Request) {
           { plan: 'Basic', revenue: subscriptionBreakdown.basic * 29 * 100, users: subscriptionBreakdown.basic },
           { plan: 'Free', revenue: 0, users: subscriptionBreakdown.free }
         ].filter(plan => plan.users > 0 || plan.revenue > 0),
-        overageCharges: overageByMonth
+        overageCharges: overageByMonth,
+        aiCosts
       },
       users: {
         registrationTrend,
@@ -272,7 +312,8 @@ export async function GET(req: Request) {
           plan: plan.charAt(0).toUpperCase() + plan.slice(1),
           usage: Math.floor(Math.random() * 1000),
           limit: plan === 'agency' ? -1 : plan === 'pro' ? 200 : plan === 'basic' ? 50 : 5
-        })).filter(item => (item.usage > 0 || item.limit > 0))
+        })).filter(item => (item.usage > 0 || item.limit > 0)),
+        promptExperiments: experiments
       },
       support: {
         ticketsByStatus: ticketsByStatus.length > 0 ? ticketsByStatus : [
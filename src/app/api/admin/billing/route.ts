@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createAdminHandler, AdminAccessControl } from '@/lib/admin-middleware';
 import { withPrisma } from '@/lib/prisma-dynamic';
+import { aiUsageLedger, buildMarginReport, AIMarginReport, RevenueLookup } from '@/lib/ai-usage-ledger';
 
 export const dynamic = 'force-dynamic';
 export const runtime = 'nodejs';
@@ -34,6 +35,8 @@ export const GET = createAdminHandler(
           prisma.user.findMany({
             select: {
               id: true,
+              email: true,
+              name: true,
               subscriptionPlan: true,
               subscriptionStatus: true,
               createdAt: true,
@@ -217,6 +220,37 @@ export const GET = createAdminHandler(
         .sort((a, b) => b.totalSpent - a.totalSpent)
         .slice(0, 10);
 
+      // AI cost and margin over the same range, using the revenue figures above
+      let aiCosts: AIMarginReport | null = null;
+      try {
+        const revenueLookup: RevenueLookup = { byPlan: {}, byUser: {} };
+        for (const [plan, data] of Object.entries(subscriptionBreakdown) as [string, any][]) {
+          const price = planPricing[plan as keyof typeof planPricing] || 0;
+          const planOverage = overageCharges
+            .filter((charge: any) => charge.user?.subscriptionPlan === plan)
+            .reduce((sum: number, charge: any) => sum + (charge.amount || 0), 0);
+          revenueLookup.byPlan[plan] = Math.round((price * data.active * monthsBack + planOverage) * 100);
+        }
+        for (const subscriber of userSubscriptions) {
+          const isPaying = subscriber.subscriptionPlan !== 'free' && subscriber.subscriptionStatus === 'active';
+          const monthlyPrice = isPaying ? planPricing[subscriber.subscriptionPlan as keyof typeof planPricing] || 0 : 0;
+          const userOverage = overageCharges
+            .filter((charge: any) => charge.userId === subscriber.id)
+            .reduce((sum: number, charge: any) => sum + (charge.amount || 0), 0);
+          revenueLookup.byUser[subscriber.id] = {
+            revenue: Math.round((monthlyPrice * monthsBack + userOverage) * 100),
+            email: subscriber.email,
+            name: subscriber.name,
+            plan: subscriber.subscriptionPlan || 'free'
+          };
+        }
+
+        const costReport = await aiUsageLedger.getCostReport(startDate, now);
+        aiCosts = buildMarginReport(costReport, revenueLookup);
+      } catch (ledgerError) {
+        console.error('[ADMIN_BILLING_AI_COSTS]', ledgerError);
+      }
+
       // Prepare comprehensive billing data
       const billingData = {
         success: true,
@@ -290,6 +324,7 @@ export const GET = createAdminHandler(
           topOverageCustomers,
           overageByPlan: overageByPlan.filter(plan => plan.totalOverage > 0)
         },
+        aiCosts,
         insights: {
           topCustomers,
           revenueRisks: [
@@ -416,6 +451,7 @@ export const GET = createAdminHandler(
             { plan: 'Agency', totalOverage: 80000, customerCount: 15, avgPerCustomer: 5333 }
           ]
         },
+        aiCosts: null,
         insights: {
           topCustomers: [
             { name: 'Enterprise Client', email: 'billing@enterprise.com', plan: 'agency', totalSpent: 35000, mrr: 29900 },
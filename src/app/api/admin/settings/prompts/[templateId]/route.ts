@@ -0,0 +1,111 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { validateAdminRequest } from '@/lib/admin-auth';
+import { PERMISSIONS } from '@/lib/rbac';
+import { AppError } from '@/lib/error-handler';
+import { promptRegistry, PromptVersionWithUsage } from '@/lib/prompt-registry';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+const createVersionSchema = z.object({
+  body: z.string().min(1, 'Template body is required').max(20000),
+  changeNote: z.string().max(500).optional(),
+  activate: z.boolean().optional()
+});
+
+const activateSchema = z.object({
+  version: z.number().int().positive()
+});
+
+function errorResponse(error: unknown, fallback: string) {
+  if (error instanceof AppError) {
+    return NextResponse.json({ error: error.message, details: error.context?.errors }, { status: error.statusCode });
+  }
+  return NextResponse.json({ error: fallback }, { status: 500 });
+}
+
+// GET /api/admin/settings/prompts/[templateId] - Template with full version history
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ templateId: string }> }
+) {
+  try {
+    const { isValid, error } = await validateAdminRequest(req, { requiredPermission: PERMISSIONS.SETTINGS_READ });
+    if (!isValid) {
+      return NextResponse.json({ error: error || 'Unauthorized' }, { status: 401 });
+    }
+
+    const { templateId } = await params;
+    const template = await promptRegistry.getTemplate(templateId);
+
+    return NextResponse.json({
+      success: true,
+      template: {
+        ...template,
+        versions: template.versions.map(({ _count, ...version }: PromptVersionWithUsage) => ({
+          ...version,
+          outputCount: _count.repurposedContent
+        }))
+      }
+    });
+  } catch (error) {
+    console.error('[ADMIN_PROMPT_GET]', error);
+    return errorResponse(error, 'Failed to load prompt template');
+  }
+}
+
+// POST /api/admin/settings/prompts/[templateId] - Save an edit as a new version
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ templateId: string }> }
+) {
+  try {
+    const { isValid, error, payload } = await validateAdminRequest(req, { requiredPermission: PERMISSIONS.SETTINGS_WRITE });
+    if (!isValid) {
+      return NextResponse.json({ error: error || 'Unauthorized' }, { status: 401 });
+    }
+
+    const validation = createVersionSchema.safeParse(await req.json());
+    if (!validation.success) {
+      return NextResponse.json({ error: 'Invalid request', details: validation.error.errors.map(e => e.message) }, { status: 400 });
+    }
+
+    const { templateId } = await params;
+    const version = await promptRegistry.createVersion(templateId, {
+      ...validation.data,
+      createdBy: payload?.username
+    });
+
+    return NextResponse.json({ success: true, version }, { status: 201 });
+  } catch (error) {
+    console.error('[ADMIN_PROMPT_POST]', error);
+    return errorResponse(error, 'Failed to save prompt version');
+  }
+}
+
+// PATCH /api/admin/settings/prompts/[templateId] - Activate a version (rollback)
+export async function PATCH(
+  req: Request,
+  { params }: { params: Promise<{ templateId: string }> }
+) {
+  try {
+    const { isValid, error } = await validateAdminRequest(req, { requiredPermission: PERMISSIONS.SETTINGS_WRITE });
+    if (!isValid) {
+      return NextResponse.json({ error: error || 'Unauthorized' }, { status: 401 });
+    }
+
+    const validation = activateSchema.safeParse(await req.json());
+    if (!validation.success) {
+      return NextResponse.json({ error: 'A positive integer version is required' }, { status: 400 });
+    }
+
+    const { templateId } = await params;
+    const template = await promptRegistry.activateVersion(templateId, validation.data.version);
+
+    return NextResponse.json({ success: true, activeVersion: template.activeVersion });
+  } catch (error) {
+    console.error('[ADMIN_PROMPT_PATCH]', error);
+    return errorResponse(error, 'Failed to activate prompt version');
+  }
+}
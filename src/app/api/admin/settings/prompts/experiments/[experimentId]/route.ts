@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { validateAdminRequest } from '@/lib/admin-auth';
+import { PERMISSIONS } from '@/lib/rbac';
+import { AppError } from '@/lib/error-handler';
+import { promptExperiments } from '@/lib/prompt-experiments';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+const updateExperimentSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('stop') }),
+  z.object({ action: z.literal('promote'), winner: z.enum(['control', 'treatment']) })
+]);
+
+// PATCH /api/admin/settings/prompts/experiments/[experimentId] - Stop, or promote the winning arm
+export async function PATCH(
+  req: Request,
+  { params }: { params: Promise<{ experimentId: string }> }
+) {
+  try {
+    const { isValid, error } = await validateAdminRequest(req, { requiredPermission: PERMISSIONS.SETTINGS_WRITE });
+    if (!isValid) {
+      return NextResponse.json({ error: error || 'Unauthorized' }, { status: 401 });
+    }
+
+    const validation = updateExperimentSchema.safeParse(await req.json());
+    if (!validation.success) {
+      return NextResponse.json({ error: 'Action must be "stop", or "promote" with a winner' }, { status: 400 });
+    }
+
+    const { experimentId } = await params;
+    const experiment = validation.data.action === 'stop'
+      ? await promptExperiments.stopExperiment(experimentId)
+      : await promptExperiments.promoteExperiment(experimentId, validation.data.winner);
+
+    return NextResponse.json({ success: true, experiment });
+  } catch (error) {
+    console.error('[ADMIN_PROMPT_EXPERIMENT_PATCH]', error);
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    return NextResponse.json({ error: 'Failed to update prompt experiment' }, { status: 500 });
+  }
+}
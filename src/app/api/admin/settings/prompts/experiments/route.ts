@@ -0,0 +1,72 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { validateAdminRequest } from '@/lib/admin-auth';
+import { PERMISSIONS } from '@/lib/rbac';
+import { AppError } from '@/lib/error-handler';
+import { promptExperiments, ExperimentStatus } from '@/lib/prompt-experiments';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+const startExperimentSchema = z.object({
+  templateId: z.string().min(1, 'Template is required'),
+  treatmentVersion: z.number().int().positive(),
+  trafficPercent: z.number().int().min(1).max(99).default(50),
+  name: z.string().max(200).optional()
+});
+
+const STATUSES: ExperimentStatus[] = ['running', 'stopped', 'promoted'];
+
+function errorResponse(error: unknown, fallback: string) {
+  if (error instanceof AppError) {
+    return NextResponse.json({ error: error.message }, { status: error.statusCode });
+  }
+  return NextResponse.json({ error: fallback }, { status: 500 });
+}
+
+// GET /api/admin/settings/prompts/experiments - Experiments with per-arm results
+export async function GET(req: Request) {
+  try {
+    const { isValid, error } = await validateAdminRequest(req, { requiredPermission: PERMISSIONS.SETTINGS_READ });
+    if (!isValid) {
+      return NextResponse.json({ error: error || 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const status = searchParams.get('status') as ExperimentStatus | null;
+    const experiments = await promptExperiments.listExperiments({
+      templateId: searchParams.get('templateId') || undefined,
+      status: status && STATUSES.includes(status) ? status : undefined
+    });
+
+    return NextResponse.json({ success: true, experiments });
+  } catch (error) {
+    console.error('[ADMIN_PROMPT_EXPERIMENTS_GET]', error);
+    return errorResponse(error, 'Failed to load prompt experiments');
+  }
+}
+
+// POST /api/admin/settings/prompts/experiments - Start testing a version against the live one
+export async function POST(req: Request) {
+  try {
+    const { isValid, error, payload } = await validateAdminRequest(req, { requiredPermission: PERMISSIONS.SETTINGS_WRITE });
+    if (!isValid) {
+      return NextResponse.json({ error: error || 'Unauthorized' }, { status: 401 });
+    }
+
+    const validation = startExperimentSchema.safeParse(await req.json());
+    if (!validation.success) {
+      return NextResponse.json({ error: 'Invalid request', details: validation.error.errors.map(e => e.message) }, { status: 400 });
+    }
+
+    const experiment = await promptExperiments.startExperiment({
+      ...validation.data,
+      createdBy: payload?.username
+    });
+
+    return NextResponse.json({ success: true, experiment }, { status: 201 });
+  } catch (error) {
+    console.error('[ADMIN_PROMPT_EXPERIMENTS_POST]', error);
+    return errorResponse(error, 'Failed to start prompt experiment');
+  }
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { validateAdminRequest } from '@/lib/admin-auth';
+import { PERMISSIONS } from '@/lib/rbac';
+import { promptRegistry, PromptTemplateSummary } from '@/lib/prompt-registry';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+// GET /api/admin/settings/prompts - List prompt templates with their active version
+export async function GET(req: Request) {
+  try {
+    const { isValid, error } = await validateAdminRequest(req, { requiredPermission: PERMISSIONS.SETTINGS_READ });
+    if (!isValid) {
+      return NextResponse.json({ error: error || 'Unauthorized' }, { status: 401 });
+    }
+
+    const templates = await promptRegistry.listTemplates();
+
+    return NextResponse.json({
+      success: true,
+      templates: templates.map((template: PromptTemplateSummary) => ({
+        id: template.id,
+        key: template.key,
+        variant: template.variant,
+        name: template.name,
+        description: template.description,
+        activeVersion: template.activeVersion,
+        versionCount: template._count.versions,
+        updatedAt: template.updatedAt
+      }))
+    });
+  } catch (error) {
+    console.error('[ADMIN_PROMPTS_GET]', error);
+    return NextResponse.json({ error: 'Failed to load prompt templates' }, { status: 500 });
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateAdminRequest } from '@/lib/admin-auth'
+import { providerRegistry, PLAN_PROVIDERS } from '@/lib/ai-providers'
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+// GET - AI provider configuration, fallback chains and circuit breaker state
+export async function GET(req: NextRequest) {
+  try {
+    const authResult = await validateAdminRequest(req)
+    if (!authResult.isValid) {
+      return NextResponse.json({ error: authResult.error || 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(req.url)
+    const providers = await providerRegistry.describe({ includeHealth: searchParams.get('health') === 'true' })
+
+    return NextResponse.json({
+      success: true,
+      providers,
+      fallbackChains: PLAN_PROVIDERS,
+      openCircuits: providers.filter(provider => provider.configured && provider.circuit.state === 'OPEN').length,
+      timestamp: new Date().toISOString()
+    })
+  } catch (error) {
+    console.error('[ADMIN_AI_PROVIDERS_GET]', error)
+    return NextResponse.json({ error: 'Failed to load AI provider status' }, { status: 500 })
+  }
+}
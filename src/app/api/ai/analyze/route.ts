@@ -8,10 +8,9 @@ import { z } from 'zod';
 const analyzeRequestSchema = z.object({
   content: z.string().min(10, 'Content must be at least 10 characters'),
   contentType: z.string().optional(),
-  analysisType: z.enum(['quality', 'optimization', 'keywords', 'plagiarism', 'multilang']).default('quality'),
+  analysisType: z.enum(['quality', 'optimization', 'keywords', 'plagiarism']).default('quality'),
   targetPlatform: z.string().optional(),
   targetAudience: z.string().optional(),
-  targetLanguages: z.array(z.string()).optional(),
   industry: z.string().optional()
 });
 
@@ -47,7 +46,6 @@ export async function POST(request: NextRequest) {
       analysisType, 
       targetPlatform, 
       targetAudience, 
-      targetLanguages,
       industry 
     } = validationResult.data;
 
@@ -90,20 +88,6 @@ export async function POST(request: NextRequest) {
         result = await aiContentAnalyzer.checkPlagiarism(content, session.user.id);
         break;
 
-      case 'multilang':
-        if (!targetLanguages || targetLanguages.length === 0) {
-          return NextResponse.json(
-            { error: 'Target languages required for multi-language analysis' },
-            { status: 400 }
-          );
-        }
-        result = await aiContentAnalyzer.analyzeMultiLanguageContent(
-          content, 
-          targetLanguages, 
-          session.user.id
-        );
-        break;
-
       default:
         return NextResponse.json({ error: 'Invalid analysis type' }, { status: 400 });
     }
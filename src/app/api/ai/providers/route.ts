@@ -1,58 +1,61 @@
 import { NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
 import { aiService } from '@/lib/ai-service';
-import { ANTHROPIC_MODELS, GROQ_MODELS, ANTHROPIC_API_KEY, GROQ_API_KEY } from '@/lib/config';
+import { providerRegistry } from '@/lib/ai-providers';
+import { SubscriptionPlan } from '@/lib/subscription';
 
 // GET - Get available AI providers and models
+// Pass ?health=true to include a (cached) reachability probe per provider
 export async function GET(req: Request) {
   try {
     const session = await getServerSession(authOptions);
     const userId = session?.user?.id;
-    
+
     if (!userId) {
       return new NextResponse('Unauthorized', { status: 401 });
     }
 
-    // Get available providers
-    const availableProviders = aiService.getAvailableProviders();
+    const { searchParams } = new URL(req.url);
+    const includeHealth = searchParams.get('health') === 'true';
 
-    // Build response with provider information
-    const providersInfo = {
-      anthropic: {
-        available: aiService.isProviderAvailable('anthropic'),
-        configured: !!ANTHROPIC_API_KEY,
-        models: Object.entries(ANTHROPIC_MODELS).map(([key, value]) => ({
-          id: value,
-          name: key.replace(/_/g, ' ').toLowerCase().replace(/\b\w/g, l => l.toUpperCase()),
-          description: getAnthropicModelDescription(key)
-        }))
-      },
-      groq: {
-        available: aiService.isProviderAvailable('groq'),
-        configured: !!GROQ_API_KEY,
-        models: Object.entries(GROQ_MODELS).map(([key, value]) => ({
-          id: value,
-          name: key.replace(/_/g, ' ').toLowerCase().replace(/\b\w/g, l => l.toUpperCase()),
-          description: getGroqModelDescription(key)
-        }))
+    // Resolve the user's plan so we can report which providers they may pick
+    let plan: SubscriptionPlan = 'free';
+    try {
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { subscriptionPlan: true }
+      });
+      if (user?.subscriptionPlan) {
+        plan = user.subscriptionPlan as SubscriptionPlan;
       }
-    };
+    } catch (error) {
+      console.error('[AI_PROVIDERS_GET] Error fetching user plan:', error);
+    }
+
+    const availableProviders = aiService.getAvailableProviders();
+    const planProviders = aiService.getProvidersForPlan(plan);
+    const providers = await providerRegistry.describe({ includeHealth });
 
-    // Get default provider (first available)
-    const defaultProvider = availableProviders.length > 0 ? availableProviders[0] : null;
+    // Prefer a provider the plan allows, falling back to anything configured
+    const pick = (preferred: string) =>
+      planProviders.find(id => id === preferred) || planProviders[0] || availableProviders[0] || null;
 
     return NextResponse.json({
       success: true,
       data: {
         availableProviders,
-        defaultProvider,
-        providers: providersInfo,
+        planProviders,
+        defaultProvider: planProviders[0] || availableProviders[0] || null,
+        plan,
+        providers,
         totalConfigured: availableProviders.length,
         recommendations: {
-          speed: availableProviders.includes('groq') ? 'groq' : availableProviders[0],
-          quality: availableProviders.includes('anthropic') ? 'anthropic' : availableProviders[0],
-          balance: availableProviders.includes('anthropic') ? 'anthropic' : availableProviders[0]
+          speed: pick('groq'),
+          quality: pick('anthropic'),
+          balance: pick('anthropic'),
+          privacy: pick('openai-compatible')
         }
       }
     });
@@ -62,37 +65,3 @@ export async function GET(req: Request) {
     return new NextResponse('Internal Error', { status: 500 });
   }
 }
-
-// Helper function to get Anthropic model descriptions
-function getAnthropicModelDescription(modelKey: string): string {
-  switch (modelKey) {
-    case 'CLAUDE_3_OPUS':
-      return 'Most capable model with superior performance on highly complex tasks';
-    case 'CLAUDE_3_SONNET':
-      return 'Balanced model with strong performance and speed for most tasks';
-    case 'CLAUDE_3_HAIKU':
-      return 'Fastest and most compact model for simple tasks and quick responses';
-    case 'DEFAULT':
-      return 'Default recommended model for general use';
-    default:
-      return 'Claude AI model for content generation and processing';
-  }
-}
-
-// Helper function to get Groq model descriptions
-function getGroqModelDescription(modelKey: string): string {
-  switch (modelKey) {
-    case 'LLAMA_3_1_70B_VERSATILE':
-      return 'High-quality, versatile model suitable for complex tasks';
-    case 'LLAMA_3_1_8B_INSTANT':
-      return 'Fast model optimized for quick responses and simple tasks';
-    case 'MIXTRAL_8X7B_32768':
-      return 'Model with large context window for processing long content';
-    case 'GEMMA_7B_IT':
-      return 'Instruction-tuned model optimized for following specific guidelines';
-    case 'DEFAULT':
-      return 'Default recommended model for general use';
-    default:
-      return 'Groq AI model for fast content generation';
-  }
-}
\ No newline at end of file
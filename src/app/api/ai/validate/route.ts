@@ -1,7 +1,7 @@
 import { NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
-import { aiService } from '@/lib/ai-service';
+import { providerRegistry } from '@/lib/ai-providers';
 import { PLATFORM_LIMITS } from '@/lib/ai-prompts';
 import { z } from 'zod';
 
@@ -158,11 +158,16 @@ export async function POST(req: Request) {
       }
     }
 
-    // AI service availability check
-    const availableProviders = aiService.getAvailableProviders();
-    if (availableProviders.length === 0) {
+    // AI service availability check - a configured provider only counts if its (cached) health probe passes
+    const providers = await providerRegistry.describe({ includeHealth: true });
+    const configuredProviders = providers.filter(provider => provider.configured);
+    const availableProviders = configuredProviders.filter(provider => provider.health?.healthy).map(provider => provider.id);
+    if (configuredProviders.length === 0) {
       validationResults.errors.push('No AI providers are currently available. Please contact support.');
       validationResults.isValid = false;
+    } else if (availableProviders.length === 0) {
+      validationResults.errors.push('No AI provider is reachable right now. Please try again in a few minutes.');
+      validationResults.isValid = false;
     }
 
     // Generate recommendations
@@ -181,7 +186,8 @@ export async function POST(req: Request) {
         recommendations,
         aiService: {
           availableProviders,
-          defaultProvider: availableProviders[0] || null
+          defaultProvider: availableProviders[0] || null,
+          providers
         }
       }
     });
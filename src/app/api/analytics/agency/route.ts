@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
+import { clientCampaigns, ClientUsageRow } from '@/lib/client-campaigns';
 
 export async function GET(req: NextRequest) {
   try {
@@ -35,12 +36,24 @@ export async function GET(req: NextRequest) {
     const { searchParams } = new URL(req.url);
     const range = searchParams.get('range') || '30d';
 
+    // Real per-client usage for the range, for agencies that file work under clients
+    const rangeDays = parseInt(range, 10) || 30;
+    let clientUsage: ClientUsageRow[] | null = null;
+    if (user.teamId) {
+      try {
+        clientUsage = await clientCampaigns.getClientUsage(user.teamId, new Date(now.getTime() - rangeDays * 24 * 60 * 60 * 1000), now);
+      } catch (error) {
+        console.error('[AGENCY_ANALYTICS_CLIENT_USAGE]', error);
+      }
+    }
+    const billableClients = clientUsage?.filter(row => row.clientId !== null) ?? [];
+
     // Generate comprehensive analytics data for agency plan
     const analyticsData = {
       overview: {
         totalContentCreated: Math.floor(Math.random() * 1000) + 500,
         thisMonthContent: Math.floor(Math.random() * 200) + 50,
-        totalClients: Math.floor(Math.random() * 20) + 5,
+        totalClients: clientUsage ? billableClients.filter(row => !row.archived).length : Math.floor(Math.random() * 20) + 5,
         activeProjects: Math.floor(Math.random() * 15) + 8,
         teamProductivity: 87.5 + Math.random() * 10,
         clientSatisfaction: 4.2 + Math.random() * 0.6,
@@ -97,12 +110,21 @@ export async function GET(req: NextRequest) {
           satisfaction: 4.0 + Math.random() * 1.0,
         })),
         
-        contentByClient: Array.from({ length: 8 }, (_, i) => ({
-          client: `Client ${String.fromCharCode(65 + i)}`,
-          posts: Math.floor(Math.random() * 50) + 10,
-          campaigns: Math.floor(Math.random() * 10) + 2,
-          platforms: Math.floor(Math.random() * 5) + 2,
-        })),
+        contentByClient: clientUsage
+          ? billableClients.map(row => ({
+              client: row.name,
+              posts: row.outputs,
+              contents: row.contents,
+              costUsd: row.costUsd,
+            }))
+          : Array.from({ length: 8 }, (_, i) => ({
+              client: `Client ${String.fromCharCode(65 + i)}`,
+              posts: Math.floor(Math.random() * 50) + 10,
+              campaigns: Math.floor(Math.random() * 10) + 2,
+              platforms: Math.floor(Math.random() * 5) + 2,
+            })),
+
+        usage: clientUsage ?? [],
       },
       
       contentInsights: {
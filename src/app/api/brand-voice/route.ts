@@ -3,6 +3,7 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { tableExists, validateUserTable } from '@/lib/db-setup';
+import { brandVoiceInputSchema, brandVoices } from '@/lib/brand-voices';
 import { z } from 'zod';
 
 // Validation schema
@@ -14,6 +15,42 @@ const brandVoiceSchema = z.object({
   additionalGuidelines: z.string().optional().nullable()
 });
 
+type ProfileFields = { tone?: string | null; targetAudience?: string | null; additionalGuidelines?: string | null };
+
+/**
+ * Tone, audience and guidelines live on the default brand voice profile, not on Settings
+ */
+async function getDefaultProfileFields(userId: string) {
+  try {
+    const profile = await prisma.brandVoice.findFirst({
+      where: { userId, isDefault: true },
+      select: { id: true, description: true, tone: true, targetAudience: true, guidelines: true }
+    });
+    return profile;
+  } catch (error) {
+    console.error('[BRAND_VOICE] Failed to load default profile:', error);
+    return null;
+  }
+}
+
+/**
+ * Keep the default profile in step with the single brand voice this route edits. A default
+ * profile is only created when the request sets fields Settings can't hold.
+ */
+async function saveDefaultProfileFields(userId: string, brandVoice: string, fields: ProfileFields) {
+  const profileFields = {
+    ...(fields.tone !== undefined && { tone: fields.tone }),
+    ...(fields.targetAudience !== undefined && { targetAudience: fields.targetAudience }),
+    ...(fields.additionalGuidelines !== undefined && { guidelines: fields.additionalGuidelines })
+  };
+  const existing = await getDefaultProfileFields(userId);
+  if (existing) {
+    await prisma.brandVoice.update({ where: { id: existing.id }, data: { description: brandVoice, ...profileFields } });
+  } else if (Object.values(profileFields).some(Boolean)) {
+    await brandVoices.create(userId, brandVoiceInputSchema.parse({ name: 'Default', description: brandVoice, ...profileFields, isDefault: true }));
+  }
+}
+
 // GET - Fetch user's brand voice settings
 export async function GET(req: Request) {
   try {
@@ -56,12 +93,10 @@ export async function GET(req: Request) {
         where: { userId },
         select: {
           brandVoice: true,
-          preferredPlatforms: true,
-          tone: true,
-          targetAudience: true,
-          additionalGuidelines: true
+          preferredPlatforms: true
         }
       });
+      const profile = await getDefaultProfileFields(userId);
 
       if (!settings) {
         // Return default settings if user doesn't have any saved
@@ -77,6 +112,11 @@ export async function GET(req: Request) {
 
       return NextResponse.json({
         ...settings,
+        brandVoice: profile?.description ?? settings.brandVoice,
+        tone: profile?.tone ?? null,
+        targetAudience: profile?.targetAudience ?? null,
+        additionalGuidelines: profile?.guidelines ?? null,
+        profileId: profile?.id ?? null,
         exists: true
       });
 
@@ -88,10 +128,7 @@ export async function GET(req: Request) {
         const rawSettings = await prisma.$queryRawUnsafe<any[]>(`
           SELECT 
             "brandVoice",
-            "preferredPlatforms",
-            "tone",
-            "targetAudience",
-            "additionalGuidelines"
+            "preferredPlatforms"
           FROM "Settings"
           WHERE "userId" = $1
           LIMIT 1
@@ -100,6 +137,9 @@ export async function GET(req: Request) {
         if (rawSettings && rawSettings.length > 0) {
           return NextResponse.json({
             ...rawSettings[0],
+            tone: null,
+            targetAudience: null,
+            additionalGuidelines: null,
             exists: true
           });
         } else {
@@ -189,32 +229,24 @@ export async function POST(req: Request) {
         update: {
           brandVoice,
           preferredPlatforms: preferredPlatforms || [],
-          tone,
-          targetAudience,
-          additionalGuidelines,
           updatedAt: new Date()
         },
         create: {
           userId,
           brandVoice,
-          preferredPlatforms: preferredPlatforms || [],
-          tone,
-          targetAudience,
-          additionalGuidelines
+          preferredPlatforms: preferredPlatforms || []
         },
         select: {
           brandVoice: true,
           preferredPlatforms: true,
-          tone: true,
-          targetAudience: true,
-          additionalGuidelines: true,
           updatedAt: true
         }
       });
+      await saveDefaultProfileFields(userId, brandVoice, { tone, targetAudience, additionalGuidelines });
 
       return NextResponse.json({
         success: true,
-        data: settings,
+        data: { ...settings, tone, targetAudience, additionalGuidelines },
         message: 'Brand voice settings saved successfully'
       });
 
@@ -235,22 +267,18 @@ export async function POST(req: Request) {
             SET 
               "brandVoice" = $2,
               "preferredPlatforms" = $3,
-              "tone" = $4,
-              "targetAudience" = $5,
-              "additionalGuidelines" = $6,
               "updatedAt" = NOW()
             WHERE "userId" = $1
-          `, userId, brandVoice, JSON.stringify(preferredPlatforms || []), tone, targetAudience, additionalGuidelines);
+          `, userId, brandVoice, preferredPlatforms || []);
         } else {
           // Create new settings
           await prisma.$executeRawUnsafe(`
             INSERT INTO "Settings" (
               "id", "userId", "brandVoice", "preferredPlatforms", 
-              "tone", "targetAudience", "additionalGuidelines", 
               "createdAt", "updatedAt"
             )
-            VALUES ($1, $2, $3, $4, $5, $6, $7, NOW(), NOW())
-          `, `settings_${userId}`, userId, brandVoice, JSON.stringify(preferredPlatforms || []), tone, targetAudience, additionalGuidelines);
+            VALUES ($1, $2, $3, $4, NOW(), NOW())
+          `, `settings_${userId}`, userId, brandVoice, preferredPlatforms || []);
         }
 
         return NextResponse.json({
@@ -0,0 +1,89 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { AppError } from '@/lib/error-handler';
+import { brandVoices, brandVoiceUpdateSchema, formatBrandVoice } from '@/lib/brand-voices';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+// GET /api/brand-voices/[brandVoiceId] - A profile and the brand voice text it adds to prompts
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ brandVoiceId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    const userId = session?.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { brandVoiceId } = await params;
+    const profile = await brandVoices.get(userId, brandVoiceId);
+
+    return NextResponse.json({
+      success: true,
+      data: { ...profile, shared: !!profile.teamId, editable: profile.userId === userId, prompt: formatBrandVoice(profile) }
+    });
+  } catch (error) {
+    console.error('[BRAND_VOICE_PROFILE_GET]', error);
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    return NextResponse.json({ error: 'Failed to load brand voice' }, { status: 500 });
+  }
+}
+
+// PATCH /api/brand-voices/[brandVoiceId] - Edit, share or make the default (owner only)
+export async function PATCH(
+  req: Request,
+  { params }: { params: Promise<{ brandVoiceId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    const userId = session?.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const validation = brandVoiceUpdateSchema.safeParse(await req.json());
+    if (!validation.success) {
+      return NextResponse.json({ error: 'Validation failed', details: validation.error.issues }, { status: 400 });
+    }
+
+    const { brandVoiceId } = await params;
+    const profile = await brandVoices.update(userId, brandVoiceId, validation.data);
+    return NextResponse.json({ success: true, data: profile });
+  } catch (error) {
+    console.error('[BRAND_VOICE_PROFILE_PATCH]', error);
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    return NextResponse.json({ error: 'Failed to update brand voice' }, { status: 500 });
+  }
+}
+
+// DELETE /api/brand-voices/[brandVoiceId] - Delete a profile (owner only)
+export async function DELETE(
+  req: Request,
+  { params }: { params: Promise<{ brandVoiceId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    const userId = session?.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { brandVoiceId } = await params;
+    await brandVoices.delete(userId, brandVoiceId);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[BRAND_VOICE_PROFILE_DELETE]', error);
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    return NextResponse.json({ error: 'Failed to delete brand voice' }, { status: 500 });
+  }
+}
@@ -0,0 +1,86 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { z } from 'zod';
+import { authOptions } from '@/lib/auth';
+import { AppError } from '@/lib/error-handler';
+import { examplePostsSchema } from '@/lib/brand-voices';
+import { readExamplePostsFile, splitPastedPosts, toBrandVoiceDraft } from '@/lib/brand-voice-learning';
+import { aiContentAnalyzer } from '@/lib/ai-content-analyzer';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+const MAX_FILE_BYTES = 1024 * 1024;
+
+// Posts as a list, or pasted text separated by --- lines or blank lines
+const learnSchema = z.object({
+  posts: z.array(z.string()).optional(),
+  text: z.string().max(250000).optional()
+}).refine(body => body.posts || body.text, { message: 'Send example posts as posts or text' });
+
+// POST /api/brand-voices/learn - Derive a brand voice from 5-50 example posts, sent as { posts },
+// pasted as { text } or uploaded as a .txt, .csv or .json file (multipart "file" field). Nothing is
+// saved: the response holds a draft profile to edit, and saving it with examplePosts stores the fingerprint.
+export async function POST(req: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    const userId = session?.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let candidates: string[];
+    if (req.headers.get('content-type')?.includes('multipart/form-data')) {
+      const form = await req.formData();
+      const file = form.get('file');
+      if (!(file instanceof File)) {
+        return NextResponse.json({ error: 'Attach a file in the "file" field' }, { status: 400 });
+      }
+      if (file.size > MAX_FILE_BYTES) {
+        return NextResponse.json({ error: 'Example post files can be at most 1 MB' }, { status: 413 });
+      }
+      candidates = readExamplePostsFile(await file.text(), file.name);
+    } else {
+      let body;
+      try {
+        body = await req.json();
+      } catch {
+        return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 });
+      }
+
+      const request = learnSchema.safeParse(body);
+      if (!request.success) {
+        return NextResponse.json({ error: 'Validation failed', details: request.error.issues }, { status: 400 });
+      }
+      candidates = request.data.posts ?? splitPastedPosts(request.data.text ?? '');
+    }
+
+    const validation = examplePostsSchema.safeParse(candidates);
+    if (!validation.success) {
+      return NextResponse.json({
+        error: validation.error.issues[0]?.message || 'Validation failed',
+        details: validation.error.issues
+      }, { status: 400 });
+    }
+
+    const posts = validation.data;
+    const learned = await aiContentAnalyzer.learnBrandVoice(posts, userId);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        draft: toBrandVoiceDraft(learned, posts),
+        analysis: learned.voice,
+        fingerprint: learned.fingerprint,
+        source: learned.source,
+        examplePosts: posts
+      }
+    });
+  } catch (error) {
+    console.error('[BRAND_VOICE_LEARN]', error);
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    return NextResponse.json({ error: 'Failed to learn brand voice' }, { status: 500 });
+  }
+}
@@ -0,0 +1,60 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { AppError } from '@/lib/error-handler';
+import { brandVoices, brandVoiceInputSchema } from '@/lib/brand-voices';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+// GET /api/brand-voices - The user's brand voice profiles and those shared with their team
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    const userId = session?.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const profiles = await brandVoices.list(userId);
+    return NextResponse.json({
+      success: true,
+      data: profiles.map((profile: { userId: string; teamId: string | null }) => ({
+        ...profile,
+        shared: !!profile.teamId,
+        editable: profile.userId === userId
+      }))
+    });
+  } catch (error) {
+    console.error('[BRAND_VOICES_GET]', error);
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    return NextResponse.json({ error: 'Failed to load brand voices' }, { status: 500 });
+  }
+}
+
+// POST /api/brand-voices - Create a profile; the first one becomes the default
+export async function POST(req: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    const userId = session?.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const validation = brandVoiceInputSchema.safeParse(await req.json());
+    if (!validation.success) {
+      return NextResponse.json({ error: 'Validation failed', details: validation.error.issues }, { status: 400 });
+    }
+
+    const profile = await brandVoices.create(userId, validation.data);
+    return NextResponse.json({ success: true, data: profile }, { status: 201 });
+  } catch (error) {
+    console.error('[BRAND_VOICES_POST]', error);
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    return NextResponse.json({ error: 'Failed to create brand voice' }, { status: 500 });
+  }
+}
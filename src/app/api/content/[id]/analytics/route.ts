@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
+import { analyticsTracker } from '@/lib/analytics-tracker';
+import { ExperimentOutcomeType } from '@/lib/prompt-experiments';
 import { z } from 'zod';
 
 const updateAnalyticsSchema = z.object({
@@ -12,11 +14,25 @@ const updateAnalyticsSchema = z.object({
 });
 
 const trackEventSchema = z.object({
-  event: z.enum(['view', 'repurpose', 'share', 'copy', 'download']),
+  event: z.enum(['view', 'repurpose', 'share', 'copy', 'download', 'edit', 'regenerate', 'rating']),
   platform: z.string().optional(),
+  value: z.number().min(0).max(1).optional(), // Rating: 1 helpful, 0 not helpful
   metadata: z.record(z.any()).optional()
+}).refine(data => data.event !== 'rating' || data.value !== undefined, {
+  message: 'A rating needs a value of 0 or 1',
+  path: ['value']
 });
 
+// Events on a platform output that count towards prompt experiment results
+const OUTCOME_EVENTS: Record<string, ExperimentOutcomeType> = {
+  copy: 'copy',
+  share: 'export',
+  download: 'export',
+  edit: 'edit',
+  regenerate: 'regenerate',
+  rating: 'rating'
+};
+
 // GET - Get analytics for a content item
 export async function GET(
   request: NextRequest,
@@ -146,7 +162,7 @@ export async function POST(
       );
     }
 
-    const { event, platform, metadata } = validation.data;
+    const { event, platform, value, metadata } = validation.data;
 
     // Check if the content exists and belongs to the user
     const content = await prisma.content.findFirst({
@@ -194,6 +210,9 @@ export async function POST(
       case 'share':
       case 'copy':
       case 'download':
+      case 'edit':
+      case 'regenerate':
+      case 'rating':
         // Update engagement metrics
         const currentEngagement = analytics.engagement as any || {};
         const eventKey = platform ? `${event}_${platform}` : event;
@@ -232,6 +251,11 @@ export async function POST(
       data: updateData
     });
 
+    const outcome = OUTCOME_EVENTS[event];
+    if (outcome && platform) {
+      await analyticsTracker.trackContentOutcome(user.id, contentId, platform, outcome, value);
+    }
+
     return NextResponse.json({
       success: true,
       analytics: updatedAnalytics,
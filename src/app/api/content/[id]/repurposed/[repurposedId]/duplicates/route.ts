@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { AppError } from '@/lib/error-handler';
+import { duplicateDetector } from '@/lib/duplicate-detection';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+type RouteParams = { params: Promise<{ id: string; repurposedId: string }> };
+
+// GET /api/content/[id]/repurposed/[repurposedId]/duplicates - Earlier posts on the same platform this output repeats
+export async function GET(_req: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    const userId = session?.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id, repurposedId } = await params;
+    const report = await duplicateDetector.checkOutput(userId, id, repurposedId);
+
+    return NextResponse.json({ success: true, data: report });
+  } catch (error) {
+    console.error('[REPURPOSED_DUPLICATES_GET]', error);
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    return NextResponse.json({ error: 'Failed to check for repeated posts' }, { status: 500 });
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { AppError } from '@/lib/error-handler';
+import { EMAIL_FORMATS, EmailFormat, emailFileName, renderEml } from '@/lib/email-renderer';
+import { emailOutputs } from '@/lib/email-outputs';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+type RouteParams = { params: Promise<{ id: string; repurposedId: string }> };
+
+const CONTENT_TYPES: Record<EmailFormat, string> = {
+  html: 'text/html; charset=utf-8',
+  text: 'text/plain; charset=utf-8',
+  mjml: 'application/xml; charset=utf-8',
+  eml: 'message/rfc822'
+};
+
+// GET /api/content/[id]/repurposed/[repurposedId]/email - An email or newsletter output rendered with the team's branding
+// ?format=html|text|mjml|eml returns the file itself (as a download with ?download=1); without it, all formats as JSON
+export async function GET(req: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    const userId = session?.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const format = req.nextUrl.searchParams.get('format');
+    if (format !== null && !(EMAIL_FORMATS as readonly string[]).includes(format)) {
+      return NextResponse.json({ error: `format must be one of ${EMAIL_FORMATS.join(', ')}` }, { status: 400 });
+    }
+
+    const { id, repurposedId } = await params;
+    const rendered = await emailOutputs.render(userId, id, repurposedId);
+
+    if (format === null) {
+      const { id: outputId, platform, subject, preheader, html, text, mjml, theme } = rendered;
+      return NextResponse.json({ success: true, data: { id: outputId, platform, subject, preheader, html, text, mjml, theme } });
+    }
+
+    const emailFormat = format as EmailFormat;
+    const body = emailFormat === 'eml'
+      ? renderEml(rendered, { from: session.user?.email ?? undefined })
+      : rendered[emailFormat];
+    const disposition = req.nextUrl.searchParams.get('download') === '1' ? 'attachment' : 'inline';
+
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': CONTENT_TYPES[emailFormat],
+        'Content-Disposition': `${disposition}; filename="${emailFileName(rendered.subject, emailFormat)}"`,
+        'Cache-Control': 'private, no-store'
+      }
+    });
+  } catch (error) {
+    console.error('[REPURPOSED_EMAIL_GET]', error);
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    return NextResponse.json({ error: 'Failed to render the email' }, { status: 500 });
+  }
+}
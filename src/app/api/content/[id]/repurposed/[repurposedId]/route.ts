@@ -0,0 +1,200 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { z } from 'zod';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { AppError } from '@/lib/error-handler';
+import { aiService, RevisionAction } from '@/lib/ai-service';
+import { createUsageRequestId } from '@/lib/ai-usage-ledger';
+import { analyticsTracker } from '@/lib/analytics-tracker';
+import { contentRevisions } from '@/lib/content-revisions';
+import { brandVoices } from '@/lib/brand-voices';
+import { glossaries } from '@/lib/glossary';
+import { canUserRepurpose, incrementUsage, PLAN_PLATFORMS, REVISION_USAGE_COST, SubscriptionPlan } from '@/lib/subscription';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+const reviseSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('regenerate'), instruction: z.string().trim().max(1000).optional() }),
+  z.object({ action: z.literal('refine'), instruction: z.string().trim().min(1, 'Describe how to refine the output').max(1000) }),
+  z.object({ action: z.enum(['shorter', 'longer', 'formal', 'emoji', 'remove_hashtags', 'brand_fix']) }),
+  z.object({ action: z.literal('restore'), revision: z.number().int().min(0) })
+]);
+
+type RouteParams = { params: Promise<{ id: string; repurposedId: string }> };
+
+// GET /api/content/[id]/repurposed/[repurposedId] - A platform output with its revision history
+export async function GET(_req: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    const userId = session?.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id, repurposedId } = await params;
+    const output = await contentRevisions.getOutput(userId, id, repurposedId);
+
+    return NextResponse.json({
+      success: true,
+      output: {
+        id: output.id,
+        platform: output.platform,
+        content: output.content,
+        structured: output.structured,
+        promptVersionId: output.promptVersionId,
+        revisions: output.revisions ?? [],
+        compliance: output.compliance ?? null,
+        glossary: output.glossary ?? null,
+        locale: output.locale ?? null,
+        sourceId: output.sourceId ?? null,
+        translationStatus: output.translationStatus ?? null,
+        updatedAt: output.updatedAt
+      }
+    });
+  } catch (error) {
+    console.error('[REPURPOSED_OUTPUT_GET]', error);
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    return NextResponse.json({ error: 'Failed to load output' }, { status: 500 });
+  }
+}
+
+// POST /api/content/[id]/repurposed/[repurposedId] - Regenerate, refine, transform or restore one platform output.
+// 'brand_fix' rewrites it to fix the violations in its brand voice compliance report.
+export async function POST(req: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    const userId = session?.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let body;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 });
+    }
+
+    const validation = reviseSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json({ error: 'Validation failed', details: validation.error.issues }, { status: 400 });
+    }
+
+    const { id, repurposedId } = await params;
+    const request = validation.data;
+
+    const content = await prisma.content.findFirst({
+      where: { id, userId },
+      select: { brandVoiceId: true }
+    });
+
+    // Restoring an earlier revision is free and needs no plan checks
+    if (request.action === 'restore') {
+      const voice = content?.brandVoiceId
+        ? await brandVoices.resolve(userId, { scope: { brandVoiceId: content.brandVoiceId } })
+        : undefined;
+      const output = await contentRevisions.restore(userId, id, repurposedId, request.revision, voice?.details);
+      return NextResponse.json({ success: true, output });
+    }
+
+    const [user, settings, current] = await Promise.all([
+      prisma.user.findUnique({
+        where: { id: userId },
+        select: { subscriptionPlan: true, usageThisMonth: true, teamId: true }
+      }),
+      prisma.settings.findUnique({
+        where: { userId },
+        select: { brandVoice: true }
+      }),
+      contentRevisions.getOutput(userId, id, repurposedId)
+    ]);
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const plan = (user.subscriptionPlan in PLAN_PLATFORMS ? user.subscriptionPlan : 'free') as SubscriptionPlan;
+    const availablePlatforms: readonly string[] = PLAN_PLATFORMS[plan];
+    if (!availablePlatforms.includes(current.platform)) {
+      return NextResponse.json(
+        {
+          error: 'Platform not included in plan',
+          message: `${current.platform} outputs can't be revised on the ${plan} plan.`,
+          availablePlatforms,
+          plan
+        },
+        { status: 403 }
+      );
+    }
+
+    const action: RevisionAction = request.action;
+    const usageCost = REVISION_USAGE_COST[action];
+    if (usageCost > 0) {
+      if (!(await canUserRepurpose(userId))) {
+        return NextResponse.json(
+          {
+            error: 'Usage limit exceeded',
+            message: 'Monthly usage limit exceeded. Please upgrade your plan or enable overage charges in your settings.'
+          },
+          { status: 403 }
+        );
+      }
+
+      if (aiService.getAvailableProviders().length === 0) {
+        return NextResponse.json(
+          { error: 'AI service unavailable', message: 'No AI providers are currently configured. Please contact support.' },
+          { status: 503 }
+        );
+      }
+    }
+
+    // Revisions keep the brand voice profile the content was written in
+    const voice = await brandVoices.resolve(userId, {
+      scope: content?.brandVoiceId ? { brandVoiceId: content.brandVoiceId } : undefined,
+      fallback: settings?.brandVoice
+    });
+    const glossaryTerms = await glossaries.forTeam(user.teamId);
+
+    const { output, result } = await contentRevisions.revise(
+      userId,
+      id,
+      repurposedId,
+      action,
+      {
+        instruction: 'instruction' in request ? request.instruction : undefined,
+        brandVoice: voice.text,
+        brandProfile: voice.details,
+        glossary: glossaryTerms
+      },
+      { plan, usage: { userId, plan, contentId: id, requestId: createUsageRequestId() } }
+    );
+
+    for (let i = 0; i < usageCost; i++) {
+      await incrementUsage(userId);
+    }
+
+    await analyticsTracker.trackContentOutcome(userId, id, output.platform, action === 'regenerate' ? 'regenerate' : 'edit');
+
+    return NextResponse.json({
+      success: true,
+      output,
+      constraintWarnings: result.constraintWarnings ?? [],
+      compliance: output.compliance ?? null,
+      glossary: result.glossary ?? [],
+      usage: { charged: usageCost, currentUsage: user.usageThisMonth + usageCost }
+    });
+  } catch (error) {
+    console.error('[REPURPOSED_OUTPUT_POST]', error);
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    return NextResponse.json(
+      { error: 'Failed to revise output', message: error instanceof Error ? error.message : 'Please try again.' },
+      { status: 500 }
+    );
+  }
+}
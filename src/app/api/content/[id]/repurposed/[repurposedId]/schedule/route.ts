@@ -0,0 +1,102 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { z } from 'zod';
+import { authOptions } from '@/lib/auth';
+import { AppError } from '@/lib/error-handler';
+import { contentScheduler } from '@/lib/content-scheduler';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+const scheduleSchema = z.object({
+  publishAt: z.string().min(1, 'Choose when to publish'),
+  timezone: z.string().trim().min(1).optional(),
+  recurring: z.boolean().optional(),
+  recurringPattern: z.string().trim().max(200).nullable().optional(),
+  accountId: z.string().min(1).nullable().optional() // null to post it yourself
+});
+
+type RouteParams = { params: Promise<{ id: string; repurposedId: string }> };
+
+// GET /api/content/[id]/repurposed/[repurposedId]/schedule - When the output is scheduled to go out, if at all
+export async function GET(_req: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    const userId = session?.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id, repurposedId } = await params;
+    const schedule = await contentScheduler.getSchedule(userId, id, repurposedId);
+
+    return NextResponse.json({ success: true, data: schedule });
+  } catch (error) {
+    console.error('[REPURPOSED_SCHEDULE_GET]', error);
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    return NextResponse.json({ error: 'Failed to load schedule' }, { status: 500 });
+  }
+}
+
+// PUT /api/content/[id]/repurposed/[repurposedId]/schedule - Schedule the output, replacing its current schedule.
+// Posts on the same channel too close in time and earlier posts it repeats are returned as warnings.
+export async function PUT(req: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    const userId = session?.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let body;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 });
+    }
+
+    const validation = scheduleSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json({ error: 'Validation failed', details: validation.error.issues }, { status: 400 });
+    }
+
+    const { id, repurposedId } = await params;
+    const result = await contentScheduler.schedule(userId, id, repurposedId, validation.data);
+
+    return NextResponse.json({ success: true, data: result });
+  } catch (error) {
+    console.error('[REPURPOSED_SCHEDULE_PUT]', error);
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    return NextResponse.json({ error: 'Failed to schedule output' }, { status: 500 });
+  }
+}
+
+// DELETE /api/content/[id]/repurposed/[repurposedId]/schedule - Take the output off the calendar
+export async function DELETE(_req: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    const userId = session?.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id, repurposedId } = await params;
+    const schedule = await contentScheduler.getSchedule(userId, id, repurposedId);
+    if (!schedule) {
+      return NextResponse.json({ error: 'This output is not scheduled' }, { status: 404 });
+    }
+    await contentScheduler.unschedule(userId, schedule.id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[REPURPOSED_SCHEDULE_DELETE]', error);
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    return NextResponse.json({ error: 'Failed to unschedule output' }, { status: 500 });
+  }
+}
@@ -0,0 +1,173 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { z } from 'zod';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { AppError } from '@/lib/error-handler';
+import { aiService } from '@/lib/ai-service';
+import { createUsageRequestId } from '@/lib/ai-usage-ledger';
+import { contentLocalization } from '@/lib/content-localization';
+import { brandVoices } from '@/lib/brand-voices';
+import { glossaries } from '@/lib/glossary';
+import { localeName } from '@/lib/locales';
+import { LOCALIZATION } from '@/lib/config';
+import { canUserRepurpose, incrementUsage, PLAN_PLATFORMS, SubscriptionPlan, TRANSLATION_USAGE_COST } from '@/lib/subscription';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+const translateSchema = z.object({
+  locales: z.array(z.string().trim().min(1)).min(1, 'Choose at least one language').max(LOCALIZATION.maxTargetLocales),
+  sourceLocale: z.string().trim().min(1).optional(),
+  instruction: z.string().trim().max(1000).optional()
+});
+
+type RouteParams = { params: Promise<{ id: string; repurposedId: string }> };
+
+const withLocaleName = <T extends { locale: string | null }>(variant: T) => ({
+  ...variant,
+  localeName: variant.locale ? localeName(variant.locale) : null
+});
+
+// GET /api/content/[id]/repurposed/[repurposedId]/translations - The translated variants of a platform output
+export async function GET(_req: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    const userId = session?.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id, repurposedId } = await params;
+    const variants = await contentLocalization.listVariants(userId, id, repurposedId);
+
+    return NextResponse.json({ success: true, data: variants.map(withLocaleName) });
+  } catch (error) {
+    console.error('[REPURPOSED_TRANSLATIONS_GET]', error);
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    return NextResponse.json({ error: 'Failed to load translations' }, { status: 500 });
+  }
+}
+
+// POST /api/content/[id]/repurposed/[repurposedId]/translations - Translate a platform output into one or more locales.
+// Each locale is saved as a variant linked to the output; every translation saved uses one repurpose.
+export async function POST(req: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    const userId = session?.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let body;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 });
+    }
+
+    const validation = translateSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json({ error: 'Validation failed', details: validation.error.issues }, { status: 400 });
+    }
+
+    const { id, repurposedId } = await params;
+    const { locales, sourceLocale, instruction } = validation.data;
+
+    const [user, settings, content, output] = await Promise.all([
+      prisma.user.findUnique({
+        where: { id: userId },
+        select: { subscriptionPlan: true, usageThisMonth: true, teamId: true }
+      }),
+      prisma.settings.findUnique({
+        where: { userId },
+        select: { brandVoice: true }
+      }),
+      prisma.content.findFirst({
+        where: { id, userId },
+        select: { brandVoiceId: true }
+      }),
+      prisma.repurposedContent.findFirst({
+        where: { id: repurposedId, contentId: id, originalContent: { userId } },
+        select: { platform: true }
+      })
+    ]);
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+    if (!output) {
+      return NextResponse.json({ error: 'Repurposed content not found' }, { status: 404 });
+    }
+
+    const plan = (user.subscriptionPlan in PLAN_PLATFORMS ? user.subscriptionPlan : 'free') as SubscriptionPlan;
+    const availablePlatforms: readonly string[] = PLAN_PLATFORMS[plan];
+    if (!availablePlatforms.includes(output.platform)) {
+      return NextResponse.json(
+        {
+          error: 'Platform not included in plan',
+          message: `${output.platform} outputs can't be translated on the ${plan} plan.`,
+          availablePlatforms,
+          plan
+        },
+        { status: 403 }
+      );
+    }
+
+    if (!(await canUserRepurpose(userId))) {
+      return NextResponse.json(
+        {
+          error: 'Usage limit exceeded',
+          message: 'Monthly usage limit exceeded. Please upgrade your plan or enable overage charges in your settings.'
+        },
+        { status: 403 }
+      );
+    }
+
+    if (aiService.getAvailableProviders().length === 0) {
+      return NextResponse.json(
+        { error: 'AI service unavailable', message: 'No AI providers are currently configured. Please contact support.' },
+        { status: 503 }
+      );
+    }
+
+    // Translations keep the brand voice the content was written in, and the team glossary
+    const voice = await brandVoices.resolve(userId, {
+      scope: content?.brandVoiceId ? { brandVoiceId: content.brandVoiceId } : undefined,
+      fallback: settings?.brandVoice
+    });
+    const glossaryTerms = await glossaries.forTeam(user.teamId);
+
+    const { variants, failures } = await contentLocalization.translate(
+      userId,
+      id,
+      repurposedId,
+      locales,
+      { sourceLocale, brandVoice: voice.text, additionalInstructions: instruction, glossary: glossaryTerms },
+      { plan, usage: { userId, plan, contentId: id, requestId: createUsageRequestId() } }
+    );
+
+    const charged = variants.length * TRANSLATION_USAGE_COST;
+    for (let i = 0; i < charged; i++) {
+      await incrementUsage(userId);
+    }
+
+    return NextResponse.json({
+      success: true,
+      variants: variants.map(withLocaleName),
+      failures,
+      usage: { charged, currentUsage: user.usageThisMonth + charged }
+    });
+  } catch (error) {
+    console.error('[REPURPOSED_TRANSLATIONS_POST]', error);
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    return NextResponse.json(
+      { error: 'Failed to translate output', message: error instanceof Error ? error.message : 'Please try again.' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
+import { AppError } from '@/lib/error-handler';
+import { localeFilter, localeName } from '@/lib/locales';
 import { z } from 'zod';
 
 const querySchema = z.object({
@@ -11,6 +13,9 @@ const querySchema = z.object({
   contentType: z.string().optional(),
   platforms: z.string().optional(),
   status: z.string().optional(),
+  clientId: z.string().optional(),
+  campaignId: z.string().optional(),
+  locale: z.string().optional(), // A translated locale, or "original" for outputs in the content's own language
   dateRange: z.enum(['all', 'today', 'week', 'month', '3months']).default('all'),
   sort: z.enum(['title', 'createdAt', 'updatedAt', 'contentType', 'views', 'engagements']).default('createdAt'),
   order: z.enum(['asc', 'desc']).default('desc')
@@ -64,6 +69,14 @@ export async function GET(request: NextRequest) {
       where.status = { in: statuses };
     }
 
+    // Client and campaign filters
+    if (query.clientId) {
+      where.clientId = query.clientId;
+    }
+    if (query.campaignId) {
+      where.campaignId = query.campaignId;
+    }
+
     // Date range filter
     if (query.dateRange !== 'all') {
       const now = new Date();
@@ -89,12 +102,13 @@ export async function GET(request: NextRequest) {
       where.createdAt = { gte: dateFilter };
     }
 
-    // Platform filter (filter by repurposed content platforms)
-    if (query.platforms) {
-      const platforms = query.platforms.split(',');
+    // Platform and locale filters (filter by repurposed content platforms and languages)
+    const locale = localeFilter(query.locale);
+    if (query.platforms || locale) {
       where.repurposed = {
         some: {
-          platform: { in: platforms }
+          ...(query.platforms && { platform: { in: query.platforms.split(',') } }),
+          ...locale
         }
       };
     }
@@ -106,7 +120,7 @@ export async function GET(request: NextRequest) {
     // Get total count for pagination
     const total = await prisma.content.count({ where });
 
-    // Get contents with pagination
+    // Get contents with pagination; with a locale filter, only the outputs in that locale are listed
     const contents = await prisma.content.findMany({
       where,
       orderBy,
@@ -114,14 +128,20 @@ export async function GET(request: NextRequest) {
       take: query.limit,
       include: {
         repurposed: {
+          where: locale,
           select: {
             id: true,
             platform: true,
             content: true,
+            locale: true,
+            sourceId: true,
+            translationStatus: true,
             createdAt: true
           },
           orderBy: { createdAt: 'desc' }
         },
+        client: { select: { id: true, name: true } },
+        campaign: { select: { id: true, name: true } },
         // Include analytics if available (placeholder for future implementation)
         _count: {
           select: {
@@ -138,12 +158,17 @@ export async function GET(request: NextRequest) {
       contentType: content.contentType,
       originalContent: content.originalContent,
       status: (content as any).status || 'draft', // Use actual status from database
+      client: (content as any).client ?? null,
+      campaign: (content as any).campaign ?? null,
       createdAt: content.createdAt.toISOString(),
       updatedAt: content.updatedAt.toISOString(),
       repurposed: content.repurposed.map(rep => ({
         id: rep.id,
         platform: rep.platform,
         content: rep.content,
+        locale: rep.locale,
+        sourceId: rep.sourceId,
+        translationStatus: rep.translationStatus,
         createdAt: rep.createdAt.toISOString()
       })),
       // Mock analytics data - replace with real data when analytics are implemented
@@ -152,6 +177,14 @@ export async function GET(request: NextRequest) {
       repurposedCount: content._count.repurposed
     }));
 
+    // Languages the user's outputs have been translated into, for the locale filter
+    const translatedLocales = await prisma.repurposedContent.findMany({
+      where: { originalContent: { userId: user.id }, locale: { not: null } },
+      distinct: ['locale'],
+      select: { locale: true },
+      orderBy: { locale: 'asc' }
+    });
+
     // Calculate pagination info
     const pages = Math.ceil(total / query.limit);
     const page = Math.floor(query.offset / query.limit) + 1;
@@ -170,8 +203,12 @@ export async function GET(request: NextRequest) {
         search: query.search,
         contentType: query.contentType,
         platforms: query.platforms,
+        clientId: query.clientId,
+        campaignId: query.campaignId,
+        locale: query.locale,
         dateRange: query.dateRange
       },
+      locales: translatedLocales.map((item: { locale: string }) => ({ locale: item.locale, name: localeName(item.locale) })),
       sort: {
         field: query.sort,
         order: query.order
@@ -180,6 +217,9 @@ export async function GET(request: NextRequest) {
 
   } catch (error) {
     console.error('[ADVANCED_CONTENT_GET]', error);
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
     return NextResponse.json(
       { error: 'Failed to fetch content' },
       { status: 500 }
@@ -1,16 +1,14 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextRequest, NextResponse, after } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { z } from 'zod';
-import { aiService } from '@/lib/ai-service';
+import { AppError } from '@/lib/error-handler';
+import { jobQueue, toJobSummary } from '@/lib/job-queue';
+import { bulkRepurposeJobSchema } from '@/lib/job-handlers';
+import { PLAN_PLATFORMS, SubscriptionPlan } from '@/lib/subscription';
 
-const bulkRepurposeSchema = z.object({
-  ids: z.array(z.string()).min(1, 'At least one item must be selected'),
-  platforms: z.array(z.string()).optional().default(['Twitter', 'LinkedIn', 'Instagram'])
-});
-
-// POST - Bulk repurpose content
+// POST - Queue a bulk repurpose job (202 with jobId)
 export async function POST(request: NextRequest) {
   try {
     const session = await getServerSession(authOptions);
@@ -40,7 +38,7 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { ids, platforms } = bulkRepurposeSchema.parse(body);
+    const { ids, platforms } = bulkRepurposeJobSchema.parse(body);
 
     // Check usage limits
     const monthlyLimit = getMonthlyLimit(user.subscriptionPlan);
@@ -62,15 +60,7 @@ export async function POST(request: NextRequest) {
         id: { in: ids },
         userId: user.id
       },
-      select: { 
-        id: true, 
-        title: true, 
-        originalContent: true, 
-        contentType: true,
-        repurposed: {
-          select: { platform: true }
-        }
-      }
+      select: { id: true }
     });
 
     if (userContent.length !== ids.length) {
@@ -80,126 +70,24 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const results = [];
-    let totalRepurposed = 0;
-    let errors = [];
-
-    // Process each content item
-    for (const content of userContent) {
-      try {
-        // Filter platforms that haven't been repurposed yet
-        const existingPlatforms = content.repurposed.map(r => r.platform);
-        const platformsToRepurpose = platforms.filter(p => !existingPlatforms.includes(p));
-        
-        if (platformsToRepurpose.length === 0) {
-          results.push({
-            contentId: content.id,
-            title: content.title,
-            status: 'skipped',
-            message: 'Already repurposed for all selected platforms'
-          });
-          continue;
-        }
-
-        const repurposedItems = [];
+    // Generation runs in the background; poll GET /api/jobs/[jobId] for progress and results
+    const plan = (user.subscriptionPlan in PLAN_PLATFORMS ? user.subscriptionPlan : 'free') as SubscriptionPlan;
+    const job = await jobQueue.enqueue(user.id, plan, 'bulk-repurpose', { ids, platforms });
 
-        // Generate repurposed content for each platform
-        for (const platform of platformsToRepurpose) {
-          try {
-            const repurposeRequest = {
-              originalContent: content.originalContent,
-              platforms: [platform],
-              brandVoice: user.settings?.brandVoice || undefined
-            };
-            
-            const repurposedResults = await aiService.repurposeContent(repurposeRequest);
-            const repurposedContent = repurposedResults[0]?.content || '';
+    after(() => jobQueue.runWorker({ maxJobs: 1 }).catch((error) => {
+      console.error('[BULK_REPURPOSE] Inline worker failed:', error);
+    }));
 
-            // Save to database
-            const savedRepurpose = await prisma.repurposedContent.create({
-              data: {
-                contentId: content.id,
-                platform,
-                content: repurposedContent
-              }
-            });
-
-            repurposedItems.push({
-              platform,
-              content: repurposedContent,
-              id: savedRepurpose.id
-            });
-
-            totalRepurposed++;
-          } catch (platformError) {
-            console.error(`Error repurposing for ${platform}:`, platformError);
-            errors.push({
-              contentId: content.id,
-              platform,
-              error: `Failed to repurpose for ${platform}`
-            });
-          }
-        }
-
-        results.push({
-          contentId: content.id,
-          title: content.title,
-          status: repurposedItems.length > 0 ? 'success' : 'failed',
-          repurposed: repurposedItems,
-          platformsProcessed: platformsToRepurpose.length,
-          platformsSuccess: repurposedItems.length
-        });
-
-      } catch (contentError) {
-        console.error(`Error processing content ${content.id}:`, contentError);
-        errors.push({
-          contentId: content.id,
-          error: 'Failed to process content'
-        });
-        
-        results.push({
-          contentId: content.id,
-          title: content.title,
-          status: 'failed',
-          message: 'Failed to process content'
-        });
-      }
-    }
-
-    // Update user usage
-    if (totalRepurposed > 0) {
-      await prisma.user.update({
-        where: { id: user.id },
-        data: {
-          usageThisMonth: {
-            increment: totalRepurposed
-          }
-        }
-      });
-    }
-
-    // Log audit trail
-    await logBulkAction(user.id, 'BULK_REPURPOSE', {
-      contentIds: ids,
-      platforms,
-      totalRepurposed,
-      successCount: results.filter(r => r.status === 'success').length,
-      failureCount: results.filter(r => r.status === 'failed').length,
-      skipCount: results.filter(r => r.status === 'skipped').length
-    });
-
-    return NextResponse.json({
-      success: true,
-      totalProcessed: ids.length,
-      totalRepurposed,
-      results,
-      errors: errors.length > 0 ? errors : undefined,
-      summary: {
-        successful: results.filter(r => r.status === 'success').length,
-        failed: results.filter(r => r.status === 'failed').length,
-        skipped: results.filter(r => r.status === 'skipped').length
-      }
-    });
+    return NextResponse.json(
+      {
+        success: true,
+        jobId: job.id,
+        job: toJobSummary(job),
+        totalItems: ids.length,
+        requiredUsage
+      },
+      { status: 202 }
+    );
 
   } catch (error) {
     console.error('[BULK_REPURPOSE_ERROR]', error);
@@ -211,6 +99,10 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+
     return NextResponse.json(
       { error: 'Failed to perform bulk repurpose operation' },
       { status: 500 }
@@ -227,12 +119,3 @@ function getMonthlyLimit(plan: string): number {
     default: return 5; // free plan
   }
 }
-
-async function logBulkAction(userId: string, action: string, details: any) {
-  console.log('[AUDIT_LOG]', {
-    userId,
-    action,
-    timestamp: new Date().toISOString(),
-    details
-  });
-} 
\ No newline at end of file
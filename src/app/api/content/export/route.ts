@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { AppError } from '@/lib/error-handler';
+import { jobQueue, toJobSummary } from '@/lib/job-queue';
+import '@/lib/job-handlers'; // Registers the export handler the inline worker runs
+import { contentExporter, exportRequestSchema } from '@/lib/content-export';
+import { PLAN_PLATFORMS, SubscriptionPlan } from '@/lib/subscription';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+// POST /api/content/export - Export selected content as CSV, XLSX, Markdown, DOCX, a per-platform zip or a scheduler bulk upload
+// Small exports come back as the file; larger ones are queued (202) and the finished job holds an expiring download link
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    const userId = session?.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const parsed = exportRequestSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Validation failed', details: parsed.error.errors }, { status: 400 });
+    }
+
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { subscriptionPlan: true } });
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+    const plan = (user.subscriptionPlan in PLAN_PLATFORMS ? user.subscriptionPlan : 'free') as SubscriptionPlan;
+
+    const result = await contentExporter.create(userId, plan, parsed.data);
+
+    if (result.kind === 'job') {
+      after(() => jobQueue.runWorker({ maxJobs: 1 }).catch((error) => {
+        console.error('[CONTENT_EXPORT] Inline worker failed:', error);
+      }));
+      return NextResponse.json({ success: true, jobId: result.job.id, job: toJobSummary(result.job) }, { status: 202 });
+    }
+
+    const { file } = result;
+    return new NextResponse(new Uint8Array(file.data), {
+      headers: {
+        'Content-Type': file.mimeType,
+        'Content-Disposition': `attachment; filename="${file.fileName}"`,
+        'Content-Length': String(file.data.length),
+        'X-Export-Skipped': String(file.skipped),
+        'Cache-Control': 'private, no-store'
+      }
+    });
+  } catch (error) {
+    console.error('[CONTENT_EXPORT_POST]', error);
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    return NextResponse.json({ error: 'Failed to export content' }, { status: 500 });
+  }
+}
@@ -3,8 +3,13 @@ import { getServerSession } from 'next-auth/next';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { aiService, ContentType, AIProvider } from '@/lib/ai-service';
+import { providerRegistry } from '@/lib/ai-providers';
+import { aiUsageLedger, createUsageRequestId } from '@/lib/ai-usage-ledger';
 import { incrementUsage, recordOverageCharge, SubscriptionPlan, SUBSCRIPTION_LIMITS } from '@/lib/subscription';
 import { tableExists, validateUserTable } from '@/lib/db-setup';
+import { brandVoices, ResolvedBrandVoice } from '@/lib/brand-voices';
+import { glossaries, applyGlossary, withGlossary } from '@/lib/glossary';
+import { AppError } from '@/lib/error-handler';
 import { z } from 'zod';
 import { canUserRepurpose } from '@/lib/subscription';
 
@@ -14,9 +19,10 @@ const generateContentSchema = z.object({
   contentType: z.enum(['blog', 'article', 'social_post', 'email', 'video_transcript', 'general']),
   tone: z.string().optional(),
   brandVoice: z.string().optional(),
+  brandVoiceId: z.string().optional(), // Brand voice profile, used instead of brandVoice
   targetAudience: z.string().optional(),
   additionalInstructions: z.string().optional(),
-  provider: z.enum(['anthropic', 'groq']).optional(),
+  provider: z.string().optional(), // Any registered provider id or alias
   model: z.string().optional(),
   allowOverage: z.boolean().default(false)
 });
@@ -57,6 +63,7 @@ export async function POST(req: Request) {
       contentType, 
       tone, 
       brandVoice, 
+      brandVoiceId,
       targetAudience, 
       additionalInstructions,
       provider,
@@ -86,6 +93,7 @@ export async function POST(req: Request) {
             subscriptionPlan: true,
             subscriptionStatus: true,
             usageThisMonth: true,
+            teamId: true,
             subscriptions: {
               where: { 
                 status: { in: ['active', 'trialing'] }
@@ -102,6 +110,7 @@ export async function POST(req: Request) {
           subscriptionPlan: 'free',
           subscriptionStatus: 'inactive',
           usageThisMonth: 0,
+          teamId: null,
           subscriptions: []
         };
       }
@@ -149,17 +158,29 @@ export async function POST(req: Request) {
 
       // Check if Settings table exists and fetch user settings for brand voice
       const settingsTableExists = await tableExists('Settings');
-      let userBrandVoice = brandVoice; // Use provided brand voice or default to user's saved one
+      let settingsBrandVoice: string | null = null;
       
-      if (!userBrandVoice && settingsTableExists) {
+      if (!brandVoice && !brandVoiceId && settingsTableExists) {
         try {
           const settings = await prisma.settings.findUnique({ where: { userId } });
-          userBrandVoice = settings?.brandVoice || '';
+          settingsBrandVoice = settings?.brandVoice || null;
         } catch (error) {
           console.error('Error fetching user settings:', error);
         }
       }
 
+      // Use the requested profile or brand voice, else the user's default profile or saved one
+      let voice: ResolvedBrandVoice;
+      try {
+        voice = await brandVoices.resolve(userId, { brandVoiceId, brandVoice, fallback: settingsBrandVoice });
+      } catch (error) {
+        if (error instanceof AppError) {
+          return NextResponse.json({ error: error.message }, { status: error.statusCode });
+        }
+        throw error;
+      }
+      const userBrandVoice = voice.text || '';
+
       // Check available AI providers
       const availableProviders = aiService.getAvailableProviders();
       if (availableProviders.length === 0) {
@@ -175,9 +196,22 @@ export async function POST(req: Request) {
         );
       }
 
-      // Validate provider selection
-      const selectedProvider = provider || availableProviders[0];
-      if (!aiService.isProviderAvailable(selectedProvider as AIProvider)) {
+      // Validate provider selection - default to the plan's preferred provider
+      const selectedProvider = provider || aiService.getProvidersForPlan(plan)[0] || availableProviders[0];
+      if (provider && !providerRegistry.isAllowedForPlan(provider, plan)) {
+        return new NextResponse(
+          JSON.stringify({
+            error: 'Provider not included in plan',
+            message: `The ${provider} provider is not available on the ${plan} plan. Available providers: ${aiService.getProvidersForPlan(plan).join(', ')}`
+          }),
+          { 
+            status: 403,
+            headers: { 'Content-Type': 'application/json' }
+          }
+        );
+      }
+
+      if (!selectedProvider || !aiService.isProviderAvailable(selectedProvider)) {
         return new NextResponse(
           JSON.stringify({
             error: 'Provider unavailable',
@@ -190,6 +224,9 @@ export async function POST(req: Request) {
         );
       }
 
+      // The team glossary is written into the prompt and enforced again on the result
+      const glossaryTerms = await glossaries.forTeam(user.teamId);
+
       // Generate content using AI service
       const generationRequest = {
         keywords,
@@ -197,12 +234,15 @@ export async function POST(req: Request) {
         tone,
         brandVoice: userBrandVoice,
         targetAudience,
-        additionalInstructions
+        additionalInstructions: withGlossary(additionalInstructions, glossaryTerms)
       };
 
+      const usageRequestId = createUsageRequestId();
       const aiConfig = {
-        provider: selectedProvider as AIProvider,
-        ...(model && { model })
+        plan,
+        provider: providerRegistry.resolveId(selectedProvider) as AIProvider,
+        ...(model && { model }),
+        usage: { userId, plan, requestId: usageRequestId }
       };
 
       let aiResponse;
@@ -222,6 +262,9 @@ export async function POST(req: Request) {
         );
       }
 
+      const glossary = applyGlossary(aiResponse.content, glossaryTerms);
+      const generatedContent = glossary.text;
+
       // Try to increment usage count
       try {
         await incrementUsage(userId);
@@ -245,10 +288,11 @@ export async function POST(req: Request) {
           savedContent = await prisma.content.create({
             data: {
               title: contentTitle,
-              originalContent: aiResponse.content,
+              originalContent: generatedContent,
               contentType,
               status: 'Generated', // Mark as generated content
               userId,
+              ...(voice.profile && { brandVoiceId: voice.profile.id }),
             },
             select: {
               id: true,
@@ -258,6 +302,7 @@ export async function POST(req: Request) {
             }
           });
           
+          await aiUsageLedger.linkContent(usageRequestId, savedContent.id, userId);
           console.log(`✅ Saved generated content: "${savedContent.title}" (ID: ${savedContent.id})`);
         } else {
           console.log('⚠️ Content table does not exist, skipping database save');
@@ -271,7 +316,8 @@ export async function POST(req: Request) {
       const response = {
         success: true,
         data: {
-          content: aiResponse.content,
+          content: generatedContent,
+          glossary: glossary.replacements,
           contentId: savedContent?.id || null,
           title: savedContent?.title || keywords,
           status: savedContent?.status || 'Generated',
@@ -285,7 +331,7 @@ export async function POST(req: Request) {
             tone,
             brandVoice: userBrandVoice,
             targetAudience,
-            charactersGenerated: aiResponse.content.length
+            charactersGenerated: generatedContent.length
           }
         },
         usage: {
@@ -0,0 +1,73 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { AppError } from '@/lib/error-handler';
+import { IMPORTS } from '@/lib/config';
+import { columnMappingSchema, contentImporter } from '@/lib/content-import';
+import { PLAN_PLATFORMS, SubscriptionPlan } from '@/lib/subscription';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+// POST /api/content/import - Import a content library from CSV, JSON, the library export or a WordPress WXR file
+// Multipart fields: "file", optional "mapping" (JSON column mapping for CSV/JSON) and "dryRun" ("true" previews
+// every row without saving). Imported items are not charged as usage.
+export async function POST(req: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    const userId = session?.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!req.headers.get('content-type')?.includes('multipart/form-data')) {
+      return NextResponse.json({ error: 'Upload the file as multipart/form-data' }, { status: 400 });
+    }
+    const form = await req.formData();
+    const file = form.get('file');
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'Attach a file in the "file" field' }, { status: 400 });
+    }
+    if (file.size > IMPORTS.maxBytes) {
+      return NextResponse.json({ error: `Import files can be up to ${IMPORTS.maxBytes / 1024 / 1024} MB` }, { status: 413 });
+    }
+
+    let mapping;
+    const mappingField = form.get('mapping');
+    if (typeof mappingField === 'string' && mappingField) {
+      let json: unknown;
+      try {
+        json = JSON.parse(mappingField);
+      } catch {
+        return NextResponse.json({ error: 'mapping must be JSON' }, { status: 400 });
+      }
+      const validation = columnMappingSchema.safeParse(json);
+      if (!validation.success) {
+        return NextResponse.json({ error: 'Validation failed', details: validation.error.issues }, { status: 400 });
+      }
+      mapping = validation.data;
+    }
+
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { subscriptionPlan: true } });
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+    const plan = (user.subscriptionPlan in PLAN_PLATFORMS ? user.subscriptionPlan : 'free') as SubscriptionPlan;
+
+    const report = await contentImporter.importFile(userId, plan, {
+      text: Buffer.from(await file.arrayBuffer()).toString('utf8'),
+      fileName: file.name,
+      mapping,
+      dryRun: form.get('dryRun') === 'true'
+    });
+
+    return NextResponse.json({ success: true, report });
+  } catch (error) {
+    console.error('[CONTENT_IMPORT]', error);
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    return NextResponse.json({ error: 'Failed to import content' }, { status: 500 });
+  }
+}
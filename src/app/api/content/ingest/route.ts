@@ -0,0 +1,72 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { z } from 'zod';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { AppError } from '@/lib/error-handler';
+import { ingestFile, ingestUrl, IngestedSource } from '@/lib/ingestion';
+import { PLAN_PLATFORMS, SubscriptionPlan } from '@/lib/subscription';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+const urlSchema = z.object({
+  url: z.string().trim().url('Enter a valid URL')
+});
+
+// POST /api/content/ingest - Extract text, title, author and headings from an uploaded file
+// (multipart "file" field) or an article URL ({ url }). Nothing is saved; the form fills in
+// the extracted source and it is stored with the content when the user repurposes it.
+export async function POST(req: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    const userId = session?.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { subscriptionPlan: true }
+    });
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+    const plan = (user.subscriptionPlan in PLAN_PLATFORMS ? user.subscriptionPlan : 'free') as SubscriptionPlan;
+
+    let source: IngestedSource;
+    if (req.headers.get('content-type')?.includes('multipart/form-data')) {
+      const form = await req.formData();
+      const file = form.get('file');
+      if (!(file instanceof File)) {
+        return NextResponse.json({ error: 'Attach a file in the "file" field' }, { status: 400 });
+      }
+
+      source = ingestFile(
+        { data: Buffer.from(await file.arrayBuffer()), fileName: file.name, mimeType: file.type || undefined },
+        { plan }
+      );
+    } else {
+      let body;
+      try {
+        body = await req.json();
+      } catch {
+        return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 });
+      }
+
+      const validation = urlSchema.safeParse(body);
+      if (!validation.success) {
+        return NextResponse.json({ error: 'Validation failed', details: validation.error.issues }, { status: 400 });
+      }
+      source = await ingestUrl(validation.data.url, { plan });
+    }
+
+    return NextResponse.json({ success: true, source });
+  } catch (error) {
+    console.error('[CONTENT_INGEST]', error);
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    return NextResponse.json({ error: 'Failed to import source' }, { status: 500 });
+  }
+}
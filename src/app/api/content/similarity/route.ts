@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { z } from 'zod';
+import { authOptions } from '@/lib/auth';
+import { AppError } from '@/lib/error-handler';
+import { duplicateDetector } from '@/lib/duplicate-detection';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+const similaritySchema = z.object({
+  text: z.string().trim().min(1, 'Add some text to check').max(200000),
+  excludeContentId: z.string().optional(), // The content the text belongs to, when it is already saved
+  platform: z.string().optional() // Only compare with earlier posts for this platform
+});
+
+// POST /api/content/similarity - Find where a text repeats the user's or team's library, with the matching passages
+export async function POST(req: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    const userId = session?.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let body;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 });
+    }
+
+    const validation = similaritySchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json({ error: 'Validation failed', details: validation.error.issues }, { status: 400 });
+    }
+
+    const { text, excludeContentId, platform } = validation.data;
+    const report = await duplicateDetector.check(userId, text, {
+      excludeContentIds: excludeContentId ? [excludeContentId] : undefined,
+      platform,
+      outputsOnly: !!platform
+    });
+
+    return NextResponse.json({ success: true, data: report });
+  } catch (error) {
+    console.error('[CONTENT_SIMILARITY_POST]', error);
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    return NextResponse.json({ error: 'Failed to check for duplicates' }, { status: 500 });
+  }
+}
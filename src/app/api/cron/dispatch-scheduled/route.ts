@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { contentScheduler } from '@/lib/content-scheduler';
+import { publishingService } from '@/lib/publishing';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+contentScheduler.setPublisher(publishingService);
+
+// Triggered every minute by Vercel Cron (or any scheduler): scheduled posts whose time has come
+// become due, and those with a connected account are published through it.
+export async function GET(req: Request) {
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (authHeader !== `Bearer ${process.env.CRON_SECRET_KEY}`) {
+      return new NextResponse('Unauthorized', { status: 401 });
+    }
+
+    const summary = await contentScheduler.dispatchDue();
+
+    return NextResponse.json({
+      success: true,
+      ...summary,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('[DISPATCH_SCHEDULED_ERROR]', error);
+    return new NextResponse('Internal Error', { status: 500 });
+  }
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { jobQueue } from '@/lib/job-queue';
+import { contentExporter } from '@/lib/content-export';
+import '@/lib/job-handlers'; // Registers the generate/repurpose/bulk-repurpose/export handlers
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+// Triggered every minute by Vercel Cron (or any scheduler) to drain the background job queue.
+// Jobs usually start inline right after they are queued; this catches retries, stale locks and overflow.
+export async function GET(req: Request) {
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (authHeader !== `Bearer ${process.env.CRON_SECRET_KEY}`) {
+      return new NextResponse('Unauthorized', { status: 401 });
+    }
+
+    const summary = await jobQueue.runWorker();
+    const expiredExports = await contentExporter.purgeExpired();
+
+    return NextResponse.json({
+      success: true,
+      ...summary,
+      expiredExports,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('[PROCESS_JOBS_ERROR]', error);
+    return new NextResponse('Internal Error', { status: 500 });
+  }
+}
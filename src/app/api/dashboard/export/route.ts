@@ -1,7 +1,54 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
-import { prisma } from '@/lib/prisma';
+import { prisma, Prisma } from '@/lib/prisma';
+import { AppError } from '@/lib/error-handler';
+import { localeFilter } from '@/lib/locales';
+
+// The content, outputs and analytics an export includes; outputs are limited to one language when a locale is picked
+const exportSelect = (locale: ReturnType<typeof localeFilter>) => ({
+  id: true,
+  title: true,
+  originalContent: true,
+  contentType: true,
+  status: true,
+  isDraft: true,
+  version: true,
+  createdAt: true,
+  updatedAt: true,
+  repurposed: {
+    where: locale,
+    select: {
+      id: true,
+      platform: true,
+      content: true,
+      locale: true,
+      sourceId: true,
+      translationStatus: true,
+      createdAt: true
+    }
+  },
+  analytics: {
+    select: {
+      views: true,
+      repurposes: true,
+      engagement: true,
+      performance: true,
+      createdAt: true,
+      updatedAt: true
+    }
+  },
+  template: {
+    select: {
+      id: true,
+      name: true,
+      contentType: true
+    }
+  }
+}) satisfies Prisma.ContentSelect;
+
+type ExportedContent = Prisma.ContentGetPayload<{ select: ReturnType<typeof exportSelect> }>;
+type ExportedOutput = ExportedContent['repurposed'][number];
 
 export async function GET(request: NextRequest) {
   try {
@@ -27,45 +74,14 @@ export async function GET(request: NextRequest) {
       return new NextResponse('User not found', { status: 404 });
     }
 
+    // ?locale= exports only the outputs in one language ("original" for the content's own language)
+    const localeParam = request.nextUrl.searchParams.get('locale');
+    const locale = localeFilter(localeParam);
+
     // Get all user content with repurposed content and analytics
-    const contents = await prisma.content.findMany({
-      where: { userId: user.id },
-      select: {
-        id: true,
-        title: true,
-        originalContent: true,
-        contentType: true,
-        status: true,
-        isDraft: true,
-        version: true,
-        createdAt: true,
-        updatedAt: true,
-        repurposed: {
-          select: {
-            id: true,
-            platform: true,
-            content: true,
-            createdAt: true
-          }
-        },
-        analytics: {
-          select: {
-            views: true,
-            repurposes: true,
-            engagement: true,
-            performance: true,
-            createdAt: true,
-            updatedAt: true
-          }
-        },
-        template: {
-          select: {
-            id: true,
-            name: true,
-            contentType: true
-          }
-        }
-      },
+    const contents: ExportedContent[] = await prisma.content.findMany({
+      where: { userId: user.id, ...(locale && { repurposed: { some: locale } }) },
+      select: exportSelect(locale),
       orderBy: {
         createdAt: 'desc'
       }
@@ -110,7 +126,8 @@ export async function GET(request: NextRequest) {
       totalRepurposes: contents.reduce((sum, c) => sum + c.repurposed.length, 0),
       totalViews: contents.reduce((sum, c) => sum + (c.analytics[0]?.views || 0), 0),
       totalTemplates: templates.length,
-      platformsUsed: [...new Set(contents.flatMap(c => c.repurposed.map(r => r.platform)))],
+      platformsUsed: [...new Set(contents.flatMap(c => c.repurposed.map((r: ExportedOutput) => r.platform)))],
+      localesUsed: [...new Set(contents.flatMap(c => c.repurposed.map((r: ExportedOutput) => r.locale).filter(Boolean)))],
       contentTypes: [...new Set(contents.map(c => c.contentType))],
       accountAge: Math.floor((Date.now() - user.createdAt.getTime()) / (1000 * 60 * 60 * 24)),
       currentPlan: user.subscriptionPlan,
@@ -123,6 +140,7 @@ export async function GET(request: NextRequest) {
         exportDate: new Date().toISOString(),
         exportedBy: user.email,
         userName: user.name,
+        locale: localeParam ?? null,
         version: '1.0'
       },
       userProfile: {
@@ -136,7 +154,7 @@ export async function GET(request: NextRequest) {
       summary,
       contents: contents.map(content => ({
         ...content,
-        repurposedPlatforms: content.repurposed.map(r => r.platform),
+        repurposedPlatforms: content.repurposed.map((r: ExportedOutput) => r.platform),
         repurposeCount: content.repurposed.length,
         viewCount: content.analytics[0]?.views || 0,
         engagementData: content.analytics[0]?.engagement || {},
@@ -151,7 +169,7 @@ export async function GET(request: NextRequest) {
           return acc;
         }, {} as Record<string, number>),
         platformUsage: contents.reduce((acc, content) => {
-          content.repurposed.forEach(r => {
+          content.repurposed.forEach((r: ExportedOutput) => {
             acc[r.platform] = (acc[r.platform] || 0) + 1;
           });
           return acc;
@@ -171,13 +189,16 @@ export async function GET(request: NextRequest) {
       status: 200,
       headers: {
         'Content-Type': 'application/json',
-        'Content-Disposition': `attachment; filename="aicrs-export-${user.id}-${new Date().toISOString().split('T')[0]}.json"`,
+        'Content-Disposition': `attachment; filename="aicrs-export-${user.id}${localeParam ? `-${locale?.locale ?? 'original'}` : ''}-${new Date().toISOString().split('T')[0]}.json"`,
         'Content-Length': buffer.length.toString()
       }
     });
 
   } catch (error) {
     console.error('Error exporting dashboard data:', error);
+    if (error instanceof AppError) {
+      return new NextResponse(error.message, { status: error.statusCode });
+    }
     return new NextResponse('Internal Server Error', { status: 500 });
   }
 } 
\ No newline at end of file
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AppError } from '@/lib/error-handler';
+import { contentExporter } from '@/lib/content-export';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+type RouteParams = { params: Promise<{ exportId: string }> };
+
+// GET /api/exports/[exportId]?expires=&signature= - Download a background export through its signed link
+// The signature is the authorization, so the link works without a session until it expires
+export async function GET(req: NextRequest, { params }: RouteParams) {
+  try {
+    const { exportId } = await params;
+    const file = await contentExporter.download(
+      exportId,
+      req.nextUrl.searchParams.get('expires'),
+      req.nextUrl.searchParams.get('signature')
+    );
+
+    return new NextResponse(new Uint8Array(file.data), {
+      headers: {
+        'Content-Type': file.mimeType,
+        'Content-Disposition': `attachment; filename="${file.fileName}"`,
+        'Content-Length': String(file.data.length),
+        'X-Export-Skipped': String(file.skipped),
+        'Cache-Control': 'private, no-store'
+      }
+    });
+  } catch (error) {
+    console.error('[EXPORT_DOWNLOAD]', error);
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    return NextResponse.json({ error: 'Failed to download the export' }, { status: 500 });
+  }
+}
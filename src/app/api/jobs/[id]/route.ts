@@ -0,0 +1,106 @@
+import { NextResponse, after } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { z } from 'zod';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { AppError } from '@/lib/error-handler';
+import { jobQueue, toJobSummary } from '@/lib/job-queue';
+import '@/lib/job-handlers'; // Registers the handlers the inline worker runs
+import { PLAN_PLATFORMS, SubscriptionPlan } from '@/lib/subscription';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+const actionSchema = z.object({
+  action: z.enum(['cancel', 'retry'])
+});
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+const errorResponse = (error: unknown, fallback: string) => {
+  if (error instanceof AppError) {
+    return NextResponse.json({ error: error.message }, { status: error.statusCode });
+  }
+  return NextResponse.json({ error: fallback }, { status: 500 });
+};
+
+// GET /api/jobs/[id] - Status, progress (with partial results) and the final result once finished
+export async function GET(_req: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    const userId = session?.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const job = await jobQueue.getJob(userId, id);
+    return NextResponse.json({ success: true, job: toJobSummary(job) });
+  } catch (error) {
+    console.error('[JOB_GET]', error);
+    return errorResponse(error, 'Failed to load job');
+  }
+}
+
+// POST /api/jobs/[id] - { action: 'cancel' } or { action: 'retry' } for a failed or cancelled job
+export async function POST(req: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    const userId = session?.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let body;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 });
+    }
+
+    const validation = actionSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json({ error: 'Validation failed', details: validation.error.issues }, { status: 400 });
+    }
+
+    const { id } = await params;
+    if (validation.data.action === 'cancel') {
+      const job = await jobQueue.cancel(userId, id);
+      return NextResponse.json({ success: true, job: toJobSummary(job) });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { subscriptionPlan: true }
+    });
+    const plan = (user && user.subscriptionPlan in PLAN_PLATFORMS ? user.subscriptionPlan : 'free') as SubscriptionPlan;
+    const job = await jobQueue.retry(userId, id, plan);
+
+    after(() => jobQueue.runWorker({ maxJobs: 1 }).catch((error) => {
+      console.error('[JOB_POST] Inline worker failed:', error);
+    }));
+
+    return NextResponse.json({ success: true, job: toJobSummary(job) }, { status: 202 });
+  } catch (error) {
+    console.error('[JOB_POST]', error);
+    return errorResponse(error, 'Failed to update job');
+  }
+}
+
+// DELETE /api/jobs/[id] - Cancel a job
+export async function DELETE(_req: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    const userId = session?.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const job = await jobQueue.cancel(userId, id);
+    return NextResponse.json({ success: true, job: toJobSummary(job) });
+  } catch (error) {
+    console.error('[JOB_DELETE]', error);
+    return errorResponse(error, 'Failed to cancel job');
+  }
+}
@@ -0,0 +1,115 @@
+import { NextResponse, after } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { z } from 'zod';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { AppError } from '@/lib/error-handler';
+import { aiService } from '@/lib/ai-service';
+import { jobQueue, toJobSummary, JobStatus } from '@/lib/job-queue';
+import { JOB_PAYLOAD_SCHEMAS, JobType } from '@/lib/job-handlers';
+import { canUserRepurpose, PLAN_PLATFORMS, SubscriptionPlan } from '@/lib/subscription';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+const enqueueSchema = z.object({
+  type: z.enum(Object.keys(JOB_PAYLOAD_SCHEMAS) as [JobType, ...JobType[]]),
+  payload: z.record(z.unknown())
+});
+
+const JOB_STATUSES: JobStatus[] = ['queued', 'running', 'succeeded', 'failed', 'cancelled'];
+
+// GET /api/jobs - The user's recent jobs, optionally filtered by ?status=queued,running and ?type=
+export async function GET(req: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    const userId = session?.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const status = searchParams.get('status')?.split(',').filter((s): s is JobStatus => JOB_STATUSES.includes(s as JobStatus));
+    const jobs = await jobQueue.listJobs(userId, {
+      status,
+      type: searchParams.get('type') || undefined,
+      limit: parseInt(searchParams.get('limit') || '20', 10) || 20
+    });
+
+    return NextResponse.json({ success: true, jobs: jobs.map(toJobSummary) });
+  } catch (error) {
+    console.error('[JOBS_GET]', error);
+    return NextResponse.json({ error: 'Failed to load jobs' }, { status: 500 });
+  }
+}
+
+// POST /api/jobs - Queue a generate, repurpose or bulk-repurpose job; poll GET /api/jobs/[id] for progress
+export async function POST(req: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    const userId = session?.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let body;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 });
+    }
+
+    const validation = enqueueSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json({ error: 'Validation failed', details: validation.error.issues }, { status: 400 });
+    }
+
+    const { type } = validation.data;
+    const payload = JOB_PAYLOAD_SCHEMAS[type].safeParse(validation.data.payload);
+    if (!payload.success) {
+      return NextResponse.json({ error: 'Validation failed', details: payload.error.issues }, { status: 400 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { subscriptionPlan: true }
+    });
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    // Cheap checks up front; the worker repeats the full plan checks when the job runs
+    if (!(await canUserRepurpose(userId))) {
+      return NextResponse.json(
+        {
+          error: 'Usage limit exceeded',
+          message: 'Monthly usage limit exceeded. Please upgrade your plan or enable overage charges in your settings.'
+        },
+        { status: 403 }
+      );
+    }
+
+    if (aiService.getAvailableProviders().length === 0) {
+      return NextResponse.json(
+        { error: 'AI service unavailable', message: 'No AI providers are currently configured. Please contact support.' },
+        { status: 503 }
+      );
+    }
+
+    const plan = (user.subscriptionPlan in PLAN_PLATFORMS ? user.subscriptionPlan : 'free') as SubscriptionPlan;
+    const job = await jobQueue.enqueue(userId, plan, type, payload.data);
+
+    // Start on this instance once the response is sent; the cron worker picks up anything left over
+    after(() => jobQueue.runWorker({ maxJobs: 1 }).catch((error) => {
+      console.error('[JOBS_POST] Inline worker failed:', error);
+    }));
+
+    return NextResponse.json({ success: true, job: toJobSummary(job) }, { status: 202 });
+  } catch (error) {
+    console.error('[JOBS_POST]', error);
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    return NextResponse.json({ error: 'Failed to queue job' }, { status: 500 });
+  }
+}
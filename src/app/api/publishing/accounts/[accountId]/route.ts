@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { AppError } from '@/lib/error-handler';
+import { connectedAccounts } from '@/lib/connected-accounts';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+type RouteParams = { params: Promise<{ accountId: string }> };
+
+// DELETE /api/publishing/accounts/[accountId] - Disconnect an account; its scheduled posts are left for the user to publish
+export async function DELETE(_req: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    const userId = session?.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { accountId } = await params;
+    await connectedAccounts.disconnect(userId, accountId);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[PUBLISHING_ACCOUNT_DELETE]', error);
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    return NextResponse.json({ error: 'Failed to disconnect account' }, { status: 500 });
+  }
+}
@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { AppError } from '@/lib/error-handler';
+import { connectedAccounts, connectedAccountInputSchema } from '@/lib/connected-accounts';
+import { publisherRegistry } from '@/lib/publishers';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+// GET /api/publishing/accounts?platform= - Accounts posts can be published through, and the available publishers
+export async function GET(req: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    const userId = session?.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const platform = new URL(req.url).searchParams.get('platform') || undefined;
+    const accounts = await connectedAccounts.list(userId, platform);
+
+    return NextResponse.json({
+      success: true,
+      data: accounts,
+      publishers: publisherRegistry.describe().filter(publisher => publisher.configured),
+      canManage: await connectedAccounts.canManage(userId)
+    });
+  } catch (error) {
+    console.error('[PUBLISHING_ACCOUNTS_GET]', error);
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    return NextResponse.json({ error: 'Failed to load connected accounts' }, { status: 500 });
+  }
+}
+
+// POST /api/publishing/accounts - Connect an account with tokens from the platform's OAuth flow (team owners and admins)
+export async function POST(req: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    const userId = session?.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let body;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 });
+    }
+
+    const validation = connectedAccountInputSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json({ error: 'Validation failed', details: validation.error.issues }, { status: 400 });
+    }
+
+    const account = await connectedAccounts.connect(userId, validation.data);
+    return NextResponse.json({ success: true, data: account }, { status: 201 });
+  } catch (error) {
+    console.error('[PUBLISHING_ACCOUNTS_POST]', error);
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    return NextResponse.json({ error: 'Failed to connect account' }, { status: 500 });
+  }
+}
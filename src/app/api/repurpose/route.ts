@@ -2,8 +2,13 @@ import { NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { withPrisma } from '@/lib/prisma-dynamic'
-import { incrementUsage, recordOverageCharge, SubscriptionPlan, SUBSCRIPTION_LIMITS } from '@/lib/subscription'
+import { incrementUsage, recordOverageCharge, SubscriptionPlan, SUBSCRIPTION_LIMITS, PLAN_PLATFORMS } from '@/lib/subscription'
 import { aiService, Platform, AIProvider } from '@/lib/ai-service'
+import { providerRegistry } from '@/lib/ai-providers'
+import { aiUsageLedger, createUsageRequestId } from '@/lib/ai-usage-ledger'
+import { chunkSummaryStore } from '@/lib/content-chunking'
+import { analyticsTracker } from '@/lib/analytics-tracker'
+import { collectExposures } from '@/lib/prompt-experiments'
 import { 
   tableExists, 
   ensureContentTableExists, 
@@ -12,6 +17,10 @@ import {
   generateId 
 } from '@/lib/db-setup'
 import { withCache } from '@/lib/cache-dynamic'
+import { brandVoices, ResolvedBrandVoice } from '@/lib/brand-voices'
+import { glossaries, applyGlossaryToOutput, withGlossary } from '@/lib/glossary'
+import { aiContentAnalyzer } from '@/lib/ai-content-analyzer'
+import { AppError } from '@/lib/error-handler'
 import { z } from 'zod'
 import { canUserRepurpose } from '@/lib/subscription'
 
@@ -27,9 +36,10 @@ const repurposeContentSchema = z.object({
   contentId: z.string().optional(), // Optional - if provided, update existing content
   platforms: z.array(z.enum(['twitter', 'linkedin', 'instagram', 'facebook', 'email', 'newsletter', 'thread', 'youtube', 'tiktok', 'general'])).optional(),
   brandVoice: z.string().optional(),
+  brandVoiceId: z.string().optional(), // Brand voice profile, used instead of brandVoice
   tone: z.string().optional(),
   additionalInstructions: z.string().optional(),
-  provider: z.enum(['anthropic', 'llama']).optional(),
+  provider: z.string().optional(), // Any registered provider id or alias, e.g. 'anthropic', 'groq', 'llama'
   model: z.string().optional(),
   allowOverage: z.boolean().default(false)
 });
@@ -84,6 +94,7 @@ export async function POST(req: Request) {
       contentId: rawContentId,
       platforms,
       brandVoice,
+      brandVoiceId,
       tone,
       additionalInstructions,
       provider,
@@ -145,6 +156,7 @@ export async function POST(req: Request) {
               usageThisMonth: true,
               overageConsent: true,
               overageConsentDate: true,
+              teamId: true,
               subscriptions: {
                 where: { 
                   status: { in: ['active', 'trialing'] }
@@ -164,6 +176,7 @@ export async function POST(req: Request) {
           usageThisMonth: 0,
           overageConsent: false,
           overageConsentDate: null,
+          teamId: null,
           subscriptions: []
         };
       }
@@ -228,22 +241,11 @@ export async function POST(req: Request) {
       console.log('🔄 PLATFORM FILTERING - Input plan:', plan);
       
       // STRICT PLATFORM ENFORCEMENT - Must match SUBSCRIPTION.md exactly
-      switch (plan) {
-        case 'free':
-          availablePlatforms = ['twitter', 'instagram'];
-          break;
-        case 'basic':
-          availablePlatforms = ['twitter', 'instagram', 'facebook'];
-          break;
-        case 'pro':
-          availablePlatforms = ['twitter', 'instagram', 'facebook', 'linkedin', 'thread', 'email', 'newsletter'];
-          break;
-        case 'agency':
-          availablePlatforms = ['twitter', 'instagram', 'facebook', 'linkedin', 'thread', 'email', 'newsletter'];
-          break;
-        default:
-          console.log('⚠️  PLAN FELL THROUGH TO DEFAULT - Plan value:', plan);
-          availablePlatforms = ['twitter', 'instagram']; // Default to free tier only
+      if (plan in PLAN_PLATFORMS) {
+        availablePlatforms = [...PLAN_PLATFORMS[plan]];
+      } else {
+        console.log('⚠️  PLAN FELL THROUGH TO DEFAULT - Plan value:', plan);
+        availablePlatforms = [...PLAN_PLATFORMS.free]; // Default to free tier only
       }
       
       console.log('🎯 PLATFORM FILTERING - Result:', {
@@ -296,7 +298,20 @@ export async function POST(req: Request) {
       }
 
       // Validate provider selection (if explicitly provided)
-      if (provider && !aiService.isProviderAvailable(provider as AIProvider)) {
+      if (provider && !providerRegistry.isAllowedForPlan(provider, plan)) {
+        return new NextResponse(
+          JSON.stringify({
+            error: 'Provider not included in plan',
+            message: `The ${provider} provider is not available on the ${plan} plan. Available providers: ${aiService.getProvidersForPlan(plan).join(', ')}`
+          }),
+          { 
+            status: 403,
+            headers: { 'Content-Type': 'application/json' }
+          }
+        );
+      }
+
+      if (provider && !aiService.isProviderAvailable(provider)) {
         return new NextResponse(
           JSON.stringify({
             error: 'Provider unavailable',
@@ -309,19 +324,40 @@ export async function POST(req: Request) {
         );
       }
 
+      // Use the requested profile or brand voice, else the user's default profile or saved one
+      let voice: ResolvedBrandVoice;
+      try {
+        const settings = brandVoice || brandVoiceId
+          ? null
+          : await withPrisma(async (prisma) => prisma.settings.findUnique({ where: { userId }, select: { brandVoice: true } }))
+            .catch(() => null);
+        voice = await brandVoices.resolve(userId, { brandVoiceId, brandVoice, fallback: settings?.brandVoice });
+      } catch (error) {
+        if (error instanceof AppError) {
+          return NextResponse.json({ error: error.message }, { status: error.statusCode });
+        }
+        throw error;
+      }
+      const userBrandVoice = voice.text;
+      // The team glossary is written into the prompt and enforced again on every output
+      const glossaryTerms = await glossaries.forTeam(user.teamId);
+
       // Use AI service to repurpose content
       const repurposeRequest = {
         originalContent: content,
         platforms: platformsToUse,
         brandVoice: userBrandVoice,
         tone,
-        additionalInstructions,
+        additionalInstructions: withGlossary(additionalInstructions, glossaryTerms),
         userId
       };
 
+      const usageRequestId = createUsageRequestId();
       const aiConfig = {
-        ...(provider && { provider: provider as AIProvider }),
-        ...(model && { model })
+        plan,
+        ...(provider && { provider: providerRegistry.resolveId(provider) as AIProvider }),
+        ...(model && { model }),
+        usage: { userId, plan, requestId: usageRequestId, ...(contentId && { contentId }) }
       };
 
       // Debug logging before AI service call
@@ -392,6 +428,11 @@ export async function POST(req: Request) {
         );
       }
 
+      repurposedContent = aiContentAnalyzer.scoreBrandCompliance(
+        repurposedContent.map(item => applyGlossaryToOutput(item.platform, item, glossaryTerms)),
+        voice.details
+      );
+
       // Try to increment usage count, but don't fail if it doesn't work
       try {
         await incrementUsage(userId);
@@ -416,11 +457,16 @@ export async function POST(req: Request) {
                 where: { id: contentId },
                 data: {
                   status: "Repurposed", // Update status to Repurposed
+                  ...(voice.profile && { brandVoiceId: voice.profile.id }),
                   repurposed: {
                     deleteMany: {}, // Clear existing repurposed content
                     create: repurposedContent.map(item => ({
                       platform: item.platform,
-                      content: item.content
+                      content: item.content,
+                      promptVersionId: item.promptVersionId ?? null,
+                      structured: item.structured,
+                      compliance: item.compliance,
+                      glossary: item.glossary
                     }))
                   }
                 },
@@ -438,10 +484,15 @@ export async function POST(req: Request) {
                   contentType,
                   status: "Repurposed", // Mark as repurposed since it's being repurposed
                   userId,
+                  ...(voice.profile && { brandVoiceId: voice.profile.id }),
                   repurposed: {
                     create: repurposedContent.map(item => ({
                       platform: item.platform,
-                      content: item.content
+                      content: item.content,
+                      promptVersionId: item.promptVersionId ?? null,
+                      structured: item.structured,
+                      compliance: item.compliance,
+                      glossary: item.glossary
                     }))
                   }
                 },
@@ -473,9 +524,9 @@ export async function POST(req: Request) {
             for (const item of repurposedContent) {
               await withPrisma(async (prisma) => {
                 await prisma.$executeRawUnsafe(`
-                  INSERT INTO "RepurposedContent" ("id", "platform", "content", "contentId", "createdAt", "updatedAt")
-                  VALUES ($1, $2, $3, $4, NOW(), NOW())
-                `, generateId(), item.platform, item.content, contentId);
+                  INSERT INTO "RepurposedContent" ("id", "platform", "content", "contentId", "promptVersionId", "structured", "compliance", "glossary", "createdAt", "updatedAt")
+                  VALUES ($1, $2, $3, $4, $5, $6::jsonb, $7::jsonb, $8::jsonb, NOW(), NOW())
+                `, generateId(), item.platform, item.content, contentId, item.promptVersionId ?? null, item.structured ? JSON.stringify(item.structured) : null, item.compliance ? JSON.stringify(item.compliance) : null, item.glossary ? JSON.stringify(item.glossary) : null);
               });
             }
             
@@ -492,6 +543,9 @@ export async function POST(req: Request) {
                 id: generateId(),
                 platform: item.platform,
                 content: item.content,
+                structured: item.structured,
+                compliance: item.compliance,
+                glossary: item.glossary,
                 contentId: contentId,
                 createdAt: new Date(),
                 updatedAt: new Date()
@@ -513,9 +567,9 @@ export async function POST(req: Request) {
             for (const item of repurposedContent) {
               await withPrisma(async (prisma) => {
                 await prisma.$executeRawUnsafe(`
-                  INSERT INTO "RepurposedContent" ("id", "platform", "content", "contentId", "createdAt", "updatedAt")
-                  VALUES ($1, $2, $3, $4, NOW(), NOW())
-                `, generateId(), item.platform, item.content, newContentId);
+                  INSERT INTO "RepurposedContent" ("id", "platform", "content", "contentId", "promptVersionId", "structured", "compliance", "glossary", "createdAt", "updatedAt")
+                  VALUES ($1, $2, $3, $4, $5, $6::jsonb, $7::jsonb, $8::jsonb, NOW(), NOW())
+                `, generateId(), item.platform, item.content, newContentId, item.promptVersionId ?? null, item.structured ? JSON.stringify(item.structured) : null, item.compliance ? JSON.stringify(item.compliance) : null, item.glossary ? JSON.stringify(item.glossary) : null);
               });
             }
             
@@ -532,6 +586,9 @@ export async function POST(req: Request) {
                 id: generateId(),
                 platform: item.platform,
                 content: item.content,
+                structured: item.structured,
+                compliance: item.compliance,
+                glossary: item.glossary,
                 contentId: newContentId,
                 createdAt: new Date(),
                 updatedAt: new Date()
@@ -540,6 +597,16 @@ export async function POST(req: Request) {
           }
         }
 
+        // New content only gets an id after generation - attach the AI usage rows to it
+        if (!contentId) {
+          await aiUsageLedger.linkContent(usageRequestId, newContent.id, userId);
+          await chunkSummaryStore.linkContent(usageRequestId, newContent.id, userId);
+        }
+
+        await analyticsTracker.trackContentRepurpose(userId, newContent.id, repurposedContent.map(item => item.platform), {
+          promptExperiments: collectExposures(repurposedContent)
+        });
+
         // Log the final result
         console.log('[REPURPOSE_API] Operation completed:', {
           contentId: newContent.id,
@@ -568,7 +635,10 @@ export async function POST(req: Request) {
             originalContent: newContent.originalContent,
             repurposed: newContent.repurposed.map(item => ({
               platform: item.platform,
-              content: item.content
+              content: item.content,
+              structured: item.structured,
+              compliance: item.compliance,
+              glossary: item.glossary
             }))
           },
           usage: {
@@ -607,7 +677,10 @@ export async function POST(req: Request) {
             originalContent: content,
             repurposed: repurposedContent.map(item => ({
               platform: item.platform,
-              content: item.content
+              content: item.content,
+              structured: item.structured,
+              compliance: item.compliance,
+              glossary: item.glossary
             }))
           },
           usage: {
@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { AppError } from '@/lib/error-handler';
+import { publishingService } from '@/lib/publishing';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+type RouteParams = { params: Promise<{ scheduleId: string }> };
+
+// GET /api/schedule/[scheduleId]/attempts - Recent tries at publishing the post, with what was sent and why it failed
+export async function GET(_req: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    const userId = session?.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { scheduleId } = await params;
+    const attempts = await publishingService.listAttempts(userId, scheduleId);
+
+    return NextResponse.json({ success: true, data: attempts });
+  } catch (error) {
+    console.error('[SCHEDULE_ATTEMPTS_GET]', error);
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    return NextResponse.json({ error: 'Failed to load publish attempts' }, { status: 500 });
+  }
+}
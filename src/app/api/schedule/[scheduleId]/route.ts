@@ -0,0 +1,82 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { z } from 'zod';
+import { authOptions } from '@/lib/auth';
+import { AppError } from '@/lib/error-handler';
+import { contentScheduler } from '@/lib/content-scheduler';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+const updateSchema = z.union([
+  z.object({ action: z.literal('mark_published') }),
+  z.object({
+    publishAt: z.string().min(1).optional(),
+    moveByDays: z.number().int().min(-366).max(366).optional(), // Keeps the local time of day in the post's time zone
+    timezone: z.string().trim().min(1).optional(),
+    recurringPattern: z.string().trim().max(200).nullable().optional(),
+    accountId: z.string().min(1).nullable().optional()
+  })
+]);
+
+type RouteParams = { params: Promise<{ scheduleId: string }> };
+
+// PATCH /api/schedule/[scheduleId] - Move a post (the calendar's drag and drop) or record that it was posted by hand
+export async function PATCH(req: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    const userId = session?.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let body;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 });
+    }
+
+    const validation = updateSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json({ error: 'Validation failed', details: validation.error.issues }, { status: 400 });
+    }
+
+    const { scheduleId } = await params;
+    if ('action' in validation.data) {
+      const schedule = await contentScheduler.markPublished(userId, scheduleId);
+      return NextResponse.json({ success: true, data: { schedule, conflicts: [] } });
+    }
+
+    const result = await contentScheduler.reschedule(userId, scheduleId, validation.data);
+    return NextResponse.json({ success: true, data: result });
+  } catch (error) {
+    console.error('[SCHEDULE_PATCH]', error);
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    return NextResponse.json({ error: 'Failed to update scheduled post' }, { status: 500 });
+  }
+}
+
+// DELETE /api/schedule/[scheduleId] - Take a post off the calendar
+export async function DELETE(_req: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    const userId = session?.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { scheduleId } = await params;
+    await contentScheduler.unschedule(userId, scheduleId);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[SCHEDULE_DELETE]', error);
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    return NextResponse.json({ error: 'Failed to unschedule post' }, { status: 500 });
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { AppError } from '@/lib/error-handler';
+import { contentScheduler } from '@/lib/content-scheduler';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+// GET /api/schedule?from=&to= - Calendar entries in the range, one per occurrence of recurring posts
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    const userId = session?.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const from = searchParams.get('from');
+    const to = searchParams.get('to');
+    if (!from || !to) {
+      return NextResponse.json({ error: 'from and to are required' }, { status: 400 });
+    }
+
+    const entries = await contentScheduler.listCalendar(userId, new Date(from), new Date(to));
+
+    return NextResponse.json({ success: true, data: entries });
+  } catch (error) {
+    console.error('[SCHEDULE_GET]', error);
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    return NextResponse.json({ error: 'Failed to load calendar' }, { status: 500 });
+  }
+}
@@ -0,0 +1,62 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { AppError } from '@/lib/error-handler';
+import { clientCampaigns } from '@/lib/client-campaigns';
+import { emailBrandingSchema } from '@/lib/email-renderer';
+import { BRANDING_EDITOR_ROLES, emailOutputs } from '@/lib/email-outputs';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+// GET /api/team/branding - The logo, brand colors and fonts the team's emails render with
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    const userId = session?.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { teamId, role } = await clientCampaigns.requireTeam(userId, 'Brand settings');
+    const branding = await emailOutputs.getBranding(teamId);
+
+    return NextResponse.json({ success: true, data: branding, canEdit: BRANDING_EDITOR_ROLES.includes(role ?? '') });
+  } catch (error) {
+    console.error('[TEAM_BRANDING_GET]', error);
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    return NextResponse.json({ error: 'Failed to load branding' }, { status: 500 });
+  }
+}
+
+// PUT /api/team/branding - Replace the team's branding (team owners and admins)
+export async function PUT(req: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    const userId = session?.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { teamId, role } = await clientCampaigns.requireTeam(userId, 'Brand settings');
+    if (!BRANDING_EDITOR_ROLES.includes(role ?? '')) {
+      return NextResponse.json({ error: 'Only team owners and admins can change the branding' }, { status: 403 });
+    }
+
+    const validation = emailBrandingSchema.safeParse(await req.json());
+    if (!validation.success) {
+      return NextResponse.json({ error: 'Validation failed', details: validation.error.issues }, { status: 400 });
+    }
+
+    const branding = await emailOutputs.updateBranding(teamId, validation.data);
+    return NextResponse.json({ success: true, data: branding });
+  } catch (error) {
+    console.error('[TEAM_BRANDING_PUT]', error);
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    return NextResponse.json({ error: 'Failed to save branding' }, { status: 500 });
+  }
+}
@@ -0,0 +1,64 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { AppError } from '@/lib/error-handler';
+import { clientCampaigns, campaignUpdateSchema } from '@/lib/client-campaigns';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+// GET /api/team/campaigns/[campaignId] - The campaign with its content and outputs per platform
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ campaignId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    const userId = session?.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { teamId } = await clientCampaigns.requireTeam(userId);
+    const { campaignId } = await params;
+    const campaign = await clientCampaigns.getCampaign(teamId, campaignId);
+
+    return NextResponse.json({ success: true, data: campaign });
+  } catch (error) {
+    console.error('[TEAM_CAMPAIGN_GET]', error);
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    return NextResponse.json({ error: 'Failed to load campaign' }, { status: 500 });
+  }
+}
+
+// PATCH /api/team/campaigns/[campaignId] - Edit, complete or archive a campaign
+export async function PATCH(
+  req: Request,
+  { params }: { params: Promise<{ campaignId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    const userId = session?.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { teamId } = await clientCampaigns.requireTeam(userId);
+    const validation = campaignUpdateSchema.safeParse(await req.json());
+    if (!validation.success) {
+      return NextResponse.json({ error: 'Validation failed', details: validation.error.issues }, { status: 400 });
+    }
+
+    const { campaignId } = await params;
+    const campaign = await clientCampaigns.updateCampaign(teamId, campaignId, validation.data);
+    return NextResponse.json({ success: true, data: campaign });
+  } catch (error) {
+    console.error('[TEAM_CAMPAIGN_PATCH]', error);
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    return NextResponse.json({ error: 'Failed to update campaign' }, { status: 500 });
+  }
+}
@@ -0,0 +1,61 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { AppError } from '@/lib/error-handler';
+import { clientCampaigns, campaignInputSchema, CAMPAIGN_STATUSES, CampaignStatus } from '@/lib/client-campaigns';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+// GET /api/team/campaigns - The team's campaigns, optionally filtered by ?clientId= and ?status=
+export async function GET(req: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    const userId = session?.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { teamId } = await clientCampaigns.requireTeam(userId);
+    const { searchParams } = new URL(req.url);
+    const status = searchParams.get('status');
+    const campaigns = await clientCampaigns.listCampaigns(teamId, {
+      clientId: searchParams.get('clientId') || undefined,
+      status: CAMPAIGN_STATUSES.includes(status as CampaignStatus) ? status as CampaignStatus : undefined
+    });
+
+    return NextResponse.json({ success: true, data: campaigns });
+  } catch (error) {
+    console.error('[TEAM_CAMPAIGNS_GET]', error);
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    return NextResponse.json({ error: 'Failed to load campaigns' }, { status: 500 });
+  }
+}
+
+// POST /api/team/campaigns - Start a campaign, optionally for a client
+export async function POST(req: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    const userId = session?.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { teamId } = await clientCampaigns.requireTeam(userId);
+    const validation = campaignInputSchema.safeParse(await req.json());
+    if (!validation.success) {
+      return NextResponse.json({ error: 'Validation failed', details: validation.error.issues }, { status: 400 });
+    }
+
+    const campaign = await clientCampaigns.createCampaign(teamId, userId, validation.data);
+    return NextResponse.json({ success: true, data: campaign }, { status: 201 });
+  } catch (error) {
+    console.error('[TEAM_CAMPAIGNS_POST]', error);
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    return NextResponse.json({ error: 'Failed to create campaign' }, { status: 500 });
+  }
+}
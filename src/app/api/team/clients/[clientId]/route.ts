@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { AppError } from '@/lib/error-handler';
+import { clientCampaigns, clientUpdateSchema, CLIENT_MANAGER_ROLES } from '@/lib/client-campaigns';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+// GET /api/team/clients/[clientId]
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ clientId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    const userId = session?.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { teamId } = await clientCampaigns.requireTeam(userId);
+    const { clientId } = await params;
+    const client = await clientCampaigns.getClient(teamId, clientId);
+
+    return NextResponse.json({ success: true, data: client });
+  } catch (error) {
+    console.error('[TEAM_CLIENT_GET]', error);
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    return NextResponse.json({ error: 'Failed to load client' }, { status: 500 });
+  }
+}
+
+// PATCH /api/team/clients/[clientId] - Rename, change the brand voice or notes, archive or restore
+export async function PATCH(
+  req: Request,
+  { params }: { params: Promise<{ clientId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    const userId = session?.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { teamId, role } = await clientCampaigns.requireTeam(userId);
+    if (!CLIENT_MANAGER_ROLES.includes(role ?? '')) {
+      return NextResponse.json({ error: 'Only team owners and admins can edit clients' }, { status: 403 });
+    }
+
+    const validation = clientUpdateSchema.safeParse(await req.json());
+    if (!validation.success) {
+      return NextResponse.json({ error: 'Validation failed', details: validation.error.issues }, { status: 400 });
+    }
+
+    const { clientId } = await params;
+    const client = await clientCampaigns.updateClient(teamId, clientId, validation.data);
+    return NextResponse.json({ success: true, data: client });
+  } catch (error) {
+    console.error('[TEAM_CLIENT_PATCH]', error);
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    return NextResponse.json({ error: 'Failed to update client' }, { status: 500 });
+  }
+}
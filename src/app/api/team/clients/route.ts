@@ -0,0 +1,61 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { AppError } from '@/lib/error-handler';
+import { clientCampaigns, clientInputSchema, CLIENT_MANAGER_ROLES } from '@/lib/client-campaigns';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+// GET /api/team/clients - The team's clients; ?includeArchived=true adds archived ones
+export async function GET(req: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    const userId = session?.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { teamId } = await clientCampaigns.requireTeam(userId);
+    const { searchParams } = new URL(req.url);
+    const clients = await clientCampaigns.listClients(teamId, { includeArchived: searchParams.get('includeArchived') === 'true' });
+
+    return NextResponse.json({ success: true, data: clients });
+  } catch (error) {
+    console.error('[TEAM_CLIENTS_GET]', error);
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    return NextResponse.json({ error: 'Failed to load clients' }, { status: 500 });
+  }
+}
+
+// POST /api/team/clients - Add a client (team owners and admins)
+export async function POST(req: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    const userId = session?.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { teamId, role } = await clientCampaigns.requireTeam(userId);
+    if (!CLIENT_MANAGER_ROLES.includes(role ?? '')) {
+      return NextResponse.json({ error: 'Only team owners and admins can add clients' }, { status: 403 });
+    }
+
+    const validation = clientInputSchema.safeParse(await req.json());
+    if (!validation.success) {
+      return NextResponse.json({ error: 'Validation failed', details: validation.error.issues }, { status: 400 });
+    }
+
+    const client = await clientCampaigns.createClient(teamId, userId, validation.data);
+    return NextResponse.json({ success: true, data: client }, { status: 201 });
+  } catch (error) {
+    console.error('[TEAM_CLIENTS_POST]', error);
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    return NextResponse.json({ error: 'Failed to create client' }, { status: 500 });
+  }
+}
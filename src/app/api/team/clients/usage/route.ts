@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { AppError } from '@/lib/error-handler';
+import { clientCampaigns, CLIENT_MANAGER_ROLES } from '@/lib/client-campaigns';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+// GET /api/team/clients/usage?since=&until= - Content, outputs and AI cost per client; defaults to this month
+export async function GET(req: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    const userId = session?.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { teamId, role } = await clientCampaigns.requireTeam(userId);
+    if (!CLIENT_MANAGER_ROLES.includes(role ?? '')) {
+      return NextResponse.json({ error: 'Only team owners and admins can see client usage' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const now = new Date();
+    const since = searchParams.get('since') ? new Date(searchParams.get('since')!) : new Date(now.getFullYear(), now.getMonth(), 1);
+    const until = searchParams.get('until') ? new Date(searchParams.get('until')!) : now;
+    if (isNaN(since.getTime()) || isNaN(until.getTime()) || since > until) {
+      return NextResponse.json({ error: 'since and until must be dates, with since before until' }, { status: 400 });
+    }
+
+    const clients = await clientCampaigns.getClientUsage(teamId, since, until);
+    return NextResponse.json({
+      success: true,
+      data: {
+        period: { since: since.toISOString(), until: until.toISOString() },
+        clients
+      }
+    });
+  } catch (error) {
+    console.error('[TEAM_CLIENT_USAGE_GET]', error);
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    return NextResponse.json({ error: 'Failed to load client usage' }, { status: 500 });
+  }
+}
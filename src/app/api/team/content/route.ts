@@ -0,0 +1,76 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+// GET /api/team/content - Client and campaign work across the team, filtered by ?clientId= and ?campaignId=
+export async function GET(req: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    const userId = session?.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { teamId: true } });
+    if (!user?.teamId) {
+      return NextResponse.json({ success: true, data: [] });
+    }
+    const { teamId } = user;
+
+    const { searchParams } = new URL(req.url);
+    const clientId = searchParams.get('clientId');
+    const campaignId = searchParams.get('campaignId');
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50', 10) || 50, 100);
+
+    // Work filed under a client or campaign belongs to the team, not just its author
+    const contents = await prisma.content.findMany({
+      where: {
+        user: { teamId },
+        ...(clientId || campaignId
+          ? { ...(clientId && { clientId }), ...(campaignId && { campaignId }) }
+          : { OR: [{ clientId: { not: null } }, { campaignId: { not: null } }] })
+      },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+      include: {
+        user: { select: { id: true, name: true, image: true } },
+        client: { select: { id: true, name: true } },
+        campaign: { select: { id: true, name: true } },
+        repurposed: { select: { platform: true } },
+        analytics: { select: { views: true } },
+        _count: { select: { comments: true } }
+      }
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: contents.map((content: any) => ({
+        id: content.id,
+        title: content.title,
+        content: content.originalContent,
+        contentType: content.contentType,
+        status: content.status,
+        platforms: Array.from(new Set(content.repurposed.map((output: { platform: string }) => output.platform))),
+        tags: [],
+        isShared: true,
+        isStarred: false,
+        createdBy: { id: content.user.id, name: content.user.name || 'Team member', image: content.user.image || undefined },
+        sharedWith: [],
+        views: content.analytics[0]?.views ?? 0,
+        likes: 0,
+        comments: content._count.comments,
+        client: content.client,
+        campaign: content.campaign,
+        createdAt: content.createdAt.toISOString(),
+        updatedAt: content.updatedAt.toISOString()
+      }))
+    });
+  } catch (error) {
+    console.error('[TEAM_CONTENT_GET]', error);
+    return NextResponse.json({ error: 'Failed to load team content' }, { status: 500 });
+  }
+}
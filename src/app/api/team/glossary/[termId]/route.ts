@@ -0,0 +1,72 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { AppError } from '@/lib/error-handler';
+import { clientCampaigns } from '@/lib/client-campaigns';
+import { glossaries, glossaryTermUpdateSchema, GLOSSARY_EDITOR_ROLES } from '@/lib/glossary';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+// PATCH /api/team/glossary/[termId] - Change a term's spelling, variants, case rule or note
+export async function PATCH(
+  req: Request,
+  { params }: { params: Promise<{ termId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    const userId = session?.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { teamId, role } = await clientCampaigns.requireTeam(userId, 'Glossaries');
+    if (!GLOSSARY_EDITOR_ROLES.includes(role ?? '')) {
+      return NextResponse.json({ error: 'Only team owners and admins can edit the glossary' }, { status: 403 });
+    }
+
+    const validation = glossaryTermUpdateSchema.safeParse(await req.json());
+    if (!validation.success) {
+      return NextResponse.json({ error: 'Validation failed', details: validation.error.issues }, { status: 400 });
+    }
+
+    const { termId } = await params;
+    const term = await glossaries.update(teamId, termId, validation.data);
+    return NextResponse.json({ success: true, data: term });
+  } catch (error) {
+    console.error('[TEAM_GLOSSARY_PATCH]', error);
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    return NextResponse.json({ error: 'Failed to update glossary term' }, { status: 500 });
+  }
+}
+
+// DELETE /api/team/glossary/[termId]
+export async function DELETE(
+  req: Request,
+  { params }: { params: Promise<{ termId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    const userId = session?.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { teamId, role } = await clientCampaigns.requireTeam(userId, 'Glossaries');
+    if (!GLOSSARY_EDITOR_ROLES.includes(role ?? '')) {
+      return NextResponse.json({ error: 'Only team owners and admins can edit the glossary' }, { status: 403 });
+    }
+
+    const { termId } = await params;
+    await glossaries.delete(teamId, termId);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[TEAM_GLOSSARY_DELETE]', error);
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    return NextResponse.json({ error: 'Failed to delete glossary term' }, { status: 500 });
+  }
+}
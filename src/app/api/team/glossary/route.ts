@@ -0,0 +1,61 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { AppError } from '@/lib/error-handler';
+import { clientCampaigns } from '@/lib/client-campaigns';
+import { glossaries, glossaryTermInputSchema, GLOSSARY_EDITOR_ROLES } from '@/lib/glossary';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+// GET /api/team/glossary - The team's glossary terms, enforced on every output its members generate
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    const userId = session?.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { teamId, role } = await clientCampaigns.requireTeam(userId, 'Glossaries');
+    const terms = await glossaries.list(teamId);
+
+    return NextResponse.json({ success: true, data: terms, canEdit: GLOSSARY_EDITOR_ROLES.includes(role ?? '') });
+  } catch (error) {
+    console.error('[TEAM_GLOSSARY_GET]', error);
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    return NextResponse.json({ error: 'Failed to load glossary' }, { status: 500 });
+  }
+}
+
+// POST /api/team/glossary - Add a term (team owners and admins)
+export async function POST(req: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    const userId = session?.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { teamId, role } = await clientCampaigns.requireTeam(userId, 'Glossaries');
+    if (!GLOSSARY_EDITOR_ROLES.includes(role ?? '')) {
+      return NextResponse.json({ error: 'Only team owners and admins can edit the glossary' }, { status: 403 });
+    }
+
+    const validation = glossaryTermInputSchema.safeParse(await req.json());
+    if (!validation.success) {
+      return NextResponse.json({ error: 'Validation failed', details: validation.error.issues }, { status: 400 });
+    }
+
+    const term = await glossaries.create(teamId, userId, validation.data);
+    return NextResponse.json({ success: true, data: term }, { status: 201 });
+  } catch (error) {
+    console.error('[TEAM_GLOSSARY_POST]', error);
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    return NextResponse.json({ error: 'Failed to add glossary term' }, { status: 500 });
+  }
+}
@@ -2,7 +2,17 @@ import { NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { withPrisma } from '@/lib/prisma-dynamic'
-import { aiService, Platform } from '@/lib/ai-service'
+import { aiService, Platform, RepurposedContent, AtomizedContent, AtomizedPost } from '@/lib/ai-service'
+import { aiUsageLedger, createUsageRequestId } from '@/lib/ai-usage-ledger'
+import { chunkSummaryStore } from '@/lib/content-chunking'
+import { PLAN_CONTENT_LIMITS } from '@/lib/subscription'
+import { DEFAULT_ATOMIZE_POSTS } from '@/lib/config'
+import { AppError } from '@/lib/error-handler'
+import { contentScheduler, resolveSchedule } from '@/lib/content-scheduler'
+import { clientCampaigns } from '@/lib/client-campaigns'
+import { brandVoices } from '@/lib/brand-voices'
+import { glossaries, applyGlossaryToOutput, withGlossary } from '@/lib/glossary'
+import { aiContentAnalyzer } from '@/lib/ai-content-analyzer'
 import { z } from 'zod'
 
 // Force dynamic to prevent build-time execution
@@ -25,13 +35,19 @@ const AGENCY_TIER_CONFIG = {
   ]
 } as const;
 
+const agencyPlatformSchema = z.enum(['twitter', 'instagram', 'facebook', 'linkedin', 'thread', 'email', 'newsletter', 'youtube', 'tiktok']);
+
 // Validation schema for Agency tier
 const agencyRepurposeSchema = z.object({
-  title: z.string().min(1, 'Title is required').max(300, 'Title too long'),
-  content: z.string().min(1, 'Content is required').max(25000, 'Content too long'),
+  title: z.string().min(1, 'Title is required').max(PLAN_CONTENT_LIMITS.agency.titleChars, 'Title too long'),
+  content: z.string().min(1, 'Content is required').max(PLAN_CONTENT_LIMITS.agency.contentChars, 'Content too long'),
   contentType: z.string().min(1, 'Content type is required'),
-  platforms: z.array(z.enum(['twitter', 'instagram', 'facebook', 'linkedin', 'thread', 'email', 'newsletter', 'youtube', 'tiktok'])).optional(),
+  platforms: z.array(agencyPlatformSchema).optional(),
+  // 'atomize' writes several distinct posts per platform, one key idea each, grouped under a campaign
+  mode: z.enum(['repurpose', 'atomize']).default('repurpose'),
+  postsPerPlatform: z.record(agencyPlatformSchema, z.number().int().min(0)).optional(),
   brandVoice: z.string().optional(),
+  brandVoiceId: z.string().optional(),
   tone: z.enum(['professional', 'casual', 'friendly', 'formal', 'authoritative', 'conversational', 'expert', 'thought-leader']).optional(),
   allowOverage: z.boolean().default(false),
   schedule: z.object({
@@ -87,7 +103,10 @@ export async function POST(req: Request) {
       content, 
       contentType, 
       platforms, 
+      mode,
+      postsPerPlatform,
       brandVoice, 
+      brandVoiceId,
       tone, 
       allowOverage, 
       schedule,
@@ -102,6 +121,9 @@ export async function POST(req: Request) {
       customBranding
     } = validation.data;
 
+    // Checked before anything is generated; the outputs are scheduled once saved
+    const resolvedSchedule = schedule?.publishAt ? resolveSchedule({ ...schedule, publishAt: schedule.publishAt }) : null;
+
     // Verify user is on Agency tier
     const user = await withPrisma(async (prisma) => {
       return await prisma.user.findUnique({
@@ -201,18 +223,21 @@ export async function POST(req: Request) {
     // Fetch user's preferred platforms and overage settings from settings
     let preferredPlatforms: string[] = [];
     let overageEnabled = false;
+    let settingsBrandVoice: string | null = null;
     try {
       const settings = await withPrisma(async (prisma) => {
         return await prisma.settings.findUnique({ 
           where: { userId },
           select: { 
             preferredPlatforms: true,
-            overageEnabled: true
+            overageEnabled: true,
+            brandVoice: true
           }
         });
       });
       preferredPlatforms = settings?.preferredPlatforms || [];
       overageEnabled = settings?.overageEnabled || false;
+      settingsBrandVoice = settings?.brandVoice ?? null;
     } catch (error) {
       console.error('Error fetching user settings:', error);
     }
@@ -269,22 +294,59 @@ export async function POST(req: Request) {
       );
     }
 
+    // The client and campaign must belong to the team; their brand voice applies unless the request sets one
+    const scope = await clientCampaigns.resolveScope(user.teamId, { clientId, campaignId })
+    const voice = await brandVoices.resolve(userId, { brandVoiceId, brandVoice, scope, fallback: settingsBrandVoice })
+    const glossaryTerms = await glossaries.forTeam(user.teamId)
+
     // Generate repurposed content using premium AI model
-    const repurposedContent = await aiService.repurposeContent({
-      originalContent: content,
-      platforms: platformsToUse,
-      brandVoice,
-      tone,
-      additionalInstructions: [
-        'Create premium, enterprise-grade content optimized for Agency tier',
-        customTemplate && `Use this custom template: ${customTemplate}`,
-        targetAudience && `Target audience: ${targetAudience}`,
-        hashtags && hashtags.length > 0 && `Include relevant hashtags: ${hashtags.join(', ')}`,
-        callToAction && `Include call-to-action: ${callToAction}`,
-        customBranding && 'Apply custom branding guidelines',
-        'Enable comprehensive analytics and team collaboration features'
-      ].filter(Boolean).join('. ')
-    });
+    const usageRequestId = createUsageRequestId()
+    const usageConfig = { usage: { userId, teamId: user.teamId, clientId: scope.clientId ?? null, plan: 'agency', requestId: usageRequestId } }
+    const additionalInstructions = withGlossary([
+      'Create premium, enterprise-grade content optimized for Agency tier',
+      customTemplate && `Use this custom template: ${customTemplate}`,
+      targetAudience && `Target audience: ${targetAudience}`,
+      hashtags && hashtags.length > 0 && `Include relevant hashtags: ${hashtags.join(', ')}`,
+      callToAction && `Include call-to-action: ${callToAction}`,
+      customBranding && 'Apply custom branding guidelines',
+      'Enable comprehensive analytics and team collaboration features'
+    ].filter(Boolean).join('. '), glossaryTerms);
+
+    let atomized: AtomizedContent | undefined
+    let repurposedContent: Array<RepurposedContent | AtomizedPost>
+
+    if (mode === 'atomize') {
+      const counts = postsPerPlatform && Object.keys(postsPerPlatform).length > 0
+        ? postsPerPlatform
+        : Object.fromEntries(platformsToUse.map(platform => [platform, DEFAULT_ATOMIZE_POSTS[platform as keyof typeof DEFAULT_ATOMIZE_POSTS] ?? 1]))
+      atomized = await aiService.atomizeContent({
+        originalContent: content,
+        postsPerPlatform: counts,
+        brandVoice: voice.text,
+        tone,
+        additionalInstructions
+      }, usageConfig)
+      repurposedContent = atomized.posts
+      platformsToUse = Array.from(new Set(atomized.posts.map(post => post.platform)))
+    } else {
+      repurposedContent = await aiService.repurposeContent({
+        originalContent: content,
+        platforms: platformsToUse,
+        brandVoice: voice.text,
+        tone,
+        additionalInstructions
+      }, usageConfig);
+    }
+
+    repurposedContent = aiContentAnalyzer.scoreBrandCompliance(
+      repurposedContent.map(item => applyGlossaryToOutput(item.platform, item, glossaryTerms)),
+      voice.details
+    )
+
+    // Atomized posts are always grouped under a campaign; one named after the content is started when the request doesn't pick one
+    const campaign = scope.campaignId ?? (mode === 'atomize' && user.teamId
+      ? (await clientCampaigns.createCampaign(user.teamId, userId, { name: title.slice(0, 100), clientId: scope.clientId })).id
+      : undefined)
 
     // Save to database with Agency tier features
     const savedContent = await withPrisma(async (prisma) => {
@@ -298,15 +360,17 @@ export async function POST(req: Request) {
           contentType,
           status: 'completed',
           tier: 'agency',
-          ...(schedule?.publishAt && { scheduledAt: new Date(schedule.publishAt) }),
           ...(targetAudience && { targetAudience }),
           ...(hashtags && { hashtags }),
           ...(callToAction && { callToAction }),
           ...(teamMemberId && { teamMemberId }),
-          ...(clientId && { clientId }),
-          ...(campaignId && { campaignId })
+          ...(scope.clientId && { clientId: scope.clientId }),
+          ...(campaign && { campaignId: campaign }),
+          ...(voice.profile && { brandVoiceId: voice.profile.id })
         }
       });
+      await aiUsageLedger.linkContent(usageRequestId, contentRecord.id, userId)
+      await chunkSummaryStore.linkContent(usageRequestId, contentRecord.id, userId)
 
       // Create repurposed content records
       const repurposedRecords = await Promise.all(
@@ -318,6 +382,12 @@ export async function POST(req: Request) {
               userId,
               platform: item.platform,
               content: item.content,
+              promptVersionId: item.promptVersionId ?? null,
+              structured: item.structured,
+              compliance: item.compliance,
+              glossary: item.glossary,
+              ...(campaign && { campaignId: campaign }),
+              ...('angle' in item && { angle: item.angle, sequence: item.sequence }),
               tier: 'agency'
             }
           });
@@ -351,6 +421,10 @@ export async function POST(req: Request) {
       });
     }
 
+    const scheduledPosts = resolvedSchedule
+      ? await contentScheduler.scheduleOutputs(userId, savedContent.contentRecord.id, savedContent.repurposedRecords, resolvedSchedule)
+      : [];
+
     return NextResponse.json({
       success: true,
       data: {
@@ -381,14 +455,24 @@ export async function POST(req: Request) {
           enterprise: true
         },
         ...(overageCharge > 0 && { overageCharge }),
-        ...(schedule && { schedule }),
+        ...(schedule && { schedule, scheduledPosts }),
         ...(customTemplate && { customTemplate }),
         ...(targetAudience && { targetAudience }),
         ...(hashtags && { hashtags }),
         ...(callToAction && { callToAction }),
         ...(teamMemberId && { teamMemberId }),
-        ...(clientId && { clientId }),
-        ...(campaignId && { campaignId }),
+        ...(scope.clientId && { clientId: scope.clientId }),
+        ...(voice.profile && { brandVoice: voice.profile }),
+        ...(campaign && { campaignId: campaign }),
+        ...(atomized && {
+          campaign: {
+            id: campaign,
+            ideas: atomized.ideas,
+            postCount: atomized.posts.length,
+            failures: atomized.failures,
+            warnings: atomized.warnings
+          }
+        }),
         ...(customBranding && { customBranding }),
         ...(bulkOperation && { bulkOperation })
       },
@@ -397,6 +481,12 @@ export async function POST(req: Request) {
 
   } catch (error) {
     console.error('[AGENCY_TIER_REPURPOSE_ERROR]', error);
+    if (error instanceof AppError) {
+      return new NextResponse(
+        JSON.stringify({ error: error.message, tier: 'agency' }),
+        { status: error.statusCode, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
     return new NextResponse(
       JSON.stringify({
         error: 'Internal server error',
@@ -3,6 +3,11 @@ import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { withPrisma } from '@/lib/prisma-dynamic'
 import { aiService, Platform } from '@/lib/ai-service'
+import { aiUsageLedger, createUsageRequestId } from '@/lib/ai-usage-ledger'
+import { glossaries, applyGlossaryToOutput, withGlossary } from '@/lib/glossary'
+import { PLAN_CONTENT_LIMITS } from '@/lib/subscription'
+import { AppError } from '@/lib/error-handler'
+import { contentScheduler, resolveSchedule } from '@/lib/content-scheduler'
 import { z } from 'zod'
 
 // Force dynamic to prevent build-time execution
@@ -24,8 +29,8 @@ const BASIC_TIER_CONFIG = {
 
 // Validation schema for Basic tier
 const basicRepurposeSchema = z.object({
-  title: z.string().min(1, 'Title is required').max(150, 'Title too long'),
-  content: z.string().min(1, 'Content is required').max(5000, 'Content too long for basic tier'),
+  title: z.string().min(1, 'Title is required').max(PLAN_CONTENT_LIMITS.basic.titleChars, 'Title too long'),
+  content: z.string().min(1, 'Content is required').max(PLAN_CONTENT_LIMITS.basic.contentChars, 'Content too long for basic tier'),
   contentType: z.string().min(1, 'Content type is required'),
   platforms: z.array(z.enum(['twitter', 'instagram', 'facebook'])).max(3, 'Basic tier limited to 3 platforms').optional(),
   brandVoice: z.string().optional(),
@@ -66,6 +71,9 @@ export async function POST(req: Request) {
 
     const { title, content, contentType, platforms, brandVoice, tone, allowOverage, schedule } = validation.data;
 
+    // Checked before anything is generated; the outputs are scheduled once saved
+    const resolvedSchedule = schedule?.publishAt ? resolveSchedule({ ...schedule, publishAt: schedule.publishAt }) : null;
+
     // Verify user is on Basic tier
     const user = await withPrisma(async (prisma) => {
       return await prisma.user.findUnique({
@@ -74,7 +82,8 @@ export async function POST(req: Request) {
           subscriptionPlan: true,
           subscriptionStatus: true,
           usageThisMonth: true,
-          overageConsent: true
+          overageConsent: true,
+          teamId: true
         }
       });
     });
@@ -203,13 +212,17 @@ export async function POST(req: Request) {
     }
 
     // Generate repurposed content using standard AI model
-    const repurposedContent = await aiService.repurposeContent({
+    const usageRequestId = createUsageRequestId()
+    // The team glossary is written into the prompt and enforced again on every output
+    const glossaryTerms = await glossaries.forTeam(user.teamId)
+    const generated = await aiService.repurposeContent({
       originalContent: content,
       platforms: platformsToUse,
       brandVoice,
       tone,
-      additionalInstructions: 'Create engaging content optimized for each platform with basic analytics tracking'
-    });
+      additionalInstructions: withGlossary('Create engaging content optimized for each platform with basic analytics tracking', glossaryTerms)
+    }, { usage: { userId, plan: 'basic', requestId: usageRequestId } });
+    const repurposedContent = generated.map(item => applyGlossaryToOutput(item.platform, item, glossaryTerms))
 
     // Save to database
     const savedContent = await withPrisma(async (prisma) => {
@@ -223,9 +236,9 @@ export async function POST(req: Request) {
           contentType,
           status: 'completed',
           tier: 'basic',
-          ...(schedule?.publishAt && { scheduledAt: new Date(schedule.publishAt) })
         }
       });
+      await aiUsageLedger.linkContent(usageRequestId, contentRecord.id, userId)
 
       // Create repurposed content records
       const repurposedRecords = await Promise.all(
@@ -237,6 +250,9 @@ export async function POST(req: Request) {
               userId,
               platform: item.platform,
               content: item.content,
+              promptVersionId: item.promptVersionId ?? null,
+              structured: item.structured,
+              glossary: item.glossary,
               tier: 'basic'
             }
           });
@@ -271,6 +287,10 @@ export async function POST(req: Request) {
       });
     }
 
+    const scheduledPosts = resolvedSchedule
+      ? await contentScheduler.scheduleOutputs(userId, savedContent.contentRecord.id, savedContent.repurposedRecords, resolvedSchedule)
+      : [];
+
     return NextResponse.json({
       success: true,
       data: {
@@ -288,13 +308,19 @@ export async function POST(req: Request) {
         preferredPlatforms,
         features: BASIC_TIER_CONFIG.FEATURES,
         ...(overageCharge > 0 && { overageCharge }),
-        ...(schedule && { schedule })
+        ...(schedule && { schedule, scheduledPosts })
       },
       message: 'Content repurposed successfully for Basic tier'
     });
 
   } catch (error) {
     console.error('[BASIC_TIER_REPURPOSE_ERROR]', error);
+    if (error instanceof AppError) {
+      return new NextResponse(
+        JSON.stringify({ error: error.message, tier: 'basic' }),
+        { status: error.statusCode, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
     return new NextResponse(
       JSON.stringify({
         error: 'Internal server error',
@@ -3,6 +3,9 @@ import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { withPrisma } from '@/lib/prisma-dynamic'
 import { aiService, Platform } from '@/lib/ai-service'
+import { aiUsageLedger, createUsageRequestId } from '@/lib/ai-usage-ledger'
+import { glossaries, applyGlossaryToOutput, withGlossary } from '@/lib/glossary'
+import { PLAN_CONTENT_LIMITS } from '@/lib/subscription'
 import { z } from 'zod'
 
 // Force dynamic to prevent build-time execution
@@ -23,8 +26,8 @@ const FREE_TIER_CONFIG = {
 
 // Validation schema for Free tier
 const freeRepurposeSchema = z.object({
-  title: z.string().min(1, 'Title is required').max(100, 'Title too long for free tier'),
-  content: z.string().min(1, 'Content is required').max(2000, 'Content too long for free tier'),
+  title: z.string().min(1, 'Title is required').max(PLAN_CONTENT_LIMITS.free.titleChars, 'Title too long for free tier'),
+  content: z.string().min(1, 'Content is required').max(PLAN_CONTENT_LIMITS.free.contentChars, 'Content too long for free tier'),
   contentType: z.string().min(1, 'Content type is required'),
   platforms: z.array(z.enum(['twitter', 'instagram'])).max(2, 'Free tier limited to 2 platforms').optional(),
   brandVoice: z.string().optional(),
@@ -69,7 +72,8 @@ export async function POST(req: Request) {
           subscriptionPlan: true,
           subscriptionStatus: true,
           usageThisMonth: true,
-          overageConsent: true
+          overageConsent: true,
+          teamId: true
         }
       });
     });
@@ -186,13 +190,17 @@ export async function POST(req: Request) {
     }
 
     // Generate repurposed content using basic AI model
-    const repurposedContent = await aiService.repurposeContent({
+    const usageRequestId = createUsageRequestId()
+    // The team glossary is written into the prompt and enforced again on every output
+    const glossaryTerms = await glossaries.forTeam(user.teamId)
+    const generated = await aiService.repurposeContent({
       originalContent: content,
       platforms: platformsToUse,
       brandVoice,
       tone,
-      additionalInstructions: 'Keep content concise and engaging for free tier users'
-    });
+      additionalInstructions: withGlossary('Keep content concise and engaging for free tier users', glossaryTerms)
+    }, { usage: { userId, plan: 'free', requestId: usageRequestId } });
+    const repurposedContent = generated.map(item => applyGlossaryToOutput(item.platform, item, glossaryTerms))
 
     // Save to database
     const savedContent = await withPrisma(async (prisma) => {
@@ -208,6 +216,7 @@ export async function POST(req: Request) {
           tier: 'free'
         }
       });
+      await aiUsageLedger.linkContent(usageRequestId, contentRecord.id, userId)
 
       // Create repurposed content records
       const repurposedRecords = await Promise.all(
@@ -219,6 +228,9 @@ export async function POST(req: Request) {
               userId,
               platform: item.platform,
               content: item.content,
+              promptVersionId: item.promptVersionId ?? null,
+              structured: item.structured,
+              glossary: item.glossary,
               tier: 'free'
             }
           });
@@ -3,6 +3,12 @@ import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { withPrisma } from '@/lib/prisma-dynamic'
 import { aiService, Platform } from '@/lib/ai-service'
+import { aiUsageLedger, createUsageRequestId } from '@/lib/ai-usage-ledger'
+import { glossaries, applyGlossaryToOutput, withGlossary } from '@/lib/glossary'
+import { chunkSummaryStore } from '@/lib/content-chunking'
+import { PLAN_CONTENT_LIMITS } from '@/lib/subscription'
+import { AppError } from '@/lib/error-handler'
+import { contentScheduler, resolveSchedule } from '@/lib/content-scheduler'
 import { z } from 'zod'
 
 // Force dynamic to prevent build-time execution
@@ -30,8 +36,8 @@ const PRO_TIER_CONFIG = {
 
 // Validation schema for Pro tier
 const proRepurposeSchema = z.object({
-  title: z.string().min(1, 'Title is required').max(200, 'Title too long'),
-  content: z.string().min(1, 'Content is required').max(10000, 'Content too long for pro tier'),
+  title: z.string().min(1, 'Title is required').max(PLAN_CONTENT_LIMITS.pro.titleChars, 'Title too long'),
+  content: z.string().min(1, 'Content is required').max(PLAN_CONTENT_LIMITS.pro.contentChars, 'Content too long for pro tier'),
   contentType: z.string().min(1, 'Content type is required'),
   platforms: z.array(z.enum(['twitter', 'instagram', 'facebook', 'linkedin', 'thread', 'tiktok', 'youtube', 'email', 'newsletter'])).max(9, 'Pro tier supports all platforms').optional(),
   brandVoice: z.string().optional(),
@@ -90,6 +96,9 @@ export async function POST(req: Request) {
       callToAction
     } = validation.data;
 
+    // Checked before anything is generated; the outputs are scheduled once saved
+    const resolvedSchedule = schedule?.publishAt ? resolveSchedule({ ...schedule, publishAt: schedule.publishAt }) : null;
+
     // Verify user is on Pro tier
     const user = await withPrisma(async (prisma) => {
       return await prisma.user.findUnique({
@@ -98,7 +107,8 @@ export async function POST(req: Request) {
           subscriptionPlan: true,
           subscriptionStatus: true,
           usageThisMonth: true,
-          overageConsent: true
+          overageConsent: true,
+          teamId: true
         }
       });
     });
@@ -235,20 +245,24 @@ export async function POST(req: Request) {
     }
 
     // Generate repurposed content using advanced AI model
-    const repurposedContent = await aiService.repurposeContent({
+    const usageRequestId = createUsageRequestId()
+    // The team glossary is written into the prompt and enforced again on every output
+    const glossaryTerms = await glossaries.forTeam(user.teamId)
+    const generated = await aiService.repurposeContent({
       originalContent: content,
       platforms: platformsToUse,
       brandVoice,
       tone,
-      additionalInstructions: [
+      additionalInstructions: withGlossary([
         'Create high-quality, engaging content optimized for each platform',
         customTemplate && `Use this custom template: ${customTemplate}`,
         targetAudience && `Target audience: ${targetAudience}`,
         hashtags && hashtags.length > 0 && `Include relevant hashtags: ${hashtags.join(', ')}`,
         callToAction && `Include call-to-action: ${callToAction}`,
         'Enable advanced analytics tracking'
-      ].filter(Boolean).join('. ')
-    });
+      ].filter(Boolean).join('. '), glossaryTerms)
+    }, { usage: { userId, plan: 'pro', requestId: usageRequestId } });
+    const repurposedContent = generated.map(item => applyGlossaryToOutput(item.platform, item, glossaryTerms))
 
     // Save to database
     const savedContent = await withPrisma(async (prisma) => {
@@ -262,12 +276,13 @@ export async function POST(req: Request) {
           contentType,
           status: 'completed',
           tier: 'pro',
-          ...(schedule?.publishAt && { scheduledAt: new Date(schedule.publishAt) }),
           ...(targetAudience && { targetAudience }),
           ...(hashtags && { hashtags }),
           ...(callToAction && { callToAction })
         }
       });
+      await aiUsageLedger.linkContent(usageRequestId, contentRecord.id, userId)
+      await chunkSummaryStore.linkContent(usageRequestId, contentRecord.id, userId)
 
       // Create repurposed content records
       const repurposedRecords = await Promise.all(
@@ -279,6 +294,9 @@ export async function POST(req: Request) {
               userId,
               platform: item.platform,
               content: item.content,
+              promptVersionId: item.promptVersionId ?? null,
+              structured: item.structured,
+              glossary: item.glossary,
               tier: 'pro'
             }
           });
@@ -331,6 +349,10 @@ export async function POST(req: Request) {
       });
     }
 
+    const scheduledPosts = resolvedSchedule
+      ? await contentScheduler.scheduleOutputs(userId, savedContent.contentRecord.id, savedContent.repurposedRecords, resolvedSchedule)
+      : [];
+
     return NextResponse.json({
       success: true,
       data: {
@@ -358,7 +380,7 @@ export async function POST(req: Request) {
           platforms: platformsToUse
         },
         ...(overageCharge > 0 && { overageCharge }),
-        ...(schedule && { schedule }),
+        ...(schedule && { schedule, scheduledPosts }),
         ...(customTemplate && { customTemplate }),
         ...(targetAudience && { targetAudience }),
         ...(hashtags && { hashtags }),
@@ -369,6 +391,12 @@ export async function POST(req: Request) {
 
   } catch (error) {
     console.error('[PRO_TIER_REPURPOSE_ERROR]', error);
+    if (error instanceof AppError) {
+      return new NextResponse(
+        JSON.stringify({ error: error.message, tier: 'pro' }),
+        { status: error.statusCode, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
     return new NextResponse(
       JSON.stringify({
         error: 'Internal server error',
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { rateLimiter } from '@/lib/rate-limit';
+import { AppError } from '@/lib/error-handler';
+import { brandVoices } from '@/lib/brand-voices';
+import { aiContentAnalyzer } from '@/lib/ai-content-analyzer';
+import { createUsageRequestId } from '@/lib/ai-usage-ledger';
+import { canUserRepurpose, incrementUsage, PLAN_PLATFORMS, SubscriptionPlan } from '@/lib/subscription';
+import { authenticateRequest, formatApiResponse, formatErrorResponse } from '@/lib/api-v1';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+const complianceSchema = z.object({
+  content: z.string().trim().min(1).max(50000),
+  brandVoiceId: z.string().min(1),
+  platform: z.enum(['twitter', 'linkedin', 'instagram', 'facebook', 'email', 'newsletter', 'thread', 'youtube', 'tiktok', 'general']).default('general'),
+  autoFix: z.boolean().default(false) // Rewrite the content to fix its violations; uses one repurpose
+});
+
+// POST /api/v1/compliance - Score text against a brand voice profile: banned words, required disclaimers,
+// tone, reading level and emoji and hashtag policy. With autoFix, also returns a rewrite and its report.
+export async function POST(request: NextRequest) {
+  try {
+    const user = await authenticateRequest(request);
+    if (!user) {
+      return NextResponse.json(formatErrorResponse('Authentication required', 401), { status: 401 });
+    }
+
+    const rateLimitResult = await rateLimiter.checkLimit(user.id, 'ai_analysis');
+    if (!rateLimitResult.allowed) {
+      return NextResponse.json(
+        formatErrorResponse('Rate limit exceeded', 429, { resetTime: rateLimitResult.resetTime }),
+        { status: 429 }
+      );
+    }
+
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(formatErrorResponse('Invalid JSON', 400), { status: 400 });
+    }
+
+    const validation = complianceSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(formatErrorResponse('Invalid request data', 400, validation.error.issues), { status: 400 });
+    }
+
+    const { content, brandVoiceId, platform, autoFix } = validation.data;
+    const profile = await brandVoices.get(user.id, brandVoiceId);
+    const report = aiContentAnalyzer.checkBrandCompliance(content, profile);
+
+    if (!autoFix || report.violations.length === 0) {
+      return NextResponse.json(formatApiResponse({ report, fixed: null }, { usage: { charged: 0 } }));
+    }
+
+    const plan = (user.subscriptionPlan in PLAN_PLATFORMS ? user.subscriptionPlan : 'free') as SubscriptionPlan;
+    const availablePlatforms: readonly string[] = PLAN_PLATFORMS[plan];
+    if (!availablePlatforms.includes(platform)) {
+      return NextResponse.json(
+        formatErrorResponse(`${platform} is not included in the ${plan} plan`, 403, { availablePlatforms, plan }),
+        { status: 403 }
+      );
+    }
+    if (!(await canUserRepurpose(user.id))) {
+      return NextResponse.json(formatErrorResponse('Usage limit exceeded for current plan', 403, { plan }), { status: 403 });
+    }
+
+    const fixed = await aiContentAnalyzer.fixBrandCompliance({ platform, content }, profile, {
+      plan,
+      usage: { userId: user.id, plan, requestId: createUsageRequestId() }
+    });
+    await incrementUsage(user.id);
+
+    return NextResponse.json(formatApiResponse({
+      report,
+      fixed: {
+        content: fixed.content,
+        structured: fixed.structured ?? null,
+        report: fixed.compliance
+      }
+    }, { usage: { charged: 1 } }));
+  } catch (error) {
+    console.error('[API_V1_COMPLIANCE]', error);
+    if (error instanceof AppError) {
+      return NextResponse.json(formatErrorResponse(error.message, error.statusCode), { status: error.statusCode });
+    }
+    return NextResponse.json(formatErrorResponse('Internal server error', 500), { status: 500 });
+  }
+}
@@ -1,14 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { rateLimiter } from '@/lib/rate-limit';
 import { analyticsTracker } from '@/lib/analytics-tracker';
+import { brandVoices } from '@/lib/brand-voices';
+import { authenticateRequest, formatApiResponse, formatErrorResponse } from '@/lib/api-v1';
 import { z } from 'zod';
 
-// API Version and documentation
-const API_VERSION = 'v1';
-
 // Validation schemas
 const createContentSchema = z.object({
   title: z.string().min(1).max(200),
@@ -33,91 +30,6 @@ const querySchema = z.object({
   dateTo: z.string().optional()
 });
 
-// Helper function for API key authentication
-async function authenticateApiKey(request: NextRequest) {
-  const apiKey = request.headers.get('x-api-key');
-  
-  if (!apiKey) {
-    return null;
-  }
-
-  try {
-    const apiKeyRecord = await prisma.apiKey.findFirst({
-      where: {
-        key: apiKey,
-        isActive: true,
-        expiresAt: {
-          gte: new Date()
-        }
-      },
-      include: {
-        user: true
-      }
-    });
-
-    if (!apiKeyRecord) {
-      return null;
-    }
-
-    // Update last used timestamp
-    await prisma.apiKey.update({
-      where: { id: apiKeyRecord.id },
-      data: { lastUsedAt: new Date() }
-    });
-
-    return apiKeyRecord.user;
-  } catch (error) {
-    console.error('Error authenticating API key:', error);
-    return null;
-  }
-}
-
-// Helper function for unified authentication
-async function authenticateRequest(request: NextRequest) {
-  // Try API key authentication first
-  const apiUser = await authenticateApiKey(request);
-  if (apiUser) {
-    return apiUser;
-  }
-
-  // Fall back to session authentication
-  const session = await getServerSession(authOptions);
-  if (session?.user?.id) {
-    const user = await prisma.user.findUnique({
-      where: { id: session.user.id }
-    });
-    return user;
-  }
-
-  return null;
-}
-
-// Helper function to format response
-function formatApiResponse(data: any, meta?: any) {
-  return {
-    success: true,
-    data,
-    meta: {
-      version: API_VERSION,
-      timestamp: new Date().toISOString(),
-      ...meta
-    }
-  };
-}
-
-function formatErrorResponse(error: string, statusCode: number = 400, details?: any) {
-  return {
-    success: false,
-    error: {
-      message: error,
-      code: statusCode,
-      details,
-      timestamp: new Date().toISOString(),
-      version: API_VERSION
-    }
-  };
-}
-
 // GET /api/v1/content - List content
 export async function GET(request: NextRequest) {
   try {
@@ -317,16 +229,11 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Validate brand voice if provided
+    // Validate brand voice if provided; profiles shared with the user's team count
     if (validatedData.brandVoiceId) {
-      const brandVoice = await prisma.brandVoice.findFirst({
-        where: {
-          id: validatedData.brandVoiceId,
-          userId: user.id
-        }
-      });
-
-      if (!brandVoice) {
+      try {
+        await brandVoices.get(user.id, validatedData.brandVoiceId);
+      } catch {
         return NextResponse.json(
           formatErrorResponse('Brand voice not found', 404),
           { status: 404 }
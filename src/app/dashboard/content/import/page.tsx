@@ -0,0 +1,40 @@
+import { Metadata } from 'next';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { redirect } from 'next/navigation';
+import ContentImport from '@/components/dashboard/content-import';
+import { Upload } from 'lucide-react';
+
+export const metadata: Metadata = {
+  title: 'Import Content - AI Content Repurposer',
+  description: 'Bring an existing content library in from CSV, JSON or WordPress',
+};
+
+export default async function ContentImportPage() {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user) {
+    redirect('/auth/signin');
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50/50 to-indigo-50">
+      <div className="container mx-auto px-4 py-8 max-w-6xl">
+        {/* Header Section */}
+        <div className="text-center mb-8">
+          <div className="inline-flex items-center justify-center w-16 h-16 bg-gradient-to-r from-indigo-600 to-purple-600 rounded-2xl shadow-lg mb-4">
+            <Upload className="h-8 w-8 text-white" />
+          </div>
+          <h1 className="text-4xl font-bold bg-gradient-to-r from-gray-900 via-indigo-900 to-purple-900 bg-clip-text text-transparent mb-3">
+            Import Content
+          </h1>
+          <p className="text-lg text-gray-600 max-w-2xl mx-auto leading-relaxed">
+            Bring your existing posts in from a spreadsheet, a JSON file or WordPress. Preview every row before anything is saved.
+          </p>
+        </div>
+
+        <ContentImport />
+      </div>
+    </div>
+  );
+}
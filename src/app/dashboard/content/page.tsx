@@ -3,7 +3,7 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { redirect } from 'next/navigation';
 import AdvancedContentLibrary from '@/components/dashboard/advanced-content-library';
-import { FileText, Plus } from 'lucide-react';
+import { FileText, Plus, Upload } from 'lucide-react';
 import Link from 'next/link';
 
 export const metadata: Metadata = {
@@ -39,13 +39,22 @@ export default async function ContentPage() {
           <div className="flex items-center space-x-2">
             <h2 className="text-xl font-semibold text-gray-900">Content Library</h2>
           </div>
-          <Link
-            href="/dashboard/new"
-            className="inline-flex items-center px-4 py-2 bg-gradient-to-r from-indigo-600 to-purple-600 text-white text-sm font-medium rounded-lg hover:from-indigo-700 hover:to-purple-700 transition-all duration-200 shadow-md hover:shadow-lg"
-          >
-            <Plus className="h-4 w-4 mr-2" />
-            Create New Content
-          </Link>
+          <div className="flex items-center gap-2">
+            <Link
+              href="/dashboard/content/import"
+              className="inline-flex items-center px-4 py-2 bg-white text-indigo-700 text-sm font-medium rounded-lg border border-indigo-200 hover:bg-indigo-50 transition-all duration-200 shadow-sm"
+            >
+              <Upload className="h-4 w-4 mr-2" />
+              Import
+            </Link>
+            <Link
+              href="/dashboard/new"
+              className="inline-flex items-center px-4 py-2 bg-gradient-to-r from-indigo-600 to-purple-600 text-white text-sm font-medium rounded-lg hover:from-indigo-700 hover:to-purple-700 transition-all duration-200 shadow-md hover:shadow-lg"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Create New Content
+            </Link>
+          </div>
         </div>
 
         {/* Content Library */}
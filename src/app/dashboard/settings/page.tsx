@@ -2,6 +2,10 @@ import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
 import SettingsForm from '@/components/SettingsForm'
+import BrandVoiceProfiles from '@/components/BrandVoiceProfiles'
+import TeamGlossary from '@/components/TeamGlossary'
+import ConnectedAccounts from '@/components/ConnectedAccounts'
+import TeamBranding from '@/components/TeamBranding'
 import { redirect } from 'next/navigation'
 
 export default async function SettingsPage() {
@@ -41,6 +45,12 @@ export default async function SettingsPage() {
         initialSettings={formattedSettings} 
         subscriptionPlan={user?.subscriptionPlan || 'free'} 
       />
+      <div className="mt-8 border-t pt-6">
+        <BrandVoiceProfiles />
+      </div>
+      <TeamGlossary />
+      <TeamBranding />
+      <ConnectedAccounts />
     </div>
   )
 } 
\ No newline at end of file
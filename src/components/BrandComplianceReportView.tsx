@@ -0,0 +1,82 @@
+'use client';
+
+import { ReactNode } from 'react';
+import { ShieldAlert, ShieldCheck } from 'lucide-react';
+import type { BrandComplianceReport, ComplianceSeverity, ComplianceSpan } from '@/lib/brand-compliance';
+
+interface BrandComplianceReportViewProps {
+  report: BrandComplianceReport;
+  content: string; // The text the report's spans point into
+}
+
+const SEVERITY_STYLES: Record<ComplianceSeverity, { text: string; mark: string }> = {
+  high: { text: 'text-red-700', mark: 'bg-red-100 text-red-800' },
+  medium: { text: 'text-amber-700', mark: 'bg-amber-100 text-amber-800' },
+  low: { text: 'text-gray-600', mark: 'bg-yellow-50 text-gray-800' }
+};
+
+type MarkedSpan = ComplianceSpan & { severity: ComplianceSeverity; message: string };
+
+/**
+ * The text with each violation's spans marked; overlapping spans keep the first one
+ */
+function highlight(content: string, spans: MarkedSpan[]): ReactNode[] {
+  const parts: ReactNode[] = [];
+  let cursor = 0;
+  [...spans].sort((a, b) => a.start - b.start).forEach((span, index) => {
+    if (span.start < cursor) return;
+    parts.push(content.slice(cursor, span.start));
+    parts.push(
+      <mark key={index} title={span.message} className={`${SEVERITY_STYLES[span.severity].mark} rounded px-0.5`}>
+        {content.slice(span.start, span.end)}
+      </mark>
+    );
+    cursor = span.end;
+  });
+  parts.push(content.slice(cursor));
+  return parts;
+}
+
+/**
+ * How well a platform output follows its brand voice profile, with the problems marked in the text
+ */
+export default function BrandComplianceReportView({ report, content }: BrandComplianceReportViewProps) {
+  const spans: MarkedSpan[] = report.violations.flatMap(violation =>
+    violation.spans.map(span => ({ ...span, severity: violation.severity, message: violation.message }))
+  );
+  const details = [
+    report.toneMatch !== null && `Tone match ${report.toneMatch}/100`,
+    report.readingLevel && `Reading level: ${report.readingLevel.level} (grade ${report.readingLevel.grade})`
+  ].filter(Boolean).join(' · ');
+
+  if (report.violations.length === 0) {
+    return (
+      <div className="mt-4 flex items-center space-x-2 text-sm text-green-700">
+        <ShieldCheck className="h-4 w-4" />
+        <span>Follows the brand voice{details && ` · ${details}`}</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className={`mt-4 p-3 rounded-lg border ${report.passed ? 'bg-gray-50 border-gray-200' : 'bg-red-50 border-red-200'}`}>
+      <div className="flex items-center justify-between">
+        <div className={`flex items-center space-x-2 text-sm font-medium ${report.passed ? 'text-gray-800' : 'text-red-800'}`}>
+          <ShieldAlert className="h-4 w-4" />
+          <span>Brand voice score {report.score}/100</span>
+        </div>
+        {details && <span className="text-xs text-gray-500">{details}</span>}
+      </div>
+      <ul className="mt-2 ml-6 list-disc text-sm space-y-1">
+        {report.violations.map((violation, index) => (
+          <li key={index} className={SEVERITY_STYLES[violation.severity].text}>{violation.message}</li>
+        ))}
+      </ul>
+      {spans.length > 0 && (
+        <div className="mt-3 p-3 bg-white border border-gray-100 rounded-md text-sm text-gray-700 whitespace-pre-wrap leading-relaxed">
+          {highlight(content, spans)}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,430 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { notifications } from '@/lib/toast'
+
+export interface BrandVoiceSummary {
+  id: string
+  name: string
+  description: string
+  tone?: string | null
+  targetAudience?: string | null
+  guidelines?: string | null
+  preferredWords: string[]
+  avoidWords: string[]
+  samplePosts: string[]
+  emojiPolicy: string
+  hashtagPolicy: string
+  hashtags: string[]
+  disclaimers: string[]
+  readingLevel?: string | null
+  fingerprint?: { posts: number } | null
+  isDefault: boolean
+  shared: boolean
+  editable: boolean
+}
+
+// What the learn step measured and inferred, shown above the draft it produced
+interface LearnedAnalysis {
+  formality: string
+  sentenceLength: string
+  emojiUsage: string
+  signaturePhrases: string[]
+}
+
+type ProfileFields = Omit<BrandVoiceSummary, 'id' | 'name' | 'isDefault' | 'shared' | 'editable'> &
+  Partial<Pick<BrandVoiceSummary, 'name' | 'isDefault' | 'shared'>>
+
+interface ProfileForm {
+  name: string
+  description: string
+  tone: string
+  targetAudience: string
+  guidelines: string
+  preferredWords: string
+  avoidWords: string
+  samplePosts: string
+  emojiPolicy: string
+  hashtagPolicy: string
+  hashtags: string
+  disclaimers: string
+  readingLevel: string
+  shared: boolean
+  isDefault: boolean
+}
+
+const EMPTY_FORM: ProfileForm = {
+  name: '',
+  description: '',
+  tone: '',
+  targetAudience: '',
+  guidelines: '',
+  preferredWords: '',
+  avoidWords: '',
+  samplePosts: '',
+  emojiPolicy: 'sparing',
+  hashtagPolicy: 'platform',
+  hashtags: '',
+  disclaimers: '',
+  readingLevel: '',
+  shared: false,
+  isDefault: false
+}
+
+// Sample posts are edited in one textarea, separated by a line with only ---
+const SAMPLE_SEPARATOR = /\n-{3,}\n/
+
+const splitList = (value: string) => value.split(/[,\n]/).map(item => item.trim()).filter(Boolean)
+
+function toForm(profile: ProfileFields): ProfileForm {
+  return {
+    name: profile.name ?? '',
+    description: profile.description,
+    tone: profile.tone ?? '',
+    targetAudience: profile.targetAudience ?? '',
+    guidelines: profile.guidelines ?? '',
+    preferredWords: profile.preferredWords.join(', '),
+    avoidWords: profile.avoidWords.join(', '),
+    samplePosts: profile.samplePosts.join('\n---\n'),
+    emojiPolicy: profile.emojiPolicy,
+    hashtagPolicy: profile.hashtagPolicy,
+    hashtags: profile.hashtags.join(' '),
+    disclaimers: (profile.disclaimers ?? []).join('\n'),
+    readingLevel: profile.readingLevel ?? '',
+    shared: profile.shared ?? false,
+    isDefault: profile.isDefault ?? false
+  }
+}
+
+function toPayload(form: ProfileForm) {
+  return {
+    name: form.name,
+    description: form.description,
+    tone: form.tone || null,
+    targetAudience: form.targetAudience || null,
+    guidelines: form.guidelines || null,
+    preferredWords: splitList(form.preferredWords),
+    avoidWords: splitList(form.avoidWords),
+    samplePosts: form.samplePosts.split(SAMPLE_SEPARATOR).map(post => post.trim()).filter(Boolean),
+    emojiPolicy: form.emojiPolicy,
+    hashtagPolicy: form.hashtagPolicy,
+    hashtags: form.hashtags.split(/[\s,]+/).filter(Boolean),
+    disclaimers: form.disclaimers.split('\n').map(line => line.trim()).filter(Boolean),
+    readingLevel: form.readingLevel || null,
+    shared: form.shared,
+    isDefault: form.isDefault
+  }
+}
+
+/**
+ * Manage named brand voice profiles: create, edit, share with the team and pick the default
+ */
+export default function BrandVoiceProfiles() {
+  const [profiles, setProfiles] = useState<BrandVoiceSummary[]>([])
+  const [loading, setLoading] = useState(true)
+  const [editingId, setEditingId] = useState<string | 'new' | null>(null)
+  const [form, setForm] = useState<ProfileForm>(EMPTY_FORM)
+  const [saving, setSaving] = useState(false)
+  const [learnText, setLearnText] = useState<string | null>(null)
+  const [learning, setLearning] = useState(false)
+  const [learned, setLearned] = useState<{ examplePosts: string[]; analysis: LearnedAnalysis } | null>(null)
+  const fileInput = useRef<HTMLInputElement>(null)
+
+  const loadProfiles = async () => {
+    try {
+      const res = await fetch('/api/brand-voices')
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Failed to load brand voices')
+      setProfiles(data.data)
+    } catch (error) {
+      console.error('Error loading brand voices:', error)
+      notifications.error('Failed to load brand voices')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadProfiles()
+  }, [])
+
+  const startEditing = (profile?: BrandVoiceSummary) => {
+    setEditingId(profile?.id ?? 'new')
+    setForm(profile ? toForm(profile) : EMPTY_FORM)
+    setLearned(null)
+    setLearnText(null)
+  }
+
+  // Derive a draft profile from pasted or uploaded example posts, then open it for editing
+  const learnVoice = async (init: RequestInit) => {
+    setLearning(true)
+    try {
+      const res = await fetch('/api/brand-voices/learn', { method: 'POST', ...init })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Failed to learn brand voice')
+
+      const { draft, analysis, examplePosts, source } = data.data
+      setForm(toForm(draft))
+      setEditingId('new')
+      setLearned({ examplePosts, analysis })
+      setLearnText(null)
+      if (source === 'fingerprint') {
+        notifications.warning('AI analysis was unavailable, so the draft is based on measurements only')
+      }
+    } catch (error) {
+      notifications.error(error instanceof Error ? error.message : 'Failed to learn brand voice')
+    } finally {
+      setLearning(false)
+      if (fileInput.current) fileInput.current.value = ''
+    }
+  }
+
+  const learnFromFile = (file: File | undefined) => {
+    if (!file) return
+    const body = new FormData()
+    body.append('file', file)
+    learnVoice({ body })
+  }
+
+  const saveProfile = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    setSaving(true)
+    try {
+      const res = await fetch(editingId === 'new' ? '/api/brand-voices' : `/api/brand-voices/${editingId}`, {
+        method: editingId === 'new' ? 'POST' : 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...toPayload(form), ...(learned && { examplePosts: learned.examplePosts }) })
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.details?.[0]?.message || data.error || 'Failed to save brand voice')
+
+      notifications.success(`Saved "${form.name}"`)
+      setEditingId(null)
+      setLearned(null)
+      await loadProfiles()
+    } catch (error) {
+      notifications.error(error instanceof Error ? error.message : 'Failed to save brand voice')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const updateProfile = async (profile: BrandVoiceSummary, method: 'PATCH' | 'DELETE') => {
+    if (method === 'DELETE' && !confirm(`Delete the "${profile.name}" brand voice?`)) return
+    try {
+      const res = await fetch(`/api/brand-voices/${profile.id}`, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        ...(method === 'PATCH' && { body: JSON.stringify({ isDefault: true }) })
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Failed to update brand voice')
+      await loadProfiles()
+    } catch (error) {
+      notifications.error(error instanceof Error ? error.message : 'Failed to update brand voice')
+    }
+  }
+
+  const inputClass = 'w-full rounded border px-3 py-2 text-sm'
+  const field = (key: keyof ProfileForm) => ({
+    value: form[key] as string,
+    onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => setForm({ ...form, [key]: e.target.value })
+  })
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold">Brand Voice Profiles</h3>
+          <p className="text-sm text-gray-500">
+            Named voices you can pick when creating content. The default profile is used instead of the brand voice above.
+          </p>
+        </div>
+        {editingId === null && learnText === null && (
+          <div className="flex gap-2">
+            <button type="button" onClick={() => setLearnText('')} className="rounded-md border px-3 py-2 text-sm font-medium hover:bg-gray-50">
+              Learn from posts
+            </button>
+            <button type="button" onClick={() => startEditing()} className="rounded-md bg-gray-900 px-3 py-2 text-sm font-medium text-white hover:bg-gray-900/90">
+              New profile
+            </button>
+          </div>
+        )}
+      </div>
+
+      {learnText !== null && (
+        <div className="space-y-3 rounded-lg border p-4">
+          <p className="text-sm text-gray-600">
+            Paste 5 to 50 posts in the brand&apos;s voice, separated by a line containing ---, or upload them as a .txt, .csv or .json file.
+            We&apos;ll describe the voice for you to review before saving.
+          </p>
+          <textarea
+            className="min-h-[160px] w-full rounded border px-3 py-2 text-sm"
+            value={learnText}
+            onChange={(e) => setLearnText(e.target.value)}
+            disabled={learning}
+          />
+          <div className="flex flex-wrap items-center gap-2">
+            <button
+              type="button"
+              disabled={learning || !learnText.trim()}
+              onClick={() => learnVoice({ headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ text: learnText }) })}
+              className="rounded-md bg-gray-900 px-4 py-2 text-sm font-medium text-white hover:bg-gray-900/90 disabled:opacity-50"
+            >
+              {learning ? 'Analyzing...' : 'Analyze posts'}
+            </button>
+            <button type="button" disabled={learning} onClick={() => fileInput.current?.click()} className="rounded-md border px-4 py-2 text-sm disabled:opacity-50">
+              Upload file
+            </button>
+            <input ref={fileInput} type="file" accept=".txt,.csv,.json,.md" className="hidden" onChange={(e) => learnFromFile(e.target.files?.[0])} />
+            <button type="button" disabled={learning} onClick={() => setLearnText(null)} className="px-2 py-2 text-sm text-gray-600">
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading brand voices...</p>
+      ) : profiles.length === 0 && editingId === null ? (
+        <p className="text-sm text-gray-500">No profiles yet.</p>
+      ) : (
+        <ul className="divide-y rounded-lg border">
+          {profiles.map(profile => (
+            <li key={profile.id} className="flex items-start justify-between gap-4 p-3">
+              <div className="min-w-0">
+                <p className="text-sm font-medium">
+                  {profile.name}
+                  {profile.isDefault && <span className="ml-2 rounded bg-blue-50 px-2 py-0.5 text-xs text-blue-700">Default</span>}
+                  {profile.shared && <span className="ml-2 rounded bg-gray-100 px-2 py-0.5 text-xs text-gray-700">Team</span>}
+                  {profile.fingerprint && (
+                    <span className="ml-2 rounded bg-green-50 px-2 py-0.5 text-xs text-green-700">Learned from {profile.fingerprint.posts} posts</span>
+                  )}
+                </p>
+                <p className="truncate text-xs text-gray-500">{profile.description}</p>
+              </div>
+              {profile.editable && (
+                <div className="flex shrink-0 gap-2 text-xs">
+                  {!profile.isDefault && (
+                    <button type="button" onClick={() => updateProfile(profile, 'PATCH')} className="text-indigo-600 hover:text-indigo-700">Make default</button>
+                  )}
+                  <button type="button" onClick={() => startEditing(profile)} className="text-indigo-600 hover:text-indigo-700">Edit</button>
+                  <button type="button" onClick={() => updateProfile(profile, 'DELETE')} className="text-red-600 hover:text-red-700">Delete</button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {editingId !== null && (
+        <form onSubmit={saveProfile} className="space-y-3 rounded-lg border p-4">
+          {learned && (
+            <div className="rounded bg-blue-50 p-3 text-xs text-blue-900">
+              <p>
+                Learned from {learned.examplePosts.length} posts: {learned.analysis.formality}, {learned.analysis.sentenceLength} sentences,
+                {' '}{learned.analysis.emojiUsage === 'none' ? 'no emojis' : `${learned.analysis.emojiUsage} emojis`}.
+              </p>
+              {learned.analysis.signaturePhrases.length > 0 && (
+                <p className="mt-1">Signature phrases: {learned.analysis.signaturePhrases.map(phrase => `"${phrase}"`).join(', ')}</p>
+              )}
+              <p className="mt-1">Review and edit the profile below, then give it a name and save.</p>
+            </div>
+          )}
+          <div className="grid gap-3 sm:grid-cols-2">
+            <label className="space-y-1 text-sm font-medium">
+              <span>Name</span>
+              <input className={inputClass} required maxLength={60} {...field('name')} />
+            </label>
+            <label className="space-y-1 text-sm font-medium">
+              <span>Tone</span>
+              <input className={inputClass} placeholder="e.g. confident, warm" {...field('tone')} />
+            </label>
+          </div>
+          <label className="block space-y-1 text-sm font-medium">
+            <span>Voice</span>
+            <textarea className={`${inputClass} min-h-[80px]`} required placeholder="How the brand sounds" {...field('description')} />
+          </label>
+          <label className="block space-y-1 text-sm font-medium">
+            <span>Audience</span>
+            <input className={inputClass} {...field('targetAudience')} />
+          </label>
+          <div className="grid gap-3 sm:grid-cols-2">
+            <label className="space-y-1 text-sm font-medium">
+              <span>Words to use</span>
+              <input className={inputClass} placeholder="Comma separated" {...field('preferredWords')} />
+            </label>
+            <label className="space-y-1 text-sm font-medium">
+              <span>Words to avoid</span>
+              <input className={inputClass} placeholder="Comma separated" {...field('avoidWords')} />
+            </label>
+          </div>
+          <div className="grid gap-3 sm:grid-cols-3">
+            <label className="space-y-1 text-sm font-medium">
+              <span>Emojis</span>
+              <select className={inputClass} {...field('emojiPolicy')}>
+                <option value="none">None</option>
+                <option value="sparing">Sparingly</option>
+                <option value="liberal">Freely</option>
+              </select>
+            </label>
+            <label className="space-y-1 text-sm font-medium">
+              <span>Hashtags</span>
+              <select className={inputClass} {...field('hashtagPolicy')}>
+                <option value="none">None</option>
+                <option value="platform">Platform default</option>
+                <option value="required">Always add brand hashtags</option>
+              </select>
+            </label>
+            <label className="space-y-1 text-sm font-medium">
+              <span>Brand hashtags</span>
+              <input className={inputClass} placeholder="#brand #campaign" {...field('hashtags')} />
+            </label>
+          </div>
+          <div className="grid gap-3 sm:grid-cols-3">
+            <label className="space-y-1 text-sm font-medium sm:col-span-2">
+              <span>Required disclaimers</span>
+              <textarea className={`${inputClass} min-h-[60px]`} placeholder="One per line, included word for word" {...field('disclaimers')} />
+            </label>
+            <label className="space-y-1 text-sm font-medium">
+              <span>Reading level</span>
+              <select className={inputClass} {...field('readingLevel')}>
+                <option value="">Any</option>
+                <option value="elementary">Elementary school</option>
+                <option value="middle">Middle school</option>
+                <option value="high">High school</option>
+                <option value="college">College</option>
+              </select>
+            </label>
+          </div>
+          <label className="block space-y-1 text-sm font-medium">
+            <span>Guidelines</span>
+            <textarea className={`${inputClass} min-h-[60px]`} {...field('guidelines')} />
+          </label>
+          <label className="block space-y-1 text-sm font-medium">
+            <span>Sample posts</span>
+            <textarea className={`${inputClass} min-h-[100px]`} placeholder="Separate posts with a line containing ---" {...field('samplePosts')} />
+          </label>
+          <div className="flex gap-6 text-sm">
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={form.isDefault} onChange={(e) => setForm({ ...form, isDefault: e.target.checked })} />
+              Default profile
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={form.shared} onChange={(e) => setForm({ ...form, shared: e.target.checked })} />
+              Share with my team
+            </label>
+          </div>
+          <div className="flex gap-2">
+            <button type="submit" disabled={saving} className="rounded-md bg-gray-900 px-4 py-2 text-sm font-medium text-white hover:bg-gray-900/90 disabled:opacity-50">
+              {saving ? 'Saving...' : 'Save profile'}
+            </button>
+            <button type="button" onClick={() => { setEditingId(null); setLearned(null) }} className="rounded-md border px-4 py-2 text-sm">
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,113 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+export interface ClientCampaignValue {
+  clientId: string;
+  campaignId: string;
+}
+
+interface ClientOption {
+  id: string;
+  name: string;
+}
+
+interface CampaignOption {
+  id: string;
+  name: string;
+  clientId: string | null;
+  status: string;
+}
+
+interface ClientCampaignSelectProps {
+  value: ClientCampaignValue;
+  onChange: (value: ClientCampaignValue) => void;
+  // 'filter' offers "All clients"; 'assign' offers "No client" and hides finished campaigns
+  mode: 'filter' | 'assign';
+  disabled?: boolean;
+  className?: string;
+}
+
+/**
+ * Client and campaign pickers for team members. Renders nothing for users without a team.
+ */
+export default function ClientCampaignSelect({ value, onChange, mode, disabled, className }: ClientCampaignSelectProps) {
+  const [clients, setClients] = useState<ClientOption[]>([]);
+  const [campaigns, setCampaigns] = useState<CampaignOption[]>([]);
+  const [available, setAvailable] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function load() {
+      try {
+        const [clientsRes, campaignsRes] = await Promise.all([
+          fetch('/api/team/clients'),
+          fetch('/api/team/campaigns')
+        ]);
+        if (!clientsRes.ok || !campaignsRes.ok) return;
+
+        const [clientsData, campaignsData] = await Promise.all([clientsRes.json(), campaignsRes.json()]);
+        if (cancelled) return;
+        setClients(clientsData.data ?? []);
+        setCampaigns(campaignsData.data ?? []);
+        setAvailable(true);
+      } catch (error) {
+        console.error('Error loading clients and campaigns:', error);
+      }
+    }
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (!available || (clients.length === 0 && campaigns.length === 0)) {
+    return null;
+  }
+
+  const campaignOptions = campaigns.filter(campaign =>
+    (!value.clientId || !campaign.clientId || campaign.clientId === value.clientId) &&
+    (mode === 'filter' || campaign.status === 'active')
+  );
+  const selectClass = 'px-3 py-2 border border-gray-300 rounded-md text-sm bg-white focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className={`flex gap-2 ${className ?? ''}`}>
+      <select
+        aria-label="Client"
+        value={value.clientId}
+        disabled={disabled}
+        onChange={(e) => {
+          const clientId = e.target.value;
+          const campaign = campaigns.find(candidate => candidate.id === value.campaignId);
+          // Drop a campaign that belongs to another client
+          const keepCampaign = !clientId || !campaign?.clientId || campaign.clientId === clientId;
+          onChange({ clientId, campaignId: keepCampaign ? value.campaignId : '' });
+        }}
+        className={selectClass}
+      >
+        <option value="">{mode === 'filter' ? 'All clients' : 'No client'}</option>
+        {clients.map(client => (
+          <option key={client.id} value={client.id}>{client.name}</option>
+        ))}
+      </select>
+      <select
+        aria-label="Campaign"
+        value={value.campaignId}
+        disabled={disabled}
+        onChange={(e) => {
+          const campaign = campaigns.find(candidate => candidate.id === e.target.value);
+          onChange({ clientId: value.clientId || campaign?.clientId || '', campaignId: e.target.value });
+        }}
+        className={selectClass}
+      >
+        <option value="">{mode === 'filter' ? 'All campaigns' : 'No campaign'}</option>
+        {campaignOptions.map(campaign => (
+          <option key={campaign.id} value={campaign.id}>{campaign.name}</option>
+        ))}
+      </select>
+    </div>
+  );
+}
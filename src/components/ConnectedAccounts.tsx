@@ -0,0 +1,208 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { notifications } from '@/lib/toast'
+import { PlatformIcon, formatPlatformName } from '@/lib/platform-icons'
+import type { ConnectedAccountView } from '@/lib/connected-accounts'
+import type { PublisherSummary } from '@/lib/publishers'
+
+interface AccountForm {
+  platform: string
+  adapter: string
+  name: string
+  externalId: string
+  accessToken: string
+  fromName: string
+  replyTo: string
+}
+
+const EMPTY_FORM: AccountForm = { platform: '', adapter: '', name: '', externalId: '', accessToken: '', fromName: '', replyTo: '' }
+
+// What each adapter expects as the account id
+const EXTERNAL_ID_HINTS: Record<string, string> = {
+  x: 'Your X user id',
+  linkedin: 'Author URN, e.g. urn:li:organization:123',
+  facebook: 'Page id',
+  mailchimp: 'Audience id',
+  fake: 'Any id'
+}
+
+const isEmailPlatform = (platform: string) => platform === 'email' || platform === 'newsletter'
+
+/**
+ * Accounts scheduled posts are published through. Shared with the team; only owners and admins
+ * can connect and disconnect them.
+ */
+export default function ConnectedAccounts() {
+  const [accounts, setAccounts] = useState<ConnectedAccountView[]>([])
+  const [publishers, setPublishers] = useState<PublisherSummary[]>([])
+  const [canManage, setCanManage] = useState(false)
+  const [form, setForm] = useState<AccountForm | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  const loadAccounts = async () => {
+    try {
+      const res = await fetch('/api/publishing/accounts')
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Failed to load connected accounts')
+      setAccounts(data.data)
+      setPublishers(data.publishers)
+      setCanManage(!!data.canManage)
+    } catch (error) {
+      console.error('Error loading connected accounts:', error)
+    }
+  }
+
+  useEffect(() => {
+    loadAccounts()
+  }, [])
+
+  const platforms = Array.from(new Set(publishers.flatMap(publisher => publisher.platforms)))
+  const adaptersFor = (platform: string) => publishers.filter(publisher => publisher.platforms.includes(platform as never))
+
+  const saveAccount = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    if (!form) return
+    setSaving(true)
+    try {
+      const res = await fetch('/api/publishing/accounts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          platform: form.platform,
+          adapter: form.adapter || undefined,
+          name: form.name,
+          externalId: form.externalId,
+          accessToken: form.accessToken,
+          ...(isEmailPlatform(form.platform) && { settings: { fromName: form.fromName, replyTo: form.replyTo } })
+        })
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.details?.[0]?.message || data.error || 'Failed to connect account')
+
+      notifications.success('Account connected', { description: 'New posts on the platform will be published through it' })
+      setForm(null)
+      await loadAccounts()
+    } catch (error) {
+      notifications.error(error instanceof Error ? error.message : 'Failed to connect account')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const disconnect = async (account: ConnectedAccountView) => {
+    if (!confirm(`Disconnect ${account.name}? Posts scheduled through it will be left for you to publish.`)) return
+    try {
+      const res = await fetch(`/api/publishing/accounts/${account.id}`, { method: 'DELETE' })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Failed to disconnect account')
+      await loadAccounts()
+    } catch (error) {
+      notifications.error(error instanceof Error ? error.message : 'Failed to disconnect account')
+    }
+  }
+
+  const inputClass = 'w-full rounded border px-3 py-2 text-sm'
+  const adapter = form && (form.adapter || adaptersFor(form.platform)[0]?.id)
+
+  return (
+    <div className="mt-8 space-y-4 border-t pt-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold">Connected Accounts</h3>
+          <p className="text-sm text-gray-500">
+            Scheduled posts go out through these accounts automatically. Posts on platforms without one stay on the calendar for you to publish.
+          </p>
+        </div>
+        {canManage && form === null && (
+          <button type="button" onClick={() => setForm(EMPTY_FORM)} className="rounded-md bg-gray-900 px-3 py-2 text-sm font-medium text-white hover:bg-gray-900/90">
+            Connect account
+          </button>
+        )}
+      </div>
+
+      {form !== null && (
+        <form onSubmit={saveAccount} className="space-y-3 rounded-lg border p-4">
+          <div className="grid gap-3 md:grid-cols-2">
+            <label className="space-y-1 text-sm">
+              <span className="font-medium">Platform</span>
+              <select className={inputClass} value={form.platform} onChange={(e) => setForm({ ...form, platform: e.target.value, adapter: '' })} required>
+                <option value="">Choose a platform</option>
+                {platforms.map(platform => <option key={platform} value={platform}>{formatPlatformName(platform)}</option>)}
+              </select>
+            </label>
+            {form.platform && adaptersFor(form.platform).length > 1 && (
+              <label className="space-y-1 text-sm">
+                <span className="font-medium">Publish with</span>
+                <select className={inputClass} value={form.adapter} onChange={(e) => setForm({ ...form, adapter: e.target.value })}>
+                  {adaptersFor(form.platform).map(publisher => <option key={publisher.id} value={publisher.id}>{publisher.name}</option>)}
+                </select>
+              </label>
+            )}
+            <label className="space-y-1 text-sm">
+              <span className="font-medium">Name</span>
+              <input className={inputClass} value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} placeholder="e.g. Company page" required />
+            </label>
+            <label className="space-y-1 text-sm">
+              <span className="font-medium">Account id</span>
+              <input className={inputClass} value={form.externalId} onChange={(e) => setForm({ ...form, externalId: e.target.value })} placeholder={EXTERNAL_ID_HINTS[adapter ?? ''] ?? ''} required />
+            </label>
+            <label className="space-y-1 text-sm md:col-span-2">
+              <span className="font-medium">Access token</span>
+              <input type="password" autoComplete="off" className={inputClass} value={form.accessToken} onChange={(e) => setForm({ ...form, accessToken: e.target.value })} required />
+            </label>
+            {isEmailPlatform(form.platform) && (
+              <>
+                <label className="space-y-1 text-sm">
+                  <span className="font-medium">From name</span>
+                  <input className={inputClass} value={form.fromName} onChange={(e) => setForm({ ...form, fromName: e.target.value })} required />
+                </label>
+                <label className="space-y-1 text-sm">
+                  <span className="font-medium">Reply-to address</span>
+                  <input type="email" className={inputClass} value={form.replyTo} onChange={(e) => setForm({ ...form, replyTo: e.target.value })} required />
+                </label>
+              </>
+            )}
+          </div>
+          <p className="text-xs text-gray-500">Tokens are stored encrypted and are never shown again.</p>
+          <div className="flex gap-2">
+            <button type="submit" disabled={saving} className="rounded-md bg-gray-900 px-4 py-2 text-sm font-medium text-white hover:bg-gray-900/90 disabled:opacity-50">
+              {saving ? 'Connecting...' : 'Connect'}
+            </button>
+            <button type="button" onClick={() => setForm(null)} className="rounded-md border px-4 py-2 text-sm font-medium hover:bg-gray-50">
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {accounts.length === 0 ? (
+        <p className="text-sm text-gray-500">No connected accounts yet.</p>
+      ) : (
+        <ul className="divide-y rounded-lg border">
+          {accounts.map(account => (
+            <li key={account.id} className="flex items-start justify-between gap-4 p-3 text-sm">
+              <div className="flex items-start gap-2">
+                <PlatformIcon platform={account.platform} size="sm" />
+                <div>
+                  <p className="font-medium">
+                    {account.name}
+                    {account.status === 'expired' && <span className="ml-2 text-xs text-red-600">Reconnect needed</span>}
+                  </p>
+                  <p className="text-gray-500">
+                    {formatPlatformName(account.platform)} via {publishers.find(publisher => publisher.id === account.adapter)?.name ?? account.adapter}
+                    {account.lastUsedAt && ` · last posted ${new Date(account.lastUsedAt).toLocaleDateString()}`}
+                  </p>
+                  {account.lastError && <p className="text-red-600">{account.lastError}</p>}
+                </div>
+              </div>
+              {canManage && (
+                <button type="button" onClick={() => disconnect(account)} className="text-sm text-red-600 hover:underline">Disconnect</button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
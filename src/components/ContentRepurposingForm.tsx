@@ -1,17 +1,42 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { Loader2, AlertCircle, Info, Sparkles, Copy, CheckCircle, FileText, Settings, Zap, Wand2, PenTool } from 'lucide-react';
+import { Loader2, AlertCircle, AlertTriangle, Info, Sparkles, Copy, CheckCircle, FileText, Settings, Zap, Wand2, PenTool, ThumbsUp, ThumbsDown } from 'lucide-react';
 import Link from 'next/link';
 import { PlatformIcon, getPlatformConfig } from '@/lib/platform-icons';
 import { notifications, notificationTemplates } from '@/lib/toast';
+import { renderPartialOutput, StructuredOutput } from '@/lib/structured-output';
+import type { ConstraintViolation } from '@/lib/platform-constraints';
+import type { BrandComplianceReport } from '@/lib/brand-compliance';
+import type { GlossaryReplacement } from '@/lib/glossary';
+import StructuredOutputView from './StructuredOutputView';
+import RepurposedOutputActions, { RevisedOutput } from './RepurposedOutputActions';
+import BrandComplianceReportView from './BrandComplianceReportView';
+import GlossaryReplacementsNote from './GlossaryReplacementsNote';
+import OutputTranslations from './OutputTranslations';
+import DuplicateCheck from './DuplicateCheck';
+import SchedulePost from './SchedulePost';
+import EmailPreview from './EmailPreview';
+import { waitForJob, cancelJob, JobSummary } from '@/lib/job-client';
+import type { GenerateJobResult, RepurposeJobItem, RepurposeJobResult } from '@/lib/job-handlers';
+import type { IngestedSource } from '@/lib/ingestion';
+import SourceImport from './SourceImport';
+import ClientCampaignSelect, { ClientCampaignValue } from './ClientCampaignSelect';
 
 type ContentType = 'blog' | 'video_transcript' | 'article' | 'social_post' | 'email' | 'general';
 type WorkflowMode = 'generate' | 'repurpose';
 
 interface RepurposedItem {
+  id?: string | null; // Saved RepurposedContent row; known once the job is done
   platform: string;
   content: string;
+  structured?: StructuredOutput;
+  constraintWarnings?: ConstraintViolation[];
+  compliance?: BrandComplianceReport;
+  glossary?: GlossaryReplacement[];
+  revisionCount?: number;
+  status?: 'pending' | 'complete' | 'error';
+  error?: string;
 }
 
 interface UsageData {
@@ -31,6 +56,20 @@ interface SubscriptionData {
   renewalDate: string | null;
 }
 
+// A platform card from a repurpose job's progress or result. Drafts are raw model output,
+// usually JSON cut off mid-way, so only the text written so far is shown.
+const toResultItem = (item: RepurposeJobItem): RepurposedItem => ({
+  id: item.id,
+  platform: item.platform,
+  content: item.content ?? (item.draft ? renderPartialOutput(item.draft) : ''),
+  structured: item.structured,
+  constraintWarnings: item.constraintWarnings,
+  compliance: item.compliance,
+  glossary: item.glossary,
+  status: item.status === 'running' ? 'pending' : item.status,
+  error: item.error
+});
+
 export default function ContentRepurposingForm() {
   const [workflowMode, setWorkflowMode] = useState<WorkflowMode>('generate');
   const [title, setTitle] = useState('');
@@ -50,9 +89,16 @@ export default function ContentRepurposingForm() {
   const [showRepurposePrompt, setShowRepurposePrompt] = useState(false);
   const [generatedContent, setGeneratedContent] = useState<string>('');
   const [generatedContentId, setGeneratedContentId] = useState<string>('');
+  const [generatedGlossary, setGeneratedGlossary] = useState<GlossaryReplacement[]>([]);
   const [overageEnabled, setOverageEnabled] = useState(false);
   const [overageRate, setOverageRate] = useState(0.12);
   const [copiedIndex, setCopiedIndex] = useState<number | null>(null);
+  const [ratings, setRatings] = useState<Record<string, number>>({});
+  const [activeJob, setActiveJob] = useState<JobSummary | null>(null);
+  const [importedSource, setImportedSource] = useState<IngestedSource | null>(null);
+  const [scope, setScope] = useState<ClientCampaignValue>({ clientId: '', campaignId: '' });
+  const [brandVoiceProfiles, setBrandVoiceProfiles] = useState<{ id: string; name: string; isDefault: boolean }[]>([]);
+  const [brandVoiceId, setBrandVoiceId] = useState('');
 
   // Check system health and database readiness
   useEffect(() => {
@@ -84,6 +130,23 @@ export default function ContentRepurposingForm() {
     checkSystemHealth();
   }, []);
 
+  // Load brand voice profiles; leaving the picker on "Default" lets the server resolve the voice
+  useEffect(() => {
+    async function fetchBrandVoices() {
+      try {
+        const response = await fetch('/api/brand-voices');
+        if (response.ok) {
+          const data = await response.json();
+          setBrandVoiceProfiles(data.data ?? []);
+        }
+      } catch (error) {
+        console.error('Error loading brand voices:', error);
+      }
+    }
+
+    fetchBrandVoices();
+  }, []);
+
   // Fetch user settings for preferred platforms
   useEffect(() => {
     if (!databaseSetupComplete) return;
@@ -230,60 +293,96 @@ export default function ContentRepurposingForm() {
 
     setLoading(true);
     setResults([]);
+    setRatings({});
     setShowRepurposePrompt(false);
 
     try {
-      const apiEndpoint = workflowMode === 'generate' ? '/api/content/generate' : '/api/repurpose';
-      const requestBody = workflowMode === 'generate' 
+      // Generation runs as a background job: queue it, then poll until it settles
+      const jobRequest = workflowMode === 'generate' 
         ? {
-            title,
-            keywords,
-            tone,
-            targetAudience,
-            contentType,
+            type: 'generate',
+            payload: {
+              title,
+              keywords,
+              tone,
+              targetAudience,
+              contentType,
+              ...(brandVoiceId && { brandVoiceId }),
+            }
           }
         : {
-            title,
-            content,
-            contentType,
-            platforms: selectedPlatforms,
-            tone,
-            targetAudience,
-            ...(generatedContentId && { contentId: generatedContentId }), // Pass contentId to update existing content
+            type: 'repurpose',
+            payload: {
+              title,
+              content,
+              contentType,
+              platforms: selectedPlatforms,
+              tone,
+              ...(generatedContentId && { contentId: generatedContentId }), // Pass contentId to update existing content
+              ...(scope.clientId && { clientId: scope.clientId }),
+              ...(scope.campaignId && { campaignId: scope.campaignId }),
+              ...(brandVoiceId && { brandVoiceId }),
+              ...(importedSource && {
+                source: {
+                  format: importedSource.format,
+                  sourceUrl: importedSource.sourceUrl,
+                  fileName: importedSource.fileName,
+                  author: importedSource.author,
+                  headings: importedSource.headings
+                }
+              }),
+            }
           };
 
-      const response = await fetch(apiEndpoint, {
+      const response = await fetch('/api/jobs', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify(requestBody),
+        body: JSON.stringify(jobRequest),
       });
 
-      // Handle database initialization error
-      if (response.status === 503 && response.headers.get('X-Error-Type') === 'database-not-ready') {
-        notifications.error('The system is still initializing. Please try again in a few moments.');
+      // Handle subscription limit errors
+      if (response.status === 402 || response.status === 403) {
+        setUsageLimitReached(true);
+        notifications.error('Usage limit exceeded. Enable overage charges or upgrade your plan.');
         setLoading(false);
         return;
       }
 
-      // Handle subscription limit errors
-      if (response.status === 402) {
-        if (response.headers.get('X-Allow-Overage')) {
-          setUsageLimitReached(true);
-          notifications.error('Usage limit exceeded. Enable overage charges or upgrade your plan.');
-        } else {
-          notifications.error('Usage limit exceeded. Please upgrade your plan.');
+      const queued = await response.json();
+      if (!response.ok) {
+        throw new Error(queued.message || queued.error || `Failed to ${workflowMode === 'generate' ? 'generate' : 'repurpose'} content`);
+      }
+
+      setActiveJob(queued.job);
+      const job = await waitForJob<GenerateJobResult | RepurposeJobResult>(queued.job.id, {
+        onUpdate: (update) => {
+          setActiveJob(update);
+          if (workflowMode === 'repurpose') {
+            const partial = update.progress?.partial as { items?: RepurposeJobItem[] } | undefined;
+            const result = update.result as RepurposeJobResult | null;
+            const items: RepurposeJobItem[] | undefined = result?.content.repurposed ?? partial?.items;
+            if (items) setResults(items.map(toResultItem));
+          }
         }
-        setLoading(false);
+      });
+
+      if (job.status === 'cancelled') {
+        notifications.warning(`${workflowMode === 'generate' ? 'Generation' : 'Repurposing'} cancelled.`);
         return;
       }
-
-      if (!response.ok) {
-        throw new Error(`Failed to ${workflowMode === 'generate' ? 'generate' : 'repurpose'} content`);
+      if (job.status === 'failed') {
+        throw new Error(job.error || 'The job failed');
       }
 
-      const data = await response.json();
+      const data: { success: boolean; data?: GenerateJobResult; content?: RepurposeJobResult['content']; warning?: string } =
+        workflowMode === 'generate'
+          ? { success: true, data: job.result as GenerateJobResult }
+          : { success: true, ...(job.result as RepurposeJobResult) };
+      if (workflowMode === 'repurpose' && data.content?.id) {
+        setGeneratedContentId(data.content.id);
+      }
       
       // Display warning if content was generated but not saved
       if (data.warning) {
@@ -300,7 +399,8 @@ export default function ContentRepurposingForm() {
           const generatedText = data.data.content;
           const contentId = data.data.contentId;
           setGeneratedContent(generatedText);
-          setGeneratedContentId(contentId);
+          setGeneratedContentId(contentId ?? '');
+          setGeneratedGlossary(data.data.glossary ?? []);
           setContent(generatedText);
           setWorkflowMode('repurpose');
           setShowRepurposePrompt(true);
@@ -310,10 +410,13 @@ export default function ContentRepurposingForm() {
             icon: '✨'
           });
         } else if (workflowMode === 'repurpose' && data.content?.repurposed) {
-          // For repurpose workflow, directly set the results
-          setResults(data.content.repurposed);
+          // Cards were filled in while polling; failed platforms stay visible with their error
           setShowRepurposePrompt(false);
-          notifications.success('Content successfully repurposed!');
+          if (data.content.repurposed.length > 0) {
+            notifications.success('Content successfully repurposed!');
+          } else {
+            notifications.error('Content repurposing failed for every platform. Please try again later.');
+          }
         } else {
           throw new Error('Invalid response format: Missing expected content structure');
         }
@@ -345,15 +448,63 @@ export default function ContentRepurposingForm() {
       const errorMessage = workflowMode === 'generate' 
         ? 'Failed to generate content. Please try again later.'
         : 'Failed to repurpose content. Please try again later.';
-      notifications.error(errorMessage);
+      notifications.error(errorMessage, {
+        description: error instanceof Error ? error.message : undefined
+      });
     } finally {
       setLoading(false);
+      setActiveJob(null);
+    }
+  };
+
+  const handleCancelJob = async () => {
+    if (!activeJob) return;
+    try {
+      setActiveJob(await cancelJob(activeJob.id));
+    } catch (error) {
+      console.error('Failed to cancel job:', error);
+      notifications.error('Failed to cancel. Please try again.');
     }
   };
 
-  const handleCopy = async (content: string, index: number) => {
+  /**
+   * Report what the user did with a platform output; feeds prompt experiment results
+   */
+  const trackOutcome = async (platform: string, event: 'copy' | 'download' | 'rating', value?: number) => {
+    if (!generatedContentId) return;
+
+    try {
+      await fetch(`/api/content/${generatedContentId}/analytics`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ event, platform, ...(value !== undefined && { value }) })
+      });
+    } catch (error) {
+      console.error('Failed to track content outcome:', error);
+    }
+  };
+
+  const handleRevised = (platform: string, output: RevisedOutput, warnings: ConstraintViolation[]) => {
+    setResults(prev => prev.map(item => item.platform === platform ? {
+      ...item,
+      content: output.content,
+      structured: output.structured ?? undefined,
+      constraintWarnings: warnings,
+      compliance: output.compliance ?? undefined,
+      glossary: output.glossary ?? undefined,
+      revisionCount: output.revisions?.length ?? 0
+    } : item));
+  };
+
+  const handleRate = (platform: string, value: number) => {
+    setRatings(prev => ({ ...prev, [platform]: value }));
+    trackOutcome(platform, 'rating', value);
+  };
+
+  const handleCopy = async (content: string, index: number, platform: string) => {
     try {
       await navigator.clipboard.writeText(content);
+      trackOutcome(platform, 'copy');
       setCopiedIndex(index);
       notifications.success('Content copied to clipboard!', {
         duration: 2000,
@@ -368,6 +519,14 @@ export default function ContentRepurposingForm() {
     }
   };
 
+  const handleSourceImported = (source: IngestedSource) => {
+    setImportedSource(source);
+    setContent(source.text);
+    if (source.title) setTitle(source.title);
+    setContentType(source.contentType);
+    setGeneratedContentId('');
+  };
+
   const handleWorkflowModeChange = () => {
     const newMode = workflowMode === 'generate' ? 'repurpose' : 'generate';
     setWorkflowMode(newMode);
@@ -381,6 +540,7 @@ export default function ContentRepurposingForm() {
       setContent('');
       setGeneratedContent('');
       setGeneratedContentId('');
+      setImportedSource(null);
     }
   };
 
@@ -528,6 +688,7 @@ export default function ContentRepurposingForm() {
               <p className="text-green-800 mb-4">
                 Your content has been generated and is ready for repurposing. Review the content below and click "Repurpose Content" when you're ready to adapt it for different platforms.
               </p>
+              <GlossaryReplacementsNote replacements={generatedGlossary} />
               <div className="flex space-x-3">
                 <button
                   onClick={() => setShowRepurposePrompt(false)}
@@ -586,6 +747,35 @@ export default function ContentRepurposingForm() {
           </div>
         </div>
 
+        {/* Client and campaign the work is filed under, for team members */}
+        {workflowMode === 'repurpose' && (
+          <ClientCampaignSelect mode="assign" value={scope} onChange={setScope} disabled={loading} />
+        )}
+
+        {brandVoiceProfiles.length > 0 && (
+          <div className="space-y-2">
+            <label htmlFor="brand-voice" className="block text-sm font-semibold text-gray-900">
+              Brand Voice
+            </label>
+            <select
+              id="brand-voice"
+              value={brandVoiceId}
+              onChange={(e) => setBrandVoiceId(e.target.value)}
+              className="w-full px-4 py-3 bg-white border border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all duration-200 cursor-pointer"
+              disabled={loading}
+            >
+              <option value="">
+                {workflowMode === 'repurpose' && (scope.clientId || scope.campaignId) ? 'Client or campaign voice' : 'Default voice'}
+              </option>
+              {brandVoiceProfiles.map(profile => (
+                <option key={profile.id} value={profile.id}>
+                  {profile.name}{profile.isDefault ? ' (default)' : ''}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
         {workflowMode === 'generate' ? (
           /* Keywords Mode Fields */
           <>
@@ -658,6 +848,12 @@ export default function ContentRepurposingForm() {
             <label htmlFor="content" className="block text-sm font-semibold text-gray-900">
               Your Content
             </label>
+            <SourceImport
+              source={importedSource}
+              disabled={loading}
+              onImported={handleSourceImported}
+              onClear={() => setImportedSource(null)}
+            />
             <div className="relative">
               <textarea
                 id="content"
@@ -674,6 +870,12 @@ export default function ContentRepurposingForm() {
               <Info className="h-3 w-3" />
               <span>Longer content provides better results for platform adaptation</span>
             </p>
+            <DuplicateCheck
+              text={content}
+              endpoint="/api/content/similarity"
+              body={{ text: content, ...(generatedContentId && { excludeContentId: generatedContentId }) }}
+              label="Check against my library"
+            />
           </div>
         )}
 
@@ -728,16 +930,41 @@ export default function ContentRepurposingForm() {
             <div className="absolute inset-0 bg-gradient-to-r from-indigo-400 to-purple-400 rounded-xl opacity-0 group-hover:opacity-20 transition-opacity duration-300"></div>
           </button>
         </div>
+
+        {activeJob && (
+          <div className="flex items-center justify-center space-x-3 text-sm text-gray-500">
+            <span>
+              {activeJob.status === 'queued'
+                ? activeJob.attempts > 0 ? 'Retrying shortly...' : 'Queued - starting soon...'
+                : activeJob.progress?.message || 'Working on it...'}
+            </span>
+            <button
+              type="button"
+              onClick={handleCancelJob}
+              disabled={activeJob.cancelRequested}
+              className="font-medium text-gray-600 hover:text-red-600 disabled:opacity-50 transition-colors duration-200"
+            >
+              {activeJob.cancelRequested ? 'Cancelling...' : 'Cancel'}
+            </button>
+          </div>
+        )}
       </form>
 
       {/* Results Section */}
       {results.length > 0 && (
         <div className="space-y-6 pt-8 border-t border-gray-100">
           <div className="text-center">
-            <div className="inline-flex items-center space-x-2 px-4 py-2 bg-green-50 text-green-800 rounded-full text-sm font-medium">
-              <CheckCircle className="h-4 w-4" />
-              <span>Content Successfully Repurposed</span>
-            </div>
+            {results.some(item => item.status === 'pending') ? (
+              <div className="inline-flex items-center space-x-2 px-4 py-2 bg-indigo-50 text-indigo-800 rounded-full text-sm font-medium">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                <span>Repurposed {results.filter(item => item.status !== 'pending').length} of {results.length} platforms...</span>
+              </div>
+            ) : (
+              <div className="inline-flex items-center space-x-2 px-4 py-2 bg-green-50 text-green-800 rounded-full text-sm font-medium">
+                <CheckCircle className="h-4 w-4" />
+                <span>Content Successfully Repurposed</span>
+              </div>
+            )}
           </div>
           
           <div className="grid gap-6">
@@ -754,33 +981,119 @@ export default function ContentRepurposingForm() {
                     <h3 className="font-semibold text-gray-900">
                       {getPlatformConfig(item.platform).name}
                     </h3>
+                    {item.status === 'pending' && (
+                      <Loader2 className="h-4 w-4 text-indigo-500 animate-spin" />
+                    )}
                   </div>
                   
-                  <button
-                    onClick={() => handleCopy(item.content, index)}
-                    className="flex items-center space-x-2 px-3 py-1.5 text-sm font-medium text-gray-600 hover:text-indigo-600 transition-colors duration-200"
-                  >
-                    {copiedIndex === index ? (
+                  <div className="flex items-center space-x-1">
+                    {item.status === 'complete' && generatedContentId && (
                       <>
-                        <CheckCircle className="h-4 w-4 text-green-500" />
-                        <span className="text-green-600">Copied!</span>
-                      </>
-                    ) : (
-                      <>
-                        <Copy className="h-4 w-4" />
-                        <span>Copy</span>
+                        <button
+                          onClick={() => handleRate(item.platform, 1)}
+                          aria-label="Mark as helpful"
+                          className={`p-1.5 rounded transition-colors duration-200 ${ratings[item.platform] === 1 ? 'text-green-600' : 'text-gray-400 hover:text-green-600'}`}
+                        >
+                          <ThumbsUp className="h-4 w-4" />
+                        </button>
+                        <button
+                          onClick={() => handleRate(item.platform, 0)}
+                          aria-label="Mark as not helpful"
+                          className={`p-1.5 rounded transition-colors duration-200 ${ratings[item.platform] === 0 ? 'text-red-600' : 'text-gray-400 hover:text-red-600'}`}
+                        >
+                          <ThumbsDown className="h-4 w-4" />
+                        </button>
                       </>
                     )}
-                  </button>
+                    <button
+                      onClick={() => handleCopy(item.content, index, item.platform)}
+                      disabled={item.status === 'pending' || item.status === 'error'}
+                      className="flex items-center space-x-2 px-3 py-1.5 text-sm font-medium text-gray-600 hover:text-indigo-600 transition-colors duration-200"
+                    >
+                      {copiedIndex === index ? (
+                        <>
+                          <CheckCircle className="h-4 w-4 text-green-500" />
+                          <span className="text-green-600">Copied!</span>
+                        </>
+                      ) : (
+                        <>
+                          <Copy className="h-4 w-4" />
+                          <span>Copy</span>
+                        </>
+                      )}
+                    </button>
+                  </div>
                 </div>
                 
                 {/* Content Body */}
                 <div className="p-6">
                   <div className="prose prose-sm max-w-none">
-                    <div className="whitespace-pre-wrap text-gray-700 leading-relaxed">
-                      {item.content}
-                    </div>
+                    {item.status === 'error' ? (
+                      <div className="flex items-start space-x-2 text-red-600">
+                        <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                        <span>Failed to generate content for this platform: {item.error}</span>
+                      </div>
+                    ) : item.structured ? (
+                      <StructuredOutputView
+                        platform={item.platform}
+                        structured={item.structured}
+                        onCopy={() => trackOutcome(item.platform, 'copy')}
+                        onExport={() => trackOutcome(item.platform, 'download')}
+                      />
+                    ) : item.status === 'pending' ? (
+                      item.content ? (
+                        <div className="whitespace-pre-wrap leading-relaxed text-gray-400">{item.content}</div>
+                      ) : (
+                        <p className="text-sm text-gray-400">Writing the {getPlatformConfig(item.platform).name} version...</p>
+                      )
+                    ) : (
+                      <div className="whitespace-pre-wrap leading-relaxed text-gray-700">
+                        {item.content}
+                      </div>
+                    )}
                   </div>
+
+                  {item.status === 'complete' && item.constraintWarnings && item.constraintWarnings.length > 0 && (
+                    <div className="mt-4 p-3 bg-amber-50 border border-amber-200 rounded-lg">
+                      <div className="flex items-center space-x-2 text-sm font-medium text-amber-800">
+                        <AlertTriangle className="h-4 w-4" />
+                        <span>Doesn&apos;t meet {getPlatformConfig(item.platform).name}&apos;s requirements</span>
+                      </div>
+                      <ul className="mt-2 ml-6 list-disc text-sm text-amber-700 space-y-1">
+                        {item.constraintWarnings.map((warning, warningIndex) => (
+                          <li key={warningIndex}>{warning.message}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+
+                  {item.status === 'complete' && <GlossaryReplacementsNote replacements={item.glossary} />}
+
+                  {item.status === 'complete' && item.compliance && (
+                    <BrandComplianceReportView report={item.compliance} content={item.content} />
+                  )}
+
+                  {item.status === 'complete' && item.id && generatedContentId && (
+                    <>
+                      <RepurposedOutputActions
+                        contentId={generatedContentId}
+                        repurposedId={item.id}
+                        revisionCount={item.revisionCount ?? 0}
+                        compliance={item.compliance}
+                        onRevised={(output, warnings) => handleRevised(item.platform, output, warnings)}
+                      />
+                      <DuplicateCheck
+                        text={item.content}
+                        endpoint={`/api/content/${generatedContentId}/repurposed/${item.id}/duplicates`}
+                        label="Check for repeated posts"
+                      />
+                      {(item.platform === 'email' || item.platform === 'newsletter') && (
+                        <EmailPreview contentId={generatedContentId} repurposedId={item.id} content={item.content} />
+                      )}
+                      <SchedulePost contentId={generatedContentId} repurposedId={item.id} platform={item.platform} />
+                      <OutputTranslations contentId={generatedContentId} repurposedId={item.id} />
+                    </>
+                  )}
                 </div>
               </div>
             ))}
@@ -792,6 +1105,7 @@ export default function ContentRepurposingForm() {
               onClick={() => {
                 setTitle('');
                 setContent('');
+                setImportedSource(null);
                 setKeywords('');
                 setTargetAudience('');
                 setResults([]);
@@ -0,0 +1,110 @@
+'use client';
+
+import { ReactNode, useState } from 'react';
+import { CopyCheck, Loader2, AlertTriangle } from 'lucide-react';
+import type { SimilarityMatch, SimilarityReport } from '@/lib/duplicate-detection';
+import type { TextSpan } from '@/lib/similarity';
+import { notifications } from '@/lib/toast';
+
+interface DuplicateCheckProps {
+  text: string; // The text the report's spans point into
+  endpoint: string;
+  body?: Record<string, unknown>; // Sent as a POST when set
+  label?: string;
+}
+
+const LEVEL_LABELS: Record<SimilarityMatch['level'], string> = {
+  duplicate: 'Duplicate',
+  near_duplicate: 'Near duplicate',
+  partial: 'Partly repeated'
+};
+
+function highlight(text: string, spans: TextSpan[]): ReactNode[] {
+  const parts: ReactNode[] = [];
+  let cursor = 0;
+  spans.forEach((span, index) => {
+    if (span.start < cursor) return;
+    parts.push(text.slice(cursor, span.start));
+    parts.push(<mark key={index} className="bg-amber-100 text-amber-900 rounded px-0.5">{text.slice(span.start, span.end)}</mark>);
+    cursor = span.end;
+  });
+  parts.push(text.slice(cursor));
+  return parts;
+}
+
+/**
+ * Check a text against the library and mark the passages it repeats. The check runs on the
+ * server without a model call.
+ */
+export default function DuplicateCheck({ text, endpoint, body, label = 'Check for repeats' }: DuplicateCheckProps) {
+  const [pending, setPending] = useState(false);
+  const [report, setReport] = useState<SimilarityReport | null>(null);
+  const [selected, setSelected] = useState(0);
+
+  const check = async () => {
+    setPending(true);
+    try {
+      const response = await fetch(endpoint, body
+        ? { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) }
+        : undefined);
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to check for repeats');
+      }
+      setReport(data.data);
+      setSelected(0);
+    } catch (error) {
+      notifications.error('Failed to check for repeats', {
+        description: error instanceof Error ? error.message : 'Please try again'
+      });
+    } finally {
+      setPending(false);
+    }
+  };
+
+  const match = report?.matches[selected];
+
+  return (
+    <div className="mt-3 space-y-2">
+      <button
+        type="button"
+        onClick={check}
+        disabled={pending || !text.trim()}
+        className="px-2.5 py-1 text-xs font-medium rounded-md border border-gray-200 text-gray-600 hover:text-indigo-600 hover:border-indigo-200 disabled:opacity-50 transition-colors duration-200 flex items-center space-x-1"
+      >
+        {pending ? <Loader2 className="h-3 w-3 animate-spin" /> : <CopyCheck className="h-3 w-3" />}
+        <span>{label}</span>
+      </button>
+
+      {report && report.matches.length === 0 && (
+        <p className="text-xs text-green-700">Nothing in your library repeats this ({report.compared} items compared).</p>
+      )}
+
+      {report && match && (
+        <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg space-y-2">
+          <div className="flex items-center space-x-2 text-sm font-medium text-amber-800">
+            <AlertTriangle className="h-4 w-4" />
+            <span>Repeats {report.matches.length === 1 ? 'an item' : `${report.matches.length} items`} in your library</span>
+          </div>
+          <ul className="space-y-1 text-sm">
+            {report.matches.map((item, index) => (
+              <li key={`${item.kind}-${item.id}`}>
+                <button
+                  type="button"
+                  onClick={() => setSelected(index)}
+                  className={`text-left hover:underline ${index === selected ? 'font-medium text-amber-900' : 'text-amber-700'}`}
+                >
+                  {LEVEL_LABELS[item.level]} · {item.score}% of &quot;{item.title}&quot;
+                  {item.platform && ` (${item.platform}${item.locale ? `, ${item.locale}` : ''})`}
+                </button>
+              </li>
+            ))}
+          </ul>
+          <div className="p-3 bg-white border border-gray-100 rounded-md text-sm text-gray-700 whitespace-pre-wrap leading-relaxed max-h-64 overflow-y-auto">
+            {highlight(text, match.spans)}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
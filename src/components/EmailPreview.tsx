@@ -0,0 +1,132 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Mail, Loader2, Download, Monitor, Smartphone, FileText } from 'lucide-react';
+import { notifications } from '@/lib/toast';
+
+interface EmailPreviewProps {
+  contentId: string;
+  repurposedId: string;
+  content: string; // The preview is dropped when the output changes
+}
+
+interface EmailPreviewData {
+  subject: string;
+  preheader: string;
+  html: string;
+  text: string;
+}
+
+type PreviewMode = 'desktop' | 'mobile' | 'text';
+
+const MODES: Array<{ mode: PreviewMode; label: string; icon: typeof Monitor }> = [
+  { mode: 'desktop', label: 'Desktop', icon: Monitor },
+  { mode: 'mobile', label: 'Mobile', icon: Smartphone },
+  { mode: 'text', label: 'Plain text', icon: FileText }
+];
+
+const DOWNLOADS = [
+  { format: 'html', label: '.html' },
+  { format: 'eml', label: '.eml' },
+  { format: 'mjml', label: '.mjml' },
+  { format: 'text', label: '.txt' }
+];
+
+/**
+ * An email or newsletter output rendered with the team's branding, at desktop and phone widths,
+ * with the rendered files to download
+ */
+export default function EmailPreview({ contentId, repurposedId, content }: EmailPreviewProps) {
+  const [pending, setPending] = useState(false);
+  const [preview, setPreview] = useState<EmailPreviewData | null>(null);
+  const [mode, setMode] = useState<PreviewMode>('desktop');
+
+  useEffect(() => {
+    setPreview(null);
+  }, [content]);
+
+  const endpoint = `/api/content/${contentId}/repurposed/${repurposedId}/email`;
+
+  const load = async () => {
+    if (preview) {
+      setPreview(null);
+      return;
+    }
+    setPending(true);
+    try {
+      const response = await fetch(endpoint);
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to render the email');
+      }
+      setPreview(data.data);
+    } catch (error) {
+      notifications.error('Failed to render the email', {
+        description: error instanceof Error ? error.message : 'Please try again'
+      });
+    } finally {
+      setPending(false);
+    }
+  };
+
+  return (
+    <div className="mt-3 space-y-2">
+      <button
+        type="button"
+        onClick={load}
+        disabled={pending}
+        className="px-2.5 py-1 text-xs font-medium rounded-md border border-gray-200 text-gray-600 hover:text-indigo-600 hover:border-indigo-200 disabled:opacity-50 transition-colors duration-200 flex items-center space-x-1"
+      >
+        {pending ? <Loader2 className="h-3 w-3 animate-spin" /> : <Mail className="h-3 w-3" />}
+        <span>{preview ? 'Hide email preview' : 'Preview email'}</span>
+      </button>
+
+      {preview && (
+        <div className="rounded-md border border-gray-200 bg-gray-50 p-3 space-y-3">
+          <div className="text-xs text-gray-600">
+            <p><span className="font-medium text-gray-900">Subject:</span> {preview.subject}</p>
+            {preview.preheader && <p><span className="font-medium text-gray-900">Preview text:</span> {preview.preheader}</p>}
+          </div>
+
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div className="flex rounded-md border border-gray-200 bg-white overflow-hidden">
+              {MODES.map(({ mode: option, label, icon: Icon }) => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => setMode(option)}
+                  className={`px-2.5 py-1 text-xs flex items-center space-x-1 ${mode === option ? 'bg-indigo-50 text-indigo-700' : 'text-gray-600 hover:bg-gray-50'}`}
+                >
+                  <Icon className="h-3 w-3" />
+                  <span>{label}</span>
+                </button>
+              ))}
+            </div>
+            <div className="flex items-center gap-1 text-xs text-gray-600">
+              <Download className="h-3 w-3" />
+              {DOWNLOADS.map(({ format, label }) => (
+                <a key={format} href={`${endpoint}?format=${format}&download=1`} className="px-1.5 py-0.5 rounded hover:bg-white hover:text-indigo-600">
+                  {label}
+                </a>
+              ))}
+            </div>
+          </div>
+
+          {mode === 'text' ? (
+            <pre className="max-h-[600px] overflow-auto whitespace-pre-wrap rounded border border-gray-200 bg-white p-3 text-xs text-gray-800">{preview.text}</pre>
+          ) : (
+            <div className="flex justify-center overflow-x-auto">
+              <iframe
+                title={`Email preview: ${preview.subject}`}
+                srcDoc={preview.html}
+                sandbox=""
+                className="h-[600px] rounded border border-gray-200 bg-white"
+                style={{ width: mode === 'mobile' ? 375 : 640 }}
+              />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
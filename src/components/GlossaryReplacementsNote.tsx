@@ -0,0 +1,34 @@
+'use client';
+
+import { BookOpen } from 'lucide-react';
+import type { GlossaryReplacement } from '@/lib/glossary';
+
+interface GlossaryReplacementsNoteProps {
+  replacements?: GlossaryReplacement[] | null;
+}
+
+/**
+ * The team glossary terms that were corrected in an output after it was generated
+ */
+export default function GlossaryReplacementsNote({ replacements }: GlossaryReplacementsNoteProps) {
+  if (!replacements || replacements.length === 0) return null;
+
+  return (
+    <div className="mt-4 p-3 bg-blue-50 border border-blue-200 rounded-lg">
+      <div className="flex items-center space-x-2 text-sm font-medium text-blue-800">
+        <BookOpen className="h-4 w-4" />
+        <span>Corrected to match your team glossary</span>
+      </div>
+      <ul className="mt-2 ml-6 list-disc text-sm text-blue-700 space-y-1">
+        {replacements.map((replacement, index) => (
+          <li key={index}>
+            {replacement.to === null
+              ? <>Removed &ldquo;{replacement.from}&rdquo;</>
+              : <>&ldquo;{replacement.from}&rdquo; &rarr; &ldquo;{replacement.to}&rdquo;</>}
+            {replacement.count > 1 && ` (${replacement.count}×)`}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -4,7 +4,7 @@ import Link from 'next/link'
 import { usePathname } from 'next/navigation'
 import { signIn, signOut, useSession } from 'next-auth/react'
 import { useState } from 'react'
-import { Menu, X, User, Settings, HelpCircle, MessageSquare, BarChart3, Plus, Home, LogOut } from 'lucide-react'
+import { Menu, X, User, Settings, HelpCircle, MessageSquare, BarChart3, Plus, Home, LogOut, CalendarDays } from 'lucide-react'
 import { DatabaseStatus } from '@/components/ui/database-status'
 
 const Navigation = () => {
@@ -31,6 +31,7 @@ const Navigation = () => {
   const navigationItems = [
     { href: '/dashboard', label: 'Dashboard', icon: Home, show: true },
     { href: '/dashboard/new', label: 'New Content', icon: Plus, show: true },
+    { href: '/dashboard/calendar', label: 'Calendar', icon: CalendarDays, show: !!session?.user },
     { href: '/dashboard/analytics', label: 'Analytics', icon: BarChart3, show: hasAnalyticsAccess },
     { href: '/help', label: 'Help', icon: HelpCircle, show: !!session?.user },
     { href: '/dashboard/support', label: 'Support', icon: MessageSquare, show: !!session?.user },
@@ -0,0 +1,158 @@
+'use client';
+
+import { useState } from 'react';
+import { Languages, Loader2, Copy, Check } from 'lucide-react';
+import type { ConstraintViolation } from '@/lib/platform-constraints';
+import type { GlossaryReplacement } from '@/lib/glossary';
+import { notifications } from '@/lib/toast';
+import GlossaryReplacementsNote from './GlossaryReplacementsNote';
+
+export interface TranslatedVariant {
+  id: string;
+  locale: string;
+  localeName: string | null;
+  content: string;
+  translationStatus: 'complete' | 'needs_review' | 'outdated' | null;
+  constraintWarnings?: ConstraintViolation[];
+  glossary?: GlossaryReplacement[] | null;
+}
+
+interface OutputTranslationsProps {
+  contentId: string;
+  repurposedId: string;
+}
+
+// Offered as one-click picks; any BCP 47 locale can be typed in
+const SUGGESTED_LOCALES = ['es', 'fr', 'de', 'pt-BR', 'ja'];
+
+const STATUS_LABELS: Record<NonNullable<TranslatedVariant['translationStatus']>, string> = {
+  complete: 'Ready',
+  needs_review: 'Needs review',
+  outdated: 'Outdated'
+};
+
+/**
+ * Translate a saved platform output into other languages. Each language is kept as its own
+ * variant, checked against the platform's limits again and re-translated in place.
+ */
+export default function OutputTranslations({ contentId, repurposedId }: OutputTranslationsProps) {
+  const [open, setOpen] = useState(false);
+  const [locales, setLocales] = useState('');
+  const [pending, setPending] = useState(false);
+  const [variants, setVariants] = useState<TranslatedVariant[]>([]);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  const addLocale = (locale: string) => {
+    const current = locales.split(',').map(item => item.trim()).filter(Boolean);
+    if (!current.includes(locale)) setLocales([...current, locale].join(', '));
+  };
+
+  const translate = async () => {
+    const requested = locales.split(',').map(item => item.trim()).filter(Boolean);
+    if (requested.length === 0) return;
+
+    setPending(true);
+    try {
+      const response = await fetch(`/api/content/${contentId}/repurposed/${repurposedId}/translations`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ locales: requested })
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.message || data.error || 'Failed to translate this output');
+      }
+
+      const translated: TranslatedVariant[] = data.variants;
+      setVariants(previous => [
+        ...previous.filter(variant => !translated.some(item => item.locale === variant.locale)),
+        ...translated
+      ].sort((a, b) => a.locale.localeCompare(b.locale)));
+      setLocales('');
+
+      if (data.failures.length > 0) {
+        notifications.error('Some translations failed', {
+          description: data.failures.map((failure: { locale: string }) => failure.locale).join(', ')
+        });
+      }
+    } catch (error) {
+      notifications.error('Failed to translate this output', {
+        description: error instanceof Error ? error.message : 'Please try again'
+      });
+    } finally {
+      setPending(false);
+    }
+  };
+
+  const copy = async (variant: TranslatedVariant) => {
+    await navigator.clipboard.writeText(variant.content);
+    setCopiedId(variant.id);
+    setTimeout(() => setCopiedId(null), 2000);
+  };
+
+  const buttonClass = 'px-2.5 py-1 text-xs font-medium rounded-md border border-gray-200 text-gray-600 hover:text-indigo-600 hover:border-indigo-200 disabled:opacity-50 transition-colors duration-200';
+
+  return (
+    <div className="mt-3 space-y-3">
+      <button onClick={() => setOpen(!open)} className={`${buttonClass} flex items-center space-x-1`}>
+        <Languages className="h-3 w-3" />
+        <span>Translate</span>
+      </button>
+
+      {open && (
+        <div className="space-y-2">
+          <div className="flex items-center space-x-2">
+            <input
+              type="text"
+              value={locales}
+              onChange={(e) => setLocales(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && translate()}
+              placeholder="Languages, e.g. de, fr-CA, ja"
+              className="flex-1 px-3 py-1.5 text-sm border border-gray-200 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+            <button
+              onClick={translate}
+              disabled={pending || !locales.trim()}
+              className="px-3 py-1.5 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:opacity-50"
+            >
+              {pending ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Translate'}
+            </button>
+          </div>
+          <div className="flex flex-wrap gap-1">
+            {SUGGESTED_LOCALES.map(locale => (
+              <button key={locale} onClick={() => addLocale(locale)} disabled={pending} className={buttonClass}>
+                {locale}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-gray-400">Each language uses one repurpose from your monthly allowance.</p>
+        </div>
+      )}
+
+      {variants.map(variant => (
+        <div key={variant.id} className="rounded-md border border-gray-100 bg-gray-50 p-3">
+          <div className="mb-2 flex items-center justify-between">
+            <div className="flex items-center space-x-2 text-xs">
+              <span className="font-medium text-gray-700">{variant.localeName ?? variant.locale}</span>
+              {variant.translationStatus && (
+                <span className={variant.translationStatus === 'complete' ? 'text-green-700' : 'text-amber-700'}>
+                  {STATUS_LABELS[variant.translationStatus]}
+                </span>
+              )}
+            </div>
+            <button onClick={() => copy(variant)} className="text-gray-500 hover:text-indigo-600" aria-label={`Copy the ${variant.locale} translation`}>
+              {copiedId === variant.id ? <Check className="h-3 w-3 text-green-600" /> : <Copy className="h-3 w-3" />}
+            </button>
+          </div>
+          <p className="whitespace-pre-wrap text-sm text-gray-700">{variant.content}</p>
+          {variant.constraintWarnings && variant.constraintWarnings.length > 0 && (
+            <ul className="mt-2 space-y-1 text-xs text-amber-700">
+              {variant.constraintWarnings.map((warning, index) => <li key={index}>{warning.message}</li>)}
+            </ul>
+          )}
+          <GlossaryReplacementsNote replacements={variant.glossary} />
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+'use client';
+
+import { useState } from 'react';
+import { Loader2, RefreshCw, Wand2, Undo2, ShieldCheck } from 'lucide-react';
+import type { StructuredOutput } from '@/lib/structured-output';
+import type { ConstraintViolation } from '@/lib/platform-constraints';
+import type { BrandComplianceReport } from '@/lib/brand-compliance';
+import type { GlossaryReplacement } from '@/lib/glossary';
+import { notifications } from '@/lib/toast';
+
+type OutputAction = 'regenerate' | 'refine' | 'shorter' | 'longer' | 'formal' | 'emoji' | 'remove_hashtags' | 'brand_fix';
+
+export interface RevisedOutput {
+  content: string;
+  structured?: StructuredOutput | null;
+  revisions?: unknown[];
+  compliance?: BrandComplianceReport | null;
+  glossary?: GlossaryReplacement[] | null;
+}
+
+interface RepurposedOutputActionsProps {
+  contentId: string;
+  repurposedId: string;
+  revisionCount: number;
+  compliance?: BrandComplianceReport | null; // Offers a brand fix when it lists violations
+  onRevised: (output: RevisedOutput, warnings: ConstraintViolation[]) => void;
+}
+
+const TRANSFORMS: { action: OutputAction; label: string }[] = [
+  { action: 'shorter', label: 'Shorter' },
+  { action: 'longer', label: 'Longer' },
+  { action: 'formal', label: 'More formal' },
+  { action: 'emoji', label: 'Add emoji' },
+  { action: 'remove_hashtags', label: 'No hashtags' }
+];
+
+/**
+ * Regenerate, refine and one-click transforms for a single saved platform output, with undo
+ */
+export default function RepurposedOutputActions({ contentId, repurposedId, revisionCount, compliance, onRevised }: RepurposedOutputActionsProps) {
+  const [pending, setPending] = useState<OutputAction | 'restore' | null>(null);
+  const [showRefine, setShowRefine] = useState(false);
+  const [instruction, setInstruction] = useState('');
+
+  const send = async (body: Record<string, unknown>) => {
+    setPending(body.action as OutputAction | 'restore');
+    try {
+      const response = await fetch(`/api/content/${contentId}/repurposed/${repurposedId}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.message || data.error || 'Failed to update this output');
+      }
+
+      onRevised(data.output, data.constraintWarnings ?? []);
+      return true;
+    } catch (error) {
+      notifications.error('Failed to update this output', {
+        description: error instanceof Error ? error.message : 'Please try again'
+      });
+      return false;
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const refine = async () => {
+    if (!instruction.trim()) return;
+    if (await send({ action: 'refine', instruction: instruction.trim() })) {
+      setInstruction('');
+      setShowRefine(false);
+    }
+  };
+
+  const buttonClass = 'px-2.5 py-1 text-xs font-medium rounded-md border border-gray-200 text-gray-600 hover:text-indigo-600 hover:border-indigo-200 disabled:opacity-50 transition-colors duration-200';
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-100 space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <button onClick={() => send({ action: 'regenerate' })} disabled={pending !== null} className={`${buttonClass} flex items-center space-x-1`}>
+          {pending === 'regenerate' ? <Loader2 className="h-3 w-3 animate-spin" /> : <RefreshCw className="h-3 w-3" />}
+          <span>Regenerate</span>
+        </button>
+        <button onClick={() => setShowRefine(!showRefine)} disabled={pending !== null} className={`${buttonClass} flex items-center space-x-1`}>
+          <Wand2 className="h-3 w-3" />
+          <span>Refine</span>
+        </button>
+        {TRANSFORMS.map(({ action, label }) => (
+          <button key={action} onClick={() => send({ action })} disabled={pending !== null} className={buttonClass}>
+            {pending === action ? <Loader2 className="h-3 w-3 animate-spin" /> : label}
+          </button>
+        ))}
+        {compliance && compliance.violations.length > 0 && (
+          <button onClick={() => send({ action: 'brand_fix' })} disabled={pending !== null} className={`${buttonClass} flex items-center space-x-1`}>
+            {pending === 'brand_fix' ? <Loader2 className="h-3 w-3 animate-spin" /> : <ShieldCheck className="h-3 w-3" />}
+            <span>Fix brand issues</span>
+          </button>
+        )}
+        {revisionCount > 0 && (
+          <button
+            onClick={() => send({ action: 'restore', revision: revisionCount - 1 })}
+            disabled={pending !== null}
+            className={`${buttonClass} flex items-center space-x-1 ml-auto`}
+          >
+            {pending === 'restore' ? <Loader2 className="h-3 w-3 animate-spin" /> : <Undo2 className="h-3 w-3" />}
+            <span>Undo</span>
+          </button>
+        )}
+      </div>
+
+      {showRefine && (
+        <div className="flex items-center space-x-2">
+          <input
+            type="text"
+            value={instruction}
+            onChange={(e) => setInstruction(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && refine()}
+            placeholder="e.g. Mention the free trial and drop the question at the end"
+            maxLength={1000}
+            className="flex-1 px-3 py-1.5 text-sm border border-gray-200 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+          <button
+            onClick={refine}
+            disabled={pending !== null || !instruction.trim()}
+            className="px-3 py-1.5 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:opacity-50"
+          >
+            {pending === 'refine' ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Apply'}
+          </button>
+        </div>
+      )}
+
+      <p className="text-xs text-gray-400">Each AI action uses one repurpose from your monthly allowance. Removing hashtags and undo are free.</p>
+    </div>
+  );
+}
@@ -0,0 +1,217 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { CalendarClock, Loader2, AlertTriangle } from 'lucide-react';
+import type { ScheduleConflict, ScheduledPostView } from '@/lib/content-scheduler';
+import type { SimilarityReport } from '@/lib/duplicate-detection';
+import type { ConnectedAccountView } from '@/lib/connected-accounts';
+import { notifications } from '@/lib/toast';
+
+interface SchedulePostProps {
+  contentId: string;
+  repurposedId: string;
+  platform: string;
+}
+
+// Presets with the rule the server stores them as, to show a loaded schedule's repeat
+const REPEAT_OPTIONS = [
+  { value: '', label: 'Once', rule: null },
+  { value: 'daily', label: 'Every day', rule: 'FREQ=DAILY' },
+  { value: 'weekdays', label: 'Every weekday', rule: 'FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR' },
+  { value: 'weekly', label: 'Every week', rule: 'FREQ=WEEKLY' },
+  { value: 'biweekly', label: 'Every 2 weeks', rule: 'FREQ=WEEKLY;INTERVAL=2' },
+  { value: 'monthly', label: 'Every month', rule: 'FREQ=MONTHLY' }
+];
+
+// Account choices besides a specific account: the server's default, or none
+const DEFAULT_ACCOUNT = 'default';
+const MANUAL = 'manual';
+
+// Value for a datetime-local input, in the browser's time zone
+function toInputValue(date: Date): string {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60_000);
+  return local.toISOString().slice(0, 16);
+}
+
+/**
+ * Schedule a saved output to go out at a set time, once or on repeat. Posts too close to another on
+ * the same channel, and posts that repeat an earlier one, are flagged but still scheduled.
+ */
+export default function SchedulePost({ contentId, repurposedId, platform }: SchedulePostProps) {
+  const [open, setOpen] = useState(false);
+  const [publishAt, setPublishAt] = useState(() => toInputValue(new Date(Date.now() + 3_600_000)));
+  const [repeat, setRepeat] = useState('');
+  const [accounts, setAccounts] = useState<ConnectedAccountView[]>([]);
+  const [account, setAccount] = useState(DEFAULT_ACCOUNT);
+  const [pending, setPending] = useState(false);
+  const [schedule, setSchedule] = useState<ScheduledPostView | null>(null);
+  const [conflicts, setConflicts] = useState<ScheduleConflict[]>([]);
+  const [repeats, setRepeats] = useState<SimilarityReport | null>(null);
+
+  const endpoint = `/api/content/${contentId}/repurposed/${repurposedId}/schedule`;
+
+  const toggle = async () => {
+    setOpen(!open);
+    if (open || schedule) return;
+    try {
+      const [scheduleResponse, accountsResponse] = await Promise.all([
+        fetch(endpoint),
+        fetch(`/api/publishing/accounts?platform=${encodeURIComponent(platform)}`)
+      ]);
+      const data = await scheduleResponse.json();
+      if (accountsResponse.ok) {
+        setAccounts((await accountsResponse.json()).data);
+      }
+      if (scheduleResponse.ok && data.data) {
+        setSchedule(data.data);
+        setPublishAt(toInputValue(new Date(data.data.publishAt)));
+        setRepeat(REPEAT_OPTIONS.find(option => option.rule === data.data.recurrence)?.value ?? data.data.recurrence ?? '');
+        setAccount(data.data.accountId ?? MANUAL);
+      }
+    } catch {
+      // Not scheduled yet as far as the form can tell
+    }
+  };
+
+  const save = async () => {
+    setPending(true);
+    try {
+      const response = await fetch(endpoint, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          publishAt: new Date(publishAt).toISOString(),
+          timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+          recurringPattern: repeat || null,
+          ...(account !== DEFAULT_ACCOUNT && { accountId: account === MANUAL ? null : account })
+        })
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to schedule this post');
+      }
+
+      setSchedule(data.data.schedule);
+      setAccount(data.data.schedule.accountId ?? MANUAL);
+      setConflicts(data.data.conflicts);
+      setRepeats(data.data.repeats ?? null);
+      notifications.success('Post scheduled', {
+        description: new Date(data.data.schedule.publishAt).toLocaleString()
+      });
+    } catch (error) {
+      notifications.error('Failed to schedule this post', {
+        description: error instanceof Error ? error.message : 'Please try again'
+      });
+    } finally {
+      setPending(false);
+    }
+  };
+
+  const unschedule = async () => {
+    setPending(true);
+    try {
+      const response = await fetch(endpoint, { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to unschedule this post');
+      }
+      setSchedule(null);
+      setAccount(DEFAULT_ACCOUNT);
+      setConflicts([]);
+      setRepeats(null);
+    } catch (error) {
+      notifications.error('Failed to unschedule this post', {
+        description: error instanceof Error ? error.message : 'Please try again'
+      });
+    } finally {
+      setPending(false);
+    }
+  };
+
+  const buttonClass = 'px-2.5 py-1 text-xs font-medium rounded-md border border-gray-200 text-gray-600 hover:text-indigo-600 hover:border-indigo-200 disabled:opacity-50 transition-colors duration-200';
+
+  return (
+    <div className="mt-3 space-y-2">
+      <button onClick={toggle} className={`${buttonClass} flex items-center space-x-1`}>
+        <CalendarClock className="h-3 w-3" />
+        <span>{schedule ? `Scheduled ${new Date(schedule.publishAt).toLocaleString()}` : 'Schedule'}</span>
+      </button>
+
+      {open && (
+        <div className="space-y-2">
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              type="datetime-local"
+              value={publishAt}
+              onChange={(e) => setPublishAt(e.target.value)}
+              className="px-3 py-1.5 text-sm border border-gray-200 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+            <select
+              value={repeat}
+              onChange={(e) => setRepeat(e.target.value)}
+              className="px-3 py-1.5 text-sm border border-gray-200 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            >
+              {REPEAT_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+              {schedule?.recurrence && !REPEAT_OPTIONS.some(option => option.rule === schedule.recurrence) && (
+                <option value={schedule.recurrence}>{schedule.recurrenceLabel}</option>
+              )}
+            </select>
+            {accounts.length > 0 && (
+              <select
+                value={account}
+                onChange={(e) => setAccount(e.target.value)}
+                aria-label="Publish through"
+                className="px-3 py-1.5 text-sm border border-gray-200 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              >
+                {!schedule && <option value={DEFAULT_ACCOUNT}>Publish automatically</option>}
+                {accounts.map(option => (
+                  <option key={option.id} value={option.id}>
+                    {option.name}{option.status === 'expired' ? ' (reconnect needed)' : ''}
+                  </option>
+                ))}
+                <option value={MANUAL}>I&apos;ll post it myself</option>
+              </select>
+            )}
+            <button
+              onClick={save}
+              disabled={pending || !publishAt}
+              className="px-3 py-1.5 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:opacity-50"
+            >
+              {pending ? <Loader2 className="h-4 w-4 animate-spin" /> : schedule ? 'Update' : 'Schedule'}
+            </button>
+            {schedule && (
+              <button onClick={unschedule} disabled={pending} className={buttonClass}>Unschedule</button>
+            )}
+          </div>
+          {schedule?.recurrenceLabel && <p className="text-xs text-gray-500">{schedule.recurrenceLabel}</p>}
+          {schedule && (
+            <p className="text-xs text-gray-500">
+              {schedule.accountName ? `Publishes through ${schedule.accountName}` : 'Due on the calendar for you to post'}
+            </p>
+          )}
+          <p className="text-xs text-gray-400">
+            Times are in your time zone. See everything on the <Link href="/dashboard/calendar" className="underline">calendar</Link>.
+          </p>
+        </div>
+      )}
+
+      {(conflicts.length > 0 || repeats) && (
+        <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg text-xs text-amber-800 space-y-1">
+          {conflicts.map(conflict => (
+            <p key={conflict.scheduleId} className="flex items-center space-x-1">
+              <AlertTriangle className="h-3 w-3 flex-shrink-0" />
+              <span>{conflict.minutesApart} min from &quot;{conflict.title}&quot; on {conflict.platform}</span>
+            </p>
+          ))}
+          {repeats && repeats.matches[0] && (
+            <p className="flex items-center space-x-1">
+              <AlertTriangle className="h-3 w-3 flex-shrink-0" />
+              <span>Repeats {repeats.matches[0].score}% of an earlier post from &quot;{repeats.matches[0].title}&quot;</span>
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { Loader2, Upload, Link2, X } from 'lucide-react';
+import type { IngestedSource } from '@/lib/ingestion';
+import { notifications } from '@/lib/toast';
+
+interface SourceImportProps {
+  source: IngestedSource | null;
+  disabled?: boolean;
+  onImported: (source: IngestedSource) => void;
+  onClear: () => void;
+}
+
+const ACCEPTED_FILES = '.pdf,.docx,.md,.markdown,.html,.htm,.srt,.vtt,.txt';
+
+/**
+ * Fill the repurpose form from an uploaded document, caption file or article URL
+ */
+export default function SourceImport({ source, disabled, onImported, onClear }: SourceImportProps) {
+  const [pending, setPending] = useState<'file' | 'url' | null>(null);
+  const [url, setUrl] = useState('');
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const importFrom = async (kind: 'file' | 'url', init: RequestInit) => {
+    setPending(kind);
+    try {
+      const response = await fetch('/api/content/ingest', { method: 'POST', ...init });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to import this source');
+      }
+
+      onImported(data.source);
+      for (const warning of data.source.warnings ?? []) {
+        notifications.warning(warning);
+      }
+      return true;
+    } catch (error) {
+      notifications.error('Import failed', {
+        description: error instanceof Error ? error.message : 'Please try again'
+      });
+      return false;
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    const form = new FormData();
+    form.append('file', file);
+    await importFrom('file', { body: form });
+    if (fileInput.current) fileInput.current.value = '';
+  };
+
+  const handleUrl = async () => {
+    if (!url.trim()) return;
+    if (await importFrom('url', {
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ url: url.trim() })
+    })) {
+      setUrl('');
+    }
+  };
+
+  if (source) {
+    return (
+      <div className="flex items-start justify-between bg-indigo-50 border border-indigo-100 rounded-lg px-4 py-3 text-sm">
+        <div className="space-y-0.5">
+          <p className="font-medium text-indigo-900">
+            Imported from {source.fileName || source.sourceUrl}
+          </p>
+          <p className="text-xs text-indigo-700">
+            {source.format.toUpperCase()} · {source.wordCount.toLocaleString()} words
+            {source.author && ` · by ${source.author}`}
+            {source.headings.length > 0 && ` · ${source.headings.length} headings`}
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={onClear}
+          disabled={disabled}
+          className="p-1 text-indigo-400 hover:text-indigo-700 disabled:opacity-50"
+          aria-label="Clear imported source"
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col sm:flex-row gap-2">
+      <input
+        ref={fileInput}
+        type="file"
+        accept={ACCEPTED_FILES}
+        className="hidden"
+        onChange={(e) => handleFile(e.target.files?.[0])}
+      />
+      <button
+        type="button"
+        onClick={() => fileInput.current?.click()}
+        disabled={disabled || pending !== null}
+        className="flex items-center justify-center space-x-2 px-3 py-2 text-sm font-medium border border-gray-200 rounded-lg text-gray-700 hover:border-indigo-300 hover:text-indigo-600 disabled:opacity-50 transition-colors duration-200"
+      >
+        {pending === 'file' ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+        <span>Upload file</span>
+      </button>
+      <div className="flex flex-1 gap-2">
+        <input
+          type="url"
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleUrl();
+            }
+          }}
+          placeholder="https://example.com/article"
+          disabled={disabled || pending !== null}
+          className="flex-1 px-3 py-2 text-sm bg-white border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent placeholder:text-gray-400"
+        />
+        <button
+          type="button"
+          onClick={handleUrl}
+          disabled={disabled || pending !== null || !url.trim()}
+          className="flex items-center space-x-2 px-3 py-2 text-sm font-medium border border-gray-200 rounded-lg text-gray-700 hover:border-indigo-300 hover:text-indigo-600 disabled:opacity-50 transition-colors duration-200"
+        >
+          {pending === 'url' ? <Loader2 className="h-4 w-4 animate-spin" /> : <Link2 className="h-4 w-4" />}
+          <span>Import URL</span>
+        </button>
+      </div>
+    </div>
+  );
+}
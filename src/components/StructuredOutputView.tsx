@@ -0,0 +1,84 @@
+'use client';
+
+import { useState } from 'react';
+import { Copy, CheckCircle, Download } from 'lucide-react';
+import type { Platform } from '@/lib/ai-service';
+import { getStructuredParts, StructuredOutput } from '@/lib/structured-output';
+import { notifications } from '@/lib/toast';
+
+interface StructuredOutputViewProps {
+  platform: string;
+  structured: StructuredOutput;
+  onCopy?: () => void;
+  onExport?: () => void;
+}
+
+/**
+ * Shows each part of a structured output (subject, tweets, chapters, ...) on its own,
+ * with a copy button per part and a JSON download of the whole output
+ */
+export default function StructuredOutputView({ platform, structured, onCopy, onExport }: StructuredOutputViewProps) {
+  const [copiedKey, setCopiedKey] = useState<string | null>(null);
+  const parts = getStructuredParts(platform as Platform, structured);
+
+  const copyPart = async (key: string, value: string) => {
+    try {
+      await navigator.clipboard.writeText(value);
+      onCopy?.();
+      setCopiedKey(key);
+      setTimeout(() => setCopiedKey(null), 2000);
+    } catch (error) {
+      notifications.error('Failed to copy content', {
+        description: 'Please try again or copy manually'
+      });
+      console.error('Failed to copy content part:', error);
+    }
+  };
+
+  const downloadJson = () => {
+    const blob = new Blob([JSON.stringify({ platform, ...structured }, null, 2)], { type: 'application/json' });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${platform}-content-${new Date().toISOString().split('T')[0]}.json`;
+    document.body.appendChild(a);
+    a.click();
+    window.URL.revokeObjectURL(url);
+    document.body.removeChild(a);
+    onExport?.();
+  };
+
+  return (
+    <div className="space-y-4">
+      {parts.map(part => (
+        <div key={part.key} className="group">
+          <div className="flex items-center justify-between mb-1">
+            <span className="text-xs font-medium uppercase tracking-wide text-gray-500">{part.label}</span>
+            <button
+              onClick={() => copyPart(part.key, part.value)}
+              aria-label={`Copy ${part.label}`}
+              className="p-1 rounded text-gray-400 hover:text-indigo-600 transition-colors duration-200"
+            >
+              {copiedKey === part.key ? (
+                <CheckCircle className="h-3.5 w-3.5 text-green-500" />
+              ) : (
+                <Copy className="h-3.5 w-3.5" />
+              )}
+            </button>
+          </div>
+          <div className="whitespace-pre-wrap text-gray-700 leading-relaxed">{part.value}</div>
+        </div>
+      ))}
+
+      <div className="flex justify-end pt-2 border-t border-gray-100">
+        <button
+          onClick={downloadJson}
+          className="flex items-center space-x-1.5 px-2 py-1 text-xs font-medium text-gray-500 hover:text-indigo-600 transition-colors duration-200"
+        >
+          <Download className="h-3.5 w-3.5" />
+          <span>Download JSON</span>
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Image from 'next/image'
+import { notifications } from '@/lib/toast'
+import type { TeamBrandingView } from '@/lib/email-outputs'
+
+interface BrandingForm {
+  logo: string
+  primaryColor: string
+  backgroundColor: string
+  font: string
+}
+
+function toForm({ branding }: TeamBrandingView): BrandingForm {
+  return {
+    logo: branding.logo ?? '',
+    primaryColor: branding.colors[0] ?? '',
+    backgroundColor: branding.colors[1] ?? '',
+    font: branding.fonts[0] ?? ''
+  }
+}
+
+// A background color only counts after a primary one, since colors are positional
+function toPayload(form: BrandingForm) {
+  const primaryColor = form.primaryColor.trim()
+  const backgroundColor = form.backgroundColor.trim()
+  return {
+    logo: form.logo.trim() || null,
+    colors: primaryColor ? [primaryColor, ...(backgroundColor ? [backgroundColor] : [])] : [],
+    fonts: form.font.trim() ? [form.font.trim()] : []
+  }
+}
+
+/**
+ * The logo, colors and font the team's email and newsletter outputs are rendered with.
+ * Hidden for users outside a team; only owners and admins can change it.
+ */
+export default function TeamBranding() {
+  const [form, setForm] = useState<BrandingForm | null>(null)
+  const [canEdit, setCanEdit] = useState(false)
+  const [saving, setSaving] = useState(false)
+
+  const loadBranding = async () => {
+    try {
+      const res = await fetch('/api/team/branding')
+      if (res.status === 403) return
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Failed to load branding')
+      setForm(toForm(data.data))
+      setCanEdit(!!data.canEdit)
+    } catch (error) {
+      console.error('Error loading branding:', error)
+    }
+  }
+
+  useEffect(() => {
+    loadBranding()
+  }, [])
+
+  const saveBranding = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    if (!form) return
+    setSaving(true)
+    try {
+      const res = await fetch('/api/team/branding', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(toPayload(form))
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.details?.[0]?.message || data.error || 'Failed to save branding')
+
+      setForm(toForm(data.data))
+      notifications.success('Branding saved', { description: 'Email previews and downloads now use it' })
+    } catch (error) {
+      notifications.error(error instanceof Error ? error.message : 'Failed to save branding')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (!form) return null
+
+  const inputClass = 'w-full rounded border px-3 py-2 text-sm disabled:bg-gray-50'
+  const colorField = (key: 'primaryColor' | 'backgroundColor', label: string, placeholder: string) => (
+    <label className="space-y-1 text-sm">
+      <span className="font-medium">{label}</span>
+      <div className="flex items-center gap-2">
+        <input
+          type="color"
+          aria-label={`${label} picker`}
+          className="h-9 w-10 rounded border"
+          value={/^#[0-9a-fA-F]{6}$/.test(form[key]) ? form[key] : placeholder}
+          onChange={(e) => setForm({ ...form, [key]: e.target.value })}
+          disabled={!canEdit}
+        />
+        <input className={inputClass} value={form[key]} onChange={(e) => setForm({ ...form, [key]: e.target.value })} placeholder={`Default (${placeholder})`} disabled={!canEdit} />
+      </div>
+    </label>
+  )
+
+  return (
+    <div className="mt-8 space-y-4 border-t pt-6">
+      <div>
+        <h3 className="text-lg font-semibold">Email Branding</h3>
+        <p className="text-sm text-gray-500">
+          Applied to email and newsletter outputs when they are previewed, downloaded as .html or .eml files, or sent through a connected account.
+        </p>
+      </div>
+
+      <form onSubmit={saveBranding} className="space-y-3 rounded-lg border p-4">
+        <div className="grid gap-3 md:grid-cols-2">
+          <label className="space-y-1 text-sm md:col-span-2">
+            <span className="font-medium">Logo URL</span>
+            <input type="url" className={inputClass} value={form.logo} onChange={(e) => setForm({ ...form, logo: e.target.value })} placeholder="https://example.com/logo.png" disabled={!canEdit} />
+          </label>
+          {colorField('primaryColor', 'Brand color', '#4F46E5')}
+          {colorField('backgroundColor', 'Background color', '#F3F4F6')}
+          <label className="space-y-1 text-sm">
+            <span className="font-medium">Font</span>
+            <input className={inputClass} value={form.font} onChange={(e) => setForm({ ...form, font: e.target.value })} placeholder="e.g. Inter (falls back to Helvetica, Arial)" disabled={!canEdit} />
+          </label>
+        </div>
+        {form.logo && /^https:\/\//.test(form.logo) && (
+          // Any https logo can be previewed, so it is not passed through the image optimizer
+          <Image src={form.logo} alt="Logo preview" width={160} height={40} unoptimized className="h-10 w-auto rounded border bg-white p-1" />
+        )}
+        {canEdit && (
+          <button type="submit" disabled={saving} className="rounded-md bg-gray-900 px-4 py-2 text-sm font-medium text-white hover:bg-gray-900/90 disabled:opacity-50">
+            {saving ? 'Saving...' : 'Save branding'}
+          </button>
+        )}
+      </form>
+    </div>
+  )
+}
@@ -0,0 +1,187 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { notifications } from '@/lib/toast'
+
+interface GlossaryTermSummary {
+  id: string
+  preferred: string | null
+  forbidden: string[]
+  caseSensitive: boolean
+  note: string | null
+}
+
+interface TermForm {
+  preferred: string
+  forbidden: string
+  caseSensitive: boolean
+  note: string
+}
+
+const EMPTY_FORM: TermForm = { preferred: '', forbidden: '', caseSensitive: false, note: '' }
+
+function toForm(term: GlossaryTermSummary): TermForm {
+  return {
+    preferred: term.preferred ?? '',
+    forbidden: term.forbidden.join(', '),
+    caseSensitive: term.caseSensitive,
+    note: term.note ?? ''
+  }
+}
+
+function toPayload(form: TermForm) {
+  return {
+    preferred: form.preferred.trim() || null,
+    forbidden: form.forbidden.split(/[,\n]/).map(item => item.trim()).filter(Boolean),
+    caseSensitive: form.caseSensitive,
+    note: form.note.trim() || null
+  }
+}
+
+/**
+ * The team glossary: preferred spellings and forbidden terms enforced on everything the team generates.
+ * Hidden for users outside a team; only owners and admins can change it.
+ */
+export default function TeamGlossary() {
+  const [terms, setTerms] = useState<GlossaryTermSummary[]>([])
+  const [available, setAvailable] = useState(false)
+  const [canEdit, setCanEdit] = useState(false)
+  const [editingId, setEditingId] = useState<string | 'new' | null>(null)
+  const [form, setForm] = useState<TermForm>(EMPTY_FORM)
+  const [saving, setSaving] = useState(false)
+
+  const loadTerms = async () => {
+    try {
+      const res = await fetch('/api/team/glossary')
+      if (res.status === 403) return
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Failed to load the glossary')
+      setTerms(data.data)
+      setCanEdit(!!data.canEdit)
+      setAvailable(true)
+    } catch (error) {
+      console.error('Error loading glossary:', error)
+    }
+  }
+
+  useEffect(() => {
+    loadTerms()
+  }, [])
+
+  const startEditing = (term?: GlossaryTermSummary) => {
+    setEditingId(term?.id ?? 'new')
+    setForm(term ? toForm(term) : EMPTY_FORM)
+  }
+
+  const saveTerm = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    setSaving(true)
+    try {
+      const res = await fetch(editingId === 'new' ? '/api/team/glossary' : `/api/team/glossary/${editingId}`, {
+        method: editingId === 'new' ? 'POST' : 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(toPayload(form))
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.details?.[0]?.message || data.error || 'Failed to save glossary term')
+
+      setEditingId(null)
+      await loadTerms()
+    } catch (error) {
+      notifications.error(error instanceof Error ? error.message : 'Failed to save glossary term')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const deleteTerm = async (term: GlossaryTermSummary) => {
+    if (!confirm(`Remove "${term.preferred ?? term.forbidden.join(', ')}" from the glossary?`)) return
+    try {
+      const res = await fetch(`/api/team/glossary/${term.id}`, { method: 'DELETE' })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Failed to remove glossary term')
+      await loadTerms()
+    } catch (error) {
+      notifications.error(error instanceof Error ? error.message : 'Failed to remove glossary term')
+    }
+  }
+
+  if (!available) return null
+
+  const inputClass = 'w-full rounded border px-3 py-2 text-sm'
+
+  return (
+    <div className="mt-8 space-y-4 border-t pt-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold">Team Glossary</h3>
+          <p className="text-sm text-gray-500">
+            Terms every output must get right. Forbidden variants are replaced with the preferred term, or removed when there is none,
+            even when the AI ignores the instructions.
+          </p>
+        </div>
+        {canEdit && editingId === null && (
+          <button type="button" onClick={() => startEditing()} className="rounded-md bg-gray-900 px-3 py-2 text-sm font-medium text-white hover:bg-gray-900/90">
+            Add term
+          </button>
+        )}
+      </div>
+
+      {editingId !== null && (
+        <form onSubmit={saveTerm} className="space-y-3 rounded-lg border p-4">
+          <div className="grid gap-3 md:grid-cols-2">
+            <label className="space-y-1 text-sm">
+              <span className="font-medium">Preferred term</span>
+              <input className={inputClass} value={form.preferred} onChange={(e) => setForm({ ...form, preferred: e.target.value })} placeholder="e.g. iPhone" />
+            </label>
+            <label className="space-y-1 text-sm">
+              <span className="font-medium">Never use (comma separated)</span>
+              <input className={inputClass} value={form.forbidden} onChange={(e) => setForm({ ...form, forbidden: e.target.value })} placeholder="e.g. I-Phone, iphone" />
+            </label>
+          </div>
+          <label className="flex items-center gap-2 text-sm">
+            <input type="checkbox" checked={form.caseSensitive} onChange={(e) => setForm({ ...form, caseSensitive: e.target.checked })} />
+            Match capitals exactly, for the preferred term and the forbidden variants
+          </label>
+          <label className="block space-y-1 text-sm">
+            <span className="font-medium">Note</span>
+            <input className={inputClass} value={form.note} onChange={(e) => setForm({ ...form, note: e.target.value })} placeholder="Why the term matters, shown to the AI" />
+          </label>
+          <div className="flex gap-2">
+            <button type="submit" disabled={saving} className="rounded-md bg-gray-900 px-4 py-2 text-sm font-medium text-white hover:bg-gray-900/90 disabled:opacity-50">
+              {saving ? 'Saving...' : 'Save term'}
+            </button>
+            <button type="button" onClick={() => setEditingId(null)} className="rounded-md border px-4 py-2 text-sm font-medium hover:bg-gray-50">
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {terms.length === 0 ? (
+        <p className="text-sm text-gray-500">No glossary terms yet.</p>
+      ) : (
+        <ul className="divide-y rounded-lg border">
+          {terms.map(term => (
+            <li key={term.id} className="flex items-start justify-between gap-4 p-3 text-sm">
+              <div>
+                <p className="font-medium">
+                  {term.preferred ?? <span className="text-red-700">Forbidden</span>}
+                  {term.caseSensitive && <span className="ml-2 text-xs text-gray-500">exact spelling</span>}
+                </p>
+                {term.forbidden.length > 0 && <p className="text-gray-600">Never: {term.forbidden.join(', ')}</p>}
+                {term.note && <p className="text-gray-500">{term.note}</p>}
+              </div>
+              {canEdit && (
+                <div className="flex gap-2">
+                  <button type="button" onClick={() => startEditing(term)} className="text-sm text-gray-700 hover:underline">Edit</button>
+                  <button type="button" onClick={() => deleteTerm(term)} className="text-sm text-red-600 hover:underline">Remove</button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
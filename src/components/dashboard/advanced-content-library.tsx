@@ -17,7 +17,9 @@ import {
   Check,
   Eye,
   FileText,
-  Plus
+  Plus,
+  Download,
+  Languages
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -32,20 +34,41 @@ import {
 } from '@/components/ui/dropdown-menu';
 import { Checkbox } from '@/components/ui/checkbox';
 import { PlatformBadge } from '@/lib/platform-icons';
+import { waitForJob, cancelJob, JobSummary } from '@/lib/job-client';
+import type { BulkRepurposeJobResult } from '@/lib/job-handlers';
+import type { StoredExport } from '@/lib/content-export';
+import { EXPORT_FORMATS, EXPORT_FORMAT_LABELS, ExportFormat } from '@/lib/exporters/types';
+import ClientCampaignSelect, { ClientCampaignValue } from '@/components/ClientCampaignSelect';
 
 interface RepurposedContent {
   id: string;
   platform: string;
   content: string;
+  locale?: string | null; // Set on translated variants
+  sourceId?: string | null;
+  translationStatus?: 'complete' | 'needs_review' | 'outdated' | null;
   createdAt: string;
 }
 
+interface LocaleOption {
+  locale: string;
+  name: string;
+}
+
+const TRANSLATION_STATUS_LABELS = {
+  complete: null,
+  needs_review: 'Needs review',
+  outdated: 'Outdated'
+} as const;
+
 interface Content {
   id: string;
   title: string;
   contentType: string;
   originalContent: string;
   status: string;
+  client?: { id: string; name: string } | null;
+  campaign?: { id: string; name: string } | null;
   repurposed: RepurposedContent[];
   createdAt: string;
   updatedAt: string;
@@ -59,15 +82,20 @@ export default function AdvancedContentLibrary() {
   const [error, setError] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
   const [statusFilter, setStatusFilter] = useState('all'); // Show all content by default
+  const [scopeFilter, setScopeFilter] = useState<ClientCampaignValue>({ clientId: '', campaignId: '' });
+  const [localeFilter, setLocaleFilter] = useState(''); // A translated locale, 'original' or '' for every language
+  const [locales, setLocales] = useState<LocaleOption[]>([]);
   const [selectedItems, setSelectedItems] = useState<Set<string>>(new Set());
   const [expandedItems, setExpandedItems] = useState<Set<string>>(new Set());
   const [copiedId, setCopiedId] = useState<string | null>(null);
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('list');
   const [showFilters, setShowFilters] = useState(false);
+  const [bulkJob, setBulkJob] = useState<JobSummary | null>(null);
+  const [exportJob, setExportJob] = useState<JobSummary | null>(null);
 
   useEffect(() => {
     fetchContents();
-  }, [statusFilter]);
+  }, [statusFilter, scopeFilter, localeFilter]);
 
   const fetchContents = async () => {
     try {
@@ -78,7 +106,11 @@ export default function AdvancedContentLibrary() {
       let response;
       let endpoint;
       try {
-        endpoint = `/api/content/advanced?limit=50&status=${statusFilter}`;
+        const scopeParams = new URLSearchParams();
+        if (scopeFilter.clientId) scopeParams.set('clientId', scopeFilter.clientId);
+        if (scopeFilter.campaignId) scopeParams.set('campaignId', scopeFilter.campaignId);
+        if (localeFilter) scopeParams.set('locale', localeFilter);
+        endpoint = `/api/content/advanced?limit=50&status=${statusFilter}${scopeParams.size ? `&${scopeParams}` : ''}`;
         response = await fetch(endpoint);
       } catch (advancedError) {
         console.log('Advanced endpoint failed, trying basic endpoint');
@@ -99,6 +131,7 @@ export default function AdvancedContentLibrary() {
       console.log(`Loaded ${contentArray.length} content items with status filter: ${statusFilter}`);
       
       setContents(Array.isArray(contentArray) ? contentArray : []);
+      if (Array.isArray(data.locales)) setLocales(data.locales);
       
     } catch (err) {
       console.error('Error fetching contents:', err);
@@ -109,6 +142,88 @@ export default function AdvancedContentLibrary() {
     }
   };
 
+  // Download the library as JSON, limited to the selected language
+  const exportLibrary = async () => {
+    try {
+      const response = await fetch(`/api/dashboard/export${localeFilter ? `?locale=${encodeURIComponent(localeFilter)}` : ''}`);
+      if (!response.ok) {
+        throw new Error(await response.text());
+      }
+      saveFile(await response.blob(), `content-library${localeFilter ? `-${localeFilter}` : ''}-${new Date().toISOString().split('T')[0]}.json`);
+    } catch (error) {
+      console.error('Library export failed:', error);
+      alert('Failed to export the library. Please try again.');
+    }
+  };
+
+  const saveFile = (blob: Blob, fileName: string) => {
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    document.body.appendChild(a);
+    a.click();
+    window.URL.revokeObjectURL(url);
+    document.body.removeChild(a);
+  };
+
+  // Export the selected items; large exports run as a job and finish with an expiring download link
+  const handleBulkExport = async (format: ExportFormat) => {
+    if (selectedItems.size === 0) return;
+
+    try {
+      const response = await fetch('/api/content/export', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          contentIds: Array.from(selectedItems),
+          format,
+          ...(localeFilter && { locale: localeFilter })
+        })
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to export items');
+      }
+
+      let skipped = 0;
+      if (response.status === 202) {
+        const queued = await response.json();
+        setExportJob(queued.job);
+        const job = await waitForJob<StoredExport>(queued.jobId, { onUpdate: setExportJob });
+        if (job.status === 'cancelled') return;
+        if (job.status !== 'succeeded' || !job.result?.downloadUrl) {
+          throw new Error(job.error || 'Failed to export items');
+        }
+        skipped = job.result.skipped;
+        window.location.assign(job.result.downloadUrl);
+      } else {
+        const fileName = response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] ?? `content-export.${format}`;
+        skipped = Number(response.headers.get('X-Export-Skipped') || 0);
+        saveFile(await response.blob(), fileName);
+      }
+
+      if (skipped > 0) {
+        alert(`${skipped} output${skipped === 1 ? ' was' : 's were'} left out because ${EXPORT_FORMAT_LABELS[format]} can't hold ${skipped === 1 ? 'it' : 'them'} (for example email outputs or posts without a schedule).`);
+      }
+    } catch (error) {
+      console.error('Bulk export failed:', error);
+      alert(`Failed to export items. ${error instanceof Error ? error.message : 'Please try again.'}`);
+    } finally {
+      setExportJob(null);
+    }
+  };
+
+  const handleCancelExportJob = async () => {
+    if (!exportJob) return;
+    try {
+      setExportJob(await cancelJob(exportJob.id));
+    } catch (error) {
+      console.error('Failed to cancel export:', error);
+    }
+  };
+
   // Filter contents based on search
   const filteredContents = useMemo(() => {
     if (!searchQuery.trim()) return contents;
@@ -168,20 +283,38 @@ export default function AdvancedContentLibrary() {
         })
       });
       
-      if (response.ok) {
-        const result = await response.json();
-        setSelectedItems(new Set());
-        fetchContents();
-        
-        if (result.summary) {
-          alert(`Bulk repurpose completed!\nSuccessful: ${result.summary.successful}\nFailed: ${result.summary.failed}\nSkipped: ${result.summary.skipped}`);
-        }
-      } else {
-        throw new Error('Failed to repurpose items');
+      const queued = await response.json();
+      if (!response.ok) {
+        throw new Error(queued.message || queued.error || 'Failed to repurpose items');
+      }
+
+      // The repurposing runs as a background job; follow it until it settles
+      setSelectedItems(new Set());
+      setBulkJob(queued.job);
+      const job = await waitForJob<BulkRepurposeJobResult>(queued.jobId, { onUpdate: setBulkJob });
+      fetchContents();
+
+      if (job.status === 'succeeded' && job.result?.summary) {
+        alert(`Bulk repurpose completed!\nSuccessful: ${job.result.summary.successful}\nFailed: ${job.result.summary.failed}\nSkipped: ${job.result.summary.skipped}`);
+      } else if (job.status === 'cancelled') {
+        alert('Bulk repurpose cancelled. Items finished before cancelling were kept.');
+      } else if (job.status === 'failed') {
+        throw new Error(job.error || 'Failed to repurpose items');
       }
     } catch (error) {
       console.error('Bulk repurpose failed:', error);
-      alert('Failed to repurpose items. Please try again.');
+      alert(`Failed to repurpose items. ${error instanceof Error ? error.message : 'Please try again.'}`);
+    } finally {
+      setBulkJob(null);
+    }
+  };
+
+  const handleCancelBulkJob = async () => {
+    if (!bulkJob) return;
+    try {
+      setBulkJob(await cancelJob(bulkJob.id));
+    } catch (error) {
+      console.error('Failed to cancel bulk repurpose:', error);
     }
   };
 
@@ -349,6 +482,24 @@ export default function AdvancedContentLibrary() {
               <option value="Repurposed">Repurposed Only</option>
               <option value="Generated">Generated Only</option>
           </select>
+
+          {/* Client and Campaign Filters */}
+          <ClientCampaignSelect mode="filter" value={scopeFilter} onChange={setScopeFilter} />
+
+          {/* Language Filter */}
+          {locales.length > 0 && (
+            <select
+              value={localeFilter}
+              onChange={(e) => setLocaleFilter(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">All Languages</option>
+              <option value="original">Original Language</option>
+              {locales.map(option => (
+                <option key={option.locale} value={option.locale}>{option.name}</option>
+              ))}
+            </select>
+          )}
           
           {/* Filter Toggle */}
           <Button
@@ -382,6 +533,11 @@ export default function AdvancedContentLibrary() {
             </Button>
           </div>
 
+          <Button variant="outline" size="sm" onClick={exportLibrary}>
+            <Download className="h-4 w-4 mr-2" />
+            Export
+          </Button>
+
           {/* Bulk Actions */}
           {selectedItems.size > 0 && (
             <DropdownMenu>
@@ -404,6 +560,15 @@ export default function AdvancedContentLibrary() {
                   <RefreshCw className="h-4 w-4 mr-2" />
                   Repurpose Selected Drafts
                 </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuLabel>Export Selected</DropdownMenuLabel>
+                {EXPORT_FORMATS.map(format => (
+                  <DropdownMenuItem key={format} onClick={() => handleBulkExport(format)} disabled={!!exportJob}>
+                    <Download className="h-4 w-4 mr-2" />
+                    {EXPORT_FORMAT_LABELS[format]}
+                  </DropdownMenuItem>
+                ))}
+                <DropdownMenuSeparator />
                 <DropdownMenuItem onClick={handleBulkDelete} className="text-red-600">
                   <Trash2 className="h-4 w-4 mr-2" />
                   Delete All
@@ -416,6 +581,41 @@ export default function AdvancedContentLibrary() {
         </div>
       </div>
 
+      {/* Bulk repurpose progress */}
+      {bulkJob && (
+        <div className="flex items-center justify-between rounded-lg border border-indigo-100 bg-indigo-50 px-4 py-3 text-sm text-indigo-800">
+          <div className="flex items-center space-x-2">
+            <RefreshCw className="h-4 w-4 animate-spin" />
+            <span>
+              {bulkJob.status === 'queued'
+                ? 'Bulk repurpose queued...'
+                : bulkJob.progress?.message || 'Repurposing selected items...'}
+              {bulkJob.progress && bulkJob.progress.total > 0 && ` (${bulkJob.progress.completed}/${bulkJob.progress.total})`}
+            </span>
+          </div>
+          <Button variant="outline" size="sm" onClick={handleCancelBulkJob} disabled={bulkJob.cancelRequested}>
+            {bulkJob.cancelRequested ? 'Cancelling...' : 'Cancel'}
+          </Button>
+        </div>
+      )}
+
+      {/* Background export progress */}
+      {exportJob && (
+        <div className="flex items-center justify-between rounded-lg border border-indigo-100 bg-indigo-50 px-4 py-3 text-sm text-indigo-800">
+          <div className="flex items-center space-x-2">
+            <Download className="h-4 w-4 animate-pulse" />
+            <span>
+              {exportJob.status === 'queued'
+                ? 'Large export queued...'
+                : exportJob.progress?.message || 'Building your export...'}
+            </span>
+          </div>
+          <Button variant="outline" size="sm" onClick={handleCancelExportJob} disabled={exportJob.cancelRequested}>
+            {exportJob.cancelRequested ? 'Cancelling...' : 'Cancel'}
+          </Button>
+        </div>
+      )}
+
       {/* Results Summary */}
       <div className="flex items-center justify-between text-sm text-gray-600">
         <div className="flex items-center gap-4">
@@ -528,6 +728,16 @@ function ContentCard({
                 >
                   {content.status}
                 </Badge>
+                {content.client && (
+                  <Badge variant="outline" className="text-xs">
+                    {content.client.name}
+                  </Badge>
+                )}
+                {content.campaign && (
+                  <Badge variant="outline" className="text-xs">
+                    {content.campaign.name}
+                  </Badge>
+                )}
                 <span>•</span>
                 <span>{formatDate(content.createdAt)}</span>
                 {content.views && (
@@ -616,7 +826,20 @@ function ContentCard({
               {content.repurposed.map((rep) => (
                 <div key={rep.id} className="border rounded-lg p-3 bg-gray-50">
                   <div className="flex items-start justify-between gap-2 mb-2">
-                    <PlatformBadge platform={rep.platform} />
+                    <div className="flex flex-wrap items-center gap-2">
+                      <PlatformBadge platform={rep.platform} />
+                      {rep.locale && (
+                        <Badge variant="outline" className="text-xs">
+                          <Languages className="h-3 w-3 mr-1" />
+                          {rep.locale}
+                        </Badge>
+                      )}
+                      {rep.translationStatus && TRANSLATION_STATUS_LABELS[rep.translationStatus] && (
+                        <Badge variant="outline" className="text-xs text-amber-700 border-amber-200">
+                          {TRANSLATION_STATUS_LABELS[rep.translationStatus]}
+                        </Badge>
+                      )}
+                    </div>
                     <Button
                       variant="ghost"
                       size="sm"
@@ -0,0 +1,203 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { ChevronLeft, ChevronRight, Loader2, Repeat, CheckCircle2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { PlatformIcon } from '@/lib/platform-icons';
+import type { CalendarEntry, ScheduleConflict, ScheduleStatus } from '@/lib/content-scheduler';
+import { notifications } from '@/lib/toast';
+
+// Dates arrive as ISO strings
+type CalendarItem = Omit<CalendarEntry, 'occurrenceAt' | 'publishAt'> & { occurrenceAt: string; publishAt: string };
+
+const STATUS_STYLES: Record<ScheduleStatus, string> = {
+  scheduled: 'border-indigo-200 bg-indigo-50 text-indigo-900',
+  due: 'border-amber-300 bg-amber-50 text-amber-900',
+  publishing: 'border-blue-200 bg-blue-50 text-blue-900',
+  published: 'border-green-200 bg-green-50 text-green-900',
+  failed: 'border-red-200 bg-red-50 text-red-900'
+};
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+// Calendar days are counted in the browser's time zone
+const dayNumber = (date: Date) => Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) / 86_400_000;
+
+function gridStart(month: Date): Date {
+  const first = new Date(month.getFullYear(), month.getMonth(), 1);
+  return new Date(first.getFullYear(), first.getMonth(), 1 - ((first.getDay() + 6) % 7));
+}
+
+/**
+ * Month view of the user's scheduled posts, recurring ones on every day they go out. The upcoming
+ * occurrence of a post can be dragged to another day; it keeps its time of day.
+ */
+export default function ContentCalendar() {
+  const [month, setMonth] = useState(() => new Date(new Date().getFullYear(), new Date().getMonth(), 1));
+  const [entries, setEntries] = useState<CalendarItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dragged, setDragged] = useState<CalendarItem | null>(null);
+
+  const days = useMemo(() => {
+    const start = gridStart(month);
+    return Array.from({ length: 42 }, (_, i) => new Date(start.getFullYear(), start.getMonth(), start.getDate() + i));
+  }, [month]);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const from = days[0]!;
+      const to = new Date(from.getFullYear(), from.getMonth(), from.getDate() + days.length);
+      const response = await fetch(`/api/schedule?from=${from.toISOString()}&to=${to.toISOString()}`);
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to load the calendar');
+      }
+      setEntries(data.data);
+    } catch (error) {
+      notifications.error('Failed to load the calendar', {
+        description: error instanceof Error ? error.message : 'Please try again'
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [days]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const byDay = useMemo(() => {
+    const groups = new Map<number, CalendarItem[]>();
+    for (const entry of entries) {
+      const key = dayNumber(new Date(entry.occurrenceAt));
+      groups.set(key, [...(groups.get(key) ?? []), entry]);
+    }
+    return groups;
+  }, [entries]);
+
+  const update = async (entry: CalendarItem, method: 'PATCH' | 'DELETE', body?: Record<string, unknown>) => {
+    try {
+      const response = await fetch(`/api/schedule/${entry.id}`, {
+        method,
+        ...(body && { headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) })
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to update the post');
+      }
+
+      const conflicts: ScheduleConflict[] = data.data?.conflicts ?? [];
+      if (conflicts.length > 0) {
+        notifications.warning('Close to another post on the same channel', {
+          description: conflicts.map(conflict => `"${conflict.title}" is ${conflict.minutesApart} min away on ${conflict.platform}`).join('; ')
+        });
+      }
+      if (data.data?.repeats) {
+        notifications.warning('This post repeats an earlier one', {
+          description: `${data.data.repeats.score}% matches "${data.data.repeats.matches[0].title}"`
+        });
+      }
+    } catch (error) {
+      notifications.error('Failed to update the post', {
+        description: error instanceof Error ? error.message : 'Please try again'
+      });
+    } finally {
+      await load();
+    }
+  };
+
+  const drop = (day: Date) => {
+    if (!dragged) return;
+    const moveByDays = dayNumber(day) - dayNumber(new Date(dragged.occurrenceAt));
+    setDragged(null);
+    if (moveByDays !== 0) {
+      update(dragged, 'PATCH', { moveByDays });
+    }
+  };
+
+  const today = dayNumber(new Date());
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-4">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <Button variant="outline" size="sm" onClick={() => setMonth(new Date(month.getFullYear(), month.getMonth() - 1, 1))} aria-label="Previous month">
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setMonth(new Date(new Date().getFullYear(), new Date().getMonth(), 1))}>
+            Today
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setMonth(new Date(month.getFullYear(), month.getMonth() + 1, 1))} aria-label="Next month">
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+        <h2 className="text-lg font-semibold text-gray-900">
+          {month.toLocaleDateString(undefined, { month: 'long', year: 'numeric' })}
+        </h2>
+        <div className="w-24 flex justify-end">{loading && <Loader2 className="h-4 w-4 animate-spin text-gray-400" />}</div>
+      </div>
+
+      <div className="grid grid-cols-7 gap-px bg-gray-100 border border-gray-100 rounded-lg overflow-hidden">
+        {WEEKDAYS.map(day => (
+          <div key={day} className="bg-gray-50 px-2 py-1 text-xs font-medium text-gray-500">{day}</div>
+        ))}
+        {days.map(day => {
+          const key = dayNumber(day);
+          return (
+            <div
+              key={key}
+              onDragOver={(e) => dragged && e.preventDefault()}
+              onDrop={(e) => {
+                e.preventDefault();
+                drop(day);
+              }}
+              className={`bg-white min-h-[110px] p-1.5 space-y-1 ${day.getMonth() !== month.getMonth() ? 'opacity-50' : ''}`}
+            >
+              <div className={`text-xs ${key === today ? 'font-bold text-indigo-600' : 'text-gray-500'}`}>{day.getDate()}</div>
+              {(byDay.get(key) ?? []).map(entry => {
+                const movable = entry.upcoming && (entry.status === 'scheduled' || entry.status === 'due' || entry.status === 'failed');
+                return (
+                  <div
+                    key={`${entry.id}-${entry.occurrenceAt}`}
+                    draggable={movable}
+                    onDragStart={(e) => {
+                      e.dataTransfer.setData('text/plain', entry.id);
+                      setDragged(entry);
+                    }}
+                    onDragEnd={() => setDragged(null)}
+                    title={[entry.preview, entry.recurrenceLabel, entry.accountName && `Publishes through ${entry.accountName}`, entry.error].filter(Boolean).join('\n')}
+                    className={`group rounded border px-1.5 py-1 text-xs ${STATUS_STYLES[entry.status]} ${movable ? 'cursor-move' : ''} ${entry.upcoming ? '' : 'border-dashed'}`}
+                  >
+                    <div className="flex items-center space-x-1">
+                      <PlatformIcon platform={entry.platform} size="sm" variant="minimal" className="!p-0" />
+                      <span className="font-medium">
+                        {new Date(entry.occurrenceAt).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })}
+                      </span>
+                      {entry.recurrence && <Repeat className="h-3 w-3" aria-label={entry.recurrenceLabel ?? 'Recurring'} />}
+                      {entry.upcoming && (
+                        <span className="ml-auto hidden group-hover:flex items-center space-x-1">
+                          {entry.status === 'due' && (
+                            <button onClick={() => update(entry, 'PATCH', { action: 'mark_published' })} aria-label="Mark as published">
+                              <CheckCircle2 className="h-3 w-3" />
+                            </button>
+                          )}
+                          <button onClick={() => update(entry, 'DELETE')} aria-label="Unschedule">
+                            <X className="h-3 w-3" />
+                          </button>
+                        </span>
+                      )}
+                    </div>
+                    <p className="truncate">{entry.title}</p>
+                    {entry.status === 'due' && <p className="text-[10px]">Due now</p>}
+                    {entry.status === 'failed' && <p className="text-[10px]">Failed - drag to try again</p>}
+                  </div>
+                );
+              })}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
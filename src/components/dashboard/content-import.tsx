@@ -0,0 +1,236 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import Link from 'next/link';
+import { Loader2, Upload, CheckCircle2, AlertTriangle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { platformConfigs } from '@/lib/platform-icons';
+import {
+  ColumnMapping,
+  IMPORT_FIELDS,
+  IMPORT_FIELD_LABELS,
+  IMPORT_FORMAT_LABELS,
+  ImportField,
+  ImportReport,
+  ImportRowStatus,
+  REQUIRED_IMPORT_FIELDS
+} from '@/lib/importers/types';
+import { notifications } from '@/lib/toast';
+
+const ACCEPTED_FILES = '.csv,.json,.xml';
+
+const STATUS_STYLES: Record<ImportRowStatus, { label: string; className: string }> = {
+  ready: { label: 'Ready', className: 'bg-indigo-50 text-indigo-800' },
+  imported: { label: 'Imported', className: 'bg-green-50 text-green-800' },
+  duplicate: { label: 'Duplicate', className: 'bg-amber-50 text-amber-800' },
+  invalid: { label: 'Error', className: 'bg-red-50 text-red-800' },
+  failed: { label: 'Failed', className: 'bg-red-50 text-red-800' }
+};
+
+const SELECT_CLASS = 'w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+/**
+ * Import an existing library: pick a file, check the column mapping against a dry run, then import
+ */
+export default function ContentImport() {
+  const [file, setFile] = useState<File | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [pending, setPending] = useState<'preview' | 'import' | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const run = async (selected: File, dryRun: boolean, columnMapping: ColumnMapping | null) => {
+    setPending(dryRun ? 'preview' : 'import');
+    try {
+      const form = new FormData();
+      form.append('file', selected);
+      form.append('dryRun', String(dryRun));
+      if (columnMapping) form.append('mapping', JSON.stringify(columnMapping));
+
+      const response = await fetch('/api/content/import', { method: 'POST', body: form });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to read this file');
+      }
+
+      const result: ImportReport = data.report;
+      setReport(result);
+      setMapping(result.mapping);
+      if (!dryRun) {
+        notifications.success(`Imported ${result.summary.imported} of ${result.summary.total} items`);
+      }
+    } catch (error) {
+      notifications.error(dryRun ? 'Preview failed' : 'Import failed', {
+        description: error instanceof Error ? error.message : 'Please try again'
+      });
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const handleFile = async (selected: File | undefined) => {
+    if (!selected) return;
+    setFile(selected);
+    setReport(null);
+    setMapping(null);
+    await run(selected, true, null);
+  };
+
+  const setField = (field: ImportField, column: string) => {
+    if (!mapping) return;
+    const fields = { ...mapping.fields };
+    if (column) fields[field] = column;
+    else delete fields[field];
+    setMapping({ ...mapping, fields });
+  };
+
+  const setOutputColumn = (column: string, platform: string) => {
+    if (!mapping) return;
+    const outputs = Object.fromEntries(Object.entries(mapping.outputs).filter(([, mapped]) => mapped !== column));
+    if (platform) outputs[platform] = column;
+    setMapping({ ...mapping, outputs });
+  };
+
+  const mappedFields = new Set(Object.values(mapping?.fields ?? {}));
+  const outputColumns = (report?.columns ?? []).filter(column => !mappedFields.has(column));
+  const platformFor = (column: string) => Object.entries(mapping?.outputs ?? {}).find(([, mapped]) => mapped === column)?.[0] ?? '';
+  const missingFields = REQUIRED_IMPORT_FIELDS.filter(field => !mapping?.fields[field]);
+  const importable = report?.dryRun ? report.summary.ready : 0;
+
+  return (
+    <div className="space-y-6">
+      <div className="rounded-xl border border-dashed border-gray-300 bg-white p-6 text-center">
+        <Upload className="mx-auto h-8 w-8 text-gray-400" />
+        <p className="mt-2 text-sm text-gray-700">
+          Upload a CSV or JSON file, a library export from this app, or a WordPress export (WXR .xml).
+        </p>
+        <p className="text-xs text-gray-500">
+          Imported items don&apos;t count toward your monthly usage. Titles already in your library are skipped.
+        </p>
+        <input
+          ref={fileInput}
+          type="file"
+          accept={ACCEPTED_FILES}
+          className="hidden"
+          onChange={(e) => handleFile(e.target.files?.[0])}
+        />
+        <Button className="mt-4" variant="outline" onClick={() => fileInput.current?.click()} disabled={pending !== null}>
+          {pending === 'preview' ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+          {file ? 'Choose another file' : 'Choose file'}
+        </Button>
+        {file && <p className="mt-2 text-xs text-gray-500">{file.name}</p>}
+      </div>
+
+      {report && mapping && report.columns.length > 0 && (
+        <div className="rounded-xl border border-gray-200 bg-white p-6 space-y-4">
+          <div>
+            <h3 className="text-sm font-semibold text-gray-900">Column mapping</h3>
+            <p className="text-xs text-gray-500">Choose which column holds each field. Columns can also be imported as platform outputs.</p>
+          </div>
+          <div className="grid gap-4 sm:grid-cols-2">
+            {IMPORT_FIELDS.map(field => (
+              <label key={field} className="block text-sm">
+                <span className="text-gray-700">
+                  {IMPORT_FIELD_LABELS[field]}{REQUIRED_IMPORT_FIELDS.includes(field) && ' *'}
+                </span>
+                <select value={mapping.fields[field] ?? ''} onChange={(e) => setField(field, e.target.value)} className={SELECT_CLASS}>
+                  <option value="">Not mapped</option>
+                  {report.columns.map(column => (
+                    <option key={column} value={column}>{column}</option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+          {outputColumns.length > 0 && (
+            <div className="grid gap-4 sm:grid-cols-2">
+              {outputColumns.map(column => (
+                <label key={column} className="block text-sm">
+                  <span className="text-gray-700">&ldquo;{column}&rdquo; as an output for</span>
+                  <select value={platformFor(column)} onChange={(e) => setOutputColumn(column, e.target.value)} className={SELECT_CLASS}>
+                    <option value="">Not imported</option>
+                    {Object.entries(platformConfigs).map(([platform, config]) => (
+                      <option key={platform} value={platform}>{config.name}</option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+          )}
+          {missingFields.length > 0 && (
+            <p className="text-xs text-red-600">Map {missingFields.map(field => IMPORT_FIELD_LABELS[field]).join(' and ')} to import.</p>
+          )}
+          <Button variant="outline" size="sm" onClick={() => file && run(file, true, mapping)} disabled={pending !== null || missingFields.length > 0}>
+            {pending === 'preview' && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Preview with this mapping
+          </Button>
+        </div>
+      )}
+
+      {report && (
+        <div className="rounded-xl border border-gray-200 bg-white p-6 space-y-4">
+          <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+            <div className="text-sm text-gray-700">
+              <p className="font-semibold text-gray-900">
+                {IMPORT_FORMAT_LABELS[report.format]}: {report.summary.total} items
+                {report.dryRun ? ' (preview)' : ''}
+              </p>
+              <p>
+                {report.dryRun
+                  ? `${report.summary.ready} ready with ${report.summary.outputs} outputs`
+                  : `${report.summary.imported} imported with ${report.summary.outputs} outputs`}
+                {` · ${report.summary.duplicate} duplicates · ${report.summary.invalid + report.summary.failed} with errors`}
+                {report.ignored > 0 && ` · ${report.ignored} attachments and other entries ignored`}
+              </p>
+            </div>
+            {report.dryRun ? (
+              <Button onClick={() => file && run(file, false, mapping)} disabled={pending !== null || importable === 0}>
+                {pending === 'import' ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <CheckCircle2 className="h-4 w-4 mr-2" />}
+                Import {importable} items
+              </Button>
+            ) : (
+              <Link href="/dashboard/content" className="text-sm font-medium text-indigo-600 hover:text-indigo-800">
+                Go to your content library
+              </Link>
+            )}
+          </div>
+
+          <div className="max-h-[32rem] overflow-y-auto rounded-lg border border-gray-100">
+            <table className="w-full text-sm">
+              <thead className="sticky top-0 bg-gray-50 text-left text-xs uppercase text-gray-500">
+                <tr>
+                  <th className="px-3 py-2">Row</th>
+                  <th className="px-3 py-2">Title</th>
+                  <th className="px-3 py-2">Outputs</th>
+                  <th className="px-3 py-2">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.rows.map(row => (
+                  <tr key={row.row} className="border-t border-gray-100 align-top">
+                    <td className="px-3 py-2 text-gray-500">{row.row}</td>
+                    <td className="px-3 py-2">
+                      <div className="text-gray-900">{row.title || <span className="italic text-gray-400">No title</span>}</div>
+                      {[...row.errors, ...row.warnings].map(message => (
+                        <div key={message} className={`mt-1 flex items-start gap-1 text-xs ${row.errors.includes(message) ? 'text-red-600' : 'text-amber-700'}`}>
+                          <AlertTriangle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+                          {message}
+                        </div>
+                      ))}
+                    </td>
+                    <td className="px-3 py-2 text-gray-600">{row.outputs}</td>
+                    <td className="px-3 py-2">
+                      <span className={`rounded-full px-2 py-0.5 text-xs font-medium ${STATUS_STYLES[row.status].className}`}>
+                        {STATUS_STYLES[row.status].label}
+                      </span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
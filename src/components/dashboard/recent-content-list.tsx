@@ -148,6 +148,19 @@ export default function RecentContentList({ limit = 10, showPagination = true }:
     setSearchQuery('');
   };
 
+  // Copies from the library count as prompt experiment outcomes too
+  const trackCopy = async (contentId: string, platform: string) => {
+    try {
+      await fetch(`/api/content/${contentId}/analytics`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ event: 'copy', platform })
+      });
+    } catch (err) {
+      console.error('Failed to track copy:', err);
+    }
+  };
+
   const copyToClipboard = async (text: string, id: string) => {
     try {
       await navigator.clipboard.writeText(text);
@@ -510,6 +523,7 @@ export default function RecentContentList({ limit = 10, showPagination = true }:
                               onClick={(e) => {
                                 e.stopPropagation();
                                 copyToClipboard(repurposed.content, repurposed.id);
+                                trackCopy(content.id, repurposed.platform);
                               }}
                               className="inline-flex items-center text-xs text-gray-500 hover:text-gray-700 transition-colors"
                             >
@@ -36,6 +36,7 @@ import {
   Tag
 } from 'lucide-react';
 import { toast } from 'sonner';
+import ClientCampaignSelect, { ClientCampaignValue } from '@/components/ClientCampaignSelect';
 
 interface ContentTemplate {
   id: string;
@@ -76,6 +77,8 @@ interface TeamContent {
   views: number;
   likes: number;
   comments: number;
+  client?: { id: string; name: string } | null;
+  campaign?: { id: string; name: string } | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -107,6 +110,7 @@ export default function TeamContentLibrary() {
   const [selectedFolder, setSelectedFolder] = useState<string | null>(null);
   const [showCreateForm, setShowCreateForm] = useState(false);
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
+  const [scopeFilter, setScopeFilter] = useState<ClientCampaignValue>({ clientId: '', campaignId: '' });
 
   // Form states
   const [formData, setFormData] = useState({
@@ -149,12 +153,31 @@ export default function TeamContentLibrary() {
     fetchTeamLibraryData();
   }, []);
 
+  const teamContentUrl = (scope: ClientCampaignValue) => {
+    const params = new URLSearchParams();
+    if (scope.clientId) params.set('clientId', scope.clientId);
+    if (scope.campaignId) params.set('campaignId', scope.campaignId);
+    return params.size ? `/api/team/content?${params}` : '/api/team/content';
+  };
+
+  const handleScopeFilterChange = async (scope: ClientCampaignValue) => {
+    setScopeFilter(scope);
+    try {
+      const response = await fetch(teamContentUrl(scope));
+      const result = await response.json();
+      if (result.success) setTeamContent(result.data);
+    } catch (error) {
+      console.error('Error filtering team content:', error);
+      toast.error('Failed to filter team content');
+    }
+  };
+
   const fetchTeamLibraryData = async () => {
     setLoading(true);
     try {
       const [templatesRes, contentRes, foldersRes] = await Promise.all([
         fetch('/api/team/templates'),
-        fetch('/api/team/content'),
+        fetch(teamContentUrl(scopeFilter)),
         fetch('/api/team/folders')
       ]);
 
@@ -350,6 +373,7 @@ export default function TeamContentLibrary() {
                 ))}
               </SelectContent>
             </Select>
+            <ClientCampaignSelect mode="filter" value={scopeFilter} onChange={handleScopeFilterChange} />
             <div className="flex rounded-lg border">
               <Button
                 variant={viewMode === 'grid' ? 'default' : 'ghost'}
@@ -562,6 +586,12 @@ export default function TeamContentLibrary() {
                           <Badge variant={content.status === 'Generated' ? 'default' : 'secondary'}>
                             {content.status}
                           </Badge>
+                          {content.client && (
+                            <Badge variant="outline">{content.client.name}</Badge>
+                          )}
+                          {content.campaign && (
+                            <Badge variant="outline">{content.campaign.name}</Badge>
+                          )}
                         </div>
                         
                         <div className="flex items-center gap-2 mb-3">
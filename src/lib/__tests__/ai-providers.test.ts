@@ -0,0 +1,110 @@
+/**
+ * @jest-environment node
+ */
+import { providerRegistry, setMockResponder, PLAN_PROVIDERS } from '../ai-providers'
+
+describe('AI provider registry', () => {
+  afterEach(() => {
+    setMockResponder(null)
+  })
+
+  describe('resolveId', () => {
+    it('should resolve registered provider ids', () => {
+      expect(providerRegistry.resolveId('anthropic')).toBe('anthropic')
+      expect(providerRegistry.resolveId('groq')).toBe('groq')
+      expect(providerRegistry.resolveId('mock')).toBe('mock')
+    })
+
+    it('should map legacy aliases to the OpenAI-compatible provider', () => {
+      expect(providerRegistry.resolveId('llama')).toBe('openai-compatible')
+      expect(providerRegistry.resolveId('local')).toBe('openai-compatible')
+    })
+
+    it('should return null for unknown providers', () => {
+      expect(providerRegistry.resolveId('unknown-provider')).toBeNull()
+    })
+  })
+
+  describe('plan providers', () => {
+    it('should only allow providers listed for the plan', () => {
+      expect(providerRegistry.isAllowedForPlan('mock', 'free')).toBe(true)
+      expect(providerRegistry.isAllowedForPlan('llama', 'pro')).toBe(true)
+      expect(providerRegistry.isAllowedForPlan('unknown-provider', 'agency')).toBe(false)
+    })
+
+    it('should return configured providers in plan preference order', () => {
+      const ids = providerRegistry.getProvidersForPlan('pro').map(provider => provider.id)
+      const expectedOrder = PLAN_PROVIDERS.pro.filter(id => ids.includes(id))
+
+      expect(ids).toEqual(expectedOrder)
+      // The mock provider is always configured under test
+      expect(ids).toContain('mock')
+    })
+  })
+
+  describe('mock provider', () => {
+    it('should produce deterministic output for the same prompt', async () => {
+      const provider = providerRegistry.get('mock')!
+
+      const first = await provider.generate('Write a tweet about testing')
+      const second = await provider.generate('Write a tweet about testing')
+      const other = await provider.generate('Write a tweet about deploying')
+
+      expect(first.content).toBe(second.content)
+      expect(first.content).not.toBe(other.content)
+      expect(first.model).toBe(provider.getDefaultModel())
+    })
+
+    it('should stream the same text it returns', async () => {
+      const provider = providerRegistry.get('mock')!
+      setMockResponder(() => 'streamed mock response text')
+
+      const chunks: string[] = []
+      const result = await provider.stream('prompt', text => chunks.push(text))
+
+      expect(chunks.join('')).toBe('streamed mock response text')
+      expect(result.content).toBe('streamed mock response text')
+    })
+
+    it('should report healthy without a network call', async () => {
+      const health = await providerRegistry.get('mock')!.checkHealth()
+      expect(health.healthy).toBe(true)
+    })
+  })
+
+  describe('OpenAI-compatible provider', () => {
+    const provider = providerRegistry.get('openai-compatible')!
+
+    afterEach(() => {
+      jest.restoreAllMocks()
+    })
+
+    it('should read the last stream event even without a trailing newline', async () => {
+      const body = [
+        'data: {"choices":[{"delta":{"content":"Hello"}}]}\n',
+        'data: {"choices":[{"delta":{"content":" world"}}],"usage":{"prompt_tokens":5,"completion_tokens":2}}'
+      ].join('')
+      const fetchSpy = jest.spyOn(global, 'fetch').mockResolvedValue(new Response(body))
+      const chunks: string[] = []
+
+      const result = await provider.stream('prompt', text => chunks.push(text), { model: 'llama3.1' })
+
+      expect(chunks).toEqual(['Hello', ' world'])
+      expect(result).toEqual({ content: 'Hello world', model: 'llama3.1', usage: { inputTokens: 5, outputTokens: 2 } })
+      expect(fetchSpy.mock.calls[0]![1]!.signal).toBeInstanceOf(AbortSignal)
+    })
+  })
+
+  describe('describe', () => {
+    it('should summarize every registered provider', async () => {
+      const summaries = await providerRegistry.describe()
+      const ids = summaries.map(summary => summary.id)
+
+      expect(ids).toEqual(['anthropic', 'groq', 'openai-compatible', 'mock'])
+      summaries.forEach(summary => {
+        expect(summary.defaultModel).toBeTruthy()
+        expect(summary.health).toBeUndefined()
+      })
+    })
+  })
+})
@@ -0,0 +1,142 @@
+/**
+ * @jest-environment node
+ */
+import { providerRegistry, isRetryableProviderError, ProviderRequestError } from '../ai-providers'
+import type { AIProviderAdapter, AIProviderId } from '../ai-providers'
+import { AIService } from '../ai-service'
+
+jest.unmock('../ai-service')
+
+// Keep backoff delays negligible and trip breakers quickly
+jest.mock('../config', () => {
+  const actual = jest.requireActual('../config')
+  return {
+    ...actual,
+    AI_RESILIENCE: { ...actual.AI_RESILIENCE, retryBaseDelayMs: 1, retryMaxDelayMs: 2, circuitFailureThreshold: 3, circuitCooldownMs: 50 }
+  }
+})
+
+function statusError(status: number): Error {
+  return new Error(`Failed to generate content: ${status}`, { cause: new ProviderRequestError('upstream', status) })
+}
+
+// Scripted adapter standing in for a real provider
+function fakeProvider(id: AIProviderId, generate: () => Promise<string>): AIProviderAdapter & { calls: number } {
+  const adapter = {
+    id,
+    name: `Fake ${id}`,
+    calls: 0,
+    capabilities: { streaming: false, maxContextTokens: 1000, maxOutputTokens: 1000, local: true },
+    listModels: () => [{ id: `${id}-model`, name: id, description: 'fake' }],
+    getDefaultModel: () => `${id}-model`,
+    isConfigured: () => true,
+    async generate() {
+      adapter.calls++
+      return { content: await generate(), model: `${id}-model` }
+    },
+    async stream(_prompt: string, onText: (text: string) => void) {
+      const result = await adapter.generate()
+      onText(result.content)
+      return result
+    },
+    checkHealth: async () => ({ healthy: true, checkedAt: new Date().toISOString() })
+  }
+  return adapter
+}
+
+describe('AI provider resilience', () => {
+  describe('isRetryableProviderError', () => {
+    it('should retry rate limits, server errors and timeouts', () => {
+      expect(isRetryableProviderError(statusError(429))).toBe(true)
+      expect(isRetryableProviderError(statusError(503))).toBe(true)
+      expect(isRetryableProviderError(Object.assign(new Error('The operation was aborted'), { name: 'TimeoutError' }))).toBe(true)
+      expect(isRetryableProviderError(Object.assign(new Error('read failed'), { code: 'ECONNRESET' }))).toBe(true)
+    })
+
+    it('should not retry client errors', () => {
+      expect(isRetryableProviderError(statusError(400))).toBe(false)
+      expect(isRetryableProviderError(statusError(401))).toBe(false)
+      expect(isRetryableProviderError(new Error('Invalid prompt'))).toBe(false)
+    })
+  })
+
+  describe('fallback chain', () => {
+    it('should retry a flaky provider before succeeding', async () => {
+      let failures = 2
+      const primary = fakeProvider('anthropic', async () => {
+        if (failures-- > 0) throw statusError(503)
+        return 'primary output'
+      })
+      providerRegistry.register(primary)
+
+      const service = new AIService()
+      const response = await service.generateContent(
+        { keywords: 'testing', contentType: 'general' },
+        { provider: 'anthropic' }
+      )
+
+      expect(response.provider).toBe('anthropic')
+      expect(response.content).toBe('primary output')
+      expect(primary.calls).toBe(3)
+    })
+
+    it('should fall back along the plan chain and skip a provider once its circuit opens', async () => {
+      const primary = fakeProvider('anthropic', async () => { throw statusError(500) })
+      const secondary = fakeProvider('groq', async () => 'fallback output')
+      providerRegistry.register(primary)
+      providerRegistry.register(secondary)
+
+      const service = new AIService()
+      const request = { keywords: 'testing', contentType: 'general' as const }
+
+      const first = await service.generateContent(request, { plan: 'pro' })
+      expect(first.provider).toBe('groq')
+      expect(first.content).toBe('fallback output')
+      expect(providerRegistry.getCircuitBreaker('anthropic').getSnapshot().state).toBe('OPEN')
+
+      // Circuit is open - the primary is not called again during the cool-down
+      const callsBefore = primary.calls
+      await service.generateContent(request, { plan: 'pro' })
+      expect(primary.calls).toBe(callsBefore)
+    })
+
+    it('should half-open after the cool-down and close on success', async () => {
+      let healthy = false
+      const primary = fakeProvider('anthropic', async () => {
+        if (!healthy) throw statusError(502)
+        return 'recovered'
+      })
+      providerRegistry.register(primary)
+      providerRegistry.register(fakeProvider('groq', async () => 'fallback output'))
+
+      const service = new AIService()
+      const request = { keywords: 'testing', contentType: 'general' as const }
+
+      await service.generateContent(request, { plan: 'pro' })
+      expect(providerRegistry.getCircuitBreaker('anthropic').getSnapshot().state).toBe('OPEN')
+
+      healthy = true
+      await new Promise(resolve => setTimeout(resolve, 60))
+
+      const response = await service.generateContent(request, { plan: 'pro' })
+      expect(response.provider).toBe('anthropic')
+      expect(providerRegistry.getCircuitBreaker('anthropic').getSnapshot().state).toBe('CLOSED')
+    })
+
+    it('should not retry or trip the breaker on client errors', async () => {
+      const primary = fakeProvider('anthropic', async () => { throw statusError(400) })
+      providerRegistry.register(primary)
+      providerRegistry.register(fakeProvider('groq', async () => 'fallback output'))
+
+      const service = new AIService()
+      const response = await service.generateContent(
+        { keywords: 'testing', contentType: 'general' },
+        { plan: 'pro' }
+      )
+
+      expect(response.provider).toBe('groq')
+      expect(primary.calls).toBe(1)
+      expect(providerRegistry.getCircuitBreaker('anthropic').getSnapshot().failures).toBe(0)
+    })
+  })
+})
@@ -0,0 +1,134 @@
+/**
+ * @jest-environment node
+ */
+import { prisma } from '@/lib/prisma'
+import { calculateCost, estimateTokenUsage, providerRegistry } from '../ai-providers'
+import { aiUsageLedger, buildMarginReport, summarizeMargin } from '../ai-usage-ledger'
+
+const { AIService } = jest.requireActual('../ai-service') as typeof import('../ai-service')
+
+const mockedPrisma = prisma as any
+mockedPrisma.aiUsageEntry = {
+  create: jest.fn(),
+  updateMany: jest.fn()
+}
+
+describe('AI usage ledger', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  describe('pricing', () => {
+    it('should price calls from the model table', () => {
+      expect(calculateCost('anthropic', 'claude-3-5-sonnet-20241022', { inputTokens: 1_000_000, outputTokens: 100_000 })).toBe(4.5)
+      expect(calculateCost('groq', 'llama-3.1-8b-instant', { inputTokens: 2000, outputTokens: 1000 })).toBe(0.00018)
+    })
+
+    it('should fall back to provider prices for unknown models and charge nothing for local ones', () => {
+      expect(calculateCost('anthropic', 'claude-unreleased', { inputTokens: 1_000_000, outputTokens: 0 })).toBe(3)
+      expect(calculateCost('openai-compatible', 'llama3', { inputTokens: 50_000, outputTokens: 50_000 })).toBe(0)
+    })
+
+    it('should estimate tokens when a provider reports none', () => {
+      expect(estimateTokenUsage('a'.repeat(40), 'b'.repeat(9))).toEqual({ inputTokens: 10, outputTokens: 3, estimated: true })
+    })
+  })
+
+  describe('margins', () => {
+    it('should report margin in cents', () => {
+      expect(summarizeMargin(2900, 1.5)).toEqual({ revenue: 2900, aiCost: 150, margin: 2750, marginPercent: 94.8 })
+      expect(summarizeMargin(0, 0.25).marginPercent).toBeNull()
+    })
+
+    it('should join cost rows with plan and user revenue', () => {
+      const row = (key: string | null, costUsd: number) => ({ key, calls: 1, inputTokens: 10, outputTokens: 10, costUsd })
+      const report = buildMarginReport(
+        {
+          totals: { calls: 2, inputTokens: 20, outputTokens: 20, costUsd: 3 },
+          byUser: [row('user-1', 2), row('user-2', 1)],
+          byPlan: [row('pro', 2), row(null, 1)],
+          byProvider: [],
+          byOperation: []
+        },
+        {
+          byPlan: { free: 0, pro: 9900 },
+          byUser: { 'user-1': { revenue: 9900, email: 'one@example.com', plan: 'pro' } }
+        }
+      )
+
+      expect(report.totals).toMatchObject({ revenue: 9900, aiCost: 300, margin: 9600 })
+      expect(report.byPlan.find(plan => plan.key === 'pro')).toMatchObject({ revenue: 9900, aiCost: 200 })
+      expect(report.byPlan.find(plan => plan.key === 'free')).toMatchObject({ revenue: 0, aiCost: 100, margin: -100 })
+      expect(report.byUser[0]).toMatchObject({ key: 'user-1', email: 'one@example.com', margin: 9700 })
+      expect(report.byUser[1]).toMatchObject({ key: 'user-2', revenue: 0, margin: -100 })
+    })
+  })
+
+  describe('recording', () => {
+    it('should record provider-reported usage and cost for each generation', async () => {
+      providerRegistry.register({
+        id: 'anthropic',
+        name: 'Fake anthropic',
+        capabilities: { streaming: false, maxContextTokens: 1000, maxOutputTokens: 1000, local: true },
+        listModels: () => [],
+        getDefaultModel: () => 'claude-3-5-haiku-20241022',
+        isConfigured: () => true,
+        generate: async () => ({
+          content: 'generated',
+          model: 'claude-3-5-haiku-20241022',
+          usage: { inputTokens: 1000, outputTokens: 500 }
+        }),
+        stream: async () => ({ content: '', model: 'claude-3-5-haiku-20241022' }),
+        checkHealth: async () => ({ healthy: true, checkedAt: new Date().toISOString() })
+      })
+
+      const service = new AIService()
+      const response = await service.generateContent(
+        { keywords: 'ledger', contentType: 'general' },
+        { provider: 'anthropic', usage: { userId: 'user-1', teamId: null, plan: 'pro', requestId: 'req-1' } }
+      )
+
+      expect(response.tokensUsed).toBe(1500)
+      expect(response.costUsd).toBe(0.0028)
+      expect(mockedPrisma.aiUsageEntry.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          userId: 'user-1',
+          plan: 'pro',
+          requestId: 'req-1',
+          operation: 'generate',
+          provider: 'anthropic',
+          model: 'claude-3-5-haiku-20241022',
+          inputTokens: 1000,
+          outputTokens: 500,
+          estimated: false,
+          costUsd: 0.0028
+        })
+      })
+    })
+
+    it('should not fail the caller when the ledger write fails', async () => {
+      mockedPrisma.aiUsageEntry.create.mockRejectedValueOnce(new Error('relation does not exist'))
+      jest.spyOn(console, 'error').mockImplementation(() => {})
+
+      await expect(aiUsageLedger.record({
+        userId: 'user-1',
+        teamId: null,
+        plan: 'free',
+        operation: 'analyze',
+        provider: 'anthropic',
+        model: 'claude-3-sonnet-20240229',
+        usage: { inputTokens: 1, outputTokens: 1 },
+        latencyMs: 5
+      })).resolves.toBeUndefined()
+    })
+
+    it('should attach rows recorded for a request to the content created afterwards', async () => {
+      await aiUsageLedger.linkContent('req-1', 'content-1', 'user-1')
+
+      expect(mockedPrisma.aiUsageEntry.updateMany).toHaveBeenCalledWith({
+        where: { requestId: 'req-1', userId: 'user-1', contentId: null },
+        data: { contentId: 'content-1' }
+      })
+    })
+  })
+})
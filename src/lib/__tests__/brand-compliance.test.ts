@@ -0,0 +1,118 @@
+/**
+ * @jest-environment node
+ */
+import {
+  evaluateBrandCompliance,
+  applyComplianceFixes,
+  buildComplianceFixInstruction,
+  readingGrade,
+  readingLevelOf
+} from '../brand-compliance'
+
+const profile = {
+  id: 'bv-1',
+  name: 'Acme',
+  description: 'Plain-spoken and upbeat.',
+  preferredWords: [],
+  avoidWords: ['synergy', 'best in class'],
+  samplePosts: [],
+  emojiPolicy: 'none',
+  hashtagPolicy: 'required',
+  hashtags: ['#acme'],
+  disclaimers: ['Not financial advice.']
+}
+
+const casualPosts = [
+  "We're SO excited to share this! You're going to love it. #acme",
+  "Big news: we shipped dark mode. Try it today and tell us what you think! #acme",
+  "Can't believe it's been a year. Thanks for building with us, you're the best! #acme"
+]
+
+describe('Brand compliance', () => {
+  it('should find banned words as whole words in any case and mark where they are', () => {
+    const text = 'Real SYNERGY, not synergyish. Our best  in class tools. Not financial advice. #acme'
+    const report = evaluateBrandCompliance(text, profile)
+
+    expect(report.violations).toEqual([
+      expect.objectContaining({ rule: 'banned_word', severity: 'high', spans: [{ start: 5, end: 12, text: 'SYNERGY' }] }),
+      expect.objectContaining({ rule: 'banned_word', spans: [{ start: 34, end: 48, text: 'best  in class' }] })
+    ])
+    expect(report).toMatchObject({ brandVoiceId: 'bv-1', score: 40, passed: false, toneMatch: null, readingLevel: null })
+  })
+
+  it('should flag missing disclaimers and brand hashtags, and emojis the brand does not use', () => {
+    const report = evaluateBrandCompliance('Launch day 🎉 is here', profile)
+
+    expect(report.violations.map(violation => [violation.rule, violation.message])).toEqual([
+      ['disclaimer', 'Missing the required disclaimer "Not financial advice."'],
+      ['emoji', "Uses an emoji; the brand doesn't use emojis"],
+      ['hashtag', 'Missing brand hashtags: #acme']
+    ])
+    expect(report.violations[1]?.spans).toEqual([{ start: 11, end: 13, text: '🎉' }])
+    expect(report.score).toBe(40)
+
+    // Disclaimers match regardless of case, spacing and the final full stop
+    expect(evaluateBrandCompliance('Launch day. NOT financial\nadvice #ACME', profile).violations).toEqual([])
+  })
+
+  it('should mark the emojis past the second for a sparing policy and every hashtag when there should be none', () => {
+    const report = evaluateBrandCompliance('Go 🚀 go 🚀 go 🚀 #launch #acme', { ...profile, emojiPolicy: 'sparing', hashtagPolicy: 'none', disclaimers: [] })
+
+    expect(report.violations).toEqual([
+      expect.objectContaining({ rule: 'emoji', severity: 'low', spans: [{ start: 15, end: 17, text: '🚀' }] }),
+      expect.objectContaining({ rule: 'hashtag', spans: [expect.objectContaining({ text: '#launch' }), expect.objectContaining({ text: '#acme' })] })
+    ])
+  })
+
+  it('should grade reading level and point at the sentences above the target', () => {
+    const simple = 'We made the app fast. You can try it now. It is free for a week. Tell us what you think. We read every note.'
+    const complex = 'Organisations implementing comprehensive governance methodologies consistently demonstrate considerable operational improvements across departmental initiatives. Try it today.'
+
+    expect(readingGrade('Too short to grade.')).toBeNull()
+    expect(readingLevelOf(readingGrade(simple)!)).toBe('elementary')
+
+    const strict = { ...profile, disclaimers: [], hashtagPolicy: 'platform', readingLevel: 'middle' }
+    expect(evaluateBrandCompliance(simple, strict).violations).toEqual([])
+
+    const report = evaluateBrandCompliance(`${complex} ${complex}`, strict)
+    expect(report.readingLevel).toMatchObject({ level: 'college', target: 'middle' })
+    expect(report.violations).toEqual([expect.objectContaining({ rule: 'reading_level', severity: 'medium' })])
+    expect(report.violations[0]?.spans.map(span => span.text)).toEqual([
+      expect.stringMatching(/^Organisations.*initiatives\.$/),
+      expect.stringMatching(/^Organisations.*initiatives\.$/)
+    ])
+  })
+
+  it('should compare tone with the sample posts when the voice has no learned fingerprint', () => {
+    const voice = { ...profile, samplePosts: casualPosts, emojiPolicy: 'liberal', hashtagPolicy: 'platform', disclaimers: [] }
+    const formal = 'The quarterly report demonstrates considerable improvement across operational indicators. Stakeholders should evaluate procurement strategies accordingly.'
+
+    const offVoice = evaluateBrandCompliance(formal, voice)
+    expect(offVoice.toneMatch).toBeLessThan(50)
+    expect(offVoice.violations).toEqual([expect.objectContaining({ rule: 'tone', fixable: false })])
+    expect(offVoice.violations[0]?.message).toMatch(/^Doesn't sound like the brand \(tone match \d+\/100\): /)
+
+    expect(evaluateBrandCompliance("You're going to love this! We made exports faster, try it today #acme", voice).violations).toEqual([])
+  })
+
+  it('should fix emojis, hashtags, disclaimers and brand hashtags without a rewrite', () => {
+    const fixed = applyComplianceFixes('Launch day 🎉 is here  🚀\n\n\n#launch', { ...profile, hashtagPolicy: 'none', hashtags: [] })
+    expect(fixed).toBe('Launch day is here\n\nNot financial advice.')
+
+    const tagged = applyComplianceFixes('Launch day', profile)
+    expect(tagged).toBe('Launch day\n\nNot financial advice.\n\n#acme')
+    expect(evaluateBrandCompliance(tagged, profile).violations).toEqual([])
+  })
+
+  it('should turn a report into a rewrite instruction', () => {
+    const instruction = buildComplianceFixInstruction(evaluateBrandCompliance('Pure synergy 🎉', profile))
+
+    expect(instruction.split('\n')).toEqual([
+      expect.stringContaining('Fix these brand voice problems'),
+      '- Uses "synergy", which the brand never uses',
+      '- Missing the required disclaimer "Not financial advice."',
+      "- Uses an emoji; the brand doesn't use emojis",
+      '- Missing brand hashtags: #acme'
+    ])
+  })
+})
@@ -0,0 +1,108 @@
+/**
+ * @jest-environment node
+ */
+import {
+  readExamplePostsFile,
+  splitPastedPosts,
+  parseLearnedVoice,
+  describeFingerprint,
+  toBrandVoiceDraft
+} from '../brand-voice-learning'
+import { computeFingerprint } from '../stylometry'
+import { aiService } from '../ai-service'
+import { aiContentAnalyzer } from '../ai-content-analyzer'
+
+jest.mock('../ai-service', () => ({ aiService: { completePrompt: jest.fn() } }))
+jest.mock('@/lib/analytics-tracker', () => ({ analyticsTracker: { trackEvent: jest.fn() } }))
+jest.mock('@/lib/prompt-registry', () => ({
+  promptRegistry: { render: jest.fn(async (key: string) => ({ prompt: `${key} prompt` })) }
+}))
+
+const mockedCompletePrompt = aiService.completePrompt as any
+
+const posts = [
+  'Monday check-in: what are you shipping this week? #buildinpublic',
+  'We rewrote the importer from scratch. It is twice as fast now. #buildinpublic #devtools',
+  'Small teams win by shipping small changes. Ship it, learn, repeat.',
+  'Thanks for 10k users! We read every message you send. #buildinpublic',
+  'New docs are live. Tell us what is missing and we will fix it this week.'
+]
+
+describe('Learning a brand voice', () => {
+  describe('reading example posts', () => {
+    it('should split pasted text on --- lines, or on blank lines when there are none', () => {
+      expect(splitPastedPosts('First post\nstill first\n---\nSecond post\n\n---\n\nThird')).toEqual(['First post\nstill first', 'Second post', 'Third'])
+      expect(splitPastedPosts('One\n\nTwo\n \nThree')).toEqual(['One', 'Two', 'Three'])
+    })
+
+    it('should read JSON arrays of strings or records', () => {
+      expect(readExamplePostsFile(JSON.stringify(['One', { text: 'Two' }, { caption: 'Three' }, { id: 4 }]), 'posts.json')).toEqual(['One', 'Two', 'Three'])
+      expect(readExamplePostsFile(JSON.stringify({ posts: ['One'] }), 'posts.json')).toEqual(['One'])
+      expect(() => readExamplePostsFile('{', 'posts.json')).toThrow('not valid JSON')
+    })
+
+    it('should read the post column of a CSV, or the first column without a header', () => {
+      const csv = 'date,Post\n2026-01-01,"Hello, world"\n2026-01-02,"Two ""quoted""\nlines"\n'
+      expect(readExamplePostsFile(csv, 'export.csv')).toEqual(['Hello, world', 'Two "quoted"\nlines'])
+      expect(readExamplePostsFile('One\nTwo\n', 'posts.csv')).toEqual(['One', 'Two'])
+      expect(() => readExamplePostsFile('...', 'posts.pdf')).toThrow('.txt, .csv or .json')
+    })
+  })
+
+  describe('parseLearnedVoice', () => {
+    const fingerprint = computeFingerprint(posts)
+
+    it('should fill missing fields from the fingerprint and keep the measured emoji usage', () => {
+      const voice = parseLearnedVoice('```json\n{"description": "Direct and builder-minded.", "tone": "candid", "emojiUsage": "liberal", "formality": "very chill", "signaturePhrases": []}\n```', fingerprint)
+
+      expect(voice).toMatchObject({
+        description: 'Direct and builder-minded.',
+        tone: 'candid',
+        emojiUsage: 'none',
+        formality: describeFingerprint(fingerprint).formality,
+        vocabulary: describeFingerprint(fingerprint).vocabulary
+      })
+    })
+
+    it('should return null without a description', () => {
+      expect(parseLearnedVoice('Sorry, I cannot help with that.', fingerprint)).toBeNull()
+      expect(parseLearnedVoice('{"tone": "warm"}', fingerprint)).toBeNull()
+    })
+  })
+
+  describe('learnBrandVoice', () => {
+    beforeEach(() => {
+      jest.clearAllMocks()
+      jest.spyOn(console, 'error').mockImplementation(() => {})
+    })
+
+    it('should ask the configured provider chain and record usage for the user', async () => {
+      mockedCompletePrompt.mockResolvedValue({ content: '{"description": "Direct and builder-minded."}', provider: 'groq', model: 'llama' })
+
+      const learned = await aiContentAnalyzer.learnBrandVoice(posts, 'user-1')
+
+      expect(learned).toMatchObject({ source: 'ai', voice: { description: 'Direct and builder-minded.' } })
+      expect(mockedCompletePrompt).toHaveBeenCalledWith('analyze.brand_voice prompt', {
+        maxTokens: 1500,
+        usage: { userId: 'user-1', operation: 'learn_voice' }
+      })
+    })
+
+    it('should describe the fingerprint when every provider fails', async () => {
+      mockedCompletePrompt.mockRejectedValue(new Error('All AI providers are temporarily unavailable'))
+
+      expect(await aiContentAnalyzer.learnBrandVoice(posts, 'user-1')).toMatchObject({ source: 'fingerprint' })
+    })
+  })
+
+  it('should turn a learned voice into profile fields with recurring hashtags required', () => {
+    const fingerprint = computeFingerprint(posts)
+    const draft = toBrandVoiceDraft({ voice: describeFingerprint(fingerprint), fingerprint, source: 'fingerprint' }, posts)
+
+    expect(draft.hashtags).toEqual(['#buildinpublic'])
+    expect(draft.hashtagPolicy).toBe('platform')
+    expect(draft.emojiPolicy).toBe('none')
+    expect(draft.samplePosts).toHaveLength(5)
+    expect(draft.guidelines).toContain('Keep sentences short')
+  })
+})
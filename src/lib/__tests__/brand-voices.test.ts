@@ -0,0 +1,105 @@
+/**
+ * @jest-environment node
+ */
+import { prisma } from '@/lib/prisma'
+import { brandVoices, brandVoiceInputSchema, formatBrandVoice } from '../brand-voices'
+
+const mockedPrisma = prisma as any
+
+const profile = {
+  id: 'bv-1',
+  name: 'Acme',
+  description: 'Plain-spoken and upbeat.',
+  tone: 'confident',
+  targetAudience: 'Small business owners',
+  guidelines: null,
+  preferredWords: ['simple', 'fast'],
+  avoidWords: ['synergy'],
+  samplePosts: [],
+  emojiPolicy: 'none',
+  hashtagPolicy: 'required',
+  hashtags: ['#acme'],
+  disclaimers: []
+}
+
+describe('Brand voice profiles', () => {
+  describe('formatBrandVoice', () => {
+    it('should write every part of the profile into the prompt', () => {
+      expect(formatBrandVoice(profile)).toBe(
+        'Plain-spoken and upbeat. Tone: confident. Audience: Small business owners. ' +
+        'Prefer these words and phrases: simple, fast. Never use these words or phrases: synergy. ' +
+        "Don't use emojis. Always include these hashtags: #acme"
+      )
+    })
+
+    it('should ask for the reading level and each disclaimer word for word', () => {
+      const text = formatBrandVoice({ ...profile, readingLevel: 'middle', disclaimers: ['Not financial advice.', 'Terms apply'] })
+
+      expect(text).toContain('Write at a middle school reading level or simpler')
+      expect(text).toContain('Always include these disclaimers word for word: "Not financial advice." "Terms apply"')
+    })
+
+    it('should cap the number and length of sample posts', () => {
+      const text = formatBrandVoice({
+        ...profile,
+        hashtagPolicy: 'platform',
+        samplePosts: ['First post', 'x'.repeat(700), 'Third post', 'Fourth post']
+      })
+
+      expect(text).toContain('"""First post"""')
+      expect(text).toContain(`"""${'x'.repeat(600)}…"""`)
+      expect(text).not.toContain('Fourth post')
+      expect(text).not.toContain('hashtags')
+    })
+  })
+
+  it('should add a # to hashtags and reject ones with punctuation', () => {
+    const parsed = brandVoiceInputSchema.parse({ name: 'Acme', description: 'Upbeat', hashtags: ['acme', '#launch'] })
+    expect(parsed.hashtags).toEqual(['#acme', '#launch'])
+    expect(parsed).toMatchObject({ emojiPolicy: 'sparing', hashtagPolicy: 'platform', isDefault: false })
+    expect(brandVoiceInputSchema.safeParse({ name: 'Acme', description: 'Upbeat', hashtags: ['not-a-tag'] }).success).toBe(false)
+  })
+
+  describe('resolve', () => {
+    const defaultProfile = { ...profile, id: 'bv-default', name: 'House style', userId: 'user-1', isDefault: true }
+
+    beforeEach(() => {
+      mockedPrisma.brandVoice = {
+        findFirst: jest.fn(async ({ where }: any) => {
+          if (where.isDefault) return defaultProfile
+          return where.id === 'bv-1' ? { ...profile, userId: 'user-1' } : null
+        }),
+        findUnique: jest.fn(async ({ where }: any) => (where.id === 'bv-1' ? profile : null))
+      }
+      mockedPrisma.user.findUnique = jest.fn().mockResolvedValue({ teamId: null })
+    })
+
+    afterEach(() => {
+      delete mockedPrisma.brandVoice
+    })
+
+    it('should prefer the requested profile, then request text, then the client voice', async () => {
+      await expect(brandVoices.resolve('user-1', { brandVoiceId: 'bv-1', brandVoice: 'Ignored' }))
+        .resolves.toMatchObject({ profile: { id: 'bv-1', name: 'Acme' } })
+      await expect(brandVoices.resolve('user-1', { brandVoice: ' Witty ', scope: { brandVoiceId: 'bv-1' } }))
+        .resolves.toEqual({ text: 'Witty' })
+      await expect(brandVoices.resolve('user-1', { scope: { brandVoiceId: 'bv-1' } }))
+        .resolves.toMatchObject({ profile: { id: 'bv-1' } })
+      await expect(brandVoices.resolve('user-1', { scope: { brandVoice: 'Formal' } }))
+        .resolves.toEqual({ text: 'Formal' })
+    })
+
+    it('should use the default profile before the settings voice', async () => {
+      await expect(brandVoices.resolve('user-1', { fallback: 'From settings' }))
+        .resolves.toMatchObject({ profile: { id: 'bv-default', name: 'House style' } })
+
+      mockedPrisma.brandVoice.findFirst.mockResolvedValue(null)
+      await expect(brandVoices.resolve('user-1', { fallback: 'From settings' })).resolves.toEqual({ text: 'From settings' })
+      await expect(brandVoices.resolve('user-1', {})).resolves.toEqual({})
+    })
+
+    it('should reject a requested profile the user cannot see', async () => {
+      await expect(brandVoices.resolve('user-1', { brandVoiceId: 'someone-elses' })).rejects.toMatchObject({ statusCode: 404 })
+    })
+  })
+})
@@ -0,0 +1,85 @@
+/**
+ * @jest-environment node
+ */
+import { prisma } from '@/lib/prisma'
+import { buildClientUsage, clientCampaigns, campaignInputSchema } from '../client-campaigns'
+
+const mockedPrisma = prisma as any
+
+describe('Clients and campaigns', () => {
+  describe('buildClientUsage', () => {
+    const clients = [
+      { id: 'c1', name: 'Acme' },
+      { id: 'c2', name: 'Globex', archivedAt: new Date('2026-01-01') },
+      { id: 'c3', name: 'Initech' }
+    ]
+
+    it('should sort clients by cost and add unassigned work last', () => {
+      const rows = buildClientUsage(
+        clients,
+        [{ clientId: 'c1', _count: { _all: 2 } }, { clientId: 'c2', _count: { _all: 5 } }, { clientId: null, _count: { _all: 1 } }],
+        new Map<string | null, number>([['c1', 6], ['c2', 12], [null, 3]]),
+        [
+          { clientId: 'c1', _count: { _all: 4 }, _sum: { inputTokens: 1000, outputTokens: 500, costUsd: 0.0123456789 } },
+          { clientId: 'c2', _count: { _all: 8 }, _sum: { inputTokens: 2000, outputTokens: 900, costUsd: 0.5 } }
+        ]
+      )
+
+      expect(rows.map(row => row.name)).toEqual(['Globex', 'Acme', 'Initech', 'No client'])
+      expect(rows[0]).toMatchObject({ clientId: 'c2', archived: true, contents: 5, outputs: 12, calls: 8, costUsd: 0.5 })
+      expect(rows[1]!.costUsd).toBe(0.012346)
+      expect(rows[2]).toMatchObject({ contents: 0, outputs: 0, calls: 0, costUsd: 0 })
+      expect(rows[3]).toMatchObject({ clientId: null, contents: 1, outputs: 3, calls: 0 })
+    })
+
+    it('should leave out the unassigned row when every piece of work has a client', () => {
+      const rows = buildClientUsage(clients, [{ clientId: 'c1', _count: { _all: 1 } }], new Map(), [])
+      expect(rows.some(row => row.clientId === null)).toBe(false)
+    })
+  })
+
+  it('should reject campaigns that end before they start', () => {
+    expect(campaignInputSchema.safeParse({ name: 'Launch', startsAt: '2026-03-01', endsAt: '2026-02-01' }).success).toBe(false)
+    expect(campaignInputSchema.safeParse({ name: 'Launch', startsAt: '2026-03-01', endsAt: '2026-03-31' }).success).toBe(true)
+  })
+
+  describe('resolveScope', () => {
+    const campaigns: any[] = [
+      { id: 'camp-1', teamId: 'team-1', clientId: 'c1', name: 'Spring launch', status: 'active', brandVoice: 'Playful' },
+      { id: 'camp-2', teamId: 'team-1', clientId: null, name: 'Internal', status: 'active', brandVoice: null },
+      { id: 'camp-3', teamId: 'team-1', clientId: 'c1', name: 'Old', status: 'archived', brandVoice: null }
+    ]
+    const clientRows: any[] = [
+      { id: 'c1', teamId: 'team-1', name: 'Acme', brandVoice: 'Formal', archivedAt: null },
+      { id: 'c2', teamId: 'team-1', name: 'Globex', brandVoice: null, archivedAt: new Date() },
+      { id: 'c3', teamId: 'team-1', name: 'Initech', brandVoice: 'Dry', archivedAt: null }
+    ]
+    const byTeam = (rows: any[]) => jest.fn(async ({ where }: any) => rows.find(row => row.id === where.id && row.teamId === where.teamId) ?? null)
+
+    beforeEach(() => {
+      mockedPrisma.campaign = { findFirst: byTeam(campaigns) }
+      mockedPrisma.client = { findFirst: byTeam(clientRows) }
+    })
+
+    afterEach(() => {
+      delete mockedPrisma.campaign
+      delete mockedPrisma.client
+    })
+
+    it('should take the client and brand voice from the campaign', async () => {
+      await expect(clientCampaigns.resolveScope('team-1', { campaignId: 'camp-1' }))
+        .resolves.toEqual({ clientId: 'c1', campaignId: 'camp-1', brandVoice: 'Playful' })
+      await expect(clientCampaigns.resolveScope('team-1', { clientId: 'c1', campaignId: 'camp-2' }))
+        .resolves.toEqual({ clientId: 'c1', campaignId: 'camp-2', brandVoice: 'Formal' })
+      await expect(clientCampaigns.resolveScope('team-1', {})).resolves.toEqual({})
+    })
+
+    it('should reject other teams, archived records and mismatched clients', async () => {
+      await expect(clientCampaigns.resolveScope(null, { clientId: 'c1' })).rejects.toMatchObject({ statusCode: 403 })
+      await expect(clientCampaigns.resolveScope('team-2', { clientId: 'c1' })).rejects.toMatchObject({ statusCode: 404 })
+      await expect(clientCampaigns.resolveScope('team-1', { clientId: 'c2' })).rejects.toThrow('archived')
+      await expect(clientCampaigns.resolveScope('team-1', { campaignId: 'camp-3' })).rejects.toThrow('archived')
+      await expect(clientCampaigns.resolveScope('team-1', { clientId: 'c3', campaignId: 'camp-1' })).rejects.toThrow('different client')
+    })
+  })
+})
@@ -0,0 +1,155 @@
+/**
+ * @jest-environment node
+ */
+import { prisma } from '@/lib/prisma'
+import { parseAtomIdeas, resolvePostCounts, textSimilarity, findDuplicate, buildAngleInstructions } from '../content-atomizer'
+import { promptRegistry } from '../prompt-registry'
+import { setMockResponder } from '../ai-providers'
+import { CONTENT_ATOMIZATION } from '../config'
+
+const { AIService } = jest.requireActual('../ai-service') as typeof import('../ai-service')
+
+const mockedPrisma = prisma as any
+
+const IDEAS = [
+  { type: 'idea', angle: 'Remote teams ship faster with written decisions', detail: 'Decision logs replace meetings' },
+  { type: 'statistic', angle: 'Async standups save time', detail: '42% fewer meetings after six months' },
+  { type: 'quote', angle: 'Writing is thinking', detail: 'If you cannot write it down, you have not decided it' },
+  { type: 'idea', angle: 'Onboarding gets easier when history is searchable' }
+]
+
+describe('Content atomization', () => {
+  describe('parseAtomIdeas', () => {
+    it('should parse fenced JSON, default unknown types and stop at the limit', () => {
+      const response = '```json\n' + JSON.stringify([...IDEAS, { type: 'anecdote', angle: 'A fifth angle about hiring across time zones' }]) + '\n```'
+
+      const ideas = parseAtomIdeas(response, 5)
+      expect(ideas).toHaveLength(5)
+      expect(ideas[1]).toEqual({ index: 1, type: 'statistic', angle: 'Async standups save time', detail: '42% fewer meetings after six months' })
+      expect(ideas[4]!.type).toBe('idea')
+      expect(parseAtomIdeas(response, 2)).toHaveLength(2)
+    })
+
+    it('should drop malformed entries and ideas that repeat an earlier angle', () => {
+      const response = 'Here you go: ' + JSON.stringify([
+        IDEAS[0],
+        { type: 'idea', angle: '' },
+        'not an idea',
+        { type: 'idea', angle: 'Remote teams ship faster with written decisions!', detail: 'Decision logs replace meetings.' },
+        IDEAS[1]
+      ])
+
+      const ideas = parseAtomIdeas(response, 10)
+      expect(ideas.map(idea => idea.angle)).toEqual([IDEAS[0]!.angle, IDEAS[1]!.angle])
+      expect(ideas.map(idea => idea.index)).toEqual([0, 1])
+      expect(parseAtomIdeas('No ideas here', 5)).toEqual([])
+    })
+  })
+
+  it('should measure overlap by word trigrams, ignoring hashtags and punctuation', () => {
+    const post = 'Written decisions let remote teams ship faster than any meeting could.'
+    expect(textSimilarity(post, `${post} #remote #async`)).toBe(1)
+    expect(textSimilarity(post, 'Searchable history makes onboarding new hires painless.')).toBe(0)
+    expect(findDuplicate(post, ['Something else entirely here', post.toUpperCase()])).toBe(1)
+    expect(findDuplicate(post, [])).toBe(-1)
+  })
+
+  it('should validate post counts against the limits', () => {
+    expect(resolvePostCounts({ twitter: 5, linkedin: 0, newsletter: 1 })).toEqual([['twitter', 5], ['newsletter', 1]])
+    expect(() => resolvePostCounts({ twitter: 0 })).toThrow('at least one post')
+    expect(() => resolvePostCounts({ twitter: CONTENT_ATOMIZATION.maxPostsPerPlatform + 1 })).toThrow('posts per platform')
+  })
+
+  it('should pin a post to its idea and list the angles it must avoid', () => {
+    const ideas = parseAtomIdeas(JSON.stringify(IDEAS), 4)
+    const instructions = buildAngleInstructions(ideas[2]!, ideas)
+
+    expect(instructions).toContain('"If you cannot write it down, you have not decided it"')
+    expect(instructions).toContain(`Don't cover these points, other posts in the series do: ${IDEAS[0]!.angle}; ${IDEAS[1]!.angle}; ${IDEAS[3]!.angle}.`)
+    expect(instructions).not.toContain('earlier draft')
+    expect(buildAngleInstructions(ideas[0]!, ideas, true)).toContain('An earlier draft repeated another post')
+  })
+
+  describe('AIService.atomizeContent', () => {
+    let prompts: string[]
+
+    beforeEach(() => {
+      jest.clearAllMocks()
+      promptRegistry.invalidate()
+      jest.spyOn(console, 'error').mockImplementation(() => {})
+      jest.spyOn(console, 'warn').mockImplementation(() => {})
+      delete mockedPrisma.promptTemplate
+      delete mockedPrisma.promptTemplateVersion
+      prompts = []
+    })
+
+    afterEach(() => {
+      setMockResponder(null)
+    })
+
+    const respondWith = (post: (angle: string, prompt: string) => string) => setMockResponder((prompt) => {
+      prompts.push(prompt)
+      if (prompt.includes('most distinct, self-contained ideas')) return JSON.stringify(IDEAS)
+      const angle = IDEAS.find(idea => prompt.includes(`one idea only: ${idea.angle}`) || prompt.includes(`Point: ${idea.angle}`) || prompt.includes(`quote, used word for word: "${idea.detail}"`))
+      return post(angle?.angle ?? 'unknown', prompt)
+    })
+
+    it('should write one post per idea and platform with no repeated angles', async () => {
+      respondWith((angle) => `A post about ${angle.toLowerCase()} for the series`)
+      const service = new AIService()
+
+      const result = await service.atomizeContent(
+        { originalContent: 'A blog post about remote work', postsPerPlatform: { general: 3, email: 0 }, outputFormat: 'text' },
+        { provider: 'mock' }
+      )
+
+      expect(prompts.filter(prompt => prompt.includes('most distinct, self-contained ideas'))).toHaveLength(1)
+      expect(prompts[0]).toContain('Extract the 3 most distinct')
+      expect(result.ideas).toHaveLength(3)
+      expect(result.posts.map(post => [post.platform, post.sequence, post.angle])).toEqual([
+        ['general', 1, IDEAS[0]!.angle],
+        ['general', 2, IDEAS[1]!.angle],
+        ['general', 3, IDEAS[2]!.angle]
+      ])
+      expect(result.posts.every(post => post.duplicateOf === undefined)).toBe(true)
+      expect(result.failures).toEqual([])
+      expect(result.warnings).toEqual([])
+    })
+
+    it('should rewrite a post that repeats an earlier one and flag it if it still does', async () => {
+      respondWith(() => 'Every post in this series says exactly the same thing about remote work')
+      const service = new AIService()
+
+      const result = await service.atomizeContent(
+        { originalContent: 'A blog post about remote work', postsPerPlatform: { general: 2 }, outputFormat: 'text' },
+        { provider: 'mock' }
+      )
+
+      expect(prompts.filter(prompt => prompt.includes('An earlier draft repeated another post'))).toHaveLength(1)
+      expect(result.posts[1]).toMatchObject({ sequence: 2, duplicateOf: 1 })
+    })
+
+    it('should write fewer posts with a warning when the source has fewer ideas than asked for', async () => {
+      respondWith((angle) => `A post about ${angle.toLowerCase()} for the series`)
+      const service = new AIService()
+
+      const result = await service.atomizeContent(
+        { originalContent: 'A blog post about remote work', postsPerPlatform: { general: 6 }, outputFormat: 'text' },
+        { provider: 'mock' }
+      )
+
+      expect(result.posts).toHaveLength(IDEAS.length)
+      expect(result.warnings).toEqual([`Only ${IDEAS.length} distinct ideas were found, so general gets ${IDEAS.length} posts instead of 6`])
+    })
+
+    it('should fail when no ideas can be extracted', async () => {
+      setMockResponder(() => 'I could not find anything worth posting.')
+      const service = new AIService()
+
+      await expect(service.atomizeContent(
+        { originalContent: 'Nothing much', postsPerPlatform: { general: 2 } },
+        { provider: 'mock' }
+      )).rejects.toThrow('No distinct ideas')
+    })
+  })
+})
@@ -0,0 +1,214 @@
+/**
+ * @jest-environment node
+ */
+import { prisma } from '@/lib/prisma'
+import { splitIntoChunks, buildDigest, hashChunk, needsChunking, mapWithConcurrency } from '../content-chunking'
+import { promptRegistry } from '../prompt-registry'
+import { setMockResponder } from '../ai-providers'
+import { CONTENT_CHUNKING } from '../config'
+
+const { AIService } = jest.requireActual('../ai-service') as typeof import('../ai-service')
+
+const mockedPrisma = prisma as any
+
+const paragraph = (topic: string, sentences = 8) =>
+  Array.from({ length: sentences }, (_, i) => `${topic} point ${i + 1} explains why this matters for the reader.`).join(' ')
+
+// About 1,800 characters per section, so the document needs several 6,000 character chunks
+const longDocument = Array.from({ length: 12 }, (_, section) =>
+  `## Section ${section + 1}\n\n${paragraph(`Alpha${section}`, 10)}\n\n${paragraph(`Beta${section}`, 10)}\n\n${paragraph(`Gamma${section}`, 10)}`
+).join('\n\n')
+
+describe('Content chunking', () => {
+  describe('splitIntoChunks', () => {
+    it('should keep chunks within the size limit and map them back to the source', () => {
+      const chunks = splitIntoChunks(longDocument, { chunkChars: 2500 })
+
+      expect(chunks.length).toBeGreaterThan(5)
+      chunks.forEach((chunk, index) => {
+        expect(chunk.index).toBe(index)
+        expect(chunk.text.length).toBeLessThanOrEqual(2500)
+        expect(longDocument.slice(chunk.start, chunk.end)).toBe(chunk.text)
+        expect(chunk.hash).toBe(hashChunk(chunk.text))
+      })
+      // Chunks cover the document in order without overlapping
+      for (let i = 1; i < chunks.length; i++) {
+        expect(chunks[i]!.start).toBeGreaterThanOrEqual(chunks[i - 1]!.end)
+      }
+    })
+
+    it('should start chunks at headings and remember the heading', () => {
+      const chunks = splitIntoChunks(longDocument, { chunkChars: 2500 })
+
+      expect(chunks[0]!.text.startsWith('## Section 1')).toBe(true)
+      expect(chunks[0]!.heading).toBe('Section 1')
+      expect(chunks.filter(chunk => chunk.text.startsWith('## Section')).length).toBe(12)
+      expect(chunks.every(chunk => chunk.heading?.startsWith('Section'))).toBe(true)
+    })
+
+    it('should split a single oversized paragraph at sentence boundaries', () => {
+      const text = paragraph('Wall', 120)
+      const chunks = splitIntoChunks(text, { chunkChars: 1000 })
+
+      expect(chunks.length).toBeGreaterThan(1)
+      chunks.forEach(chunk => {
+        expect(chunk.text.length).toBeLessThanOrEqual(1000)
+        expect(chunk.text).toMatch(/^Wall point \d+/)
+        expect(chunk.text).toMatch(/reader\.$/)
+      })
+    })
+
+    it('should cut a sentence with no boundaries at spaces and fold a small tail into the previous chunk', () => {
+      const words = Array.from({ length: 400 }, (_, i) => `word${i}`).join(' ')
+      const chunks = splitIntoChunks(words, { chunkChars: 1000 })
+
+      chunks.forEach(chunk => expect(chunk.text).toMatch(/^word\d+( word\d+)*$/))
+      expect(chunks.map(chunk => chunk.text).join(' ')).toBe(words)
+      expect(chunks[chunks.length - 1]!.text.length).toBeGreaterThan(200)
+    })
+
+    it('should give unchanged chunks the same hash after an edit elsewhere', () => {
+      const before = splitIntoChunks(longDocument, { chunkChars: 2500 })
+      const after = splitIntoChunks(longDocument.replace('Gamma11 point 10', 'Gamma11 point ten'), { chunkChars: 2500 })
+
+      expect(after.slice(0, -1).map(chunk => chunk.hash)).toEqual(before.slice(0, -1).map(chunk => chunk.hash))
+      expect(after[after.length - 1]!.hash).not.toBe(before[before.length - 1]!.hash)
+    })
+  })
+
+  it('should build a digest labelled by part and heading', () => {
+    const digest = buildDigest([
+      { index: 0, hash: 'a', heading: 'Intro', charCount: 10, summary: 'First. ', provider: 'mock', model: 'm' },
+      { index: 1, hash: 'b', charCount: 10, summary: 'Second.', provider: 'mock', model: 'm' }
+    ])
+
+    expect(digest).toBe('[Part 1 of 2: Intro]\nFirst.\n\n[Part 2 of 2]\nSecond.')
+  })
+
+  it('should run tasks with limited concurrency in input order', async () => {
+    let running = 0
+    let peak = 0
+    const results = await mapWithConcurrency([5, 1, 3, 2, 4], 2, async (n) => {
+      running++
+      peak = Math.max(peak, running)
+      await new Promise(resolve => setTimeout(resolve, n))
+      running--
+      return n * 10
+    })
+
+    expect(results).toEqual([50, 10, 30, 20, 40])
+    expect(peak).toBe(2)
+  })
+
+  describe('AIService map-reduce', () => {
+    let stored: any[]
+    let prompts: string[]
+
+    beforeEach(() => {
+      jest.clearAllMocks()
+      promptRegistry.invalidate()
+      jest.spyOn(console, 'error').mockImplementation(() => {})
+      jest.spyOn(console, 'warn').mockImplementation(() => {})
+      delete mockedPrisma.promptTemplate
+      delete mockedPrisma.promptTemplateVersion
+
+      stored = []
+      prompts = []
+      mockedPrisma.contentChunkSummary = {
+        findMany: jest.fn(async ({ where }: any) => stored.filter(row =>
+          (where.contentId === undefined || row.contentId === where.contentId) &&
+          (where.requestId === undefined || row.requestId === where.requestId))),
+        deleteMany: jest.fn(async ({ where }: any) => {
+          stored = stored.filter(row => row.contentId !== where.contentId)
+          return { count: 0 }
+        }),
+        createMany: jest.fn(async ({ data }: any) => {
+          stored.push(...data)
+          return { count: data.length }
+        }),
+        updateMany: jest.fn(async () => ({ count: 0 }))
+      }
+      mockedPrisma.$transaction = jest.fn(async (operations: Promise<unknown>[]) => Promise.all(operations))
+
+      setMockResponder((prompt) => {
+        prompts.push(prompt)
+        const part = prompt.match(/part (\d+) of (\d+) of a longer document/)
+        if (part) return `Summary of part ${part[1]}`
+        return 'Post written from the digest'
+      })
+    })
+
+    afterEach(() => {
+      setMockResponder(null)
+      delete mockedPrisma.contentChunkSummary
+      delete mockedPrisma.$transaction
+    })
+
+    it('should leave short content alone', async () => {
+      const service = new AIService()
+      await service.repurposeContent({ originalContent: 'A short post', platforms: ['general'], outputFormat: 'text' }, { provider: 'mock' })
+
+      expect(needsChunking('A short post')).toBe(false)
+      expect(prompts).toHaveLength(1)
+      expect(prompts[0]).toContain('A short post')
+    })
+
+    it('should summarise each chunk, repurpose from the digest and store the summaries', async () => {
+      expect(needsChunking(longDocument)).toBe(true)
+      const chunks = splitIntoChunks(longDocument)
+      const service = new AIService()
+
+      const [result] = await service.repurposeContent(
+        { originalContent: longDocument, platforms: ['general'], outputFormat: 'text' },
+        { provider: 'mock', usage: { userId: 'user-1', contentId: 'content-1' } }
+      )
+
+      const summaryPrompts = prompts.filter(prompt => prompt.includes('longer document'))
+      expect(summaryPrompts).toHaveLength(chunks.length)
+      expect(result!.content).toBe('Post written from the digest')
+
+      const repurposePrompt = prompts[prompts.length - 1]!
+      expect(repurposePrompt).toContain(`[Part 1 of ${chunks.length}: Section 1]\nSummary of part 1`)
+      expect(repurposePrompt).toContain(`digest of a ${chunks.length}-part document`)
+      expect(repurposePrompt).not.toContain('Alpha0 point 1 explains')
+
+      expect(stored).toHaveLength(chunks.length)
+      expect(stored[0]).toMatchObject({ contentId: 'content-1', userId: 'user-1', chunkIndex: 0, chunkHash: chunks[0]!.hash, summary: 'Summary of part 1' })
+    })
+
+    it('should reuse stored summaries and only summarise chunks that changed', async () => {
+      const service = new AIService()
+      const usage = { userId: 'user-1', contentId: 'content-1' }
+      await service.repurposeContent({ originalContent: longDocument, platforms: ['general'], outputFormat: 'text' }, { provider: 'mock', usage })
+
+      prompts = []
+      await service.repurposeContent({ originalContent: longDocument, platforms: ['general'], outputFormat: 'text' }, { provider: 'mock', usage })
+      expect(prompts.filter(prompt => prompt.includes('longer document'))).toHaveLength(0)
+
+      prompts = []
+      const edited = longDocument.replace('Gamma11 point 10', 'Gamma11 point ten')
+      await service.repurposeContent({ originalContent: edited, platforms: ['general'], outputFormat: 'text' }, { provider: 'mock', usage })
+      expect(prompts.filter(prompt => prompt.includes('longer document'))).toHaveLength(1)
+      expect(stored).toHaveLength(splitIntoChunks(edited).length)
+    })
+
+    it('should keep finished summaries when a chunk fails and reject oversized documents', async () => {
+      setMockResponder((prompt) => {
+        if (prompt.includes('part 2 of')) throw new Error('bad gateway')
+        return 'Summary'
+      })
+      const service = new AIService()
+      const usage = { userId: 'user-1', contentId: 'content-1' }
+
+      await expect(service.repurposeContent(
+        { originalContent: longDocument, platforms: ['general'], outputFormat: 'text' },
+        { provider: 'mock', usage }
+      )).rejects.toThrow()
+      expect(stored).toHaveLength(splitIntoChunks(longDocument).length - 1)
+
+      const huge = Array.from({ length: CONTENT_CHUNKING.maxChunks + 5 }, (_, i) => `## Part ${i}\n\n${paragraph(`Huge${i}`, 80)}`).join('\n\n')
+      await expect(service.repurposeContent({ originalContent: huge, platforms: ['general'] }, { provider: 'mock' }))
+        .rejects.toMatchObject({ statusCode: 413 })
+    })
+  })
+})
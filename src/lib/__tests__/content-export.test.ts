@@ -0,0 +1,237 @@
+/**
+ * @jest-environment node
+ */
+import { prisma } from '@/lib/prisma'
+import { jobQueue } from '@/lib/job-queue'
+import { EXPORTS } from '@/lib/config'
+import { toCsv } from '../csv'
+import { buildExport, ExportData } from '../exporters'
+import { contentExporter } from '../content-export'
+import { listZipEntries, readZipEntry } from '../ingestion/zip'
+import { extractDocx } from '../ingestion/docx'
+
+const mockedPrisma = prisma as any
+
+const EXPORTED_AT = new Date('2025-03-01T12:00:00Z')
+
+const exportData = (): ExportData => ({
+  exportedAt: EXPORTED_AT,
+  items: [
+    {
+      id: 'content-1',
+      title: 'Spring launch',
+      contentType: 'blog',
+      status: 'Repurposed',
+      originalContent: 'Our spring release is here.\n\nIt ships three new editors.',
+      client: 'Acme',
+      campaign: null,
+      createdAt: new Date('2025-02-20T09:00:00Z'),
+      outputs: [
+        {
+          id: 'rep-1',
+          platform: 'linkedin',
+          locale: null,
+          content: 'Spring is here, and so are three new editors.',
+          createdAt: new Date('2025-02-21T09:00:00Z'),
+          schedule: { publishAt: new Date('2025-03-03T14:30:00Z'), timezone: 'America/New_York', status: 'scheduled' }
+        },
+        {
+          id: 'rep-2',
+          platform: 'twitter',
+          locale: null,
+          content: '=SUM(A1) is not a formula here, "quotes" and all',
+          createdAt: new Date('2025-02-21T09:00:00Z'),
+          schedule: null
+        },
+        {
+          id: 'rep-3',
+          platform: 'email',
+          locale: null,
+          content: 'Subject: Spring release\n\nHi there,',
+          createdAt: new Date('2025-02-21T09:00:00Z'),
+          schedule: null
+        }
+      ]
+    },
+    {
+      id: 'content-2',
+      title: 'Spring launch',
+      contentType: 'article',
+      status: 'Generated',
+      originalContent: 'A second piece with the same title.',
+      client: null,
+      campaign: 'Q1',
+      createdAt: new Date('2025-02-22T09:00:00Z'),
+      outputs: []
+    }
+  ]
+})
+
+describe('CSV', () => {
+  it('quotes fields with commas, quotes and newlines and neutralises formulas', () => {
+    expect(toCsv([['a,b', 'say "hi"', 'two\nlines', '=1+1', 3, null]])).toBe(
+      '"a,b","say ""hi""","two\nlines",\'=1+1,3,\r\n'
+    )
+    expect(toCsv([['=1+1']], { escapeFormulas: false })).toBe('=1+1\r\n')
+  })
+})
+
+describe('Export formats', () => {
+  it('writes one CSV row per output, plus a row for content without outputs', () => {
+    const file = buildExport('csv', exportData())
+    const text = file.data.toString('utf8')
+
+    expect(file.fileName).toBe('content-export-2025-03-01.csv')
+    expect(text.startsWith('\uFEFFContent ID,Title')).toBe(true)
+    expect(text.trimEnd().split('\r\n')).toHaveLength(5)
+    expect(text).toContain('2025-03-03 09:30,America/New_York,scheduled')
+    expect(text).toContain('"\'=SUM(A1) is not a formula here, ""quotes"" and all"')
+  })
+
+  it('builds a workbook with content and output sheets', () => {
+    const file = buildExport('xlsx', exportData())
+    const names = listZipEntries(file.data).map(entry => entry.name)
+
+    expect(names).toEqual(expect.arrayContaining(['[Content_Types].xml', 'xl/workbook.xml', 'xl/worksheets/sheet1.xml', 'xl/worksheets/sheet2.xml']))
+    expect(readZipEntry(file.data, 'xl/workbook.xml')!.toString()).toContain('<sheet name="Outputs"')
+    const outputs = readZipEntry(file.data, 'xl/worksheets/sheet2.xml')!.toString()
+    expect(outputs).toContain('Spring is here, and so are three new editors.')
+    expect(outputs).toContain('&quot;quotes&quot;')
+  })
+
+  it('bundles one Markdown file per item with unique names', () => {
+    const file = buildExport('markdown', exportData())
+    const names = listZipEntries(file.data).map(entry => entry.name)
+
+    expect(names).toEqual(['spring-launch.md', 'spring-launch-2.md'])
+    const markdown = readZipEntry(file.data, 'spring-launch.md')!.toString()
+    expect(markdown).toContain('# Spring launch')
+    expect(markdown).toContain('## Linkedin')
+    expect(markdown).toContain('_Scheduled for 2025-03-03 09:30 (America/New_York)_')
+  })
+
+  it('writes a Word document the ingestion pipeline can read back', () => {
+    const file = buildExport('docx', exportData())
+    const document = extractDocx(file.data)
+
+    expect(document.title).toBe('Content export')
+    expect(document.headings.filter(heading => heading.level === 1).map(heading => heading.text)).toEqual(['Spring launch', 'Spring launch'])
+    expect(document.text).toContain('It ships three new editors.')
+  })
+
+  it('zips one file per platform', () => {
+    const file = buildExport('platform-zip', exportData())
+    const names = listZipEntries(file.data).map(entry => entry.name)
+
+    expect(names).toEqual(['linkedin.md', 'twitter.md', 'email.md'])
+    expect(readZipEntry(file.data, 'twitter.md')!.toString()).toContain('=SUM(A1)')
+  })
+
+  it('lays out a Buffer bulk upload in local posting times, leaving out email', () => {
+    const file = buildExport('buffer', exportData())
+    const rows = file.data.toString('utf8').trimEnd().split('\r\n')
+
+    expect(rows[0]).toBe('Text,Image URL,Tags,Posting Time')
+    expect(rows[1]).toBe('"Spring is here, and so are three new editors.",,,2025-03-03 09:30')
+    expect(rows[2]).toBe('"=SUM(A1) is not a formula here, ""quotes"" and all",,,')
+    expect(rows).toHaveLength(3)
+    expect(file.skipped).toBe(1)
+  })
+
+  it('lays out a Hootsuite bulk upload with scheduled posts only and no header', () => {
+    const file = buildExport('hootsuite', exportData())
+
+    expect(file.data.toString('utf8')).toBe('03/03/2025 09:30,"Spring is here, and so are three new editors.",\r\n')
+    expect(file.skipped).toBe(2)
+  })
+})
+
+describe('Content exporter', () => {
+  const storedContent = () => exportData().items.map(({ client, campaign, outputs, ...item }) => ({
+    ...item,
+    client: client ? { name: client } : null,
+    campaign: campaign ? { name: campaign } : null,
+    repurposed: outputs
+  }))
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+    process.env.NEXTAUTH_SECRET = 'test-secret'
+    mockedPrisma.content.findMany.mockResolvedValue(storedContent().reverse())
+    mockedPrisma.contentExport = {
+      create: jest.fn().mockResolvedValue({ id: 'export-1' }),
+      findUnique: jest.fn(),
+      update: jest.fn().mockResolvedValue({}),
+      deleteMany: jest.fn().mockResolvedValue({ count: 2 })
+    }
+  })
+
+  it('loads only the user\'s content, in the order selected', async () => {
+    const data = await contentExporter.load('user-1', { contentIds: ['content-1', 'content-2'], locale: 'original' })
+
+    expect(data.items.map(item => item.id)).toEqual(['content-1', 'content-2'])
+    expect(data.items[0]!.client).toBe('Acme')
+    const query = mockedPrisma.content.findMany.mock.calls[0][0]
+    expect(query.where).toEqual({ id: { in: ['content-1', 'content-2'] }, userId: 'user-1' })
+    expect(query.select.repurposed.where).toEqual({ locale: null })
+  })
+
+  it('rejects selections that include someone else\'s content', async () => {
+    mockedPrisma.content.findMany.mockResolvedValue(storedContent().slice(0, 1))
+
+    await expect(contentExporter.load('user-1', { contentIds: ['content-1', 'content-2'] })).rejects.toMatchObject({ statusCode: 404 })
+  })
+
+  it('builds small exports inline and queues large ones', async () => {
+    const enqueue = jest.spyOn(jobQueue, 'enqueue').mockResolvedValue({ id: 'job-1' } as any)
+
+    const inline = await contentExporter.create('user-1', 'pro', { contentIds: ['content-1', 'content-2'], format: 'csv' })
+    expect(inline.kind).toBe('file')
+    expect(enqueue).not.toHaveBeenCalled()
+
+    const large = storedContent()
+    large[1]!.originalContent = 'x'.repeat(EXPORTS.inlineMaxBytes + 1)
+    mockedPrisma.content.findMany.mockResolvedValue(large)
+
+    const queued = await contentExporter.create('user-1', 'pro', { contentIds: ['content-1', 'content-2'], format: 'docx' })
+    expect(queued.kind).toBe('job')
+    expect(enqueue).toHaveBeenCalledWith('user-1', 'pro', 'export', { contentIds: ['content-1', 'content-2'], format: 'docx' }, { maxAttempts: 2 })
+  })
+
+  it('stores a background export behind a signed link that expires', async () => {
+    const reportProgress = jest.fn().mockResolvedValue(undefined)
+    const result = await contentExporter.runJob(
+      { contentIds: ['content-1', 'content-2'], format: 'markdown' },
+      { job: { id: 'job-1', userId: 'user-1' } as any, reportProgress, throwIfCancelled: jest.fn(), heartbeat: jest.fn() }
+    )
+
+    const stored = mockedPrisma.contentExport.create.mock.calls[0][0].data
+    expect(stored).toMatchObject({ userId: 'user-1', jobId: 'job-1', format: 'markdown', itemCount: 2 })
+    expect(stored.expiresAt.getTime() - Date.now()).toBeGreaterThan((EXPORTS.linkTtlHours - 1) * 60 * 60 * 1000)
+
+    const url = new URL(result.downloadUrl, 'https://app.example')
+    expect(url.pathname).toBe('/api/exports/export-1')
+    const expires = url.searchParams.get('expires')
+    const signature = url.searchParams.get('signature')
+    expect(contentExporter.verifyLink('export-1', expires, signature)).toBe(true)
+    expect(contentExporter.verifyLink('export-2', expires, signature)).toBe(false)
+    expect(contentExporter.verifyLink('export-1', String(Number(expires) + 60), signature)).toBe(false)
+    expect(contentExporter.verifyLink('export-1', expires, 'not-a-signature')).toBe(false)
+    expect(contentExporter.verifyLink('export-1', expires, signature, new Date(stored.expiresAt.getTime() + 1000))).toBe(false)
+
+    mockedPrisma.contentExport.findUnique.mockResolvedValue({
+      fileName: stored.fileName, mimeType: stored.mimeType, data: stored.data, skipped: 0, expiresAt: stored.expiresAt
+    })
+    const file = await contentExporter.download('export-1', expires, signature)
+    expect(file.fileName).toBe(result.fileName)
+    expect(mockedPrisma.contentExport.update).toHaveBeenCalledWith({ where: { id: 'export-1' }, data: { downloadedAt: expect.any(Date) } })
+
+    await expect(contentExporter.download('export-1', expires, '0'.repeat(64))).rejects.toMatchObject({ statusCode: 403 })
+  })
+
+  it('purges expired exports', async () => {
+    await expect(contentExporter.purgeExpired(EXPORTED_AT)).resolves.toBe(2)
+    expect(mockedPrisma.contentExport.deleteMany).toHaveBeenCalledWith({ where: { expiresAt: { lte: EXPORTED_AT } } })
+  })
+})
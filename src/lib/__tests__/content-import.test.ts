@@ -0,0 +1,213 @@
+/**
+ * @jest-environment node
+ */
+import { prisma } from '@/lib/prisma'
+import { parseImportFile, suggestMapping } from '../importers'
+import { contentImporter } from '../content-import'
+
+jest.unmock('../subscription')
+
+const mockedPrisma = prisma as any
+
+const WXR = `<?xml version="1.0" encoding="UTF-8" ?>
+<rss version="2.0" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:wp="http://wordpress.org/export/1.2/">
+<channel>
+  <wp:wxr_version>1.2</wp:wxr_version>
+  <item>
+    <title>Five &amp; dime</title>
+    <link>https://blog.example/five-and-dime</link>
+    <dc:creator><![CDATA[sam]]></dc:creator>
+    <category domain="category" nicename="news"><![CDATA[News]]></category>
+    <content:encoded><![CDATA[<!-- wp:paragraph --><p>First paragraph.</p><!-- /wp:paragraph --><ul><li>One</li><li>Two</li></ul>]]></content:encoded>
+    <wp:post_id>12</wp:post_id>
+    <wp:post_date_gmt><![CDATA[2021-04-05 10:30:00]]></wp:post_date_gmt>
+    <wp:status><![CDATA[publish]]></wp:status>
+    <wp:post_type><![CDATA[post]]></wp:post_type>
+  </item>
+  <item>
+    <title>About</title>
+    <content:encoded><![CDATA[We write things.]]></content:encoded>
+    <wp:post_date_gmt><![CDATA[0000-00-00 00:00:00]]></wp:post_date_gmt>
+    <wp:status><![CDATA[draft]]></wp:status>
+    <wp:post_type><![CDATA[page]]></wp:post_type>
+  </item>
+  <item>
+    <title>logo.png</title>
+    <wp:status><![CDATA[inherit]]></wp:status>
+    <wp:post_type><![CDATA[attachment]]></wp:post_type>
+  </item>
+  <item>
+    <title></title>
+    <content:encoded><![CDATA[]]></content:encoded>
+    <wp:status><![CDATA[publish]]></wp:status>
+    <wp:post_type><![CDATA[post]]></wp:post_type>
+  </item>
+</channel>
+</rss>`
+
+const LIBRARY_EXPORT = JSON.stringify({
+  exportInfo: { exportDate: '2025-01-01T00:00:00.000Z', version: '1.0' },
+  contents: [
+    {
+      id: 'old-1',
+      title: 'Launch notes',
+      originalContent: 'We launched.',
+      contentType: 'article',
+      status: 'Repurposed',
+      isDraft: false,
+      createdAt: '2024-12-01T09:00:00.000Z',
+      repurposed: [
+        { id: 'rep-de', platform: 'linkedin', content: 'Wir sind live.', locale: 'de', sourceId: 'rep-en' },
+        { id: 'rep-en', platform: 'linkedin', content: 'We are live.', locale: null, sourceId: null },
+        { id: 'rep-x', platform: 'myspace', content: 'Top 8 update', locale: null, sourceId: null }
+      ]
+    }
+  ]
+})
+
+describe('Import parsing', () => {
+  it('suggests a mapping from column names, including platform output columns', () => {
+    expect(suggestMapping(['Post Title', 'Body', 'Published At', 'Twitter', 'Notes'])).toEqual({
+      fields: { title: 'Post Title', content: 'Body', createdAt: 'Published At' },
+      outputs: { twitter: 'Twitter' }
+    })
+  })
+
+  it('reads CSV rows through the mapping and reports problems per row', () => {
+    const csv = 'Title,Body,Type,Date,Tweet\r\n' +
+      'Hello,"<p>Hi there</p><p>Second</p>",blog post,2024-02-01,Hi!\r\n' +
+      ',No title here,podcast,not a date,\r\n'
+    const parsed = parseImportFile(csv, 'posts.csv', {
+      fields: { title: 'Title', content: 'Body', contentType: 'Type', createdAt: 'Date' },
+      outputs: { twitter: 'Tweet' }
+    })
+
+    expect(parsed.format).toBe('csv')
+    expect(parsed.columns).toEqual(['Title', 'Body', 'Type', 'Date', 'Tweet'])
+    const [first, second] = parsed.records
+    expect(first).toMatchObject({ row: 2, title: 'Hello', content: 'Hi there\n\nSecond', contentType: 'blog', errors: [] })
+    expect(first!.warnings).toEqual(['Unknown content type "blog post"; imported as blog'])
+    expect(first!.outputs).toEqual([{ platform: 'twitter', content: 'Hi!', locale: null }])
+    expect(second!.row).toBe(3)
+    expect(second!.errors).toEqual(['Title is empty'])
+    expect(second!.warnings).toHaveLength(2)
+    expect(second!.outputs).toEqual([])
+  })
+
+  it('rejects mappings to columns the file does not have', () => {
+    expect(() => parseImportFile('Title,Body\r\nA,B\r\n', 'posts.csv', { fields: { title: 'Headline' }, outputs: {} }))
+      .toThrow('The file has no column named "Headline"')
+  })
+
+  it('reads generic JSON from an array or a posts list', () => {
+    const parsed = parseImportFile(JSON.stringify({ posts: [{ title: 'One', text: 'Body one', views: 3, tags: ['a'] }] }), 'posts.json')
+
+    expect(parsed.format).toBe('json')
+    expect(parsed.columns).toEqual(['title', 'text', 'views'])
+    expect(parsed.records[0]).toMatchObject({ title: 'One', content: 'Body one' })
+  })
+
+  it('recognises the library export and keeps its outputs', () => {
+    const parsed = parseImportFile(LIBRARY_EXPORT, 'aicrs-export.json')
+
+    expect(parsed.format).toBe('library-export')
+    expect(parsed.mapping).toBeNull()
+    const [record] = parsed.records
+    expect(record).toMatchObject({ title: 'Launch notes', contentType: 'article', status: 'Repurposed', metadata: { externalId: 'old-1' } })
+    expect(record!.outputs.map(output => output.key)).toEqual(['rep-de', 'rep-en'])
+    expect(record!.warnings).toEqual(['Skipped an output for the unknown platform "myspace"'])
+  })
+
+  it('reads WordPress posts and pages and ignores attachments', () => {
+    const parsed = parseImportFile(WXR, 'wordpress.xml')
+
+    expect(parsed.format).toBe('wxr')
+    expect(parsed.ignored).toBe(1)
+    const [post, page, empty] = parsed.records
+    expect(post).toMatchObject({
+      row: 1,
+      title: 'Five & dime',
+      content: 'First paragraph.\n\n- One\n- Two',
+      contentType: 'blog',
+      isDraft: false,
+      createdAt: new Date('2021-04-05T10:30:00Z'),
+      sourceUrl: 'https://blog.example/five-and-dime',
+      metadata: { externalId: '12', author: 'sam', categories: ['News'], wordpressStatus: 'publish' }
+    })
+    expect(page).toMatchObject({ row: 2, contentType: 'article', isDraft: true, createdAt: undefined })
+    expect(empty).toMatchObject({ row: 4, errors: ['Title is empty', 'Content is empty'] })
+  })
+})
+
+describe('Content importer', () => {
+  let createdIds: number
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+    createdIds = 0
+    mockedPrisma.content.findMany.mockResolvedValue([{ id: 'existing-1', title: '  hello   WORLD ' }])
+    mockedPrisma.content.create.mockImplementation(() => Promise.resolve({ id: `content-${++createdIds}` }))
+    mockedPrisma.repurposedContent = {
+      create: jest.fn().mockImplementation(({ data }: any) => Promise.resolve({ id: `copy-of-${data.content}` }))
+    }
+    mockedPrisma.$transaction = jest.fn().mockImplementation((callback: any) => callback(mockedPrisma))
+  })
+
+  const csv = 'title,content\r\nHello world,Already there\r\nFresh post,New text\r\nfresh  POST,Same title again\r\n,Missing title\r\n'
+
+  it('previews every row without saving anything on a dry run', async () => {
+    const report = await contentImporter.importFile('user-1', 'pro', { text: csv, fileName: 'posts.csv', dryRun: true })
+
+    expect(report.rows.map(row => row.status)).toEqual(['duplicate', 'ready', 'duplicate', 'invalid'])
+    expect(report.rows[0]).toMatchObject({ contentId: 'existing-1', warnings: ['Content with this title is already in your library'] })
+    expect(report.rows[2]!.warnings).toEqual(['Same title as row 3'])
+    expect(report.rows[3]!.errors).toEqual(['Title is empty'])
+    expect(report.summary).toMatchObject({ total: 4, ready: 1, duplicate: 2, invalid: 1, imported: 0 })
+    expect(report.mapping).toEqual({ fields: { title: 'title', content: 'content' }, outputs: {} })
+    expect(mockedPrisma.content.create).not.toHaveBeenCalled()
+  })
+
+  it('creates the rows that pass, without charging usage', async () => {
+    const report = await contentImporter.importFile('user-1', 'pro', { text: csv, fileName: 'posts.csv', dryRun: false })
+
+    expect(report.summary).toMatchObject({ imported: 1, duplicate: 2, invalid: 1 })
+    expect(report.rows[1]).toMatchObject({ status: 'imported', contentId: 'content-1' })
+    expect(mockedPrisma.content.create).toHaveBeenCalledTimes(1)
+    expect(mockedPrisma.content.create.mock.calls[0][0].data).toMatchObject({
+      userId: 'user-1',
+      title: 'Fresh post',
+      originalContent: 'New text',
+      status: 'Generated',
+      sourceType: 'csv',
+      sourceMetadata: { fileName: 'posts.csv', row: 3 }
+    })
+    expect(mockedPrisma.$transaction).toHaveBeenCalledTimes(1)
+    expect(mockedPrisma.user.update).not.toHaveBeenCalled()
+  })
+
+  it('relinks translated variants to the copies of their sources', async () => {
+    mockedPrisma.content.findMany.mockResolvedValue([])
+    const report = await contentImporter.importFile('user-1', 'pro', { text: LIBRARY_EXPORT, fileName: 'export.json', dryRun: false })
+
+    expect(report.rows[0]).toMatchObject({ status: 'imported', outputs: 2 })
+    const outputs = mockedPrisma.repurposedContent.create.mock.calls.map(([call]: any) => call.data)
+    expect(outputs).toEqual([
+      { contentId: 'content-1', platform: 'linkedin', content: 'We are live.', locale: null, sourceId: null },
+      { contentId: 'content-1', platform: 'linkedin', content: 'Wir sind live.', locale: 'de', sourceId: 'copy-of-We are live.' }
+    ])
+    expect(mockedPrisma.content.create.mock.calls[0][0].data).toMatchObject({ status: 'Repurposed', createdAt: new Date('2024-12-01T09:00:00.000Z') })
+  })
+
+  it('holds imported content to the plan\'s length limits and reports rows that fail to save', async () => {
+    mockedPrisma.content.findMany.mockResolvedValue([])
+    mockedPrisma.content.create.mockRejectedValueOnce(new Error('connection reset'))
+    const text = `title,content\r\nToo long,${'x'.repeat(2001)}\r\nFits,Short enough\r\n`
+
+    const report = await contentImporter.importFile('user-1', 'free', { text, fileName: 'posts.csv', dryRun: false })
+
+    expect(report.rows[0]).toMatchObject({ status: 'invalid', errors: ['Content is 2001 characters; the free plan accepts up to 2000'] })
+    expect(report.rows[1]).toMatchObject({ status: 'failed', errors: ['Could not be saved'] })
+  })
+})
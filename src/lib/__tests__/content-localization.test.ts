@@ -0,0 +1,119 @@
+/**
+ * @jest-environment node
+ */
+import { prisma } from '@/lib/prisma'
+import { contentLocalization, resolveTargetLocales } from '../content-localization'
+import { localeFilter } from '../locales'
+import { promptRegistry } from '../prompt-registry'
+import { setMockResponder } from '../ai-providers'
+
+jest.unmock('../ai-service')
+// The real tracker starts a flush interval on import that would keep Jest from exiting
+jest.mock('@/lib/analytics-tracker', () => ({
+  analyticsTracker: { trackEvent: jest.fn(), trackContentRepurpose: jest.fn(), trackContentOutcome: jest.fn() }
+}))
+
+const mockedPrisma = prisma as any
+
+const sourceOutput = (overrides: Record<string, unknown> = {}) => ({
+  id: 'rep-1',
+  contentId: 'content-1',
+  platform: 'twitter',
+  content: 'Acme ships the new editor today\n\n#launch',
+  structured: { text: 'Acme ships the new editor today', hashtags: ['#launch'] },
+  promptVersionId: 'ver-1',
+  revisions: null,
+  locale: null,
+  sourceId: null,
+  campaignId: null,
+  originalContent: { originalContent: 'Release notes for the new editor' },
+  ...overrides
+})
+
+describe('Content localization', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    promptRegistry.invalidate()
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+    jest.spyOn(console, 'warn').mockImplementation(() => {})
+    delete mockedPrisma.promptTemplate
+    delete mockedPrisma.promptTemplateVersion
+    ;(jest.requireMock('@/lib/prisma') as any).Prisma = { DbNull: 'DbNull' }
+    mockedPrisma.repurposedContent = {
+      findFirst: jest.fn().mockResolvedValue(sourceOutput()),
+      findMany: jest.fn().mockResolvedValue([]),
+      create: jest.fn(({ data }: any) => Promise.resolve({ id: `rep-${data.locale}`, ...data })),
+      update: jest.fn(({ where, data }: any) => Promise.resolve({ id: where.id, ...data }))
+    }
+  })
+
+  afterEach(() => {
+    setMockResponder(null)
+  })
+
+  it('should resolve target locales to their canonical form without the source language', () => {
+    expect(resolveTargetLocales(['de-de', 'DE-DE', 'fr', 'en-us'], 'en-US')).toEqual(['de-DE', 'fr'])
+    expect(() => resolveTargetLocales(['en-US'], 'en-us')).toThrow('Choose at least one language other than the source')
+    expect(() => resolveTargetLocales(['not a locale'])).toThrow('"not a locale" is not a valid locale')
+  })
+
+  it('should filter the library by translated locale or the original language', () => {
+    expect(localeFilter(undefined)).toBeUndefined()
+    expect(localeFilter('original')).toEqual({ locale: null })
+    expect(localeFilter('pt-br')).toEqual({ locale: 'pt-BR' })
+  })
+
+  it('should save one linked variant per locale, with the glossary enforced and platform rules checked', async () => {
+    const prompts: string[] = []
+    setMockResponder((prompt) => {
+      prompts.push(prompt)
+      if (prompt.includes('into German')) {
+        return JSON.stringify({ text: 'Acme liefert heute den neuen Editor', hashtags: ['#launch'] })
+      }
+      // Every French attempt, rewrites included, runs over the tweet limit
+      return JSON.stringify({ text: 'Acme livre aujourd\'hui le nouvel éditeur. '.repeat(10), hashtags: ['#lancement'] })
+    })
+
+    const glossary = [{ id: 'term-1', preferred: 'Acme Cloud', forbidden: ['Acme'], caseSensitive: false }]
+    const { variants, failures } = await contentLocalization.translate('user-1', 'content-1', 'rep-1', ['de-DE', 'fr'], { sourceLocale: 'en', glossary })
+
+    expect(failures).toEqual([])
+    expect(prompts[0]).toContain('into German (Germany) from English')
+    expect(prompts[0]).toContain('Use "Acme Cloud", never "Acme"')
+
+    const german = variants.find(variant => variant.locale === 'de-DE')
+    expect(german).toMatchObject({
+      sourceId: 'rep-1',
+      platform: 'twitter',
+      content: 'Acme Cloud liefert heute den neuen Editor\n\n#launch',
+      translationStatus: 'complete',
+      glossary: [{ termId: 'term-1', from: 'Acme', to: 'Acme Cloud', count: 1 }],
+      constraintWarnings: []
+    })
+
+    const french = variants.find(variant => variant.locale === 'fr')
+    expect(french?.translationStatus).toBe('needs_review')
+    expect(french?.constraintWarnings).toEqual([expect.objectContaining({ rule: 'maxCharacters' })])
+  })
+
+  it('should replace an earlier translation and keep it in the history', async () => {
+    mockedPrisma.repurposedContent.findMany.mockResolvedValue([
+      sourceOutput({ id: 'rep-de', locale: 'de-DE', sourceId: 'rep-1', content: 'Alte Übersetzung', structured: null })
+    ])
+    setMockResponder(() => JSON.stringify({ text: 'Neue Übersetzung', hashtags: ['#launch'] }))
+
+    const { variants } = await contentLocalization.translate('user-1', 'content-1', 'rep-1', ['de-DE'])
+
+    expect(mockedPrisma.repurposedContent.create).not.toHaveBeenCalled()
+    expect(variants[0]).toMatchObject({ id: 'rep-de', content: 'Neue Übersetzung\n\n#launch' })
+    expect(mockedPrisma.repurposedContent.update.mock.calls[0][0].data.revisions).toEqual([
+      expect.objectContaining({ content: 'Alte Übersetzung', replacedBy: 'translate' })
+    ])
+  })
+
+  it('should only translate original outputs', async () => {
+    mockedPrisma.repurposedContent.findFirst.mockResolvedValue(sourceOutput({ id: 'rep-de', locale: 'de-DE', sourceId: 'rep-1' }))
+
+    await expect(contentLocalization.translate('user-1', 'content-1', 'rep-de', ['fr'])).rejects.toMatchObject({ statusCode: 400 })
+  })
+})
@@ -0,0 +1,186 @@
+/**
+ * @jest-environment node
+ */
+import { prisma } from '@/lib/prisma'
+import { contentRevisions, appendRevision, removeHashtags, MAX_REVISIONS } from '../content-revisions'
+import { promptRegistry } from '../prompt-registry'
+import { setMockResponder } from '../ai-providers'
+
+jest.unmock('../ai-service')
+// The real tracker starts a flush interval on import that would keep Jest from exiting
+jest.mock('@/lib/analytics-tracker', () => ({
+  analyticsTracker: { trackEvent: jest.fn(), trackContentRepurpose: jest.fn(), trackContentOutcome: jest.fn() }
+}))
+
+const mockedPrisma = prisma as any
+
+const storedOutput = (overrides: Record<string, unknown> = {}) => ({
+  id: 'rep-1',
+  contentId: 'content-1',
+  platform: 'twitter',
+  content: 'We shipped the new editor today and it is fast\n\n#launch',
+  structured: { text: 'We shipped the new editor today and it is fast', hashtags: ['#launch'] },
+  promptVersionId: 'ver-1',
+  revisions: null,
+  originalContent: { originalContent: 'Release notes for the new editor' },
+  ...overrides
+})
+
+describe('Content revisions', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    promptRegistry.invalidate()
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+    jest.spyOn(console, 'warn').mockImplementation(() => {})
+    delete mockedPrisma.promptTemplate
+    delete mockedPrisma.promptTemplateVersion
+    ;(jest.requireMock('@/lib/prisma') as any).Prisma = { DbNull: 'DbNull' }
+    mockedPrisma.repurposedContent = {
+      findFirst: jest.fn().mockResolvedValue(storedOutput()),
+      update: jest.fn(({ data }: any) => Promise.resolve({ ...storedOutput(), ...data })),
+      updateMany: jest.fn().mockResolvedValue({ count: 0 })
+    }
+  })
+
+  afterEach(() => {
+    setMockResponder(null)
+  })
+
+  describe('appendRevision', () => {
+    it('should keep only the most recent revisions', () => {
+      let history = appendRevision([], { content: 'v0' }, 'shorter')
+      for (let i = 1; i <= MAX_REVISIONS; i++) {
+        history = appendRevision(history, { content: `v${i}` }, 'regenerate')
+      }
+
+      expect(history).toHaveLength(MAX_REVISIONS)
+      expect(history[0]?.content).toBe('v1')
+      expect(history[MAX_REVISIONS - 1]).toMatchObject({ content: `v${MAX_REVISIONS}`, replacedBy: 'regenerate', structured: null })
+    })
+  })
+
+  describe('removeHashtags', () => {
+    it('should clear structured hashtags and inline tags', () => {
+      const result = removeHashtags('instagram', '', {
+        caption: 'Big day #launch for the team',
+        hashtags: ['#launch', '#editor'],
+        altText: 'Screenshot'
+      })
+
+      expect(result.structured).toEqual({ caption: 'Big day for the team', hashtags: [], altText: 'Screenshot' })
+      expect(result.content).toBe('Big day for the team')
+    })
+
+    it('should strip hashtags from plain-text outputs', () => {
+      expect(removeHashtags('linkedin', 'Big day #launch\n\n#editor #team').content).toBe('Big day')
+    })
+  })
+
+  describe('revise', () => {
+    it('should apply a transform and keep the previous text as a revision', async () => {
+      const prompts: string[] = []
+      setMockResponder((prompt) => {
+        prompts.push(prompt)
+        return JSON.stringify({ text: 'New editor: shipped, and fast', hashtags: ['#launch'] })
+      })
+
+      const { output, result } = await contentRevisions.revise('user-1', 'content-1', 'rep-1', 'shorter')
+
+      expect(prompts[0]).toContain('Make it noticeably shorter')
+      expect(prompts[0]).toContain('"We shipped the new editor today and it is fast')
+      expect(result.content).toBe('New editor: shipped, and fast\n\n#launch')
+      expect(output.revisions).toEqual([expect.objectContaining({
+        content: 'We shipped the new editor today and it is fast\n\n#launch',
+        promptVersionId: 'ver-1',
+        replacedBy: 'shorter'
+      })])
+    })
+
+    it('should rewrite an output to fix its brand voice violations and store the new report', async () => {
+      const brandProfile = {
+        id: 'bv-1',
+        name: 'Acme',
+        description: 'Plain-spoken',
+        preferredWords: [],
+        avoidWords: ['fast'],
+        samplePosts: [],
+        emojiPolicy: 'sparing',
+        hashtagPolicy: 'platform',
+        hashtags: [],
+        disclaimers: ['Results may vary.']
+      }
+      const prompts: string[] = []
+      setMockResponder((prompt) => {
+        prompts.push(prompt)
+        return JSON.stringify({ text: 'We shipped the new editor today and it is quick. Results may vary.', hashtags: ['#launch'] })
+      })
+
+      await expect(contentRevisions.revise('user-1', 'content-1', 'rep-1', 'brand_fix')).rejects.toMatchObject({ statusCode: 400 })
+
+      const { output } = await contentRevisions.revise('user-1', 'content-1', 'rep-1', 'brand_fix', { brandProfile })
+
+      expect(prompts[0]).toContain('- Uses "fast", which the brand never uses')
+      expect(prompts[0]).toContain('- Missing the required disclaimer "Results may vary."')
+      expect(output.compliance).toMatchObject({ brandVoiceId: 'bv-1', score: 100, violations: [] })
+      expect(output.revisions).toEqual([expect.objectContaining({ replacedBy: 'brand_fix' })])
+    })
+
+    it('should enforce the team glossary on the revised text and store what it replaced', async () => {
+      setMockResponder(() => JSON.stringify({ text: 'The new editor is Fast', hashtags: ['#launch'] }))
+
+      const glossary = [{ id: 'term-1', preferred: 'quick', forbidden: ['fast'], caseSensitive: false }]
+      const { output, result } = await contentRevisions.revise('user-1', 'content-1', 'rep-1', 'shorter', { glossary })
+
+      expect(result.content).toBe('The new editor is quick\n\n#launch')
+      expect(output.structured).toEqual({ text: 'The new editor is quick', hashtags: ['#launch'] })
+      expect(output.glossary).toEqual([{ termId: 'term-1', from: 'Fast', to: 'quick', count: 1 }])
+    })
+
+    it('should mark translations outdated and keep a translation in its language', async () => {
+      const prompts: string[] = []
+      setMockResponder((prompt) => {
+        prompts.push(prompt)
+        return JSON.stringify({ text: 'Neuer Editor: schnell', hashtags: ['#launch'] })
+      })
+
+      await contentRevisions.revise('user-1', 'content-1', 'rep-1', 'shorter')
+      expect(mockedPrisma.repurposedContent.updateMany).toHaveBeenCalledWith({
+        where: { sourceId: 'rep-1' },
+        data: { translationStatus: 'outdated' }
+      })
+
+      mockedPrisma.repurposedContent.updateMany.mockClear()
+      mockedPrisma.repurposedContent.findFirst.mockResolvedValue(storedOutput({ id: 'rep-2', locale: 'de-DE', sourceId: 'rep-1' }))
+
+      await contentRevisions.revise('user-1', 'content-1', 'rep-2', 'shorter')
+      expect(prompts[1]).toContain('Keep it in German (Germany).')
+      expect(mockedPrisma.repurposedContent.updateMany).not.toHaveBeenCalled()
+      await expect(contentRevisions.revise('user-1', 'content-1', 'rep-2', 'regenerate')).rejects.toMatchObject({ statusCode: 400 })
+    })
+
+    it('should refuse outputs that belong to another user', async () => {
+      mockedPrisma.repurposedContent.findFirst.mockResolvedValue(null)
+
+      await expect(contentRevisions.revise('user-2', 'content-1', 'rep-1', 'regenerate')).rejects.toMatchObject({ statusCode: 404 })
+      expect(mockedPrisma.repurposedContent.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: 'rep-1', contentId: 'content-1', originalContent: { userId: 'user-2' } }
+      }))
+    })
+  })
+
+  describe('restore', () => {
+    it('should swap a revision back in and keep the current text in the history', async () => {
+      mockedPrisma.repurposedContent.findFirst.mockResolvedValue(storedOutput({
+        content: 'Shorter text',
+        structured: null,
+        revisions: [{ content: 'Original text', structured: null, promptVersionId: 'ver-1', replacedBy: 'shorter', replacedAt: '2026-01-01T00:00:00.000Z' }]
+      }))
+
+      const restored = await contentRevisions.restore('user-1', 'content-1', 'rep-1', 0)
+
+      expect(restored.content).toBe('Original text')
+      expect(restored.structured).toBe('DbNull')
+      expect(restored.revisions).toEqual([expect.objectContaining({ content: 'Shorter text', replacedBy: 'restore' })])
+    })
+  })
+})
@@ -0,0 +1,221 @@
+/**
+ * @jest-environment node
+ */
+import { prisma } from '@/lib/prisma'
+import { Errors } from '@/lib/error-handler'
+import { contentScheduler, resolveSchedule } from '../content-scheduler'
+import { duplicateDetector } from '../duplicate-detection'
+
+const mockedPrisma = prisma as any
+
+const NOW = new Date('2025-03-01T12:00:00Z')
+
+const scheduledPost = (overrides: Record<string, unknown> = {}) => ({
+  id: 'sched-1',
+  userId: 'user-1',
+  repurposedId: 'rep-1',
+  platform: 'linkedin',
+  clientId: null,
+  publishAt: new Date('2025-03-03T14:00:00Z'),
+  startsAt: new Date('2025-03-03T14:00:00Z'),
+  timezone: 'America/New_York',
+  recurrence: null,
+  status: 'scheduled',
+  occurrences: 0,
+  attempts: 0,
+  lastPublishedAt: null,
+  error: null,
+  repurposed: { contentId: 'content-1', content: 'Our new editor is out', structured: null, originalContent: { title: 'Editor launch' } },
+  ...overrides
+})
+
+describe('Content scheduler', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    jest.useFakeTimers({ now: NOW, doNotFake: ['nextTick', 'setImmediate'] })
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+    contentScheduler.setPublisher(null)
+    jest.spyOn(duplicateDetector, 'checkOutput').mockResolvedValue({ score: 0, level: 'original', matches: [], compared: 3 })
+    mockedPrisma.user.findUnique.mockResolvedValue({ teamId: null })
+    mockedPrisma.repurposedContent = {
+      findFirst: jest.fn().mockResolvedValue({ id: 'rep-1', platform: 'linkedin', originalContent: { clientId: null } })
+    }
+    mockedPrisma.connectedAccount = {
+      findMany: jest.fn().mockResolvedValue([{ id: 'acct-1', clientId: null }]),
+      findFirst: jest.fn().mockResolvedValue(null)
+    }
+    mockedPrisma.scheduledPost = {
+      findUnique: jest.fn().mockResolvedValue(null),
+      findFirst: jest.fn().mockResolvedValue(scheduledPost()),
+      findMany: jest.fn().mockResolvedValue([]),
+      upsert: jest.fn().mockImplementation(({ create }: any) => Promise.resolve(scheduledPost(create))),
+      update: jest.fn().mockResolvedValue({}),
+      updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      count: jest.fn().mockResolvedValue(2),
+      delete: jest.fn().mockResolvedValue({})
+    }
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('validates schedules before anything is generated', () => {
+    expect(resolveSchedule({ publishAt: '2025-03-03T14:00:00Z', timezone: 'Europe/Berlin', recurring: true }, NOW))
+      .toEqual({ publishAt: new Date('2025-03-03T14:00:00Z'), timezone: 'Europe/Berlin', recurrence: 'FREQ=WEEKLY' })
+    expect(() => resolveSchedule({ publishAt: '2025-02-01T00:00:00Z' }, NOW)).toThrow('in the future')
+    expect(() => resolveSchedule({ publishAt: 'tomorrow' }, NOW)).toThrow('must be a date and time')
+  })
+
+  it('schedules an output and warns about nearby posts on the channel and repeats', async () => {
+    mockedPrisma.scheduledPost.findMany.mockResolvedValue([
+      scheduledPost({ id: 'sched-2', repurposedId: 'rep-2', publishAt: new Date('2025-03-03T14:30:00Z') })
+    ])
+    jest.spyOn(duplicateDetector, 'checkOutput').mockResolvedValue({
+      score: 90,
+      level: 'duplicate',
+      matches: [{ title: 'Editor beta' } as any],
+      compared: 3
+    })
+
+    const result = await contentScheduler.schedule('user-1', 'content-1', 'rep-1', {
+      publishAt: '2025-03-03T14:00:00Z',
+      timezone: 'America/New_York',
+      recurringPattern: 'weekdays'
+    })
+
+    expect(mockedPrisma.scheduledPost.upsert).toHaveBeenCalledWith(expect.objectContaining({
+      where: { repurposedId: 'rep-1' },
+      create: expect.objectContaining({
+        userId: 'user-1',
+        platform: 'linkedin',
+        status: 'scheduled',
+        recurrence: 'FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR',
+        accountId: 'acct-1'
+      })
+    }))
+    expect(mockedPrisma.scheduledPost.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: expect.objectContaining({ userId: 'user-1', platform: 'linkedin', clientId: null })
+    }))
+    expect(result.conflicts).toEqual([expect.objectContaining({ scheduleId: 'sched-2', title: 'Editor launch', minutesApart: 30 })])
+    expect(result.repeats?.score).toBe(90)
+    expect(result.schedule.recurrenceLabel).toBe('Every week on Mon, Tue, Wed, Thu, Fri')
+  })
+
+  it('publishes through the account picked for the post, or leaves it to the user', async () => {
+    mockedPrisma.connectedAccount.findFirst.mockResolvedValue({ id: 'acct-2', platform: 'linkedin' })
+    await contentScheduler.schedule('user-1', 'content-1', 'rep-1', { publishAt: '2025-03-03T14:00:00Z', accountId: 'acct-2' })
+    expect(mockedPrisma.scheduledPost.upsert).toHaveBeenLastCalledWith(expect.objectContaining({
+      update: expect.objectContaining({ accountId: 'acct-2' })
+    }))
+
+    await contentScheduler.schedule('user-1', 'content-1', 'rep-1', { publishAt: '2025-03-03T14:00:00Z', accountId: null })
+    expect(mockedPrisma.scheduledPost.upsert).toHaveBeenLastCalledWith(expect.objectContaining({
+      update: expect.objectContaining({ accountId: null })
+    }))
+
+    mockedPrisma.connectedAccount.findFirst.mockResolvedValue({ id: 'acct-3', platform: 'twitter' })
+    await expect(contentScheduler.schedule('user-1', 'content-1', 'rep-1', { publishAt: '2025-03-03T14:00:00Z', accountId: 'acct-3' }))
+      .rejects.toThrow('not Linkedin')
+  })
+
+  it('rejects outputs the user does not own', async () => {
+    mockedPrisma.repurposedContent.findFirst.mockResolvedValue(null)
+
+    await expect(contentScheduler.schedule('user-2', 'content-1', 'rep-1', { publishAt: '2025-03-03T14:00:00Z' }))
+      .rejects.toThrow('not found')
+    expect(mockedPrisma.scheduledPost.upsert).not.toHaveBeenCalled()
+  })
+
+  it('moves a post by days keeping its local time', async () => {
+    await contentScheduler.reschedule('user-1', 'sched-1', { moveByDays: 7 })
+
+    expect(mockedPrisma.scheduledPost.upsert).toHaveBeenCalledWith(expect.objectContaining({
+      update: expect.objectContaining({ publishAt: new Date('2025-03-10T13:00:00Z'), timezone: 'America/New_York' })
+    }))
+  })
+
+  it('leaves due posts for the user when no publisher is set', async () => {
+    const summary = await contentScheduler.dispatchDue()
+
+    expect(mockedPrisma.scheduledPost.updateMany).toHaveBeenCalledWith({
+      where: { status: 'scheduled', publishAt: { lte: NOW } },
+      data: { status: 'due' }
+    })
+    expect(summary).toEqual(expect.objectContaining({ awaiting: 2, published: 0 }))
+  })
+
+  it('publishes due posts and moves recurring ones to their next occurrence', async () => {
+    const publish = jest.fn().mockResolvedValue({ externalId: 'post-1' })
+    contentScheduler.setPublisher({ publish })
+    mockedPrisma.scheduledPost.findMany.mockResolvedValue([
+      scheduledPost({ status: 'due', publishAt: new Date('2025-03-01T11:00:00Z'), startsAt: new Date('2025-02-22T11:00:00Z'), recurrence: 'FREQ=WEEKLY', timezone: 'UTC' }),
+      scheduledPost({ id: 'sched-2', status: 'due', publishAt: new Date('2025-03-01T11:30:00Z') })
+    ])
+
+    const summary = await contentScheduler.dispatchDue()
+
+    expect(mockedPrisma.scheduledPost.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { status: 'due', accountId: { not: null } }
+    }))
+    expect(publish).toHaveBeenCalledTimes(2)
+    expect(publish).toHaveBeenCalledWith(expect.objectContaining({ scheduleId: 'sched-1', content: 'Our new editor is out' }))
+    expect(mockedPrisma.scheduledPost.update).toHaveBeenCalledWith({
+      where: { id: 'sched-1' },
+      data: expect.objectContaining({ status: 'scheduled', publishAt: new Date('2025-03-08T11:00:00Z'), lastResult: { externalId: 'post-1' } })
+    })
+    expect(mockedPrisma.scheduledPost.update).toHaveBeenCalledWith({
+      where: { id: 'sched-2' },
+      data: expect.objectContaining({ status: 'published' })
+    })
+    expect(summary.published).toBe(2)
+  })
+
+  it('skips posts an overlapping run has already claimed', async () => {
+    const publish = jest.fn()
+    contentScheduler.setPublisher({ publish })
+    mockedPrisma.scheduledPost.findMany.mockResolvedValue([scheduledPost({ status: 'due' })])
+    mockedPrisma.scheduledPost.updateMany.mockResolvedValue({ count: 0 })
+
+    const summary = await contentScheduler.dispatchDue()
+
+    expect(publish).not.toHaveBeenCalled()
+    expect(summary.published).toBe(0)
+  })
+
+  it('retries failed publishes and gives up on ones that cannot succeed', async () => {
+    const publish = jest.fn()
+      .mockRejectedValueOnce(new Error('Platform timeout'))
+      .mockRejectedValueOnce(Errors.validation('Account disconnected'))
+    contentScheduler.setPublisher({ publish })
+    mockedPrisma.scheduledPost.findMany.mockResolvedValue([
+      scheduledPost({ status: 'due' }),
+      scheduledPost({ id: 'sched-2', status: 'due' })
+    ])
+
+    const summary = await contentScheduler.dispatchDue()
+
+    expect(summary).toEqual(expect.objectContaining({ retried: 1, failed: 1, published: 0 }))
+    expect(mockedPrisma.scheduledPost.update).toHaveBeenCalledWith({
+      where: { id: 'sched-1' },
+      data: expect.objectContaining({ status: 'due', attempts: 1, error: 'Platform timeout' })
+    })
+    expect(mockedPrisma.scheduledPost.update).toHaveBeenCalledWith({
+      where: { id: 'sched-2' },
+      data: expect.objectContaining({ status: 'failed', error: 'Account disconnected' })
+    })
+  })
+
+  it('lists every occurrence of recurring posts in the calendar range', async () => {
+    mockedPrisma.scheduledPost.findMany.mockResolvedValue([
+      scheduledPost({ recurrence: 'FREQ=WEEKLY', publishAt: new Date('2025-03-10T13:00:00Z') })
+    ])
+
+    const entries = await contentScheduler.listCalendar('user-1', new Date('2025-03-01'), new Date('2025-03-22'))
+
+    expect(entries.map(entry => [entry.occurrenceAt.toISOString(), entry.upcoming])).toEqual([
+      ['2025-03-10T13:00:00.000Z', true],
+      ['2025-03-17T13:00:00.000Z', false]
+    ])
+  })
+})
@@ -0,0 +1,142 @@
+/**
+ * @jest-environment node
+ */
+import { prisma } from '@/lib/prisma'
+import {
+  emailBrandingSchema,
+  emailDocumentFrom,
+  emailFileName,
+  renderEmail,
+  renderEml,
+  resolveEmailTheme
+} from '../email-renderer'
+import { emailOutputs } from '../email-outputs'
+import { publisherRegistry } from '../publishers'
+
+const mockedPrisma = prisma as any
+
+const newsletter = {
+  subject: 'March product update',
+  preheader: 'Three things we shipped',
+  sections: [
+    { heading: 'Faster editor', body: 'Loads **twice** as fast.\n\n- Instant search\n- Offline drafts' },
+    { heading: 'Read more', body: 'Details at https://example.com/blog/march.' }
+  ],
+  callToAction: 'Try it now: https://example.com/start'
+}
+
+const brandTheme = () => resolveEmailTheme({ logo: 'https://cdn.example.com/logo.png', colors: ['#FF5A1F', '#FAFAFA'], fonts: ['Inter'] }, 'Acme')
+
+describe('Email rendering', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockedPrisma.user.findUnique.mockResolvedValue({ team: { name: 'Acme', branding: { colors: ['#FF5A1F'], fonts: [] } } })
+    mockedPrisma.repurposedContent = {
+      findFirst: jest.fn().mockResolvedValue({
+        id: 'rep-1',
+        platform: 'newsletter',
+        content: 'Subject: March product update',
+        structured: newsletter,
+        locale: 'de-DE'
+      })
+    }
+  })
+
+  it('renders responsive HTML with the brand logo, colors and font', () => {
+    const { html, mjml } = renderEmail(emailDocumentFrom('newsletter', '', newsletter), brandTheme())
+
+    expect(html).toContain('<img src="https://cdn.example.com/logo.png" width="160" alt="Acme"')
+    expect(html).toContain('bgcolor="#FF5A1F"')
+    expect(html).toContain('background-color:#FAFAFA')
+    expect(html).toContain("font-family:'Inter', Helvetica, Arial, sans-serif")
+    expect(html).toContain('@media only screen and (max-width: 620px)')
+    expect(html).toContain('Three things we shipped')
+    expect(html).toContain('<strong>twice</strong>')
+    expect(html).toContain('<ul style=')
+    expect(html).toContain('<a href="https://example.com/blog/march" style=')
+    expect(html).toContain('>Try it now</a>')
+    expect(mjml).toContain('<mj-preview>Three things we shipped</mj-preview>')
+    expect(mjml).toContain('<mj-button href="https://example.com/start" align="left">Try it now</mj-button>')
+  })
+
+  it('escapes output text and drops branding that is unsafe to render', () => {
+    const theme = resolveEmailTheme({ logo: 'javascript:alert(1)', colors: ['red;background:url(x)'], fonts: ['Inter;}'] })
+    const { html } = renderEmail(emailDocumentFrom('email', 'Subject: <b>Hi</b>\n\nA <script>alert(1)</script> body'), theme)
+
+    expect(theme).toEqual(expect.objectContaining({ logo: null, primaryColor: '#4F46E5', fontFamily: 'Helvetica, Arial, sans-serif' }))
+    expect(html).not.toContain('<script>')
+    expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;')
+    expect(html).toContain('<title>&lt;b&gt;Hi&lt;/b&gt;</title>')
+    expect(emailBrandingSchema.safeParse({ logo: 'http://example.com/logo.png' }).success).toBe(false)
+    expect(emailBrandingSchema.safeParse({ colors: ['#ff5a1f'], fonts: ['Open Sans'] }).success).toBe(true)
+  })
+
+  it('reads plain outputs with subject, preheader and ## sections', () => {
+    const document = emailDocumentFrom('newsletter', 'Subject: Weekly digest\nPreheader: The best of the week\n\nHello readers\n\n## Launch\nWe shipped it\n\n## Hiring\nJoin us')
+
+    expect(document).toEqual(expect.objectContaining({
+      subject: 'Weekly digest',
+      preheader: 'The best of the week',
+      sections: [{ body: 'Hello readers' }, { heading: 'Launch', body: 'We shipped it' }, { heading: 'Hiring', body: 'Join us' }]
+    }))
+  })
+
+  it('builds a plain-text alternate and a multipart .eml draft', () => {
+    const rendered = renderEmail(emailDocumentFrom('newsletter', '', { ...newsletter, subject: 'Neuigkeiten für März' }), brandTheme())
+    const eml = renderEml(rendered, { from: 'team@example.com', date: new Date('2025-03-03T14:00:00Z'), boundary: 'b1' })
+
+    expect(rendered.text).toBe(
+      'Faster editor\n-------------\n\nLoads twice as fast.\n\n- Instant search\n- Offline drafts\n\n' +
+      'Read more\n---------\n\nDetails at https://example.com/blog/march.\n\nTry it now: https://example.com/start\n'
+    )
+    expect(eml).toContain('Subject: =?UTF-8?B?')
+    expect(eml).toContain('Date: Mon, 03 Mar 2025 14:00:00 +0000\r\n')
+    expect(eml).toContain('X-Unsent: 1\r\nContent-Type: multipart/alternative; boundary="b1"')
+    expect(eml.split('--b1\r\nContent-Type: ').map(part => part.split(';')[0])).toEqual([expect.any(String), 'text/plain', 'text/html'])
+    expect(eml.trimEnd().endsWith('--b1--')).toBe(true)
+
+    const html = eml.split('Content-Transfer-Encoding: base64\r\n\r\n')[2]!.split('\r\n--b1')[0]!
+    expect(Buffer.from(html.replace(/\r\n/g, ''), 'base64').toString()).toBe(rendered.html)
+    expect(emailFileName('Neuigkeiten für März', 'eml')).toBe('neuigkeiten-fur-marz.eml')
+  })
+
+  it("renders the user's output with their team's branding and locale", async () => {
+    const rendered = await emailOutputs.render('user-1', 'content-1', 'rep-1')
+
+    expect(mockedPrisma.repurposedContent.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: 'rep-1', contentId: 'content-1', originalContent: { userId: 'user-1' } }
+    }))
+    expect(rendered.theme).toEqual(expect.objectContaining({ name: 'Acme', primaryColor: '#FF5A1F', logo: null }))
+    expect(rendered.html).toContain('<html lang="de-DE"')
+    expect(rendered.html).toContain('>Acme</span>')
+  })
+
+  it('only renders email and newsletter outputs', async () => {
+    mockedPrisma.repurposedContent.findFirst.mockResolvedValue({ id: 'rep-2', platform: 'twitter', content: 'Hi', structured: null, locale: null })
+
+    await expect(emailOutputs.render('user-1', 'content-1', 'rep-2')).rejects.toThrow("can't be rendered as emails")
+  })
+
+  it('sends Mailchimp campaigns the branded HTML and text', () => {
+    const payload = publisherRegistry.mapperFor('newsletter')!.buildPayload!(
+      {
+        scheduleId: 'sched-1',
+        userId: 'user-1',
+        repurposedId: 'rep-1',
+        contentId: 'content-1',
+        platform: 'newsletter',
+        clientId: null,
+        accountId: 'acct-1',
+        content: '',
+        structured: newsletter,
+        publishAt: new Date('2025-03-03T14:00:00Z')
+      } as any,
+      { id: 'acct-1', platform: 'newsletter', externalId: 'list-1', name: 'Audience', settings: { fromName: 'Acme', replyTo: 'hi@example.com' } },
+      { emailTheme: brandTheme() }
+    ) as any
+
+    expect(payload.campaign.settings).toEqual(expect.objectContaining({ subject_line: 'March product update', preview_text: 'Three things we shipped' }))
+    expect(payload.content.html).toContain('bgcolor="#FF5A1F"')
+    expect(payload.content.plain_text).toContain('Try it now: https://example.com/start')
+  })
+})
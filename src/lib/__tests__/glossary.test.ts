@@ -0,0 +1,119 @@
+/**
+ * @jest-environment node
+ */
+import { prisma } from '@/lib/prisma'
+import { applyGlossary, applyGlossaryToOutput, formatGlossary, glossaries, glossaryTermInputSchema } from '../glossary'
+
+const mockedPrisma = prisma as any
+
+const terms = [
+  { id: 'term-1', preferred: 'iPhone', forbidden: ['I-Phone'], caseSensitive: true, note: null },
+  { id: 'term-2', preferred: 'Acme Cloud', forbidden: ['Acme'], caseSensitive: false, note: null },
+  { id: 'term-3', preferred: null, forbidden: ['guaranteed returns', 'risk-free'], caseSensitive: false, note: 'Regulator requirement' }
+]
+
+describe('Glossary', () => {
+  describe('applyGlossary', () => {
+    it('should replace forbidden variants and fix the case of exact-spelling terms', () => {
+      const result = applyGlossary('Get the new IPHONE or an I-Phone today. Also works with iphones.', terms)
+
+      expect(result.text).toBe('Get the new iPhone or an iPhone today. Also works with iphones.')
+      expect(result.replacements).toEqual([
+        { termId: 'term-1', from: 'IPHONE', to: 'iPhone', count: 1 },
+        { termId: 'term-1', from: 'I-Phone', to: 'iPhone', count: 1 }
+      ])
+    })
+
+    it('should only match forbidden variants of case-sensitive terms as written', () => {
+      const usTerm = { id: 'term-4', preferred: 'United States', forbidden: ['US'], caseSensitive: true, note: null }
+      const result = applyGlossary('Contact us today about US growth', [usTerm])
+
+      expect(result.text).toBe('Contact us today about United States growth')
+      expect(result.replacements).toEqual([{ termId: 'term-4', from: 'US', to: 'United States', count: 1 }])
+    })
+
+    it('should keep a preferred term whole before a forbidden variant inside it can match', () => {
+      const result = applyGlossary('Acme Cloud is here. acme cloud again, and plain Acme twice: Acme.', terms)
+
+      expect(result.text).toBe('Acme Cloud is here. acme cloud again, and plain Acme Cloud twice: Acme Cloud.')
+      expect(result.replacements).toEqual([{ termId: 'term-2', from: 'Acme', to: 'Acme Cloud', count: 2 }])
+    })
+
+    it('should remove forbidden terms without a preferred one and tidy the gaps', () => {
+      const result = applyGlossary('Enjoy Guaranteed  returns , totally risk-free!\nRisk-free investing', terms)
+
+      expect(result.text).toBe('Enjoy, totally!\ninvesting')
+      expect(result.replacements).toEqual([
+        { termId: 'term-3', from: 'Guaranteed  returns', to: null, count: 1 },
+        { termId: 'term-3', from: 'risk-free', to: null, count: 1 },
+        { termId: 'term-3', from: 'Risk-free', to: null, count: 1 }
+      ])
+    })
+
+    it('should leave text alone when there is no glossary', () => {
+      expect(applyGlossary('Guaranteed returns', [])).toEqual({ text: 'Guaranteed returns', replacements: [] })
+    })
+  })
+
+  describe('applyGlossaryToOutput', () => {
+    it('should fix each structured part and render the output again', () => {
+      const output = applyGlossaryToOutput('twitter', {
+        content: 'The I-Phone is risk-free\n\n#acme',
+        structured: { text: 'The I-Phone is risk-free', hashtags: ['#acme'] },
+        characterCount: 30
+      }, terms)
+
+      expect(output.structured).toEqual({ text: 'The iPhone is', hashtags: ['#acme'] })
+      expect(output.content).toBe('The iPhone is\n\n#acme')
+      expect(output.characterCount).toBe(output.content.length)
+      expect(output.glossary).toEqual([
+        expect.objectContaining({ from: 'I-Phone', to: 'iPhone' }),
+        expect.objectContaining({ from: 'risk-free', to: null })
+      ])
+    })
+
+    it('should return the output unchanged when nothing was replaced', () => {
+      const output = { content: 'Nothing to fix', characterCount: 14 }
+      expect(applyGlossaryToOutput('linkedin', output, terms)).toBe(output)
+    })
+  })
+
+  it('should write the glossary into prompt instructions', () => {
+    expect(formatGlossary(terms)?.split('\n')).toEqual([
+      'Glossary - these terms are mandatory:',
+      '- Write "iPhone" exactly as shown, never "I-Phone"',
+      '- Use "Acme Cloud", never "Acme"',
+      '- Never use "guaranteed returns", "risk-free" (Regulator requirement)'
+    ])
+    expect(formatGlossary([])).toBeUndefined()
+  })
+
+  it('should reject terms with nothing to enforce or a variant that is the preferred term', () => {
+    expect(glossaryTermInputSchema.safeParse({ note: 'Empty' }).success).toBe(false)
+    expect(glossaryTermInputSchema.safeParse({ preferred: 'Acme', forbidden: ['ACME'] }).success).toBe(false)
+    expect(glossaryTermInputSchema.safeParse({ preferred: 'Acme', forbidden: ['ACME'], caseSensitive: true }).success).toBe(true)
+  })
+
+  describe('GlossaryManager', () => {
+    beforeEach(() => {
+      mockedPrisma.glossaryTerm = {
+        count: jest.fn().mockResolvedValue(3),
+        findMany: jest.fn().mockResolvedValue(terms),
+        create: jest.fn(({ data }: any) => Promise.resolve({ id: 'term-4', ...data }))
+      }
+    })
+
+    it('should refuse a phrase another term already covers', async () => {
+      await expect(glossaries.create('team-1', 'user-1', { preferred: 'Safe', forbidden: ['Risk-Free'], caseSensitive: false }))
+        .rejects.toMatchObject({ statusCode: 400, message: '"Risk-Free" is already in the glossary' })
+
+      const term = await glossaries.create('team-1', 'user-1', { preferred: 'Savings', forbidden: ['savings account'], caseSensitive: false })
+      expect(term).toMatchObject({ teamId: 'team-1', createdById: 'user-1', preferred: 'Savings' })
+    })
+
+    it('should have no glossary for users outside a team', async () => {
+      expect(await glossaries.forTeam(null)).toEqual([])
+      expect(mockedPrisma.glossaryTerm.findMany).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,246 @@
+/**
+ * @jest-environment node
+ */
+import { readFileSync } from 'fs'
+import { join } from 'path'
+import http from 'http'
+import { Readable } from 'stream'
+import { AppError } from '../error-handler'
+import { detectFormat, ingestFile, ingestUrl, SourceFetcher, SourceResolver } from '../ingestion'
+import { PLAN_CONTENT_LIMITS } from '../subscription'
+
+jest.unmock('../subscription')
+
+const fixture = (name: string) => readFileSync(join(__dirname, 'fixtures', 'ingestion', name))
+
+const page = (body: string | Buffer, init: ResponseInit = {}) =>
+  new Response(body, { status: 200, headers: { 'content-type': 'text/html; charset=utf-8' }, ...init })
+
+// Every hostname resolves to one public address unless a test says otherwise
+const resolver: SourceResolver = async () => [{ address: '93.184.216.34', family: 4 }]
+
+describe('Source ingestion', () => {
+  describe('detectFormat', () => {
+    it('should prefer magic bytes over a misleading extension', () => {
+      expect(detectFormat({ data: fixture('sample.pdf'), fileName: 'report.txt' })).toBe('pdf')
+      expect(detectFormat({ data: fixture('talk.vtt'), fileName: 'captions.txt' })).toBe('vtt')
+    })
+
+    it('should fall back to the extension, then the MIME type', () => {
+      expect(detectFormat({ data: fixture('notes.md'), fileName: 'notes.md' })).toBe('markdown')
+      expect(detectFormat({ data: fixture('sample.docx') })).toBe('docx')
+      expect(detectFormat({ data: Buffer.from('hello'), mimeType: 'text/plain; charset=utf-8' })).toBe('text')
+      expect(detectFormat({ data: Buffer.from('\x00\x01binary'), fileName: 'image.png' })).toBeUndefined()
+    })
+  })
+
+  describe('ingestFile', () => {
+    it('should extract an HTML article without page chrome, scripts or comments', () => {
+      const source = ingestFile({ data: fixture('article.html'), fileName: 'article.html' }, { plan: 'pro' })
+
+      expect(source.format).toBe('html')
+      expect(source.contentType).toBe('article')
+      expect(source.title).toBe('Five Habits of Effective Writers')
+      expect(source.author).toBe('Priya Natarajan')
+      expect(source.headings).toEqual([
+        { level: 1, text: 'Five Habits of Effective Writers' },
+        { level: 2, text: '1. Write every day' },
+        { level: 2, text: '2. Edit ruthlessly' }
+      ])
+      expect(source.text).toContain('Great writing isn’t magic — it\'s practice.')
+      expect(source.text).toContain('- Cut filler words\n- Prefer short sentences')
+      expect(source.text).not.toMatch(/Subscribe|Home|analytics|inline ad|editor note|2024 The Content Blog/)
+      expect(source.wordCount).toBeGreaterThan(10)
+      expect(source.characterCount).toBe(source.text.length)
+    })
+
+    it('should take Markdown title and author from front matter and strip formatting', () => {
+      const source = ingestFile({ data: fixture('notes.md'), fileName: 'notes.md' }, { plan: 'basic' })
+
+      expect(source.title).toBe('Launch Notes')
+      expect(source.author).toBe('Alex Morgan')
+      expect(source.contentType).toBe('blog')
+      expect(source.headings).toEqual([
+        { level: 1, text: 'Launching the Beta' },
+        { level: 2, text: 'Highlights' }
+      ])
+      expect(source.text).toContain('We shipped three features and fixed a dozen bugs.')
+      expect(source.text).toContain('- Faster exports\n- Dark mode for everyone')
+      expect(source.text).toContain('const done = true;')
+      expect(source.text).toContain('Customers asked for this for months.')
+      expect(source.text).not.toContain('---')
+    })
+
+    it('should turn SRT captions into transcript paragraphs', () => {
+      const source = ingestFile({ data: fixture('talk.srt'), fileName: 'talk.srt' }, { plan: 'free' })
+
+      expect(source.format).toBe('srt')
+      expect(source.contentType).toBe('video_transcript')
+      // The repeated cue is merged and the 3.5s pause starts a new paragraph
+      expect(source.text).toBe('Welcome back to the show. Today we talk pricing.\n\nFirst, know your costs & margins.')
+    })
+
+    it('should drop WebVTT headers and blocks and keep speaker names', () => {
+      const source = ingestFile({ data: fixture('talk.vtt'), fileName: 'talk.vtt' }, { plan: 'free' })
+
+      expect(source.text).toBe('Maria: Thanks for joining us. Devon: Happy to be here.\n\nLet\'s dive in.')
+    })
+
+    it('should read paragraphs, headings and properties from a Word document', () => {
+      const source = ingestFile({ data: fixture('sample.docx'), fileName: 'sample.docx' }, { plan: 'pro' })
+
+      expect(source.format).toBe('docx')
+      expect(source.title).toBe('Growth Playbook Q3')
+      expect(source.author).toBe('Jordan Lee')
+      expect(source.headings).toEqual([
+        { level: 1, text: 'Quarterly Growth Playbook' },
+        { level: 2, text: 'What worked' }
+      ])
+      expect(source.text).toBe([
+        'Quarterly Growth Playbook',
+        'Our team tested three channels & measured results.',
+        'What worked',
+        '- Weekly newsletters',
+        '- Short video clips',
+        'Line one\nline two'
+      ].join('\n\n'))
+    })
+
+    it('should read the text layer and document info from a PDF', () => {
+      const source = ingestFile({ data: fixture('sample.pdf'), fileName: 'sample.pdf' }, { plan: 'pro' })
+
+      expect(source.format).toBe('pdf')
+      expect(source.title).toBe('Remote Work Report 2024')
+      expect(source.author).toBe('Sam Rivera')
+      expect(source.text).toBe([
+        'Remote Work Report',
+        'Teams that write things down ship faster.',
+        'Async updates (not meetings) keep everyone aligned.',
+        'Hybrid schedules work best.'
+      ].join('\n'))
+    })
+
+    it('should reject uploads larger than the plan allows', () => {
+      const data = Buffer.alloc(PLAN_CONTENT_LIMITS.free.uploadBytes + 1, 'a')
+
+      expect(() => ingestFile({ data, fileName: 'big.txt' }, { plan: 'free' })).toThrow(
+        expect.objectContaining({ statusCode: 413 })
+      )
+      expect(() => ingestFile({ data, fileName: 'big.txt' }, { plan: 'basic' })).toThrow(
+        expect.objectContaining({ statusCode: 413, message: expect.stringContaining('characters') })
+      )
+    })
+
+    it('should reject extracted text beyond the plan content limit', () => {
+      const data = Buffer.from('word '.repeat(PLAN_CONTENT_LIMITS.free.contentChars))
+
+      expect(() => ingestFile({ data, fileName: 'notes.txt' }, { plan: 'free' })).toThrow(
+        expect.objectContaining({ statusCode: 413 })
+      )
+      expect(ingestFile({ data, fileName: 'notes.txt' }, { plan: 'pro' }).wordCount).toBe(PLAN_CONTENT_LIMITS.free.contentChars)
+    })
+
+    it('should reject unsupported and empty files', () => {
+      expect(() => ingestFile({ data: Buffer.from('\x00\x01'), fileName: 'image.png' }, { plan: 'pro' })).toThrow(AppError)
+      expect(() => ingestFile({ data: Buffer.from('WEBVTT\n\n'), fileName: 'empty.vtt' }, { plan: 'pro' })).toThrow(
+        'No caption cues were found in this file'
+      )
+      expect(() => ingestFile({ data: Buffer.from('PK\x03\x04 not really a zip'), fileName: 'broken.docx' }, { plan: 'pro' })).toThrow(
+        expect.objectContaining({ statusCode: 400 })
+      )
+    })
+  })
+
+  describe('ingestUrl', () => {
+    it('should fetch an article through the supplied fetcher', async () => {
+      const fetcher: SourceFetcher = jest.fn(async () => page(fixture('article.html')))
+
+      const source = await ingestUrl('https://blog.example.com/habits', { plan: 'pro', resolver, fetcher })
+
+      expect(fetcher).toHaveBeenCalledWith('https://blog.example.com/habits', expect.objectContaining({ redirect: 'manual', address: '93.184.216.34' }))
+      expect(source.sourceUrl).toBe('https://blog.example.com/habits')
+      expect(source.title).toBe('Five Habits of Effective Writers')
+      expect(source.contentType).toBe('article')
+    })
+
+    it('should follow redirects but check every hop', async () => {
+      const fetcher = jest.fn<ReturnType<SourceFetcher>, Parameters<SourceFetcher>>()
+        .mockResolvedValueOnce(new Response(null, { status: 301, headers: { location: '/posts/habits' } }))
+        .mockResolvedValueOnce(page(fixture('article.html')))
+
+      const source = await ingestUrl('http://example.com/habits', { plan: 'pro', resolver, fetcher })
+      expect(source.sourceUrl).toBe('http://example.com/posts/habits')
+
+      const internal: SourceFetcher = jest.fn(async () => new Response(null, { status: 302, headers: { location: 'http://169.254.169.254/latest' } }))
+      await expect(ingestUrl('https://example.com/go', { plan: 'pro', resolver, fetcher: internal })).rejects.toThrow('private or local')
+    })
+
+    it('should refuse private, local and non-http URLs without fetching', async () => {
+      const fetcher: SourceFetcher = jest.fn()
+
+      for (const url of ['http://localhost:3000/admin', 'http://10.0.0.5/', 'http://[::1]/', 'ftp://example.com/file', 'not a url']) {
+        await expect(ingestUrl(url, { plan: 'pro', resolver, fetcher })).rejects.toMatchObject({ statusCode: 400 })
+      }
+      expect(fetcher).not.toHaveBeenCalled()
+    })
+
+    it('should refuse hosts that resolve to any private address', async () => {
+      const fetcher: SourceFetcher = jest.fn()
+      const rebinding: SourceResolver = async () => [{ address: '93.184.216.34', family: 4 }, { address: '10.0.0.5', family: 4 }]
+
+      await expect(ingestUrl('https://blog.example.com/habits', { plan: 'pro', resolver: rebinding, fetcher }))
+        .rejects.toMatchObject({ statusCode: 400, message: 'URLs pointing at private or local addresses cannot be imported' })
+      await expect(ingestUrl('https://nowhere.example/habits', { plan: 'pro', resolver: async () => [], fetcher }))
+        .rejects.toMatchObject({ statusCode: 502 })
+      expect(fetcher).not.toHaveBeenCalled()
+    })
+
+    it('should resolve and check the host of every redirect', async () => {
+      const splitHorizon: SourceResolver = async (hostname) =>
+        [{ address: hostname === 'intranet.example.com' ? '192.168.1.20' : '93.184.216.34', family: 4 }]
+      const fetcher = jest.fn<ReturnType<SourceFetcher>, Parameters<SourceFetcher>>()
+        .mockResolvedValueOnce(new Response(null, { status: 302, headers: { location: 'https://intranet.example.com/wiki' } }))
+
+      await expect(ingestUrl('https://example.com/go', { plan: 'pro', resolver: splitHorizon, fetcher })).rejects.toThrow('private or local')
+      expect(fetcher).toHaveBeenCalledTimes(1)
+    })
+
+    it('should connect to the checked address instead of resolving the host again', async () => {
+      let connectedTo: unknown
+      const fakeRequest = (url: URL, options: http.RequestOptions, onResponse: (response: http.IncomingMessage) => void) => {
+        options.lookup?.(url.hostname, {}, (_error, address) => { connectedTo = address })
+        onResponse(Object.assign(Readable.from([fixture('article.html')]), {
+          statusCode: 200,
+          headers: { 'content-type': 'text/html; charset=utf-8' }
+        }) as unknown as http.IncomingMessage)
+        return { on: jest.fn(), end: jest.fn() } as unknown as http.ClientRequest
+      }
+      const request = jest.spyOn(http, 'request').mockImplementation(fakeRequest as unknown as typeof http.request)
+
+      try {
+        const source = await ingestUrl('http://blog.example.com/habits', { plan: 'pro', resolver })
+        expect(source.title).toBe('Five Habits of Effective Writers')
+        expect(request.mock.calls[0]![1]).toMatchObject({ headers: { Accept: expect.any(String) } })
+        expect(connectedTo).toBe('93.184.216.34')
+      } finally {
+        request.mockRestore()
+      }
+    })
+
+    it('should surface upstream failures and oversized pages', async () => {
+      const notFound: SourceFetcher = async () => page('missing', { status: 404 })
+      await expect(ingestUrl('https://example.com/gone', { plan: 'pro', resolver, fetcher: notFound })).rejects.toMatchObject({ statusCode: 502 })
+
+      const huge: SourceFetcher = async () => page(Buffer.alloc(PLAN_CONTENT_LIMITS.free.uploadBytes + 10, 'a'))
+      await expect(ingestUrl('https://example.com/huge', { plan: 'free', resolver, fetcher: huge })).rejects.toMatchObject({ statusCode: 413 })
+    })
+
+    it('should treat a direct link to a document like an upload', async () => {
+      const fetcher: SourceFetcher = async () => page(fixture('sample.pdf'), { headers: { 'content-type': 'application/pdf' } })
+
+      const source = await ingestUrl('https://example.com/files/report.pdf', { plan: 'pro', resolver, fetcher })
+      expect(source.format).toBe('pdf')
+      expect(source.contentType).toBe('general')
+    })
+  })
+})
@@ -0,0 +1,351 @@
+/**
+ * @jest-environment node
+ */
+import { prisma } from '@/lib/prisma'
+import { aiService } from '@/lib/ai-service'
+import { Errors } from '../error-handler'
+import { jobQueue, retryDelayMs, JobCancelledError, QueuedJob } from '../job-queue'
+import { JOB_QUEUE } from '../config'
+import '../job-handlers'
+
+jest.unmock('../subscription')
+// The real tracker starts a flush interval on import that would keep Jest from exiting
+jest.mock('@/lib/analytics-tracker', () => ({
+  analyticsTracker: { trackEvent: jest.fn(), trackContentRepurpose: jest.fn(), trackContentOutcome: jest.fn() }
+}))
+jest.mock('../ai-service', () => ({
+  aiService: { repurposeContent: jest.fn(), repurposeContentStream: jest.fn() }
+}))
+jest.mock('../repurpose-persistence', () => ({
+  saveRepurposeResults: jest.fn()
+}))
+
+const mockedPrisma = prisma as any
+const mockedAiService = aiService as any
+
+const queuedJob = (overrides: Partial<QueuedJob> = {}): QueuedJob => ({
+  id: 'job-1',
+  userId: 'user-1',
+  type: 'bulk-repurpose',
+  status: 'running',
+  payload: { ids: ['content-1', 'content-2'], platforms: ['twitter', 'linkedin'] },
+  result: null,
+  progress: null,
+  error: null,
+  attempts: 1,
+  maxAttempts: 3,
+  runAfter: new Date(),
+  lockedAt: new Date(),
+  lockedBy: 'worker-1',
+  cancelRequested: false,
+  startedAt: new Date(),
+  finishedAt: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides
+})
+
+describe('Job queue', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+    ;(jest.requireMock('@/lib/prisma') as any).Prisma = { DbNull: 'DbNull' }
+    mockedPrisma.job = {
+      count: jest.fn().mockResolvedValue(0),
+      create: jest.fn(({ data }: any) => Promise.resolve(queuedJob({ ...data, status: 'queued', attempts: 0 }))),
+      findFirst: jest.fn().mockResolvedValue(queuedJob({ status: 'queued' })),
+      findUnique: jest.fn().mockResolvedValue({ cancelRequested: false }),
+      update: jest.fn().mockResolvedValue({}),
+      updateMany: jest.fn().mockResolvedValue({ count: 1 })
+    }
+    mockedPrisma.repurposedContent = { create: jest.fn(({ data }: any) => Promise.resolve({ id: `rep-${data.contentId}-${data.platform}` })) }
+    mockedPrisma.$transaction = jest.fn((fn: any) => fn(mockedPrisma))
+    mockedPrisma.$executeRawUnsafe = jest.fn().mockResolvedValue(0)
+  })
+
+  afterEach(() => {
+    delete mockedPrisma.job
+    delete mockedPrisma.repurposedContent
+    delete mockedPrisma.$transaction
+    delete mockedPrisma.$executeRawUnsafe
+    delete mockedPrisma.glossaryTerm
+  })
+
+  describe('enqueue', () => {
+    it('should reject job types without a handler', async () => {
+      await expect(jobQueue.enqueue('user-1', 'pro', 'translate', {})).rejects.toMatchObject({ statusCode: 400 })
+      expect(mockedPrisma.job.create).not.toHaveBeenCalled()
+    })
+
+    it('should cap how many jobs a plan can have waiting', async () => {
+      mockedPrisma.job.count.mockResolvedValue(4)
+
+      await expect(jobQueue.enqueue('user-1', 'free', 'generate', { keywords: 'ai' })).rejects.toMatchObject({ statusCode: 429 })
+      await expect(jobQueue.enqueue('user-1', 'agency', 'generate', { keywords: 'ai' })).resolves.toMatchObject({ status: 'queued' })
+    })
+
+    it('should count and create under the user\'s lock in one transaction', async () => {
+      await jobQueue.enqueue('user-1', 'pro', 'generate', { keywords: 'ai' })
+
+      expect(mockedPrisma.$transaction).toHaveBeenCalledTimes(1)
+      expect(mockedPrisma.$executeRawUnsafe).toHaveBeenCalledWith(expect.stringContaining('pg_advisory_xact_lock'), 'user-1')
+      expect(mockedPrisma.$executeRawUnsafe.mock.invocationCallOrder[0]).toBeLessThan(mockedPrisma.job.count.mock.invocationCallOrder[0])
+    })
+  })
+
+  describe('claimNext', () => {
+    it('should claim under an advisory lock with each plan\'s running limit', async () => {
+      mockedPrisma.$queryRawUnsafe.mockResolvedValue([queuedJob()])
+
+      const job = await jobQueue.claimNext('worker-1')
+
+      expect(job?.id).toBe('job-1')
+      expect(mockedPrisma.$executeRawUnsafe).toHaveBeenCalledWith(expect.stringContaining('pg_advisory_xact_lock'))
+      const [sql, ...params] = mockedPrisma.$queryRawUnsafe.mock.calls[0]
+      expect(sql).toContain('FOR UPDATE OF j SKIP LOCKED')
+      expect(params).toEqual(['worker-1', 'free', 1, 'basic', 1, 'pro', 2, 'agency', 4])
+    })
+  })
+
+  describe('runJob', () => {
+    it('should put failed attempts back on the queue with backoff', async () => {
+      jobQueue.registerHandler('test-flaky', async () => { throw new Error('provider timeout') })
+
+      const status = await jobQueue.runJob(queuedJob({ type: 'test-flaky', attempts: 2 }))
+
+      expect(status).toBe('queued')
+      const { data } = mockedPrisma.job.updateMany.mock.calls[0][0]
+      expect(data).toMatchObject({ status: 'queued', error: 'provider timeout', lockedBy: null })
+      expect(data.runAfter.getTime()).toBeGreaterThan(Date.now() + retryDelayMs(2) - 1000)
+    })
+
+    it('should fail straight away on client errors and on the last attempt', async () => {
+      jobQueue.registerHandler('test-invalid', async () => { throw Errors.validation('bad input') })
+      jobQueue.registerHandler('test-flaky', async () => { throw new Error('provider timeout') })
+
+      expect(await jobQueue.runJob(queuedJob({ type: 'test-invalid', attempts: 1 }))).toBe('failed')
+      expect(await jobQueue.runJob(queuedJob({ type: 'test-flaky', attempts: 3 }))).toBe('failed')
+    })
+
+    it('should clear the result column when a handler returns nothing', async () => {
+      jobQueue.registerHandler('test-void', async () => undefined)
+
+      expect(await jobQueue.runJob(queuedJob({ type: 'test-void' }))).toBe('succeeded')
+      expect(mockedPrisma.job.updateMany).toHaveBeenCalledTimes(1)
+      expect(mockedPrisma.job.updateMany.mock.calls[0][0].data).toMatchObject({ status: 'succeeded', result: 'DbNull' })
+    })
+
+    it('should only write to jobs this worker still holds', async () => {
+      jobQueue.registerHandler('test-void', async () => undefined)
+      mockedPrisma.job.updateMany.mockResolvedValue({ count: 0 })
+
+      expect(await jobQueue.runJob(queuedJob({ type: 'test-void' }))).toBe('lost')
+      expect(mockedPrisma.job.updateMany.mock.calls[0][0].where).toEqual({ id: 'job-1', status: 'running', lockedBy: 'worker-1' })
+    })
+
+    it('should record cancellation separately from failure', async () => {
+      jobQueue.registerHandler('test-cancelled', async () => { throw new JobCancelledError() })
+
+      expect(await jobQueue.runJob(queuedJob({ type: 'test-cancelled' }))).toBe('cancelled')
+      expect(mockedPrisma.job.updateMany.mock.calls[0][0].data).toMatchObject({ status: 'cancelled' })
+    })
+  })
+
+  describe('retry', () => {
+    it('should queue a failed job again with its attempts and result reset', async () => {
+      mockedPrisma.job.findFirst.mockResolvedValue(queuedJob({ status: 'failed', attempts: 3, error: 'provider timeout' }))
+
+      await jobQueue.retry('user-1', 'job-1', 'pro')
+
+      expect(mockedPrisma.job.update).toHaveBeenCalledWith({
+        where: { id: 'job-1' },
+        data: expect.objectContaining({ status: 'queued', attempts: 0, error: null, result: 'DbNull', finishedAt: null })
+      })
+    })
+
+    it('should only retry failed or cancelled jobs', async () => {
+      await expect(jobQueue.retry('user-1', 'job-1', 'pro')).rejects.toMatchObject({ statusCode: 400 })
+      expect(mockedPrisma.job.update).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('cancel', () => {
+    it('should cancel queued jobs and flag running ones', async () => {
+      await jobQueue.cancel('user-1', 'job-1')
+      expect(mockedPrisma.job.updateMany).toHaveBeenCalledWith({
+        where: { id: 'job-1', status: 'queued' },
+        data: expect.objectContaining({ status: 'cancelled' })
+      })
+
+      mockedPrisma.job.updateMany.mockClear()
+      mockedPrisma.job.findFirst.mockResolvedValue(queuedJob({ status: 'running' }))
+      await jobQueue.cancel('user-1', 'job-1')
+      expect(mockedPrisma.job.updateMany).toHaveBeenCalledWith({
+        where: { id: 'job-1', status: { in: ['queued', 'running'] } },
+        data: { cancelRequested: true }
+      })
+    })
+  })
+
+  describe('retryDelayMs', () => {
+    it('should double per attempt up to the cap', () => {
+      expect(retryDelayMs(1)).toBe(JOB_QUEUE.retryBaseDelayMs)
+      expect(retryDelayMs(2)).toBe(JOB_QUEUE.retryBaseDelayMs * 2)
+      expect(retryDelayMs(50)).toBe(JOB_QUEUE.retryMaxDelayMs)
+    })
+  })
+
+  describe('bulk-repurpose handler', () => {
+    beforeEach(() => {
+      mockedPrisma.user.findUnique.mockResolvedValue({
+        subscriptionPlan: 'pro',
+        subscriptionStatus: 'active',
+        usageThisMonth: 10,
+        subscriptions: [],
+        subscription: { tier: 'pro' },
+        settings: { brandVoice: null, preferredPlatforms: [] }
+      })
+      mockedPrisma.content.findMany.mockResolvedValue([
+        { id: 'content-1', title: 'First', originalContent: 'One', contentType: 'blog', repurposed: [{ platform: 'twitter' }] },
+        { id: 'content-2', title: 'Second', originalContent: 'Two', contentType: 'blog', repurposed: [] }
+      ])
+      mockedAiService.repurposeContent.mockImplementation(async ({ platforms }: any) => [{ platform: platforms[0], content: `${platforms[0]} post` }])
+    })
+
+    it('should skip platforms already repurposed, charge per output and report progress', async () => {
+      const status = await jobQueue.runJob(queuedJob())
+
+      expect(status).toBe('succeeded')
+      // content-1 already had twitter, so three outputs in total
+      expect(mockedAiService.repurposeContent).toHaveBeenCalledTimes(3)
+      expect(mockedPrisma.user.update).toHaveBeenCalledWith({ where: { id: 'user-1' }, data: { usageThisMonth: { increment: 1 } } })
+      expect(mockedPrisma.user.update).toHaveBeenCalledWith({ where: { id: 'user-1' }, data: { usageThisMonth: { increment: 2 } } })
+
+      const progress = mockedPrisma.job.updateMany.mock.calls
+        .map(([args]: any) => args.data.progress)
+        .filter(Boolean)
+      expect(progress.map((p: any) => p.completed)).toEqual([0, 1, 2])
+
+      const completion = mockedPrisma.job.updateMany.mock.calls.find(([args]: any) => args.data.status === 'succeeded')[0]
+      expect(completion.data.result).toMatchObject({ totalRepurposed: 3, summary: { successful: 2, failed: 0, skipped: 0 } })
+    })
+
+    it('should stop between items once cancelled', async () => {
+      mockedPrisma.job.findUnique
+        .mockResolvedValueOnce({ cancelRequested: false })
+        .mockResolvedValueOnce({ cancelRequested: true })
+
+      const status = await jobQueue.runJob(queuedJob())
+
+      expect(status).toBe('cancelled')
+      expect(mockedAiService.repurposeContent).toHaveBeenCalledTimes(1)
+      expect(mockedPrisma.user.update).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('repurpose handler', () => {
+    const progressOf = () => mockedPrisma.job.updateMany.mock.calls
+      .map(([args]: any) => args.data.progress)
+      .filter(Boolean)
+    const drafts = () => progressOf().flatMap((p: any) => p.partial.items.filter((item: any) => item.draft).map((item: any) => item.draft))
+
+    beforeEach(() => {
+      mockedPrisma.user.findUnique.mockResolvedValue({
+        subscriptionPlan: 'pro',
+        subscriptionStatus: 'active',
+        usageThisMonth: 10,
+        teamId: null,
+        subscriptions: [],
+        subscription: { tier: 'pro' },
+        settings: { brandVoice: null, preferredPlatforms: [] }
+      })
+      ;(jest.requireMock('../repurpose-persistence') as any).saveRepurposeResults.mockResolvedValue({
+        id: 'content-1',
+        repurposed: [{ id: 'rep-1', platform: 'twitter' }, { id: 'rep-2', platform: 'linkedin' }]
+      })
+      mockedAiService.repurposeContentStream.mockImplementation(async ({ platforms }: any, onEvent: any) => platforms.map((platform: string) => {
+        const result = { platform, content: `${platform} post` }
+        onEvent({ type: 'start', platform })
+        onEvent({ type: 'token', platform, delta: `${platform} ` })
+        onEvent({ type: 'token', platform, delta: 'draft' })
+        onEvent({ type: 'complete', platform, result, provider: 'anthropic', model: 'claude' })
+        return result
+      }))
+    })
+
+    afterEach(() => {
+      ;(JOB_QUEUE as any).progressIntervalMs = 1000
+    })
+
+    const repurposeJob = () => queuedJob({
+      type: 'repurpose',
+      payload: { title: 'Launch', content: 'We launched.', contentType: 'blog', platforms: ['twitter', 'linkedin'] }
+    })
+
+    it('should charge once per platform that comes back', async () => {
+      const status = await jobQueue.runJob(repurposeJob())
+
+      expect(status).toBe('succeeded')
+      expect(mockedPrisma.user.update).toHaveBeenCalledTimes(1)
+      expect(mockedPrisma.user.update).toHaveBeenCalledWith({ where: { id: 'user-1' }, data: { usageThisMonth: { increment: 2 } } })
+      const completion = mockedPrisma.job.updateMany.mock.calls.find(([args]: any) => args.data.status === 'succeeded')[0]
+      expect(completion.data.result.usage).toMatchObject({ currentUsage: 12 })
+      expect(completion.data.result.content.repurposed.map((item: any) => item.draft)).toEqual([undefined, undefined])
+    })
+
+    it('should not charge once another worker has taken the job', async () => {
+      // Progress writes and the heartbeat before charging all find the job recovered
+      mockedPrisma.job.updateMany.mockResolvedValue({ count: 0 })
+
+      const status = await jobQueue.runJob(repurposeJob())
+
+      expect(status).toBe('lost')
+      expect(mockedPrisma.user.update).not.toHaveBeenCalled()
+      expect(jest.requireMock('../repurpose-persistence').saveRepurposeResults).not.toHaveBeenCalled()
+    })
+
+    it('should publish drafts of running platforms in the progress', async () => {
+      ;(JOB_QUEUE as any).progressIntervalMs = 0
+
+      await jobQueue.runJob(repurposeJob())
+
+      expect(drafts()).toEqual(['twitter ', 'twitter draft', 'linkedin ', 'linkedin draft'])
+      const finished = progressOf().pop().partial.items
+      expect(finished).toEqual([
+        expect.objectContaining({ platform: 'twitter', status: 'complete', content: 'twitter post' }),
+        expect.objectContaining({ platform: 'linkedin', status: 'complete', content: 'linkedin post' })
+      ])
+      expect(finished.every((item: any) => item.draft === undefined)).toBe(true)
+    })
+
+    it('should write drafts at most once per progress interval', async () => {
+      await jobQueue.runJob(repurposeJob())
+
+      // The start and each finished platform, but none of the tokens in between
+      expect(progressOf().map((p: any) => p.completed)).toEqual([0, 1, 2])
+      expect(drafts()).toEqual([])
+    })
+
+    it('should not publish drafts for teams with a glossary', async () => {
+      ;(JOB_QUEUE as any).progressIntervalMs = 0
+      mockedPrisma.user.findUnique.mockResolvedValue({
+        subscriptionPlan: 'pro',
+        subscriptionStatus: 'active',
+        usageThisMonth: 10,
+        teamId: 'team-1',
+        subscriptions: [],
+        subscription: { tier: 'pro' },
+        settings: { brandVoice: null, preferredPlatforms: [] }
+      })
+      mockedPrisma.glossaryTerm = {
+        findMany: jest.fn().mockResolvedValue([{ id: 'term-1', preferred: 'Acme Cloud', forbidden: ['twitter'], caseSensitive: false }])
+      }
+
+      await jobQueue.runJob(repurposeJob())
+
+      expect(drafts()).toEqual([])
+      expect(progressOf().pop().partial.items[0]).toMatchObject({ content: 'Acme Cloud post' })
+    })
+  })
+})
@@ -0,0 +1,105 @@
+/**
+ * @jest-environment node
+ */
+import { prisma } from '@/lib/prisma'
+import { twitterWeightedLength, validatePlatformOutput } from '../platform-constraints'
+import { promptRegistry } from '../prompt-registry'
+import { setMockResponder } from '../ai-providers'
+
+const { AIService } = jest.requireActual('../ai-service') as typeof import('../ai-service')
+
+const mockedPrisma = prisma as any
+
+describe('Platform constraints', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    promptRegistry.invalidate()
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+    jest.spyOn(console, 'warn').mockImplementation(() => {})
+    delete mockedPrisma.promptTemplate
+    delete mockedPrisma.promptTemplateVersion
+  })
+
+  afterEach(() => {
+    setMockResponder(null)
+  })
+
+  describe('twitterWeightedLength', () => {
+    it('should count URLs as 23 and emoji and CJK characters as 2', () => {
+      expect(twitterWeightedLength('Read https://example.com/a/very/long/path/that/keeps/going')).toBe(5 + 23)
+      expect(twitterWeightedLength('Ship it 🚀')).toBe(8 + 2)
+      expect(twitterWeightedLength('👩‍💻👍🏽')).toBe(4)
+      expect(twitterWeightedLength('日本')).toBe(4)
+      expect(twitterWeightedLength('café – “quoted”')).toBe(15)
+    })
+  })
+
+  describe('validatePlatformOutput', () => {
+    it('should flag weighted length and hashtag count on Twitter', () => {
+      const violations = validatePlatformOutput('twitter', `${'日'.repeat(141)} #one #two #three #four`)
+
+      expect(violations.map(violation => violation.rule)).toEqual(['maxCharacters', 'hashtags'])
+      expect(violations[0]).toMatchObject({ actual: 305, limit: 280 })
+      expect(violations[1]).toMatchObject({ actual: 4, limit: 3 })
+    })
+
+    it('should reject markdown on LinkedIn but not hashtags at the start of a line', () => {
+      const hashtags = '#one #two #three'
+
+      expect(validatePlatformOutput('linkedin', `Big news\n\n${hashtags}`)).toEqual([])
+      expect(validatePlatformOutput('linkedin', `**Big news**\n\n${hashtags}`)).toEqual([
+        expect.objectContaining({ rule: 'formatting' })
+      ])
+    })
+
+    it('should check each tweet of a structured thread including its numbering', () => {
+      const violations = validatePlatformOutput('thread', '', { tweets: ['Short', 'x'.repeat(277)], hashtags: [] })
+
+      expect(violations).toEqual([expect.objectContaining({ rule: 'maxCharacters', part: 'Tweet 2', actual: 4 + 277 })])
+    })
+
+    it('should check single-line parts such as an email subject', () => {
+      const violations = validatePlatformOutput('email', 'rendered', {
+        subject: 'Line one\nLine two', preheader: 'Hi', body: 'Body', callToAction: 'Go'
+      })
+
+      expect(violations).toEqual([expect.objectContaining({ rule: 'maxLines', part: 'subject' })])
+    })
+  })
+
+  describe('rewrite loop', () => {
+    const tooLong = JSON.stringify({ text: 'word '.repeat(70).trim(), hashtags: ['#launch'] })
+    const fixed = JSON.stringify({ text: 'We shipped it', hashtags: ['#launch'] })
+
+    it('should ask for a rewrite until the output meets the constraints', async () => {
+      const prompts: string[] = []
+      setMockResponder((prompt) => {
+        prompts.push(prompt)
+        return prompts.length === 1 ? tooLong : fixed
+      })
+
+      const service = new AIService()
+      const [result] = await service.repurposeContent({ originalContent: 'We shipped', platforms: ['twitter'] }, { provider: 'mock' })
+
+      expect(prompts).toHaveLength(2)
+      expect(prompts[1]).toContain('Post is 358 characters; the limit is 280')
+      expect(result?.content).toBe('We shipped it\n\n#launch')
+      expect(result?.constraintWarnings).toBeUndefined()
+    })
+
+    it('should return what is still broken after the last rewrite as warnings', async () => {
+      const prompts: string[] = []
+      setMockResponder((prompt) => {
+        prompts.push(prompt)
+        return tooLong
+      })
+
+      const service = new AIService()
+      const [result] = await service.repurposeContent({ originalContent: 'We shipped', platforms: ['twitter'] }, { provider: 'mock' })
+
+      expect(prompts).toHaveLength(3)
+      expect(result?.characterCount).toBe(358)
+      expect(result?.constraintWarnings).toEqual([expect.objectContaining({ rule: 'maxCharacters', limit: 280 })])
+    })
+  })
+})
@@ -0,0 +1,172 @@
+/**
+ * @jest-environment node
+ */
+import { prisma } from '@/lib/prisma'
+import { promptRegistry, assignExperimentArm } from '../prompt-registry'
+import { promptExperiments, summarizeExperimentOutcomes, collectExposures } from '../prompt-experiments'
+
+const mockedPrisma = prisma as any
+
+const VERSION_BODIES: Record<number, string> = {
+  2: 'Control for {{platform}}: {{originalContent}}',
+  5: 'Treatment for {{platform}}: {{originalContent}}'
+}
+
+describe('Prompt experiments', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    promptRegistry.invalidate()
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+    delete mockedPrisma.promptTemplate
+    delete mockedPrisma.promptTemplateVersion
+    delete mockedPrisma.promptExperiment
+    delete mockedPrisma.promptExperimentOutcome
+  })
+
+  describe('assignExperimentArm', () => {
+    it('should keep each user in the same arm and split traffic by percentage', () => {
+      const users = Array.from({ length: 2000 }, (_, i) => `user-${i}`)
+      const arms = users.map(userId => assignExperimentArm('exp-1', userId, 30))
+
+      expect(users.map(userId => assignExperimentArm('exp-1', userId, 30))).toEqual(arms)
+      const treated = arms.filter(arm => arm === 'treatment').length / users.length
+      expect(treated).toBeGreaterThan(0.25)
+      expect(treated).toBeLessThan(0.35)
+    })
+  })
+
+  describe('render', () => {
+    it('should serve the pinned versions of a running experiment by arm', async () => {
+      mockedPrisma.promptTemplate = {
+        findMany: jest.fn().mockResolvedValue([{ id: 'tpl-twitter', variant: 'twitter', activeVersion: 3 }])
+      }
+      mockedPrisma.promptTemplateVersion = {
+        findUnique: jest.fn(({ where }: any) => {
+          const version = where.templateId_version.version
+          return Promise.resolve({ id: `ver-${version}`, version, body: VERSION_BODIES[version] })
+        })
+      }
+      mockedPrisma.promptExperiment = {
+        findFirst: jest.fn().mockResolvedValue({ id: 'exp-1', controlVersion: 2, treatmentVersion: 5, trafficPercent: 50 })
+      }
+
+      const users = Array.from({ length: 50 }, (_, i) => `user-${i}`)
+      const treatmentUser = users.find(userId => assignExperimentArm('exp-1', userId, 50) === 'treatment')!
+      const controlUser = users.find(userId => assignExperimentArm('exp-1', userId, 50) === 'control')!
+      const variables = { platform: 'twitter', originalContent: 'Hi' }
+
+      const treated = await promptRegistry.render('repurpose', 'twitter', variables, { userId: treatmentUser })
+      const control = await promptRegistry.render('repurpose', 'twitter', variables, { userId: controlUser })
+      const anonymous = await promptRegistry.render('repurpose', 'twitter', variables)
+
+      expect(treated).toMatchObject({ prompt: 'Treatment for twitter: Hi', versionId: 'ver-5', experiment: { id: 'exp-1', arm: 'treatment' } })
+      expect(control).toMatchObject({ prompt: 'Control for twitter: Hi', versionId: 'ver-2', experiment: { id: 'exp-1', arm: 'control' } })
+      expect(anonymous.versionId).toBe('ver-2')
+      expect(anonymous.experiment).toBeUndefined()
+    })
+  })
+
+  describe('results', () => {
+    it('should compute outcome rates per generated output', () => {
+      const results = summarizeExperimentOutcomes([
+        { arm: 'control', type: 'generated', _count: { _all: 10 }, _avg: { value: null } },
+        { arm: 'control', type: 'copy', _count: { _all: 4 }, _avg: { value: null } },
+        { arm: 'treatment', type: 'generated', _count: { _all: 8 }, _avg: { value: null } },
+        { arm: 'treatment', type: 'copy', _count: { _all: 6 }, _avg: { value: null } },
+        { arm: 'treatment', type: 'rating', _count: { _all: 4 }, _avg: { value: 0.75 } }
+      ], { control: 2, treatment: 5 })
+
+      expect(results[0]).toMatchObject({ arm: 'control', version: 2, generated: 10, copies: 4, copyRate: 0.4, positiveRatingRate: null })
+      expect(results[1]).toMatchObject({ arm: 'treatment', version: 5, generated: 8, copyRate: 0.75, ratings: 4, positiveRatingRate: 0.75 })
+    })
+
+    it('should only report outputs served from an experiment as exposures', () => {
+      expect(collectExposures([
+        { platform: 'twitter', promptVersionId: 'ver-5', experiment: { id: 'exp-1', arm: 'treatment' } },
+        { platform: 'linkedin', promptVersionId: 'ver-9' }
+      ])).toEqual([{ experimentId: 'exp-1', arm: 'treatment', platform: 'twitter', promptVersionId: 'ver-5' }])
+    })
+  })
+
+  describe('recordOutcome', () => {
+    it('should attribute an action to the arm that generated the output', async () => {
+      mockedPrisma.promptExperimentOutcome = {
+        findFirst: jest.fn().mockResolvedValue({
+          id: 'exposure-1', experimentId: 'exp-1', arm: 'treatment', promptVersionId: 'ver-5', experiment: { status: 'running' }
+        }),
+        upsert: jest.fn().mockResolvedValue({})
+      }
+
+      await expect(promptExperiments.recordOutcome('user-1', 'content-1', 'twitter', 'rating', 1)).resolves.toBe(true)
+      expect(mockedPrisma.promptExperimentOutcome.upsert).toHaveBeenCalledWith({
+        where: { exposureId_type: { exposureId: 'exposure-1', type: 'rating' } },
+        create: expect.objectContaining({
+          experimentId: 'exp-1', arm: 'treatment', exposureId: 'exposure-1', type: 'rating', value: 1, platform: 'twitter'
+        }),
+        update: { userId: 'user-1', value: 1 }
+      })
+    })
+
+    it('should count a repeated action on the same output once', async () => {
+      mockedPrisma.promptExperimentOutcome = {
+        findFirst: jest.fn().mockResolvedValue({
+          id: 'exposure-1', experimentId: 'exp-1', arm: 'control', promptVersionId: 'ver-3', experiment: { status: 'running' }
+        }),
+        upsert: jest.fn().mockResolvedValue({})
+      }
+
+      await promptExperiments.recordOutcome('user-1', 'content-1', 'twitter', 'copy')
+      await promptExperiments.recordOutcome('user-1', 'content-1', 'twitter', 'copy')
+
+      const calls = mockedPrisma.promptExperimentOutcome.upsert.mock.calls
+      expect(calls).toHaveLength(2)
+      expect(calls[1][0].where).toEqual(calls[0][0].where)
+      expect(calls[1][0].update).toEqual({})
+    })
+
+    it('should ignore outputs from experiments that are no longer running', async () => {
+      mockedPrisma.promptExperimentOutcome = {
+        findFirst: jest.fn().mockResolvedValue({ id: 'exposure-1', experimentId: 'exp-1', arm: 'control', experiment: { status: 'stopped' } }),
+        upsert: jest.fn()
+      }
+
+      await expect(promptExperiments.recordOutcome('user-1', 'content-1', 'twitter', 'copy')).resolves.toBe(false)
+      expect(mockedPrisma.promptExperimentOutcome.upsert).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('lifecycle', () => {
+    it('should refuse to test the live version against itself', async () => {
+      mockedPrisma.promptTemplate = {
+        findUnique: jest.fn().mockResolvedValue({ id: 'tpl-twitter', name: 'Twitter', activeVersion: 3 })
+      }
+
+      await expect(promptExperiments.startExperiment({ templateId: 'tpl-twitter', treatmentVersion: 3, trafficPercent: 50 }))
+        .rejects.toMatchObject({ statusCode: 400 })
+    })
+
+    it('should make the winning version live when promoting', async () => {
+      mockedPrisma.promptExperiment = {
+        findUnique: jest.fn().mockResolvedValue({ id: 'exp-1', templateId: 'tpl-twitter', status: 'running', controlVersion: 2, treatmentVersion: 5, endedAt: null }),
+        update: jest.fn().mockResolvedValue({ id: 'exp-1', status: 'promoted', winner: 'treatment' })
+      }
+      mockedPrisma.promptTemplateVersion = {
+        findUnique: jest.fn().mockResolvedValue({ id: 'ver-5', version: 5 })
+      }
+      mockedPrisma.promptTemplate = {
+        update: jest.fn().mockResolvedValue({ id: 'tpl-twitter', activeVersion: 5 })
+      }
+
+      await promptExperiments.promoteExperiment('exp-1', 'treatment')
+
+      expect(mockedPrisma.promptExperiment.update).toHaveBeenCalledWith({
+        where: { id: 'exp-1' },
+        data: expect.objectContaining({ status: 'promoted', winner: 'treatment' })
+      })
+      expect(mockedPrisma.promptTemplate.update).toHaveBeenCalledWith({
+        where: { id: 'tpl-twitter' },
+        data: { activeVersion: 5 }
+      })
+    })
+  })
+})
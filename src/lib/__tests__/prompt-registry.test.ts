@@ -0,0 +1,114 @@
+/**
+ * @jest-environment node
+ */
+import { prisma } from '@/lib/prisma'
+import { promptRegistry, renderTemplate, validateTemplate, extractVariables } from '../prompt-registry'
+import { DEFAULT_PROMPT_TEMPLATES } from '../ai-prompts'
+import { setMockResponder } from '../ai-providers'
+
+const { AIService } = jest.requireActual('../ai-service') as typeof import('../ai-service')
+
+const mockedPrisma = prisma as any
+
+describe('Prompt registry', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    promptRegistry.invalidate()
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+    delete mockedPrisma.promptTemplate
+    delete mockedPrisma.promptTemplateVersion
+  })
+
+  afterEach(() => {
+    setMockResponder(null)
+  })
+
+  describe('renderTemplate', () => {
+    it('should fill variables and drop sections whose variable is unset', () => {
+      const body = 'Write about {{topic}}.{{#tone}} Tone: {{tone}}.{{/tone}}{{#audience}} For {{audience}}.{{/audience}}'
+
+      expect(renderTemplate(body, { topic: 'testing', tone: 'dry' })).toBe('Write about testing. Tone: dry.')
+      expect(renderTemplate(body, { topic: 'testing', audience: '  ' })).toBe('Write about testing.')
+    })
+
+    it('should not interpret replacement patterns in variable values', () => {
+      expect(renderTemplate('"{{content}}"', { content: 'costs $& more' })).toBe('"costs $& more"')
+    })
+  })
+
+  describe('validateTemplate', () => {
+    it('should accept every built-in template', () => {
+      for (const template of DEFAULT_PROMPT_TEMPLATES) {
+        expect(validateTemplate(template.key, template.body)).toEqual([])
+      }
+    })
+
+    it('should reject unknown variables and unbalanced sections', () => {
+      const errors = validateTemplate('repurpose', '{{#tone}}{{secret}} for {{platform}}')
+
+      expect(errors).toEqual(expect.arrayContaining([
+        'Section {{#tone}} is never closed',
+        expect.stringContaining('Unknown variable "secret"')
+      ]))
+      expect(extractVariables('{{#tone}}{{tone}}{{/tone}} {{platform}}')).toEqual(['tone', 'platform'])
+    })
+  })
+
+  describe('resolve', () => {
+    it('should fall back to the built-in template when the registry tables are unavailable', async () => {
+      const prompt = await promptRegistry.render('repurpose', 'twitter', { platform: 'twitter', originalContent: 'Hello world' })
+
+      expect(prompt.versionId).toBeNull()
+      expect(prompt.version).toBe(0)
+      expect(prompt.prompt).toContain('Repurpose the following content for twitter')
+      expect(prompt.prompt).toContain('Create a Twitter post (max 280 characters)')
+      expect(prompt.prompt).not.toContain('Brand voice')
+    })
+
+    it('should use the active database version and fall back to the default variant', async () => {
+      mockedPrisma.promptTemplate = {
+        findMany: jest.fn().mockResolvedValue([{ id: 'tpl-default', variant: 'default', activeVersion: 3 }])
+      }
+      mockedPrisma.promptTemplateVersion = {
+        findUnique: jest.fn().mockResolvedValue({ id: 'ver-3', version: 3, body: 'Rewrite for {{platform}}: {{originalContent}}' })
+      }
+
+      const prompt = await promptRegistry.render('repurpose', 'tiktok', { platform: 'tiktok', originalContent: 'Hi' })
+
+      expect(prompt).toMatchObject({ prompt: 'Rewrite for tiktok: Hi', version: 3, versionId: 'ver-3', variant: 'default' })
+      expect(mockedPrisma.promptTemplateVersion.findUnique).toHaveBeenCalledWith({
+        where: { templateId_version: { templateId: 'tpl-default', version: 3 } }
+      })
+    })
+
+    it('should record the prompt version on each repurposed output', async () => {
+      mockedPrisma.promptTemplate = {
+        findMany: jest.fn().mockResolvedValue([{ id: 'tpl-linkedin', variant: 'linkedin', activeVersion: 2 }])
+      }
+      mockedPrisma.promptTemplateVersion = {
+        findUnique: jest.fn().mockResolvedValue({ id: 'ver-linkedin-2', version: 2, body: 'LinkedIn: {{originalContent}}' })
+      }
+      setMockResponder((prompt) => `echo ${prompt}`)
+
+      const service = new AIService()
+      const [result] = await service.repurposeContent(
+        { originalContent: 'Ship it', platforms: ['linkedin'], outputFormat: 'text' },
+        { provider: 'mock' }
+      )
+
+      expect(result?.content).toBe('echo LinkedIn: Ship it')
+      expect(result?.promptVersionId).toBe('ver-linkedin-2')
+    })
+  })
+
+  describe('createVersion', () => {
+    it('should refuse to save an invalid template', async () => {
+      mockedPrisma.promptTemplate = {
+        findUnique: jest.fn().mockResolvedValue({ id: 'tpl-1', key: 'generate', variant: 'blog' })
+      }
+
+      await expect(promptRegistry.createVersion('tpl-1', { body: 'About {{keywords}} {{password}}' }))
+        .rejects.toMatchObject({ statusCode: 400 })
+    })
+  })
+})
@@ -0,0 +1,193 @@
+/**
+ * @jest-environment node
+ */
+import { prisma } from '@/lib/prisma'
+import { encryptSensitiveData, decryptSensitiveData } from '../security-node'
+import { connectedAccounts } from '../connected-accounts'
+import { publishingService } from '../publishing'
+import { getFakePublications, publisherRegistry, resetFakePublisher, setFakePublisherFailure } from '../publishers'
+import { toLittleText } from '../publishers/linkedin'
+
+const mockedPrisma = prisma as any
+
+const KEY = 'test-encryption-key-that-is-long-enough'
+
+const request = (overrides: Record<string, unknown> = {}) => ({
+  scheduleId: 'sched-1',
+  userId: 'user-1',
+  repurposedId: 'rep-1',
+  contentId: 'content-1',
+  platform: 'linkedin',
+  clientId: null,
+  accountId: 'acct-1',
+  content: 'Our new editor is out (finally) #launch',
+  structured: null,
+  publishAt: new Date('2025-03-03T14:00:00Z'),
+  ...overrides
+})
+
+const storedAccount = (overrides: Record<string, unknown> = {}) => ({
+  id: 'acct-1',
+  userId: 'user-1',
+  teamId: null,
+  platform: 'linkedin',
+  adapter: 'fake',
+  externalId: 'urn:li:organization:42',
+  name: 'Company page',
+  accessToken: encryptSensitiveData('secret-token', KEY),
+  refreshToken: null,
+  tokenExpiresAt: null,
+  settings: {},
+  status: 'active',
+  lastError: null,
+  ...overrides
+})
+
+describe('Publishing', () => {
+  const originalKey = process.env.DATABASE_ENCRYPTION_KEY
+  const originalFetch = global.fetch
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    process.env.DATABASE_ENCRYPTION_KEY = KEY
+    resetFakePublisher()
+    mockedPrisma.user.findUnique.mockResolvedValue({ teamId: null, role: 'member' })
+    mockedPrisma.connectedAccount = {
+      findUnique: jest.fn().mockResolvedValue(storedAccount()),
+      findFirst: jest.fn().mockResolvedValue(null),
+      count: jest.fn().mockResolvedValue(0),
+      create: jest.fn().mockImplementation(({ data }: any) => Promise.resolve({ id: 'acct-1', createdAt: new Date(), ...data })),
+      update: jest.fn().mockResolvedValue({})
+    }
+    mockedPrisma.publishAttempt = {
+      count: jest.fn().mockResolvedValue(0),
+      create: jest.fn().mockResolvedValue({})
+    }
+  })
+
+  afterEach(() => {
+    process.env.DATABASE_ENCRYPTION_KEY = originalKey
+    global.fetch = originalFetch
+  })
+
+  it('encrypts tokens so they only decrypt with the same key and untouched', () => {
+    const encrypted = encryptSensitiveData('secret-token', KEY)
+
+    expect(encrypted).not.toContain('secret-token')
+    expect(encryptSensitiveData('secret-token', KEY)).not.toBe(encrypted)
+    expect(decryptSensitiveData(encrypted, KEY)).toBe('secret-token')
+    expect(decryptSensitiveData(encrypted, 'another-key')).toBeNull()
+    expect(decryptSensitiveData(encrypted.replace(/.$/, c => (c === '0' ? '1' : '0')), KEY)).toBeNull()
+  })
+
+  it('stores connected accounts with encrypted tokens and never returns them', async () => {
+    const account = await connectedAccounts.connect('user-1', {
+      platform: 'linkedin',
+      externalId: 'urn:li:organization:42',
+      name: 'Company page',
+      accessToken: 'secret-token',
+      scopes: ['w_organization_social']
+    })
+
+    const { data } = mockedPrisma.connectedAccount.create.mock.calls[0][0]
+    expect(data).toEqual(expect.objectContaining({ adapter: 'linkedin', userId: 'user-1', teamId: null }))
+    expect(decryptSensitiveData(data.accessToken, KEY)).toBe('secret-token')
+    expect(account).not.toHaveProperty('accessToken')
+  })
+
+  it('only lets team owners and admins connect team accounts', async () => {
+    mockedPrisma.user.findUnique.mockResolvedValue({ teamId: 'team-1', role: 'member' })
+
+    await expect(connectedAccounts.connect('user-1', {
+      platform: 'facebook',
+      externalId: '1234',
+      name: 'Page',
+      accessToken: 'token',
+      scopes: []
+    })).rejects.toThrow('Only team owners and admins')
+    expect(mockedPrisma.connectedAccount.create).not.toHaveBeenCalled()
+  })
+
+  it('sends the platform payload through the fake adapter and records the attempt', async () => {
+    const result = await publishingService.publish(request())
+
+    const [publication] = getFakePublications()
+    expect(publication!.payload).toEqual(expect.objectContaining({
+      author: 'urn:li:organization:42',
+      commentary: 'Our new editor is out \\(finally\\) {hashtag|\\#|launch}',
+      lifecycleState: 'PUBLISHED'
+    }))
+    expect(result).toEqual(expect.objectContaining({ externalId: publication!.externalId, accountId: 'acct-1', adapter: 'fake' }))
+    expect(mockedPrisma.publishAttempt.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ scheduleId: 'sched-1', attempt: 1, status: 'succeeded', externalId: publication!.externalId })
+    })
+    expect(JSON.stringify(mockedPrisma.publishAttempt.create.mock.calls)).not.toContain('secret-token')
+  })
+
+  it('treats a post the platform accepted as published when recording it fails', async () => {
+    mockedPrisma.publishAttempt.create.mockRejectedValue(new Error('Connection reset'))
+
+    const result = await publishingService.publish(request())
+
+    const [publication] = getFakePublications()
+    expect(result).toEqual(expect.objectContaining({ externalId: publication!.externalId, accountId: 'acct-1' }))
+    expect(getFakePublications()).toHaveLength(1)
+  })
+
+  it('maps threads to tweets and escapes LinkedIn markup', () => {
+    const mapper = publisherRegistry.mapperFor('thread')!
+    const payload = mapper.buildPayload!(
+      request({ platform: 'thread', structured: { tweets: ['First', 'Second'], hashtags: ['#Launch'] } }) as any,
+      { id: 'acct-1', platform: 'thread', externalId: '1', name: 'X', settings: {} }
+    )
+
+    expect(mapper.id).toBe('x')
+    expect(payload).toEqual({ tweets: ['First', 'Second\n\n#Launch'] })
+    expect(toLittleText('Ship it @team_lead #dev_tools')).toBe('Ship it \\@team\\_lead {hashtag|\\#|dev\\_tools}')
+  })
+
+  it('records retryable failures and lets the dispatcher retry them', async () => {
+    setFakePublisherFailure(() => new Error('Platform timeout'))
+
+    await expect(publishingService.publish(request())).rejects.toThrow('Platform timeout')
+    expect(mockedPrisma.publishAttempt.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ status: 'failed', error: 'Platform timeout', retryable: true })
+    })
+    expect(mockedPrisma.connectedAccount.update).not.toHaveBeenCalled()
+  })
+
+  it('does not retry a post the platform may have created before the request timed out', async () => {
+    mockedPrisma.connectedAccount.findUnique.mockResolvedValue(storedAccount({ adapter: 'linkedin' }))
+    global.fetch = jest.fn().mockRejectedValue(new DOMException('The operation was aborted due to timeout', 'TimeoutError'))
+
+    await expect(publishingService.publish(request())).rejects.toMatchObject({ statusCode: 409 })
+    expect(mockedPrisma.publishAttempt.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ status: 'failed', retryable: false, error: expect.stringContaining('Check LinkedIn before publishing again') })
+    })
+
+    // A refused connection never reached the platform, so it is safe to try again
+    global.fetch = jest.fn().mockRejectedValue(Object.assign(new TypeError('fetch failed'), { cause: { code: 'ECONNREFUSED' } }))
+    await expect(publishingService.publish(request())).rejects.toMatchObject({ statusCode: 502 })
+    expect(mockedPrisma.publishAttempt.create).toHaveBeenLastCalledWith({
+      data: expect.objectContaining({ status: 'failed', retryable: true })
+    })
+  })
+
+  it('expires the account when the platform rejects its token', async () => {
+    mockedPrisma.connectedAccount.findUnique.mockResolvedValue(storedAccount({ adapter: 'linkedin' }))
+    global.fetch = jest.fn().mockResolvedValue(new Response(JSON.stringify({ message: 'Invalid access token' }), { status: 401 }))
+
+    await expect(publishingService.publish(request())).rejects.toThrow('Invalid access token')
+
+    expect(global.fetch).toHaveBeenCalledWith('https://api.linkedin.com/rest/posts', expect.objectContaining({
+      headers: expect.objectContaining({ Authorization: 'Bearer secret-token' })
+    }))
+    expect(mockedPrisma.publishAttempt.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ status: 'failed', retryable: false })
+    })
+    expect(mockedPrisma.connectedAccount.update).toHaveBeenCalledWith({
+      where: { id: 'acct-1' },
+      data: expect.objectContaining({ status: 'expired' })
+    })
+  })
+})
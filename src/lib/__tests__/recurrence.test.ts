@@ -0,0 +1,62 @@
+/**
+ * @jest-environment node
+ */
+import {
+  addLocalDays,
+  describeRecurrence,
+  formatRecurrence,
+  fromLocalTime,
+  nextOccurrence,
+  normalizeTimeZone,
+  occurrencesBetween,
+  parseRecurrence
+} from '../recurrence'
+
+describe('Recurrence rules', () => {
+  it('parses presets and RRULEs into a canonical rule', () => {
+    expect(formatRecurrence(parseRecurrence('weekdays'))).toBe('FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR')
+    expect(formatRecurrence(parseRecurrence('RRULE:freq=weekly;byday=th,mo;interval=2;count=6')))
+      .toBe('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH;COUNT=6')
+    expect(describeRecurrence(parseRecurrence('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH;COUNT=6')))
+      .toBe('Every 2 weeks on Mon, Thu, 6 times')
+  })
+
+  it('rejects patterns it cannot honour', () => {
+    expect(() => parseRecurrence('hourly')).toThrow('use daily, weekdays, weekly, biweekly, monthly or an RRULE')
+    expect(() => parseRecurrence('FREQ=HOURLY')).toThrow('FREQ must be DAILY, WEEKLY or MONTHLY')
+    expect(() => parseRecurrence('FREQ=MONTHLY;BYDAY=MO')).toThrow('BYDAY is only supported on weekly rules')
+    expect(() => parseRecurrence('FREQ=DAILY;BYHOUR=9')).toThrow('BYHOUR is not supported')
+    expect(() => parseRecurrence('FREQ=DAILY;COUNT=2;UNTIL=20250101')).toThrow('either COUNT or UNTIL')
+    expect(() => normalizeTimeZone('Mars/Olympus')).toThrow('not a valid time zone')
+  })
+
+  it('keeps the local time of day when the clocks change', () => {
+    const startsAt = new Date('2025-03-03T14:00:00Z') // Monday 09:00 in New York, before DST starts on 9 March
+
+    const next = nextOccurrence(parseRecurrence('weekly'), startsAt, startsAt, 'America/New_York')
+
+    expect(next?.toISOString()).toBe('2025-03-10T13:00:00.000Z')
+  })
+
+  it('walks weekdays, skips months without the day and stops at COUNT', () => {
+    const friday = new Date('2025-01-03T09:00:00Z')
+    expect(nextOccurrence(parseRecurrence('weekdays'), friday, friday, 'UTC')?.toISOString()).toBe('2025-01-06T09:00:00.000Z')
+
+    const endOfMonth = new Date('2025-01-31T12:00:00Z')
+    expect(occurrencesBetween(parseRecurrence('monthly'), endOfMonth, endOfMonth, new Date('2025-06-01'), 'UTC').map(at => at.toISOString()))
+      .toEqual(['2025-01-31T12:00:00.000Z', '2025-03-31T12:00:00.000Z', '2025-05-31T12:00:00.000Z'])
+
+    const twice = parseRecurrence('FREQ=DAILY;COUNT=2')
+    expect(nextOccurrence(twice, endOfMonth, new Date('2025-02-01T12:00:00Z'), 'UTC')).toBeNull()
+  })
+
+  it('resolves wall-clock times around clock changes', () => {
+    // 02:30 doesn't happen on 9 March; the clocks jump from 02:00 to 03:00
+    expect(fromLocalTime({ year: 2025, month: 3, day: 9, hour: 2, minute: 30, second: 0 }, 'America/New_York').toISOString())
+      .toBe('2025-03-09T07:30:00.000Z')
+    // 01:30 happens twice on 2 November; the first is used
+    expect(fromLocalTime({ year: 2025, month: 11, day: 2, hour: 1, minute: 30, second: 0 }, 'America/New_York').toISOString())
+      .toBe('2025-11-02T05:30:00.000Z')
+    expect(addLocalDays(new Date('2025-10-31T13:00:00Z'), 3, 'America/New_York').toISOString()).toBe('2025-11-03T14:00:00.000Z')
+  })
+})
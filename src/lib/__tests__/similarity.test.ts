@@ -0,0 +1,133 @@
+/**
+ * @jest-environment node
+ */
+import { prisma } from '@/lib/prisma'
+import { compareTexts, estimateContainment, fingerprintText, signatureOf } from '../similarity'
+import { CorpusEntry, duplicateDetector, findMatches } from '../duplicate-detection'
+
+const mockedPrisma = prisma as any
+
+const LAUNCH_POST = 'We just shipped the new editor. It saves drafts as you type and works offline on every device.'
+const UNRELATED = 'Our quarterly hiring update covers three new roles in support, design and finance teams across Europe.'
+
+const entry = (overrides: Partial<CorpusEntry> = {}): CorpusEntry => ({
+  kind: 'output',
+  id: 'rep-old',
+  contentId: 'content-old',
+  title: 'Editor launch',
+  platform: 'linkedin',
+  locale: null,
+  text: LAUNCH_POST,
+  updatedAt: new Date('2024-01-01'),
+  ...overrides
+})
+
+describe('Similarity engine', () => {
+  it('matches wording regardless of case and punctuation', () => {
+    const a = fingerprintText('The NEW editor, saves drafts as you type!')
+    const b = fingerprintText('the new editor saves drafts as you type')
+
+    expect(a.shingles.size).toBeGreaterThan(0)
+    expect(compareTexts(a, b).containment).toBe(1)
+  })
+
+  it('locates a copied passage in both texts', () => {
+    const query = fingerprintText(`Big news today. ${LAUNCH_POST} Try it now.`)
+    const source = fingerprintText(`Release notes: ${LAUNCH_POST}`)
+    const comparison = compareTexts(query, source)
+
+    expect(comparison.passages).toHaveLength(1)
+    expect(comparison.spans).toHaveLength(1)
+    const [span] = comparison.spans
+    expect(span).toBeDefined()
+    expect(query.text.slice(span!.start, span!.end)).toBe(span!.text)
+    expect(span!.text).toBe(LAUNCH_POST.slice(0, -1))
+    expect(comparison.passages[0]!.source.text).toBe(span!.text)
+  })
+
+  it('estimates containment from signatures alone', () => {
+    const short = fingerprintText(LAUNCH_POST)
+    const long = fingerprintText(`${UNRELATED} ${LAUNCH_POST} ${UNRELATED.split(' ').reverse().join(' ')}`)
+
+    expect(estimateContainment(signatureOf(short.shingles), signatureOf(long.shingles))).toBeGreaterThan(0.5)
+    expect(estimateContainment(signatureOf(short.shingles), signatureOf(fingerprintText(UNRELATED).shingles))).toBeLessThan(0.1)
+    expect(estimateContainment(signatureOf(new Set()), signatureOf(long.shingles))).toBe(0)
+  })
+
+  it('reports the library entries a text repeats, strongest first', () => {
+    const report = findMatches(`${LAUNCH_POST} Reply with your favourite feature.`, [
+      entry({ id: 'rep-partial', text: `It saves drafts as you type and works offline on every device. ${UNRELATED}` }),
+      entry(),
+      entry({ id: 'rep-unrelated', text: UNRELATED })
+    ])
+
+    expect(report.compared).toBe(3)
+    expect(report.matches.map(match => match.id)).toEqual(['rep-old', 'rep-partial'])
+    expect(report.level).toBe('near_duplicate')
+    expect(report.matches[0]!.spans[0]!.text).toBe(LAUNCH_POST.slice(0, -1))
+    expect(report.matches[1]!.level).toBe('partial')
+  })
+
+  it('calls new text original', () => {
+    const report = findMatches(UNRELATED, [entry()])
+
+    expect(report).toEqual({ score: 0, level: 'original', matches: [], compared: 1 })
+  })
+})
+
+describe('Duplicate detector', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockedPrisma.user.findUnique.mockResolvedValue({ teamId: null })
+    mockedPrisma.content.findMany.mockResolvedValue([
+      {
+        id: 'content-old',
+        title: 'Editor launch',
+        originalContent: UNRELATED,
+        updatedAt: new Date('2024-01-01'),
+        repurposed: [
+          { id: 'rep-old', platform: 'linkedin', content: LAUNCH_POST, locale: null, updatedAt: new Date('2024-01-01') },
+          { id: 'rep-de', platform: 'linkedin', content: LAUNCH_POST, locale: 'de-DE', updatedAt: new Date('2024-01-02') }
+        ]
+      }
+    ])
+    mockedPrisma.repurposedContent = {
+      findFirst: jest.fn().mockResolvedValue({ id: 'rep-new', platform: 'linkedin', content: LAUNCH_POST, sourceId: null }),
+      findMany: jest.fn().mockResolvedValue([{ id: 'rep-de' }])
+    }
+  })
+
+  it('checks against the team library when the user is in a team', async () => {
+    mockedPrisma.user.findUnique.mockResolvedValue({ teamId: 'team-1' })
+
+    const report = await duplicateDetector.check('user-1', LAUNCH_POST, { excludeContentIds: ['content-new'] })
+
+    expect(mockedPrisma.content.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { user: { teamId: 'team-1' }, id: { notIn: ['content-new'] } }
+    }))
+    expect(report.level).toBe('duplicate')
+    expect(report.matches.every(match => match.kind === 'output')).toBe(true)
+  })
+
+  it('warns when an output repeats an earlier post on its platform, skipping its own translations', async () => {
+    const report = await duplicateDetector.checkOutput('user-1', 'content-new', 'rep-new')
+
+    expect(mockedPrisma.repurposedContent.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: 'rep-new', contentId: 'content-new', originalContent: { userId: 'user-1' } }
+    }))
+    expect(mockedPrisma.content.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { userId: 'user-1' },
+      select: expect.objectContaining({
+        repurposed: expect.objectContaining({ where: { platform: 'linkedin' } })
+      })
+    }))
+    expect(report.matches.map(match => match.id)).toEqual(['rep-old'])
+    expect(report.score).toBe(100)
+  })
+
+  it('rejects outputs the user does not own', async () => {
+    mockedPrisma.repurposedContent.findFirst.mockResolvedValue(null)
+
+    await expect(duplicateDetector.checkOutput('user-2', 'content-new', 'rep-new')).rejects.toThrow('not found')
+  })
+})
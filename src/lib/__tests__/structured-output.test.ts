@@ -0,0 +1,95 @@
+/**
+ * @jest-environment node
+ */
+import { prisma } from '@/lib/prisma'
+import { parseStructuredOutput, renderStructuredOutput, renderPartialOutput, getStructuredParts } from '../structured-output'
+import { promptRegistry } from '../prompt-registry'
+import { setMockResponder } from '../ai-providers'
+
+const { AIService } = jest.requireActual('../ai-service') as typeof import('../ai-service')
+
+const mockedPrisma = prisma as any
+
+describe('Structured output', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    promptRegistry.invalidate()
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+    jest.spyOn(console, 'warn').mockImplementation(() => {})
+    delete mockedPrisma.promptTemplate
+    delete mockedPrisma.promptTemplateVersion
+  })
+
+  afterEach(() => {
+    setMockResponder(null)
+  })
+
+  describe('parseStructuredOutput', () => {
+    it('should accept JSON wrapped in a code fence and normalize hashtags', () => {
+      const result = parseStructuredOutput('twitter', 'Here you go:\n```json\n{"text": "Ship it", "hashtags": ["launch", "#Dev Tools"]}\n```')
+
+      expect(result).toEqual({ success: true, data: { text: 'Ship it', hashtags: ['#launch', '#DevTools'] } })
+    })
+
+    it('should report which fields fail the platform schema', () => {
+      const result = parseStructuredOutput('thread', '{"tweets": ["Only one"]}')
+
+      expect(result.success).toBe(false)
+      expect(!result.success && result.error).toContain('tweets: A thread needs at least 2 tweets')
+    })
+
+    it('should reject responses that are not JSON', () => {
+      const result = parseStructuredOutput('email', 'Subject: Hello')
+
+      expect(result.success).toBe(false)
+      expect(!result.success && result.error).toContain('not valid JSON')
+    })
+  })
+
+  describe('rendering', () => {
+    it('should number thread tweets and expose each as its own part', () => {
+      const thread = { tweets: ['First', 'Second'], hashtags: ['#Dev'] }
+
+      expect(renderStructuredOutput('thread', thread)).toBe('1/2 First\n\n2/2 Second\n\n#Dev')
+      expect(getStructuredParts('thread', thread).map(part => part.label)).toEqual(['Tweet 1/2', 'Tweet 2/2', 'Hashtags'])
+    })
+
+    it('should show the text of a response that is still being written', () => {
+      expect(renderPartialOutput('```json\n{"tweets": ["First \\"one\\"", "Sec')).toBe('First "one"\n\nSec')
+      expect(renderPartialOutput('{"text": "Launch day!\\nTry it", "hashtags": ["#Dev", "#AI"], "ha')).toBe('Launch day!\nTry it\n\n#Dev #AI')
+      expect(renderPartialOutput('{"text": "Cut at \\u00')).toBe('Cut at ')
+      expect(renderPartialOutput('Plain text draft')).toBe('Plain text draft')
+    })
+  })
+
+  describe('repurposing', () => {
+    it('should ask the model to repair invalid JSON once', async () => {
+      const prompts: string[] = []
+      setMockResponder((prompt) => {
+        prompts.push(prompt)
+        return prompts.length === 1
+          ? '{"subject": "Launch day"'
+          : '{"subject": "Launch day", "preheader": "It is here", "body": "We shipped.", "callToAction": "Try it"}'
+      })
+
+      const service = new AIService()
+      const [result] = await service.repurposeContent({ originalContent: 'We shipped', platforms: ['email'] }, { provider: 'mock' })
+
+      expect(prompts).toHaveLength(2)
+      expect(prompts[1]).toContain('could not be used')
+      expect(result?.structured).toMatchObject({ subject: 'Launch day', callToAction: 'Try it' })
+      expect(result?.content).toBe('Subject: Launch day\nPreheader: It is here\n\nWe shipped.\n\nTry it')
+    })
+
+    it('should fall back to the raw text when the repair also fails', async () => {
+      setMockResponder(() => 'Just shipped something great #launch')
+
+      const service = new AIService()
+      const [result] = await service.repurposeContent({ originalContent: 'We shipped', platforms: ['twitter'] }, { provider: 'mock' })
+
+      expect(result?.structured).toBeUndefined()
+      expect(result?.content).toBe('Just shipped something great #launch')
+      expect(result?.hashtagSuggestions).toEqual(['#launch'])
+    })
+  })
+})
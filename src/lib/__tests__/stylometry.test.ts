@@ -0,0 +1,57 @@
+/**
+ * @jest-environment node
+ */
+import { computeFingerprint, compareToFingerprint } from '../stylometry'
+
+const casualPosts = [
+  "We're SO excited to share this! You're going to love it 🎉 #launchday",
+  "Big news: we shipped dark mode. Try it today and tell us what you think! 🙌 #launchday",
+  "Can't believe it's been a year. Thanks for building with us, you're the best 💜",
+  "Quick tip: you can pin your favourite boards. Try it today and tell us what you think!",
+  "Monday mood: coffee, code and you. What are you building this week? ☕ https://example.com/blog"
+]
+
+const formalPosts = [
+  'The quarterly report demonstrates considerable improvement across operational indicators.',
+  'Organisations adopting structured governance frameworks consistently achieve measurable efficiencies.',
+  'Our analysis indicates that regulatory requirements will intensify throughout the coming financial year.',
+  'Stakeholders should evaluate procurement strategies in light of these developments.',
+  'Comprehensive documentation accompanies each recommendation within the appendix.'
+]
+
+describe('Stylometric fingerprints', () => {
+  it('should measure posts deterministically', () => {
+    const fingerprint = computeFingerprint(casualPosts)
+
+    expect(computeFingerprint(casualPosts)).toEqual(fingerprint)
+    expect(fingerprint).toMatchObject({
+      version: 1,
+      posts: 5,
+      emojiPerPost: 0.8,
+      hashtagPerPost: 0.4,
+      linkPerPost: 0.2
+    })
+    expect(fingerprint.contractionRate).toBeGreaterThan(3)
+    expect(fingerprint.secondPersonRate).toBeGreaterThan(5)
+    expect(fingerprint.capsWordRate).toBeGreaterThan(0)
+    expect(fingerprint.questionRate).toBeCloseTo(1 / 13, 1)
+  })
+
+  it('should find phrases repeated across posts', () => {
+    const { signaturePhrases } = computeFingerprint(casualPosts)
+    expect(signaturePhrases[0]).toBe('try it today and tell us what you think')
+    // Shorter phrases inside it that occur in no more posts are folded in
+    expect(signaturePhrases).not.toContain('try it today')
+  })
+
+  it('should score text in the same voice above text in a different voice', () => {
+    const fingerprint = computeFingerprint(casualPosts)
+    const sameVoice = compareToFingerprint(fingerprint, "You're going to love this one! We made exports faster, try it today 🚀")
+    const otherVoice = compareToFingerprint(fingerprint, formalPosts.join(' '))
+
+    expect(sameVoice.score).toBeGreaterThan(otherVoice.score)
+    expect(sameVoice.score).toBeGreaterThan(60)
+    expect(otherVoice.score).toBeLessThan(50)
+    expect(otherVoice.features.find(feature => feature.feature === 'contractionRate')).toMatchObject({ actual: 0 })
+  })
+})
@@ -1,5 +1,25 @@
-import { getAnthropicClient } from '@/lib/anthropic';
 import { analyticsTracker } from '@/lib/analytics-tracker';
+import type { AIOperation } from '@/lib/ai-usage-ledger';
+import { promptRegistry } from '@/lib/prompt-registry';
+import { computeFingerprint } from '@/lib/stylometry';
+import { duplicateDetector, SimilarityCheckOptions, SimilarityMatch } from '@/lib/duplicate-detection';
+import { Errors } from '@/lib/error-handler';
+import { aiService, AIServiceConfig, Platform, RepurposedContent } from '@/lib/ai-service';
+import { measureLength, validatePlatformOutput } from '@/lib/platform-constraints';
+import { BrandVoiceProfile, formatBrandVoice } from '@/lib/brand-voices';
+import {
+  BrandComplianceReport,
+  applyComplianceFixes,
+  buildComplianceFixInstruction,
+  evaluateBrandCompliance
+} from '@/lib/brand-compliance';
+import {
+  LearnedBrandVoice,
+  describeFingerprint,
+  formatExamplePosts,
+  parseLearnedVoice,
+  summarizeFingerprint
+} from '@/lib/brand-voice-learning';
 
 export interface ContentQualityScore {
   overall: number; // 0-100
@@ -75,60 +95,12 @@ class AIContentAnalyzer {
         metadata: { contentType, contentLength: content.length }
       });
 
-      const prompt = `
-        Analyze the following content and provide a comprehensive quality assessment:
-
-        Content: "${content}"
-        Content Type: ${contentType || 'general'}
-
-        Please provide:
-        1. Quality scores (0-100) for: overall, readability, engagement, SEO optimization, clarity, tone, structure
-        2. Specific optimization suggestions with severity levels
-        3. Keyword density analysis
-        4. Sentiment analysis
-        5. Reading level assessment
-        6. Target audience identification
-        7. Content strengths and weaknesses
-
-        Respond in JSON format with the following structure:
-        {
-          "qualityScore": {
-            "overall": number,
-            "readability": number,
-            "engagement": number,
-            "seoOptimization": number,
-            "clarity": number,
-            "tone": number,
-            "structure": number
-          },
-          "suggestions": [
-            {
-              "type": "readability|engagement|seo|clarity|tone|structure",
-              "severity": "low|medium|high",
-              "message": "description of issue",
-              "suggestion": "specific improvement suggestion",
-              "example": "optional example"
-            }
-          ],
-          "keywordDensity": {"keyword": density},
-          "sentimentAnalysis": {
-            "sentiment": "positive|negative|neutral",
-            "confidence": number
-          },
-          "readingLevel": "elementary|middle|high|college",
-          "targetAudience": ["audience1", "audience2"],
-          "strengths": ["strength1", "strength2"],
-          "weaknesses": ["weakness1", "weakness2"]
-        }
-      `;
-
-      const response = await getAnthropicClient().messages.create({
-        model: 'claude-3-sonnet-20240229',
-        max_tokens: 2000,
-        messages: [{ role: 'user', content: prompt }]
+      const { prompt } = await promptRegistry.render('analyze.quality', undefined, {
+        content,
+        contentType: contentType || 'general'
       });
 
-      const analysisText = response.content[0].type === 'text' ? response.content[0].text : '';
+      const analysisText = await this.complete(prompt, 2000, userId, 'analyze');
       const analysis = JSON.parse(analysisText);
 
       // Calculate additional metrics
@@ -160,28 +132,9 @@ class AIContentAnalyzer {
         metadata: { targetPlatform, contentLength: content.length }
       });
 
-      const prompt = `
-        Analyze this content for optimization for ${targetPlatform}:
-        
-        Content: "${content}"
-        
-        Provide specific optimization suggestions for ${targetPlatform} including:
-        - Platform-specific best practices
-        - Engagement optimization
-        - Format improvements
-        - Call-to-action suggestions
-        - Hashtag and keyword recommendations
-        
-        Return as JSON array of suggestions with type, severity, message, and suggestion fields.
-      `;
-
-      const response = await getAnthropicClient().messages.create({
-        model: 'claude-3-sonnet-20240229',
-        max_tokens: 1500,
-        messages: [{ role: 'user', content: prompt }]
-      });
+      const { prompt } = await promptRegistry.render('analyze.optimize', undefined, { content, platform: targetPlatform });
 
-      const suggestionsText = response.content[0].type === 'text' ? response.content[0].text : '';
+      const suggestionsText = await this.complete(prompt, 1500, userId, 'optimize');
       return JSON.parse(suggestionsText);
 
     } catch (error) {
@@ -200,26 +153,9 @@ class AIContentAnalyzer {
         metadata: { industry }
       });
 
-      const prompt = `
-        Generate trending topics and keywords for the ${industry} industry.
-        
-        Provide 10 trending topics with:
-        - Topic name
-        - Relevance score (0-100)
-        - Estimated search volume
-        - Competition difficulty (0-100)
-        - Related keywords
-        
-        Return as JSON array with the specified structure.
-      `;
-
-      const response = await getAnthropicClient().messages.create({
-        model: 'claude-3-sonnet-20240229',
-        max_tokens: 1500,
-        messages: [{ role: 'user', content: prompt }]
-      });
+      const { prompt } = await promptRegistry.render('analyze.trending_topics', undefined, { industry });
 
-      const topicsText = response.content[0].type === 'text' ? response.content[0].text : '';
+      const topicsText = await this.complete(prompt, 1500, userId, 'trending_topics');
       return JSON.parse(topicsText);
 
     } catch (error) {
@@ -238,28 +174,9 @@ class AIContentAnalyzer {
         metadata: { targetAudience, contentLength: content.length }
       });
 
-      const prompt = `
-        Based on this content and target audience (${targetAudience}), suggest relevant keywords:
-        
-        Content: "${content}"
-        
-        Provide 15 keyword suggestions with:
-        - Keyword phrase
-        - Relevance score (0-100)
-        - Estimated search volume
-        - Competition difficulty (0-100)
-        - Search intent (informational, commercial, transactional, navigational)
-        
-        Return as JSON array.
-      `;
-
-      const response = await getAnthropicClient().messages.create({
-        model: 'claude-3-sonnet-20240229',
-        max_tokens: 1500,
-        messages: [{ role: 'user', content: prompt }]
-      });
+      const { prompt } = await promptRegistry.render('analyze.keywords', undefined, { content, targetAudience });
 
-      const keywordsText = response.content[0].type === 'text' ? response.content[0].text : '';
+      const keywordsText = await this.complete(prompt, 1500, userId, 'keywords');
       return JSON.parse(keywordsText);
 
     } catch (error) {
@@ -268,105 +185,119 @@ class AIContentAnalyzer {
     }
   }
 
-  // Detect potential plagiarism
-  async checkPlagiarism(content: string, userId: string): Promise<{
+  // Find where the text repeats the user's or team's own content. Deterministic and local: word
+  // shingles are compared with the library, and the matching passages are returned for highlighting.
+  async checkPlagiarism(content: string, userId: string, options: SimilarityCheckOptions = {}): Promise<{
     isPlagiarized: boolean;
     confidence: number;
     sources: string[];
     suggestions: string[];
+    matches: SimilarityMatch[];
   }> {
+    await analyticsTracker.trackEvent({
+      userId,
+      action: 'plagiarism_check',
+      resource: 'ai_analyzer',
+      metadata: { contentLength: content.length }
+    });
+
+    const report = await duplicateDetector.check(userId, content, options);
+    const suggestions = report.matches.slice(0, 3).map(match =>
+      `${match.score}% of this text already appears in "${match.title}"${match.platform ? ` (${match.platform})` : ''}. Rework the highlighted passages.`
+    );
+
+    return {
+      isPlagiarized: report.level === 'duplicate' || report.level === 'near_duplicate',
+      confidence: report.score,
+      sources: [...new Set(report.matches.map(match => match.title))],
+      suggestions,
+      matches: report.matches
+    };
+  }
+
+  // Derive a brand voice profile from example posts. The fingerprint is always measured locally;
+  // if the model fails, the profile is described from the fingerprint alone.
+  async learnBrandVoice(posts: string[], userId: string): Promise<LearnedBrandVoice> {
+    const fingerprint = computeFingerprint(posts);
+
     try {
       await analyticsTracker.trackEvent({
         userId,
-        action: 'plagiarism_check',
+        action: 'brand_voice_learned',
         resource: 'ai_analyzer',
-        metadata: { contentLength: content.length }
+        metadata: { posts: posts.length }
       });
 
-      // Note: This is a simplified implementation
-      // In production, you'd integrate with plagiarism detection APIs
-      
-      const prompt = `
-        Analyze this content for potential plagiarism indicators:
-        
-        Content: "${content}"
-        
-        Look for:
-        - Common phrases that might be copied
-        - Unusual writing style inconsistencies
-        - Overly formal or technical language that seems out of place
-        
-        Return JSON with isPlagiarized (boolean), confidence (0-100), potential sources array, and suggestions for originality.
-      `;
-
-      const response = await getAnthropicClient().messages.create({
-        model: 'claude-3-sonnet-20240229',
-        max_tokens: 1000,
-        messages: [{ role: 'user', content: prompt }]
+      const { prompt } = await promptRegistry.render('analyze.brand_voice', undefined, {
+        posts: formatExamplePosts(posts),
+        postCount: posts.length,
+        measurements: summarizeFingerprint(fingerprint)
       });
 
-      const resultText = response.content[0].type === 'text' ? response.content[0].text : '';
-      return JSON.parse(resultText);
-
+      const voice = parseLearnedVoice(await this.complete(prompt, 1500, userId, 'learn_voice'), fingerprint);
+      if (voice) {
+        return { voice, fingerprint, source: 'ai' };
+      }
+      console.error('Brand voice response held no usable profile');
     } catch (error) {
-      console.error('Error checking plagiarism:', error);
-      return {
-        isPlagiarized: false,
-        confidence: 0,
-        sources: [],
-        suggestions: ['Unable to perform plagiarism check at this time']
-      };
+      console.error('Error learning brand voice:', error);
     }
+
+    return { voice: describeFingerprint(fingerprint), fingerprint, source: 'fingerprint' };
   }
 
-  // Support multi-language content analysis
-  async analyzeMultiLanguageContent(content: string, targetLanguages: string[], userId: string): Promise<{
-    detectedLanguage: string;
-    confidence: number;
-    translations: Record<string, string>;
-    culturalAdaptations: Record<string, string[]>;
-  }> {
-    try {
-      await analyticsTracker.trackEvent({
-        userId,
-        action: 'multilang_analysis',
-        resource: 'ai_analyzer',
-        metadata: { targetLanguages, contentLength: content.length }
-      });
+  // Score content against a brand voice profile without a model call: banned words, required
+  // disclaimers, tone against the voice's fingerprint, reading level, and emoji and hashtag policy
+  checkBrandCompliance(content: string, profile: BrandVoiceProfile): BrandComplianceReport {
+    return evaluateBrandCompliance(content, profile);
+  }
 
-      const prompt = `
-        Analyze this content for multi-language support:
-        
-        Content: "${content}"
-        Target Languages: ${targetLanguages.join(', ')}
-        
-        Provide:
-        1. Detected source language
-        2. Confidence level
-        3. Translations for each target language
-        4. Cultural adaptation suggestions for each language
-        
-        Return as JSON with the specified structure.
-      `;
-
-      const response = await getAnthropicClient().messages.create({
-        model: 'claude-3-sonnet-20240229',
-        max_tokens: 2000,
-        messages: [{ role: 'user', content: prompt }]
-      });
+  // Attach a compliance report to each platform output; without a profile the outputs are returned as they are
+  scoreBrandCompliance<T extends RepurposedContent>(outputs: T[], profile?: BrandVoiceProfile): T[] {
+    if (!profile) return outputs;
+    return outputs.map(output => ({ ...output, compliance: evaluateBrandCompliance(output.content, profile) }));
+  }
 
-      const resultText = response.content[0].type === 'text' ? response.content[0].text : '';
-      return JSON.parse(resultText);
+  // Rewrite an output to fix its brand voice violations, then apply the fixes that need no model call.
+  // Structured outputs keep the model's parts as they are, so their report may still list what it missed.
+  async fixBrandCompliance(
+    output: { platform: Platform; content: string; originalContent?: string },
+    profile: BrandVoiceProfile,
+    config?: Partial<AIServiceConfig>
+  ): Promise<RepurposedContent & { compliance: BrandComplianceReport }> {
+    const report = evaluateBrandCompliance(output.content, profile);
+    if (report.violations.length === 0) {
+      throw Errors.validation('This output already follows the brand voice');
+    }
 
-    } catch (error) {
-      console.error('Error analyzing multi-language content:', error);
-      return {
-        detectedLanguage: 'en',
-        confidence: 0,
-        translations: {},
-        culturalAdaptations: {}
-      };
+    const result = await aiService.reviseContent({
+      platform: output.platform,
+      action: 'brand_fix',
+      content: output.content,
+      originalContent: output.originalContent ?? output.content,
+      instruction: buildComplianceFixInstruction(report),
+      brandVoice: formatBrandVoice(profile)
+    }, config);
+
+    if (result.structured) {
+      return { ...result, compliance: evaluateBrandCompliance(result.content, profile) };
     }
+
+    const content = applyComplianceFixes(result.content, profile);
+    const warnings = validatePlatformOutput(output.platform, content);
+    return {
+      ...result,
+      content,
+      characterCount: measureLength(output.platform, content),
+      constraintWarnings: warnings.length > 0 ? warnings : undefined,
+      compliance: evaluateBrandCompliance(content, profile)
+    };
+  }
+
+  // Run the prompt through the provider chain, recording the tokens it used against the requesting user
+  private async complete(prompt: string, maxTokens: number, userId: string, operation: AIOperation): Promise<string> {
+    const response = await aiService.completePrompt(prompt, { maxTokens, usage: { userId, operation } });
+    return response.content;
   }
 
   // Fallback analysis when AI service fails
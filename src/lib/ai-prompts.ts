@@ -1,370 +1,385 @@
-import { ContentType, Platform } from './ai-service';
-
-// Base prompt templates for content generation
-export const CONTENT_GENERATION_PROMPTS = {
-  blog: {
-    base: `Create a comprehensive blog post with the following structure:
-1. Compelling headline
-2. Engaging introduction (hook + preview)
-3. Main content with 3-5 subheadings
-4. Conclusion with key takeaways
-5. Call-to-action
-
-Requirements:
-- 800-1500 words
-- SEO-friendly with natural keyword integration
-- Include practical insights and actionable advice
-- Professional yet conversational tone`,
-    
-    instructions: 'Write a complete blog post that provides value to readers and encourages engagement.'
-  },
-
-  article: {
-    base: `Write an informative article with:
-1. Attention-grabbing headline
-2. Brief introduction outlining the topic
-3. Well-structured main content with clear sections
-4. Supporting evidence and examples
-5. Conclusion summarizing key points
-
-Requirements:
-- 600-1200 words
-- Factual and well-researched content
-- Clear, logical flow between sections
-- Professional writing style`,
-    
-    instructions: 'Create an authoritative article that educates and informs the target audience.'
-  },
+import type { ContentType, Platform } from './ai-service';
+
+// Prompt families stored in the prompt registry
+export type PromptKey =
+  | 'generate'
+  | 'repurpose'
+  | 'revise'
+  | 'translate'
+  | 'summarize'
+  | 'atomize'
+  | 'analyze.quality'
+  | 'analyze.optimize'
+  | 'analyze.trending_topics'
+  | 'analyze.keywords'
+  | 'analyze.brand_voice';
+
+// Variant used when no platform/content-type specific template exists
+export const DEFAULT_PROMPT_VARIANT = 'default';
+
+// Variables each prompt family is rendered with; edits may only reference these
+export const PROMPT_VARIABLES: Record<PromptKey, string[]> = {
+  generate: ['keywords', 'contentType', 'tone', 'brandVoice', 'targetAudience', 'additionalInstructions'],
+  repurpose: ['platform', 'originalContent', 'brandVoice', 'tone', 'additionalInstructions'],
+  revise: ['platform', 'content', 'instruction', 'originalContent', 'brandVoice', 'tone'],
+  translate: ['platform', 'content', 'targetLanguage', 'sourceLanguage', 'brandVoice', 'tone', 'additionalInstructions'],
+  summarize: ['content', 'section', 'totalSections', 'heading'],
+  atomize: ['content', 'ideaCount', 'platforms'],
+  'analyze.quality': ['content', 'contentType'],
+  'analyze.optimize': ['content', 'platform'],
+  'analyze.trending_topics': ['industry'],
+  'analyze.keywords': ['content', 'targetAudience'],
+  'analyze.brand_voice': ['posts', 'postCount', 'measurements']
+};
 
-  social_post: {
-    base: `Create an engaging social media post that:
-1. Captures attention in the first line
-2. Delivers value or entertainment
-3. Includes a call-to-action
-4. Uses relevant hashtags (3-5)
-
-Requirements:
-- 100-300 words (platform dependent)
-- Conversational and relatable tone
-- Encourages interaction (likes, comments, shares)
-- Include emoji where appropriate`,
-    
-    instructions: 'Write a social media post that drives engagement and builds community.'
-  },
+export interface PromptTemplateDefinition {
+  key: PromptKey;
+  variant: ContentType | Platform | typeof DEFAULT_PROMPT_VARIANT;
+  name: string;
+  description: string;
+  body: string;
+}
 
-  email: {
-    base: `Compose a professional email with:
-1. Compelling subject line (5-7 words)
-2. Personal greeting
-3. Clear and concise main message
-4. Strong call-to-action
-5. Professional closing
-
-Requirements:
-- 150-400 words
-- Scannable format with short paragraphs
-- Professional yet friendly tone
-- Clear value proposition`,
-    
-    instructions: 'Create an email that gets opened, read, and acted upon.'
-  },
+/*
+ * Built-in templates. They seed the registry on first use and are served directly
+ * when the prompt tables are unavailable.
+ *
+ * Syntax: {{name}} inserts a variable, {{#name}}...{{/name}} keeps the block only
+ * when the variable is set.
+ */
+
+const GENERATION_INSTRUCTIONS: Record<ContentType, string> = {
+  blog: 'Create a comprehensive blog post with an engaging title, introduction, main body with subheadings, and conclusion.',
+  article: 'Write an informative article with a clear structure, compelling headline, and valuable insights.',
+  social_post: 'Create an engaging social media post that captures attention and encourages interaction.',
+  email: 'Write a professional email with a clear subject line, proper greeting, main message, and call-to-action.',
+  video_transcript: 'Create a video script/transcript with natural speaking flow, clear segments, and engaging delivery.',
+  general: 'Create high-quality, engaging content that effectively communicates the message.'
+};
 
-  video_transcript: {
-    base: `Write a video script/transcript with:
-1. Hook (first 10 seconds)
-2. Introduction and topic overview
-3. Main content in digestible segments
-4. Transitions between sections
-5. Strong conclusion and call-to-action
-
-Requirements:
-- Natural speaking rhythm
-- Include timing cues [0:30]
-- Conversational language
-- Visual cues in brackets [SHOW SCREEN]`,
-    
-    instructions: 'Create a video script that keeps viewers engaged throughout.'
-  },
+function generationTemplate(instructions: string): string {
+  return 'Generate a professional {{contentType}} based on the following keywords: "{{keywords}}"\n\n' +
+    `${instructions} ` +
+    '{{#tone}}The tone should be {{tone}}. {{/tone}}' +
+    '{{#brandVoice}}Brand voice: {{brandVoice}}. {{/brandVoice}}' +
+    '{{#targetAudience}}Target audience: {{targetAudience}}. {{/targetAudience}}' +
+    'Ensure the content is well-structured, engaging, and provides value to the reader. ' +
+    '{{#additionalInstructions}}Additional instructions: {{additionalInstructions}} {{/additionalInstructions}}' +
+    '\n\nPlease provide only the content without any meta-commentary or explanations.';
+}
 
-  general: {
-    base: `Create high-quality content that:
-1. Addresses the core topic effectively
-2. Provides clear value to the audience
-3. Maintains consistent tone and style
-4. Includes relevant examples or insights
-5. Ends with a meaningful conclusion
-
-Requirements:
-- Appropriate length for the context
-- Well-structured and easy to follow
-- Engaging and informative
-- Professional quality`,
-    
-    instructions: 'Generate content that meets professional standards and serves its intended purpose.'
-  }
+const REPURPOSE_INSTRUCTIONS: Partial<Record<Platform, string[]>> = {
+  twitter: [
+    'Create a Twitter post (max 280 characters). Requirements:',
+    '- Hook readers in the first 7 words',
+    '- Use conversational, punchy language',
+    '- Include 1-3 relevant hashtags at the end',
+    '- End with a question or call-to-action to encourage engagement',
+    '- Use line breaks for readability',
+    '- Consider emojis sparingly for emphasis'
+  ],
+  linkedin: [
+    'Create a LinkedIn post optimized for professional networking. Requirements:',
+    '- Start with a compelling hook or personal insight',
+    '- Use professional yet approachable language',
+    '- Include industry-relevant keywords naturally',
+    '- Structure with short paragraphs (2-3 lines max)',
+    '- End with a thoughtful question to spark discussion',
+    '- Include 3-5 relevant hashtags',
+    '- Aim for 1300-3000 characters for optimal engagement'
+  ],
+  instagram: [
+    'Create an Instagram caption that drives engagement. Requirements:',
+    '- Start with an attention-grabbing first line (appears in feed preview)',
+    '- Use storytelling and emotional connection',
+    '- Include a clear call-to-action (like, comment, share, save)',
+    '- Add 10-30 relevant hashtags (mix of popular and niche)',
+    '- Use line breaks and emojis for visual appeal',
+    '- Consider Instagram-specific features (Stories, Reels mentions)'
+  ],
+  facebook: [
+    'Create a Facebook post that encourages community engagement. Requirements:',
+    '- Use conversational, friendly tone',
+    '- Ask questions to encourage comments and discussions',
+    '- Keep it concise but informative (40-80 characters get highest engagement)',
+    '- Include relevant hashtags (1-2 hashtags work best on Facebook)',
+    '- Consider tagging relevant pages or people when appropriate',
+    '- End with a clear call-to-action'
+  ],
+  email: [
+    'Convert this into a professional email format. Requirements:',
+    '- Subject line: Clear, specific, and compelling (50 chars or less)',
+    '- Greeting: Personalized and appropriate',
+    '- Body: Well-structured with clear paragraphs',
+    '- Value proposition: Lead with benefits, not features',
+    '- Call-to-action: Single, clear, and prominent',
+    '- Closing: Professional sign-off',
+    '- Mobile-friendly: Short paragraphs and scannable format'
+  ],
+  newsletter: [
+    'Create a newsletter section with high engagement potential. Requirements:',
+    '- Compelling headline that promises value',
+    '- Opening hook that relates to subscriber interests',
+    '- Scannable format with bullet points or numbered lists',
+    '- Include actionable insights or takeaways',
+    '- Personal touch or behind-the-scenes element',
+    '- Clear next steps or call-to-action',
+    '- Keep paragraphs short (2-3 sentences max)'
+  ],
+  thread: [
+    'Create a Twitter thread that maximizes engagement and retention. Requirements:',
+    '- Tweet 1: Hook with a compelling promise or question',
+    '- Each tweet: One clear point, max 280 characters',
+    '- Use numbered tweets (1/n, 2/n, etc.)',
+    '- Include thread continuation cues ("More in next tweet ⬇️")',
+    '- Final tweet: Summary and call-to-action',
+    '- Use consistent formatting and voice throughout',
+    '- Aim for 5-15 tweets total for optimal engagement'
+  ]
 };
 
-// Platform-specific repurposing prompts
-export const PLATFORM_PROMPTS = {
-  twitter: {
-    characterLimit: 280,
-    template: `Repurpose this content for Twitter:
-
-Original content: {content}
-
-Requirements:
-- Maximum 280 characters
-- Include 2-3 relevant hashtags
-- Engaging and shareable
-- Clear call-to-action or discussion starter
-- Use Twitter-appropriate language and tone
-
-Format: Provide the tweet text only, no explanations.`,
-    
-    guidelines: [
-      'Keep it concise and punchy',
-      'Use relevant hashtags (#)',
-      'Include emojis sparingly',
-      'Ask questions to encourage replies',
-      'Tag relevant accounts when appropriate'
-    ]
-  },
+function repurposeTemplate(instructions: string): string {
+  return 'Repurpose the following content for {{platform}}:\n\n"{{originalContent}}"\n\n' +
+    instructions +
+    '{{#brandVoice}}Brand voice: {{brandVoice}}. {{/brandVoice}}' +
+    '{{#tone}}Tone: {{tone}}. {{/tone}}' +
+    'Keep the core message intact while optimizing for the platform\'s audience and format requirements. ' +
+    '{{#additionalInstructions}}Additional instructions: {{additionalInstructions}} {{/additionalInstructions}}' +
+    '\n\nProvide only the repurposed content without any explanations or meta-commentary.';
+}
 
-  linkedin: {
-    characterLimit: 3000,
-    template: `Repurpose this content for LinkedIn:
-
-Original content: {content}
-
-Requirements:
-- Professional tone suitable for business networking
-- 100-300 words optimal length
-- Include 3-5 professional hashtags
-- Add industry insights or professional perspective
-- End with a question to encourage professional discussion
-
-Format: Provide the LinkedIn post text only.`,
-    
-    guidelines: [
-      'Professional and business-focused',
-      'Share industry insights',
-      'Use professional hashtags',
-      'Encourage meaningful discussion',
-      'Add personal or company perspective'
-    ]
+// What each one-click transform of a platform output asks for
+export const REVISION_INSTRUCTIONS = {
+  shorter: 'Make it noticeably shorter and punchier. Cut filler, keep the hook and the call-to-action.',
+  longer: 'Expand it with more detail, examples or context from the source, staying within the platform\'s limits.',
+  formal: 'Make the tone more formal and professional without losing the message.',
+  emoji: 'Add a few relevant emojis where they add emphasis. Don\'t change the wording otherwise.'
+} as const;
+
+const REVISE_TEMPLATE = 'Revise the following {{platform}} post.\n\n' +
+  'Instruction: {{instruction}}\n\n' +
+  'Post:\n"{{content}}"\n\n' +
+  '{{#originalContent}}The post was written from this source - stay faithful to it:\n"{{originalContent}}"\n\n{{/originalContent}}' +
+  '{{#brandVoice}}Brand voice: {{brandVoice}}. {{/brandVoice}}' +
+  '{{#tone}}Tone: {{tone}}. {{/tone}}' +
+  'Keep everything the instruction doesn\'t ask you to change.' +
+  '\n\nProvide only the revised post without any explanations or meta-commentary.';
+
+// Localized variant of a platform output, written for native readers of the target language
+const TRANSLATE_TEMPLATE = 'Translate the following {{platform}} post into {{targetLanguage}}{{#sourceLanguage}} from {{sourceLanguage}}{{/sourceLanguage}}.\n\n' +
+  'Post:\n"{{content}}"\n\n' +
+  'Localize it rather than translating word for word: use the idioms, examples, number and date formats a native {{targetLanguage}} reader expects, ' +
+  'and keep the meaning, the hook and the call to action. Keep names, brands, URLs and @mentions as they are, and only translate hashtags ' +
+  'that have an established {{targetLanguage}} equivalent. Translations often run longer, so shorten where needed to stay within the platform\'s limits. ' +
+  '{{#brandVoice}}Brand voice: {{brandVoice}}. {{/brandVoice}}' +
+  '{{#tone}}Tone: {{tone}}. {{/tone}}' +
+  '{{#additionalInstructions}}Additional instructions: {{additionalInstructions}} {{/additionalInstructions}}' +
+  '\n\nProvide only the translated post without any explanations or meta-commentary.';
+
+// Map step for long documents: each chunk is condensed before the platform outputs are written
+const SUMMARIZE_TEMPLATE = 'You are condensing part {{section}} of {{totalSections}} of a longer document so it can later be repurposed for social media, email and newsletters.\n\n' +
+  '{{#heading}}This part is under the heading "{{heading}}".\n\n{{/heading}}' +
+  'Text:\n"{{content}}"\n\n' +
+  'Write a dense summary of this part in at most 200 words. Keep the key claims, numbers, names, examples and quotable lines exactly as written. ' +
+  'Don\'t add anything that isn\'t in the text and don\'t refer to "this section" or "the author".' +
+  '\n\nProvide only the summary without any explanations or meta-commentary.';
+
+// Atomize mode: the distinct ideas a campaign of posts is written from, one idea per post
+const ATOMIZE_TEMPLATE = 'Extract the {{ideaCount}} most distinct, self-contained ideas from the content below so each can become its own social post' +
+  '{{#platforms}} (for {{platforms}}){{/platforms}}.\n\n' +
+  'Content:\n"{{content}}"\n\n' +
+  'Mix three kinds of idea: key insights or arguments ("idea"), quotable lines copied exactly as written ("quote") and ' +
+  'numbers or findings with their context ("statistic"). Every idea must take a different angle - no two ideas may make the same point, ' +
+  'and each must stand on its own without the rest of the content. Order them from strongest to weakest. ' +
+  'Only use what is in the content.\n\n' +
+  'Respond with a JSON array only, no other text:\n' +
+  '[{"type": "idea|quote|statistic", "angle": "the point in one short sentence", "detail": "supporting detail, the exact quote or the number with its context"}]';
+
+const ANALYSIS_TEMPLATES: PromptTemplateDefinition[] = [
+  {
+    key: 'analyze.quality',
+    variant: DEFAULT_PROMPT_VARIANT,
+    name: 'Content quality analysis',
+    description: 'Scores content quality and returns suggestions as JSON',
+    body: `Analyze the following content and provide a comprehensive quality assessment:
+
+Content: "{{content}}"
+Content Type: {{contentType}}
+
+Please provide:
+1. Quality scores (0-100) for: overall, readability, engagement, SEO optimization, clarity, tone, structure
+2. Specific optimization suggestions with severity levels
+3. Keyword density analysis
+4. Sentiment analysis
+5. Reading level assessment
+6. Target audience identification
+7. Content strengths and weaknesses
+
+Respond in JSON format with the following structure:
+{
+  "qualityScore": {
+    "overall": number,
+    "readability": number,
+    "engagement": number,
+    "seoOptimization": number,
+    "clarity": number,
+    "tone": number,
+    "structure": number
   },
-
-  instagram: {
-    characterLimit: 2200,
-    template: `Repurpose this content for Instagram:
-
-Original content: {content}
-
-Requirements:
-- Visual and engaging tone
-- 100-200 words for optimal engagement
-- Include 5-10 relevant hashtags
-- Instagram-appropriate language
-- Encourage likes, comments, and saves
-
-Format: Provide the Instagram caption only.`,
-    
-    guidelines: [
-      'Visual storytelling approach',
-      'Use engaging, lifestyle-focused language',
-      'Include relevant hashtags (5-10)',
-      'Encourage user interaction',
-      'Add personality and authenticity'
-    ]
+  "suggestions": [
+    {
+      "type": "readability|engagement|seo|clarity|tone|structure",
+      "severity": "low|medium|high",
+      "message": "description of issue",
+      "suggestion": "specific improvement suggestion",
+      "example": "optional example"
+    }
+  ],
+  "keywordDensity": {"keyword": density},
+  "sentimentAnalysis": {
+    "sentiment": "positive|negative|neutral",
+    "confidence": number
   },
-
-  facebook: {
-    characterLimit: 63206,
-    template: `Repurpose this content for Facebook:
-
-Original content: {content}
-
-Requirements:
-- Conversational and community-friendly tone
-- 200-400 words optimal length
-- Encourage comments and discussions
-- Include relevant hashtags (2-3)
-- Community-building focus
-
-Format: Provide the Facebook post text only.`,
-    
-    guidelines: [
-      'Community and conversation focused',
-      'Longer form content works well',
-      'Ask questions to spark discussion',
-      'Share personal experiences',
-      'Use Facebook-specific features (polls, events)'
-    ]
+  "readingLevel": "elementary|middle|high|college",
+  "targetAudience": ["audience1", "audience2"],
+  "strengths": ["strength1", "strength2"],
+  "weaknesses": ["weakness1", "weakness2"]
+}`
   },
-
-  email: {
-    characterLimit: null,
-    template: `Convert this content into an email format:
-
-Original content: {content}
-
-Requirements:
-- Subject line (5-7 words, compelling)
-- Professional greeting
-- Main content broken into scannable sections
-- Clear call-to-action
-- Professional closing
-- 200-500 words total
-
-Format:
-Subject: [Subject line]
-
-[Email body]
-
-[Closing]`,
-    
-    guidelines: [
-      'Compelling subject line',
-      'Personal greeting',
-      'Scannable format',
-      'Clear value proposition',
-      'Strong call-to-action'
-    ]
+  {
+    key: 'analyze.optimize',
+    variant: DEFAULT_PROMPT_VARIANT,
+    name: 'Platform optimization suggestions',
+    description: 'Suggests platform-specific improvements as a JSON array',
+    body: `Analyze this content for optimization for {{platform}}:
+
+Content: "{{content}}"
+
+Provide specific optimization suggestions for {{platform}} including:
+- Platform-specific best practices
+- Engagement optimization
+- Format improvements
+- Call-to-action suggestions
+- Hashtag and keyword recommendations
+
+Return as JSON array of suggestions with type, severity, message, and suggestion fields.`
   },
-
-  newsletter: {
-    characterLimit: null,
-    template: `Format this content for a newsletter section:
-
-Original content: {content}
-
-Requirements:
-- Engaging section headline
-- Newsletter-appropriate formatting
-- 300-600 words
-- Include relevant links or resources
-- Professional yet friendly tone
-
-Format: Provide the newsletter section with headline.`,
-    
-    guidelines: [
-      'Newsletter-friendly formatting',
-      'Engaging headlines and subheaders',
-      'Include relevant resources',
-      'Maintain brand consistency',
-      'Add value for subscribers'
-    ]
+  {
+    key: 'analyze.trending_topics',
+    variant: DEFAULT_PROMPT_VARIANT,
+    name: 'Trending topics',
+    description: 'Lists trending topics for an industry as a JSON array',
+    body: `Generate trending topics and keywords for the {{industry}} industry.
+
+Provide 10 trending topics with:
+- Topic name
+- Relevance score (0-100)
+- Estimated search volume
+- Competition difficulty (0-100)
+- Related keywords
+
+Return as JSON array with the specified structure.`
   },
-
-  thread: {
-    characterLimit: 280,
-    template: `Convert this content into a Twitter thread:
-
-Original content: {content}
-
-Requirements:
-- Break into 3-8 connected tweets
-- Each tweet max 280 characters
-- Number each tweet (1/n format)
-- Maintain narrative flow
-- Include relevant hashtags in final tweet
-- End with call-to-action
-
-Format:
-1/n [First tweet]
-2/n [Second tweet]
-[Continue for all tweets]`,
-    
-    guidelines: [
-      'Break into logical segments',
-      'Maintain story flow',
-      'Use thread numbering (1/n)',
-      'Each tweet should be valuable',
-      'Strong opening and closing tweets'
-    ]
+  {
+    key: 'analyze.keywords',
+    variant: DEFAULT_PROMPT_VARIANT,
+    name: 'Keyword suggestions',
+    description: 'Suggests keywords for content and an audience as a JSON array',
+    body: `Based on this content and target audience ({{targetAudience}}), suggest relevant keywords:
+
+Content: "{{content}}"
+
+Provide 15 keyword suggestions with:
+- Keyword phrase
+- Relevance score (0-100)
+- Estimated search volume
+- Competition difficulty (0-100)
+- Search intent (informational, commercial, transactional, navigational)
+
+Return as JSON array.`
   },
-
-  general: {
-    characterLimit: null,
-    template: `Adapt this content for general use:
-
-Original content: {content}
-
-Requirements:
-- Maintain core message and value
-- Appropriate length for context
-- Professional quality
-- Clear structure and flow
-- Engaging and informative
-
-Format: Provide the adapted content only.`,
-    
-    guidelines: [
-      'Maintain core message',
-      'Adapt to target audience',
-      'Ensure clarity and value',
-      'Professional presentation',
-      'Appropriate formatting'
-    ]
+  {
+    key: 'analyze.brand_voice',
+    variant: DEFAULT_PROMPT_VARIANT,
+    name: 'Learn a brand voice',
+    description: 'Derives a brand voice profile from example posts as JSON',
+    body: `Study these {{postCount}} example posts from one brand and describe the voice they are written in, so new posts can be written to match.
+
+{{posts}}
+
+Measured across all the posts:
+{{measurements}}
+
+Describe how the brand writes, not what it writes about. Base every field on the posts and keep it consistent with the measurements.
+
+Respond in JSON format with the following structure:
+{
+  "description": "two or three sentences on how the brand sounds, written as instructions to a writer",
+  "tone": "a few words, e.g. warm, confident, playful",
+  "targetAudience": "who the posts are written for",
+  "formality": "casual|conversational|professional|formal",
+  "sentenceLength": "short|medium|long",
+  "emojiUsage": "none|sparing|liberal",
+  "vocabulary": ["words and short phrases the brand favours"],
+  "avoidWords": ["words the brand clearly steers away from, only if evident"],
+  "signaturePhrases": ["openers, sign-offs and phrases the brand repeats"],
+  "guidelines": "other habits worth copying: structure, punctuation, calls to action"
+}`
   }
-};
-
-// Brand voice integration prompts
-export const BRAND_VOICE_PROMPTS = {
-  friendly: 'Use a warm, approachable tone that feels like talking to a friend.',
-  professional: 'Maintain a business-appropriate, authoritative tone.',
-  casual: 'Write in a relaxed, informal style that feels natural and conversational.',
-  authoritative: 'Use an expert tone that demonstrates knowledge and credibility.',
-  playful: 'Inject humor and personality while maintaining professionalism.',
-  empathetic: 'Show understanding and connection with the audience\'s challenges.',
-  direct: 'Be straightforward and to-the-point without unnecessary fluff.',
-  inspiring: 'Motivate and encourage the audience with uplifting language.',
-  educational: 'Focus on teaching and providing valuable insights.',
-  conversational: 'Write as if having a natural conversation with the reader.'
-};
-
-// Content enhancement prompts
-export const ENHANCEMENT_PROMPTS = {
-  addEmojis: 'Include relevant emojis to make the content more engaging and visually appealing.',
-  addHashtags: 'Include relevant and trending hashtags to increase discoverability.',
-  addCTA: 'Include a strong call-to-action that encourages specific user engagement.',
-  makeViral: 'Optimize for shareability with hooks, curiosity gaps, and engagement triggers.',
-  addPersonality: 'Inject brand personality and unique voice to stand out.',
-  addValue: 'Ensure every sentence provides clear value to the target audience.',
-  improveHook: 'Create a compelling opening that immediately captures attention.',
-  addProof: 'Include credibility indicators, statistics, or social proof where relevant.'
-};
-
-// Helper function to build complete prompts
-export function buildPrompt(
-  type: 'generation' | 'repurposing',
-  contentType?: ContentType,
-  platform?: Platform,
-  brandVoice?: string,
-  additionalInstructions?: string
-): string {
-  let prompt = '';
-
-  if (type === 'generation' && contentType) {
-    const template = CONTENT_GENERATION_PROMPTS[contentType];
-    prompt = template.base + '\\n\\n' + template.instructions;
-  } else if (type === 'repurposing' && platform) {
-    const template = PLATFORM_PROMPTS[platform];
-    prompt = template.template;
-  }
-
-  if (brandVoice && BRAND_VOICE_PROMPTS[brandVoice as keyof typeof BRAND_VOICE_PROMPTS]) {
-    prompt += `\\n\\nBrand Voice: ${BRAND_VOICE_PROMPTS[brandVoice as keyof typeof BRAND_VOICE_PROMPTS]}`;
-  } else if (brandVoice) {
-    prompt += `\\n\\nBrand Voice: ${brandVoice}`;
-  }
-
-  if (additionalInstructions) {
-    prompt += `\\n\\nAdditional Instructions: ${additionalInstructions}`;
-  }
-
-  return prompt;
-}
+];
+
+export const DEFAULT_PROMPT_TEMPLATES: PromptTemplateDefinition[] = [
+  ...(Object.entries(GENERATION_INSTRUCTIONS) as [ContentType, string][]).map(([contentType, instructions]): PromptTemplateDefinition => ({
+    key: 'generate',
+    variant: contentType === 'general' ? DEFAULT_PROMPT_VARIANT : contentType,
+    name: `Generate ${contentType.replace('_', ' ')}`,
+    description: `Content generation from keywords${contentType === 'general' ? ' for any content type' : ` for ${contentType.replace('_', ' ')} content`}`,
+    body: generationTemplate(instructions)
+  })),
+  ...(Object.entries(REPURPOSE_INSTRUCTIONS) as [Platform, string[]][]).map(([platform, instructions]): PromptTemplateDefinition => ({
+    key: 'repurpose',
+    variant: platform,
+    name: `Repurpose for ${platform}`,
+    description: `Repurposing instructions for ${platform}`,
+    body: repurposeTemplate(instructions.join('\n') + '\n')
+  })),
+  {
+    key: 'repurpose',
+    variant: DEFAULT_PROMPT_VARIANT,
+    name: 'Repurpose (any platform)',
+    description: 'Used for platforms without their own template',
+    body: repurposeTemplate('Adapt the content appropriately for the platform while maintaining the core message and following platform best practices. ')
+  },
+  {
+    key: 'revise',
+    variant: DEFAULT_PROMPT_VARIANT,
+    name: 'Revise a platform output',
+    description: 'Refines or transforms a single repurposed output',
+    body: REVISE_TEMPLATE
+  },
+  {
+    key: 'translate',
+    variant: DEFAULT_PROMPT_VARIANT,
+    name: 'Translate a platform output',
+    description: 'Localizes a single repurposed output into another language',
+    body: TRANSLATE_TEMPLATE
+  },
+  {
+    key: 'summarize',
+    variant: DEFAULT_PROMPT_VARIANT,
+    name: 'Summarize a document chunk',
+    description: 'Condenses one chunk of a long document before repurposing',
+    body: SUMMARIZE_TEMPLATE
+  },
+  {
+    key: 'atomize',
+    variant: DEFAULT_PROMPT_VARIANT,
+    name: 'Extract campaign ideas',
+    description: 'Pulls distinct ideas, quotes and statistics out of a source for atomize mode',
+    body: ATOMIZE_TEMPLATE
+  },
+  ...ANALYSIS_TEMPLATES
+];
 
 // Export platform character limits for validation
 export const PLATFORM_LIMITS = {
@@ -376,4 +391,4 @@ export const PLATFORM_LIMITS = {
   newsletter: null,
   thread: 280, // per tweet
   general: null
-} as const;
\ No newline at end of file
+} as const;
@@ -0,0 +1,69 @@
+import { generateWithClaude, streamWithClaude, getAnthropicClient } from '../anthropic';
+import { ANTHROPIC_API_KEY, ANTHROPIC_MODELS } from '../config';
+import { AIProviderAdapter, AIModelInfo, ProviderGenerateOptions, ProviderGenerateResult, ProviderHealth, TokenUsage } from './types';
+
+const MODEL_DESCRIPTIONS: Record<string, string> = {
+  CLAUDE_3_5_SONNET: 'Latest Sonnet with the best balance of quality and speed',
+  CLAUDE_3_5_HAIKU: 'Fast, low-cost model for short-form social content',
+  CLAUDE_3_OPUS: 'Most capable model with superior performance on highly complex tasks',
+  CLAUDE_3_SONNET: 'Balanced model with strong performance and speed for most tasks',
+  CLAUDE_3_HAIKU: 'Fastest and most compact model for simple tasks and quick responses'
+};
+
+export const anthropicProvider: AIProviderAdapter = {
+  id: 'anthropic',
+  name: 'Anthropic Claude',
+  capabilities: {
+    streaming: true,
+    maxContextTokens: 200000,
+    maxOutputTokens: 4096,
+    local: false
+  },
+
+  listModels(): AIModelInfo[] {
+    return Object.entries(ANTHROPIC_MODELS)
+      .filter(([key]) => key !== 'DEFAULT')
+      .map(([key, id]) => ({
+        id,
+        name: key.replace(/_/g, ' ').toLowerCase().replace(/\b\w/g, l => l.toUpperCase()),
+        description: MODEL_DESCRIPTIONS[key] || 'Claude AI model for content generation and processing'
+      }));
+  },
+
+  getDefaultModel() {
+    return ANTHROPIC_MODELS.DEFAULT;
+  },
+
+  isConfigured() {
+    return !!ANTHROPIC_API_KEY;
+  },
+
+  async generate(prompt: string, options?: ProviderGenerateOptions): Promise<ProviderGenerateResult> {
+    const model = options?.model || this.getDefaultModel();
+    let usage: TokenUsage | undefined;
+    const content = await generateWithClaude(prompt, model, options?.maxTokens, reported => { usage = reported; });
+    return { content, model, usage };
+  },
+
+  async stream(prompt: string, onText: (text: string) => void, options?: ProviderGenerateOptions): Promise<ProviderGenerateResult> {
+    const model = options?.model || this.getDefaultModel();
+    let usage: TokenUsage | undefined;
+    const content = await streamWithClaude(prompt, onText, model, options?.maxTokens, reported => { usage = reported; });
+    return { content, model, usage };
+  },
+
+  async checkHealth(): Promise<ProviderHealth> {
+    const start = Date.now();
+    try {
+      await getAnthropicClient().models.list({ limit: 1 });
+      return { healthy: true, latency: Date.now() - start, checkedAt: new Date().toISOString() };
+    } catch (error) {
+      return {
+        healthy: false,
+        latency: Date.now() - start,
+        error: error instanceof Error ? error.message : String(error),
+        checkedAt: new Date().toISOString()
+      };
+    }
+  }
+};
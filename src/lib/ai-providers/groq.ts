@@ -0,0 +1,69 @@
+import { generateWithGroq, streamWithGroq, getGroqClient } from '../groq';
+import { GROQ_API_KEY, GROQ_MODELS } from '../config';
+import { AIProviderAdapter, AIModelInfo, ProviderGenerateOptions, ProviderGenerateResult, ProviderHealth, TokenUsage } from './types';
+
+const MODEL_DESCRIPTIONS: Record<string, string> = {
+  LLAMA_3_1_70B_VERSATILE: 'High-quality, versatile model suitable for complex tasks',
+  LLAMA_3_1_8B_INSTANT: 'Fast model optimized for quick responses and simple tasks',
+  MIXTRAL_8X7B_32768: 'Model with large context window for processing long content',
+  GEMMA_7B_IT: 'Instruction-tuned model optimized for following specific guidelines'
+};
+
+export const groqProvider: AIProviderAdapter = {
+  id: 'groq',
+  name: 'Groq',
+  capabilities: {
+    streaming: true,
+    maxContextTokens: 32768,
+    maxOutputTokens: 4096,
+    local: false
+  },
+
+  listModels(): AIModelInfo[] {
+    return Object.entries(GROQ_MODELS)
+      .filter(([key]) => key !== 'DEFAULT')
+      .map(([key, id]) => ({
+        id,
+        name: key.replace(/_/g, ' ').toLowerCase().replace(/\b\w/g, l => l.toUpperCase()),
+        description: MODEL_DESCRIPTIONS[key] || 'Groq AI model for fast content generation'
+      }));
+  },
+
+  getDefaultModel() {
+    return GROQ_MODELS.DEFAULT;
+  },
+
+  isConfigured() {
+    // The setup scripts write a placeholder key; treat it as unconfigured
+    return !!GROQ_API_KEY && GROQ_API_KEY !== 'your-groq-api-key';
+  },
+
+  async generate(prompt: string, options?: ProviderGenerateOptions): Promise<ProviderGenerateResult> {
+    const model = options?.model || this.getDefaultModel();
+    let usage: TokenUsage | undefined;
+    const content = await generateWithGroq(prompt, model, options?.maxTokens, reported => { usage = reported; });
+    return { content, model, usage };
+  },
+
+  async stream(prompt: string, onText: (text: string) => void, options?: ProviderGenerateOptions): Promise<ProviderGenerateResult> {
+    const model = options?.model || this.getDefaultModel();
+    let usage: TokenUsage | undefined;
+    const content = await streamWithGroq(prompt, onText, model, options?.maxTokens, reported => { usage = reported; });
+    return { content, model, usage };
+  },
+
+  async checkHealth(): Promise<ProviderHealth> {
+    const start = Date.now();
+    try {
+      await getGroqClient().models.list();
+      return { healthy: true, latency: Date.now() - start, checkedAt: new Date().toISOString() };
+    } catch (error) {
+      return {
+        healthy: false,
+        latency: Date.now() - start,
+        error: error instanceof Error ? error.message : String(error),
+        checkedAt: new Date().toISOString()
+      };
+    }
+  }
+};
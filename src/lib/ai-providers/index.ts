@@ -0,0 +1,200 @@
+import type { SubscriptionPlan } from '../subscription';
+import { AI_RESILIENCE } from '../config';
+import { CircuitBreaker, CircuitBreakerSnapshot } from '../error-handler';
+import { AIProviderAdapter, AIProviderId, AI_PROVIDER_IDS, ProviderHealth } from './types';
+import { isRetryableProviderError } from './resilience';
+import { anthropicProvider } from './anthropic';
+import { groqProvider } from './groq';
+import { openAICompatibleProvider } from './openai-compatible';
+import { mockProvider } from './mock';
+
+export * from './types';
+export * from './resilience';
+export * from './pricing';
+export { setMockResponder } from './mock';
+
+// Older request schemas and clients used these names for the self-hosted backend
+const PROVIDER_ALIASES: Record<string, AIProviderId> = {
+  llama: 'openai-compatible',
+  local: 'openai-compatible',
+  openai: 'openai-compatible'
+};
+
+// Default fallback chain per plan, in order of preference - the first configured one is the plan default
+const DEFAULT_PLAN_PROVIDERS: Record<SubscriptionPlan, AIProviderId[]> = {
+  free: ['groq', 'openai-compatible', 'anthropic', 'mock'],
+  basic: ['groq', 'anthropic', 'openai-compatible', 'mock'],
+  pro: ['anthropic', 'groq', 'openai-compatible', 'mock'],
+  agency: ['anthropic', 'groq', 'openai-compatible', 'mock']
+};
+
+/**
+ * Read a chain override such as AI_FALLBACK_CHAIN_PRO=groq,anthropic.
+ * Unknown names are dropped; an empty result keeps the default chain.
+ */
+function loadPlanChain(plan: SubscriptionPlan): AIProviderId[] {
+  const override = process.env[`AI_FALLBACK_CHAIN_${plan.toUpperCase()}`];
+  if (!override) return DEFAULT_PLAN_PROVIDERS[plan];
+
+  const chain = override
+    .split(',')
+    .map(name => PROVIDER_ALIASES[name.trim()] || name.trim())
+    .filter((id): id is AIProviderId => (AI_PROVIDER_IDS as readonly string[]).includes(id));
+  return chain.length > 0 ? Array.from(new Set(chain)) : DEFAULT_PLAN_PROVIDERS[plan];
+}
+
+// Providers each plan may use, in fallback order
+export const PLAN_PROVIDERS: Record<SubscriptionPlan, AIProviderId[]> = {
+  free: loadPlanChain('free'),
+  basic: loadPlanChain('basic'),
+  pro: loadPlanChain('pro'),
+  agency: loadPlanChain('agency')
+};
+
+// Health probes hit provider APIs, so cache results briefly
+const HEALTH_CACHE_TTL_MS = 60000;
+
+export interface ProviderSummary {
+  id: AIProviderId;
+  name: string;
+  configured: boolean;
+  defaultModel: string;
+  models: ReturnType<AIProviderAdapter['listModels']>;
+  capabilities: AIProviderAdapter['capabilities'];
+  health?: ProviderHealth;
+  circuit: CircuitBreakerSnapshot;
+}
+
+class AIProviderRegistry {
+  private providers = new Map<AIProviderId, AIProviderAdapter>();
+  private healthCache = new Map<AIProviderId, ProviderHealth>();
+  private breakers = new Map<AIProviderId, CircuitBreaker>();
+
+  register(provider: AIProviderAdapter): void {
+    this.providers.set(provider.id, provider);
+    this.healthCache.delete(provider.id);
+    this.breakers.delete(provider.id);
+  }
+
+  /**
+   * Map a provider name (including legacy aliases) to a registered id
+   */
+  resolveId(name: string): AIProviderId | null {
+    const id = (PROVIDER_ALIASES[name] || name) as AIProviderId;
+    return this.providers.has(id) ? id : null;
+  }
+
+  get(name: string): AIProviderAdapter | undefined {
+    const id = this.resolveId(name);
+    return id ? this.providers.get(id) : undefined;
+  }
+
+  list(): AIProviderAdapter[] {
+    return Array.from(this.providers.values());
+  }
+
+  listConfigured(): AIProviderAdapter[] {
+    return this.list().filter(provider => provider.isConfigured());
+  }
+
+  /**
+   * Configured providers the plan may use, in the plan's preference order
+   */
+  getProvidersForPlan(plan: SubscriptionPlan): AIProviderAdapter[] {
+    const preferences = PLAN_PROVIDERS[plan] || PLAN_PROVIDERS.free;
+    return preferences
+      .map(id => this.providers.get(id))
+      .filter((provider): provider is AIProviderAdapter => !!provider && provider.isConfigured());
+  }
+
+  isAllowedForPlan(name: string, plan: SubscriptionPlan): boolean {
+    const id = this.resolveId(name);
+    return !!id && (PLAN_PROVIDERS[plan] || PLAN_PROVIDERS.free).includes(id);
+  }
+
+  /**
+   * Ordered providers to try for a request: the requested provider first, then
+   * the rest of the plan's chain (or every configured provider when no plan is known).
+   * Circuit state is not considered here - callers skip open breakers as they go.
+   */
+  getFallbackChain(plan?: SubscriptionPlan, preferred?: string): AIProviderAdapter[] {
+    const chain = plan ? this.getProvidersForPlan(plan) : this.listConfigured();
+    const first = preferred ? this.get(preferred) : undefined;
+
+    if (!first || !first.isConfigured()) {
+      return chain;
+    }
+    return [first, ...chain.filter(provider => provider.id !== first.id)];
+  }
+
+  /**
+   * Per-provider circuit breaker. Only retryable failures (429/5xx/timeouts) count
+   * towards opening it; a rejected prompt says nothing about provider health.
+   */
+  getCircuitBreaker(id: AIProviderId): CircuitBreaker {
+    let breaker = this.breakers.get(id);
+    if (!breaker) {
+      breaker = new CircuitBreaker(
+        AI_RESILIENCE.circuitFailureThreshold,
+        AI_RESILIENCE.circuitCooldownMs,
+        `ai:${id}`,
+        isRetryableProviderError
+      );
+      this.breakers.set(id, breaker);
+    }
+    return breaker;
+  }
+
+  getCircuitStates(): Record<AIProviderId, CircuitBreakerSnapshot> {
+    return Object.fromEntries(
+      this.list().map(provider => [provider.id, this.getCircuitBreaker(provider.id).getSnapshot()])
+    ) as Record<AIProviderId, CircuitBreakerSnapshot>;
+  }
+
+  /**
+   * Probe every configured provider. Unconfigured providers report unhealthy without a network call.
+   */
+  async checkHealth(force = false): Promise<Record<AIProviderId, ProviderHealth>> {
+    const entries = await Promise.all(this.list().map(async (provider): Promise<[AIProviderId, ProviderHealth]> => {
+      if (!provider.isConfigured()) {
+        return [provider.id, { healthy: false, error: 'Not configured', checkedAt: new Date().toISOString() }];
+      }
+
+      const cached = this.healthCache.get(provider.id);
+      if (!force && cached && Date.now() - new Date(cached.checkedAt).getTime() < HEALTH_CACHE_TTL_MS) {
+        return [provider.id, cached];
+      }
+
+      const health = await provider.checkHealth();
+      this.healthCache.set(provider.id, health);
+      return [provider.id, health];
+    }));
+
+    return Object.fromEntries(entries) as Record<AIProviderId, ProviderHealth>;
+  }
+
+  /**
+   * Serializable description of the registry for API responses
+   */
+  async describe(options: { includeHealth?: boolean } = {}): Promise<ProviderSummary[]> {
+    const health = options.includeHealth ? await this.checkHealth() : null;
+
+    return this.list().map(provider => ({
+      id: provider.id,
+      name: provider.name,
+      configured: provider.isConfigured(),
+      defaultModel: provider.getDefaultModel(),
+      models: provider.listModels(),
+      capabilities: provider.capabilities,
+      circuit: this.getCircuitBreaker(provider.id).getSnapshot(),
+      ...(health && { health: health[provider.id] })
+    }));
+  }
+}
+
+export const providerRegistry = new AIProviderRegistry();
+
+// Registration order is the global preference order when no plan is given
+[anthropicProvider, groqProvider, openAICompatibleProvider, mockProvider].forEach(provider => {
+  providerRegistry.register(provider);
+});
@@ -0,0 +1,187 @@
+import { OPENAI_COMPATIBLE_BASE_URL, OPENAI_COMPATIBLE_API_KEY, OPENAI_COMPATIBLE_MODELS } from '../config';
+import { AIProviderAdapter, AIModelInfo, ProviderGenerateOptions, ProviderGenerateResult, ProviderHealth, TokenUsage } from './types';
+import { ProviderRequestError } from './resilience';
+
+// Request timeout, streamed or not; local models on CPU can be slow
+const REQUEST_TIMEOUT_MS = 120000;
+const HEALTH_TIMEOUT_MS = 5000;
+
+function endpoint(path: string): string {
+  return `${(OPENAI_COMPATIBLE_BASE_URL || '').replace(/\/+$/, '')}${path}`;
+}
+
+function headers(): Record<string, string> {
+  return {
+    'Content-Type': 'application/json',
+    ...(OPENAI_COMPATIBLE_API_KEY && { Authorization: `Bearer ${OPENAI_COMPATIBLE_API_KEY}` })
+  };
+}
+
+// The parts of the chat completions responses this adapter reads
+interface ChatCompletionUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+interface ChatCompletionResponse {
+  choices?: { message?: { content?: string | null } }[];
+  usage?: ChatCompletionUsage | null;
+}
+
+interface ChatCompletionChunk {
+  choices?: { delta?: { content?: string | null } }[];
+  usage?: ChatCompletionUsage | null;
+}
+
+function parseUsage(usage: ChatCompletionUsage | null | undefined): TokenUsage | undefined {
+  if (!usage || typeof usage.prompt_tokens !== 'number') return undefined;
+  return { inputTokens: usage.prompt_tokens, outputTokens: usage.completion_tokens ?? 0 };
+}
+
+function requestBody(prompt: string, model: string, options: ProviderGenerateOptions | undefined, stream: boolean) {
+  return JSON.stringify({
+    model,
+    messages: [{ role: 'user', content: prompt }],
+    max_tokens: options?.maxTokens ?? 1024,
+    temperature: options?.temperature ?? 0.7,
+    stream,
+    // Ask for a final usage chunk; servers that don't support it ignore the option
+    ...(stream && { stream_options: { include_usage: true } })
+  });
+}
+
+async function ensureOk(response: Response): Promise<void> {
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    throw new ProviderRequestError(
+      `OpenAI-compatible endpoint returned ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ''}`,
+      response.status
+    );
+  }
+}
+
+/**
+ * Generic provider for any server speaking the OpenAI chat completions API -
+ * a local Ollama or llama.cpp server, vLLM, or OpenAI itself.
+ */
+export const openAICompatibleProvider: AIProviderAdapter = {
+  id: 'openai-compatible',
+  name: 'OpenAI-compatible (local/self-hosted)',
+  capabilities: {
+    streaming: true,
+    maxContextTokens: 8192,
+    maxOutputTokens: 2048,
+    local: true
+  },
+
+  listModels(): AIModelInfo[] {
+    return OPENAI_COMPATIBLE_MODELS.map(id => ({
+      id,
+      name: id,
+      description: 'Model served by the configured OpenAI-compatible endpoint'
+    }));
+  },
+
+  getDefaultModel() {
+    return OPENAI_COMPATIBLE_MODELS[0] || 'llama3.1';
+  },
+
+  isConfigured() {
+    return !!OPENAI_COMPATIBLE_BASE_URL;
+  },
+
+  async generate(prompt: string, options?: ProviderGenerateOptions): Promise<ProviderGenerateResult> {
+    const model = options?.model || this.getDefaultModel();
+    try {
+      const response = await fetch(endpoint('/chat/completions'), {
+        method: 'POST',
+        headers: headers(),
+        body: requestBody(prompt, model, options, false),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+      });
+      await ensureOk(response);
+
+      const data: ChatCompletionResponse = await response.json();
+      return { content: data.choices?.[0]?.message?.content || '', model, usage: parseUsage(data.usage) };
+    } catch (error) {
+      console.error('[OPENAI_COMPATIBLE_API_ERROR]', error);
+      throw new Error(`Failed to generate content with OpenAI-compatible endpoint: ${error instanceof Error ? error.message : String(error)}`, { cause: error });
+    }
+  },
+
+  async stream(prompt: string, onText: (text: string) => void, options?: ProviderGenerateOptions): Promise<ProviderGenerateResult> {
+    const model = options?.model || this.getDefaultModel();
+    try {
+      const response = await fetch(endpoint('/chat/completions'), {
+        method: 'POST',
+        headers: headers(),
+        body: requestBody(prompt, model, options, true),
+        // Also covers reading the body, so a server that stops sending mid-stream can't hold the request
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+      });
+      await ensureOk(response);
+
+      if (!response.body) {
+        throw new Error('Streaming response has no body');
+      }
+
+      // Server-sent events: "data: {json}" lines, terminated by "data: [DONE]"
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      let content = '';
+      let usage: TokenUsage | undefined;
+
+      const readLine = (line: string) => {
+        const data = line.replace(/^data:\s*/, '').trim();
+        if (!line.startsWith('data:') || !data || data === '[DONE]') return;
+
+        const chunk: ChatCompletionChunk = JSON.parse(data);
+        const text = chunk.choices?.[0]?.delta?.content || '';
+        if (text) {
+          content += text;
+          onText(text);
+        }
+        usage = parseUsage(chunk.usage) ?? usage;
+      };
+
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        lines.forEach(readLine);
+      }
+
+      // The last event may end without a newline
+      buffer += decoder.decode();
+      if (buffer.trim()) readLine(buffer);
+
+      return { content, model, usage };
+    } catch (error) {
+      console.error('[OPENAI_COMPATIBLE_STREAM_ERROR]', error);
+      throw new Error(`Failed to stream content with OpenAI-compatible endpoint: ${error instanceof Error ? error.message : String(error)}`, { cause: error });
+    }
+  },
+
+  async checkHealth(): Promise<ProviderHealth> {
+    const start = Date.now();
+    try {
+      const response = await fetch(endpoint('/models'), {
+        headers: headers(),
+        signal: AbortSignal.timeout(HEALTH_TIMEOUT_MS)
+      });
+      await ensureOk(response);
+      return { healthy: true, latency: Date.now() - start, checkedAt: new Date().toISOString() };
+    } catch (error) {
+      return {
+        healthy: false,
+        latency: Date.now() - start,
+        error: error instanceof Error ? error.message : String(error),
+        checkedAt: new Date().toISOString()
+      };
+    }
+  }
+};
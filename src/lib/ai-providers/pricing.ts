@@ -0,0 +1,69 @@
+import { ANTHROPIC_MODELS, GROQ_MODELS } from '../config';
+import { AIProviderId, TokenUsage } from './types';
+
+// USD per million tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+// List prices; override or extend with AI_MODEL_PRICING='{"model-id":{"input":1,"output":2}}'
+const MODEL_PRICES: Record<string, ModelPrice> = {
+  [ANTHROPIC_MODELS.CLAUDE_3_5_SONNET]: { input: 3, output: 15 },
+  [ANTHROPIC_MODELS.CLAUDE_3_5_HAIKU]: { input: 0.8, output: 4 },
+  [ANTHROPIC_MODELS.CLAUDE_3_OPUS]: { input: 15, output: 75 },
+  [ANTHROPIC_MODELS.CLAUDE_3_SONNET]: { input: 3, output: 15 },
+  [ANTHROPIC_MODELS.CLAUDE_3_HAIKU]: { input: 0.25, output: 1.25 },
+  [GROQ_MODELS.LLAMA_3_1_70B_VERSATILE]: { input: 0.59, output: 0.79 },
+  [GROQ_MODELS.LLAMA_3_1_8B_INSTANT]: { input: 0.05, output: 0.08 },
+  [GROQ_MODELS.MIXTRAL_8X7B_32768]: { input: 0.24, output: 0.24 },
+  [GROQ_MODELS.GEMMA_7B_IT]: { input: 0.07, output: 0.07 }
+};
+
+// Used for models missing from the table - err on the side of overstating cost
+const PROVIDER_FALLBACK_PRICES: Record<AIProviderId, ModelPrice> = {
+  anthropic: { input: 3, output: 15 },
+  groq: { input: 0.59, output: 0.79 },
+  'openai-compatible': { input: 0, output: 0 }, // Self-hosted; infrastructure cost isn't per token
+  mock: { input: 0, output: 0 }
+};
+
+function loadPriceOverrides(): Record<string, ModelPrice> {
+  if (!process.env.AI_MODEL_PRICING) return {};
+  try {
+    return JSON.parse(process.env.AI_MODEL_PRICING);
+  } catch (error) {
+    console.error('[AI_PRICING] Invalid AI_MODEL_PRICING JSON, using list prices:', error);
+    return {};
+  }
+}
+
+const PRICE_OVERRIDES = loadPriceOverrides();
+
+export function getModelPrice(provider: string, model: string): ModelPrice {
+  return PRICE_OVERRIDES[model]
+    || MODEL_PRICES[model]
+    || PROVIDER_FALLBACK_PRICES[provider as AIProviderId]
+    || { input: 0, output: 0 };
+}
+
+/**
+ * Cost in USD of a single call
+ */
+export function calculateCost(provider: string, model: string, usage: TokenUsage): number {
+  const price = getModelPrice(provider, model);
+  const cost = (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+  // Keep sub-cent precision without float noise accumulating in reports
+  return Math.round(cost * 1e8) / 1e8;
+}
+
+/**
+ * Approximate token counts (~4 characters per token) when a provider doesn't report usage
+ */
+export function estimateTokenUsage(prompt: string, output: string): TokenUsage {
+  return {
+    inputTokens: Math.ceil(prompt.length / 4),
+    outputTokens: Math.ceil(output.length / 4),
+    estimated: true
+  };
+}
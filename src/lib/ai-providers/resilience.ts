@@ -0,0 +1,69 @@
+import { AI_RESILIENCE } from '../config';
+import { AppError, RetryConfig } from '../error-handler';
+
+// Network-level failures worth retrying regardless of provider SDK
+const RETRYABLE_ERROR_CODES = new Set(['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EAI_AGAIN', 'EPIPE', 'UND_ERR_SOCKET', 'UND_ERR_CONNECT_TIMEOUT']);
+const RETRYABLE_MESSAGE_PATTERN = /timed? ?out|timeout|socket hang up|overloaded|rate limit|temporarily unavailable/i;
+
+/**
+ * Error carrying the HTTP status of a failed provider call, for providers
+ * that talk to their API with fetch rather than an SDK
+ */
+export class ProviderRequestError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = 'ProviderRequestError';
+  }
+}
+
+// Provider wrappers rethrow with a friendlier message; the original error is kept as `cause`
+function errorChain(error: unknown): any[] {
+  const chain: any[] = [];
+  let current: any = error;
+  while (current && chain.length < 5 && !chain.includes(current)) {
+    chain.push(current);
+    current = current.cause;
+  }
+  return chain;
+}
+
+/**
+ * HTTP status of a provider error, looking through wrapped causes
+ */
+export function getProviderErrorStatus(error: unknown): number | undefined {
+  for (const link of errorChain(error)) {
+    if (typeof link?.status === 'number') return link.status;
+  }
+  return undefined;
+}
+
+/**
+ * Retry on rate limits (429), request timeouts (408), server errors (5xx) and
+ * network failures. Other client errors (bad request, auth) fail fast.
+ */
+export function isRetryableProviderError(error: unknown): boolean {
+  // An open breaker is a decision, not a transient failure
+  if (error instanceof AppError) return false;
+
+  const status = getProviderErrorStatus(error);
+  if (status !== undefined) {
+    return status === 408 || status === 429 || status >= 500;
+  }
+
+  return errorChain(error).some(link =>
+    link?.name === 'AbortError' ||
+    link?.name === 'TimeoutError' ||
+    /Timeout|Connection/.test(link?.constructor?.name || '') ||
+    RETRYABLE_ERROR_CODES.has(link?.code) ||
+    RETRYABLE_MESSAGE_PATTERN.test(link?.message || '')
+  );
+}
+
+// Exponential backoff for provider calls: base, 2x base, 4x base... capped
+export const AI_RETRY_CONFIG: RetryConfig = {
+  maxAttempts: Math.max(1, AI_RESILIENCE.retryAttempts),
+  delay: AI_RESILIENCE.retryBaseDelayMs,
+  backoffMultiplier: 2,
+  maxDelay: AI_RESILIENCE.retryMaxDelayMs,
+  shouldRetry: isRetryableProviderError
+};
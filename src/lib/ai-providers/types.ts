@@ -0,0 +1,74 @@
+// Identifiers for every provider the registry knows about
+export const AI_PROVIDER_IDS = ['anthropic', 'groq', 'openai-compatible', 'mock'] as const;
+export type AIProviderId = typeof AI_PROVIDER_IDS[number];
+
+// Model metadata exposed through /api/ai/providers
+export interface AIModelInfo {
+  id: string;
+  name: string;
+  description: string;
+}
+
+// What a provider can do, so callers can pick one that fits the request
+export interface AIProviderCapabilities {
+  streaming: boolean;
+  maxContextTokens: number;
+  maxOutputTokens: number;
+  local: boolean; // Runs on infrastructure we control (no third-party data sharing)
+}
+
+// Per-call generation options
+export interface ProviderGenerateOptions {
+  model?: string;
+  maxTokens?: number;
+  temperature?: number;
+}
+
+// Token counts reported by the provider; estimated when the API doesn't return usage
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  estimated?: boolean;
+}
+
+// Result of a single generation
+export interface ProviderGenerateResult {
+  content: string;
+  model: string;
+  usage?: TokenUsage;
+}
+
+// Health probe result
+export interface ProviderHealth {
+  healthy: boolean;
+  latency?: number;
+  error?: string;
+  checkedAt: string;
+}
+
+/**
+ * Contract every AI backend implements. Providers are registered once in the
+ * registry and looked up by id; AIService never talks to an SDK directly.
+ */
+export interface AIProviderAdapter {
+  readonly id: AIProviderId;
+  readonly name: string;
+  readonly capabilities: AIProviderCapabilities;
+
+  /** Models this provider can serve; the first entry is not necessarily the default */
+  listModels(): AIModelInfo[];
+
+  /** Model used when the caller doesn't pick one */
+  getDefaultModel(): string;
+
+  /** True when credentials/endpoints are present in the environment */
+  isConfigured(): boolean;
+
+  generate(prompt: string, options?: ProviderGenerateOptions): Promise<ProviderGenerateResult>;
+
+  /** Stream text deltas to onText and resolve with the full result */
+  stream(prompt: string, onText: (text: string) => void, options?: ProviderGenerateOptions): Promise<ProviderGenerateResult>;
+
+  /** Cheap reachability probe - must not consume generation tokens */
+  checkHealth(): Promise<ProviderHealth>;
+}
@@ -1,18 +1,39 @@
 import { generateWithClaude } from './anthropic';
 import { generateWithGroq } from './groq';
-import { ANTHROPIC_API_KEY, GROQ_API_KEY, ANTHROPIC_MODELS, GROQ_MODELS } from './config';
+import { providerRegistry, AIProviderId, AI_RETRY_CONFIG, isRetryableProviderError, estimateTokenUsage, calculateCost, TokenUsage, ProviderGenerateResult } from './ai-providers';
+import { aiUsageLedger, AIUsageContext } from './ai-usage-ledger';
+import { promptRegistry, RenderedPrompt, ExperimentArm } from './prompt-registry';
+import { REVISION_INSTRUCTIONS } from './ai-prompts';
+import {
+  StructuredOutput,
+  getOutputFormatInstructions,
+  buildRepairPrompt,
+  parseStructuredOutput,
+  renderStructuredOutput,
+  getStructuredHashtags
+} from './structured-output';
+import { ConstraintViolation, validatePlatformOutput, buildConstraintRewritePrompt, measureLength, HASHTAG_PATTERN } from './platform-constraints';
+import { AI_CONSTRAINT_MAX_REWRITES, CONTENT_ATOMIZATION, CONTENT_CHUNKING } from './config';
+import { splitIntoChunks, needsChunking, buildDigest, mapWithConcurrency, chunkSummaryStore, ChunkSummary } from './content-chunking';
+import { resolvePostCounts, parseAtomIdeas, buildAngleInstructions, findDuplicate, AtomIdea, PostCounts } from './content-atomizer';
+import { withRetry, AppError, ErrorType, ErrorSeverity, Errors } from './error-handler';
+import type { SubscriptionPlan } from './subscription';
+import type { BrandComplianceReport } from './brand-compliance';
+import type { GlossaryReplacement } from './glossary';
 
 // AI Provider types
-export type AIProvider = 'anthropic' | 'groq';
+export type AIProvider = AIProviderId;
 export type ContentType = 'blog' | 'article' | 'social_post' | 'email' | 'video_transcript' | 'general';
 export type Platform = 'twitter' | 'linkedin' | 'instagram' | 'facebook' | 'email' | 'newsletter' | 'thread' | 'tiktok' | 'youtube' | 'general';
 
 // AI Service configuration
 export interface AIServiceConfig {
   provider: AIProvider;
+  plan?: SubscriptionPlan; // Picks the plan's preferred provider and fallback chain
   model?: string;
   maxTokens?: number;
   temperature?: number;
+  usage?: AIUsageContext; // Attribution for the cost ledger (user, team, content)
 }
 
 // Content generation request
@@ -32,6 +53,40 @@ export interface ContentRepurposingRequest {
   brandVoice?: string;
   tone?: string;
   additionalInstructions?: string;
+  outputFormat?: 'structured' | 'text'; // Structured (the default) asks for and validates the platform's JSON shape
+}
+
+// Atomize mode: how many distinct posts to write per platform from one source
+export interface ContentAtomizationRequest extends Omit<ContentRepurposingRequest, 'platforms'> {
+  postsPerPlatform: PostCounts;
+}
+
+// One-click transforms of a single platform output
+export type RevisionTransform = keyof typeof REVISION_INSTRUCTIONS;
+export type RevisionAction = 'regenerate' | 'refine' | RevisionTransform | 'remove_hashtags' | 'brand_fix';
+
+// Rework of one existing platform output
+export interface ContentRevisionRequest {
+  platform: Platform;
+  action: Exclude<RevisionAction, 'remove_hashtags'>; // Removing hashtags needs no model call
+  content: string; // The output as it is now
+  originalContent: string;
+  instruction?: string; // Required for 'refine' and 'brand_fix'; extra guidance for 'regenerate'
+  brandVoice?: string;
+  tone?: string;
+  language?: string; // Language a translated output is written in, kept through the revision
+}
+
+// Translation of one existing platform output into another language
+export interface ContentTranslationRequest {
+  platform: Platform;
+  content: string;
+  structured?: StructuredOutput | null; // Translated part by part when the output has them
+  targetLanguage: string; // Display name, e.g. "German (Germany)"
+  sourceLanguage?: string;
+  brandVoice?: string;
+  tone?: string;
+  additionalInstructions?: string;
 }
 
 // Response interface
@@ -40,6 +95,10 @@ export interface AIResponse {
   provider: AIProvider;
   model: string;
   tokensUsed?: number;
+  usage?: TokenUsage;
+  latencyMs?: number;
+  costUsd?: number;
+  promptVersionId?: string | null; // Registry version the prompt was rendered from
 }
 
 // Platform-specific repurposed content
@@ -48,54 +107,92 @@ export interface RepurposedContent {
   content: string;
   characterCount: number;
   hashtagSuggestions?: string[];
+  promptVersionId?: string | null;
+  experiment?: { id: string; arm: ExperimentArm }; // Prompt experiment arm the output was generated in
+  structured?: StructuredOutput; // Validated per-platform parts; content is their plain-text rendering
+  constraintWarnings?: ConstraintViolation[]; // Platform rules still broken after the rewrite attempts
+  compliance?: BrandComplianceReport; // How well it follows the brand voice profile it was written in
+  glossary?: GlossaryReplacement[]; // Team glossary replacements made after generation
 }
 
+// One post of an atomized campaign
+export interface AtomizedPost extends RepurposedContent {
+  ideaIndex: number; // Idea the post was written from
+  angle: string;
+  sequence: number; // 1-based position among the campaign's posts for the same platform
+  duplicateOf?: number; // Sequence of an earlier post it still reads like after a rewrite
+}
+
+export interface AtomizeFailure {
+  platform: Platform;
+  ideaIndex: number;
+  message: string;
+}
+
+export interface AtomizedContent {
+  ideas: AtomIdea[];
+  posts: AtomizedPost[];
+  failures: AtomizeFailure[];
+  warnings: string[];
+}
+
+// Per-platform progress events emitted while streaming a repurpose job
+export type RepurposeStreamEvent =
+  | { type: 'start'; platform: Platform }
+  | { type: 'token'; platform: Platform; delta: string }
+  | { type: 'complete'; platform: Platform; result: RepurposedContent; provider: AIProvider; model: string }
+  | { type: 'error'; platform: Platform; message: string };
+
 // Main AI Service class
 export class AIService {
   private defaultProvider: AIProvider;
-  private fallbackProvider: AIProvider | null;
 
   constructor() {
-    // Determine available providers and set defaults
-    const hasAnthropic = !!ANTHROPIC_API_KEY;
-    const hasGroq = !!GROQ_API_KEY;
+    const configured = providerRegistry.listConfigured();
 
-    if (!hasAnthropic && !hasGroq) {
-      throw new Error('No AI providers configured. Please set either ANTHROPIC_API_KEY or GROQ_API_KEY.');
+    if (configured.length === 0) {
+      throw new Error('No AI providers configured. Please set ANTHROPIC_API_KEY, GROQ_API_KEY or OPENAI_COMPATIBLE_BASE_URL.');
     }
 
-    // Prefer Anthropic as primary, Groq as fallback
-    this.defaultProvider = hasAnthropic ? 'anthropic' : 'groq';
-    // Only use fallback if both providers are properly configured
-    const groqConfigured = hasGroq && GROQ_API_KEY !== 'your-groq-api-key';
-    this.fallbackProvider = hasAnthropic && groqConfigured ? 'groq' : null;
+    // Registry order is the global preference: Anthropic first, then Groq, then self-hosted
+    this.defaultProvider = configured[0]!.id;
+  }
+
+  /**
+   * Pick the provider for a request: explicit choice, then the plan default, then the global default
+   */
+  private resolveProvider(config?: Partial<AIServiceConfig>): AIProvider {
+    if (config?.provider) {
+      return providerRegistry.resolveId(config.provider) ?? config.provider;
+    }
+
+    if (config?.plan) {
+      const planProvider = providerRegistry.getProvidersForPlan(config.plan)[0];
+      if (planProvider) return planProvider.id;
+    }
+
+    return this.defaultProvider;
   }
 
   /**
    * Generate content from keywords
    */
   async generateContent(request: ContentGenerationRequest, config?: Partial<AIServiceConfig>): Promise<AIResponse> {
-    const prompt = this.buildContentGenerationPrompt(request);
-    return this.generateWithProvider(prompt, config?.provider || this.defaultProvider, config);
+    const prompt = await this.buildContentGenerationPrompt(request);
+    const response = await this.generateWithProvider(prompt.prompt, this.resolveProvider(config), this.withUsage(config, { operation: 'generate' }));
+    return { ...response, promptVersionId: prompt.versionId };
   }
 
   /**
    * Repurpose content for multiple platforms
    */
-  async repurposeContent(request: ContentRepurposingRequest, config?: Partial<AIServiceConfig>): Promise<RepurposedContent[]> {
+  async repurposeContent(originalRequest: ContentRepurposingRequest, originalConfig?: Partial<AIServiceConfig>): Promise<RepurposedContent[]> {
+    const { request, config } = await this.condenseLongContent(originalRequest, originalConfig);
     const results: RepurposedContent[] = [];
 
     for (const platform of request.platforms) {
       try {
-        const prompt = this.buildRepurposingPrompt(request, platform);
-        const response = await this.generateWithProvider(prompt, config?.provider || this.defaultProvider, config);
-        
-        results.push({
-          platform,
-          content: response.content,
-          characterCount: response.content.length,
-          hashtagSuggestions: this.extractHashtags(response.content)
-        });
+        results.push(await this.repurposeForPlatform(request, platform, config));
       } catch (error) {
         console.error(`Failed to repurpose content for ${platform}:`, error);
         console.error('Error details:', {
@@ -116,209 +213,631 @@ export class AIService {
   }
 
   /**
-   * Generate content using specified provider with fallback
+   * Atomize mode: extract distinct ideas, quotes and statistics from the content, then write each
+   * platform's posts from a different idea so a campaign has no repeated angles. A post that still
+   * reads like an earlier one on the same platform is rewritten once and flagged if it stays close.
+   * Failed posts are reported alongside the rest; the call only throws when nothing was written.
+   */
+  async atomizeContent(originalRequest: ContentAtomizationRequest, originalConfig?: Partial<AIServiceConfig>): Promise<AtomizedContent> {
+    const { postsPerPlatform, ...rest } = originalRequest;
+    const counts = resolvePostCounts(postsPerPlatform);
+    const platforms = counts.map(([platform]) => platform);
+    const { request, config } = await this.condenseLongContent({ ...rest, platforms }, originalConfig);
+
+    const ideaCount = Math.min(CONTENT_ATOMIZATION.maxIdeas, Math.max(...counts.map(([, count]) => count)));
+    const prompt = await promptRegistry.render('atomize', undefined, {
+      content: request.originalContent,
+      ideaCount,
+      platforms: platforms.join(', ')
+    }, { userId: config?.usage?.userId });
+    const extraction = await this.generateWithProvider(
+      prompt.prompt,
+      this.resolveProvider(config),
+      this.withUsage(config, { operation: 'atomize', platform: undefined })
+    );
+
+    const ideas = parseAtomIdeas(extraction.content, ideaCount);
+    if (ideas.length === 0) {
+      throw Errors.externalApi('No distinct ideas could be extracted from the content', { response: extraction.content.slice(0, 500) });
+    }
+
+    const warnings: string[] = [];
+    const tasks = counts.flatMap(([platform, count]) => {
+      if (count > ideas.length) {
+        warnings.push(`Only ${ideas.length} distinct ideas were found, so ${platform} gets ${ideas.length} posts instead of ${count}`);
+      }
+      const platformIdeas = ideas.slice(0, count);
+      return platformIdeas.map(idea => ({ platform, idea, siblings: platformIdeas }));
+    });
+
+    const write = (task: (typeof tasks)[number], retry = false) => this.repurposeForPlatform({
+      ...request,
+      platforms: [task.platform],
+      additionalInstructions: [request.additionalInstructions, buildAngleInstructions(task.idea, task.siblings, retry)].filter(Boolean).join(' ')
+    }, task.platform, config);
+
+    let firstError: unknown = null;
+    const failures: AtomizeFailure[] = [];
+    const outcomes = await mapWithConcurrency(tasks, CONTENT_ATOMIZATION.concurrency, async (task) => {
+      try {
+        return await write(task);
+      } catch (error) {
+        console.error(`Failed to atomize idea ${task.idea.index + 1} for ${task.platform}:`, error);
+        firstError ??= error;
+        failures.push({ platform: task.platform, ideaIndex: task.idea.index, message: error instanceof Error ? error.message : String(error) });
+        return null;
+      }
+    });
+
+    // Duplicate check runs in campaign order so the first post on an angle keeps it
+    const posts: AtomizedPost[] = [];
+    for (const [index, task] of tasks.entries()) {
+      let result = outcomes[index];
+      if (!result) continue;
+
+      const samePlatform = posts.filter(post => post.platform === task.platform);
+      let duplicate = findDuplicate(result.content, samePlatform.map(post => post.content));
+      if (duplicate !== -1) {
+        try {
+          const rewrite = await write(task, true);
+          const rewriteDuplicate = findDuplicate(rewrite.content, samePlatform.map(post => post.content));
+          if (rewriteDuplicate === -1) {
+            result = rewrite;
+            duplicate = -1;
+          }
+        } catch (error) {
+          console.error(`Duplicate rewrite failed for ${task.platform}:`, error);
+        }
+      }
+
+      posts.push({
+        ...result,
+        ideaIndex: task.idea.index,
+        angle: task.idea.angle,
+        sequence: samePlatform.length + 1,
+        ...(duplicate !== -1 && { duplicateOf: samePlatform[duplicate]!.sequence })
+      });
+    }
+
+    if (posts.length === 0) {
+      throw firstError;
+    }
+    return { ideas, posts, failures, warnings };
+  }
+
+  /**
+   * Repurpose content for multiple platforms, emitting progress events as text streams in.
+   * Platforms run concurrently; failed platforms emit an 'error' event and are left out of the result.
+   */
+  async repurposeContentStream(
+    originalRequest: ContentRepurposingRequest,
+    onEvent: (event: RepurposeStreamEvent) => void,
+    originalConfig?: Partial<AIServiceConfig>
+  ): Promise<RepurposedContent[]> {
+    const { request, config } = await this.condenseLongContent(originalRequest, originalConfig);
+    const outcomes = await Promise.all(request.platforms.map(async (platform) => {
+      onEvent({ type: 'start', platform });
+
+      try {
+        const prompt = await this.buildRepurposingPrompt(request, platform, config?.usage?.userId);
+        const platformConfig = this.withUsage(config, { operation: 'repurpose', platform });
+        const response = await this.streamWithProvider(
+          this.withOutputFormat(prompt.prompt, platform, request),
+          this.resolveProvider(config),
+          (delta) => onEvent({ type: 'token', platform, delta }),
+          platformConfig
+        );
+
+        const result: RepurposedContent = {
+          platform,
+          ...await this.toConstrainedOutput(platform, response.content, request, platformConfig),
+          promptVersionId: prompt.versionId,
+          ...(prompt.experiment && { experiment: prompt.experiment })
+        };
+
+        onEvent({ type: 'complete', platform, result, provider: response.provider, model: response.model });
+        return result;
+      } catch (error) {
+        console.error(`Failed to stream repurposed content for ${platform}:`, error);
+        onEvent({
+          type: 'error',
+          platform,
+          message: error instanceof Error ? error.message : String(error)
+        });
+        return null;
+      }
+    }));
+
+    return outcomes.filter((result): result is RepurposedContent => result !== null);
+  }
+
+  /**
+   * Rework a single platform output: regenerate it from the source, refine it with a free-text
+   * instruction or apply a one-click transform. Goes through the same validation and constraint
+   * rewrites as repurposing; unlike repurposeContent, failures are thrown.
+   */
+  async reviseContent(request: ContentRevisionRequest, originalConfig?: Partial<AIServiceConfig>): Promise<RepurposedContent> {
+    const { platform, action, brandVoice, tone, language } = request;
+    const userId = originalConfig?.usage?.userId;
+
+    if ((action === 'refine' || action === 'brand_fix') && !request.instruction?.trim()) {
+      throw Errors.validation('Describe how the output should be refined');
+    }
+
+    const { request: outputRequest, config } = await this.condenseLongContent({
+      originalContent: request.originalContent,
+      platforms: [platform],
+      brandVoice,
+      tone,
+      ...(action === 'regenerate' && { additionalInstructions: request.instruction })
+    }, originalConfig);
+    const { originalContent } = outputRequest;
+    const prompt = action === 'regenerate'
+      ? await this.buildRepurposingPrompt(outputRequest, platform, userId)
+      : await promptRegistry.render('revise', platform, {
+        platform,
+        content: request.content,
+        instruction: [
+          action === 'refine' || action === 'brand_fix' ? request.instruction : REVISION_INSTRUCTIONS[action],
+          language && `Keep it in ${language}.`
+        ].filter(Boolean).join(' '),
+        originalContent,
+        brandVoice,
+        tone
+      }, { userId });
+
+    const platformConfig = this.withUsage(config, { operation: action === 'regenerate' ? 'repurpose' : 'revise', platform });
+    const response = await this.generateWithProvider(
+      this.withOutputFormat(prompt.prompt, platform, outputRequest),
+      this.resolveProvider(config),
+      platformConfig
+    );
+
+    return {
+      platform,
+      ...await this.toConstrainedOutput(platform, response.content, outputRequest, platformConfig),
+      promptVersionId: prompt.versionId,
+      ...(prompt.experiment && { experiment: prompt.experiment })
+    };
+  }
+
+  /**
+   * Translate a single platform output into another language. The translation is validated and
+   * rewritten against the platform's limits like any other output, since text length changes
+   * between languages. Failures are thrown.
+   */
+  async translateContent(request: ContentTranslationRequest, config?: Partial<AIServiceConfig>): Promise<RepurposedContent> {
+    const { platform, structured } = request;
+    const prompt = await promptRegistry.render('translate', platform, {
+      platform,
+      content: structured ? JSON.stringify(structured, null, 2) : request.content,
+      targetLanguage: request.targetLanguage,
+      sourceLanguage: request.sourceLanguage,
+      brandVoice: request.brandVoice,
+      tone: request.tone,
+      additionalInstructions: request.additionalInstructions
+    }, { userId: config?.usage?.userId });
+
+    // Outputs without parts were written as plain text and are translated as plain text
+    const outputRequest: ContentRepurposingRequest = {
+      originalContent: request.content,
+      platforms: [platform],
+      outputFormat: structured ? 'structured' : 'text'
+    };
+    const platformConfig = this.withUsage(config, { operation: 'translate', platform });
+    const response = await this.generateWithProvider(
+      this.withOutputFormat(prompt.prompt, platform, outputRequest),
+      this.resolveProvider(config),
+      platformConfig
+    );
+
+    return {
+      platform,
+      ...await this.toConstrainedOutput(platform, response.content, outputRequest, platformConfig),
+      promptVersionId: prompt.versionId,
+      ...(prompt.experiment && { experiment: prompt.experiment })
+    };
+  }
+
+  /**
+   * Run an already rendered prompt along the provider chain and return the model's text as it is.
+   * For analysis calls whose output is not a platform post.
+   */
+  async completePrompt(prompt: string, config?: Partial<AIServiceConfig>): Promise<AIResponse> {
+    return this.generateWithProvider(prompt, this.resolveProvider(config), config);
+  }
+
+  /**
+   * Write and validate one platform output. Throws on failure; callers decide whether to carry on.
+   */
+  private async repurposeForPlatform(
+    request: ContentRepurposingRequest,
+    platform: Platform,
+    config?: Partial<AIServiceConfig>
+  ): Promise<RepurposedContent> {
+    const prompt = await this.buildRepurposingPrompt(request, platform, config?.usage?.userId);
+    const platformConfig = this.withUsage(config, { operation: 'repurpose', platform });
+    const response = await this.generateWithProvider(
+      this.withOutputFormat(prompt.prompt, platform, request),
+      this.resolveProvider(config),
+      platformConfig
+    );
+
+    return {
+      platform,
+      ...await this.toConstrainedOutput(platform, response.content, request, platformConfig),
+      promptVersionId: prompt.versionId,
+      ...(prompt.experiment && { experiment: prompt.experiment })
+    };
+  }
+
+  /**
+   * Map-reduce for long documents: the content is split into chunks, each chunk is summarised
+   * (reusing summaries stored for the same content) and the platform outputs are then written
+   * from the joined summaries instead of the full text. Short content passes through untouched.
+   */
+  private async condenseLongContent(
+    request: ContentRepurposingRequest,
+    config?: Partial<AIServiceConfig>
+  ): Promise<{ request: ContentRepurposingRequest; config?: Partial<AIServiceConfig> }> {
+    if (!needsChunking(request.originalContent)) {
+      return { request, config };
+    }
+
+    const chunks = splitIntoChunks(request.originalContent);
+    if (chunks.length > CONTENT_CHUNKING.maxChunks) {
+      throw Errors.payloadTooLarge(
+        `Content is too long to repurpose (${chunks.length} sections, the limit is ${CONTENT_CHUNKING.maxChunks})`,
+        { chunks: chunks.length, limit: CONTENT_CHUNKING.maxChunks }
+      );
+    }
+
+    const usage = config?.usage;
+    const scope = usage?.userId ? { userId: usage.userId, contentId: usage.contentId, requestId: usage.requestId } : undefined;
+    const stored = scope ? await chunkSummaryStore.load(scope) : new Map<string, ChunkSummary>();
+    const summaryConfig = { ...this.withUsage(config, { operation: 'summarize', platform: undefined }), maxTokens: CONTENT_CHUNKING.summaryMaxTokens };
+
+    let firstError: unknown = null;
+    const outcomes = await mapWithConcurrency(chunks, CONTENT_CHUNKING.concurrency, async (chunk): Promise<ChunkSummary | null> => {
+      const existing = stored.get(chunk.hash);
+      if (existing) {
+        return { ...existing, index: chunk.index, heading: chunk.heading };
+      }
+
+      try {
+        const prompt = await promptRegistry.render('summarize', undefined, {
+          content: chunk.text,
+          section: chunk.index + 1,
+          totalSections: chunks.length,
+          heading: chunk.heading
+        });
+        const response = await this.generateWithProvider(prompt.prompt, this.resolveProvider(config), summaryConfig);
+        return {
+          index: chunk.index,
+          hash: chunk.hash,
+          heading: chunk.heading,
+          charCount: chunk.text.length,
+          summary: response.content.trim(),
+          provider: response.provider,
+          model: response.model
+        };
+      } catch (error) {
+        console.error(`Failed to summarize chunk ${chunk.index + 1} of ${chunks.length}:`, error);
+        firstError ??= error;
+        return null;
+      }
+    });
+
+    const summaries = outcomes.filter((summary): summary is ChunkSummary => summary !== null);
+    // Keep whatever was summarised so a retry only redoes the missing chunks
+    if (scope && (summaries.some(summary => !stored.has(summary.hash)) || stored.size !== summaries.length)) {
+      await chunkSummaryStore.save(scope, summaries);
+    }
+    if (firstError) {
+      throw firstError;
+    }
+
+    const note = `The content above is a part-by-part digest of a ${chunks.length}-part document. Draw on the whole document, not just the first part.`;
+    return {
+      request: {
+        ...request,
+        originalContent: buildDigest(summaries),
+        additionalInstructions: [request.additionalInstructions, note].filter(Boolean).join(' ')
+      },
+      config: { ...config, maxTokens: config?.maxTokens ?? CONTENT_CHUNKING.outputMaxTokens }
+    };
+  }
+
+  /**
+   * Generate content, walking the plan's fallback chain. Each provider is retried with
+   * exponential backoff on retryable errors and skipped entirely while its circuit is open.
    */
   private async generateWithProvider(
     prompt: string, 
     provider: AIProvider, 
     config?: Partial<AIServiceConfig>
   ): Promise<AIResponse> {
-    try {
-      let content: string;
-      let model: string;
+    let lastError: unknown = null;
 
-      if (provider === 'anthropic') {
-        if (!ANTHROPIC_API_KEY) {
-          throw new Error('Anthropic API key not configured');
-        }
-        model = config?.model || ANTHROPIC_MODELS.DEFAULT;
-        content = await generateWithClaude(prompt, model);
-      } else if (provider === 'groq') {
-        if (!GROQ_API_KEY) {
-          throw new Error('Groq API key not configured');
-        }
-        model = config?.model || GROQ_MODELS.DEFAULT;
-        content = await generateWithGroq(prompt, model);
-      } else {
-        throw new Error(`Unsupported AI provider: ${provider}`);
+    for (const adapter of this.getProviderChain(provider, config)) {
+      const breaker = providerRegistry.getCircuitBreaker(adapter.id);
+      if (!breaker.canExecute()) {
+        console.warn(`Skipping ${adapter.id} provider: circuit open`);
+        continue;
       }
 
-      return {
-        content,
-        provider,
-        model
+      // The requested model belongs to the requested provider only
+      const options = {
+        model: adapter.id === provider ? config?.model : undefined,
+        maxTokens: config?.maxTokens,
+        temperature: config?.temperature
       };
-    } catch (error) {
-      console.error(`Failed to generate with ${provider}:`, error);
-      
-      // Try fallback provider if available
-      if (this.fallbackProvider && provider !== this.fallbackProvider) {
-        console.log(`Falling back to ${this.fallbackProvider} provider`);
-        return this.generateWithProvider(prompt, this.fallbackProvider, config);
+
+      try {
+        let startedAt = Date.now();
+        const result = await withRetry(
+          () => {
+            startedAt = Date.now();
+            return breaker.execute(() => adapter.generate(prompt, options));
+          },
+          AI_RETRY_CONFIG
+        );
+
+        return await this.recordUsage(prompt, adapter.id, result, Date.now() - startedAt, config);
+      } catch (error) {
+        console.error(`Failed to generate with ${adapter.id}:`, error);
+        lastError = error;
       }
-      
-      throw error;
     }
+
+    throw this.chainExhaustedError(lastError);
   }
 
   /**
-   * Build prompt for content generation from keywords
+   * Stream content along the fallback chain. Retries and fallback only happen while
+   * no text has been emitted, so the client never sees mixed output.
    */
-  private buildContentGenerationPrompt(request: ContentGenerationRequest): string {
-    const { keywords, contentType, tone, brandVoice, targetAudience, additionalInstructions } = request;
+  private async streamWithProvider(
+    prompt: string,
+    provider: AIProvider,
+    onText: (text: string) => void,
+    config?: Partial<AIServiceConfig>
+  ): Promise<AIResponse> {
+    let emitted = false;
+    const forward = (text: string) => {
+      emitted = true;
+      onText(text);
+    };
+    let lastError: unknown = null;
+
+    for (const adapter of this.getProviderChain(provider, config)) {
+      const breaker = providerRegistry.getCircuitBreaker(adapter.id);
+      if (!breaker.canExecute()) {
+        console.warn(`Skipping ${adapter.id} provider: circuit open`);
+        continue;
+      }
 
-    let prompt = `Generate a professional ${contentType} based on the following keywords: "${keywords}"\n\n`;
+      const options = {
+        model: adapter.id === provider ? config?.model : undefined,
+        maxTokens: config?.maxTokens,
+        temperature: config?.temperature
+      };
 
-    // Add content type specific instructions
-    switch (contentType) {
-      case 'blog':
-        prompt += 'Create a comprehensive blog post with an engaging title, introduction, main body with subheadings, and conclusion. ';
-        break;
-      case 'article':
-        prompt += 'Write an informative article with a clear structure, compelling headline, and valuable insights. ';
-        break;
-      case 'social_post':
-        prompt += 'Create an engaging social media post that captures attention and encourages interaction. ';
-        break;
-      case 'email':
-        prompt += 'Write a professional email with a clear subject line, proper greeting, main message, and call-to-action. ';
-        break;
-      case 'video_transcript':
-        prompt += 'Create a video script/transcript with natural speaking flow, clear segments, and engaging delivery. ';
-        break;
-      default:
-        prompt += 'Create high-quality, engaging content that effectively communicates the message. ';
+      try {
+        let startedAt = Date.now();
+        const result = await withRetry(
+          () => {
+            startedAt = Date.now();
+            return breaker.execute(() => adapter.capabilities.streaming
+              ? adapter.stream(prompt, forward, options)
+              : adapter.generate(prompt, options).then(response => {
+                  forward(response.content);
+                  return response;
+                }));
+          },
+          { ...AI_RETRY_CONFIG, shouldRetry: (error) => !emitted && isRetryableProviderError(error) }
+        );
+
+        return await this.recordUsage(prompt, adapter.id, result, Date.now() - startedAt, config);
+      } catch (error) {
+        console.error(`Failed to stream with ${adapter.id}:`, error);
+        if (emitted) {
+          throw error;
+        }
+        lastError = error;
+      }
     }
 
-    if (tone) {
-      prompt += `The tone should be ${tone}. `;
-    }
+    throw this.chainExhaustedError(lastError);
+  }
 
-    if (brandVoice) {
-      prompt += `Brand voice: ${brandVoice}. `;
+  /**
+   * Providers to try for a request, failing fast if the requested one is unknown or unconfigured
+   */
+  private getProviderChain(provider: AIProvider, config?: Partial<AIServiceConfig>) {
+    const adapter = providerRegistry.get(provider);
+    if (!adapter) {
+      throw new Error(`Unsupported AI provider: ${provider}`);
     }
-
-    if (targetAudience) {
-      prompt += `Target audience: ${targetAudience}. `;
+    if (!adapter.isConfigured()) {
+      throw new Error(`${adapter.name} is not configured`);
     }
+    return providerRegistry.getFallbackChain(config?.plan, adapter.id);
+  }
 
-    prompt += 'Ensure the content is well-structured, engaging, and provides value to the reader. ';
+  /**
+   * Write the successful call to the cost ledger and build the response.
+   * Providers that don't report usage get an estimate, flagged as such.
+   */
+  private async recordUsage(
+    prompt: string,
+    provider: AIProvider,
+    result: ProviderGenerateResult,
+    latencyMs: number,
+    config?: Partial<AIServiceConfig>
+  ): Promise<AIResponse> {
+    const usage = result.usage ?? estimateTokenUsage(prompt, result.content);
+
+    await aiUsageLedger.record({
+      ...config?.usage,
+      operation: config?.usage?.operation ?? 'generate',
+      plan: config?.usage?.plan ?? config?.plan,
+      provider,
+      model: result.model,
+      usage,
+      latencyMs
+    });
+
+    return {
+      content: result.content,
+      provider,
+      model: result.model,
+      tokensUsed: usage.inputTokens + usage.outputTokens,
+      usage,
+      latencyMs,
+      costUsd: calculateCost(provider, result.model, usage)
+    };
+  }
 
-    if (additionalInstructions) {
-      prompt += `Additional instructions: ${additionalInstructions} `;
+  private withUsage(config: Partial<AIServiceConfig> | undefined, usage: AIUsageContext): Partial<AIServiceConfig> {
+    return { ...config, usage: { ...config?.usage, ...usage } };
+  }
+
+  private chainExhaustedError(lastError: unknown): Error {
+    if (lastError instanceof Error) {
+      return lastError;
     }
+    return new AppError(
+      'All AI providers are temporarily unavailable. Please try again shortly.',
+      ErrorType.EXTERNAL_API,
+      ErrorSeverity.HIGH,
+      503
+    );
+  }
 
-    prompt += '\\n\\nPlease provide only the content without any meta-commentary or explanations.';
+  /**
+   * Build prompt for content generation from keywords, using the content type's registry template
+   */
+  private buildContentGenerationPrompt(request: ContentGenerationRequest): Promise<RenderedPrompt> {
+    const { keywords, contentType, tone, brandVoice, targetAudience, additionalInstructions } = request;
 
-    return prompt;
+    return promptRegistry.render('generate', contentType, {
+      keywords,
+      contentType,
+      tone,
+      brandVoice,
+      targetAudience,
+      additionalInstructions
+    });
   }
 
   /**
-   * Build prompt for content repurposing
+   * Build prompt for content repurposing, using the platform's registry template.
+   * With a user id, the user is placed in any prompt experiment running for the platform.
    */
-  private buildRepurposingPrompt(request: ContentRepurposingRequest, platform: Platform): string {
+  private buildRepurposingPrompt(request: ContentRepurposingRequest, platform: Platform, userId?: string): Promise<RenderedPrompt> {
     const { originalContent, brandVoice, tone, additionalInstructions } = request;
 
-    let prompt = `Repurpose the following content for ${platform}:\\n\\n"${originalContent}"\\n\\n`;
-
-    // Platform-specific instructions
-    switch (platform) {
-      case 'twitter':
-        prompt += 'Create a Twitter post (max 280 characters). Requirements:\n' +
-                  '- Hook readers in the first 7 words\n' +
-                  '- Use conversational, punchy language\n' +
-                  '- Include 1-3 relevant hashtags at the end\n' +
-                  '- End with a question or call-to-action to encourage engagement\n' +
-                  '- Use line breaks for readability\n' +
-                  '- Consider emojis sparingly for emphasis\n';
-        break;
-      case 'linkedin':
-        prompt += 'Create a LinkedIn post optimized for professional networking. Requirements:\n' +
-                  '- Start with a compelling hook or personal insight\n' +
-                  '- Use professional yet approachable language\n' +
-                  '- Include industry-relevant keywords naturally\n' +
-                  '- Structure with short paragraphs (2-3 lines max)\n' +
-                  '- End with a thoughtful question to spark discussion\n' +
-                  '- Include 3-5 relevant hashtags\n' +
-                  '- Aim for 1300-3000 characters for optimal engagement\n';
-        break;
-      case 'instagram':
-        prompt += 'Create an Instagram caption that drives engagement. Requirements:\n' +
-                  '- Start with an attention-grabbing first line (appears in feed preview)\n' +
-                  '- Use storytelling and emotional connection\n' +
-                  '- Include a clear call-to-action (like, comment, share, save)\n' +
-                  '- Add 10-30 relevant hashtags (mix of popular and niche)\n' +
-                  '- Use line breaks and emojis for visual appeal\n' +
-                  '- Consider Instagram-specific features (Stories, Reels mentions)\n';
-        break;
-      case 'facebook':
-        prompt += 'Create a Facebook post that encourages community engagement. Requirements:\n' +
-                  '- Use conversational, friendly tone\n' +
-                  '- Ask questions to encourage comments and discussions\n' +
-                  '- Keep it concise but informative (40-80 characters get highest engagement)\n' +
-                  '- Include relevant hashtags (1-2 hashtags work best on Facebook)\n' +
-                  '- Consider tagging relevant pages or people when appropriate\n' +
-                  '- End with a clear call-to-action\n';
-        break;
-      case 'email':
-        prompt += 'Convert this into a professional email format. Requirements:\n' +
-                  '- Subject line: Clear, specific, and compelling (50 chars or less)\n' +
-                  '- Greeting: Personalized and appropriate\n' +
-                  '- Body: Well-structured with clear paragraphs\n' +
-                  '- Value proposition: Lead with benefits, not features\n' +
-                  '- Call-to-action: Single, clear, and prominent\n' +
-                  '- Closing: Professional sign-off\n' +
-                  '- Mobile-friendly: Short paragraphs and scannable format\n';
-        break;
-      case 'newsletter':
-        prompt += 'Create a newsletter section with high engagement potential. Requirements:\n' +
-                  '- Compelling headline that promises value\n' +
-                  '- Opening hook that relates to subscriber interests\n' +
-                  '- Scannable format with bullet points or numbered lists\n' +
-                  '- Include actionable insights or takeaways\n' +
-                  '- Personal touch or behind-the-scenes element\n' +
-                  '- Clear next steps or call-to-action\n' +
-                  '- Keep paragraphs short (2-3 sentences max)\n';
-        break;
-      case 'thread':
-        prompt += 'Create a Twitter thread that maximizes engagement and retention. Requirements:\n' +
-                  '- Tweet 1: Hook with a compelling promise or question\n' +
-                  '- Each tweet: One clear point, max 280 characters\n' +
-                  '- Use numbered tweets (1/n, 2/n, etc.)\n' +
-                  '- Include thread continuation cues ("More in next tweet ⬇️")\n' +
-                  '- Final tweet: Summary and call-to-action\n' +
-                  '- Use consistent formatting and voice throughout\n' +
-                  '- Aim for 5-15 tweets total for optimal engagement\n';
-        break;
-      default:
-        prompt += 'Adapt the content appropriately for the platform while maintaining the core message and following platform best practices. ';
+    return promptRegistry.render('repurpose', platform, {
+      platform,
+      originalContent,
+      brandVoice,
+      tone,
+      additionalInstructions
+    }, { userId });
+  }
+
+  /**
+   * Ask for the platform's JSON shape after the (admin-editable) template, so edits can't break parsing
+   */
+  private withOutputFormat(prompt: string, platform: Platform, request: ContentRepurposingRequest): string {
+    return request.outputFormat === 'text' ? prompt : `${prompt}\n\n${getOutputFormatInstructions(platform)}`;
+  }
+
+  /**
+   * Validate a structured response, giving the model one chance to repair it. If the repair
+   * also fails the raw text is kept so the platform still gets an output.
+   */
+  private async toPlatformOutput(
+    platform: Platform,
+    raw: string,
+    request: ContentRepurposingRequest,
+    config: Partial<AIServiceConfig>
+  ): Promise<Pick<RepurposedContent, 'content' | 'characterCount' | 'hashtagSuggestions' | 'structured'>> {
+    const plainText = (content: string) => ({
+      content,
+      characterCount: measureLength(platform, content),
+      hashtagSuggestions: this.extractHashtags(content)
+    });
+
+    if (request.outputFormat === 'text') {
+      return plainText(raw);
     }
 
-    if (brandVoice) {
-      prompt += `Brand voice: ${brandVoice}. `;
+    let parsed = parseStructuredOutput(platform, raw);
+    if (!parsed.success) {
+      console.warn(`Invalid structured output for ${platform}, asking for a repair: ${parsed.error}`);
+      try {
+        const repaired = await this.generateWithProvider(buildRepairPrompt(platform, raw, parsed.error), this.resolveProvider(config), config);
+        parsed = parseStructuredOutput(platform, repaired.content);
+      } catch (error) {
+        console.error(`Structured output repair failed for ${platform}:`, error);
+      }
     }
 
-    if (tone) {
-      prompt += `Tone: ${tone}. `;
+    if (!parsed.success) {
+      console.warn(`Falling back to plain text for ${platform}: ${parsed.error}`);
+      return plainText(raw.trim());
     }
 
-    prompt += 'Keep the core message intact while optimizing for the platform\'s audience and format requirements. ';
+    const content = renderStructuredOutput(platform, parsed.data);
+    return {
+      content,
+      characterCount: measureLength(platform, content),
+      hashtagSuggestions: getStructuredHashtags(platform, parsed.data),
+      structured: parsed.data
+    };
+  }
 
-    if (additionalInstructions) {
-      prompt += `Additional instructions: ${additionalInstructions} `;
+  /**
+   * Parse an output and send it back for rewrites while it breaks the platform's constraints.
+   * A rewrite is only kept if it breaks fewer rules; whatever is still broken is returned as warnings.
+   */
+  private async toConstrainedOutput(
+    platform: Platform,
+    raw: string,
+    request: ContentRepurposingRequest,
+    config: Partial<AIServiceConfig>
+  ): Promise<Pick<RepurposedContent, 'content' | 'characterCount' | 'hashtagSuggestions' | 'structured' | 'constraintWarnings'>> {
+    let output = await this.toPlatformOutput(platform, raw, request, config);
+    let violations = validatePlatformOutput(platform, output.content, output.structured);
+
+    for (let attempt = 1; attempt <= AI_CONSTRAINT_MAX_REWRITES && violations.length > 0; attempt++) {
+      try {
+        const current = output.structured ? JSON.stringify(output.structured, null, 2) : output.content;
+        const rewritePrompt = this.withOutputFormat(buildConstraintRewritePrompt(platform, current, violations), platform, request);
+        const response = await this.generateWithProvider(rewritePrompt, this.resolveProvider(config), config);
+        const candidate = await this.toPlatformOutput(platform, response.content, request, config);
+        const candidateViolations = validatePlatformOutput(platform, candidate.content, candidate.structured);
+
+        if (candidateViolations.length < violations.length) {
+          output = candidate;
+          violations = candidateViolations;
+        }
+      } catch (error) {
+        console.error(`Constraint rewrite ${attempt} failed for ${platform}:`, error);
+        break;
+      }
     }
 
-    prompt += '\n\nProvide only the repurposed content without any explanations or meta-commentary.';
-
-    return prompt;
+    return violations.length > 0 ? { ...output, constraintWarnings: violations } : output;
   }
 
   /**
    * Extract hashtags from content
    */
   private extractHashtags(content: string): string[] {
-    const hashtagRegex = /#[a-zA-Z0-9_]+/g;
-    const hashtags = content.match(hashtagRegex) || [];
+    const hashtags = content.match(HASHTAG_PATTERN) || [];
     return [...new Set(hashtags)]; // Remove duplicates
   }
 
@@ -326,19 +845,21 @@ export class AIService {
    * Get available providers
    */
   getAvailableProviders(): AIProvider[] {
-    const providers: AIProvider[] = [];
-    if (ANTHROPIC_API_KEY) providers.push('anthropic');
-    if (GROQ_API_KEY) providers.push('groq');
-    return providers;
+    return providerRegistry.listConfigured().map(provider => provider.id);
+  }
+
+  /**
+   * Get the configured providers a plan may use, in preference order
+   */
+  getProvidersForPlan(plan: SubscriptionPlan): AIProvider[] {
+    return providerRegistry.getProvidersForPlan(plan).map(provider => provider.id);
   }
 
   /**
-   * Check if a provider is available
+   * Check if a provider is available (accepts legacy aliases such as "llama")
    */
-  isProviderAvailable(provider: AIProvider): boolean {
-    if (provider === 'anthropic') return !!ANTHROPIC_API_KEY;
-    if (provider === 'groq') return !!GROQ_API_KEY;
-    return false;
+  isProviderAvailable(provider: string): boolean {
+    return !!providerRegistry.get(provider)?.isConfigured();
   }
 }
 
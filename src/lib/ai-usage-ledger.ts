@@ -0,0 +1,249 @@
+import { randomUUID } from 'crypto';
+import { prisma } from '@/lib/prisma';
+import { calculateCost, TokenUsage } from '@/lib/ai-providers';
+
+export type AIOperation =
+  | 'generate'
+  | 'repurpose'
+  | 'revise'
+  | 'summarize'
+  | 'atomize'
+  | 'analyze'
+  | 'optimize'
+  | 'trending_topics'
+  | 'keywords'
+  | 'plagiarism'
+  | 'translate'
+  | 'learn_voice';
+
+// Who and what a call is for - passed down from routes through AIService
+export interface AIUsageContext {
+  userId?: string;
+  teamId?: string | null;
+  clientId?: string | null; // Agency client the call is billed to
+  contentId?: string;
+  requestId?: string; // Lets routes attach content created after generation
+  plan?: string;
+  operation?: AIOperation;
+  platform?: string;
+}
+
+export interface AIUsageRecord extends AIUsageContext {
+  operation: AIOperation;
+  provider: string;
+  model: string;
+  usage: TokenUsage;
+  latencyMs: number;
+}
+
+export interface AICostRow {
+  key: string | null;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+// Row shape of the cost report's aggregate and groupBy queries
+interface UsageSums {
+  _count: { _all: number };
+  _sum: { inputTokens: number | null; outputTokens: number | null; costUsd: number | null };
+}
+
+export interface AICostReport {
+  totals: Omit<AICostRow, 'key'>;
+  byUser: AICostRow[];
+  byPlan: AICostRow[];
+  byProvider: AICostRow[];
+  byOperation: AICostRow[];
+}
+
+export interface MarginSummary {
+  revenue: number; // cents
+  aiCost: number; // cents
+  margin: number; // cents
+  marginPercent: number | null;
+}
+
+export interface UserRevenue {
+  revenue: number; // cents over the report period
+  email?: string | null;
+  name?: string | null;
+  plan?: string | null;
+}
+
+// Revenue for the same period as the cost report, as each admin route already computes it
+export interface RevenueLookup {
+  byPlan: Record<string, number>; // cents
+  byUser: Record<string, UserRevenue>;
+}
+
+export interface AIMarginReport {
+  totals: Omit<AICostRow, 'key'> & MarginSummary;
+  byPlan: Array<AICostRow & MarginSummary>;
+  byUser: Array<AICostRow & MarginSummary & Omit<UserRevenue, 'revenue'>>;
+  byProvider: AICostRow[];
+  byOperation: AICostRow[];
+}
+
+/**
+ * Revenue vs AI cost, in cents to match the admin revenue reports
+ */
+export function summarizeMargin(revenueCents: number, costUsd: number): MarginSummary {
+  const aiCost = Math.round(costUsd * 10000) / 100; // keep fractions of a cent
+  const margin = Math.round((revenueCents - aiCost) * 100) / 100;
+  return {
+    revenue: revenueCents,
+    aiCost,
+    margin,
+    marginPercent: revenueCents > 0 ? Math.round((margin / revenueCents) * 1000) / 10 : null
+  };
+}
+
+/**
+ * Join a cost report with revenue so admins see margin per plan and for the costliest users
+ */
+export function buildMarginReport(report: AICostReport, revenue: RevenueLookup, userLimit = 20): AIMarginReport {
+  const planKeys = new Set([...Object.keys(revenue.byPlan), ...report.byPlan.map(row => row.key || 'free')]);
+  const costByPlan = new Map(report.byPlan.map(row => [row.key || 'free', row]));
+
+  const byPlan = Array.from(planKeys).map(plan => {
+    const row = costByPlan.get(plan) || { key: plan, calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 };
+    return { ...row, key: plan, ...summarizeMargin(revenue.byPlan[plan] || 0, row.costUsd) };
+  });
+
+  const byUser = report.byUser.slice(0, userLimit).map(row => {
+    const { revenue: userRevenue = 0, ...details } = (row.key && revenue.byUser[row.key]) || {};
+    return { ...row, ...details, ...summarizeMargin(userRevenue, row.costUsd) };
+  });
+
+  const totalRevenue = Object.values(revenue.byPlan).reduce((sum, cents) => sum + cents, 0);
+
+  return {
+    totals: { ...report.totals, ...summarizeMargin(totalRevenue, report.totals.costUsd) },
+    byPlan: byPlan.sort((a, b) => b.aiCost - a.aiCost),
+    byUser,
+    byProvider: report.byProvider,
+    byOperation: report.byOperation
+  };
+}
+
+/**
+ * Correlation id for a request whose content row is only created after generation
+ */
+export function createUsageRequestId(): string {
+  return randomUUID();
+}
+
+class AIUsageLedger {
+  private static instance: AIUsageLedger;
+
+  private constructor() {}
+
+  public static getInstance(): AIUsageLedger {
+    if (!AIUsageLedger.instance) {
+      AIUsageLedger.instance = new AIUsageLedger();
+    }
+    return AIUsageLedger.instance;
+  }
+
+  /**
+   * Persist one AI call. Never throws - a ledger failure must not fail the generation.
+   */
+  async record(entry: AIUsageRecord): Promise<void> {
+    try {
+      let { teamId, plan } = entry;
+
+      // Fill in team and plan from the user when the caller didn't know them
+      if (entry.userId && (teamId === undefined || !plan)) {
+        const user = await prisma.user.findUnique({
+          where: { id: entry.userId },
+          select: { teamId: true, subscriptionPlan: true }
+        });
+        teamId = teamId === undefined ? user?.teamId ?? null : teamId;
+        plan = plan || user?.subscriptionPlan || undefined;
+      }
+
+      await prisma.aiUsageEntry.create({
+        data: {
+          userId: entry.userId ?? null,
+          teamId: teamId ?? null,
+          clientId: entry.clientId ?? null,
+          contentId: entry.contentId ?? null,
+          requestId: entry.requestId ?? null,
+          plan: plan ?? null,
+          operation: entry.operation,
+          platform: entry.platform ?? null,
+          provider: entry.provider,
+          model: entry.model,
+          inputTokens: entry.usage.inputTokens,
+          outputTokens: entry.usage.outputTokens,
+          estimated: !!entry.usage.estimated,
+          latencyMs: Math.round(entry.latencyMs),
+          costUsd: calculateCost(entry.provider, entry.model, entry.usage)
+        }
+      });
+    } catch (error) {
+      console.error('[AI_USAGE_LEDGER] Failed to record usage:', error);
+    }
+  }
+
+  /**
+   * Attach ledger rows recorded under a request id to the content they produced
+   */
+  async linkContent(requestId: string, contentId: string, userId: string): Promise<void> {
+    try {
+      await prisma.aiUsageEntry.updateMany({
+        where: { requestId, userId, contentId: null },
+        data: { contentId }
+      });
+    } catch (error) {
+      console.error('[AI_USAGE_LEDGER] Failed to link usage to content:', error);
+    }
+  }
+
+  /**
+   * Aggregate cost by user, plan, provider/model and operation for a date range
+   */
+  async getCostReport(since: Date, until: Date = new Date()): Promise<AICostReport> {
+    const where = { createdAt: { gte: since, lte: until } };
+    const sums = {
+      _sum: { inputTokens: true, outputTokens: true, costUsd: true },
+      _count: { _all: true }
+    } as const;
+
+    const [totals, byUser, byPlan, byProvider, byOperation]: [
+      UsageSums,
+      (UsageSums & { userId: string | null })[],
+      (UsageSums & { plan: string | null })[],
+      (UsageSums & { provider: string; model: string })[],
+      (UsageSums & { operation: string })[]
+    ] = await Promise.all([
+      prisma.aiUsageEntry.aggregate({ where, ...sums }),
+      prisma.aiUsageEntry.groupBy({ by: ['userId'], where, ...sums }),
+      prisma.aiUsageEntry.groupBy({ by: ['plan'], where, ...sums }),
+      prisma.aiUsageEntry.groupBy({ by: ['provider', 'model'], where, ...sums }),
+      prisma.aiUsageEntry.groupBy({ by: ['operation'], where, ...sums })
+    ]);
+
+    const toRow = (key: string | null, group: UsageSums): AICostRow => ({
+      key,
+      calls: group._count._all,
+      inputTokens: group._sum.inputTokens ?? 0,
+      outputTokens: group._sum.outputTokens ?? 0,
+      costUsd: Math.round((group._sum.costUsd ?? 0) * 1e6) / 1e6
+    });
+    const byCost = (a: AICostRow, b: AICostRow) => b.costUsd - a.costUsd;
+
+    const { calls, inputTokens, outputTokens, costUsd } = toRow(null, totals);
+    return {
+      totals: { calls, inputTokens, outputTokens, costUsd },
+      byUser: byUser.map(group => toRow(group.userId, group)).sort(byCost),
+      byPlan: byPlan.map(group => toRow(group.plan, group)).sort(byCost),
+      byProvider: byProvider.map(group => toRow(`${group.provider}:${group.model}`, group)).sort(byCost),
+      byOperation: byOperation.map(group => toRow(group.operation, group)).sort(byCost)
+    };
+  }
+}
+
+export const aiUsageLedger = AIUsageLedger.getInstance();
@@ -1,5 +1,6 @@
 import { prisma } from '@/lib/prisma';
 import { createAuditLogger } from '@/lib/audit-logger';
+import { promptExperiments, PromptExperimentExposure, ExperimentOutcomeType } from '@/lib/prompt-experiments';
 
 export interface AnalyticsEvent {
   userId: string;
@@ -109,8 +110,13 @@ class AnalyticsTracker {
     await this.updateUsageMetrics(userId, 'contentGenerated', 1);
   }
 
-  // Track content repurposing
-  async trackContentRepurpose(userId: string, contentId: string, platforms: string[], metadata?: Record<string, any>): Promise<void> {
+  // Track content repurposing; outputs served from a prompt experiment arm are logged as exposures
+  async trackContentRepurpose(
+    userId: string,
+    contentId: string,
+    platforms: string[],
+    metadata?: Record<string, any> & { promptExperiments?: PromptExperimentExposure[] }
+  ): Promise<void> {
     await this.trackEvent({
       userId,
       action: 'content_repurposed',
@@ -126,6 +132,27 @@ class AnalyticsTracker {
     // Update usage metrics
     await this.updateUsageMetrics(userId, 'contentRepurposed', 1);
     await this.updatePlatformUsage(userId, platforms);
+
+    if (metadata?.promptExperiments?.length) {
+      await promptExperiments.recordExposures(userId, contentId, metadata.promptExperiments);
+    }
+  }
+
+  // Track what a user did with a repurposed output (copy, export, edit, regenerate, rating)
+  async trackContentOutcome(userId: string, contentId: string, platform: string, outcome: ExperimentOutcomeType, value?: number): Promise<void> {
+    await this.trackEvent({
+      userId,
+      action: 'content_outcome',
+      resource: 'content',
+      resourceId: contentId,
+      metadata: {
+        platform,
+        outcome,
+        ...(value !== undefined && { value })
+      }
+    });
+
+    await promptExperiments.recordOutcome(userId, contentId, platform, outcome, value);
   }
 
   // Track content views
@@ -1,5 +1,6 @@
 import Anthropic from '@anthropic-ai/sdk';
 import { ANTHROPIC_API_KEY, ANTHROPIC_MODELS } from './config';
+import type { TokenUsage } from './ai-providers/types';
 
 // Initialize Anthropic client
 let anthropicClient: Anthropic | null = null;
@@ -26,18 +27,22 @@ export function getAnthropicClient(): Anthropic {
  * Generate repurposed content using Anthropic Claude
  * @param prompt The prompt to send to Anthropic Claude
  * @param modelName The name of the model to use (defaults to ANTHROPIC_MODELS.CLAUDE_3_SONNET)
+ * @param maxTokens Maximum number of tokens to generate
+ * @param onUsage Optional callback receiving the token usage reported by the API
  * @returns The generated text response
  */
 export async function generateWithClaude(
   prompt: string,
-  modelName = ANTHROPIC_MODELS.CLAUDE_3_SONNET
+  modelName: string = ANTHROPIC_MODELS.CLAUDE_3_SONNET,
+  maxTokens = 1024,
+  onUsage?: (usage: TokenUsage) => void
 ): Promise<string> {
   try {
     const client = getAnthropicClient();
     
     const message = await client.messages.create({
       model: modelName,
-      max_tokens: 1024,
+      max_tokens: maxTokens,
       messages: [
         {
           role: 'user',
@@ -57,9 +62,61 @@ export async function generateWithClaude(
       responseText = message.content;
     }
 
+    if (message.usage) {
+      onUsage?.({ inputTokens: message.usage.input_tokens, outputTokens: message.usage.output_tokens });
+    }
+
     return responseText;
   } catch (error) {
     console.error('[ANTHROPIC_API_ERROR]', error);
-    throw new Error(`Failed to generate content with Claude: ${error instanceof Error ? error.message : String(error)}`);
+    throw new Error(`Failed to generate content with Claude: ${error instanceof Error ? error.message : String(error)}`, { cause: error });
   }
-} 
\ No newline at end of file
+}
+
+/**
+ * Stream content from Anthropic Claude, invoking onText for each text delta
+ * @param prompt The prompt to send to Anthropic Claude
+ * @param onText Callback receiving each partial text chunk as it arrives
+ * @param modelName The name of the model to use (defaults to ANTHROPIC_MODELS.CLAUDE_3_SONNET)
+ * @param maxTokens Maximum number of tokens to generate
+ * @param onUsage Optional callback receiving the token usage once the stream completes
+ * @returns The full generated text once the stream completes
+ */
+export async function streamWithClaude(
+  prompt: string,
+  onText: (text: string) => void,
+  modelName: string = ANTHROPIC_MODELS.CLAUDE_3_SONNET,
+  maxTokens = 1024,
+  onUsage?: (usage: TokenUsage) => void
+): Promise<string> {
+  try {
+    const client = getAnthropicClient();
+    let responseText = '';
+
+    const stream = client.messages.stream({
+      model: modelName,
+      max_tokens: maxTokens,
+      messages: [
+        {
+          role: 'user',
+          content: prompt
+        }
+      ]
+    });
+
+    stream.on('text', (text) => {
+      responseText += text;
+      onText(text);
+    });
+
+    const finalMessage = await stream.finalMessage();
+    if (finalMessage.usage) {
+      onUsage?.({ inputTokens: finalMessage.usage.input_tokens, outputTokens: finalMessage.usage.output_tokens });
+    }
+
+    return responseText;
+  } catch (error) {
+    console.error('[ANTHROPIC_STREAM_ERROR]', error);
+    throw new Error(`Failed to stream content with Claude: ${error instanceof Error ? error.message : String(error)}`, { cause: error });
+  }
+}
@@ -0,0 +1,92 @@
+import { NextRequest } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+
+// Version reported in every /api/v1 response
+export const API_VERSION = 'v1';
+
+// Helper function for API key authentication
+async function authenticateApiKey(request: NextRequest) {
+  const apiKey = request.headers.get('x-api-key');
+  
+  if (!apiKey) {
+    return null;
+  }
+
+  try {
+    const apiKeyRecord = await prisma.apiKey.findFirst({
+      where: {
+        key: apiKey,
+        isActive: true,
+        expiresAt: {
+          gte: new Date()
+        }
+      },
+      include: {
+        user: true
+      }
+    });
+
+    if (!apiKeyRecord) {
+      return null;
+    }
+
+    // Update last used timestamp
+    await prisma.apiKey.update({
+      where: { id: apiKeyRecord.id },
+      data: { lastUsedAt: new Date() }
+    });
+
+    return apiKeyRecord.user;
+  } catch (error) {
+    console.error('Error authenticating API key:', error);
+    return null;
+  }
+}
+
+// Helper function for unified authentication
+export async function authenticateRequest(request: NextRequest) {
+  // Try API key authentication first
+  const apiUser = await authenticateApiKey(request);
+  if (apiUser) {
+    return apiUser;
+  }
+
+  // Fall back to session authentication
+  const session = await getServerSession(authOptions);
+  if (session?.user?.id) {
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id }
+    });
+    return user;
+  }
+
+  return null;
+}
+
+// Helper function to format response
+export function formatApiResponse(data: any, meta?: any) {
+  return {
+    success: true,
+    data,
+    meta: {
+      version: API_VERSION,
+      timestamp: new Date().toISOString(),
+      ...meta
+    }
+  };
+}
+
+export function formatErrorResponse(error: string, statusCode: number = 400, details?: any) {
+  return {
+    success: false,
+    error: {
+      message: error,
+      code: statusCode,
+      details,
+      timestamp: new Date().toISOString(),
+      version: API_VERSION
+    }
+  };
+}
@@ -0,0 +1,269 @@
+import { BRAND_VOICES } from '@/lib/config';
+import { EMOJI_PATTERN } from '@/lib/platform-constraints';
+import { READING_LEVELS, READING_LEVEL_LABELS } from '@/lib/brand-voices';
+import type { BrandVoiceProfile, ReadingLevel } from '@/lib/brand-voices';
+import { FeatureComparison, FingerprintFeature, StylometricFingerprint, compareToFingerprint, computeFingerprint } from '@/lib/stylometry';
+
+export type ComplianceRule = 'banned_word' | 'disclaimer' | 'tone' | 'reading_level' | 'emoji' | 'hashtag';
+export type ComplianceSeverity = 'low' | 'medium' | 'high';
+
+// A stretch of the checked text, as character offsets
+export interface ComplianceSpan {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface ComplianceViolation {
+  rule: ComplianceRule;
+  severity: ComplianceSeverity;
+  message: string;
+  spans: ComplianceSpan[]; // Where the problem is; empty when something is missing
+  fixable: boolean; // applyComplianceFixes can fix it without a rewrite
+}
+
+export interface BrandComplianceReport {
+  brandVoiceId: string;
+  score: number; // 0-100
+  passed: boolean; // Score at or above BRAND_VOICES.compliancePassScore
+  violations: ComplianceViolation[];
+  toneMatch: number | null; // Fingerprint match 0-100; null when the profile has no examples to compare with
+  readingLevel: {
+    grade: number; // Flesch-Kincaid grade
+    level: ReadingLevel;
+    target: ReadingLevel | null;
+  } | null; // null for text too short to grade
+}
+
+const SEVERITY_PENALTY: Record<ComplianceSeverity, number> = { high: 30, medium: 15, low: 5 };
+
+// Highest Flesch-Kincaid grade of each reading level
+const LEVEL_MAX_GRADE: Record<ReadingLevel, number> = { elementary: 5, middle: 8, high: 12, college: Infinity };
+
+const SPARING_EMOJI = 2; // "One or two at most"
+const MIN_GRADED_WORDS = 20; // Grades of shorter texts swing too far to judge by
+const MIN_GRADED_SENTENCE_WORDS = 8;
+
+const HASHTAG_PATTERN = /(?<=^|\s)#[\p{L}\p{N}_]+/gu;
+const URL_PATTERN = /(?:https?:\/\/|www\.)\S+/gi;
+const MENTION_PATTERN = /(?<=^|\s)@\w+/g;
+const WORD_PATTERN = /[\p{L}\p{N}]+(?:['’][\p{L}]+)*/gu;
+const SENTENCE_PATTERN = /[^.!?\n]+[.!?]*/g;
+
+// How a feature of the text differs from the brand's, when it is higher and when it is lower
+const FEATURE_HINTS: Partial<Record<FingerprintFeature, [string, string]>> = {
+  avgSentenceWords: ['sentences are longer than the brand writes them', 'sentences are shorter than the brand writes them'],
+  avgWordLength: ['uses longer words than the brand', 'uses shorter words than the brand'],
+  contractionRate: ['uses more contractions than the brand', 'uses fewer contractions than the brand'],
+  firstPersonRate: ['says "we" and "I" more than the brand', 'says "we" and "I" less than the brand'],
+  secondPersonRate: ['addresses the reader more than the brand', 'addresses the reader less than the brand'],
+  capsWordRate: ['uses more words in capitals than the brand', 'uses fewer words in capitals than the brand'],
+  exclamationRate: ['uses more exclamations than the brand', 'uses fewer exclamations than the brand'],
+  questionRate: ['asks more questions than the brand', 'asks fewer questions than the brand']
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+const normalize = (text: string) => text.toLowerCase().replace(/[‘’]/g, "'").replace(/[“”]/g, '"').replace(/\s+/g, ' ').trim();
+
+function findSpans(text: string, pattern: RegExp): ComplianceSpan[] {
+  return [...text.matchAll(pattern)].map(match => ({
+    start: match.index!,
+    end: match.index! + match[0].length,
+    text: match[0]
+  }));
+}
+
+function countSyllables(word: string): number {
+  const letters = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (letters.length <= 3) return 1;
+  const trimmed = letters.replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, '').replace(/^y/, '');
+  return Math.max(1, trimmed.match(/[aeiouy]{1,2}/g)?.length ?? 0);
+}
+
+function gradeOf(words: string[], sentences: number): number {
+  const syllables = words.reduce((sum, word) => sum + countSyllables(word), 0);
+  const grade = 0.39 * (words.length / Math.max(1, sentences)) + 11.8 * (syllables / words.length) - 15.59;
+  return Math.max(0, Math.round(grade * 10) / 10);
+}
+
+/**
+ * Flesch-Kincaid grade of a text, ignoring links, hashtags, mentions and emoji.
+ * Returns null for text too short to grade.
+ */
+export function readingGrade(text: string): number | null {
+  const prose = text.replace(URL_PATTERN, ' ').replace(HASHTAG_PATTERN, ' ').replace(MENTION_PATTERN, ' ').replace(EMOJI_PATTERN, ' ');
+  const words = prose.match(WORD_PATTERN) ?? [];
+  if (words.length < MIN_GRADED_WORDS) return null;
+  const sentences = (prose.match(SENTENCE_PATTERN) ?? []).filter(sentence => /[\p{L}\p{N}]/u.test(sentence)).length;
+  return gradeOf(words, sentences);
+}
+
+export function readingLevelOf(grade: number): ReadingLevel {
+  return READING_LEVELS.find(level => grade <= LEVEL_MAX_GRADE[level]) ?? 'college';
+}
+
+function isFingerprint(value: unknown): value is StylometricFingerprint {
+  return !!value && typeof value === 'object' && (value as StylometricFingerprint).version === 1 &&
+    typeof (value as StylometricFingerprint).functionWords === 'object';
+}
+
+/**
+ * What output in the voice is compared with: the fingerprint of the posts it was learned from,
+ * otherwise one measured from its sample posts
+ */
+export function voiceFingerprint(profile: BrandVoiceProfile): StylometricFingerprint | null {
+  if (isFingerprint(profile.fingerprint)) return profile.fingerprint;
+  return profile.samplePosts.length >= 2 ? computeFingerprint(profile.samplePosts) : null;
+}
+
+function toneHints(features: FeatureComparison[]): string[] {
+  return features
+    .filter(feature => feature.score < 0.5 && FEATURE_HINTS[feature.feature])
+    .sort((a, b) => a.score - b.score)
+    .slice(0, 2)
+    .map(feature => FEATURE_HINTS[feature.feature]![feature.actual > feature.expected ? 0 : 1]);
+}
+
+function checkBannedWords(text: string, profile: BrandVoiceProfile): ComplianceViolation[] {
+  return profile.avoidWords.flatMap((word) => {
+    const phrase = escapeRegExp(word.trim()).replace(/\s+/g, '\\s+');
+    if (!phrase) return [];
+    const spans = findSpans(text, new RegExp(`(?<![\\p{L}\\p{N}_])${phrase}(?![\\p{L}\\p{N}_])`, 'giu'));
+    return spans.length > 0
+      ? [{ rule: 'banned_word' as const, severity: 'high' as const, message: `Uses "${word}", which the brand never uses`, spans, fixable: false }]
+      : [];
+  });
+}
+
+function missingDisclaimers(text: string, profile: BrandVoiceProfile): string[] {
+  const normalized = normalize(text);
+  return profile.disclaimers.filter(disclaimer => !normalized.includes(normalize(disclaimer).replace(/[.!\s]+$/, '')));
+}
+
+function missingHashtags(text: string, profile: BrandVoiceProfile): string[] {
+  if (profile.hashtagPolicy !== 'required') return [];
+  const used = new Set((text.match(HASHTAG_PATTERN) ?? []).map(tag => tag.toLowerCase()));
+  return profile.hashtags.filter(tag => !used.has(tag.toLowerCase()));
+}
+
+function checkEmoji(text: string, profile: BrandVoiceProfile): ComplianceViolation[] {
+  const spans = findSpans(text, EMOJI_PATTERN);
+  if (profile.emojiPolicy === 'none' && spans.length > 0) {
+    return [{ rule: 'emoji', severity: 'medium', message: `Uses ${spans.length === 1 ? 'an emoji' : `${spans.length} emojis`}; the brand doesn't use emojis`, spans, fixable: true }];
+  }
+  if (profile.emojiPolicy === 'sparing' && spans.length > SPARING_EMOJI) {
+    return [{ rule: 'emoji', severity: 'low', message: `Uses ${spans.length} emojis; the brand uses ${SPARING_EMOJI} at most`, spans: spans.slice(SPARING_EMOJI), fixable: true }];
+  }
+  return [];
+}
+
+function checkHashtags(text: string, profile: BrandVoiceProfile): ComplianceViolation[] {
+  const spans = findSpans(text, HASHTAG_PATTERN);
+  if (profile.hashtagPolicy === 'none' && spans.length > 0) {
+    return [{ rule: 'hashtag', severity: 'medium', message: "Uses hashtags; the brand doesn't use them", spans, fixable: true }];
+  }
+  const missing = missingHashtags(text, profile);
+  return missing.length > 0
+    ? [{ rule: 'hashtag', severity: 'medium', message: `Missing brand hashtags: ${missing.join(' ')}`, spans: [], fixable: true }]
+    : [];
+}
+
+function checkReadingLevel(text: string, grade: number, target: ReadingLevel): ComplianceViolation[] {
+  const level = readingLevelOf(grade);
+  const over = READING_LEVELS.indexOf(level) - READING_LEVELS.indexOf(target);
+  if (over <= 0) return [];
+
+  // Point at the sentences that read above the target on their own
+  const spans = findSpans(text, SENTENCE_PATTERN).filter((span) => {
+    const words = span.text.match(WORD_PATTERN) ?? [];
+    return words.length >= MIN_GRADED_SENTENCE_WORDS && gradeOf(words, 1) > LEVEL_MAX_GRADE[target];
+  }).map(span => {
+    const start = span.start + (span.text.length - span.text.trimStart().length);
+    const trimmed = span.text.trim();
+    return { start, end: start + trimmed.length, text: trimmed };
+  });
+
+  return [{
+    rule: 'reading_level',
+    severity: over >= 2 ? 'medium' : 'low',
+    message: `Reads at ${READING_LEVEL_LABELS[level]} level (grade ${grade}); the brand writes at ${READING_LEVEL_LABELS[target]} level`,
+    spans,
+    fixable: false
+  }];
+}
+
+/**
+ * Score text against a brand voice profile without a model call: banned words, required disclaimers,
+ * tone against the voice's fingerprint, reading level, and emoji and hashtag policy.
+ * The score starts at 100 and loses 30, 15 or 5 points per high, medium or low violation.
+ */
+export function evaluateBrandCompliance(text: string, profile: BrandVoiceProfile): BrandComplianceReport {
+  const violations: ComplianceViolation[] = checkBannedWords(text, profile);
+
+  for (const disclaimer of missingDisclaimers(text, profile)) {
+    violations.push({ rule: 'disclaimer', severity: 'high', message: `Missing the required disclaimer "${disclaimer}"`, spans: [], fixable: true });
+  }
+
+  const fingerprint = voiceFingerprint(profile);
+  const comparison = fingerprint ? compareToFingerprint(fingerprint, text) : null;
+  if (comparison && comparison.score < BRAND_VOICES.toneMatchThreshold) {
+    const hints = toneHints(comparison.features);
+    violations.push({
+      rule: 'tone',
+      severity: 'medium',
+      message: `Doesn't sound like the brand (tone match ${comparison.score}/100)${hints.length > 0 ? `: ${hints.join('; ')}` : ''}`,
+      spans: [],
+      fixable: false
+    });
+  }
+
+  const grade = readingGrade(text);
+  const target = READING_LEVELS.find(level => level === profile.readingLevel) ?? null;
+  if (grade !== null && target) {
+    violations.push(...checkReadingLevel(text, grade, target));
+  }
+
+  violations.push(...checkEmoji(text, profile), ...checkHashtags(text, profile));
+
+  const score = Math.max(0, 100 - violations.reduce((sum, violation) => sum + SEVERITY_PENALTY[violation.severity], 0));
+  return {
+    brandVoiceId: profile.id,
+    score,
+    passed: score >= BRAND_VOICES.compliancePassScore,
+    violations,
+    toneMatch: comparison?.score ?? null,
+    readingLevel: grade === null ? null : { grade, level: readingLevelOf(grade), target }
+  };
+}
+
+/**
+ * Fix what needs no rewrite: drop emojis and hashtags the profile doesn't allow, then add missing
+ * disclaimers and brand hashtags at the end. Banned words, tone and reading level need the model.
+ */
+export function applyComplianceFixes(text: string, profile: BrandVoiceProfile): string {
+  let fixed = text;
+  if (profile.emojiPolicy === 'none' || profile.emojiPolicy === 'sparing') {
+    let kept = 0;
+    fixed = fixed.replace(EMOJI_PATTERN, emoji => (profile.emojiPolicy === 'sparing' && kept++ < SPARING_EMOJI ? emoji : ''));
+  }
+  if (profile.hashtagPolicy === 'none') {
+    fixed = fixed.replace(HASHTAG_PATTERN, '');
+  }
+  fixed = fixed.replace(/[ \t]{2,}/g, ' ').replace(/[ \t]+\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+
+  const additions = [
+    ...missingDisclaimers(fixed, profile),
+    missingHashtags(fixed, profile).join(' ')
+  ].filter(Boolean);
+  return additions.length > 0 ? `${fixed}\n\n${additions.join('\n\n')}` : fixed;
+}
+
+/**
+ * The refine instruction for a rewrite that fixes a report's violations
+ */
+export function buildComplianceFixInstruction(report: BrandComplianceReport): string {
+  return [
+    'Fix these brand voice problems and keep everything else, including the length and the message, the same:',
+    ...report.violations.map(violation => `- ${violation.message}`)
+  ].join('\n');
+}
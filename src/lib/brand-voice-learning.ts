@@ -0,0 +1,265 @@
+import { z } from 'zod';
+import { BRAND_VOICES } from '@/lib/config';
+import { Errors } from '@/lib/error-handler';
+import { parseCsv } from '@/lib/csv';
+import { EMOJI_POLICIES, BrandVoiceInput, EmojiPolicy, HashtagPolicy } from '@/lib/brand-voices';
+import { StylometricFingerprint, compareToFingerprint } from '@/lib/stylometry';
+
+export const SENTENCE_LENGTHS = ['short', 'medium', 'long'] as const;
+export const FORMALITY_LEVELS = ['casual', 'conversational', 'professional', 'formal'] as const;
+export type SentenceLength = (typeof SENTENCE_LENGTHS)[number];
+export type Formality = (typeof FORMALITY_LEVELS)[number];
+
+// A voice profile derived from example posts, shown to the user for editing before it is saved
+export interface LearnedVoice {
+  description: string;
+  tone: string;
+  targetAudience?: string;
+  formality: Formality;
+  sentenceLength: SentenceLength;
+  emojiUsage: EmojiPolicy;
+  vocabulary: string[]; // Words the brand favours
+  avoidWords: string[];
+  signaturePhrases: string[];
+  guidelines?: string;
+}
+
+export interface LearnedBrandVoice {
+  voice: LearnedVoice;
+  fingerprint: StylometricFingerprint;
+  source: 'ai' | 'fingerprint'; // 'fingerprint' when the model call failed and only measurements were used
+}
+
+// Everything a new profile needs except its name and sharing settings
+export type BrandVoiceDraft = Omit<BrandVoiceInput, 'name' | 'shared' | 'isDefault' | 'examplePosts'>;
+
+const phraseList = z.array(z.string().trim().min(1).max(60)).catch([]);
+
+const learnedVoiceSchema = z.object({
+  description: z.string().trim().min(1).max(2000),
+  tone: z.string().trim().max(100).optional().catch(undefined),
+  targetAudience: z.string().trim().max(300).optional().catch(undefined),
+  formality: z.enum(FORMALITY_LEVELS).optional().catch(undefined),
+  sentenceLength: z.enum(SENTENCE_LENGTHS).optional().catch(undefined),
+  emojiUsage: z.enum(EMOJI_POLICIES).optional().catch(undefined),
+  vocabulary: phraseList,
+  avoidWords: phraseList,
+  signaturePhrases: phraseList,
+  guidelines: z.string().trim().max(2000).optional().catch(undefined)
+});
+
+const POST_FIELDS = ['text', 'content', 'post', 'body', 'message', 'caption'];
+
+/**
+ * Split pasted text into posts: on lines of --- when there are any, otherwise on blank lines
+ */
+export function splitPastedPosts(text: string): string[] {
+  const separator = /^\s*-{3,}\s*$/m.test(text) ? /^\s*-{3,}\s*$/m : /\n\s*\n/;
+  return text.split(separator).map(post => post.trim()).filter(Boolean);
+}
+
+function postFromRecord(record: unknown): string | undefined {
+  if (typeof record === 'string') return record;
+  if (record && typeof record === 'object') {
+    const field = POST_FIELDS.find(name => typeof (record as Record<string, unknown>)[name] === 'string');
+    return field ? (record as Record<string, string>)[field] : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Read example posts from an uploaded file: a JSON array (of strings or objects with a text field),
+ * a CSV with one post per row, or plain text split like pasted posts
+ */
+export function readExamplePostsFile(text: string, fileName = ''): string[] {
+  const extension = fileName.toLowerCase().split('.').pop() ?? '';
+  let posts: (string | undefined)[];
+
+  if (extension === 'json') {
+    let json: unknown;
+    try {
+      json = JSON.parse(text);
+    } catch {
+      throw Errors.validation('The file is not valid JSON');
+    }
+    const items = Array.isArray(json) ? json : (json as { posts?: unknown })?.posts;
+    if (!Array.isArray(items)) {
+      throw Errors.validation('The JSON file should hold an array of posts');
+    }
+    posts = items.map(postFromRecord);
+  } else if (extension === 'csv') {
+    const rows = parseCsv(text);
+    const header = rows[0]?.map(cell => cell.trim().toLowerCase()) ?? [];
+    const column = header.findIndex(cell => POST_FIELDS.includes(cell));
+    posts = (column === -1 ? rows : rows.slice(1)).map(row => row[Math.max(column, 0)]);
+  } else if (['txt', 'md', 'markdown', ''].includes(extension)) {
+    posts = splitPastedPosts(text);
+  } else {
+    throw Errors.validation('Upload example posts as a .txt, .csv or .json file');
+  }
+
+  return posts.map(post => post?.trim() ?? '').filter(Boolean);
+}
+
+/**
+ * Example posts as they go into the learning prompt, dropping later posts past the character budget
+ */
+export function formatExamplePosts(posts: string[]): string {
+  const blocks: string[] = [];
+  let length = 0;
+  for (const [index, post] of posts.entries()) {
+    const block = `Post ${index + 1}:\n"""${post}"""`;
+    if (blocks.length > 0 && length + block.length > BRAND_VOICES.learnPromptChars) break;
+    blocks.push(block);
+    length += block.length;
+  }
+  return blocks.join('\n\n');
+}
+
+/**
+ * The fingerprint in words, given to the model so its profile agrees with what was measured
+ */
+export function summarizeFingerprint(fingerprint: StylometricFingerprint): string {
+  const percent = (share: number) => `${Math.round(share * 100)}%`;
+  return [
+    `Average sentence length: ${fingerprint.avgSentenceWords} words`,
+    `Average post length: ${fingerprint.avgPostWords} words`,
+    `Contractions per 100 words: ${fingerprint.contractionRate}`,
+    `First person (I/we) per 100 words: ${fingerprint.firstPersonRate}`,
+    `Second person (you) per 100 words: ${fingerprint.secondPersonRate}`,
+    `Questions: ${percent(fingerprint.questionRate)} of sentences; exclamations: ${percent(fingerprint.exclamationRate)}`,
+    `Emoji per post: ${fingerprint.emojiPerPost}; hashtags per post: ${fingerprint.hashtagPerPost}`,
+    fingerprint.topWords.length > 0 && `Most used words: ${fingerprint.topWords.join(', ')}`,
+    fingerprint.signaturePhrases.length > 0 && `Repeated phrases: ${fingerprint.signaturePhrases.map(phrase => `"${phrase}"`).join(', ')}`
+  ].filter(Boolean).join('\n');
+}
+
+function sentenceLengthOf(fingerprint: StylometricFingerprint): SentenceLength {
+  if (fingerprint.avgSentenceWords < 12) return 'short';
+  return fingerprint.avgSentenceWords < 20 ? 'medium' : 'long';
+}
+
+function formalityOf(fingerprint: StylometricFingerprint): Formality {
+  if (fingerprint.contractionRate >= 3 || fingerprint.exclamationRate > 0.25 || fingerprint.emojiPerPost >= 1) return 'casual';
+  if (fingerprint.contractionRate >= 1.5 || fingerprint.secondPersonRate >= 3) return 'conversational';
+  return fingerprint.avgWordLength >= 5.2 && fingerprint.contractionRate < 0.5 ? 'formal' : 'professional';
+}
+
+function emojiUsageOf(fingerprint: StylometricFingerprint): EmojiPolicy {
+  if (fingerprint.emojiPerPost === 0) return 'none';
+  return fingerprint.emojiPerPost < 1.5 ? 'sparing' : 'liberal';
+}
+
+/**
+ * A voice built from the measurements alone, used when the model can't be reached and to fill
+ * fields the model left out
+ */
+export function describeFingerprint(fingerprint: StylometricFingerprint): LearnedVoice {
+  const formality = formalityOf(fingerprint);
+  const sentenceLength = sentenceLengthOf(fingerprint);
+  const voice = fingerprint.firstPersonRate >= 2 ? 'Speaks as the brand ("we"/"I")' : 'Rarely speaks in the first person';
+  const reader = fingerprint.secondPersonRate >= 2 ? 'addresses the reader directly' : 'seldom addresses the reader';
+
+  return {
+    description: `${formality[0]!.toUpperCase()}${formality.slice(1)} voice with ${sentenceLength} sentences of about ${Math.round(fingerprint.avgSentenceWords)} words. ${voice} and ${reader}`,
+    tone: formality,
+    formality,
+    sentenceLength,
+    emojiUsage: emojiUsageOf(fingerprint),
+    vocabulary: fingerprint.topWords.slice(0, 10),
+    avoidWords: [],
+    signaturePhrases: fingerprint.signaturePhrases
+  };
+}
+
+function extractJsonObject(response: string): unknown {
+  const fenced = response.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const candidate = (fenced ? fenced[1]! : response).trim();
+  const start = candidate.indexOf('{');
+  const end = candidate.lastIndexOf('}');
+  if (start === -1 || end <= start) return null;
+  try {
+    return JSON.parse(candidate.slice(start, end + 1));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse the model's voice profile, filling anything it left out or got wrong from the fingerprint.
+ * Returns null when the response holds no usable profile.
+ */
+export function parseLearnedVoice(response: string, fingerprint: StylometricFingerprint): LearnedVoice | null {
+  const parsed = learnedVoiceSchema.safeParse(extractJsonObject(response));
+  if (!parsed.success) return null;
+
+  const measured = describeFingerprint(fingerprint);
+  const { data } = parsed;
+  return {
+    description: data.description,
+    tone: data.tone || measured.tone,
+    ...(data.targetAudience && { targetAudience: data.targetAudience }),
+    formality: data.formality ?? measured.formality,
+    sentenceLength: data.sentenceLength ?? measured.sentenceLength,
+    // Emoji use is counted, not judged, so the measurement wins
+    emojiUsage: measured.emojiUsage,
+    vocabulary: data.vocabulary.length > 0 ? data.vocabulary : measured.vocabulary,
+    avoidWords: data.avoidWords,
+    signaturePhrases: data.signaturePhrases.length > 0 ? data.signaturePhrases : measured.signaturePhrases,
+    ...(data.guidelines && { guidelines: data.guidelines })
+  };
+}
+
+function commonHashtags(posts: string[]): string[] {
+  const counts = new Map<string, { tag: string; posts: number }>();
+  for (const post of posts) {
+    const seen = new Set<string>();
+    for (const tag of post.match(/#[\p{L}\p{N}_]+/gu) ?? []) {
+      const key = tag.toLowerCase();
+      if (seen.has(key)) continue;
+      seen.add(key);
+      // Keep the spelling the tag was first written with
+      counts.set(key, { tag: counts.get(key)?.tag ?? tag, posts: (counts.get(key)?.posts ?? 0) + 1 });
+    }
+  }
+  return [...counts.values()]
+    .filter(entry => entry.posts >= 2)
+    .sort((a, b) => b.posts - a.posts || a.tag.localeCompare(b.tag))
+    .slice(0, 10)
+    .map(entry => entry.tag);
+}
+
+/**
+ * Turn a learned voice into profile fields. The sample posts are the examples that read most like
+ * the set as a whole, and brand hashtags are the ones used in several posts.
+ */
+export function toBrandVoiceDraft(learned: LearnedBrandVoice, posts: string[]): BrandVoiceDraft {
+  const { voice, fingerprint } = learned;
+  const hashtags = commonHashtags(posts);
+  const hashtagPolicy: HashtagPolicy = fingerprint.hashtagPerPost === 0
+    ? 'none'
+    : hashtags.length > 0 && fingerprint.hashtagPerPost >= 1 ? 'required' : 'platform';
+  const samplePosts = posts
+    .map((post, index) => ({ post, index, score: compareToFingerprint(fingerprint, post).score }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .slice(0, BRAND_VOICES.maxSamplePosts)
+    .map(({ post }) => post.slice(0, 3000));
+
+  return {
+    description: voice.description,
+    tone: voice.tone,
+    targetAudience: voice.targetAudience ?? null,
+    guidelines: [
+      voice.guidelines,
+      `Keep sentences ${voice.sentenceLength}, around ${Math.round(fingerprint.avgSentenceWords)} words`,
+      voice.signaturePhrases.length > 0 && `Signature phrases: ${voice.signaturePhrases.map(phrase => `"${phrase}"`).join(', ')}`
+    ].filter(Boolean).join('. ').slice(0, 2000),
+    preferredWords: [...new Set(voice.vocabulary.map(word => word.slice(0, 60)))].slice(0, 50),
+    avoidWords: [...new Set(voice.avoidWords)].slice(0, 50),
+    samplePosts,
+    emojiPolicy: voice.emojiUsage,
+    hashtagPolicy,
+    hashtags,
+    disclaimers: []
+  };
+}
@@ -0,0 +1,305 @@
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { Errors } from '@/lib/error-handler';
+import { BRAND_VOICES } from '@/lib/config';
+import { computeFingerprint } from '@/lib/stylometry';
+import type { ContentScope } from '@/lib/client-campaigns';
+
+export const EMOJI_POLICIES = ['none', 'sparing', 'liberal'] as const;
+export const HASHTAG_POLICIES = ['none', 'platform', 'required'] as const;
+export const READING_LEVELS = ['elementary', 'middle', 'high', 'college'] as const;
+export type EmojiPolicy = (typeof EMOJI_POLICIES)[number];
+export type HashtagPolicy = (typeof HASHTAG_POLICIES)[number];
+export type ReadingLevel = (typeof READING_LEVELS)[number];
+
+const optionalText = (max: number) => z.string().trim().max(max).nullable().optional();
+const wordList = z.array(z.string().trim().min(1).max(60)).max(50);
+
+// Posts a voice is learned from; only their fingerprint and a few samples are kept
+export const examplePostsSchema = z.array(z.string().trim().min(1).max(BRAND_VOICES.maxExampleChars, `Example posts can be at most ${BRAND_VOICES.maxExampleChars} characters`))
+  .min(BRAND_VOICES.minExamplePosts, `Add at least ${BRAND_VOICES.minExamplePosts} example posts`)
+  .max(BRAND_VOICES.maxExamplePosts, `At most ${BRAND_VOICES.maxExamplePosts} example posts`);
+
+export const brandVoiceInputSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(60, 'Name is too long'),
+  description: z.string().trim().min(1, 'Describe how the brand sounds').max(2000, 'Description is too long'),
+  tone: optionalText(100),
+  targetAudience: optionalText(300),
+  guidelines: optionalText(2000),
+  preferredWords: wordList.default([]),
+  avoidWords: wordList.default([]),
+  samplePosts: z.array(z.string().trim().min(1).max(3000)).max(BRAND_VOICES.maxSamplePosts, `At most ${BRAND_VOICES.maxSamplePosts} sample posts`).default([]),
+  emojiPolicy: z.enum(EMOJI_POLICIES).default('sparing'),
+  hashtagPolicy: z.enum(HASHTAG_POLICIES).default('platform'),
+  hashtags: z.array(z.string().trim().regex(/^#?[\p{L}\p{N}_]+$/u, 'Hashtags may only contain letters, numbers and underscores'))
+    .max(10)
+    .transform(tags => tags.map(tag => (tag.startsWith('#') ? tag : `#${tag}`)))
+    .default([]),
+  disclaimers: z.array(z.string().trim().min(1).max(500)).max(BRAND_VOICES.maxDisclaimers, `At most ${BRAND_VOICES.maxDisclaimers} disclaimers`).default([]),
+  readingLevel: z.enum(READING_LEVELS).nullable().optional(), // Highest level output should read at
+  shared: z.boolean().default(false), // Share with the owner's team
+  isDefault: z.boolean().default(false),
+  examplePosts: examplePostsSchema.optional() // Stores their fingerprint on the profile
+});
+
+export const brandVoiceUpdateSchema = brandVoiceInputSchema.partial();
+
+export type BrandVoiceInput = z.infer<typeof brandVoiceInputSchema>;
+export type BrandVoiceUpdate = z.infer<typeof brandVoiceUpdateSchema>;
+
+// The parts of a profile written into prompts
+export interface BrandVoiceProfile {
+  id: string;
+  name: string;
+  description: string;
+  tone?: string | null;
+  targetAudience?: string | null;
+  guidelines?: string | null;
+  preferredWords: string[];
+  avoidWords: string[];
+  samplePosts: string[];
+  emojiPolicy: string;
+  hashtagPolicy: string;
+  hashtags: string[];
+  disclaimers: string[]; // Included word for word in every output
+  readingLevel?: string | null;
+  fingerprint?: unknown; // StylometricFingerprint when the voice was learned from example posts
+}
+
+// Brand voice text for a request, and the profile it came from if any
+export interface ResolvedBrandVoice {
+  text?: string;
+  profile?: { id: string; name: string };
+  details?: BrandVoiceProfile; // The whole profile, for compliance checks
+}
+
+export interface BrandVoiceSelection {
+  brandVoiceId?: string | null;
+  brandVoice?: string | null; // Free-text voice sent with the request
+  scope?: ContentScope; // Client or campaign voice
+  fallback?: string | null; // Settings.brandVoice, used when nothing else applies
+}
+
+const EMOJI_RULES: Record<EmojiPolicy, string> = {
+  none: "Don't use emojis",
+  sparing: 'Use emojis sparingly, one or two at most',
+  liberal: 'Use emojis freely where they add personality'
+};
+
+export const READING_LEVEL_LABELS: Record<ReadingLevel, string> = {
+  elementary: 'an elementary school',
+  middle: 'a middle school',
+  high: 'a high school',
+  college: 'a college'
+};
+
+const sentence = (text: string) => text.trim().replace(/[.\s]+$/, '');
+
+/**
+ * Render a profile as the brand voice text prompt templates insert after "Brand voice:".
+ * Sample posts go last and are capped so a long profile can't crowd out the source.
+ */
+export function formatBrandVoice(profile: BrandVoiceProfile): string {
+  const hashtagRule = profile.hashtagPolicy === 'none'
+    ? "Don't use hashtags"
+    : profile.hashtagPolicy === 'required' && profile.hashtags.length > 0
+      ? `Always include these hashtags: ${profile.hashtags.join(' ')}`
+      : null;
+  const samples = profile.samplePosts
+    .slice(0, BRAND_VOICES.promptSamplePosts)
+    .map(post => post.length > BRAND_VOICES.promptSampleChars ? `${post.slice(0, BRAND_VOICES.promptSampleChars).trimEnd()}…` : post);
+
+  return [
+    sentence(profile.description),
+    profile.tone && `Tone: ${sentence(profile.tone)}`,
+    profile.targetAudience && `Audience: ${sentence(profile.targetAudience)}`,
+    profile.preferredWords.length > 0 && `Prefer these words and phrases: ${profile.preferredWords.join(', ')}`,
+    profile.avoidWords.length > 0 && `Never use these words or phrases: ${profile.avoidWords.join(', ')}`,
+    EMOJI_RULES[profile.emojiPolicy as EmojiPolicy],
+    hashtagRule,
+    profile.readingLevel && profile.readingLevel in READING_LEVEL_LABELS &&
+      `Write at ${READING_LEVEL_LABELS[profile.readingLevel as ReadingLevel]} reading level or simpler`,
+    profile.disclaimers.length > 0 && `Always include ${profile.disclaimers.length === 1 ? 'this disclaimer' : 'these disclaimers'} word for word: ${profile.disclaimers.map(text => `"${text}"`).join(' ')}`,
+    profile.guidelines && sentence(profile.guidelines),
+    samples.length > 0 && `Posts written in this voice, to match in style but not content:\n${samples.map(post => `"""${post}"""`).join('\n')}`
+  ].filter(Boolean).join('. ');
+}
+
+class BrandVoiceManager {
+  private static instance: BrandVoiceManager;
+
+  private constructor() {}
+
+  public static getInstance(): BrandVoiceManager {
+    if (!BrandVoiceManager.instance) {
+      BrandVoiceManager.instance = new BrandVoiceManager();
+    }
+    return BrandVoiceManager.instance;
+  }
+
+  /**
+   * The user's own profiles and the ones shared with their team, default first
+   */
+  async list(userId: string) {
+    const teamId = await this.getTeamId(userId);
+    return prisma.brandVoice.findMany({
+      where: this.accessibleTo(userId, teamId),
+      orderBy: [{ isDefault: 'desc' }, { name: 'asc' }],
+      include: { user: { select: { id: true, name: true } } }
+    });
+  }
+
+  async get(userId: string, id: string) {
+    const teamId = await this.getTeamId(userId);
+    const profile = await prisma.brandVoice.findFirst({ where: { id, ...this.accessibleTo(userId, teamId) } });
+    if (!profile) {
+      throw Errors.notFound('Brand voice');
+    }
+    return profile;
+  }
+
+  /**
+   * Create a profile. The first one becomes the default.
+   */
+  async create(userId: string, input: BrandVoiceInput) {
+    const { shared, examplePosts, ...fields } = input;
+    const teamId = shared ? await this.requireTeamId(userId) : null;
+    const count = await prisma.brandVoice.count({ where: { userId } });
+    if (count >= BRAND_VOICES.maxProfiles) {
+      throw Errors.validation(`You can have at most ${BRAND_VOICES.maxProfiles} brand voices`);
+    }
+    await this.assertNameFree(userId, input.name);
+
+    const isDefault = input.isDefault || count === 0;
+    const data = {
+      ...fields,
+      userId,
+      teamId,
+      isDefault,
+      ...(examplePosts && { fingerprint: computeFingerprint(examplePosts) })
+    };
+    if (!isDefault) {
+      return prisma.brandVoice.create({ data });
+    }
+
+    const [, profile] = await prisma.$transaction([
+      prisma.brandVoice.updateMany({ where: { userId, isDefault: true }, data: { isDefault: false } }),
+      prisma.brandVoice.create({ data })
+    ]);
+    return profile;
+  }
+
+  /**
+   * Update a profile. Only its owner can change it; team members can only use it.
+   */
+  async update(userId: string, id: string, input: BrandVoiceUpdate) {
+    const profile = await this.getOwned(userId, id);
+    if (input.name && input.name.toLowerCase() !== profile.name.toLowerCase()) {
+      await this.assertNameFree(userId, input.name);
+    }
+
+    const { shared, examplePosts, ...fields } = input;
+    const data = {
+      ...fields,
+      ...(shared !== undefined && { teamId: shared ? await this.requireTeamId(userId) : null }),
+      ...(examplePosts && { fingerprint: computeFingerprint(examplePosts) })
+    };
+    if (!input.isDefault || profile.isDefault) {
+      return prisma.brandVoice.update({ where: { id }, data });
+    }
+
+    const [, updated] = await prisma.$transaction([
+      prisma.brandVoice.updateMany({ where: { userId, isDefault: true }, data: { isDefault: false } }),
+      prisma.brandVoice.update({ where: { id }, data })
+    ]);
+    return updated;
+  }
+
+  /**
+   * Delete a profile. Content, clients and campaigns that used it keep working without it.
+   */
+  async delete(userId: string, id: string) {
+    await this.getOwned(userId, id);
+    await prisma.brandVoice.delete({ where: { id } });
+  }
+
+  /**
+   * Check a profile can be assigned to a team's clients and campaigns: it must be shared with the team
+   */
+  async assertTeamProfile(teamId: string, id: string) {
+    const profile = await prisma.brandVoice.findFirst({ where: { id, teamId } });
+    if (!profile) {
+      throw Errors.validation('Only brand voices shared with your team can be assigned to clients and campaigns');
+    }
+    return profile;
+  }
+
+  /**
+   * The brand voice for a request, most specific first: the profile asked for, free text sent with
+   * the request, the campaign's or client's voice, the user's default profile, then Settings.brandVoice.
+   */
+  async resolve(userId: string, selection: BrandVoiceSelection): Promise<ResolvedBrandVoice> {
+    if (selection.brandVoiceId) {
+      return this.toResolved(await this.get(userId, selection.brandVoiceId));
+    }
+    if (selection.brandVoice?.trim()) {
+      return { text: selection.brandVoice.trim() };
+    }
+
+    try {
+      if (selection.scope?.brandVoiceId) {
+        const profile = await prisma.brandVoice.findUnique({ where: { id: selection.scope.brandVoiceId } });
+        if (profile) return this.toResolved(profile);
+      }
+      if (selection.scope?.brandVoice) {
+        return { text: selection.scope.brandVoice };
+      }
+
+      const profile = await prisma.brandVoice.findFirst({ where: { userId, isDefault: true } });
+      if (profile) return this.toResolved(profile);
+    } catch (error) {
+      // Profiles are optional; without the table requests fall back to the settings voice
+      console.error('[BRAND_VOICE] Failed to load brand voice profile:', error);
+    }
+
+    return selection.fallback?.trim() ? { text: selection.fallback.trim() } : {};
+  }
+
+  private toResolved(profile: BrandVoiceProfile): ResolvedBrandVoice {
+    return { text: formatBrandVoice(profile), profile: { id: profile.id, name: profile.name }, details: profile };
+  }
+
+  private accessibleTo(userId: string, teamId: string | null) {
+    return { OR: [{ userId }, ...(teamId ? [{ teamId }] : [])] };
+  }
+
+  private async getOwned(userId: string, id: string) {
+    const profile = await this.get(userId, id);
+    if (profile.userId !== userId) {
+      throw Errors.authorization('Only the owner of a shared brand voice can change it');
+    }
+    return profile;
+  }
+
+  private async getTeamId(userId: string): Promise<string | null> {
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { teamId: true } });
+    return user?.teamId ?? null;
+  }
+
+  private async requireTeamId(userId: string): Promise<string> {
+    const teamId = await this.getTeamId(userId);
+    if (!teamId) {
+      throw Errors.validation('Join a team to share brand voices');
+    }
+    return teamId;
+  }
+
+  private async assertNameFree(userId: string, name: string) {
+    const existing = await prisma.brandVoice.findFirst({ where: { userId, name: { equals: name, mode: 'insensitive' } } });
+    if (existing) {
+      throw Errors.validation(`You already have a brand voice named "${existing.name}"`);
+    }
+  }
+}
+
+export const brandVoices = BrandVoiceManager.getInstance();
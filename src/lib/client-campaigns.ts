@@ -0,0 +1,374 @@
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { Errors } from '@/lib/error-handler';
+import { brandVoices } from '@/lib/brand-voices';
+
+export const CAMPAIGN_STATUSES = ['active', 'completed', 'archived'] as const;
+export type CampaignStatus = (typeof CAMPAIGN_STATUSES)[number];
+
+// Team roles allowed to add, edit and archive clients
+export const CLIENT_MANAGER_ROLES = ['owner', 'admin'];
+
+const optionalText = (max: number) => z.string().trim().max(max).nullable().optional();
+
+export const clientInputSchema = z.object({
+  name: z.string().trim().min(1, 'Client name is required').max(100, 'Client name is too long'),
+  brandVoice: optionalText(2000),
+  brandVoiceId: z.string().nullable().optional(),
+  notes: optionalText(5000)
+});
+
+export const clientUpdateSchema = clientInputSchema.partial().extend({
+  archived: z.boolean().optional()
+});
+
+const campaignFields = z.object({
+  name: z.string().trim().min(1, 'Campaign name is required').max(100, 'Campaign name is too long'),
+  clientId: z.string().nullable().optional(),
+  description: optionalText(2000),
+  brandVoice: optionalText(2000),
+  brandVoiceId: z.string().nullable().optional(),
+  status: z.enum(CAMPAIGN_STATUSES).optional(),
+  startsAt: z.coerce.date().nullable().optional(),
+  endsAt: z.coerce.date().nullable().optional()
+});
+
+const endsAfterStart = (campaign: { startsAt?: Date | null; endsAt?: Date | null }) =>
+  !campaign.startsAt || !campaign.endsAt || campaign.endsAt >= campaign.startsAt;
+
+export const campaignInputSchema = campaignFields.refine(endsAfterStart, { message: 'A campaign must end after it starts', path: ['endsAt'] });
+export const campaignUpdateSchema = campaignFields.partial().refine(endsAfterStart, { message: 'A campaign must end after it starts', path: ['endsAt'] });
+
+export type ClientInput = z.infer<typeof clientInputSchema>;
+export type ClientUpdate = z.infer<typeof clientUpdateSchema>;
+export type CampaignInput = z.infer<typeof campaignInputSchema>;
+export type CampaignUpdate = z.infer<typeof campaignUpdateSchema>;
+
+// Client and campaign a piece of content is attributed to, checked against the team
+export interface ContentScope {
+  clientId?: string;
+  campaignId?: string;
+  // The campaign's brand voice, else the client's; a profile id or free text
+  brandVoiceId?: string;
+  brandVoice?: string;
+}
+
+export interface ClientUsageRow {
+  clientId: string | null; // null for work not assigned to a client
+  name: string;
+  archived: boolean;
+  contents: number;
+  outputs: number;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+interface UsageGroup {
+  clientId: string | null;
+  _count?: { _all?: number };
+  _sum?: { inputTokens?: number | null; outputTokens?: number | null; costUsd?: number | null };
+}
+
+/**
+ * One row per client with its content, outputs and AI cost for the period, most expensive first.
+ * Work with no client comes last so agencies can see what they haven't billed anyone for.
+ */
+export function buildClientUsage(
+  clients: { id: string; name: string; archivedAt?: Date | null }[],
+  contentGroups: UsageGroup[],
+  outputCounts: Map<string | null, number>,
+  costGroups: UsageGroup[]
+): ClientUsageRow[] {
+  const contents = new Map(contentGroups.map(group => [group.clientId, group._count?._all ?? 0]));
+  const costs = new Map(costGroups.map(group => [group.clientId, group]));
+
+  const toRow = (clientId: string | null, name: string, archived: boolean): ClientUsageRow => {
+    const cost = costs.get(clientId);
+    return {
+      clientId,
+      name,
+      archived,
+      contents: contents.get(clientId) ?? 0,
+      outputs: outputCounts.get(clientId) ?? 0,
+      calls: cost?._count?._all ?? 0,
+      inputTokens: cost?._sum?.inputTokens ?? 0,
+      outputTokens: cost?._sum?.outputTokens ?? 0,
+      costUsd: Math.round((cost?._sum?.costUsd ?? 0) * 1e6) / 1e6
+    };
+  };
+
+  const rows = clients
+    .map(client => toRow(client.id, client.name, !!client.archivedAt))
+    .sort((a, b) => b.costUsd - a.costUsd || b.contents - a.contents || a.name.localeCompare(b.name));
+  const unassigned = toRow(null, 'No client', false);
+  return unassigned.contents > 0 || unassigned.calls > 0 ? [...rows, unassigned] : rows;
+}
+
+// A client's or campaign's voice: its profile if one is assigned, else its free-text voice
+function voiceOf(record: { brandVoiceId?: string | null; brandVoice?: string | null } | null): Pick<ContentScope, 'brandVoiceId' | 'brandVoice'> {
+  if (record?.brandVoiceId) return { brandVoiceId: record.brandVoiceId };
+  if (record?.brandVoice) return { brandVoice: record.brandVoice };
+  return {};
+}
+
+class ClientCampaignManager {
+  private static instance: ClientCampaignManager;
+
+  private constructor() {}
+
+  public static getInstance(): ClientCampaignManager {
+    if (!ClientCampaignManager.instance) {
+      ClientCampaignManager.instance = new ClientCampaignManager();
+    }
+    return ClientCampaignManager.instance;
+  }
+
+  /**
+   * The team a user works in; clients, campaigns and other team features only exist inside a team
+   */
+  async requireTeam(userId: string, feature = 'Clients and campaigns'): Promise<{ teamId: string; role: string | null }> {
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { teamId: true, role: true } });
+    if (!user) {
+      throw Errors.notFound('User');
+    }
+    if (!user.teamId) {
+      throw Errors.authorization(`${feature} are only available to teams`);
+    }
+    return { teamId: user.teamId, role: user.role ?? null };
+  }
+
+  async listClients(teamId: string, options: { includeArchived?: boolean } = {}) {
+    return prisma.client.findMany({
+      where: { teamId, ...(!options.includeArchived && { archivedAt: null }) },
+      orderBy: { name: 'asc' },
+      include: { _count: { select: { contents: true, campaigns: true } } }
+    });
+  }
+
+  async getClient(teamId: string, clientId: string) {
+    const client = await prisma.client.findFirst({ where: { id: clientId, teamId } });
+    if (!client) {
+      throw Errors.notFound('Client');
+    }
+    return client;
+  }
+
+  async createClient(teamId: string, userId: string, input: ClientInput) {
+    await this.assertClientNameFree(teamId, input.name);
+    if (input.brandVoiceId) {
+      await brandVoices.assertTeamProfile(teamId, input.brandVoiceId);
+    }
+    return prisma.client.create({
+      data: {
+        teamId,
+        name: input.name,
+        brandVoice: input.brandVoice || null,
+        brandVoiceId: input.brandVoiceId || null,
+        notes: input.notes || null,
+        createdById: userId
+      }
+    });
+  }
+
+  async updateClient(teamId: string, clientId: string, input: ClientUpdate) {
+    const client = await this.getClient(teamId, clientId);
+    if (input.name && input.name !== client.name) {
+      await this.assertClientNameFree(teamId, input.name);
+    }
+    if (input.brandVoiceId) {
+      await brandVoices.assertTeamProfile(teamId, input.brandVoiceId);
+    }
+
+    return prisma.client.update({
+      where: { id: client.id },
+      data: {
+        ...(input.name !== undefined && { name: input.name }),
+        ...(input.brandVoice !== undefined && { brandVoice: input.brandVoice || null }),
+        ...(input.brandVoiceId !== undefined && { brandVoiceId: input.brandVoiceId || null }),
+        ...(input.notes !== undefined && { notes: input.notes || null }),
+        ...(input.archived !== undefined && { archivedAt: input.archived ? client.archivedAt ?? new Date() : null })
+      }
+    });
+  }
+
+  async listCampaigns(teamId: string, filter: { clientId?: string; status?: CampaignStatus } = {}) {
+    return prisma.campaign.findMany({
+      where: {
+        teamId,
+        ...(filter.clientId && { clientId: filter.clientId }),
+        ...(filter.status && { status: filter.status })
+      },
+      orderBy: [{ status: 'asc' }, { createdAt: 'desc' }],
+      include: {
+        client: { select: { id: true, name: true } },
+        _count: { select: { contents: true, repurposed: true } }
+      }
+    });
+  }
+
+  /**
+   * A campaign with its outputs counted per platform
+   */
+  async getCampaign(teamId: string, campaignId: string) {
+    const campaign = await prisma.campaign.findFirst({
+      where: { id: campaignId, teamId },
+      include: {
+        client: { select: { id: true, name: true } },
+        _count: { select: { contents: true, repurposed: true } }
+      }
+    });
+    if (!campaign) {
+      throw Errors.notFound('Campaign');
+    }
+
+    const platforms = await prisma.repurposedContent.groupBy({
+      by: ['platform'],
+      where: { OR: [{ campaignId }, { originalContent: { campaignId } }] },
+      _count: { _all: true }
+    });
+    return {
+      ...campaign,
+      outputsByPlatform: Object.fromEntries(platforms.map((group: any) => [group.platform, group._count._all]))
+    };
+  }
+
+  async createCampaign(teamId: string, userId: string, input: CampaignInput) {
+    if (input.clientId) {
+      await this.getActiveClient(teamId, input.clientId);
+    }
+    if (input.brandVoiceId) {
+      await brandVoices.assertTeamProfile(teamId, input.brandVoiceId);
+    }
+
+    return prisma.campaign.create({
+      data: {
+        teamId,
+        clientId: input.clientId || null,
+        name: input.name,
+        description: input.description || null,
+        brandVoice: input.brandVoice || null,
+        brandVoiceId: input.brandVoiceId || null,
+        status: input.status ?? 'active',
+        startsAt: input.startsAt ?? null,
+        endsAt: input.endsAt ?? null,
+        createdById: userId
+      }
+    });
+  }
+
+  async updateCampaign(teamId: string, campaignId: string, input: CampaignUpdate) {
+    const campaign = await prisma.campaign.findFirst({ where: { id: campaignId, teamId } });
+    if (!campaign) {
+      throw Errors.notFound('Campaign');
+    }
+    if (input.clientId) {
+      await this.getActiveClient(teamId, input.clientId);
+    }
+    if (input.brandVoiceId) {
+      await brandVoices.assertTeamProfile(teamId, input.brandVoiceId);
+    }
+    const startsAt = input.startsAt !== undefined ? input.startsAt : campaign.startsAt;
+    const endsAt = input.endsAt !== undefined ? input.endsAt : campaign.endsAt;
+    if (!endsAfterStart({ startsAt, endsAt })) {
+      throw Errors.validation('A campaign must end after it starts');
+    }
+
+    return prisma.campaign.update({
+      where: { id: campaign.id },
+      data: {
+        ...(input.name !== undefined && { name: input.name }),
+        ...(input.clientId !== undefined && { clientId: input.clientId || null }),
+        ...(input.description !== undefined && { description: input.description || null }),
+        ...(input.brandVoice !== undefined && { brandVoice: input.brandVoice || null }),
+        ...(input.brandVoiceId !== undefined && { brandVoiceId: input.brandVoiceId || null }),
+        ...(input.status !== undefined && { status: input.status }),
+        ...(input.startsAt !== undefined && { startsAt: input.startsAt }),
+        ...(input.endsAt !== undefined && { endsAt: input.endsAt })
+      }
+    });
+  }
+
+  /**
+   * Check the client and campaign a request names belong to the user's team and fit together.
+   * A campaign for a client implies that client; archived clients and campaigns take no new work.
+   */
+  async resolveScope(teamId: string | null | undefined, ids: { clientId?: string | null; campaignId?: string | null }): Promise<ContentScope> {
+    if (!ids.clientId && !ids.campaignId) {
+      return {};
+    }
+    if (!teamId) {
+      throw Errors.authorization('Clients and campaigns are only available to teams');
+    }
+
+    let clientId = ids.clientId || undefined;
+    let campaignVoice: Pick<ContentScope, 'brandVoiceId' | 'brandVoice'> = {};
+    if (ids.campaignId) {
+      const campaign = await prisma.campaign.findFirst({ where: { id: ids.campaignId, teamId } });
+      if (!campaign) {
+        throw Errors.notFound('Campaign');
+      }
+      if (campaign.status === 'archived') {
+        throw Errors.validation(`Campaign "${campaign.name}" is archived`);
+      }
+      if (clientId && campaign.clientId && campaign.clientId !== clientId) {
+        throw Errors.validation(`Campaign "${campaign.name}" belongs to a different client`);
+      }
+      clientId = clientId ?? campaign.clientId ?? undefined;
+      campaignVoice = voiceOf(campaign);
+    }
+
+    const client = clientId ? await this.getActiveClient(teamId, clientId) : null;
+    const voice = campaignVoice.brandVoiceId || campaignVoice.brandVoice ? campaignVoice : voiceOf(client);
+    return {
+      ...(clientId && { clientId }),
+      ...(ids.campaignId && { campaignId: ids.campaignId }),
+      ...voice
+    };
+  }
+
+  /**
+   * Content, outputs and AI cost per client for a period, for billing the agency's own customers
+   */
+  async getClientUsage(teamId: string, since: Date, until: Date = new Date()): Promise<ClientUsageRow[]> {
+    const createdAt = { gte: since, lte: until };
+    const teamContent = { user: { teamId } };
+
+    const [clients, contentGroups, costGroups] = await Promise.all([
+      prisma.client.findMany({ where: { teamId }, select: { id: true, name: true, archivedAt: true } }),
+      prisma.content.groupBy({ by: ['clientId'], where: { ...teamContent, createdAt }, _count: { _all: true } }),
+      prisma.aiUsageEntry.groupBy({
+        by: ['clientId'],
+        where: { teamId, createdAt },
+        _sum: { inputTokens: true, outputTokens: true, costUsd: true },
+        _count: { _all: true }
+      })
+    ]);
+
+    const clientIds: (string | null)[] = [...clients.map((client: { id: string }) => client.id), null];
+    const outputCounts = new Map(await Promise.all(clientIds.map(async (clientId): Promise<[string | null, number]> => [
+      clientId,
+      await prisma.repurposedContent.count({ where: { createdAt, originalContent: { ...teamContent, clientId } } })
+    ])));
+
+    return buildClientUsage(clients, contentGroups, outputCounts, costGroups);
+  }
+
+  private async getActiveClient(teamId: string, clientId: string) {
+    const client = await this.getClient(teamId, clientId);
+    if (client.archivedAt) {
+      throw Errors.validation(`Client "${client.name}" is archived`);
+    }
+    return client;
+  }
+
+  private async assertClientNameFree(teamId: string, name: string) {
+    const existing = await prisma.client.findFirst({ where: { teamId, name: { equals: name, mode: 'insensitive' } } });
+    if (existing) {
+      throw Errors.validation(`A client named "${existing.name}" already exists`);
+    }
+  }
+}
+
+export const clientCampaigns = ClientCampaignManager.getInstance();
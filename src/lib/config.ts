@@ -17,6 +17,8 @@ interface Config {
   // External APIs
   anthropicApiKey?: string
   groqApiKey?: string
+  openaiCompatibleBaseUrl?: string
+  openaiCompatibleApiKey?: string
   
   // Stripe (optional)
   stripeSecretKey?: string
@@ -101,6 +103,8 @@ function loadConfig(): Config {
     // External APIs
     anthropicApiKey: process.env.ANTHROPIC_API_KEY,
     groqApiKey: process.env.GROQ_API_KEY,
+    openaiCompatibleBaseUrl: process.env.OPENAI_COMPATIBLE_BASE_URL,
+    openaiCompatibleApiKey: process.env.OPENAI_COMPATIBLE_API_KEY,
     
     // Stripe
     stripeSecretKey: process.env.STRIPE_SECRET_KEY,
@@ -240,10 +244,10 @@ export function validateConfig(config: Config): { isValid: boolean; errors: Vali
   }
 
   // Optional but recommended validations
-  if (!config.anthropicApiKey && !config.groqApiKey) {
+  if (!config.anthropicApiKey && !config.groqApiKey && !config.openaiCompatibleBaseUrl) {
     errors.push({
       field: 'AI_PROVIDERS',
-      message: 'No AI providers configured (Anthropic or Groq) - AI features will be disabled',
+      message: 'No AI providers configured (Anthropic, Groq or OpenAI-compatible) - AI features will be disabled',
       severity: 'warning'
     })
   }
@@ -352,6 +356,7 @@ try {
       servicesConfigured: [
         config.anthropicApiKey ? 'anthropic' : null,
         config.groqApiKey ? 'groq' : null,
+        config.openaiCompatibleBaseUrl ? 'openai-compatible' : null,
         config.stripeSecretKey ? 'stripe' : null,
         config.email ? 'email' : null
       ].filter(Boolean)
@@ -451,6 +456,8 @@ export function getSecureHeaders(): Record<string, string> {
 // Export specific configurations for easier access
 export const ANTHROPIC_API_KEY = config.anthropicApiKey
 export const GROQ_API_KEY = config.groqApiKey
+export const OPENAI_COMPATIBLE_BASE_URL = config.openaiCompatibleBaseUrl
+export const OPENAI_COMPATIBLE_API_KEY = config.openaiCompatibleApiKey
 export const DATABASE_URL = config.databaseUrl
 export const NEXTAUTH_SECRET = config.nextauthSecret
 export const NEXTAUTH_URL = config.nextauthUrl
@@ -472,4 +479,152 @@ export const GROQ_MODELS = {
   MIXTRAL_8X7B_32768: 'mixtral-8x7b-32768',
   GEMMA_7B_IT: 'gemma-7b-it',
   DEFAULT: 'llama-3.1-70b-versatile'
-} as const; 
\ No newline at end of file
+} as const; 
+
+// OpenAI-compatible endpoint (Ollama, llama.cpp server, vLLM, OpenAI itself)
+// OPENAI_COMPATIBLE_MODELS is a comma-separated list; the first entry is the default
+export const OPENAI_COMPATIBLE_MODELS = (process.env.OPENAI_COMPATIBLE_MODELS || 'llama3.1')
+  .split(',')
+  .map(model => model.trim())
+  .filter(Boolean);
+
+// Retry and circuit breaker tuning for AI provider calls
+export const AI_RESILIENCE = {
+  retryAttempts: parseInt(process.env.AI_RETRY_ATTEMPTS || '3', 10),
+  retryBaseDelayMs: parseInt(process.env.AI_RETRY_BASE_DELAY_MS || '500', 10),
+  retryMaxDelayMs: parseInt(process.env.AI_RETRY_MAX_DELAY_MS || '8000', 10),
+  circuitFailureThreshold: parseInt(process.env.AI_CIRCUIT_FAILURE_THRESHOLD || '5', 10),
+  circuitCooldownMs: parseInt(process.env.AI_CIRCUIT_COOLDOWN_MS || '30000', 10)
+} as const;
+
+// How many times a repurposed output that breaks its platform's constraints is sent back for a rewrite
+export const AI_CONSTRAINT_MAX_REWRITES = parseInt(process.env.AI_CONSTRAINT_MAX_REWRITES || '2', 10);
+
+// Background job queue: retry backoff, how long a silent worker keeps its lock, how long one worker run may take
+// and how often a running repurpose job writes its drafts to the job's progress
+export const JOB_QUEUE = {
+  retryBaseDelayMs: parseInt(process.env.JOB_RETRY_BASE_DELAY_MS || '5000', 10),
+  retryMaxDelayMs: parseInt(process.env.JOB_RETRY_MAX_DELAY_MS || '300000', 10),
+  lockTimeoutMs: parseInt(process.env.JOB_LOCK_TIMEOUT_MS || '120000', 10),
+  workerBudgetMs: parseInt(process.env.JOB_WORKER_BUDGET_MS || '50000', 10),
+  progressIntervalMs: parseInt(process.env.JOB_PROGRESS_INTERVAL_MS || '1000', 10)
+} as const;
+
+// Long documents: above the threshold, content is split into chunks of about chunkChars, each chunk is
+// summarised and the summaries are repurposed instead of the full text
+export const CONTENT_CHUNKING = {
+  thresholdChars: parseInt(process.env.CHUNKING_THRESHOLD_CHARS || '12000', 10),
+  chunkChars: parseInt(process.env.CHUNKING_CHUNK_CHARS || '6000', 10),
+  maxChunks: parseInt(process.env.CHUNKING_MAX_CHUNKS || '40', 10),
+  summaryMaxTokens: parseInt(process.env.CHUNKING_SUMMARY_MAX_TOKENS || '600', 10),
+  outputMaxTokens: parseInt(process.env.CHUNKING_OUTPUT_MAX_TOKENS || '2048', 10), // Platform outputs written from a digest
+  concurrency: parseInt(process.env.CHUNKING_CONCURRENCY || '3', 10)
+} as const;
+
+// Atomize mode: one source becomes a campaign of distinct posts, one key idea per post
+export const CONTENT_ATOMIZATION = {
+  maxIdeas: parseInt(process.env.ATOMIZE_MAX_IDEAS || '12', 10),
+  maxPostsPerPlatform: parseInt(process.env.ATOMIZE_MAX_POSTS_PER_PLATFORM || '10', 10),
+  maxPosts: parseInt(process.env.ATOMIZE_MAX_POSTS || '30', 10),
+  // Word-shingle overlap above which two posts (or two extracted ideas) count as the same angle
+  duplicateThreshold: parseFloat(process.env.ATOMIZE_DUPLICATE_THRESHOLD || '0.5'),
+  concurrency: parseInt(process.env.ATOMIZE_CONCURRENCY || '3', 10)
+} as const;
+
+// Posts per platform when an atomize request doesn't say: a week of tweets, a few LinkedIn posts, one newsletter blurb
+export const DEFAULT_ATOMIZE_POSTS = {
+  twitter: 5,
+  linkedin: 3,
+  newsletter: 1
+} as const;
+
+// Named brand voice profiles and how much of a profile is written into each prompt
+export const BRAND_VOICES = {
+  maxProfiles: parseInt(process.env.BRAND_VOICE_MAX_PROFILES || '50', 10), // Per user
+  maxSamplePosts: 5,
+  promptSamplePosts: parseInt(process.env.BRAND_VOICE_PROMPT_SAMPLES || '3', 10),
+  promptSampleChars: parseInt(process.env.BRAND_VOICE_PROMPT_SAMPLE_CHARS || '600', 10),
+  // Learning a voice from example posts
+  minExamplePosts: 5,
+  maxExamplePosts: 50,
+  maxExampleChars: 5000, // Per post
+  learnPromptChars: parseInt(process.env.BRAND_VOICE_LEARN_PROMPT_CHARS || '20000', 10), // Examples sent to the model
+  // Compliance scoring of generated output
+  maxDisclaimers: 5,
+  compliancePassScore: parseInt(process.env.BRAND_VOICE_PASS_SCORE || '80', 10), // 0-100
+  toneMatchThreshold: parseInt(process.env.BRAND_VOICE_TONE_THRESHOLD || '50', 10) // Fingerprint match below this is off-voice
+} as const;
+
+// Team glossaries: preferred terms and forbidden variants enforced on generated output
+export const GLOSSARY = {
+  maxTerms: parseInt(process.env.GLOSSARY_MAX_TERMS || '500', 10), // Per team
+  maxVariants: 20, // Forbidden variants per term
+  promptTerms: parseInt(process.env.GLOSSARY_PROMPT_TERMS || '100', 10) // Terms written into prompts; all are enforced afterwards
+} as const;
+
+// Translated variants of repurposed outputs
+export const LOCALIZATION = {
+  maxTargetLocales: parseInt(process.env.LOCALIZATION_MAX_TARGET_LOCALES || '10', 10), // Per translate request
+  concurrency: 3 // Locales translated at once
+} as const;
+
+// Local duplicate detection against the user's and team's own content
+export const SIMILARITY = {
+  shingleSize: 4, // Words per shingle
+  signatureSize: 64, // MinHash values per text
+  candidateContainment: 0.1, // Estimated overlap a source needs before it is compared word for word
+  minContainment: parseFloat(process.env.SIMILARITY_MIN_CONTAINMENT || '0.2'), // Share of a text found in a source before the source is reported
+  nearDuplicate: 0.5,
+  duplicate: 0.85,
+  repeatedPost: parseFloat(process.env.SIMILARITY_REPEATED_POST || '0.6'), // Overlap with an earlier post on the same platform that counts as posting it twice
+  maxCorpusContents: parseInt(process.env.SIMILARITY_MAX_CORPUS || '1000', 10), // Most recently updated content items compared against
+  maxMatches: 10,
+  signatureCacheSize: 5000
+} as const;
+
+// Scheduled publishing of repurposed outputs
+export const SCHEDULING = {
+  minGapMinutes: parseInt(process.env.SCHEDULING_MIN_GAP_MINUTES || '60', 10), // Posts on the same channel closer than this are flagged as conflicts
+  maxAttempts: parseInt(process.env.SCHEDULING_MAX_ATTEMPTS || '3', 10), // Failed publish attempts before a post is marked failed
+  dispatchBatchSize: 50, // Due posts handed to the publisher per dispatcher run
+  lockTimeoutMs: parseInt(process.env.SCHEDULING_LOCK_TIMEOUT_MS || '300000', 10), // Posts stuck publishing longer than this are due again
+  maxCalendarDays: 92, // Longest range the calendar API expands recurring posts over
+  maxOccurrencesPerPost: 100 // Recurring occurrences listed per post in one calendar range
+} as const;
+
+// Direct publishing to connected accounts
+export const PUBLISHING = {
+  requestTimeoutMs: parseInt(process.env.PUBLISHING_REQUEST_TIMEOUT_MS || '15000', 10), // Per platform API call
+  fakeAdapter: process.env.PUBLISHING_FAKE_ADAPTER === 'true', // Allow accounts on the fake adapter outside tests
+  maxAccounts: 25, // Connected accounts per team (or per user without one)
+  linkedinVersion: process.env.LINKEDIN_API_VERSION || '202405', // LinkedIn-Version header for the Posts API
+  facebookGraphVersion: process.env.FACEBOOK_GRAPH_VERSION || 'v19.0',
+  attemptsListed: 20 // Recent publish attempts returned per post
+} as const;
+
+// Email and newsletter rendering
+export const EMAIL_RENDERING = {
+  width: 600, // Content width in px; narrower screens get the full width
+  primaryColor: '#4F46E5', // Header, headings and buttons when the team has no brand colors
+  backgroundColor: '#F3F4F6',
+  textColor: '#1F2937',
+  fontFamily: 'Helvetica, Arial, sans-serif', // Fallbacks after the team's brand font
+  logoWidth: 160, // px
+  maxBrandColors: 3,
+  maxBrandFonts: 3
+} as const;
+
+// Content exports
+export const EXPORTS = {
+  inlineMaxBytes: parseInt(process.env.EXPORT_INLINE_MAX_BYTES || '2097152', 10), // Larger exports are built by a background job
+  maxBytes: 50 * 1024 * 1024, // Largest file an export job stores
+  maxItems: 500, // Content items per export
+  linkTtlHours: parseInt(process.env.EXPORT_LINK_TTL_HOURS || '24', 10) // How long a background export can be downloaded
+} as const;
+
+// Content library imports
+export const IMPORTS = {
+  maxBytes: 25 * 1024 * 1024, // Largest CSV, JSON or WXR file accepted
+  maxRows: 1000, // Posts per import; larger libraries are imported in parts
+  maxOutputsPerItem: 50
+} as const;
@@ -0,0 +1,285 @@
+import { z } from 'zod';
+import { prisma, Prisma } from '@/lib/prisma';
+import { Errors } from '@/lib/error-handler';
+import { PUBLISHING } from '@/lib/config';
+import { decryptSensitiveData, encryptSensitiveData } from '@/lib/security-node';
+import { getPlatformConfig } from '@/lib/platform-icons';
+import { publisherRegistry, PublisherAccount, PublisherCredentials, PUBLISH_PLATFORMS, PublishPlatform } from '@/lib/publishers';
+
+// Team roles allowed to connect and disconnect the team's accounts
+export const ACCOUNT_MANAGER_ROLES = ['owner', 'admin'];
+
+export const connectedAccountInputSchema = z.object({
+  platform: z.enum(PUBLISH_PLATFORMS as [PublishPlatform, ...PublishPlatform[]]),
+  adapter: z.string().trim().min(1).optional(), // The platform's first adapter when missing
+  externalId: z.string().trim().min(1).max(200),
+  name: z.string().trim().min(1).max(100),
+  accessToken: z.string().trim().min(1).max(4000),
+  refreshToken: z.string().trim().min(1).max(4000).nullable().optional(),
+  tokenExpiresAt: z.string().datetime().nullable().optional(),
+  scopes: z.array(z.string().trim().min(1)).max(50).default([]),
+  settings: z.record(z.string(), z.unknown()).optional(),
+  clientId: z.string().nullable().optional()
+});
+
+export type ConnectedAccountInput = z.infer<typeof connectedAccountInputSchema>;
+
+export type ConnectedAccountStatus = 'active' | 'expired';
+
+// An account as the API returns it; tokens never leave the server
+export interface ConnectedAccountView {
+  id: string;
+  platform: string;
+  adapter: string;
+  externalId: string;
+  name: string;
+  clientId: string | null;
+  scopes: string[];
+  settings: Record<string, unknown>;
+  status: ConnectedAccountStatus;
+  lastError: string | null;
+  lastUsedAt: Date | null;
+  tokenExpiresAt: Date | null;
+  connectedBy: string;
+  createdAt: Date;
+}
+
+// An account loaded to publish through, with its tokens decrypted
+export interface PublishingAccount extends PublisherAccount {
+  adapter: string;
+  status: ConnectedAccountStatus;
+  lastError: string | null;
+  credentials: PublisherCredentials;
+}
+
+const ACCOUNT_SELECT = {
+  id: true,
+  userId: true,
+  platform: true,
+  adapter: true,
+  externalId: true,
+  name: true,
+  clientId: true,
+  scopes: true,
+  settings: true,
+  status: true,
+  lastError: true,
+  lastUsedAt: true,
+  tokenExpiresAt: true,
+  createdAt: true
+} satisfies Prisma.ConnectedAccountSelect;
+
+type ConnectedAccountRow = Prisma.ConnectedAccountGetPayload<{ select: typeof ACCOUNT_SELECT }>;
+
+function encryptionKey(): string {
+  const key = process.env.DATABASE_ENCRYPTION_KEY;
+  if (!key) {
+    throw Errors.system('DATABASE_ENCRYPTION_KEY must be set to store connected account tokens');
+  }
+  return key;
+}
+
+function decryptToken(token: string): string {
+  const decrypted = decryptSensitiveData(token, encryptionKey());
+  if (decrypted === null) {
+    throw Errors.system('A connected account token could not be decrypted; was DATABASE_ENCRYPTION_KEY changed?');
+  }
+  return decrypted;
+}
+
+function toView(account: ConnectedAccountRow): ConnectedAccountView {
+  return {
+    id: account.id,
+    platform: account.platform,
+    adapter: account.adapter,
+    externalId: account.externalId,
+    name: account.name,
+    clientId: account.clientId ?? null,
+    scopes: account.scopes ?? [],
+    settings: (account.settings as Record<string, unknown> | null) ?? {},
+    status: account.status as ConnectedAccountStatus,
+    lastError: account.lastError ?? null,
+    lastUsedAt: account.lastUsedAt ?? null,
+    tokenExpiresAt: account.tokenExpiresAt ?? null,
+    connectedBy: account.userId,
+    createdAt: account.createdAt
+  };
+}
+
+class ConnectedAccounts {
+  private static instance: ConnectedAccounts;
+
+  private constructor() {}
+
+  public static getInstance(): ConnectedAccounts {
+    if (!ConnectedAccounts.instance) {
+      ConnectedAccounts.instance = new ConnectedAccounts();
+    }
+    return ConnectedAccounts.instance;
+  }
+
+  async list(userId: string, platform?: string): Promise<ConnectedAccountView[]> {
+    const { where } = await this.owner(userId);
+    const accounts = await prisma.connectedAccount.findMany({
+      where: { ...where, ...(platform && { platform }) },
+      select: ACCOUNT_SELECT,
+      orderBy: [{ platform: 'asc' }, { createdAt: 'asc' }]
+    });
+    return accounts.map(toView);
+  }
+
+  async canManage(userId: string): Promise<boolean> {
+    const owner = await this.owner(userId);
+    return !owner.teamId || ACCOUNT_MANAGER_ROLES.includes(owner.role ?? '');
+  }
+
+  /**
+   * Store an account's tokens, encrypted. Connecting the same platform account again replaces
+   * its tokens and settings, which is also how an expired account is reconnected.
+   */
+  async connect(userId: string, input: ConnectedAccountInput): Promise<ConnectedAccountView> {
+    const owner = await this.assertCanManage(userId);
+    const platformName = getPlatformConfig(input.platform).name;
+
+    const adapter = input.adapter ? publisherRegistry.get(input.adapter) : publisherRegistry.forPlatform(input.platform)[0];
+    if (!adapter) {
+      throw Errors.validation(input.adapter ? `Unknown publisher "${input.adapter}"` : `Publishing to ${platformName} isn't supported yet`);
+    }
+    if (!adapter.isConfigured() || !(adapter.platforms as readonly string[]).includes(input.platform)) {
+      throw Errors.validation(`${adapter.name} can't publish to ${platformName}`);
+    }
+
+    if (input.clientId) {
+      const client = owner.teamId && await prisma.client.findFirst({ where: { id: input.clientId, teamId: owner.teamId }, select: { id: true } });
+      if (!client) {
+        throw Errors.notFound('Client');
+      }
+    }
+
+    const existing = await prisma.connectedAccount.findFirst({
+      where: { ...owner.where, platform: input.platform, externalId: input.externalId },
+      select: { id: true }
+    });
+    if (!existing && await prisma.connectedAccount.count({ where: owner.where }) >= PUBLISHING.maxAccounts) {
+      throw Errors.validation(`You can connect at most ${PUBLISHING.maxAccounts} accounts`);
+    }
+
+    const key = encryptionKey();
+    const data = {
+      adapter: adapter.id,
+      name: input.name,
+      clientId: input.clientId ?? null,
+      accessToken: encryptSensitiveData(input.accessToken, key),
+      refreshToken: input.refreshToken ? encryptSensitiveData(input.refreshToken, key) : null,
+      tokenExpiresAt: input.tokenExpiresAt ? new Date(input.tokenExpiresAt) : null,
+      scopes: input.scopes,
+      settings: (input.settings ?? {}) as Prisma.InputJsonValue,
+      status: 'active',
+      lastError: null
+    };
+    const account = existing
+      ? await prisma.connectedAccount.update({ where: { id: existing.id }, data, select: ACCOUNT_SELECT })
+      : await prisma.connectedAccount.create({
+          data: { userId, teamId: owner.teamId, platform: input.platform, externalId: input.externalId, ...data },
+          select: ACCOUNT_SELECT
+        });
+    return toView(account);
+  }
+
+  /**
+   * Remove an account. Posts scheduled through it stay scheduled, for the user to publish.
+   */
+  async disconnect(userId: string, accountId: string): Promise<void> {
+    const owner = await this.assertCanManage(userId);
+    const account = await prisma.connectedAccount.findFirst({ where: { ...owner.where, id: accountId }, select: { id: true } });
+    if (!account) {
+      throw Errors.notFound('Connected account');
+    }
+    await prisma.connectedAccount.delete({ where: { id: account.id } });
+  }
+
+  /**
+   * The account a new post on the platform goes out through: the client's own account first,
+   * then the team's, oldest first. Null when the user will post it themselves.
+   */
+  async defaultFor(userId: string, platform: string, clientId: string | null): Promise<string | null> {
+    const { where } = await this.owner(userId);
+    const accounts = await prisma.connectedAccount.findMany({
+      where: { ...where, platform, status: 'active', ...(clientId ? { OR: [{ clientId }, { clientId: null }] } : { clientId: null }) },
+      select: { id: true, clientId: true },
+      orderBy: { createdAt: 'asc' }
+    });
+    return (accounts.find((account: { id: string; clientId: string | null }) => account.clientId === clientId) ?? accounts[0])?.id ?? null;
+  }
+
+  /**
+   * Check an account the user picked for a post can publish it
+   */
+  async requireForPost(userId: string, accountId: string, platform: string): Promise<string> {
+    const { where } = await this.owner(userId);
+    const account = await prisma.connectedAccount.findFirst({ where: { ...where, id: accountId }, select: { id: true, platform: true } });
+    if (!account) {
+      throw Errors.notFound('Connected account');
+    }
+    if (account.platform !== platform) {
+      throw Errors.validation(`That account publishes to ${getPlatformConfig(account.platform).name}, not ${getPlatformConfig(platform).name}`);
+    }
+    return account.id;
+  }
+
+  async loadForPublishing(accountId: string): Promise<PublishingAccount> {
+    const account = await prisma.connectedAccount.findUnique({ where: { id: accountId } });
+    if (!account) {
+      throw Errors.notFound('Connected account');
+    }
+    return {
+      id: account.id,
+      platform: account.platform as PublishPlatform,
+      externalId: account.externalId,
+      name: account.name,
+      settings: (account.settings as Record<string, unknown>) ?? {},
+      adapter: account.adapter,
+      status: account.status as ConnectedAccountStatus,
+      lastError: account.lastError ?? null,
+      credentials: {
+        accessToken: decryptToken(account.accessToken),
+        refreshToken: account.refreshToken ? decryptToken(account.refreshToken) : null,
+        expiresAt: account.tokenExpiresAt ?? null
+      }
+    };
+  }
+
+  async recordUse(accountId: string): Promise<void> {
+    await prisma.connectedAccount.update({ where: { id: accountId }, data: { lastUsedAt: new Date(), lastError: null } });
+  }
+
+  /**
+   * The platform no longer accepts the account's token; it stays expired until reconnected
+   */
+  async markExpired(accountId: string, reason: string): Promise<void> {
+    await prisma.connectedAccount.update({ where: { id: accountId }, data: { status: 'expired', lastError: reason } });
+  }
+
+  // Accounts belong to the team when the user is on one, otherwise to the user
+  private async owner(userId: string): Promise<{ teamId: string | null; role: string | null; where: Record<string, unknown> }> {
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { teamId: true, role: true } });
+    if (!user) {
+      throw Errors.notFound('User');
+    }
+    return {
+      teamId: user.teamId ?? null,
+      role: user.role ?? null,
+      where: user.teamId ? { teamId: user.teamId } : { userId, teamId: null }
+    };
+  }
+
+  private async assertCanManage(userId: string) {
+    const owner = await this.owner(userId);
+    if (owner.teamId && !ACCOUNT_MANAGER_ROLES.includes(owner.role ?? '')) {
+      throw Errors.authorization('Only team owners and admins can connect and disconnect accounts');
+    }
+    return owner;
+  }
+}
+
+export const connectedAccounts = ConnectedAccounts.getInstance();
@@ -0,0 +1,141 @@
+import { z } from 'zod';
+import { CONTENT_ATOMIZATION } from '@/lib/config';
+import { Errors } from '@/lib/error-handler';
+import type { Platform } from '@/lib/ai-service';
+
+export const ATOM_IDEA_TYPES = ['idea', 'quote', 'statistic'] as const;
+export type AtomIdeaType = (typeof ATOM_IDEA_TYPES)[number];
+
+// One distinct angle pulled out of the source; each post in a campaign is written from one of these
+export interface AtomIdea {
+  index: number;
+  type: AtomIdeaType;
+  angle: string;
+  detail?: string;
+}
+
+export type PostCounts = Partial<Record<Platform, number>>;
+
+const ideaSchema = z.object({
+  type: z.string().optional(),
+  angle: z.string().trim().min(1),
+  detail: z.string().trim().optional()
+});
+
+/**
+ * Check requested posts per platform against the atomize limits, dropping platforms asked for zero posts
+ */
+export function resolvePostCounts(postsPerPlatform: PostCounts): [Platform, number][] {
+  const counts = (Object.entries(postsPerPlatform) as [Platform, number][])
+    .map(([platform, count]): [Platform, number] => [platform, Math.floor(count)])
+    .filter(([, count]) => count > 0);
+
+  if (counts.length === 0) {
+    throw Errors.validation('Ask for at least one post on one platform');
+  }
+  const tooMany = counts.find(([, count]) => count > CONTENT_ATOMIZATION.maxPostsPerPlatform);
+  if (tooMany) {
+    throw Errors.validation(
+      `At most ${CONTENT_ATOMIZATION.maxPostsPerPlatform} posts per platform can be atomized (${tooMany[0]}: ${tooMany[1]})`,
+      { platform: tooMany[0], limit: CONTENT_ATOMIZATION.maxPostsPerPlatform }
+    );
+  }
+  const total = counts.reduce((sum, [, count]) => sum + count, 0);
+  if (total > CONTENT_ATOMIZATION.maxPosts) {
+    throw Errors.validation(
+      `At most ${CONTENT_ATOMIZATION.maxPosts} posts can be atomized at once (${total} requested)`,
+      { total, limit: CONTENT_ATOMIZATION.maxPosts }
+    );
+  }
+  return counts;
+}
+
+/**
+ * Word trigrams of a text, ignoring case, punctuation, links and hashtags
+ */
+function shingles(text: string): Set<string> {
+  const words = text
+    .toLowerCase()
+    .replace(/https?:\/\/\S+|[#@]\w+/g, ' ')
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+  if (words.length < 3) return new Set(words.length ? [words.join(' ')] : []);
+
+  const result = new Set<string>();
+  for (let i = 0; i + 3 <= words.length; i++) result.add(words.slice(i, i + 3).join(' '));
+  return result;
+}
+
+/**
+ * Jaccard overlap of word trigrams, from 0 (nothing shared) to 1 (same wording)
+ */
+export function textSimilarity(a: string, b: string): number {
+  const left = shingles(a);
+  const right = shingles(b);
+  if (left.size === 0 || right.size === 0) return 0;
+
+  let shared = 0;
+  for (const shingle of left) if (right.has(shingle)) shared++;
+  return shared / (left.size + right.size - shared);
+}
+
+/**
+ * Position of the earlier text a text repeats, or -1 when it is distinct from all of them
+ */
+export function findDuplicate(text: string, earlier: string[], threshold: number = CONTENT_ATOMIZATION.duplicateThreshold): number {
+  return earlier.findIndex(previous => textSimilarity(text, previous) > threshold);
+}
+
+/**
+ * Parse the extraction response into ideas, dropping malformed entries and ideas that repeat an
+ * earlier angle. Returns an empty list when the response holds no JSON array.
+ */
+export function parseAtomIdeas(response: string, limit: number): AtomIdea[] {
+  const fenced = response.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const candidate = (fenced ? fenced[1]! : response).trim();
+  const start = candidate.indexOf('[');
+  const end = candidate.lastIndexOf(']');
+  if (start === -1 || end <= start) return [];
+
+  let json: unknown;
+  try {
+    json = JSON.parse(candidate.slice(start, end + 1));
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(json)) return [];
+
+  const ideas: AtomIdea[] = [];
+  for (const item of json) {
+    const parsed = ideaSchema.safeParse(item);
+    if (!parsed.success) continue;
+
+    const { angle, detail } = parsed.data;
+    const type = (ATOM_IDEA_TYPES as readonly string[]).includes(parsed.data.type ?? '') ? parsed.data.type as AtomIdeaType : 'idea';
+    const text = `${angle} ${detail ?? ''}`;
+    if (findDuplicate(text, ideas.map(idea => `${idea.angle} ${idea.detail ?? ''}`)) !== -1) continue;
+
+    ideas.push({ index: ideas.length, type, angle, ...(detail && { detail }) });
+    if (ideas.length >= limit) break;
+  }
+  return ideas;
+}
+
+/**
+ * Instructions that pin a post to its idea and keep it off the angles the rest of the campaign covers
+ */
+export function buildAngleInstructions(idea: AtomIdea, siblings: AtomIdea[], retry = false): string {
+  const focus = idea.type === 'quote'
+    ? `Build this post around this quote, used word for word: "${idea.detail ?? idea.angle}".`
+    : idea.type === 'statistic'
+      ? `Build this post around this number: ${idea.detail ?? idea.angle}. Point: ${idea.angle}.`
+      : `Build this post around one idea only: ${idea.angle}.${idea.detail ? ` Supporting detail: ${idea.detail}.` : ''}`;
+  const others = siblings.filter(sibling => sibling.index !== idea.index);
+
+  return [
+    `This post is one of a series written from the same source. ${focus}`,
+    others.length > 0 && `Don't cover these points, other posts in the series do: ${others.map(other => other.angle).join('; ')}.`,
+    retry && 'An earlier draft repeated another post in the series. Use a different hook, structure and wording.'
+  ].filter(Boolean).join(' ');
+}
@@ -0,0 +1,282 @@
+import { createHash } from 'crypto';
+import { prisma, Prisma } from '@/lib/prisma';
+import { CONTENT_CHUNKING } from '@/lib/config';
+
+// One semantic slice of a long document
+export interface ContentChunk {
+  index: number;
+  text: string;
+  heading?: string; // Nearest heading at or before the start of the chunk
+  start: number; // Offsets into the normalized document text
+  end: number;
+  hash: string;
+}
+
+export interface ChunkSummary {
+  index: number;
+  hash: string;
+  heading?: string;
+  charCount: number;
+  summary: string;
+  provider: string;
+  model: string;
+}
+
+// Where summaries are stored: on the content row, or under the request id until the row exists
+export interface ChunkSummaryScope {
+  userId: string;
+  contentId?: string;
+  requestId?: string;
+}
+
+export interface ChunkOptions {
+  chunkChars?: number;
+}
+
+interface Block {
+  text: string;
+  start: number;
+  end: number;
+  heading: boolean;
+}
+
+const MARKDOWN_HEADING = /^#{1,6}\s+/;
+// A short standalone line without closing punctuation reads as a heading in extracted documents
+const PLAIN_HEADING = /^[^\n]{1,80}$/;
+const SENTENCE_BREAK = /(?<=[.!?…]["”’)]?)\s+(?=["“(]?[A-Z0-9])/g;
+
+export function hashChunk(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+/**
+ * Paragraph blocks of the document with their offsets; headings are flagged so chunks can start at them
+ */
+function toBlocks(text: string): Block[] {
+  const blocks: Block[] = [];
+  for (const match of text.matchAll(/[^\n]+(?:\n(?!\s*\n)[^\n]*)*/g)) {
+    const raw = match[0];
+    const trimmed = raw.trim();
+    if (!trimmed) continue;
+
+    const start = (match.index ?? 0) + raw.indexOf(trimmed);
+    blocks.push({
+      text: trimmed,
+      start,
+      end: start + trimmed.length,
+      heading: MARKDOWN_HEADING.test(trimmed) || (PLAIN_HEADING.test(trimmed) && !/[.!?,;:…"”]$/.test(trimmed) && !/^[-*•]\s/.test(trimmed))
+    });
+  }
+  return blocks;
+}
+
+/**
+ * Break an oversized block into sentence runs, and sentences into word runs, that fit the limit
+ */
+function splitOversized(block: Block, limit: number): Block[] {
+  const pieces: Block[] = [];
+  const push = (start: number, end: number) => {
+    const slice = block.text.slice(start, end);
+    const offset = slice.length - slice.trimStart().length;
+    const trimmed = slice.trim();
+    if (trimmed) pieces.push({ text: trimmed, start: block.start + start + offset, end: block.start + start + offset + trimmed.length, heading: false });
+  };
+
+  const boundaries = [0, ...Array.from(block.text.matchAll(SENTENCE_BREAK), match => match.index! + match[0].length), block.text.length];
+  let pieceStart = 0;
+  for (let i = 1; i < boundaries.length; i++) {
+    const sentenceStart = boundaries[i - 1]!;
+    const sentenceEnd = boundaries[i]!;
+
+    if (sentenceEnd - pieceStart <= limit) continue;
+    if (sentenceStart > pieceStart) {
+      push(pieceStart, sentenceStart);
+      pieceStart = sentenceStart;
+    }
+    // A single sentence longer than the limit is cut at the last space that fits
+    while (sentenceEnd - pieceStart > limit) {
+      const window = block.text.slice(pieceStart, pieceStart + limit);
+      const space = window.lastIndexOf(' ');
+      const cut = space > limit / 2 ? pieceStart + space : pieceStart + limit;
+      push(pieceStart, cut);
+      pieceStart = cut;
+    }
+  }
+  push(pieceStart, block.text.length);
+  return pieces;
+}
+
+/**
+ * Split a long document into chunks of roughly chunkChars, breaking at headings and paragraphs
+ * where possible and only falling back to sentence or word boundaries for very long paragraphs.
+ * A heading starts a new chunk once the current one is at least half full.
+ */
+export function splitIntoChunks(text: string, options: ChunkOptions = {}): ContentChunk[] {
+  const limit = Math.max(200, options.chunkChars ?? CONTENT_CHUNKING.chunkChars);
+  const normalized = text.replace(/\r\n?/g, '\n');
+  const blocks = toBlocks(normalized).flatMap(block => block.text.length > limit ? splitOversized(block, limit) : [block]);
+
+  const groups: { blocks: Block[]; heading?: string }[] = [];
+  let current: Block[] = [];
+  let currentHeading: string | undefined;
+  let lastHeading: string | undefined;
+
+  const size = (group: Block[]) => group.length ? group[group.length - 1]!.end - group[0]!.start : 0;
+  const flush = () => {
+    if (current.length) groups.push({ blocks: current, heading: currentHeading });
+    current = [];
+  };
+
+  for (const block of blocks) {
+    const grown = current.length ? block.end - current[0]!.start : block.text.length;
+    if (current.length && (grown > limit || (block.heading && size(current) >= limit / 2))) {
+      flush();
+    }
+    if (block.heading) lastHeading = block.text.replace(MARKDOWN_HEADING, '');
+    if (!current.length) currentHeading = lastHeading;
+    current.push(block);
+  }
+  flush();
+
+  // Fold a small trailing chunk into the one before it rather than summarising a scrap
+  const last = groups[groups.length - 1];
+  const previous = groups[groups.length - 2];
+  if (last && previous && size(last.blocks) < limit / 5 && size(previous.blocks) + size(last.blocks) <= limit * 1.25) {
+    previous.blocks.push(...last.blocks);
+    groups.pop();
+  }
+
+  return groups.map((group, index) => {
+    const start = group.blocks[0]!.start;
+    const end = group.blocks[group.blocks.length - 1]!.end;
+    const chunkText = normalized.slice(start, end);
+    return {
+      index,
+      text: chunkText,
+      ...(group.heading && { heading: group.heading }),
+      start,
+      end,
+      hash: hashChunk(chunkText)
+    };
+  });
+}
+
+/**
+ * Whether content is long enough to go through the chunk, summarise and reduce path
+ */
+export function needsChunking(text: string): boolean {
+  return text.length > CONTENT_CHUNKING.thresholdChars;
+}
+
+/**
+ * Join chunk summaries into the condensed document the platform outputs are written from
+ */
+export function buildDigest(summaries: ChunkSummary[]): string {
+  return summaries
+    .map(summary => `[Part ${summary.index + 1} of ${summaries.length}${summary.heading ? `: ${summary.heading}` : ''}]\n${summary.summary.trim()}`)
+    .join('\n\n');
+}
+
+/**
+ * Run tasks with at most `limit` in flight, keeping results in input order
+ */
+export async function mapWithConcurrency<T, R>(items: T[], limit: number, task: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index]!);
+    }
+  });
+  await Promise.all(workers);
+  return results;
+}
+
+class ChunkSummaryStore {
+  private static instance: ChunkSummaryStore;
+
+  private constructor() {}
+
+  public static getInstance(): ChunkSummaryStore {
+    if (!ChunkSummaryStore.instance) {
+      ChunkSummaryStore.instance = new ChunkSummaryStore();
+    }
+    return ChunkSummaryStore.instance;
+  }
+
+  /**
+   * Stored summaries for the scope, keyed by chunk hash. Never throws - without stored
+   * summaries every chunk is simply summarised again.
+   */
+  async load(scope: ChunkSummaryScope): Promise<Map<string, ChunkSummary>> {
+    const where = scope.contentId
+      ? { contentId: scope.contentId, userId: scope.userId }
+      : scope.requestId ? { requestId: scope.requestId, userId: scope.userId, contentId: null } : null;
+    if (!where) return new Map();
+
+    try {
+      const rows = await prisma.contentChunkSummary.findMany({ where, orderBy: { chunkIndex: 'asc' } });
+      return new Map(rows.map((row: Prisma.ContentChunkSummaryGetPayload<true>): [string, ChunkSummary] => [row.chunkHash, {
+        index: row.chunkIndex,
+        hash: row.chunkHash,
+        ...(row.heading && { heading: row.heading }),
+        charCount: row.charCount,
+        summary: row.summary,
+        provider: row.provider,
+        model: row.model
+      }]));
+    } catch (error) {
+      console.error('[CHUNK_SUMMARIES] Failed to load summaries:', error);
+      return new Map();
+    }
+  }
+
+  /**
+   * Replace the scope's summaries with the current set. Summaries of chunks that no longer
+   * exist (the document was edited) are dropped. Never throws.
+   */
+  async save(scope: ChunkSummaryScope, summaries: ChunkSummary[]): Promise<void> {
+    if (!scope.contentId && !scope.requestId) return;
+    const owner = scope.contentId ? { contentId: scope.contentId } : { requestId: scope.requestId, contentId: null };
+
+    try {
+      await prisma.$transaction([
+        prisma.contentChunkSummary.deleteMany({ where: { ...owner, userId: scope.userId } }),
+        prisma.contentChunkSummary.createMany({
+          data: summaries.map(summary => ({
+            contentId: scope.contentId ?? null,
+            requestId: scope.requestId ?? null,
+            userId: scope.userId,
+            chunkIndex: summary.index,
+            chunkHash: summary.hash,
+            heading: summary.heading ?? null,
+            charCount: summary.charCount,
+            summary: summary.summary,
+            provider: summary.provider,
+            model: summary.model
+          })),
+          skipDuplicates: true
+        })
+      ]);
+    } catch (error) {
+      console.error('[CHUNK_SUMMARIES] Failed to save summaries:', error);
+    }
+  }
+
+  /**
+   * Attach summaries made under a request id to the content row created afterwards
+   */
+  async linkContent(requestId: string, contentId: string, userId: string): Promise<void> {
+    try {
+      await prisma.contentChunkSummary.updateMany({
+        where: { requestId, userId, contentId: null },
+        data: { contentId }
+      });
+    } catch (error) {
+      console.error('[CHUNK_SUMMARIES] Failed to link summaries to content:', error);
+    }
+  }
+}
+
+export const chunkSummaryStore = ChunkSummaryStore.getInstance();
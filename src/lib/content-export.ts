@@ -0,0 +1,242 @@
+import { timingSafeEqual } from 'crypto';
+import { z } from 'zod';
+import { prisma, Prisma } from '@/lib/prisma';
+import { Errors } from '@/lib/error-handler';
+import { EXPORTS } from '@/lib/config';
+import { localeFilter } from '@/lib/locales';
+import { generateHMACSignature } from '@/lib/security-node';
+import { jobQueue, JobContext, QueuedJob } from '@/lib/job-queue';
+import type { SubscriptionPlan } from '@/lib/subscription';
+import { buildExport, estimateExportBytes, EXPORT_FORMATS, ExportData, ExportFile } from '@/lib/exporters';
+
+export const exportRequestSchema = z.object({
+  contentIds: z.array(z.string().min(1)).min(1, 'Select at least one item').max(EXPORTS.maxItems, `At most ${EXPORTS.maxItems} items can be exported at once`),
+  format: z.enum(EXPORT_FORMATS),
+  locale: z.string().optional() // Only outputs in this locale; "original" for untranslated outputs
+});
+
+export type ExportRequest = z.infer<typeof exportRequestSchema>;
+
+// What a finished export job returns; the link stops working at expiresAt
+export interface StoredExport {
+  exportId: string;
+  fileName: string;
+  size: number;
+  skipped: number;
+  expiresAt: string;
+  downloadUrl: string;
+}
+
+export type ExportResult =
+  | { kind: 'file'; file: ExportFile }
+  | { kind: 'job'; job: QueuedJob };
+
+// The content and outputs an export reads; outputs are limited to one language when a locale is picked
+const exportSelect = (locale: ExportRequest['locale']) => ({
+  id: true,
+  title: true,
+  contentType: true,
+  status: true,
+  originalContent: true,
+  createdAt: true,
+  client: { select: { name: true } },
+  campaign: { select: { name: true } },
+  repurposed: {
+    where: localeFilter(locale),
+    orderBy: { createdAt: 'asc' },
+    select: {
+      id: true,
+      platform: true,
+      locale: true,
+      content: true,
+      createdAt: true,
+      schedule: { select: { publishAt: true, timezone: true, status: true } }
+    }
+  }
+}) satisfies Prisma.ContentSelect;
+
+type ExportedContent = Prisma.ContentGetPayload<{ select: ReturnType<typeof exportSelect> }>;
+
+const SIGNATURE_PATTERN = /^[0-9a-f]{64}$/;
+
+function signingSecret(): string {
+  const secret = process.env.NEXTAUTH_SECRET;
+  if (!secret) {
+    throw Errors.system('NEXTAUTH_SECRET is required to sign export links');
+  }
+  return secret;
+}
+
+/**
+ * Exports selected content to files. Small exports are built in the request; larger ones run as
+ * background jobs and are stored for download through an expiring signed link.
+ */
+class ContentExporter {
+  private static instance: ContentExporter;
+
+  private constructor() {}
+
+  public static getInstance(): ContentExporter {
+    if (!ContentExporter.instance) {
+      ContentExporter.instance = new ContentExporter();
+    }
+    return ContentExporter.instance;
+  }
+
+  /**
+   * The user's selected content with its outputs and their schedules, in the order selected
+   */
+  async load(userId: string, input: Pick<ExportRequest, 'contentIds' | 'locale'>): Promise<ExportData> {
+    const ids = [...new Set(input.contentIds)];
+    const contents = await prisma.content.findMany({
+      where: { id: { in: ids }, userId },
+      select: exportSelect(input.locale)
+    });
+
+    if (contents.length !== ids.length) {
+      throw Errors.notFound('Content');
+    }
+
+    const byId = new Map<string, ExportedContent>(contents.map((content: ExportedContent) => [content.id, content]));
+    return {
+      exportedAt: new Date(),
+      items: ids.map(id => {
+        // Every id was found, or the length check above would have thrown
+        const content = byId.get(id)!;
+        return {
+          id: content.id,
+          title: content.title,
+          contentType: content.contentType,
+          status: content.status,
+          originalContent: content.originalContent,
+          client: content.client?.name ?? null,
+          campaign: content.campaign?.name ?? null,
+          createdAt: content.createdAt,
+          outputs: content.repurposed.map((output: ExportedContent['repurposed'][number]) => ({
+            id: output.id,
+            platform: output.platform,
+            locale: output.locale ?? null,
+            content: output.content,
+            createdAt: output.createdAt,
+            schedule: output.schedule
+              ? { publishAt: output.schedule.publishAt, timezone: output.schedule.timezone, status: output.schedule.status }
+              : null
+          }))
+        };
+      })
+    };
+  }
+
+  /**
+   * Build the export now, or queue it when it is over the inline size threshold
+   */
+  async create(userId: string, plan: SubscriptionPlan, input: ExportRequest): Promise<ExportResult> {
+    const data = await this.load(userId, input);
+    const estimate = estimateExportBytes(data);
+
+    if (estimate > EXPORTS.maxBytes) {
+      throw Errors.payloadTooLarge(
+        `This export would be about ${Math.ceil(estimate / 1024 / 1024)} MB; select fewer items (the limit is ${EXPORTS.maxBytes / 1024 / 1024} MB)`
+      );
+    }
+    if (estimate <= EXPORTS.inlineMaxBytes) {
+      return { kind: 'file', file: buildExport(input.format, data) };
+    }
+
+    const job = await jobQueue.enqueue(userId, plan, 'export', input, { maxAttempts: 2 });
+    return { kind: 'job', job };
+  }
+
+  /**
+   * Job handler: build the export and store it behind an expiring link
+   */
+  async runJob(payload: unknown, { job, reportProgress }: JobContext): Promise<StoredExport> {
+    const parsed = exportRequestSchema.safeParse(payload);
+    if (!parsed.success) {
+      throw Errors.validation(`Invalid export job payload: ${parsed.error.errors.map(e => e.message).join(', ')}`);
+    }
+    const input = parsed.data;
+
+    const data = await this.load(job.userId, input);
+    await reportProgress({ completed: 1, total: 2, message: `Building ${data.items.length} items` });
+
+    const file = buildExport(input.format, data);
+    const expiresAt = new Date(Date.now() + EXPORTS.linkTtlHours * 60 * 60 * 1000);
+    const stored = await prisma.contentExport.create({
+      data: {
+        userId: job.userId,
+        jobId: job.id,
+        format: input.format,
+        fileName: file.fileName,
+        mimeType: file.mimeType,
+        size: file.data.length,
+        itemCount: data.items.length,
+        skipped: file.skipped,
+        data: file.data,
+        expiresAt
+      },
+      select: { id: true }
+    });
+    await reportProgress({ completed: 2, total: 2, message: 'Export ready' });
+
+    return {
+      exportId: stored.id,
+      fileName: file.fileName,
+      size: file.data.length,
+      skipped: file.skipped,
+      expiresAt: expiresAt.toISOString(),
+      downloadUrl: this.signedUrl(stored.id, expiresAt)
+    };
+  }
+
+  /**
+   * Download link for a stored export; anyone holding it can download until it expires
+   */
+  signedUrl(exportId: string, expiresAt: Date): string {
+    const expires = Math.floor(expiresAt.getTime() / 1000);
+    const signature = generateHMACSignature(`${exportId}.${expires}`, signingSecret());
+    return `/api/exports/${exportId}?expires=${expires}&signature=${signature}`;
+  }
+
+  verifyLink(exportId: string, expires: string | null, signature: string | null, now: Date = new Date()): boolean {
+    if (!expires || !/^\d+$/.test(expires) || !signature || !SIGNATURE_PATTERN.test(signature)) {
+      return false;
+    }
+    if (Number(expires) * 1000 <= now.getTime()) {
+      return false;
+    }
+    // The format check above guarantees equal lengths, which timingSafeEqual requires
+    const expected = generateHMACSignature(`${exportId}.${expires}`, signingSecret());
+    return timingSafeEqual(Buffer.from(signature), Buffer.from(expected));
+  }
+
+  /**
+   * The stored file behind a signed link; expired and purged exports are gone
+   */
+  async download(exportId: string, expires: string | null, signature: string | null): Promise<ExportFile> {
+    if (!this.verifyLink(exportId, expires, signature)) {
+      throw Errors.authorization('This download link is invalid or has expired');
+    }
+
+    const stored = await prisma.contentExport.findUnique({
+      where: { id: exportId },
+      select: { fileName: true, mimeType: true, data: true, skipped: true, expiresAt: true }
+    });
+    if (!stored || stored.expiresAt.getTime() <= Date.now()) {
+      throw Errors.notFound('Export');
+    }
+
+    await prisma.contentExport.update({ where: { id: exportId }, data: { downloadedAt: new Date() } });
+    return { fileName: stored.fileName, mimeType: stored.mimeType, data: Buffer.from(stored.data), skipped: stored.skipped };
+  }
+
+  /**
+   * Delete stored exports whose links have expired
+   */
+  async purgeExpired(now: Date = new Date()): Promise<number> {
+    const { count } = await prisma.contentExport.deleteMany({ where: { expiresAt: { lte: now } } });
+    return count;
+  }
+}
+
+export const contentExporter = ContentExporter.getInstance();
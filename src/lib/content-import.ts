@@ -0,0 +1,214 @@
+import { z } from 'zod';
+import { prisma, Prisma } from '@/lib/prisma';
+import { withCache } from '@/lib/cache-dynamic';
+import { IMPORTS } from '@/lib/config';
+import { Errors } from '@/lib/error-handler';
+import { PLAN_CONTENT_LIMITS, SubscriptionPlan } from '@/lib/subscription';
+import {
+  ColumnMapping,
+  ImportOutput,
+  ImportRecord,
+  ImportReport,
+  ImportRowResult,
+  parseImportFile
+} from '@/lib/importers';
+
+export const columnMappingSchema = z.object({
+  fields: z.object({
+    title: z.string().min(1).optional(),
+    content: z.string().min(1).optional(),
+    contentType: z.string().min(1).optional(),
+    createdAt: z.string().min(1).optional(),
+    sourceUrl: z.string().min(1).optional()
+  }).strict(),
+  outputs: z.record(z.string().min(1)).default({})
+});
+
+export interface ImportFileInput {
+  text: string;
+  fileName: string;
+  mapping?: ColumnMapping;
+  dryRun: boolean;
+}
+
+// Titles match regardless of case, Unicode form and runs of whitespace
+const titleKey = (title: string) => title.normalize('NFKC').toLowerCase().replace(/\s+/g, ' ').trim();
+
+/**
+ * Imports an existing content library from CSV, JSON, the library export or a WordPress export.
+ * Imported items aren't generated, so they are never charged as usage.
+ */
+class ContentImporter {
+  private static instance: ContentImporter;
+
+  private constructor() {}
+
+  public static getInstance(): ContentImporter {
+    if (!ContentImporter.instance) {
+      ContentImporter.instance = new ContentImporter();
+    }
+    return ContentImporter.instance;
+  }
+
+  /**
+   * Check every row and, unless this is a dry run, create the content that passed. Rows whose title
+   * is already in the library, or earlier in the file, are skipped as duplicates.
+   */
+  async importFile(userId: string, plan: SubscriptionPlan, input: ImportFileInput): Promise<ImportReport> {
+    if (Buffer.byteLength(input.text) > IMPORTS.maxBytes) {
+      throw Errors.payloadTooLarge(`Import files can be up to ${IMPORTS.maxBytes / 1024 / 1024} MB`);
+    }
+
+    const parsed = parseImportFile(input.text, input.fileName, input.mapping);
+    if (parsed.records.length === 0) {
+      throw Errors.validation(parsed.ignored > 0 ? 'The file has no posts or pages to import' : 'The file has no rows to import');
+    }
+    if (parsed.records.length > IMPORTS.maxRows) {
+      throw Errors.validation(`The file has ${parsed.records.length} rows; import up to ${IMPORTS.maxRows} at a time`);
+    }
+
+    const existing = await prisma.content.findMany({ where: { userId }, select: { id: true, title: true } });
+    const library = new Map<string, string>(existing.map((content: { id: string; title: string }) => [titleKey(content.title), content.id]));
+    const inFile = new Map<string, number>();
+
+    const rows: ImportRowResult[] = [];
+    let importedAny = false;
+    for (const record of parsed.records) {
+      const result = this.check(record, plan);
+      rows.push(result);
+      if (result.status === 'invalid') continue;
+
+      const key = titleKey(result.title);
+      const libraryMatch = library.get(key);
+      if (libraryMatch) {
+        result.status = 'duplicate';
+        result.contentId = libraryMatch;
+        result.warnings.push('Content with this title is already in your library');
+        continue;
+      }
+      const earlierRow = inFile.get(key);
+      if (earlierRow !== undefined) {
+        result.status = 'duplicate';
+        result.warnings.push(`Same title as row ${earlierRow}`);
+        continue;
+      }
+      inFile.set(key, record.row);
+
+      if (input.dryRun) continue;
+      try {
+        result.contentId = await this.create(userId, parsed.format, input.fileName, { ...record, title: result.title });
+        result.status = 'imported';
+        importedAny = true;
+      } catch (error) {
+        console.error('[CONTENT_IMPORT] Row failed:', record.row, error);
+        result.status = 'failed';
+        result.errors.push('Could not be saved');
+      }
+    }
+
+    if (importedAny) {
+      await withCache(async (cache) => {
+        await cache.invalidateContentList(userId);
+      }).catch((cacheError) => {
+        console.error('[CONTENT_IMPORT] Failed to invalidate cache:', cacheError);
+      });
+    }
+
+    const count = (status: ImportRowResult['status']) => rows.filter(row => row.status === status).length;
+    const report: ImportReport = {
+      format: parsed.format,
+      dryRun: input.dryRun,
+      columns: parsed.columns,
+      mapping: parsed.mapping,
+      ignored: parsed.ignored,
+      summary: {
+        total: rows.length,
+        ready: count('ready'),
+        imported: count('imported'),
+        duplicate: count('duplicate'),
+        invalid: count('invalid'),
+        failed: count('failed'),
+        outputs: rows.filter(row => row.status === (input.dryRun ? 'ready' : 'imported')).reduce((sum, row) => sum + row.outputs, 0)
+      },
+      rows
+    };
+
+    if (!input.dryRun) {
+      console.log('[AUDIT_LOG]', {
+        userId,
+        action: 'CONTENT_IMPORT',
+        timestamp: new Date().toISOString(),
+        details: { format: parsed.format, fileName: input.fileName, ...report.summary }
+      });
+    }
+    return report;
+  }
+
+  // The plan's limits, same as content pasted into the repurpose form
+  private check(record: ImportRecord, plan: SubscriptionPlan): ImportRowResult {
+    const limits = PLAN_CONTENT_LIMITS[plan];
+    const errors = [...record.errors];
+    const warnings = [...record.warnings];
+
+    if (record.content.length > limits.contentChars) {
+      errors.push(`Content is ${record.content.length} characters; the ${plan} plan accepts up to ${limits.contentChars}`);
+    }
+    let title = record.title;
+    if (title.length > limits.titleChars) {
+      title = `${title.slice(0, limits.titleChars - 1).trimEnd()}…`;
+      warnings.push(`Title shortened to ${limits.titleChars} characters`);
+    }
+    let outputs = record.outputs.length;
+    if (outputs > IMPORTS.maxOutputsPerItem) {
+      warnings.push(`Only the first ${IMPORTS.maxOutputsPerItem} of ${outputs} outputs are imported`);
+      outputs = IMPORTS.maxOutputsPerItem;
+    }
+
+    return {
+      row: record.row,
+      title,
+      status: errors.length > 0 ? 'invalid' : 'ready',
+      outputs,
+      errors,
+      warnings
+    };
+  }
+
+  private async create(userId: string, format: string, fileName: string, record: ImportRecord): Promise<string> {
+    const outputs = record.outputs.slice(0, IMPORTS.maxOutputsPerItem);
+    // Sources first, so translated variants can be linked to the copies made of them
+    const ordered: ImportOutput[] = [...outputs.filter(output => !output.sourceKey), ...outputs.filter(output => output.sourceKey)];
+
+    return prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const content = await tx.content.create({
+        data: {
+          userId,
+          title: record.title,
+          originalContent: record.content,
+          contentType: record.contentType,
+          status: record.status ?? (outputs.length > 0 ? 'Repurposed' : 'Generated'),
+          isDraft: record.isDraft ?? false,
+          sourceType: format,
+          sourceUrl: record.sourceUrl ?? null,
+          sourceMetadata: { fileName, row: record.row, importedAt: new Date().toISOString(), ...record.metadata },
+          ...(record.createdAt && { createdAt: record.createdAt })
+        },
+        select: { id: true }
+      });
+
+      const copies = new Map<string, string>();
+      for (const output of ordered) {
+        const sourceId = output.sourceKey ? copies.get(output.sourceKey) ?? null : null;
+        const created = await tx.repurposedContent.create({
+          data: { contentId: content.id, platform: output.platform, content: output.content, locale: output.locale, sourceId },
+          select: { id: true }
+        });
+        if (output.key) copies.set(output.key, created.id);
+      }
+
+      return content.id;
+    });
+  }
+}
+
+export const contentImporter = ContentImporter.getInstance();
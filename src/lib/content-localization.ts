@@ -0,0 +1,163 @@
+import { prisma, Prisma } from '@/lib/prisma';
+import { Errors } from '@/lib/error-handler';
+import { LOCALIZATION } from '@/lib/config';
+import { aiService, AIServiceConfig, Platform, RepurposedContent } from '@/lib/ai-service';
+import { mapWithConcurrency } from '@/lib/content-chunking';
+import { contentRevisions, appendRevision } from '@/lib/content-revisions';
+import { applyGlossaryToOutput, withGlossary, GlossaryEntry } from '@/lib/glossary';
+import { localeName, normalizeLocale } from '@/lib/locales';
+
+// complete: ready to publish; needs_review: platform rules still broken after the rewrites;
+// outdated: the source output was revised or restored after it was translated
+export type TranslationStatus = 'complete' | 'needs_review' | 'outdated';
+
+export interface TranslationOptions {
+  sourceLocale?: string; // Language the source output is written in, when known
+  brandVoice?: string;
+  tone?: string;
+  additionalInstructions?: string;
+  glossary?: GlossaryEntry[]; // Team glossary, in the prompt and enforced on each translation
+}
+
+export interface TranslationFailure {
+  locale: string;
+  message: string;
+}
+
+export function translationStatusOf(result: Pick<RepurposedContent, 'constraintWarnings'>): TranslationStatus {
+  return result.constraintWarnings && result.constraintWarnings.length > 0 ? 'needs_review' : 'complete';
+}
+
+/**
+ * Target locales of a translate request in canonical form, without duplicates or the source's own locale
+ */
+export function resolveTargetLocales(locales: string[], sourceLocale?: string): string[] {
+  const source = sourceLocale ? normalizeLocale(sourceLocale) : undefined;
+  const targets = [...new Set(locales.map(normalizeLocale))].filter(locale => locale !== source);
+  if (targets.length === 0) {
+    throw Errors.validation('Choose at least one language other than the source');
+  }
+  if (targets.length > LOCALIZATION.maxTargetLocales) {
+    throw Errors.validation(`Translate into at most ${LOCALIZATION.maxTargetLocales} languages at once`);
+  }
+  return targets;
+}
+
+const variantSelect = {
+  id: true,
+  platform: true,
+  content: true,
+  structured: true,
+  locale: true,
+  sourceId: true,
+  translationStatus: true,
+  glossary: true,
+  updatedAt: true
+} as const;
+
+class ContentLocalizationManager {
+  private static instance: ContentLocalizationManager;
+
+  private constructor() {}
+
+  public static getInstance(): ContentLocalizationManager {
+    if (!ContentLocalizationManager.instance) {
+      ContentLocalizationManager.instance = new ContentLocalizationManager();
+    }
+    return ContentLocalizationManager.instance;
+  }
+
+  /**
+   * The translations of a platform output. Asked for a translation, lists its source's translations.
+   */
+  async listVariants(userId: string, contentId: string, repurposedId: string) {
+    const output = await contentRevisions.getOutput(userId, contentId, repurposedId);
+    return prisma.repurposedContent.findMany({
+      where: { sourceId: output.sourceId ?? output.id },
+      select: variantSelect,
+      orderBy: { locale: 'asc' }
+    });
+  }
+
+  /**
+   * Translate a platform output into each target locale, one linked variant per locale. Translating
+   * into a locale again replaces the variant and keeps the previous translation in its history.
+   * A locale that fails doesn't stop the others; failures are returned with the saved variants.
+   */
+  async translate(
+    userId: string,
+    contentId: string,
+    repurposedId: string,
+    locales: string[],
+    options: TranslationOptions = {},
+    config?: Partial<AIServiceConfig>
+  ) {
+    const output = await contentRevisions.getOutput(userId, contentId, repurposedId);
+    if (output.sourceId) {
+      throw Errors.validation('Translate the original output, not one of its translations');
+    }
+    const platform = output.platform as Platform;
+    const targets = resolveTargetLocales(locales, options.sourceLocale);
+    const { glossary = [] } = options;
+
+    const existing = new Map<string | null, Prisma.RepurposedContentGetPayload<true>>(
+      (await prisma.repurposedContent.findMany({ where: { sourceId: output.id, locale: { in: targets } } }))
+        .map((variant: Prisma.RepurposedContentGetPayload<true>) => [variant.locale, variant])
+    );
+
+    const failures: TranslationFailure[] = [];
+    const outcomes = await mapWithConcurrency(targets, LOCALIZATION.concurrency, async (locale) => {
+      try {
+        let result = await aiService.translateContent({
+          platform,
+          content: output.content,
+          structured: output.structured,
+          targetLanguage: localeName(locale),
+          sourceLanguage: options.sourceLocale ? localeName(normalizeLocale(options.sourceLocale)) : undefined,
+          brandVoice: options.brandVoice,
+          tone: options.tone,
+          additionalInstructions: withGlossary(options.additionalInstructions, glossary)
+        }, config);
+        result = applyGlossaryToOutput(platform, result, glossary);
+
+        const fields = {
+          content: result.content,
+          structured: result.structured ?? Prisma.DbNull,
+          promptVersionId: result.promptVersionId ?? null,
+          glossary: result.glossary ?? Prisma.DbNull,
+          translationStatus: translationStatusOf(result)
+        };
+        const previous = existing.get(locale);
+        const variant = previous
+          ? await prisma.repurposedContent.update({
+            where: { id: previous.id },
+            data: { ...fields, revisions: appendRevision(previous.revisions ?? [], previous, 'translate') },
+            select: variantSelect
+          })
+          : await prisma.repurposedContent.create({
+            data: {
+              ...fields,
+              contentId: output.contentId,
+              platform: output.platform,
+              locale,
+              sourceId: output.id,
+              campaignId: output.campaignId ?? null,
+              angle: output.angle ?? null,
+              sequence: output.sequence ?? null
+            },
+            select: variantSelect
+          });
+
+        return { ...variant, constraintWarnings: result.constraintWarnings ?? [] };
+      } catch (error) {
+        console.error(`Failed to translate output ${output.id} into ${locale}:`, error);
+        failures.push({ locale, message: error instanceof Error ? error.message : String(error) });
+        return null;
+      }
+    });
+
+    return { variants: outcomes.filter(variant => variant !== null), failures };
+  }
+}
+
+export const contentLocalization = ContentLocalizationManager.getInstance();
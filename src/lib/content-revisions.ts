@@ -0,0 +1,218 @@
+import { prisma, Prisma } from '@/lib/prisma';
+import { Errors } from '@/lib/error-handler';
+import { aiService, AIServiceConfig, Platform, RepurposedContent, RevisionAction } from '@/lib/ai-service';
+import { StructuredOutput, renderStructuredOutput } from '@/lib/structured-output';
+import { measureLength, validatePlatformOutput } from '@/lib/platform-constraints';
+import { aiContentAnalyzer } from '@/lib/ai-content-analyzer';
+import type { BrandVoiceProfile } from '@/lib/brand-voices';
+import { applyGlossaryToOutput, GlossaryEntry } from '@/lib/glossary';
+import { localeName } from '@/lib/locales';
+
+// Oldest revisions are dropped beyond this
+export const MAX_REVISIONS = 20;
+
+// An earlier version of a platform output, kept on the RepurposedContent row
+export interface RepurposedRevision {
+  content: string;
+  structured?: StructuredOutput | null;
+  promptVersionId?: string | null;
+  replacedBy: RevisionAction | 'restore' | 'translate'; // What produced the text that replaced this one
+  instruction?: string;
+  replacedAt: string;
+}
+
+export interface RevisionOptions {
+  instruction?: string;
+  brandVoice?: string;
+  tone?: string;
+  brandProfile?: BrandVoiceProfile; // Profile the content was written in; revisions are scored against it
+  glossary?: GlossaryEntry[]; // Team glossary, enforced on the revised text before it is scored
+}
+
+/**
+ * Add the output being replaced to a row's history, newest last
+ */
+export function appendRevision(
+  history: RepurposedRevision[],
+  previous: { content: string; structured?: StructuredOutput | null; promptVersionId?: string | null },
+  replacedBy: RepurposedRevision['replacedBy'],
+  instruction?: string
+): RepurposedRevision[] {
+  const revision: RepurposedRevision = {
+    content: previous.content,
+    structured: previous.structured ?? null,
+    promptVersionId: previous.promptVersionId ?? null,
+    replacedBy,
+    ...(instruction && { instruction }),
+    replacedAt: new Date().toISOString()
+  };
+  return [...history, revision].slice(-MAX_REVISIONS);
+}
+
+const stripHashtags = (text: string) =>
+  text.replace(/(^|\s)#[\p{L}\p{N}_]+/gu, '$1').replace(/[ \t]+\n/g, '\n').replace(/[ \t]{2,}/g, ' ').trim();
+
+/**
+ * Remove hashtags without a model call: clears the structured hashtag list and any inline tags
+ */
+export function removeHashtags(
+  platform: Platform,
+  content: string,
+  structured?: StructuredOutput | null
+): Pick<RepurposedContent, 'content' | 'characterCount' | 'hashtagSuggestions' | 'structured' | 'constraintWarnings'> {
+  let nextStructured: StructuredOutput | undefined;
+  let nextContent: string;
+
+  if (structured) {
+    const cleaned = Object.fromEntries(Object.entries(structured).map(([key, value]) => {
+      if (key === 'hashtags') return [key, []];
+      if (typeof value === 'string') return [key, stripHashtags(value)];
+      if (Array.isArray(value) && key !== 'tags') {
+        return [key, value.map(item => (typeof item === 'string' ? stripHashtags(item) : item))];
+      }
+      return [key, value];
+    }));
+    nextStructured = cleaned as StructuredOutput;
+    nextContent = renderStructuredOutput(platform, nextStructured);
+  } else {
+    nextContent = stripHashtags(content).replace(/\n{3,}/g, '\n\n');
+  }
+
+  const warnings = validatePlatformOutput(platform, nextContent, nextStructured);
+  return {
+    content: nextContent,
+    characterCount: measureLength(platform, nextContent),
+    hashtagSuggestions: [],
+    ...(nextStructured && { structured: nextStructured }),
+    ...(warnings.length > 0 && { constraintWarnings: warnings })
+  };
+}
+
+class ContentRevisionManager {
+  private static instance: ContentRevisionManager;
+
+  private constructor() {}
+
+  public static getInstance(): ContentRevisionManager {
+    if (!ContentRevisionManager.instance) {
+      ContentRevisionManager.instance = new ContentRevisionManager();
+    }
+    return ContentRevisionManager.instance;
+  }
+
+  /**
+   * A platform output with its revision history, if it belongs to the user
+   */
+  async getOutput(userId: string, contentId: string, repurposedId: string) {
+    const output = await prisma.repurposedContent.findFirst({
+      where: { id: repurposedId, contentId, originalContent: { userId } },
+      include: { originalContent: { select: { originalContent: true } } }
+    });
+    if (!output) {
+      throw Errors.notFound('Repurposed content');
+    }
+    return output;
+  }
+
+  /**
+   * Replace a platform output with a reworked one, keeping the current text in its history.
+   * Returns the updated row and the generation result (including any constraint warnings).
+   * 'brand_fix' needs options.brandProfile; any revision with one is scored against it.
+   */
+  async revise(
+    userId: string,
+    contentId: string,
+    repurposedId: string,
+    action: RevisionAction,
+    options: RevisionOptions = {},
+    config?: Partial<AIServiceConfig>
+  ) {
+    const output = await this.getOutput(userId, contentId, repurposedId);
+    const platform = output.platform as Platform;
+    if (output.sourceId && action === 'regenerate') {
+      throw Errors.validation('Translate the original output again to regenerate a translation');
+    }
+
+    const { brandProfile, glossary = [] } = options;
+    let result: Pick<RepurposedContent, 'content' | 'structured' | 'constraintWarnings' | 'promptVersionId' | 'glossary'>;
+    if (action === 'remove_hashtags') {
+      result = removeHashtags(platform, output.content, output.structured);
+    } else if (action === 'brand_fix') {
+      if (!brandProfile) {
+        throw Errors.validation('This content has no brand voice profile to follow');
+      }
+      result = await aiContentAnalyzer.fixBrandCompliance({
+        platform,
+        content: output.content,
+        originalContent: output.originalContent.originalContent
+      }, brandProfile, config);
+    } else {
+      result = await aiService.reviseContent({
+        platform,
+        action,
+        content: output.content,
+        originalContent: output.originalContent.originalContent,
+        instruction: options.instruction,
+        brandVoice: options.brandVoice,
+        tone: options.tone,
+        language: output.locale ? localeName(output.locale) : undefined
+      }, config);
+    }
+
+    result = applyGlossaryToOutput(platform, result, glossary);
+    const compliance = brandProfile && aiContentAnalyzer.checkBrandCompliance(result.content, brandProfile);
+    const updated = await prisma.repurposedContent.update({
+      where: { id: output.id },
+      data: {
+        content: result.content,
+        structured: result.structured ?? Prisma.DbNull,
+        ...('promptVersionId' in result && { promptVersionId: result.promptVersionId ?? null }),
+        ...(compliance && { compliance }),
+        ...(options.glossary && { glossary: result.glossary ?? Prisma.DbNull }),
+        revisions: appendRevision(output.revisions ?? [], output, action, options.instruction)
+      }
+    });
+    await this.markTranslationsOutdated(output);
+
+    return { output: updated, result };
+  }
+
+  /**
+   * Bring back an earlier revision. The current text takes its place in the history.
+   * With the content's brand voice profile, the restored text is scored again.
+   */
+  async restore(userId: string, contentId: string, repurposedId: string, index: number, brandProfile?: BrandVoiceProfile) {
+    const output = await this.getOutput(userId, contentId, repurposedId);
+    const history: RepurposedRevision[] = output.revisions ?? [];
+    const revision = history[index];
+    if (!revision) {
+      throw Errors.notFound(`Revision ${index}`);
+    }
+
+    const remaining = history.filter((_, i) => i !== index);
+    const restored = await prisma.repurposedContent.update({
+      where: { id: output.id },
+      data: {
+        content: revision.content,
+        structured: revision.structured ?? Prisma.DbNull,
+        promptVersionId: revision.promptVersionId ?? null,
+        ...(brandProfile && { compliance: aiContentAnalyzer.checkBrandCompliance(revision.content, brandProfile) }),
+        revisions: appendRevision(remaining, output, 'restore')
+      }
+    });
+    await this.markTranslationsOutdated(output);
+
+    return restored;
+  }
+
+  // Translations of an output no longer match it once its text changes
+  private async markTranslationsOutdated(output: { id: string; sourceId?: string | null }) {
+    if (output.sourceId) return;
+    await prisma.repurposedContent.updateMany({
+      where: { sourceId: output.id },
+      data: { translationStatus: 'outdated' }
+    });
+  }
+}
+
+export const contentRevisions = ContentRevisionManager.getInstance();
@@ -0,0 +1,508 @@
+import { prisma, Prisma } from '@/lib/prisma';
+import { SCHEDULING } from '@/lib/config';
+import { Errors } from '@/lib/error-handler';
+import { isRetryableJobError } from '@/lib/job-queue';
+import { duplicateDetector, SimilarityReport } from '@/lib/duplicate-detection';
+import { connectedAccounts } from '@/lib/connected-accounts';
+import {
+  addLocalDays,
+  describeRecurrence,
+  formatRecurrence,
+  nextOccurrence,
+  normalizeTimeZone,
+  occurrencesBetween,
+  parseRecurrence
+} from '@/lib/recurrence';
+
+export type ScheduleStatus = 'scheduled' | 'due' | 'publishing' | 'published' | 'failed';
+
+// A schedule as sent by the tier repurpose routes and the schedule API
+export interface ScheduleInput {
+  publishAt: string | Date;
+  timezone?: string; // IANA zone, UTC when missing
+  recurring?: boolean;
+  recurringPattern?: string | null; // Preset or RRULE; "weekly" when recurring is set without one
+  accountId?: string | null; // Connected account to publish through; null to post it yourself, the default account when missing
+}
+
+// A validated schedule, ready to store
+export interface ResolvedSchedule {
+  publishAt: Date;
+  timezone: string;
+  recurrence: string | null;
+}
+
+export interface ScheduledPostView {
+  id: string;
+  repurposedId: string;
+  contentId: string;
+  title: string;
+  platform: string;
+  clientId: string | null;
+  publishAt: Date;
+  startsAt: Date;
+  timezone: string;
+  recurrence: string | null;
+  recurrenceLabel: string | null;
+  status: ScheduleStatus;
+  occurrences: number;
+  lastPublishedAt: Date | null;
+  error: string | null;
+  accountId: string | null;
+  accountName: string | null;
+}
+
+// Another post on the same channel within the minimum gap
+export interface ScheduleConflict {
+  scheduleId: string;
+  repurposedId: string;
+  contentId: string;
+  title: string;
+  platform: string;
+  publishAt: Date;
+  minutesApart: number;
+}
+
+export interface ScheduleResult {
+  schedule: ScheduledPostView;
+  conflicts: ScheduleConflict[];
+  repeats?: SimilarityReport; // Earlier posts on the platform this one repeats
+}
+
+// One occurrence of a post on the calendar; only the upcoming one can be moved
+export interface CalendarEntry extends ScheduledPostView {
+  occurrenceAt: Date;
+  upcoming: boolean;
+  preview: string;
+}
+
+export interface PublishRequest {
+  scheduleId: string;
+  userId: string;
+  repurposedId: string;
+  contentId: string;
+  platform: string;
+  clientId: string | null;
+  accountId: string | null;
+  content: string;
+  structured: unknown;
+  publishAt: Date; // The occurrence being published
+}
+
+export interface PublishResult {
+  externalId?: string;
+  url?: string;
+  [key: string]: unknown;
+}
+
+// Hands due posts to the platforms; errors are retried like job errors
+export interface ContentPublisher {
+  publish(request: PublishRequest): Promise<PublishResult | void>;
+}
+
+export interface DispatchSummary {
+  recovered: number; // Posts stuck publishing that went back to due
+  markedDue: number;
+  published: number;
+  retried: number;
+  failed: number;
+  awaiting: number; // Due posts left for the user to publish: all of them without a publisher, else those without an account
+}
+
+const PENDING_STATUSES: ScheduleStatus[] = ['scheduled', 'due'];
+
+const SCHEDULE_SELECT = {
+  id: true,
+  userId: true,
+  repurposedId: true,
+  platform: true,
+  clientId: true,
+  publishAt: true,
+  startsAt: true,
+  timezone: true,
+  recurrence: true,
+  status: true,
+  occurrences: true,
+  attempts: true,
+  lastPublishedAt: true,
+  error: true,
+  accountId: true,
+  account: { select: { name: true } },
+  repurposed: { select: { contentId: true, content: true, structured: true, originalContent: { select: { title: true } } } }
+} satisfies Prisma.ScheduledPostSelect;
+
+type ScheduledPostRow = Prisma.ScheduledPostGetPayload<{ select: typeof SCHEDULE_SELECT }>;
+
+/**
+ * Validate a schedule: the time zone, the recurring pattern and a publish time that hasn't passed.
+ * Throws a validation error, so the tier routes can check it before generating anything.
+ */
+export function resolveSchedule(input: ScheduleInput, now: Date = new Date()): ResolvedSchedule {
+  const publishAt = new Date(input.publishAt);
+  if (isNaN(publishAt.getTime())) {
+    throw Errors.validation('publishAt must be a date and time');
+  }
+  if (publishAt.getTime() < now.getTime() - 60_000) {
+    throw Errors.validation('Pick a publish time in the future');
+  }
+
+  const pattern = input.recurring === false ? null : input.recurringPattern || (input.recurring ? 'weekly' : null);
+  return {
+    publishAt,
+    timezone: normalizeTimeZone(input.timezone || 'UTC'),
+    recurrence: pattern ? formatRecurrence(parseRecurrence(pattern)) : null
+  };
+}
+
+function toView(post: ScheduledPostRow): ScheduledPostView {
+  return {
+    id: post.id,
+    repurposedId: post.repurposedId,
+    contentId: post.repurposed.contentId,
+    title: post.repurposed.originalContent.title,
+    platform: post.platform,
+    clientId: post.clientId ?? null,
+    publishAt: post.publishAt,
+    startsAt: post.startsAt,
+    timezone: post.timezone,
+    recurrence: post.recurrence ?? null,
+    recurrenceLabel: post.recurrence ? describeRecurrence(parseRecurrence(post.recurrence)) : null,
+    status: post.status,
+    occurrences: post.occurrences,
+    lastPublishedAt: post.lastPublishedAt ?? null,
+    error: post.error ?? null,
+    accountId: post.accountId ?? null,
+    accountName: post.account?.name ?? null
+  };
+}
+
+class ContentScheduler {
+  private static instance: ContentScheduler;
+  private publisher: ContentPublisher | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): ContentScheduler {
+    if (!ContentScheduler.instance) {
+      ContentScheduler.instance = new ContentScheduler();
+    }
+    return ContentScheduler.instance;
+  }
+
+  /**
+   * Set what due posts with a connected account are handed to. Without one, every due post waits
+   * for the user to publish it.
+   */
+  setPublisher(publisher: ContentPublisher | null): void {
+    this.publisher = publisher;
+  }
+
+  async getSchedule(userId: string, contentId: string, repurposedId: string): Promise<ScheduledPostView | null> {
+    await this.findOutput(userId, contentId, repurposedId);
+    const post = await prisma.scheduledPost.findUnique({ where: { repurposedId }, select: SCHEDULE_SELECT });
+    return post ? toView(post) : null;
+  }
+
+  /**
+   * Schedule an output, replacing its current schedule. Conflicts on the same channel and earlier
+   * posts the output repeats come back as warnings; neither stops it being scheduled.
+   */
+  async schedule(userId: string, contentId: string, repurposedId: string, input: ScheduleInput): Promise<ScheduleResult> {
+    const output = await this.findOutput(userId, contentId, repurposedId);
+    const resolved = resolveSchedule(input);
+    const clientId = output.originalContent.clientId ?? null;
+
+    const accountId = input.accountId === undefined
+      ? await connectedAccounts.defaultFor(userId, output.platform, clientId)
+      : input.accountId === null ? null : await connectedAccounts.requireForPost(userId, input.accountId, output.platform);
+
+    const current = await prisma.scheduledPost.findUnique({ where: { repurposedId }, select: { id: true } });
+    const conflicts = await this.findConflicts(userId, { id: current?.id, platform: output.platform, clientId, publishAt: resolved.publishAt });
+    const repeats = await duplicateDetector.checkOutput(userId, contentId, repurposedId);
+
+    const data = {
+      platform: output.platform,
+      clientId,
+      publishAt: resolved.publishAt,
+      startsAt: resolved.publishAt,
+      timezone: resolved.timezone,
+      recurrence: resolved.recurrence,
+      accountId,
+      status: 'scheduled',
+      attempts: 0,
+      error: null,
+      lockedAt: null
+    };
+    const post = await prisma.scheduledPost.upsert({
+      where: { repurposedId },
+      create: { userId, repurposedId, ...data },
+      update: data,
+      select: SCHEDULE_SELECT
+    });
+
+    return { schedule: toView(post), conflicts, ...(repeats.matches.length > 0 && { repeats }) };
+  }
+
+  /**
+   * Schedule the outputs of a new repurpose. Posts of an atomized series on the same platform are
+   * spaced the minimum gap apart, in sequence order.
+   */
+  async scheduleOutputs(
+    userId: string,
+    contentId: string,
+    outputs: Array<{ id: string; sequence?: number | null }>,
+    schedule: ResolvedSchedule
+  ): Promise<ScheduleResult[]> {
+    const results: ScheduleResult[] = [];
+    for (const output of outputs) {
+      const offset = ((output.sequence ?? 1) - 1) * SCHEDULING.minGapMinutes * 60_000;
+      results.push(await this.schedule(userId, contentId, output.id, {
+        publishAt: new Date(schedule.publishAt.getTime() + offset),
+        timezone: schedule.timezone,
+        recurringPattern: schedule.recurrence
+      }));
+    }
+    return results;
+  }
+
+  /**
+   * Move a post to a new time, or by whole days as the calendar does on drop. A recurring post's
+   * series starts again from the new time; a failed post is scheduled again.
+   */
+  async reschedule(
+    userId: string,
+    scheduleId: string,
+    input: Partial<ScheduleInput> & { moveByDays?: number }
+  ): Promise<ScheduleResult> {
+    const post = await this.findPost(userId, scheduleId);
+    if (post.status === 'publishing') {
+      throw Errors.validation('This post is being published and cannot be moved');
+    }
+
+    return this.schedule(userId, post.repurposed.contentId, post.repurposedId, {
+      publishAt: input.publishAt ?? (input.moveByDays ? addLocalDays(post.publishAt, input.moveByDays, post.timezone) : post.publishAt),
+      timezone: input.timezone ?? post.timezone,
+      recurringPattern: input.recurringPattern !== undefined ? input.recurringPattern : post.recurrence,
+      accountId: input.accountId !== undefined ? input.accountId : post.accountId
+    });
+  }
+
+  async unschedule(userId: string, scheduleId: string): Promise<void> {
+    const post = await this.findPost(userId, scheduleId);
+    await prisma.scheduledPost.delete({ where: { id: post.id } });
+  }
+
+  /**
+   * Record a post the user published themselves; a recurring post moves on to its next occurrence
+   */
+  async markPublished(userId: string, scheduleId: string): Promise<ScheduledPostView> {
+    const post = await this.findPost(userId, scheduleId);
+    if (post.status === 'published' || post.status === 'publishing') {
+      throw Errors.validation(`This post is already ${post.status}`);
+    }
+    await this.advance(post, { manual: true }, new Date());
+    return toView(await prisma.scheduledPost.findUniqueOrThrow({ where: { id: post.id }, select: SCHEDULE_SELECT }));
+  }
+
+  /**
+   * The user's posts in [from, to), with every occurrence of recurring posts in the range
+   */
+  async listCalendar(userId: string, from: Date, to: Date): Promise<CalendarEntry[]> {
+    if (isNaN(from.getTime()) || isNaN(to.getTime()) || to <= from) {
+      throw Errors.validation('from must be before to');
+    }
+    if (to.getTime() - from.getTime() > SCHEDULING.maxCalendarDays * 86_400_000) {
+      throw Errors.validation(`The calendar shows at most ${SCHEDULING.maxCalendarDays} days at a time`);
+    }
+
+    const posts = await prisma.scheduledPost.findMany({
+      where: {
+        userId,
+        OR: [
+          { publishAt: { gte: from, lt: to } },
+          { recurrence: { not: null }, status: { in: PENDING_STATUSES }, publishAt: { lt: to } },
+          { lastPublishedAt: { gte: from, lt: to } }
+        ]
+      },
+      select: SCHEDULE_SELECT,
+      orderBy: { publishAt: 'asc' }
+    });
+
+    const entries: CalendarEntry[] = [];
+    for (const post of posts) {
+      const view = toView(post);
+      const preview = post.repurposed.content.slice(0, 140);
+      const times = post.recurrence && PENDING_STATUSES.includes(post.status)
+        ? occurrencesBetween(parseRecurrence(post.recurrence), post.startsAt, from, to, post.timezone, SCHEDULING.maxOccurrencesPerPost)
+            .filter((at: Date) => at >= post.publishAt)
+        : [post.publishAt].filter((at: Date) => at >= from && at < to);
+
+      // The last time a recurring post went out stays on the calendar as published
+      if (post.recurrence && post.lastPublishedAt && post.lastPublishedAt >= from && post.lastPublishedAt < to) {
+        entries.push({ ...view, status: 'published', occurrenceAt: post.lastPublishedAt, upcoming: false, preview });
+      }
+      times.forEach((at: Date) => entries.push({
+        ...view,
+        occurrenceAt: at,
+        upcoming: at.getTime() === post.publishAt.getTime(),
+        preview
+      }));
+    }
+
+    return entries.sort((a, b) => a.occurrenceAt.getTime() - b.occurrenceAt.getTime());
+  }
+
+  /**
+   * Pending posts on the same channel (platform, and client for agencies) closer than the minimum
+   * gap. Teammates' posts count. Recurring posts are compared by their next occurrence.
+   */
+  async findConflicts(
+    userId: string,
+    post: { id?: string; platform: string; clientId: string | null; publishAt: Date }
+  ): Promise<ScheduleConflict[]> {
+    const gapMs = SCHEDULING.minGapMinutes * 60_000;
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { teamId: true } });
+    const owner = user?.teamId ? { user: { teamId: user.teamId } } : { userId };
+
+    const nearby = await prisma.scheduledPost.findMany({
+      where: {
+        ...owner,
+        platform: post.platform,
+        clientId: post.clientId,
+        status: { in: PENDING_STATUSES },
+        publishAt: { gt: new Date(post.publishAt.getTime() - gapMs), lt: new Date(post.publishAt.getTime() + gapMs) },
+        ...(post.id && { id: { not: post.id } })
+      },
+      select: SCHEDULE_SELECT,
+      orderBy: { publishAt: 'asc' }
+    });
+
+    return nearby.map((other: ScheduledPostRow) => ({
+      scheduleId: other.id,
+      repurposedId: other.repurposedId,
+      contentId: other.repurposed.contentId,
+      title: other.repurposed.originalContent.title,
+      platform: other.platform,
+      publishAt: other.publishAt,
+      minutesApart: Math.round(Math.abs(other.publishAt.getTime() - post.publishAt.getTime()) / 60_000)
+    }));
+  }
+
+  /**
+   * Move posts whose time has come to due and hand them to the publisher. Called by the dispatcher
+   * cron; runs that overlap never publish the same post twice.
+   */
+  async dispatchDue(options: { now?: Date; maxPosts?: number } = {}): Promise<DispatchSummary> {
+    const now = options.now ?? new Date();
+    const summary: DispatchSummary = { recovered: 0, markedDue: 0, published: 0, retried: 0, failed: 0, awaiting: 0 };
+
+    summary.recovered = (await prisma.scheduledPost.updateMany({
+      where: { status: 'publishing', lockedAt: { lt: new Date(now.getTime() - SCHEDULING.lockTimeoutMs) } },
+      data: { status: 'due', lockedAt: null }
+    })).count;
+    summary.markedDue = (await prisma.scheduledPost.updateMany({
+      where: { status: 'scheduled', publishAt: { lte: now } },
+      data: { status: 'due' }
+    })).count;
+
+    if (!this.publisher) {
+      summary.awaiting = await prisma.scheduledPost.count({ where: { status: 'due' } });
+      return summary;
+    }
+    summary.awaiting = await prisma.scheduledPost.count({ where: { status: 'due', accountId: null } });
+
+    const due = await prisma.scheduledPost.findMany({
+      where: { status: 'due', accountId: { not: null } },
+      select: SCHEDULE_SELECT,
+      orderBy: { publishAt: 'asc' },
+      take: options.maxPosts ?? SCHEDULING.dispatchBatchSize
+    });
+
+    for (const post of due) {
+      const { count } = await prisma.scheduledPost.updateMany({
+        where: { id: post.id, status: 'due' },
+        data: { status: 'publishing', lockedAt: new Date() }
+      });
+      if (count === 0) continue; // Claimed by an overlapping run
+
+      summary[await this.publish(post, now)]++;
+    }
+    return summary;
+  }
+
+  private async publish(post: ScheduledPostRow, now: Date): Promise<'published' | 'retried' | 'failed'> {
+    try {
+      const result = await this.publisher!.publish({
+        scheduleId: post.id,
+        userId: post.userId,
+        repurposedId: post.repurposedId,
+        contentId: post.repurposed.contentId,
+        platform: post.platform,
+        clientId: post.clientId ?? null,
+        accountId: post.accountId ?? null,
+        content: post.repurposed.content,
+        structured: post.repurposed.structured ?? null,
+        publishAt: post.publishAt
+      });
+      await this.advance(post, result ?? null, now);
+      return 'published';
+    } catch (error) {
+      const attempts = post.attempts + 1;
+      const retry = isRetryableJobError(error) && attempts < SCHEDULING.maxAttempts;
+      console.error(`[CONTENT_SCHEDULER] Publishing ${post.platform} post ${post.id} failed (attempt ${attempts}/${SCHEDULING.maxAttempts}):`, error);
+
+      await prisma.scheduledPost.update({
+        where: { id: post.id },
+        data: {
+          status: retry ? 'due' : 'failed',
+          attempts,
+          error: error instanceof Error ? error.message : String(error),
+          lockedAt: null
+        }
+      });
+      return retry ? 'retried' : 'failed';
+    }
+  }
+
+  // Record an occurrence as published and move a recurring post on. Occurrences missed while
+  // nothing was dispatching are skipped rather than published late.
+  private async advance(post: ScheduledPostRow, result: PublishResult | null, now: Date): Promise<void> {
+    const after = post.publishAt > now ? post.publishAt : now;
+    const next = post.recurrence ? nextOccurrence(parseRecurrence(post.recurrence), post.startsAt, after, post.timezone) : null;
+
+    await prisma.scheduledPost.update({
+      where: { id: post.id },
+      data: {
+        status: next ? 'scheduled' : 'published',
+        publishAt: next ?? post.publishAt,
+        occurrences: { increment: 1 },
+        attempts: 0,
+        lastPublishedAt: new Date(),
+        ...(result && { lastResult: result }),
+        error: null,
+        lockedAt: null
+      }
+    });
+  }
+
+  private async findOutput(userId: string, contentId: string, repurposedId: string) {
+    const output = await prisma.repurposedContent.findFirst({
+      where: { id: repurposedId, contentId, originalContent: { userId } },
+      select: { id: true, platform: true, originalContent: { select: { clientId: true } } }
+    });
+    if (!output) {
+      throw Errors.notFound('Repurposed content');
+    }
+    return output;
+  }
+
+  private async findPost(userId: string, scheduleId: string) {
+    const post = await prisma.scheduledPost.findFirst({ where: { id: scheduleId, userId }, select: SCHEDULE_SELECT });
+    if (!post) {
+      throw Errors.notFound('Scheduled post');
+    }
+    return post;
+  }
+}
+
+export const contentScheduler = ContentScheduler.getInstance();
@@ -0,0 +1,60 @@
+/**
+ * Parse RFC 4180 CSV: quoted fields may hold commas, doubled quotes and line breaks.
+ * Returns rows of raw field values; blank lines are dropped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const input = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]!;
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      if (row.some(value => value !== '')) rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  row.push(field);
+  if (row.some(value => value !== '')) rows.push(row);
+  return rows;
+}
+
+export type CsvValue = string | number | null | undefined;
+
+/**
+ * Write rows as RFC 4180 CSV with CRLF line endings. Unless escapeFormulas is off, text starting
+ * with =, +, - or @ is prefixed with a quote so spreadsheets don't run it as a formula.
+ */
+export function toCsv(rows: CsvValue[][], options: { escapeFormulas?: boolean } = {}): string {
+  const escapeFormulas = options.escapeFormulas ?? true;
+  const field = (value: CsvValue): string => {
+    let text = value === null || value === undefined ? '' : String(value);
+    if (escapeFormulas && typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+      text = `'${text}`;
+    }
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return rows.map(row => row.map(field).join(',')).join('\r\n') + '\r\n';
+}
@@ -86,6 +86,9 @@ export async function ensureRepurposedContentTableExists(): Promise<boolean> {
           "platform" TEXT NOT NULL,
           "content" TEXT NOT NULL,
           "contentId" TEXT NOT NULL,
+          "promptVersionId" TEXT,
+          "structured" JSONB,
+          "revisions" JSONB,
           "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
           "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
           
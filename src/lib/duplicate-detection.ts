@@ -0,0 +1,224 @@
+import { prisma, Prisma } from '@/lib/prisma';
+import { SIMILARITY } from '@/lib/config';
+import { Errors } from '@/lib/error-handler';
+import {
+  SimilarityLevel,
+  SimilarityPassage,
+  TextSignature,
+  TextSpan,
+  compareTexts,
+  estimateContainment,
+  fingerprintText,
+  signatureOf,
+  similarityLevel
+} from '@/lib/similarity';
+
+// A source in the library that the checked text repeats
+export interface SimilarityMatch {
+  kind: 'content' | 'output'; // An original piece of content or one of its platform outputs
+  id: string;
+  contentId: string;
+  title: string;
+  platform: string | null;
+  locale: string | null;
+  level: SimilarityLevel;
+  score: number; // Share of the checked text found in the source, 0-100
+  spans: TextSpan[]; // Matching stretches of the checked text
+  passages: SimilarityPassage[];
+  updatedAt: Date;
+}
+
+export interface SimilarityReport {
+  score: number; // Highest match score, 0-100
+  level: SimilarityLevel | 'original';
+  matches: SimilarityMatch[]; // Strongest first
+  compared: number; // Library texts compared against
+}
+
+export interface SimilarityCheckOptions {
+  excludeContentIds?: string[]; // The content being checked, so it isn't reported as its own duplicate
+  excludeOutputIds?: string[];
+  platform?: string; // Only compare with outputs for this platform
+  outputsOnly?: boolean;
+  minContainment?: number;
+}
+
+export interface CorpusEntry {
+  kind: SimilarityMatch['kind'];
+  id: string;
+  contentId: string;
+  title: string;
+  platform: string | null;
+  locale: string | null;
+  text: string;
+  updatedAt: Date;
+}
+
+const CORPUS_OUTPUT_SELECT = {
+  id: true,
+  platform: true,
+  content: true,
+  locale: true,
+  updatedAt: true
+} satisfies Prisma.RepurposedContentSelect;
+
+type CorpusOutputRow = Prisma.RepurposedContentGetPayload<{ select: typeof CORPUS_OUTPUT_SELECT }>;
+type CorpusContentRow = Prisma.ContentGetPayload<{
+  select: { id: true; title: true; originalContent: true; updatedAt: true; repurposed: { select: typeof CORPUS_OUTPUT_SELECT } };
+}>;
+
+// Signatures of library texts, keyed by id and last update so edits are picked up
+const signatureCache = new Map<string, TextSignature>();
+
+function cachedSignature(entry: CorpusEntry): TextSignature {
+  const key = `${entry.kind}:${entry.id}:${entry.updatedAt.getTime()}`;
+  let signature = signatureCache.get(key);
+  if (!signature) {
+    signature = signatureOf(fingerprintText(entry.text).shingles);
+    if (signatureCache.size >= SIMILARITY.signatureCacheSize) {
+      signatureCache.delete(signatureCache.keys().next().value!);
+    }
+    signatureCache.set(key, signature);
+  }
+  return signature;
+}
+
+/**
+ * Compare a text with library entries. Signatures screen out unrelated texts; the rest are
+ * compared word for word and reported when enough of the text is found in them.
+ */
+export function findMatches(text: string, corpus: CorpusEntry[], minContainment: number = SIMILARITY.minContainment): SimilarityReport {
+  const query = fingerprintText(text);
+  const querySignature = signatureOf(query.shingles);
+  const candidateThreshold = Math.min(SIMILARITY.candidateContainment, minContainment);
+
+  const matches: SimilarityMatch[] = [];
+  for (const entry of corpus) {
+    if (estimateContainment(querySignature, cachedSignature(entry)) < candidateThreshold) continue;
+
+    const comparison = compareTexts(query, fingerprintText(entry.text));
+    if (comparison.containment < minContainment) continue;
+
+    matches.push({
+      kind: entry.kind,
+      id: entry.id,
+      contentId: entry.contentId,
+      title: entry.title,
+      platform: entry.platform,
+      locale: entry.locale,
+      level: similarityLevel(comparison.containment),
+      score: Math.round(comparison.containment * 100),
+      spans: comparison.spans,
+      passages: comparison.passages,
+      updatedAt: entry.updatedAt
+    });
+  }
+
+  matches.sort((a, b) => b.score - a.score || b.updatedAt.getTime() - a.updatedAt.getTime());
+  const top = matches.slice(0, SIMILARITY.maxMatches);
+  return {
+    score: top[0]?.score ?? 0,
+    level: top[0]?.level ?? 'original',
+    matches: top,
+    compared: corpus.length
+  };
+}
+
+class DuplicateDetector {
+  private static instance: DuplicateDetector;
+
+  private constructor() {}
+
+  public static getInstance(): DuplicateDetector {
+    if (!DuplicateDetector.instance) {
+      DuplicateDetector.instance = new DuplicateDetector();
+    }
+    return DuplicateDetector.instance;
+  }
+
+  /**
+   * Check a text against the user's library, and their team's when they are in one.
+   * Runs locally; nothing is sent to a model.
+   */
+  async check(userId: string, text: string, options: SimilarityCheckOptions = {}): Promise<SimilarityReport> {
+    const corpus = await this.loadCorpus(userId, options);
+    return findMatches(text, corpus, options.minContainment);
+  }
+
+  /**
+   * Earlier posts on the same platform that a saved output repeats, checked before it goes out.
+   * The output's own source and translations are left out.
+   */
+  async checkOutput(userId: string, contentId: string, repurposedId: string): Promise<SimilarityReport> {
+    const output = await prisma.repurposedContent.findFirst({
+      where: { id: repurposedId, contentId, originalContent: { userId } },
+      select: { id: true, platform: true, content: true, sourceId: true }
+    });
+    if (!output) {
+      throw Errors.notFound('Repurposed content');
+    }
+    const related = await prisma.repurposedContent.findMany({
+      where: { OR: [{ sourceId: output.sourceId ?? output.id }, ...(output.sourceId ? [{ id: output.sourceId }] : [])] },
+      select: { id: true }
+    });
+
+    return this.check(userId, output.content, {
+      platform: output.platform,
+      outputsOnly: true,
+      excludeOutputIds: [output.id, ...related.map((item: { id: string }) => item.id)],
+      minContainment: SIMILARITY.repeatedPost
+    });
+  }
+
+  private async loadCorpus(userId: string, options: SimilarityCheckOptions): Promise<CorpusEntry[]> {
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { teamId: true } });
+    const owner = user?.teamId ? { user: { teamId: user.teamId } } : { userId };
+    const excludedOutputs = new Set(options.excludeOutputIds ?? []);
+
+    const contents = await prisma.content.findMany({
+      where: {
+        ...owner,
+        ...(options.excludeContentIds?.length && { id: { notIn: options.excludeContentIds } })
+      },
+      select: {
+        id: true,
+        title: true,
+        originalContent: true,
+        updatedAt: true,
+        repurposed: {
+          ...(options.platform && { where: { platform: options.platform } }),
+          select: CORPUS_OUTPUT_SELECT
+        }
+      },
+      orderBy: { updatedAt: 'desc' },
+      take: SIMILARITY.maxCorpusContents
+    });
+
+    return contents.flatMap((content: CorpusContentRow): CorpusEntry[] => [
+      ...(options.outputsOnly ? [] : [{
+        kind: 'content' as const,
+        id: content.id,
+        contentId: content.id,
+        title: content.title,
+        platform: null,
+        locale: null,
+        text: content.originalContent,
+        updatedAt: content.updatedAt
+      }]),
+      ...content.repurposed
+        .filter((output: CorpusOutputRow) => !excludedOutputs.has(output.id))
+        .map((output: CorpusOutputRow) => ({
+          kind: 'output' as const,
+          id: output.id,
+          contentId: content.id,
+          title: content.title,
+          platform: output.platform,
+          locale: output.locale ?? null,
+          text: output.content,
+          updatedAt: output.updatedAt
+        }))
+    ]);
+  }
+}
+
+export const duplicateDetector = DuplicateDetector.getInstance();
@@ -0,0 +1,95 @@
+import { prisma } from '@/lib/prisma';
+import { Errors } from '@/lib/error-handler';
+import { getPlatformConfig } from '@/lib/platform-icons';
+import {
+  EmailBranding,
+  EmailDocument,
+  emailDocumentFrom,
+  EmailTheme,
+  isEmailPlatform,
+  renderEmail,
+  RenderedEmail,
+  resolveEmailTheme
+} from '@/lib/email-renderer';
+
+// Team roles allowed to change the team's branding
+export const BRANDING_EDITOR_ROLES = ['owner', 'admin'];
+
+export interface TeamBrandingView {
+  name: string;
+  branding: EmailBranding;
+}
+
+export interface RenderedEmailOutput extends RenderedEmail {
+  id: string;
+  platform: string;
+  theme: EmailTheme;
+  document: EmailDocument;
+}
+
+/**
+ * Renders email and newsletter outputs with the branding of the team that owns them
+ */
+class EmailOutputs {
+  private static instance: EmailOutputs;
+
+  private constructor() {}
+
+  public static getInstance(): EmailOutputs {
+    if (!EmailOutputs.instance) {
+      EmailOutputs.instance = new EmailOutputs();
+    }
+    return EmailOutputs.instance;
+  }
+
+  async getBranding(teamId: string): Promise<TeamBrandingView> {
+    const team = await prisma.team.findUnique({ where: { id: teamId }, select: { name: true, branding: true } });
+    if (!team) {
+      throw Errors.notFound('Team');
+    }
+    const branding = (team.branding ?? {}) as Partial<EmailBranding>;
+    return { name: team.name, branding: { logo: branding.logo ?? null, colors: branding.colors ?? [], fonts: branding.fonts ?? [] } };
+  }
+
+  async updateBranding(teamId: string, branding: EmailBranding): Promise<TeamBrandingView> {
+    const team = await prisma.team.update({
+      where: { id: teamId },
+      data: { branding: { logo: branding.logo ?? null, colors: branding.colors, fonts: branding.fonts } },
+      select: { name: true }
+    });
+    return { name: team.name, branding: { logo: branding.logo ?? null, colors: branding.colors, fonts: branding.fonts } };
+  }
+
+  /**
+   * The theme the user's emails render with: their team's branding, or the defaults without a team
+   */
+  async themeFor(userId: string): Promise<EmailTheme> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { team: { select: { name: true, branding: true } } }
+    });
+    return resolveEmailTheme(user?.team?.branding ?? null, user?.team?.name ?? null);
+  }
+
+  /**
+   * One of the user's email or newsletter outputs as HTML, MJML and a plain-text alternate
+   */
+  async render(userId: string, contentId: string, repurposedId: string): Promise<RenderedEmailOutput> {
+    const output = await prisma.repurposedContent.findFirst({
+      where: { id: repurposedId, contentId, originalContent: { userId } },
+      select: { id: true, platform: true, content: true, structured: true, locale: true }
+    });
+    if (!output) {
+      throw Errors.notFound('Repurposed content');
+    }
+    if (!isEmailPlatform(output.platform)) {
+      throw Errors.validation(`${getPlatformConfig(output.platform).name} outputs can't be rendered as emails`);
+    }
+
+    const theme = await this.themeFor(userId);
+    const document = emailDocumentFrom(output.platform, output.content, output.structured, output.locale);
+    return { id: output.id, platform: output.platform, theme, document, ...renderEmail(document, theme) };
+  }
+}
+
+export const emailOutputs = EmailOutputs.getInstance();
@@ -0,0 +1,410 @@
+import { randomBytes } from 'crypto';
+import { z } from 'zod';
+import { EMAIL_RENDERING } from './config';
+import { PLATFORM_OUTPUT_SCHEMAS } from './structured-output';
+
+export type EmailPlatform = 'email' | 'newsletter';
+
+export const EMAIL_PLATFORMS: readonly EmailPlatform[] = ['email', 'newsletter'];
+
+export const EMAIL_FORMATS = ['html', 'text', 'mjml', 'eml'] as const;
+export type EmailFormat = (typeof EMAIL_FORMATS)[number];
+
+export const isEmailPlatform = (platform: string): platform is EmailPlatform =>
+  (EMAIL_PLATFORMS as readonly string[]).includes(platform);
+
+// Only values that are safe to put in a style attribute as they are
+const hexColor = z.string().trim().regex(/^#(?:[0-9a-fA-F]{3}){1,2}$/, 'Brand colors are hex codes such as #4F46E5');
+const fontName = z.string().trim().min(1).max(50).regex(/^[\p{L}\p{N} -]+$/u, 'Font names can only contain letters, numbers, spaces and hyphens');
+
+/**
+ * A team's branding, in the same shape as the agency API's customBranding: a logo, brand colors
+ * (primary first, then the page background) and fonts (the first one is used)
+ */
+export const emailBrandingSchema = z.object({
+  logo: z.string().trim().url().max(2000).refine(url => url.startsWith('https://'), 'The logo must be an https:// URL').nullable().optional(),
+  colors: z.array(hexColor).max(EMAIL_RENDERING.maxBrandColors).default([]),
+  fonts: z.array(fontName).max(EMAIL_RENDERING.maxBrandFonts).default([])
+});
+
+export type EmailBranding = z.infer<typeof emailBrandingSchema>;
+
+// Branding resolved to what the templates use
+export interface EmailTheme {
+  name: string | null; // Shown in the header when there is no logo, and as the logo's alt text
+  logo: string | null;
+  primaryColor: string;
+  backgroundColor: string;
+  textColor: string;
+  fontFamily: string;
+}
+
+export interface EmailSection {
+  heading?: string;
+  body: string;
+}
+
+// An email or newsletter output broken into the parts the templates lay out
+export interface EmailDocument {
+  platform: EmailPlatform;
+  subject: string;
+  preheader: string;
+  sections: EmailSection[];
+  callToAction?: string;
+  locale?: string | null;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  preheader: string;
+  html: string;
+  text: string;
+  mjml: string;
+}
+
+export interface EmlOptions {
+  from?: string;
+  to?: string;
+  date?: Date;
+  boundary?: string;
+}
+
+/**
+ * The theme for stored branding. Branding is saved through emailBrandingSchema, but anything
+ * invalid in it is dropped rather than rendered.
+ */
+export function resolveEmailTheme(branding: unknown, name: string | null = null): EmailTheme {
+  const raw = (branding && typeof branding === 'object' ? branding : {}) as Record<string, unknown>;
+  const logo = emailBrandingSchema.shape.logo.safeParse(raw.logo);
+  const colors = Array.isArray(raw.colors) ? raw.colors.filter(color => hexColor.safeParse(color).success) as string[] : [];
+  const font = Array.isArray(raw.fonts) ? raw.fonts.find(font => fontName.safeParse(font).success) as string | undefined : undefined;
+
+  return {
+    name: name?.trim() || null,
+    logo: logo.success ? logo.data ?? null : null,
+    primaryColor: colors[0]?.trim() ?? EMAIL_RENDERING.primaryColor,
+    backgroundColor: colors[1]?.trim() ?? EMAIL_RENDERING.backgroundColor,
+    textColor: EMAIL_RENDERING.textColor,
+    fontFamily: font ? `'${font.trim()}', ${EMAIL_RENDERING.fontFamily}` : EMAIL_RENDERING.fontFamily
+  };
+}
+
+// Plain email outputs start with "Subject: ...\nPreheader: ..." and newsletters mark sections with "## "
+function documentFromContent(platform: EmailPlatform, content: string, locale?: string | null): EmailDocument {
+  const subject = content.match(/^Subject:\s*(.+)$/m)?.[1]?.trim();
+  const preheader = content.match(/^Preheader:\s*(.+)$/m)?.[1]?.trim() ?? '';
+  const body = content.replace(/^(Subject|Preheader):.*$/gm, '').trim();
+
+  const sections: EmailSection[] = [];
+  for (const block of body.split(/^##[ \t]+/m)) {
+    if (!block.trim()) continue;
+    if (sections.length === 0 && !/^##[ \t]/.test(body)) {
+      sections.push({ body: block.trim() });
+      continue;
+    }
+    const [heading = '', ...rest] = block.split('\n');
+    sections.push({ heading: heading.trim(), body: rest.join('\n').trim() });
+  }
+
+  return {
+    platform,
+    subject: subject || body.split('\n')[0]!.replace(/^#+\s*/, '').slice(0, 150),
+    preheader,
+    sections: sections.length > 0 ? sections : [{ body }],
+    locale
+  };
+}
+
+/**
+ * The parts of an email or newsletter output, from its structured output when it still matches the
+ * platform's shape and from its text otherwise
+ */
+export function emailDocumentFrom(
+  platform: EmailPlatform,
+  content: string,
+  structured?: unknown,
+  locale?: string | null
+): EmailDocument {
+  if (platform === 'newsletter') {
+    const parsed = PLATFORM_OUTPUT_SCHEMAS.newsletter.safeParse(structured);
+    if (parsed.success) {
+      const { callToAction, ...newsletter } = parsed.data;
+      return { platform, ...newsletter, ...(callToAction && { callToAction }), locale };
+    }
+  } else {
+    const parsed = PLATFORM_OUTPUT_SCHEMAS.email.safeParse(structured);
+    if (parsed.success) {
+      const { subject, preheader, body, callToAction } = parsed.data;
+      return { platform, subject, preheader, sections: [{ body }], callToAction, locale };
+    }
+  }
+  return documentFromContent(platform, content, locale);
+}
+
+export const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
+const URL_PATTERN = /https?:\/\/[^\s<>"]+[^\s<>".,;:!?)\]'"]/g;
+
+// Links, **bold** and line breaks inside one paragraph or list item
+function inlineHtml(text: string, theme: EmailTheme): string {
+  return escapeHtml(text)
+    .replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>')
+    .replace(URL_PATTERN, url => `<a href="${url}" style="color:${theme.primaryColor};text-decoration:underline;">${url}</a>`)
+    .replace(/\n/g, '<br>');
+}
+
+const LIST_ITEM = /^\s*(?:[-*•]|\d+[.)])\s+/;
+
+/**
+ * A section body as email-safe HTML: paragraphs split on blank lines, and runs of "- " or "1. "
+ * lines as lists. Every element carries its own styles, since many clients drop <style> blocks.
+ */
+function bodyHtml(body: string, theme: EmailTheme): string {
+  const paragraphStyle = `margin:0 0 16px;font-family:${theme.fontFamily};font-size:16px;line-height:1.6;color:${theme.textColor};`;
+
+  return body.split(/\n{2,}/).map(block => block.trim()).filter(Boolean).map(block => {
+    const lines = block.split('\n');
+    if (lines.every(line => LIST_ITEM.test(line))) {
+      const tag = /^\s*\d/.test(lines[0]!) ? 'ol' : 'ul';
+      const items = lines.map(line => `<li style="margin:0 0 8px;">${inlineHtml(line.replace(LIST_ITEM, ''), theme)}</li>`).join('');
+      return `<${tag} style="${paragraphStyle}padding-left:24px;">${items}</${tag}>`;
+    }
+    return `<p style="${paragraphStyle}">${inlineHtml(block, theme)}</p>`;
+  }).join('\n');
+}
+
+// A call to action with a link becomes a button labelled with the rest of its text
+function callToActionParts(callToAction: string): { label: string; url: string | null } {
+  const url = callToAction.match(URL_PATTERN)?.[0] ?? null;
+  if (!url) {
+    return { label: callToAction.trim(), url: null };
+  }
+  const label = callToAction.replace(url, '').replace(/[\s:\-–—→]+$/, '').replace(/^[\s:\-–—→]+/, '').trim();
+  return { label: label || 'Learn more', url };
+}
+
+function headingStyle(theme: EmailTheme): string {
+  return `margin:0 0 12px;font-family:${theme.fontFamily};font-size:22px;line-height:1.3;font-weight:bold;color:${theme.primaryColor};`;
+}
+
+function headerHtml(theme: EmailTheme): string {
+  const content = theme.logo
+    ? `<img src="${escapeHtml(theme.logo)}" width="${EMAIL_RENDERING.logoWidth}" alt="${escapeHtml(theme.name ?? '')}" style="display:block;width:${EMAIL_RENDERING.logoWidth}px;max-width:100%;height:auto;border:0;">`
+    : theme.name
+      ? `<span style="font-family:${theme.fontFamily};font-size:20px;font-weight:bold;color:#ffffff;">${escapeHtml(theme.name)}</span>`
+      : '';
+  return `<tr><td align="center" bgcolor="${theme.primaryColor}" style="background-color:${theme.primaryColor};padding:${content ? '24px' : '4px'} 32px;">${content}</td></tr>`;
+}
+
+function buttonHtml(label: string, url: string, theme: EmailTheme): string {
+  return [
+    '<table role="presentation" border="0" cellpadding="0" cellspacing="0" style="margin:8px 0 0;"><tr>',
+    `<td align="center" bgcolor="${theme.primaryColor}" style="border-radius:6px;background-color:${theme.primaryColor};">`,
+    `<a href="${escapeHtml(url)}" target="_blank" style="display:inline-block;padding:14px 28px;font-family:${theme.fontFamily};font-size:16px;font-weight:bold;color:#ffffff;text-decoration:none;border-radius:6px;">${escapeHtml(label)}</a>`,
+    '</td></tr></table>'
+  ].join('');
+}
+
+function callToActionHtml(callToAction: string, theme: EmailTheme): string {
+  const { label, url } = callToActionParts(callToAction);
+  return url
+    ? buttonHtml(label, url, theme)
+    : `<p style="margin:0;font-family:${theme.fontFamily};font-size:16px;line-height:1.6;font-weight:bold;color:${theme.primaryColor};">${inlineHtml(label, theme)}</p>`;
+}
+
+// Whitespace after the preheader keeps clients from filling the preview with the body
+const PREHEADER_PADDING = '&#847;&zwnj;&nbsp;'.repeat(40);
+
+/**
+ * Responsive, table-based HTML that renders the same layout as the MJML template without needing
+ * the MJML compiler: a fixed-width column that goes full width on small screens
+ */
+export function renderEmailHtml(document: EmailDocument, theme: EmailTheme): string {
+  const width = EMAIL_RENDERING.width;
+  const sections = document.sections.map(section => [
+    `<tr><td class="email-padding" style="padding:24px 32px 8px;">`,
+    section.heading ? `<h2 style="${headingStyle(theme)}">${escapeHtml(section.heading)}</h2>\n` : '',
+    bodyHtml(section.body, theme),
+    '</td></tr>'
+  ].join(''));
+
+  return [
+    '<!DOCTYPE html>',
+    `<html lang="${escapeHtml(document.locale ?? 'en')}" xmlns="http://www.w3.org/1999/xhtml" xmlns:o="urn:schemas-microsoft-com:office:office">`,
+    '<head>',
+    '<meta charset="UTF-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1.0">',
+    '<meta http-equiv="X-UA-Compatible" content="IE=edge">',
+    '<meta name="x-apple-disable-message-reformatting">',
+    `<title>${escapeHtml(document.subject)}</title>`,
+    '<!--[if mso]><noscript><xml><o:OfficeDocumentSettings><o:PixelsPerInch>96</o:PixelsPerInch></o:OfficeDocumentSettings></xml></noscript><![endif]-->',
+    '<style>',
+    'body { margin: 0; padding: 0; -webkit-text-size-adjust: 100%; -ms-text-size-adjust: 100%; }',
+    'table, td { border-collapse: collapse; mso-table-lspace: 0pt; mso-table-rspace: 0pt; }',
+    'img { border: 0; outline: none; text-decoration: none; -ms-interpolation-mode: bicubic; }',
+    `@media only screen and (max-width: ${width + 20}px) {`,
+    '  .email-container { width: 100% !important; }',
+    '  .email-padding { padding-left: 16px !important; padding-right: 16px !important; }',
+    '}',
+    '</style>',
+    '</head>',
+    `<body style="margin:0;padding:0;background-color:${theme.backgroundColor};">`,
+    `<div style="display:none;max-height:0;overflow:hidden;mso-hide:all;">${escapeHtml(document.preheader)}${PREHEADER_PADDING}</div>`,
+    `<table role="presentation" width="100%" border="0" cellpadding="0" cellspacing="0" bgcolor="${theme.backgroundColor}" style="background-color:${theme.backgroundColor};">`,
+    '<tr><td align="center" style="padding:24px 0;">',
+    `<!--[if mso]><table role="presentation" width="${width}" border="0" cellpadding="0" cellspacing="0"><tr><td><![endif]-->`,
+    `<table role="presentation" class="email-container" width="${width}" border="0" cellpadding="0" cellspacing="0" bgcolor="#ffffff" style="width:100%;max-width:${width}px;background-color:#ffffff;">`,
+    headerHtml(theme),
+    ...sections,
+    ...(document.callToAction ? [`<tr><td class="email-padding" style="padding:8px 32px 32px;">${callToActionHtml(document.callToAction, theme)}</td></tr>`] : []),
+    '<tr><td style="padding:0 0 16px;"></td></tr>',
+    '</table>',
+    '<!--[if mso]></td></tr></table><![endif]-->',
+    '</td></tr>',
+    '</table>',
+    '</body>',
+    '</html>'
+  ].join('\n');
+}
+
+/**
+ * The same layout as an MJML template, for teams that build their emails with MJML
+ */
+export function renderEmailMjml(document: EmailDocument, theme: EmailTheme): string {
+  const header = theme.logo
+    ? `<mj-image src="${escapeHtml(theme.logo)}" alt="${escapeHtml(theme.name ?? '')}" width="${EMAIL_RENDERING.logoWidth}px" padding="0" />`
+    : theme.name
+      ? `<mj-text align="center" color="#ffffff" font-size="20px" font-weight="bold">${escapeHtml(theme.name)}</mj-text>`
+      : '';
+  const cta = document.callToAction && callToActionParts(document.callToAction);
+
+  return [
+    `<mjml lang="${escapeHtml(document.locale ?? 'en')}">`,
+    '  <mj-head>',
+    `    <mj-title>${escapeHtml(document.subject)}</mj-title>`,
+    `    <mj-preview>${escapeHtml(document.preheader)}</mj-preview>`,
+    '    <mj-attributes>',
+    `      <mj-all font-family="${escapeHtml(theme.fontFamily)}" />`,
+    `      <mj-text color="${theme.textColor}" font-size="16px" line-height="1.6" />`,
+    `      <mj-button background-color="${theme.primaryColor}" color="#ffffff" font-size="16px" font-weight="bold" border-radius="6px" />`,
+    '    </mj-attributes>',
+    '  </mj-head>',
+    `  <mj-body width="${EMAIL_RENDERING.width}px" background-color="${theme.backgroundColor}">`,
+    `    <mj-section background-color="${theme.primaryColor}" padding="${header ? '24px' : '2px'} 32px">`,
+    '      <mj-column>',
+    ...(header ? [`        ${header}`] : []),
+    '      </mj-column>',
+    '    </mj-section>',
+    ...document.sections.flatMap(section => [
+      '    <mj-section background-color="#ffffff" padding="24px 32px 8px">',
+      '      <mj-column>',
+      ...(section.heading ? [`        <mj-text padding="0"><h2 style="${headingStyle(theme)}">${escapeHtml(section.heading)}</h2></mj-text>`] : []),
+      `        <mj-text padding="0">${bodyHtml(section.body, theme)}</mj-text>`,
+      '      </mj-column>',
+      '    </mj-section>'
+    ]),
+    ...(cta
+      ? [
+          '    <mj-section background-color="#ffffff" padding="8px 32px 32px">',
+          '      <mj-column>',
+          cta.url
+            ? `        <mj-button href="${escapeHtml(cta.url)}" align="left">${escapeHtml(cta.label)}</mj-button>`
+            : `        <mj-text padding="0" color="${theme.primaryColor}" font-weight="bold">${inlineHtml(cta.label, theme)}</mj-text>`,
+          '      </mj-column>',
+          '    </mj-section>'
+        ]
+      : []),
+    '  </mj-body>',
+    '</mjml>'
+  ].join('\n');
+}
+
+/**
+ * The plain-text alternate: headings underlined, **bold** markers dropped and links left as they are
+ */
+export function renderEmailText(document: EmailDocument): string {
+  const sections = document.sections.map(section => {
+    const body = section.body.replace(/\*\*(.+?)\*\*/g, '$1').trim();
+    return section.heading ? `${section.heading}\n${'-'.repeat(Math.min(section.heading.length, 60))}\n\n${body}` : body;
+  });
+  if (document.callToAction) {
+    const { label, url } = callToActionParts(document.callToAction);
+    sections.push(url ? `${label}: ${url}` : label);
+  }
+  return `${sections.join('\n\n')}\n`;
+}
+
+export function renderEmail(document: EmailDocument, theme: EmailTheme): RenderedEmail {
+  return {
+    subject: document.subject,
+    preheader: document.preheader,
+    html: renderEmailHtml(document, theme),
+    text: renderEmailText(document),
+    mjml: renderEmailMjml(document, theme)
+  };
+}
+
+// RFC 2047 encoded words for non-ASCII header values, each short enough for one folded line
+function encodeHeader(value: string): string {
+  const clean = value.replace(/[\r\n]+/g, ' ').trim();
+  if (/^[\x20-\x7e]*$/.test(clean)) {
+    return clean;
+  }
+  const words: string[] = [];
+  let chunk = '';
+  for (const char of clean) {
+    if (Buffer.byteLength(chunk + char) > 45) {
+      words.push(chunk);
+      chunk = '';
+    }
+    chunk += char;
+  }
+  words.push(chunk);
+  return words.map(word => `=?UTF-8?B?${Buffer.from(word).toString('base64')}?=`).join('\r\n ');
+}
+
+const base64Lines = (text: string) => Buffer.from(text).toString('base64').replace(/.{76}/g, '$&\r\n');
+
+/**
+ * An unsent .eml message with the text and HTML as alternatives, which mail clients open as a
+ * draft ready to send
+ */
+export function renderEml(rendered: RenderedEmail, options: EmlOptions = {}): string {
+  const boundary = options.boundary ?? `----=_Part_${randomBytes(12).toString('hex')}`;
+  const date = options.date ?? new Date();
+
+  const headers = [
+    ...(options.from ? [`From: ${encodeHeader(options.from)}`] : []),
+    ...(options.to ? [`To: ${encodeHeader(options.to)}`] : []),
+    `Subject: ${encodeHeader(rendered.subject)}`,
+    `Date: ${date.toUTCString().replace('GMT', '+0000')}`,
+    'MIME-Version: 1.0',
+    'X-Unsent: 1',
+    `Content-Type: multipart/alternative; boundary="${boundary}"`
+  ];
+  const part = (type: string, body: string) => [
+    `--${boundary}`,
+    `Content-Type: ${type}; charset=UTF-8`,
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Lines(body)
+  ].join('\r\n');
+
+  return [
+    ...headers,
+    '',
+    part('text/plain', rendered.text),
+    part('text/html', rendered.html),
+    `--${boundary}--`,
+    ''
+  ].join('\r\n');
+}
+
+/**
+ * A download file name for the email, from its subject
+ */
+export function emailFileName(subject: string, format: EmailFormat): string {
+  const slug = subject.toLowerCase().normalize('NFKD').replace(/\p{M}/gu, '').replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'email';
+  return `${slug}.${format === 'text' ? 'txt' : format}`;
+}
@@ -53,14 +53,29 @@ export class AppError extends Error {
 }
 
 // Circuit breaker implementation
-class CircuitBreaker {
+export type CircuitState = 'CLOSED' | 'OPEN' | 'HALF_OPEN'
+
+export interface CircuitBreakerSnapshot {
+  name: string
+  state: CircuitState
+  failures: number
+  failureThreshold: number
+  recoveryTimeout: number
+  lastFailureAt: string | null
+  nextAttemptAt: string | null
+}
+
+export class CircuitBreaker {
   private failures = 0
   private lastFailureTime?: number
-  private state: 'CLOSED' | 'OPEN' | 'HALF_OPEN' = 'CLOSED'
+  private state: CircuitState = 'CLOSED'
 
   constructor(
     private readonly failureThreshold: number = 5,
-    private readonly recoveryTimeout: number = 60000 // 1 minute
+    private readonly recoveryTimeout: number = 60000, // 1 minute
+    private readonly name: string = 'service',
+    // Errors that don't indicate the service is unhealthy (e.g. bad input) shouldn't trip the breaker
+    private readonly isFailure: (error: unknown) => boolean = () => true
   ) {}
 
   async execute<T>(operation: () => Promise<T>): Promise<T> {
@@ -72,7 +87,9 @@ class CircuitBreaker {
           'Service temporarily unavailable',
           ErrorType.SYSTEM,
           ErrorSeverity.HIGH,
-          503
+          503,
+          true,
+          { circuitBreaker: this.name, circuitOpen: true }
         )
       }
     }
@@ -82,12 +99,24 @@ class CircuitBreaker {
       this.onSuccess()
       return result
     } catch (error) {
-      this.onFailure()
+      if (this.isFailure(error)) {
+        this.onFailure()
+      }
       throw error
     }
   }
 
+  /**
+   * Whether a call would be attempted right now (closed, half-open, or cool-down elapsed)
+   */
+  canExecute(): boolean {
+    return this.state !== 'OPEN' || this.shouldAttemptReset()
+  }
+
   private onSuccess(): void {
+    if (this.state === 'HALF_OPEN') {
+      logger.info(`Circuit breaker for ${this.name} closed after successful trial call`, {}, LogCategory.SYSTEM)
+    }
     this.failures = 0
     this.state = 'CLOSED'
   }
@@ -96,9 +125,9 @@ class CircuitBreaker {
     this.failures++
     this.lastFailureTime = Date.now()
 
-    if (this.failures >= this.failureThreshold) {
+    if (this.failures >= this.failureThreshold && this.state !== 'OPEN') {
       this.state = 'OPEN'
-      logger.warn(`Circuit breaker opened after ${this.failures} failures`, {
+      logger.warn(`Circuit breaker for ${this.name} opened after ${this.failures} failures`, {
         failures: this.failures,
         threshold: this.failureThreshold
       }, LogCategory.SYSTEM)
@@ -115,21 +144,43 @@ class CircuitBreaker {
   getState(): string {
     return this.state
   }
+
+  getSnapshot(): CircuitBreakerSnapshot {
+    return {
+      name: this.name,
+      state: this.state,
+      failures: this.failures,
+      failureThreshold: this.failureThreshold,
+      recoveryTimeout: this.recoveryTimeout,
+      lastFailureAt: this.lastFailureTime !== undefined ? new Date(this.lastFailureTime).toISOString() : null,
+      nextAttemptAt: this.state === 'OPEN' && this.lastFailureTime !== undefined
+        ? new Date(this.lastFailureTime + this.recoveryTimeout).toISOString()
+        : null
+    }
+  }
+
+  reset(): void {
+    this.failures = 0
+    this.lastFailureTime = undefined
+    this.state = 'CLOSED'
+  }
 }
 
 // Global circuit breakers for different services
 const circuitBreakers = {
-  database: new CircuitBreaker(3, 30000), // 3 failures, 30s recovery
-  externalApi: new CircuitBreaker(5, 60000), // 5 failures, 1m recovery
-  email: new CircuitBreaker(3, 60000), // 3 failures, 1m recovery
+  database: new CircuitBreaker(3, 30000, 'database'), // 3 failures, 30s recovery
+  externalApi: new CircuitBreaker(5, 60000, 'externalApi'), // 5 failures, 1m recovery
+  email: new CircuitBreaker(3, 60000, 'email'), // 3 failures, 1m recovery
 }
 
 // Retry configuration
-interface RetryConfig {
+export interface RetryConfig {
   maxAttempts: number
   delay: number
   backoffMultiplier: number
   maxDelay: number
+  // Return false to fail fast on errors that won't succeed on retry
+  shouldRetry?: (error: unknown) => boolean
 }
 
 // Retry with exponential backoff
@@ -159,6 +210,10 @@ export async function withRetry<T>(
         break
       }
 
+      if (config.shouldRetry && !config.shouldRetry(error)) {
+        throw error
+      }
+
       // Don't retry certain types of errors
       if (error instanceof AppError) {
         if (
@@ -398,6 +453,9 @@ export const Errors = {
   rateLimit: (message: string = 'Rate limit exceeded') =>
     new AppError(message, ErrorType.RATE_LIMIT, ErrorSeverity.MEDIUM, 429),
   
+  payloadTooLarge: (message: string, context?: Record<string, any>) =>
+    new AppError(message, ErrorType.VALIDATION, ErrorSeverity.LOW, 413, true, context),
+  
   database: (message: string, context?: Record<string, any>) =>
     new AppError(message, ErrorType.DATABASE, ErrorSeverity.HIGH, 500, true, context),
   
@@ -0,0 +1,94 @@
+import { createZip } from './zip';
+import { escapeXml, XML_DECLARATION } from './xml';
+
+export type DocxBlock =
+  | { type: 'heading'; level: 1 | 2 | 3; text: string }
+  | { type: 'paragraph'; text: string; italic?: boolean }
+  | { type: 'pageBreak' };
+
+const WORD_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const RELATIONSHIP_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const PACKAGE_RELATIONSHIP_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+
+// Line breaks inside a paragraph become <w:br/> so the text keeps its shape
+function runs(text: string, italic = false): string {
+  const properties = italic ? '<w:rPr><w:i/></w:rPr>' : '';
+  return text.split('\n').map((line, i) =>
+    `<w:r>${properties}${i > 0 ? '<w:br/>' : ''}<w:t xml:space="preserve">${escapeXml(line)}</w:t></w:r>`
+  ).join('');
+}
+
+function blockXml(block: DocxBlock): string {
+  switch (block.type) {
+    case 'heading':
+      return `<w:p><w:pPr><w:pStyle w:val="Heading${block.level}"/></w:pPr>${runs(block.text)}</w:p>`;
+    case 'pageBreak':
+      return '<w:p><w:r><w:br w:type="page"/></w:r></w:p>';
+    default:
+      return `<w:p>${runs(block.text, block.italic)}</w:p>`;
+  }
+}
+
+const heading = (level: number, size: number) =>
+  `<w:style w:type="paragraph" w:styleId="Heading${level}"><w:name w:val="heading ${level}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/>` +
+  `<w:pPr><w:keepNext/><w:spacing w:before="240" w:after="120"/><w:outlineLvl w:val="${level - 1}"/></w:pPr>` +
+  `<w:rPr><w:b/><w:sz w:val="${size}"/></w:rPr></w:style>`;
+
+const STYLES_XML = XML_DECLARATION +
+  `<w:styles xmlns:w="${WORD_NS}">` +
+  '<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:cs="Calibri"/><w:sz w:val="22"/></w:rPr></w:rPrDefault>' +
+  '<w:pPrDefault><w:pPr><w:spacing w:after="160" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>' +
+  '<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/></w:style>' +
+  heading(1, 36) + heading(2, 28) + heading(3, 24) +
+  '</w:styles>';
+
+/**
+ * A minimal Word document with headings, paragraphs and page breaks, plus its title in the
+ * document properties
+ */
+export function createDocx(blocks: DocxBlock[], properties: { title?: string; created?: Date } = {}): Buffer {
+  const created = (properties.created ?? new Date()).toISOString().replace(/\.\d{3}Z$/, 'Z');
+
+  const contentTypes = XML_DECLARATION +
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>' +
+    '<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>' +
+    '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>' +
+    '</Types>';
+
+  const rootRels = XML_DECLARATION +
+    `<Relationships xmlns="${PACKAGE_RELATIONSHIP_NS}">` +
+    `<Relationship Id="rId1" Type="${RELATIONSHIP_NS}/officeDocument" Target="word/document.xml"/>` +
+    '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>' +
+    '</Relationships>';
+
+  const documentRels = XML_DECLARATION +
+    `<Relationships xmlns="${PACKAGE_RELATIONSHIP_NS}">` +
+    `<Relationship Id="rId1" Type="${RELATIONSHIP_NS}/styles" Target="styles.xml"/>` +
+    '</Relationships>';
+
+  const core = XML_DECLARATION +
+    '<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" ' +
+    'xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" ' +
+    'xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">' +
+    (properties.title ? `<dc:title>${escapeXml(properties.title)}</dc:title>` : '') +
+    `<dcterms:created xsi:type="dcterms:W3CDTF">${created}</dcterms:created>` +
+    '</cp:coreProperties>';
+
+  const document = XML_DECLARATION +
+    `<w:document xmlns:w="${WORD_NS}" xmlns:r="${RELATIONSHIP_NS}"><w:body>` +
+    blocks.map(blockXml).join('') +
+    '<w:sectPr><w:pgSz w:w="12240" w:h="15840"/><w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="708" w:footer="708" w:gutter="0"/></w:sectPr>' +
+    '</w:body></w:document>';
+
+  return createZip([
+    { name: '[Content_Types].xml', data: contentTypes },
+    { name: '_rels/.rels', data: rootRels },
+    { name: 'word/document.xml', data: document },
+    { name: 'word/_rels/document.xml.rels', data: documentRels },
+    { name: 'word/styles.xml', data: STYLES_XML },
+    { name: 'docProps/core.xml', data: core }
+  ]);
+}
@@ -0,0 +1,254 @@
+import { toCsv } from '../csv';
+import { getPlatformConfig } from '../platform-icons';
+import { toLocalTime } from '../recurrence';
+import { ExportData, ExportFile, ExportFormat, ExportItem, ExportOutput } from './types';
+import { createZip, uniqueFileNames } from './zip';
+import { createXlsx, CellValue } from './xlsx';
+import { createDocx, DocxBlock } from './docx';
+
+export * from './types';
+export { createZip, crc32 } from './zip';
+
+// Platforms a social scheduler can post to; email and newsletter outputs are left out of its uploads
+const NON_SOCIAL_PLATFORMS = ['email', 'newsletter', 'general'];
+
+const MIME_TYPES = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  zip: 'application/zip'
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+const platformName = (platform: string) => getPlatformConfig(platform).name;
+const isoDate = (date: Date) => date.toISOString().slice(0, 10);
+
+// Wall-clock time of a scheduled post in its own time zone
+function scheduleParts(output: ExportOutput): { date: string; time: string; day: string; month: string; year: string } | null {
+  if (!output.schedule) return null;
+  const local = toLocalTime(output.schedule.publishAt, output.schedule.timezone);
+  return {
+    year: String(local.year),
+    month: pad(local.month),
+    day: pad(local.day),
+    date: `${local.year}-${pad(local.month)}-${pad(local.day)}`,
+    time: `${pad(local.hour)}:${pad(local.minute)}`
+  };
+}
+
+function scheduledFor(output: ExportOutput): string {
+  const parts = scheduleParts(output);
+  return parts ? `${parts.date} ${parts.time}` : '';
+}
+
+function outputLabel(output: ExportOutput): string {
+  return `${platformName(output.platform)}${output.locale ? ` (${output.locale})` : ''}`;
+}
+
+const OUTPUT_HEADER = [
+  'Content ID', 'Title', 'Content type', 'Client', 'Campaign', 'Platform', 'Locale', 'Output',
+  'Scheduled for', 'Time zone', 'Schedule status', 'Output ID', 'Created'
+];
+
+// One row per output; content without outputs still gets a row so nothing selected goes missing
+function outputRows(items: ExportItem[]): CellValue[][] {
+  return items.flatMap(item => {
+    const base = [item.id, item.title, item.contentType, item.client ?? '', item.campaign ?? ''];
+    if (item.outputs.length === 0) {
+      return [[...base, '', '', '', '', '', '', '', isoDate(item.createdAt)]];
+    }
+    return item.outputs.map(output => [
+      ...base,
+      output.platform,
+      output.locale ?? '',
+      output.content,
+      scheduledFor(output),
+      output.schedule?.timezone ?? '',
+      output.schedule?.status ?? '',
+      output.id,
+      isoDate(output.createdAt)
+    ]);
+  });
+}
+
+function contentMarkdown(item: ExportItem): string {
+  const details = [
+    item.contentType,
+    item.client && `Client: ${item.client}`,
+    item.campaign && `Campaign: ${item.campaign}`,
+    `Created ${isoDate(item.createdAt)}`
+  ].filter(Boolean).join(' · ');
+
+  return [
+    `# ${item.title}`,
+    `_${details}_`,
+    '## Original',
+    item.originalContent.trim(),
+    ...item.outputs.flatMap(output => [
+      `## ${outputLabel(output)}`,
+      ...(output.schedule ? [`_Scheduled for ${scheduledFor(output)} (${output.schedule.timezone})_`] : []),
+      output.content.trim()
+    ])
+  ].join('\n\n') + '\n';
+}
+
+function platformMarkdown(platform: string, entries: Array<{ item: ExportItem; output: ExportOutput }>): string {
+  return [
+    `# ${platformName(platform)}`,
+    ...entries.map(({ item, output }) => [
+      `## ${item.title}${output.locale ? ` (${output.locale})` : ''}`,
+      ...(output.schedule ? [`_Scheduled for ${scheduledFor(output)} (${output.schedule.timezone})_`] : []),
+      output.content.trim()
+    ].join('\n\n'))
+  ].join('\n\n---\n\n') + '\n';
+}
+
+function docxBlocks(data: ExportData): DocxBlock[] {
+  return data.items.flatMap((item, index) => [
+    ...(index > 0 ? [{ type: 'pageBreak' } as const] : []),
+    { type: 'heading', level: 1, text: item.title } as const,
+    {
+      type: 'paragraph',
+      italic: true,
+      text: [item.contentType, item.client && `Client: ${item.client}`, item.campaign && `Campaign: ${item.campaign}`, `Created ${isoDate(item.createdAt)}`]
+        .filter(Boolean).join(' · ')
+    } as const,
+    { type: 'heading', level: 2, text: 'Original' } as const,
+    ...paragraphs(item.originalContent),
+    ...item.outputs.flatMap(output => [
+      { type: 'heading', level: 2, text: outputLabel(output) } as const,
+      ...(output.schedule ? [{ type: 'paragraph', italic: true, text: `Scheduled for ${scheduledFor(output)} (${output.schedule.timezone})` } as const] : []),
+      ...paragraphs(output.content)
+    ])
+  ]);
+}
+
+function paragraphs(text: string): DocxBlock[] {
+  return text.split(/\n{2,}/).map(part => part.trim()).filter(Boolean).map(part => ({ type: 'paragraph', text: part }));
+}
+
+// Outputs a social scheduler can take, soonest first
+function socialOutputs(data: ExportData): ExportOutput[] {
+  return data.items
+    .flatMap(item => item.outputs)
+    .filter(output => !NON_SOCIAL_PLATFORMS.includes(output.platform))
+    .sort((a, b) => (a.schedule?.publishAt.getTime() ?? Infinity) - (b.schedule?.publishAt.getTime() ?? Infinity));
+}
+
+const countOutputs = (data: ExportData) => data.items.reduce((sum, item) => sum + item.outputs.length, 0);
+
+/**
+ * Build an export file. Date-stamped names make repeated downloads easy to tell apart.
+ */
+export function buildExport(format: ExportFormat, data: ExportData): ExportFile {
+  const stamp = isoDate(data.exportedAt);
+  const base = `content-export-${stamp}`;
+
+  switch (format) {
+    case 'csv':
+      return {
+        fileName: `${base}.csv`,
+        mimeType: MIME_TYPES.csv,
+        data: Buffer.from(`\uFEFF${toCsv([OUTPUT_HEADER, ...outputRows(data.items)])}`, 'utf8'),
+        skipped: 0
+      };
+
+    case 'xlsx':
+      return {
+        fileName: `${base}.xlsx`,
+        mimeType: MIME_TYPES.xlsx,
+        data: createXlsx([
+          {
+            name: 'Content',
+            widths: [28, 40, 14, 12, 20, 20, 12, 10, 80],
+            rows: [
+              ['Content ID', 'Title', 'Content type', 'Status', 'Client', 'Campaign', 'Created', 'Outputs', 'Original'],
+              ...data.items.map(item => [
+                item.id, item.title, item.contentType, item.status, item.client ?? '', item.campaign ?? '',
+                isoDate(item.createdAt), item.outputs.length, item.originalContent
+              ])
+            ]
+          },
+          {
+            name: 'Outputs',
+            widths: [28, 40, 14, 20, 20, 12, 8, 80, 18, 20, 14, 28, 12],
+            rows: [OUTPUT_HEADER, ...outputRows(data.items)]
+          }
+        ]),
+        skipped: 0
+      };
+
+    case 'markdown': {
+      const fileName = uniqueFileNames();
+      return {
+        fileName: `${base}-markdown.zip`,
+        mimeType: MIME_TYPES.zip,
+        data: createZip(data.items.map(item => ({ name: fileName(item.title, 'md'), data: contentMarkdown(item) })), data.exportedAt),
+        skipped: 0
+      };
+    }
+
+    case 'docx':
+      return {
+        fileName: `${base}.docx`,
+        mimeType: MIME_TYPES.docx,
+        data: createDocx(docxBlocks(data), { title: data.items.length === 1 ? data.items[0]!.title : 'Content export', created: data.exportedAt }),
+        skipped: 0
+      };
+
+    case 'platform-zip': {
+      const byPlatform = new Map<string, Array<{ item: ExportItem; output: ExportOutput }>>();
+      for (const item of data.items) {
+        for (const output of item.outputs) {
+          byPlatform.set(output.platform, [...(byPlatform.get(output.platform) ?? []), { item, output }]);
+        }
+      }
+      return {
+        fileName: `${base}-by-platform.zip`,
+        mimeType: MIME_TYPES.zip,
+        data: createZip(
+          [...byPlatform.entries()].map(([platform, entries]) => ({ name: `${platform}.md`, data: platformMarkdown(platform, entries) })),
+          data.exportedAt
+        ),
+        skipped: 0
+      };
+    }
+
+    // Buffer's bulk upload columns; posts without a time are added to the queue
+    case 'buffer': {
+      const outputs = socialOutputs(data);
+      const rows = outputs.map(output => [output.content, '', '', scheduledFor(output)]);
+      return {
+        fileName: `${base}-buffer.csv`,
+        mimeType: MIME_TYPES.csv,
+        data: Buffer.from(toCsv([['Text', 'Image URL', 'Tags', 'Posting Time'], ...rows], { escapeFormulas: false }), 'utf8'),
+        skipped: countOutputs(data) - outputs.length
+      };
+    }
+
+    // Hootsuite's bulk composer takes no header row and needs a time for every post
+    case 'hootsuite': {
+      const outputs = socialOutputs(data).filter(output => output.schedule);
+      const rows = outputs.map(output => {
+        const parts = scheduleParts(output)!;
+        return [`${parts.day}/${parts.month}/${parts.year} ${parts.time}`, output.content, ''];
+      });
+      return {
+        fileName: `${base}-hootsuite.csv`,
+        mimeType: MIME_TYPES.csv,
+        data: Buffer.from(toCsv(rows, { escapeFormulas: false }), 'utf8'),
+        skipped: countOutputs(data) - outputs.length
+      };
+    }
+  }
+}
+
+/**
+ * Rough size of an export before it is built, to decide whether it runs in the background
+ */
+export function estimateExportBytes(data: ExportData): number {
+  return data.items.reduce(
+    (sum, item) => sum + Buffer.byteLength(item.originalContent) + item.outputs.reduce((total, output) => total + Buffer.byteLength(output.content), 0),
+    0
+  );
+}
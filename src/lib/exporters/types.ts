@@ -0,0 +1,54 @@
+// Formats content can be exported to; safe to import from client components
+export const EXPORT_FORMATS = ['csv', 'xlsx', 'markdown', 'docx', 'platform-zip', 'buffer', 'hootsuite'] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: 'CSV spreadsheet',
+  xlsx: 'Excel workbook (.xlsx)',
+  markdown: 'Markdown files (.zip)',
+  docx: 'Word document (.docx)',
+  'platform-zip': 'One file per platform (.zip)',
+  buffer: 'Buffer bulk upload (CSV)',
+  hootsuite: 'Hootsuite bulk upload (CSV)'
+};
+
+// When an output is scheduled to go out; recurring posts export their next occurrence
+export interface ExportSchedule {
+  publishAt: Date;
+  timezone: string;
+  status: string;
+}
+
+export interface ExportOutput {
+  id: string;
+  platform: string;
+  locale: string | null;
+  content: string;
+  createdAt: Date;
+  schedule: ExportSchedule | null;
+}
+
+export interface ExportItem {
+  id: string;
+  title: string;
+  contentType: string;
+  status: string;
+  originalContent: string;
+  client: string | null;
+  campaign: string | null;
+  createdAt: Date;
+  outputs: ExportOutput[];
+}
+
+export interface ExportData {
+  exportedAt: Date;
+  items: ExportItem[];
+}
+
+// A built export, ready to download or store
+export interface ExportFile {
+  fileName: string;
+  mimeType: string;
+  data: Buffer;
+  skipped: number; // Outputs left out because the format can't hold them, e.g. unscheduled posts in a Hootsuite upload
+}
@@ -0,0 +1,306 @@
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { Errors } from '@/lib/error-handler';
+import { GLOSSARY } from '@/lib/config';
+import { measureLength } from '@/lib/platform-constraints';
+import { renderStructuredOutput, StructuredOutput } from '@/lib/structured-output';
+import type { Platform } from '@/lib/ai-service';
+
+// Team roles allowed to add, edit and remove glossary terms
+export const GLOSSARY_EDITOR_ROLES = ['owner', 'admin'];
+
+const phrase = z.string().trim().min(1).max(100, 'Glossary terms can be at most 100 characters');
+
+const glossaryTermFields = z.object({
+  preferred: phrase.nullable().optional(),
+  forbidden: z.array(phrase).max(GLOSSARY.maxVariants, `A term can have at most ${GLOSSARY.maxVariants} forbidden variants`).default([]),
+  caseSensitive: z.boolean().default(false),
+  note: z.string().trim().max(500).nullable().optional()
+});
+
+export const glossaryTermInputSchema = glossaryTermFields.superRefine((term, ctx) => {
+  const problem = termProblem(term);
+  if (problem) ctx.addIssue({ code: z.ZodIssueCode.custom, message: problem });
+});
+export const glossaryTermUpdateSchema = glossaryTermFields.partial();
+
+export type GlossaryTermInput = z.infer<typeof glossaryTermInputSchema>;
+export type GlossaryTermUpdate = z.infer<typeof glossaryTermUpdateSchema>;
+
+export interface GlossaryEntry {
+  id: string;
+  preferred: string | null;
+  forbidden: string[];
+  caseSensitive: boolean;
+  note?: string | null;
+}
+
+// One term as written in an output and what it was changed to
+export interface GlossaryReplacement {
+  termId: string;
+  from: string;
+  to: string | null; // null when the forbidden term was removed
+  count: number;
+}
+
+export interface GlossaryResult {
+  text: string;
+  replacements: GlossaryReplacement[];
+}
+
+const normalizeKey = (value: string) => value.trim().replace(/\s+/g, ' ').toLowerCase();
+
+/**
+ * Why a term can't be saved, or null. A term needs something to enforce, and a forbidden variant
+ * can't be the preferred term itself (only a wrong-case spelling of it, when the case matters).
+ */
+function termProblem(term: { preferred?: string | null; forbidden?: string[]; caseSensitive?: boolean }): string | null {
+  const forbidden = term.forbidden ?? [];
+  if (!term.preferred && forbidden.length === 0) {
+    return 'Add a preferred term or at least one forbidden variant';
+  }
+  const preferred = term.preferred;
+  if (preferred && forbidden.some(variant =>
+    normalizeKey(variant) === normalizeKey(preferred) && (!term.caseSensitive || variant.trim() === preferred.trim())
+  )) {
+    return "A forbidden variant can't be the preferred term";
+  }
+  return null;
+}
+
+// A phrase as a pattern: any run of whitespace between its words, nothing special in it
+function phrasePattern(value: string): string {
+  return value.trim().split(/\s+/).map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('\\s+');
+}
+
+interface GlossaryMatch {
+  term: GlossaryEntry;
+  kind: 'preferred' | 'forbidden';
+  value: string;
+}
+
+// Whitespace may differ from how the term was written; case only matters where the term says so
+const sameSpelling = (found: string, value: string) => found.replace(/\s+/g, ' ') === value.trim().replace(/\s+/g, ' ');
+
+/**
+ * One pattern for every term in the glossary, longest phrases first, so "Acme Cloud" is kept whole
+ * before the forbidden "Acme" gets a chance to match inside it. Terms match as whole words in any case,
+ * except forbidden variants of case-sensitive terms, which only match as written ("US" but not "us").
+ * Hashtags and @mentions are left alone, since rewriting them would break the tag.
+ */
+function buildMatcher(terms: GlossaryEntry[]) {
+  const lookup = new Map<string, GlossaryMatch[]>();
+  const phrases: string[] = [];
+  const add = (value: string, match: GlossaryMatch) => {
+    const key = normalizeKey(value);
+    if (!key) return;
+    const matches = lookup.get(key);
+    if (matches) {
+      matches.push(match);
+      return;
+    }
+    lookup.set(key, [match]);
+    phrases.push(value);
+  };
+
+  for (const term of terms) {
+    if (term.preferred) add(term.preferred, { term, kind: 'preferred', value: term.preferred });
+  }
+  for (const term of terms) {
+    term.forbidden.forEach(variant => add(variant, { term, kind: 'forbidden', value: variant }));
+  }
+  if (phrases.length === 0) return null;
+
+  const alternatives = phrases.sort((a, b) => b.length - a.length).map(phrasePattern);
+  return {
+    pattern: new RegExp(`(?<![\\p{L}\\p{N}_#@])(?:${alternatives.join('|')})(?![\\p{L}\\p{N}_])`, 'giu'),
+    lookup
+  };
+}
+
+type Matcher = NonNullable<ReturnType<typeof buildMatcher>>;
+
+function replaceTerms(text: string, matcher: Matcher, tally: Map<string, GlossaryReplacement>): string {
+  let removed = false;
+  const replaced = text.replace(matcher.pattern, (found: string) => {
+    // The first term the text is written as; a case-sensitive forbidden variant in another case is just a word
+    const match = matcher.lookup.get(normalizeKey(found))?.find(candidate =>
+      candidate.kind === 'preferred' || !candidate.term.caseSensitive || sameSpelling(found, candidate.value)
+    );
+    if (!match) return found;
+
+    const { term, kind } = match;
+    // The preferred term is only ever corrected for case, and only when the case matters
+    if (kind === 'preferred' && (!term.caseSensitive || found === term.preferred)) return found;
+
+    const to = term.preferred ?? null;
+    const key = `${term.id}\u0000${found}`;
+    const entry = tally.get(key) ?? { termId: term.id, from: found, to, count: 0 };
+    entry.count++;
+    tally.set(key, entry);
+    if (to === null) removed = true;
+    return to ?? '';
+  });
+
+  if (!removed) return replaced;
+  // Tidy the gaps left where terms were removed
+  return replaced
+    .replace(/[ \t]{2,}/g, ' ')
+    .replace(/ +([,.;:!?])/g, '$1')
+    .replace(/^[ \t]+|[ \t]+$/gm, '');
+}
+
+/**
+ * Enforce the glossary on text without a model call: forbidden variants are replaced with the
+ * preferred term, or removed when the term has none, and case-sensitive terms get their exact
+ * spelling back. This catches what the model wrote even when it ignored the prompt.
+ */
+export function applyGlossary(text: string, terms: GlossaryEntry[]): GlossaryResult {
+  const matcher = buildMatcher(terms);
+  if (!matcher) return { text, replacements: [] };
+
+  const tally = new Map<string, GlossaryReplacement>();
+  return { text: replaceTerms(text, matcher, tally), replacements: [...tally.values()] };
+}
+
+function mapStrings(value: unknown, transform: (text: string) => string): unknown {
+  if (typeof value === 'string') return transform(value);
+  if (Array.isArray(value)) return value.map(item => mapStrings(item, transform));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, mapStrings(item, transform)]));
+  }
+  return value;
+}
+
+/**
+ * Enforce the glossary on a platform output. Structured outputs have each part fixed and are
+ * rendered again; the replacements made are attached as `glossary` when there were any.
+ */
+export function applyGlossaryToOutput<T extends { content: string; structured?: StructuredOutput | null; characterCount?: number }>(
+  platform: Platform,
+  output: T,
+  terms: GlossaryEntry[]
+): T & { glossary?: GlossaryReplacement[] } {
+  const matcher = buildMatcher(terms);
+  if (!matcher) return output;
+
+  const tally = new Map<string, GlossaryReplacement>();
+  const transform = (text: string) => replaceTerms(text, matcher, tally);
+  const structured = output.structured ? mapStrings(output.structured, transform) as StructuredOutput : output.structured;
+  const content = structured ? renderStructuredOutput(platform, structured) : transform(output.content);
+  if (tally.size === 0) return output;
+
+  return {
+    ...output,
+    content,
+    structured,
+    ...(output.characterCount !== undefined && { characterCount: measureLength(platform, content) }),
+    glossary: [...tally.values()]
+  };
+}
+
+/**
+ * The glossary as prompt instructions; the first GLOSSARY.promptTerms terms are listed,
+ * and the rest are still enforced after generation
+ */
+export function formatGlossary(terms: GlossaryEntry[]): string | undefined {
+  const quote = (value: string) => `"${value}"`;
+  const lines = terms.slice(0, GLOSSARY.promptTerms).map(term => {
+    const note = term.note ? ` (${term.note})` : '';
+    if (!term.preferred) {
+      return `- Never use ${term.forbidden.map(quote).join(', ')}${note}`;
+    }
+    const spelling = term.caseSensitive ? `Write ${quote(term.preferred)} exactly as shown` : `Use ${quote(term.preferred)}`;
+    const never = term.forbidden.length > 0 ? `, never ${term.forbidden.map(quote).join(', ')}` : '';
+    return `- ${spelling}${never}${note}`;
+  });
+  if (lines.length === 0) return undefined;
+  return ['Glossary - these terms are mandatory:', ...lines].join('\n');
+}
+
+// Additional instructions with the glossary appended
+export function withGlossary(instructions: string | undefined, terms: GlossaryEntry[]): string | undefined {
+  const glossary = formatGlossary(terms);
+  if (!glossary) return instructions;
+  return instructions ? `${instructions}\n\n${glossary}` : glossary;
+}
+
+const termSelect = { id: true, preferred: true, forbidden: true, caseSensitive: true, note: true } as const;
+
+class GlossaryManager {
+  private static instance: GlossaryManager;
+
+  private constructor() {}
+
+  public static getInstance(): GlossaryManager {
+    if (!GlossaryManager.instance) {
+      GlossaryManager.instance = new GlossaryManager();
+    }
+    return GlossaryManager.instance;
+  }
+
+  async list(teamId: string) {
+    return prisma.glossaryTerm.findMany({
+      where: { teamId },
+      orderBy: [{ preferred: 'asc' }, { createdAt: 'asc' }]
+    });
+  }
+
+  /**
+   * The terms enforced on a user's output; users outside a team have no glossary
+   */
+  async forTeam(teamId?: string | null): Promise<GlossaryEntry[]> {
+    if (!teamId) return [];
+    return prisma.glossaryTerm.findMany({ where: { teamId }, select: termSelect, orderBy: { createdAt: 'asc' } });
+  }
+
+  async create(teamId: string, userId: string, input: GlossaryTermInput) {
+    const count = await prisma.glossaryTerm.count({ where: { teamId } });
+    if (count >= GLOSSARY.maxTerms) {
+      throw Errors.validation(`A glossary can have at most ${GLOSSARY.maxTerms} terms`);
+    }
+    await this.assertNoOverlap(teamId, input);
+
+    return prisma.glossaryTerm.create({ data: { ...input, teamId, createdById: userId } });
+  }
+
+  async update(teamId: string, id: string, input: GlossaryTermUpdate) {
+    const existing = await this.get(teamId, id);
+    const merged = { ...existing, ...input };
+    const problem = termProblem(merged);
+    if (problem) {
+      throw Errors.validation(problem);
+    }
+    await this.assertNoOverlap(teamId, merged, id);
+
+    return prisma.glossaryTerm.update({ where: { id }, data: input });
+  }
+
+  async delete(teamId: string, id: string) {
+    await this.get(teamId, id);
+    await prisma.glossaryTerm.delete({ where: { id } });
+  }
+
+  private async get(teamId: string, id: string) {
+    const term = await prisma.glossaryTerm.findFirst({ where: { id, teamId } });
+    if (!term) {
+      throw Errors.notFound('Glossary term');
+    }
+    return term;
+  }
+
+  // Every phrase can belong to one term only, or enforcement would depend on which term came first
+  private async assertNoOverlap(teamId: string, term: { preferred?: string | null; forbidden?: string[] }, excludeId?: string) {
+    const others: GlossaryEntry[] = await prisma.glossaryTerm.findMany({
+      where: { teamId, ...(excludeId && { id: { not: excludeId } }) },
+      select: termSelect
+    });
+    const taken = new Set(others.flatMap(other => [other.preferred, ...other.forbidden].filter((value): value is string => !!value).map(normalizeKey)));
+    const clash = [term.preferred, ...(term.forbidden ?? [])].find(value => value && taken.has(normalizeKey(value)));
+    if (clash) {
+      throw Errors.validation(`"${clash}" is already in the glossary`);
+    }
+  }
+}
+
+export const glossaries = GlossaryManager.getInstance();
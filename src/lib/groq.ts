@@ -1,5 +1,6 @@
 import Groq from 'groq-sdk';
 import { GROQ_API_KEY, GROQ_MODELS } from './config';
+import type { TokenUsage } from './ai-providers/types';
 
 // Initialize Groq client
 let groqClient: Groq | null = null;
@@ -26,11 +27,15 @@ export function getGroqClient(): Groq {
  * Generate content using Groq
  * @param prompt The prompt to send to Groq
  * @param modelName The name of the model to use (defaults to GROQ_MODELS.DEFAULT)
+ * @param maxTokens Maximum number of tokens to generate
+ * @param onUsage Optional callback receiving the token usage reported by the API
  * @returns The generated text response
  */
 export async function generateWithGroq(
   prompt: string,
-  modelName = GROQ_MODELS.DEFAULT
+  modelName: string = GROQ_MODELS.DEFAULT,
+  maxTokens = 1024,
+  onUsage?: (usage: TokenUsage) => void
 ): Promise<string> {
   try {
     const client = getGroqClient();
@@ -43,16 +48,74 @@ export async function generateWithGroq(
         },
       ],
       model: modelName,
-      max_tokens: 1024,
+      max_tokens: maxTokens,
       temperature: 0.7,
     });
 
     // Extract the text from the response
     const responseText = chatCompletion.choices[0]?.message?.content || '';
+
+    if (chatCompletion.usage) {
+      onUsage?.({ inputTokens: chatCompletion.usage.prompt_tokens, outputTokens: chatCompletion.usage.completion_tokens });
+    }
     
     return responseText;
   } catch (error) {
     console.error('[GROQ_API_ERROR]', error);
-    throw new Error(`Failed to generate content with Groq: ${error instanceof Error ? error.message : String(error)}`);
+    throw new Error(`Failed to generate content with Groq: ${error instanceof Error ? error.message : String(error)}`, { cause: error });
+  }
+}
+
+/**
+ * Stream content from Groq, invoking onText for each text delta
+ * @param prompt The prompt to send to Groq
+ * @param onText Callback receiving each partial text chunk as it arrives
+ * @param modelName The name of the model to use (defaults to GROQ_MODELS.DEFAULT)
+ * @param maxTokens Maximum number of tokens to generate
+ * @param onUsage Optional callback receiving the token usage once the stream completes
+ * @returns The full generated text once the stream completes
+ */
+export async function streamWithGroq(
+  prompt: string,
+  onText: (text: string) => void,
+  modelName: string = GROQ_MODELS.DEFAULT,
+  maxTokens = 1024,
+  onUsage?: (usage: TokenUsage) => void
+): Promise<string> {
+  try {
+    const client = getGroqClient();
+    let responseText = '';
+
+    const stream = await client.chat.completions.create({
+      messages: [
+        {
+          role: 'user',
+          content: prompt,
+        },
+      ],
+      model: modelName,
+      max_tokens: maxTokens,
+      temperature: 0.7,
+      stream: true,
+    });
+
+    for await (const chunk of stream) {
+      const text = chunk.choices[0]?.delta?.content || '';
+      if (text) {
+        responseText += text;
+        onText(text);
+      }
+
+      // Groq reports usage on the final chunk
+      const usage = chunk.x_groq?.usage;
+      if (usage) {
+        onUsage?.({ inputTokens: usage.prompt_tokens, outputTokens: usage.completion_tokens });
+      }
+    }
+
+    return responseText;
+  } catch (error) {
+    console.error('[GROQ_STREAM_ERROR]', error);
+    throw new Error(`Failed to stream content with Groq: ${error instanceof Error ? error.message : String(error)}`, { cause: error });
   }
-}
\ No newline at end of file
+}
@@ -1,5 +1,6 @@
 import { checkDatabaseHealth } from './prisma'
 import { logger, LogCategory } from './logger'
+import { providerRegistry } from './ai-providers'
 
 export interface HealthDiagnostic {
   component: string
@@ -347,27 +348,20 @@ export class HealthDiagnostics {
   private static async checkExternalServices(): Promise<HealthDiagnostic[]> {
     const diagnostics: HealthDiagnostic[] = []
 
-    // AI Service Check
-    if (process.env.ANTHROPIC_API_KEY) {
-      diagnostics.push({
-        component: 'AI Service (Anthropic)',
-        status: 'healthy',
-        message: '✅ AI service is configured and ready',
-        details: 'Anthropic API key is configured',
-        severity: 'info',
-        impact: 'No impact - AI content generation available',
-        last_checked: new Date().toISOString()
-      })
-    } else {
+    // AI Service Check - one entry per configured provider, including circuit breaker state
+    const configuredProviders = providerRegistry.listConfigured()
+    const circuits = providerRegistry.getCircuitStates()
+
+    if (configuredProviders.length === 0) {
       diagnostics.push({
-        component: 'AI Service (Anthropic)',
+        component: 'AI Service',
         status: 'unhealthy',
-        message: '🔴 AI service unavailable - No API key configured',
-        details: 'ANTHROPIC_API_KEY environment variable is not set',
+        message: '🔴 AI service unavailable - No provider configured',
+        details: 'None of ANTHROPIC_API_KEY, GROQ_API_KEY or OPENAI_COMPATIBLE_BASE_URL is set',
         actionable_steps: [
-          '1. Sign up for an Anthropic account at https://console.anthropic.com',
-          '2. Generate an API key in your Anthropic dashboard',
-          '3. Add ANTHROPIC_API_KEY to your .env file',
+          '1. Sign up for an Anthropic account at https://console.anthropic.com (or Groq at https://console.groq.com)',
+          '2. Generate an API key in the provider dashboard',
+          '3. Add ANTHROPIC_API_KEY or GROQ_API_KEY to your .env file - or point OPENAI_COMPATIBLE_BASE_URL at a self-hosted server',
           '4. Restart the application'
         ],
         severity: 'critical',
@@ -377,6 +371,54 @@ export class HealthDiagnostics {
       })
     }
 
+    for (const provider of configuredProviders) {
+      const circuit = circuits[provider.id]
+      const component = `AI Service (${provider.name})`
+
+      if (circuit.state === 'OPEN') {
+        diagnostics.push({
+          component,
+          status: 'unhealthy',
+          message: `🔴 ${provider.name} circuit open - requests are routed to fallback providers`,
+          details: `${circuit.failures} consecutive retryable failures (threshold ${circuit.failureThreshold}). Next trial call after ${circuit.nextAttemptAt}`,
+          actionable_steps: [
+            '1. Check the provider status page for an ongoing incident',
+            '2. Review recent AI errors in the system logs for rate limit (429) or server (5xx) responses',
+            '3. Verify the API key has not been revoked or run out of credit'
+          ],
+          technical_details: { circuit },
+          severity: 'error',
+          impact: 'Requests use the next provider in each plan\'s fallback chain; output quality or latency may change',
+          resolution_time: `${Math.ceil(circuit.recoveryTimeout / 1000)} seconds until the next trial call`,
+          last_checked: new Date().toISOString()
+        })
+      } else if (circuit.state === 'HALF_OPEN') {
+        diagnostics.push({
+          component,
+          status: 'degraded',
+          message: `🟡 ${provider.name} recovering - trial requests in progress`,
+          details: 'The circuit breaker cool-down elapsed; the next successful call will close it',
+          technical_details: { circuit },
+          severity: 'warning',
+          impact: 'A failed trial call reopens the circuit and routes traffic to fallback providers',
+          last_checked: new Date().toISOString()
+        })
+      } else {
+        diagnostics.push({
+          component,
+          status: 'healthy',
+          message: '✅ AI service is configured and ready',
+          details: circuit.failures > 0
+            ? `${provider.name} is configured; ${circuit.failures} recent failure(s) below the circuit threshold of ${circuit.failureThreshold}`
+            : `${provider.name} is configured`,
+          technical_details: { circuit },
+          severity: 'info',
+          impact: 'No impact - AI content generation available',
+          last_checked: new Date().toISOString()
+        })
+      }
+    }
+
     // Payment Service Check
     if (process.env.STRIPE_SECRET_KEY) {
       diagnostics.push({
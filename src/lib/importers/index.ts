@@ -0,0 +1,260 @@
+import { parseCsv } from '../csv';
+import { Errors } from '../error-handler';
+import { htmlToText } from '../ingestion/html';
+import { platformConfigs } from '../platform-icons';
+import { contentTypeSchema } from '../validations/content';
+import { ColumnMapping, IMPORT_FIELDS, ImportField, ImportOutput, ImportRecord, ParsedImport } from './types';
+import { isWxr, parseWxr } from './wxr';
+
+export * from './types';
+export { isWxr, parseWxr } from './wxr';
+
+const CONTENT_TYPES: readonly string[] = contentTypeSchema.options;
+const DEFAULT_CONTENT_TYPE = 'blog';
+
+// Column names each field is recognised by, compared without case, spaces or punctuation
+const FIELD_ALIASES: Record<ImportField, string[]> = {
+  title: ['title', 'name', 'headline', 'subject', 'posttitle'],
+  content: ['content', 'originalcontent', 'body', 'text', 'postcontent', 'post', 'message', 'html'],
+  contentType: ['contenttype', 'type', 'kind', 'format'],
+  createdAt: ['createdat', 'created', 'date', 'publishedat', 'published', 'publishdate', 'postdate'],
+  sourceUrl: ['sourceurl', 'url', 'link', 'permalink']
+};
+
+// Keys that hold the list of records in a JSON object, when the file isn't a bare array
+const JSON_LIST_KEYS = ['items', 'posts', 'contents', 'content', 'data', 'rows', 'records'];
+
+const normalizeName = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const isPlatform = (platform: string) => Object.prototype.hasOwnProperty.call(platformConfigs, platform);
+
+// Rich text pasted or exported from a CMS becomes plain text with its paragraphs kept
+const looksLikeHtml = (text: string) => /<\/?(p|div|br|h[1-6]|ul|ol|li|blockquote|strong|em|a)\b[^>]*>/i.test(text);
+
+/**
+ * A mapping guessed from the column names: known field names, and platform keys or names for outputs
+ */
+export function suggestMapping(columns: string[]): ColumnMapping {
+  const fields: ColumnMapping['fields'] = {};
+  const outputs: ColumnMapping['outputs'] = {};
+  const used = new Set<string>();
+
+  for (const field of IMPORT_FIELDS) {
+    for (const alias of FIELD_ALIASES[field]) {
+      const column = columns.find(name => !used.has(name) && normalizeName(name) === alias);
+      if (column) {
+        fields[field] = column;
+        used.add(column);
+        break;
+      }
+    }
+  }
+
+  for (const [platform, config] of Object.entries(platformConfigs)) {
+    const names = [platform, normalizeName((config as { name: string }).name)];
+    const column = columns.find(name => !used.has(name) && names.includes(normalizeName(name)));
+    if (column) {
+      outputs[platform] = column;
+      used.add(column);
+    }
+  }
+
+  return { fields, outputs };
+}
+
+function readDate(value: string | undefined, warnings: string[]): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    warnings.push(`Couldn't read the date "${value}"; the import date is used instead`);
+    return undefined;
+  }
+  return date;
+}
+
+function readContentType(value: string | undefined, warnings: string[]): string {
+  if (!value) return DEFAULT_CONTENT_TYPE;
+  const contentType = value.trim().toLowerCase().replace(/[\s-]+/g, '_');
+  if (CONTENT_TYPES.includes(contentType)) return contentType;
+  warnings.push(`Unknown content type "${value}"; imported as ${DEFAULT_CONTENT_TYPE}`);
+  return DEFAULT_CONTENT_TYPE;
+}
+
+const readText = (value: string | undefined) => {
+  const text = value?.trim() ?? '';
+  return looksLikeHtml(text) ? htmlToText(text) : text;
+};
+
+// A CSV row or flat JSON object, read through the mapping
+function recordFromValues(values: Record<string, string>, row: number, mapping: ColumnMapping): ImportRecord {
+  const value = (column: string | undefined) => (column ? values[column] : undefined);
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  const title = value(mapping.fields.title)?.trim() ?? '';
+  const content = readText(value(mapping.fields.content));
+  if (!title) errors.push('Title is empty');
+  if (!content) errors.push('Content is empty');
+
+  const outputs: ImportOutput[] = Object.entries(mapping.outputs)
+    .map(([platform, column]) => ({ platform, content: readText(value(column)), locale: null }))
+    .filter(output => output.content);
+
+  return {
+    row,
+    title,
+    content,
+    contentType: readContentType(value(mapping.fields.contentType), warnings),
+    createdAt: readDate(value(mapping.fields.createdAt), warnings),
+    sourceUrl: value(mapping.fields.sourceUrl)?.trim() || undefined,
+    outputs,
+    errors,
+    warnings
+  };
+}
+
+function checkMapping(mapping: ColumnMapping, columns: string[]) {
+  const unknown = [...Object.values(mapping.fields), ...Object.values(mapping.outputs)]
+    .filter((column): column is string => !!column && !columns.includes(column));
+  if (unknown.length > 0) {
+    throw Errors.validation(`The file has no column named ${unknown.map(column => `"${column}"`).join(', ')}`);
+  }
+  const platforms = Object.keys(mapping.outputs).filter(platform => !isPlatform(platform));
+  if (platforms.length > 0) {
+    throw Errors.validation(`Unknown platform: ${platforms.join(', ')}`);
+  }
+}
+
+function parseTable(format: 'csv' | 'json', columns: string[], rows: Array<{ row: number; values: Record<string, string> }>, mapping?: ColumnMapping): ParsedImport {
+  const used = mapping ?? suggestMapping(columns);
+  checkMapping(used, columns);
+  return {
+    format,
+    columns,
+    mapping: used,
+    records: rows.map(({ row, values }) => recordFromValues(values, row, used)),
+    ignored: 0
+  };
+}
+
+function parseCsvImport(text: string, mapping?: ColumnMapping): ParsedImport {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) {
+    throw Errors.validation('The CSV file is empty');
+  }
+  const columns = header.map(name => name.trim());
+
+  // Rows are numbered by position after the header; quoted line breaks can make that differ from the editor's line
+  return parseTable('csv', columns, rows.map((cells, i) => {
+    const values: Record<string, string> = {};
+    columns.forEach((column, c) => {
+      if (!(column in values)) values[column] = cells[c] ?? ''; // The first of two same-named columns wins
+    });
+    return { row: i + 2, values };
+  }), mapping);
+}
+
+const stringValue = (value: unknown): string | undefined =>
+  typeof value === 'string' ? value : typeof value === 'number' || typeof value === 'boolean' ? String(value) : undefined;
+
+/**
+ * Content and outputs from the JSON the library export (/api/dashboard/export) writes
+ */
+function parseLibraryExport(json: { contents: unknown[] }): ParsedImport {
+  const records = json.contents.map((entry, i): ImportRecord => {
+    const item = (entry && typeof entry === 'object' ? entry : {}) as Record<string, any>;
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    const title = stringValue(item.title)?.trim() ?? '';
+    const content = stringValue(item.originalContent)?.trim() ?? '';
+    if (!title) errors.push('Title is empty');
+    if (!content) errors.push('Content is empty');
+
+    const outputs: ImportOutput[] = [];
+    for (const output of Array.isArray(item.repurposed) ? item.repurposed : []) {
+      const platform = stringValue(output?.platform);
+      const text = stringValue(output?.content)?.trim();
+      if (!platform || !text) continue;
+      if (!isPlatform(platform)) {
+        warnings.push(`Skipped an output for the unknown platform "${platform}"`);
+        continue;
+      }
+      outputs.push({
+        platform,
+        content: text,
+        locale: stringValue(output.locale) ?? null,
+        key: stringValue(output.id),
+        sourceKey: stringValue(output.sourceId) ?? null
+      });
+    }
+
+    return {
+      row: i + 1,
+      title,
+      content,
+      contentType: readContentType(stringValue(item.contentType), warnings),
+      status: ['Generated', 'Repurposed'].includes(item.status) ? item.status : undefined,
+      isDraft: typeof item.isDraft === 'boolean' ? item.isDraft : undefined,
+      createdAt: readDate(stringValue(item.createdAt), warnings),
+      metadata: stringValue(item.id) ? { externalId: item.id } : undefined,
+      outputs,
+      errors,
+      warnings
+    };
+  });
+
+  return { format: 'library-export', columns: [], mapping: null, records, ignored: 0 };
+}
+
+function parseJsonImport(text: string, mapping?: ColumnMapping): ParsedImport {
+  let json: unknown;
+  try {
+    json = JSON.parse(text.replace(/^\uFEFF/, ''));
+  } catch {
+    throw Errors.validation('The file is not valid JSON');
+  }
+
+  const object = json && typeof json === 'object' && !Array.isArray(json) ? json as Record<string, unknown> : null;
+  if (object?.exportInfo && Array.isArray(object.contents)) {
+    return parseLibraryExport(object as { contents: unknown[] });
+  }
+
+  const listKey = object ? JSON_LIST_KEYS.find(key => Array.isArray(object[key])) : undefined;
+  const list = Array.isArray(json) ? json : listKey ? object![listKey] as unknown[] : null;
+  if (!list) {
+    throw Errors.validation('The JSON file should hold an array of posts, or an object with an "items" or "posts" array');
+  }
+
+  // Nested values can't be mapped to a column, so only top-level text, numbers and booleans are read
+  const entries = list.map(entry => entry && typeof entry === 'object' && !Array.isArray(entry) ? entry as Record<string, unknown> : {});
+  const columns = [...new Set(entries.slice(0, 50).flatMap(entry => Object.keys(entry).filter(key => stringValue(entry[key]) !== undefined)))];
+  return parseTable('json', columns, entries.map((entry, i) => ({
+    row: i + 1,
+    values: Object.fromEntries(Object.entries(entry).flatMap(([key, value]) => {
+      const text = stringValue(value);
+      return text === undefined ? [] : [[key, text]];
+    }))
+  })), mapping);
+}
+
+/**
+ * Read an import file by its extension (or its contents, for WordPress exports saved as .xml)
+ */
+export function parseImportFile(text: string, fileName: string, mapping?: ColumnMapping): ParsedImport {
+  const extension = fileName.toLowerCase().split('.').pop() ?? '';
+
+  if (extension === 'xml' || isWxr(text)) {
+    if (!isWxr(text)) {
+      throw Errors.validation('Only WordPress export (WXR) XML files can be imported');
+    }
+    return { format: 'wxr', columns: [], mapping: null, ...parseWxr(text) };
+  }
+  if (extension === 'json') {
+    return parseJsonImport(text, mapping);
+  }
+  if (extension === 'csv') {
+    return parseCsvImport(text, mapping);
+  }
+  throw Errors.validation('Import a .csv, .json or WordPress .xml export file');
+}
@@ -0,0 +1,84 @@
+// Files a content library can be imported from; safe to import from client components
+export const IMPORT_FORMATS = ['csv', 'json', 'library-export', 'wxr'] as const;
+export type ImportFormat = typeof IMPORT_FORMATS[number];
+
+export const IMPORT_FORMAT_LABELS: Record<ImportFormat, string> = {
+  csv: 'CSV spreadsheet',
+  json: 'JSON',
+  'library-export': 'Library export (JSON)',
+  wxr: 'WordPress export (WXR)'
+};
+
+// Content fields a CSV column or JSON key can be mapped to
+export const IMPORT_FIELDS = ['title', 'content', 'contentType', 'createdAt', 'sourceUrl'] as const;
+export type ImportField = typeof IMPORT_FIELDS[number];
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  title: 'Title',
+  content: 'Content',
+  contentType: 'Content type',
+  createdAt: 'Created date',
+  sourceUrl: 'Source URL'
+};
+
+export const REQUIRED_IMPORT_FIELDS: readonly ImportField[] = ['title', 'content'];
+
+// Which column holds each field, and which columns hold platform outputs (keyed by platform)
+export interface ColumnMapping {
+  fields: Partial<Record<ImportField, string>>;
+  outputs: Record<string, string>;
+}
+
+export interface ImportOutput {
+  platform: string;
+  content: string;
+  locale: string | null;
+  key?: string; // Id in the source file, so translated variants can be linked to their source again
+  sourceKey?: string | null;
+}
+
+// One post, row or item read from the file, before it is checked against the library
+export interface ImportRecord {
+  row: number; // CSV line, or 1-based position in the JSON or WXR file
+  title: string;
+  content: string;
+  contentType: string;
+  status?: string;
+  isDraft?: boolean;
+  createdAt?: Date;
+  sourceUrl?: string;
+  metadata?: Record<string, unknown>; // Saved in Content.sourceMetadata
+  outputs: ImportOutput[];
+  errors: string[];
+  warnings: string[];
+}
+
+export interface ParsedImport {
+  format: ImportFormat;
+  columns: string[]; // CSV headers or JSON keys; empty for formats with a fixed layout
+  mapping: ColumnMapping | null; // The mapping used, suggested from the columns unless one was given
+  records: ImportRecord[];
+  ignored: number; // Entries that aren't content, like WordPress attachments and menu items
+}
+
+export type ImportRowStatus = 'ready' | 'imported' | 'duplicate' | 'invalid' | 'failed';
+
+export interface ImportRowResult {
+  row: number;
+  title: string;
+  status: ImportRowStatus;
+  contentId?: string; // The created content, or the existing content a duplicate matches
+  outputs: number;
+  errors: string[];
+  warnings: string[];
+}
+
+export interface ImportReport {
+  format: ImportFormat;
+  dryRun: boolean;
+  columns: string[];
+  mapping: ColumnMapping | null;
+  ignored: number;
+  summary: Record<ImportRowStatus, number> & { total: number; outputs: number };
+  rows: ImportRowResult[];
+}
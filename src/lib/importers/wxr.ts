@@ -0,0 +1,104 @@
+import { htmlToText } from '../ingestion/html';
+import { decodeEntities } from '../ingestion/text';
+import { ImportRecord } from './types';
+
+// Post types that are content; attachments, menu items, revisions and blocks are left out
+const CONTENT_TYPES_BY_POST_TYPE: Record<string, string> = {
+  post: 'blog',
+  page: 'article'
+};
+
+const IGNORED_STATUSES = ['trash', 'auto-draft', 'inherit'];
+const DRAFT_STATUSES = ['draft', 'pending', 'future', 'private'];
+
+/**
+ * Whether the text is a WordPress eXtended RSS export
+ */
+export function isWxr(text: string): boolean {
+  const head = text.slice(0, 4000);
+  return /<rss\b/i.test(head) && (/xmlns:wp=/i.test(head) || /<wp:wxr_version>/i.test(text.slice(0, 20000)));
+}
+
+// Text of an element; CDATA sections are taken as they are, everything else is entity-decoded
+function elementText(xml: string, tag: string): string | undefined {
+  const match = new RegExp(`<${tag}(?:\\s[^>]*)?(?:/>|>([\\s\\S]*?)</${tag}>)`).exec(xml);
+  if (!match) return undefined;
+  const inner = match[1] ?? '';
+  return inner
+    .split(/(<!\[CDATA\[[\s\S]*?\]\]>)/)
+    .map(part => part.startsWith('<![CDATA[') ? part.slice(9, -3) : decodeEntities(part))
+    .join('')
+    .trim();
+}
+
+function categories(xml: string): string[] {
+  const names: string[] = [];
+  for (const match of xml.matchAll(/<category\b[^>]*domain="category"[^>]*>([\s\S]*?)<\/category>/g)) {
+    const name = elementText(`<category>${match[1]}</category>`, 'category');
+    if (name && name !== 'Uncategorized' && !names.includes(name)) names.push(name);
+  }
+  return names;
+}
+
+// WordPress writes "0000-00-00 00:00:00" for drafts that were never published
+function postDate(xml: string): Date | undefined {
+  const gmt = elementText(xml, 'wp:post_date_gmt');
+  if (gmt && !gmt.startsWith('0000')) {
+    const date = new Date(`${gmt.replace(' ', 'T')}Z`);
+    if (!Number.isNaN(date.getTime())) return date;
+  }
+  const published = elementText(xml, 'pubDate');
+  const date = published ? new Date(published) : undefined;
+  return date && !Number.isNaN(date.getTime()) ? date : undefined;
+}
+
+/**
+ * Posts and pages from a WordPress export, with their HTML turned into plain text
+ */
+export function parseWxr(xml: string): { records: ImportRecord[]; ignored: number } {
+  const records: ImportRecord[] = [];
+  let ignored = 0;
+  let position = 0;
+
+  for (const match of xml.matchAll(/<item\b[^>]*>([\s\S]*?)<\/item>/g)) {
+    position++;
+    const item = match[1]!;
+    const postType = elementText(item, 'wp:post_type') ?? 'post';
+    const status = elementText(item, 'wp:status') ?? 'publish';
+    const contentType = CONTENT_TYPES_BY_POST_TYPE[postType];
+    if (!contentType || IGNORED_STATUSES.includes(status)) {
+      ignored++;
+      continue;
+    }
+
+    const title = elementText(item, 'title') ?? '';
+    const content = htmlToText(elementText(item, 'content:encoded') ?? '');
+    const errors: string[] = [];
+    if (!title) errors.push('Title is empty');
+    if (!content) errors.push('Content is empty');
+
+    const author = elementText(item, 'dc:creator');
+    const postId = elementText(item, 'wp:post_id');
+    const itemCategories = categories(item);
+    records.push({
+      row: position,
+      title,
+      content,
+      contentType,
+      isDraft: DRAFT_STATUSES.includes(status),
+      createdAt: postDate(item),
+      sourceUrl: elementText(item, 'link') || undefined,
+      metadata: {
+        ...(postId && { externalId: postId }),
+        ...(author && { author }),
+        ...(itemCategories.length > 0 && { categories: itemCategories }),
+        wordpressStatus: status
+      },
+      outputs: [],
+      errors,
+      warnings: []
+    });
+  }
+
+  return { records, ignored };
+}
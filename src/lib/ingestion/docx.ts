@@ -0,0 +1,63 @@
+import { Errors } from '../error-handler';
+import { ExtractedDocument, SourceHeading } from './types';
+import { decodeEntities, normalizeWhitespace } from './text';
+import { readZipEntry } from './zip';
+
+function headingLevel(paragraphXml: string): number | undefined {
+  const style = /<w:pStyle\b[^>]*w:val="([^"]+)"/.exec(paragraphXml)?.[1];
+  if (style) {
+    if (/^title$/i.test(style)) return 1;
+    const level = /^heading\s*([1-6])$/i.exec(style)?.[1];
+    if (level) return Number(level);
+  }
+  const outline = /<w:outlineLvl\b[^>]*w:val="(\d)"/.exec(paragraphXml)?.[1];
+  return outline !== undefined && Number(outline) < 6 ? Number(outline) + 1 : undefined;
+}
+
+function paragraphText(paragraphXml: string): string {
+  let text = '';
+  for (const token of paragraphXml.matchAll(/<w:t(?:\s[^>]*)?>([\s\S]*?)<\/w:t>|<w:(tab|br|cr)\b[^>]*\/>/g)) {
+    if (token[1] !== undefined) text += decodeEntities(token[1]);
+    else text += token[2] === 'tab' ? '\t' : '\n';
+  }
+  return text;
+}
+
+function coreProperty(coreXml: string | undefined, tag: string): string | undefined {
+  if (!coreXml) return undefined;
+  const value = new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*?)<\\/${tag}>`).exec(coreXml)?.[1];
+  return value ? decodeEntities(value).trim() || undefined : undefined;
+}
+
+/**
+ * Extract paragraphs, headings and document properties from a Word (.docx) file
+ */
+export function extractDocx(data: Buffer): ExtractedDocument {
+  const documentXml = readZipEntry(data, 'word/document.xml')?.toString('utf8');
+  if (!documentXml) {
+    throw Errors.validation('File is not a Word document (word/document.xml is missing)');
+  }
+  const coreXml = readZipEntry(data, 'docProps/core.xml')?.toString('utf8');
+
+  const headings: SourceHeading[] = [];
+  const paragraphs: string[] = [];
+  for (const match of documentXml.matchAll(/<w:p\b[^>]*?(?:\/>|>([\s\S]*?)<\/w:p>)/g)) {
+    const xml = match[1] ?? '';
+    const text = paragraphText(xml).trim();
+    if (!text) continue;
+
+    const level = headingLevel(xml);
+    if (level) headings.push({ level, text });
+    const isListItem = xml.includes('<w:numPr');
+    paragraphs.push(isListItem ? `- ${text}` : text);
+  }
+
+  const title = coreProperty(coreXml, 'dc:title') ?? headings.find(heading => heading.level === 1)?.text;
+  const author = coreProperty(coreXml, 'dc:creator');
+  return {
+    text: normalizeWhitespace(paragraphs.join('\n\n')),
+    ...(title && { title }),
+    ...(author && { author }),
+    headings
+  };
+}
@@ -0,0 +1,132 @@
+import { ExtractedDocument, SourceHeading } from './types';
+import { decodeEntities, normalizeWhitespace } from './text';
+
+// Elements whose contents are never part of the article
+const DROPPED_ELEMENTS = ['script', 'style', 'noscript', 'template', 'svg', 'iframe', 'canvas', 'form', 'button', 'select'];
+// Page chrome, dropped when we fall back to the whole body
+const CHROME_ELEMENTS = ['nav', 'header', 'footer', 'aside'];
+
+const BLOCK_BREAK = /<\/?(p|div|section|article|main|blockquote|pre|table|thead|tbody|tr|ul|ol|dl|dt|dd|figure|figcaption|hr)\b[^>]*>/gi;
+
+const stripTags = (html: string) => decodeEntities(html.replace(/<[^>]+>/g, ' ')).replace(/\s+/g, ' ').trim();
+
+function removeElements(html: string, tags: string[]): string {
+  let result = html;
+  for (const tag of tags) {
+    // Repeat until stable so nested elements of the same kind are removed too
+    const pattern = new RegExp(`<${tag}\\b[^>]*>[\\s\\S]*?<\\/${tag}\\s*>`, 'gi');
+    let previous;
+    do {
+      previous = result;
+      result = result.replace(pattern, ' ');
+    } while (result !== previous);
+    result = result.replace(new RegExp(`<${tag}\\b[^>]*\\/?>`, 'gi'), ' ');
+  }
+  return result;
+}
+
+/**
+ * Inner HTML of the first element with this tag, matched to its own closing tag
+ */
+function innerHtmlOf(html: string, tag: string): string | undefined {
+  const open = new RegExp(`<${tag}\\b[^>]*>`, 'i').exec(html);
+  if (!open) return undefined;
+
+  const tokens = new RegExp(`<(\\/?)${tag}\\b[^>]*>`, 'gi');
+  tokens.lastIndex = open.index + open[0].length;
+  let depth = 1;
+  let token;
+  while ((token = tokens.exec(html))) {
+    depth += token[1] ? -1 : 1;
+    if (depth === 0) {
+      return html.slice(open.index + open[0].length, token.index);
+    }
+  }
+  return html.slice(open.index + open[0].length);
+}
+
+function metaContent(html: string, key: string): string | undefined {
+  for (const match of html.matchAll(/<meta\b[^>]*>/gi)) {
+    const tag = match[0];
+    const name = /\b(?:name|property|itemprop)\s*=\s*["']([^"']+)["']/i.exec(tag)?.[1];
+    if (name?.toLowerCase() !== key) continue;
+    const content = /\bcontent\s*=\s*(["'])([\s\S]*?)\1/i.exec(tag)?.[2];
+    if (content?.trim()) return decodeEntities(content).trim();
+  }
+  return undefined;
+}
+
+function jsonLdAuthor(html: string): string | undefined {
+  for (const match of html.matchAll(/<script\b[^>]*type\s*=\s*["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi)) {
+    try {
+      const data = JSON.parse(match[1] ?? '');
+      const nodes = Array.isArray(data) ? data : data['@graph'] ?? [data];
+      for (const node of nodes) {
+        const author = Array.isArray(node?.author) ? node.author[0] : node?.author;
+        const name = typeof author === 'string' ? author : author?.name;
+        if (typeof name === 'string' && name.trim()) return name.trim();
+      }
+    } catch {
+      // Malformed structured data is common; fall through to the other sources
+    }
+  }
+  return undefined;
+}
+
+function extractHeadings(html: string): SourceHeading[] {
+  const headings: SourceHeading[] = [];
+  for (const match of html.matchAll(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1\s*>/gi)) {
+    const text = stripTags(match[2] ?? '');
+    if (text) headings.push({ level: Number(match[1]), text });
+  }
+  return headings;
+}
+
+/**
+ * Convert an HTML fragment to plain text, keeping paragraph, heading and list structure as line breaks
+ */
+export function htmlToText(html: string): string {
+  const text = html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<h[1-6]\b[^>]*>/gi, '\n\n')
+    .replace(/<\/h[1-6]\s*>/gi, '\n\n')
+    .replace(/<li\b[^>]*>/gi, '\n- ')
+    .replace(/<\/li\s*>/gi, '\n')
+    .replace(/<\/?(td|th)\b[^>]*>/gi, ' ')
+    .replace(BLOCK_BREAK, '\n\n')
+    .replace(/<[^>]+>/g, '');
+
+  // Keep list items on consecutive lines
+  return normalizeWhitespace(decodeEntities(text)).replace(/^(- .*)\n\n(?=- )/gm, '$1\n');
+}
+
+/**
+ * Pull the readable article out of an HTML page: prefers <article>, then <main>, then the body
+ * without navigation, headers, footers and sidebars
+ */
+export function extractHtml(html: string): ExtractedDocument {
+  const withoutComments = html.replace(/<!--[\s\S]*?-->/g, ' ');
+  const author = metaContent(withoutComments, 'author')
+    ?? metaContent(withoutComments, 'article:author')
+    ?? jsonLdAuthor(withoutComments);
+  const cleaned = removeElements(withoutComments, DROPPED_ELEMENTS);
+
+  const body = innerHtmlOf(cleaned, 'article')
+    ?? innerHtmlOf(cleaned, 'main')
+    ?? removeElements(innerHtmlOf(cleaned, 'body') ?? cleaned, CHROME_ELEMENTS);
+
+  const headings = extractHeadings(body);
+  const pageTitle = /<title\b[^>]*>([\s\S]*?)<\/title\s*>/i.exec(cleaned)?.[1];
+  const title = metaContent(withoutComments, 'og:title')
+    ?? headings.find(heading => heading.level === 1)?.text
+    ?? (pageTitle ? stripTags(pageTitle) : undefined);
+
+  const text = htmlToText(body);
+  return {
+    text,
+    ...(title && { title }),
+    ...(author && { author }),
+    headings,
+    ...(!text && { warnings: ['No readable text was found in this page'] })
+  };
+}
@@ -0,0 +1,353 @@
+import { isIP } from 'net';
+import { lookup } from 'dns/promises';
+import { request as httpRequest, IncomingHttpHeaders } from 'http';
+import { request as httpsRequest } from 'https';
+import { Readable } from 'stream';
+import { z } from 'zod';
+import type { SubscriptionPlan } from '../subscription';
+import { PLAN_CONTENT_LIMITS } from '../subscription';
+import { Errors } from '../error-handler';
+import { ExtractedDocument, IngestedSource, SOURCE_FORMATS, SourceFetcher, SourceFile, SourceFormat, SourceResolver } from './types';
+import { countWords } from './text';
+import { extractHtml } from './html';
+import { extractMarkdown } from './markdown';
+import { extractSubtitles } from './subtitles';
+import { extractDocx } from './docx';
+import { extractPdf } from './pdf';
+
+export * from './types';
+export { htmlToText } from './html';
+
+// Where imported content came from, sent back with a repurpose request and stored on the Content row
+export const contentSourceSchema = z.object({
+  format: z.enum(SOURCE_FORMATS),
+  sourceUrl: z.string().url().max(2048).optional(),
+  fileName: z.string().max(255).optional(),
+  author: z.string().max(200).optional(),
+  headings: z.array(z.object({
+    level: z.number().int().min(1).max(6),
+    text: z.string().max(300)
+  })).max(200).optional()
+});
+
+export type ContentSource = z.infer<typeof contentSourceSchema>;
+
+const URL_FETCH_TIMEOUT_MS = 10000;
+const MAX_REDIRECTS = 3;
+
+const EXTENSION_FORMATS: Record<string, SourceFormat> = {
+  pdf: 'pdf',
+  docx: 'docx',
+  md: 'markdown',
+  markdown: 'markdown',
+  html: 'html',
+  htm: 'html',
+  srt: 'srt',
+  vtt: 'vtt',
+  txt: 'text'
+};
+
+const MIME_FORMATS: Record<string, SourceFormat> = {
+  'application/pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'text/markdown': 'markdown',
+  'text/x-markdown': 'markdown',
+  'text/html': 'html',
+  'application/xhtml+xml': 'html',
+  'application/x-subrip': 'srt',
+  'text/vtt': 'vtt',
+  'text/plain': 'text'
+};
+
+// Content type the repurposing form should preselect for each kind of source
+const SUGGESTED_CONTENT_TYPES: Record<SourceFormat, IngestedSource['contentType']> = {
+  pdf: 'general',
+  docx: 'general',
+  markdown: 'blog',
+  html: 'article',
+  srt: 'video_transcript',
+  vtt: 'video_transcript',
+  text: 'general'
+};
+
+/**
+ * Work out a file's format from its leading bytes, then its extension, then the declared MIME type.
+ * Browsers report inconsistent MIME types for subtitles and Markdown, so those rank last.
+ */
+export function detectFormat(file: SourceFile): SourceFormat | undefined {
+  const head = file.data.subarray(0, 512).toString('latin1');
+  if (head.startsWith('%PDF-')) return 'pdf';
+  if (head.startsWith('WEBVTT')) return 'vtt';
+
+  const extension = file.fileName?.toLowerCase().match(/\.([a-z0-9]+)$/)?.[1];
+  if (extension && EXTENSION_FORMATS[extension]) return EXTENSION_FORMATS[extension];
+
+  // Any other ZIP could be a docx uploaded without its extension
+  if (head.startsWith('PK\x03\x04')) return 'docx';
+
+  const mimeType = file.mimeType?.split(';')[0]?.trim().toLowerCase();
+  if (mimeType && MIME_FORMATS[mimeType]) return MIME_FORMATS[mimeType];
+
+  if (/^\s*(<!doctype html|<html)/i.test(head)) return 'html';
+  if (/^\s*1\s*\r?\n\d{1,2}:\d{2}:\d{2},\d{3}\s*-->/.test(head)) return 'srt';
+  return undefined;
+}
+
+function extract(format: SourceFormat, data: Buffer): ExtractedDocument {
+  switch (format) {
+    case 'pdf':
+      return extractPdf(data);
+    case 'docx':
+      return extractDocx(data);
+    case 'markdown':
+      return extractMarkdown(data.toString('utf8'));
+    case 'html':
+      return extractHtml(data.toString('utf8'));
+    case 'srt':
+    case 'vtt':
+      return extractSubtitles(data.toString('utf8'));
+    case 'text':
+      return { text: data.toString('utf8').replace(/^﻿/, '').replace(/\r\n?/g, '\n').trim(), headings: [] };
+  }
+}
+
+function formatBytes(bytes: number): string {
+  return bytes >= 1024 * 1024 ? `${Math.round(bytes / (1024 * 1024))}MB` : `${Math.round(bytes / 1024)}KB`;
+}
+
+function checkUploadSize(bytes: number, plan: SubscriptionPlan) {
+  const limit = PLAN_CONTENT_LIMITS[plan].uploadBytes;
+  if (bytes > limit) {
+    throw Errors.payloadTooLarge(
+      `Source is ${formatBytes(bytes)}; the ${plan} plan accepts files up to ${formatBytes(limit)}`,
+      { bytes, limit, plan }
+    );
+  }
+}
+
+function finish(
+  document: ExtractedDocument,
+  format: SourceFormat,
+  plan: SubscriptionPlan,
+  origin: { fileName?: string; sourceUrl?: string }
+): IngestedSource {
+  if (!document.text) {
+    throw Errors.validation(document.warnings?.[0] || 'No text could be extracted from this source');
+  }
+
+  // Same ceiling the plan's repurpose schema enforces on pasted content
+  const limit = PLAN_CONTENT_LIMITS[plan].contentChars;
+  if (document.text.length > limit) {
+    throw Errors.payloadTooLarge(
+      `Extracted text is ${document.text.length} characters; the ${plan} plan accepts up to ${limit}`,
+      { characters: document.text.length, limit, plan }
+    );
+  }
+
+  const titleLimit = PLAN_CONTENT_LIMITS[plan].titleChars;
+  const title = document.title && document.title.length > titleLimit
+    ? `${document.title.slice(0, titleLimit - 1).trimEnd()}…`
+    : document.title;
+
+  return {
+    ...document,
+    title,
+    format,
+    contentType: SUGGESTED_CONTENT_TYPES[format],
+    ...origin,
+    characterCount: document.text.length,
+    wordCount: countWords(document.text),
+    warnings: document.warnings ?? []
+  };
+}
+
+/**
+ * Turn an uploaded or locally supplied file into repurposable text
+ */
+export function ingestFile(file: SourceFile, options: { plan: SubscriptionPlan }): IngestedSource {
+  checkUploadSize(file.data.length, options.plan);
+
+  const format = detectFormat(file);
+  if (!format) {
+    throw Errors.validation('Unsupported file type. Upload a PDF, DOCX, Markdown, HTML, SRT, VTT or text file.');
+  }
+
+  return finish(extract(format, file.data), format, options.plan, { fileName: file.fileName });
+}
+
+function isPrivateHost(hostname: string): boolean {
+  const host = hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.local') || host.endsWith('.internal')) return true;
+
+  const version = isIP(host);
+  if (version === 4) {
+    const [a, b = 0] = host.split('.').map(Number);
+    return a === 10 || a === 127 || a === 0 || (a === 169 && b === 254) || (a === 172 && b >= 16 && b <= 31) || (a === 192 && b === 168) || (a === 100 && b >= 64 && b <= 127);
+  }
+  if (version === 6) {
+    return host === '::1' || host === '::' || /^f[cd]/.test(host) || /^fe[89ab]/.test(host) || host.startsWith('::ffff:');
+  }
+  return false;
+}
+
+/**
+ * Read a response body, stopping as soon as it passes the byte limit
+ */
+async function readCapped(response: Response, limit: number, plan: SubscriptionPlan): Promise<Buffer> {
+  const declared = Number(response.headers.get('content-length'));
+  if (declared) checkUploadSize(declared, plan);
+
+  if (!response.body) return Buffer.from(await response.arrayBuffer());
+
+  const reader = response.body.getReader();
+  const chunks: Buffer[] = [];
+  let total = 0;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.byteLength;
+    if (total > limit) {
+      await reader.cancel();
+      checkUploadSize(total, plan);
+    }
+    chunks.push(Buffer.from(value));
+  }
+  return Buffer.concat(chunks);
+}
+
+function parseSourceUrl(url: string, base?: string): URL {
+  let parsed: URL;
+  try {
+    parsed = new URL(url, base);
+  } catch {
+    throw Errors.validation('Enter a valid URL');
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw Errors.validation('Only http and https URLs can be imported');
+  }
+  if (isPrivateHost(parsed.hostname)) {
+    throw Errors.validation('URLs pointing at private or local addresses cannot be imported');
+  }
+  return parsed;
+}
+
+const resolveHost: SourceResolver = (hostname) => lookup(hostname, { all: true, verbatim: true });
+
+/**
+ * Resolve the host and return the address to connect to. Every address it resolves to must be
+ * public, so a name that also points at an internal service is refused outright.
+ */
+async function resolvePublicAddress(target: URL, resolver: SourceResolver): Promise<string> {
+  const host = target.hostname.replace(/^\[|\]$/g, '');
+  if (isIP(host)) return host;
+
+  let addresses: { address: string }[];
+  try {
+    addresses = await resolver(host);
+  } catch {
+    addresses = [];
+  }
+  if (addresses.length === 0) {
+    throw Errors.externalApi(`Could not fetch ${target.hostname}: the host could not be resolved`, { url: target.toString() });
+  }
+  if (addresses.some(({ address }) => isPrivateHost(address))) {
+    throw Errors.validation('URLs pointing at private or local addresses cannot be imported');
+  }
+  return addresses[0]!.address;
+}
+
+function toHeaders(raw: IncomingHttpHeaders): Headers {
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(raw)) {
+    for (const item of Array.isArray(value) ? value : value === undefined ? [] : [value]) {
+      headers.append(name, item);
+    }
+  }
+  return headers;
+}
+
+/**
+ * Default fetcher. The connection goes to the address that passed the check, so DNS can't answer
+ * differently between the check and the request; the hostname is still used for Host and TLS.
+ */
+const fetchFromAddress: SourceFetcher = (url, { signal, headers, address }) => new Promise((resolve, reject) => {
+  const target = new URL(url);
+  const family = isIP(address);
+  const request = (target.protocol === 'https:' ? httpsRequest : httpRequest)(target, {
+    headers,
+    signal,
+    lookup: (_hostname, options, callback) => {
+      if (options.all) {
+        callback(null, [{ address, family }]);
+      } else {
+        callback(null, address, family);
+      }
+    }
+  }, (response) => {
+    const status = response.statusCode ?? 502;
+    const hasBody = status !== 204 && status !== 205 && status !== 304;
+    if (!hasBody) response.resume();
+    const body = hasBody ? Readable.toWeb(response) as unknown as ReadableStream<Uint8Array> : null;
+    resolve(new Response(body, { status, headers: toHeaders(response.headers) }));
+  });
+  request.on('error', reject);
+  request.end();
+});
+
+/**
+ * Fetch an article page and extract its text. Only public http(s) URLs are allowed so the
+ * server can't be pointed at internal services. Pass a fetcher and resolver to supply pages
+ * without network access.
+ */
+export async function ingestUrl(
+  url: string,
+  options: { plan: SubscriptionPlan; fetcher?: SourceFetcher; resolver?: SourceResolver }
+): Promise<IngestedSource> {
+  let target = parseSourceUrl(url);
+  const fetcher = options.fetcher ?? fetchFromAddress;
+  const resolver = options.resolver ?? resolveHost;
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), URL_FETCH_TIMEOUT_MS);
+
+  try {
+    let response: Response | undefined;
+    // Redirects are followed by hand so every hop goes through the private address check
+    for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+      const address = await resolvePublicAddress(target, resolver);
+      try {
+        response = await fetcher(target.toString(), {
+          signal: controller.signal,
+          redirect: 'manual',
+          headers: { Accept: 'text/html,application/xhtml+xml;q=0.9,text/plain;q=0.5' },
+          address
+        });
+      } catch (error) {
+        const reason = controller.signal.aborted ? 'the request timed out' : (error as Error).message;
+        throw Errors.externalApi(`Could not fetch ${target.hostname}: ${reason}`, { url: target.toString() });
+      }
+
+      const location = response.headers.get('location');
+      if (response.status < 300 || response.status >= 400 || !location) break;
+      if (hop === MAX_REDIRECTS) {
+        throw Errors.externalApi(`Could not fetch ${target.hostname}: too many redirects`, { url: target.toString() });
+      }
+      target = parseSourceUrl(location, target.toString());
+    }
+
+    if (!response?.ok) {
+      throw Errors.externalApi(`Could not fetch ${target.hostname}: server responded with ${response?.status}`, {
+        url: target.toString(),
+        status: response?.status
+      });
+    }
+
+    const data = await readCapped(response, PLAN_CONTENT_LIMITS[options.plan].uploadBytes, options.plan);
+    const mimeType = response.headers.get('content-type') ?? undefined;
+    // Direct links to PDFs, documents and caption files work the same as uploading them
+    const format = detectFormat({ data, mimeType, fileName: target.pathname.split('/').pop() }) ?? 'html';
+    const ingested = finish(extract(format, data), format, options.plan, { sourceUrl: target.toString() });
+    return format === 'html' || format === 'text' ? { ...ingested, contentType: 'article' } : ingested;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
@@ -0,0 +1,84 @@
+import { ExtractedDocument, SourceHeading } from './types';
+import { decodeEntities, normalizeWhitespace } from './text';
+
+function parseFrontMatter(source: string): { fields: Record<string, string>; body: string } {
+  const match = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/.exec(source);
+  if (!match) return { fields: {}, body: source };
+
+  const fields: Record<string, string> = {};
+  for (const line of (match[1] ?? '').split(/\r?\n/)) {
+    const [, key, value = ''] = /^([A-Za-z_][\w-]*)\s*:\s*(.*)$/.exec(line) ?? [];
+    if (key && value.trim()) {
+      fields[key.toLowerCase()] = value.trim().replace(/^(["'])(.*)\1$/, '$2');
+    }
+  }
+  return { fields, body: source.slice(match[0].length) };
+}
+
+const stripInline = (line: string) => line
+  .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1') // Images keep their alt text
+  .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1') // Links keep their label
+  .replace(/\[([^\]]+)\]\[[^\]]*\]/g, '$1')
+  .replace(/<[^>]+>/g, '')
+  .replace(/(\*\*|__)(.+?)\1/g, '$2')
+  .replace(/(^|[^\w*])[*_](?!\s)(.+?)(?<!\s)[*_](?=[^\w*]|$)/g, '$1$2')
+  .replace(/~~(.+?)~~/g, '$1')
+  .replace(/`([^`]+)`/g, '$1');
+
+/**
+ * Markdown to plain text. Title and author come from front matter, falling back to the first H1.
+ */
+export function extractMarkdown(source: string): ExtractedDocument {
+  const { fields, body } = parseFrontMatter(source.replace(/^﻿/, ''));
+  const headings: SourceHeading[] = [];
+  const lines: string[] = [];
+  let inFence = false;
+
+  for (const rawLine of body.split(/\r?\n/)) {
+    if (/^\s*(```|~~~)/.test(rawLine)) {
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence) {
+      lines.push(rawLine);
+      continue;
+    }
+
+    const heading = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/.exec(rawLine);
+    if (heading) {
+      const [, marker = '#', content = ''] = heading;
+      const text = decodeEntities(stripInline(content));
+      headings.push({ level: marker.length, text });
+      lines.push('', text, '');
+      continue;
+    }
+
+    // Setext headings underline the previous line
+    if (/^\s*(=+|-+)\s*$/.test(rawLine) && lines[lines.length - 1]?.trim()) {
+      const text = lines.pop()!.trim();
+      headings.push({ level: rawLine.includes('=') ? 1 : 2, text });
+      lines.push('', text, '');
+      continue;
+    }
+
+    if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(rawLine)) {
+      lines.push('');
+      continue;
+    }
+
+    const line = rawLine
+      .replace(/^\s{0,3}>\s?/, '')
+      .replace(/^(\s*)[*+]\s+/, '$1- ')
+      .replace(/^\s*\[[ xX]\]\s+/, '');
+    lines.push(decodeEntities(stripInline(line)));
+  }
+
+  const title = fields.title ?? headings.find(heading => heading.level === 1)?.text;
+  const author = fields.author ?? fields.authors;
+  return {
+    text: normalizeWhitespace(lines.join('\n')),
+    ...(title && { title }),
+    ...(author && { author }),
+    headings
+  };
+}
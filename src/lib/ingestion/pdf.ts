@@ -0,0 +1,248 @@
+import { inflateSync } from 'zlib';
+import { Errors } from '../error-handler';
+import { ExtractedDocument } from './types';
+import { normalizeWhitespace } from './text';
+
+// TJ kerning offsets wider than this (thousandths of an em) are treated as word gaps
+const TJ_SPACE_THRESHOLD = 200;
+const MAX_STREAM_BYTES = 50 * 1024 * 1024;
+
+type Operand = string | number | Operand[] | { name: string };
+
+/**
+ * Read a PDF literal string starting just after its opening parenthesis
+ */
+function readLiteralString(source: string, start: number): { value: string; end: number } {
+  let value = '';
+  let depth = 1;
+  let i = start;
+  while (i < source.length) {
+    const char = source[i];
+    if (char === '\\') {
+      const next = source[i + 1] ?? '';
+      const escapes: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f', '(': '(', ')': ')', '\\': '\\' };
+      if (next in escapes) {
+        value += escapes[next];
+        i += 2;
+      } else if (/[0-7]/.test(next)) {
+        const octal = /^[0-7]{1,3}/.exec(source.slice(i + 1, i + 4))?.[0] ?? next;
+        value += String.fromCharCode(parseInt(octal, 8));
+        i += 1 + octal.length;
+      } else if (next === '\r' || next === '\n') {
+        // Line continuation
+        i += next === '\r' && source[i + 2] === '\n' ? 3 : 2;
+      } else {
+        i += 1;
+      }
+      continue;
+    }
+    if (char === '(') depth++;
+    if (char === ')' && --depth === 0) return { value, end: i + 1 };
+    value += char;
+    i++;
+  }
+  return { value, end: i };
+}
+
+function readHexString(source: string, start: number): { value: string; end: number } {
+  const close = source.indexOf('>', start);
+  const end = close === -1 ? source.length : close;
+  let hex = source.slice(start, end).replace(/[^0-9a-f]/gi, '');
+  if (hex.length % 2) hex += '0';
+  let value = '';
+  for (let i = 0; i < hex.length; i += 2) value += String.fromCharCode(parseInt(hex.slice(i, i + 2), 16));
+  return { value, end: end + 1 };
+}
+
+/**
+ * PDF text strings are either PDFDocEncoding (close enough to Latin-1) or UTF-16BE with a BOM
+ */
+function decodeTextString(raw: string): string {
+  if (raw.charCodeAt(0) === 0xfe && raw.charCodeAt(1) === 0xff) {
+    let value = '';
+    for (let i = 2; i + 1 < raw.length; i += 2) value += String.fromCharCode((raw.charCodeAt(i) << 8) | raw.charCodeAt(i + 1));
+    return value;
+  }
+  return raw;
+}
+
+/**
+ * Walk a content stream and collect the text shown between BT and ET operators
+ */
+function extractContentText(content: string): string {
+  let output = '';
+  let operands: Operand[] = [];
+  const arrays: Operand[][] = [];
+  let inText = false;
+  let i = 0;
+
+  const push = (operand: Operand) => (arrays[arrays.length - 1] ?? operands).push(operand);
+  const newline = () => {
+    if (output && !output.endsWith('\n')) output += '\n';
+  };
+  const show = (text: Operand | undefined) => {
+    if (typeof text === 'string') output += decodeTextString(text);
+  };
+
+  while (i < content.length) {
+    const char = content[i]!;
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '%') {
+      const lineEnd = content.slice(i).search(/[\r\n]/);
+      i = lineEnd === -1 ? content.length : i + lineEnd;
+    } else if (char === '(') {
+      const literal = readLiteralString(content, i + 1);
+      push(literal.value);
+      i = literal.end;
+    } else if (char === '<' && content[i + 1] === '<') {
+      // Inline dictionaries (marked content properties) carry no visible text
+      const close = content.indexOf('>>', i + 2);
+      i = close === -1 ? content.length : close + 2;
+    } else if (char === '<') {
+      const hex = readHexString(content, i + 1);
+      push(hex.value);
+      i = hex.end;
+    } else if (char === '[') {
+      arrays.push([]);
+      i++;
+    } else if (char === ']') {
+      const array = arrays.pop();
+      if (array) push(array);
+      i++;
+    } else if (char === '/') {
+      const name = /^\/[^\s/[\]()<>{}%]*/.exec(content.slice(i, i + 128))?.[0] ?? '/';
+      push({ name: name.slice(1) });
+      i += name.length;
+    } else {
+      const word = /^[^\s/[\]()<>{}%]+/.exec(content.slice(i, i + 64))?.[0] ?? char;
+      i += word.length;
+
+      if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(word)) {
+        push(Number(word));
+        continue;
+      }
+
+      // Inline image data is binary and can contain anything, skip to its end marker
+      if (word === 'ID') {
+        const end = content.indexOf('EI', i);
+        i = end === -1 ? content.length : end + 2;
+        operands = [];
+        continue;
+      }
+
+      switch (word) {
+        case 'BT':
+          inText = true;
+          break;
+        case 'ET':
+          inText = false;
+          newline();
+          break;
+        case 'Tj':
+        case "'":
+          if (inText) {
+            if (word === "'") newline();
+            show(operands[operands.length - 1]);
+          }
+          break;
+        case '"':
+          if (inText) {
+            newline();
+            show(operands[2]);
+          }
+          break;
+        case 'TJ':
+          if (inText && Array.isArray(operands[0])) {
+            for (const part of operands[0]) {
+              if (typeof part === 'number') {
+                if (part < -TJ_SPACE_THRESHOLD && !output.endsWith(' ')) output += ' ';
+              } else {
+                show(part);
+              }
+            }
+          }
+          break;
+        case 'Td':
+        case 'TD':
+          if (inText) {
+            const ty = operands[1];
+            if (typeof ty === 'number' && ty !== 0) newline();
+            else if (output && !/\s$/.test(output)) output += ' ';
+          }
+          break;
+        case 'T*':
+        case 'Tm':
+          if (inText) newline();
+          break;
+      }
+      operands = [];
+    }
+  }
+  return output;
+}
+
+function infoString(pdf: string, key: string): string | undefined {
+  const match = new RegExp(`/${key}\\s*([(<])`).exec(pdf);
+  if (!match) return undefined;
+  const start = match.index + match[0].length;
+  const raw = match[1] === '(' ? readLiteralString(pdf, start).value : readHexString(pdf, start).value;
+  const value = decodeTextString(raw).replace(/\0/g, '').trim();
+  return value || undefined;
+}
+
+/**
+ * Extract text from a PDF by decoding its content streams. Handles the uncompressed and
+ * FlateDecode streams that text-based PDFs use; scanned documents have no text layer and
+ * come back empty with a warning.
+ */
+export function extractPdf(data: Buffer): ExtractedDocument {
+  const pdf = data.toString('latin1');
+  if (!pdf.startsWith('%PDF-')) {
+    throw Errors.validation('File is not a PDF document');
+  }
+  if (/\/Encrypt\b/.test(pdf)) {
+    throw Errors.validation('Encrypted PDFs are not supported. Remove the password and try again.');
+  }
+
+  const pages: string[] = [];
+  const streamPattern = /stream\r?\n/g;
+  let match;
+  while ((match = streamPattern.exec(pdf))) {
+    const dictStart = pdf.lastIndexOf('obj', match.index);
+    const dictionary = pdf.slice(dictStart, match.index);
+    const start = match.index + match[0].length;
+    const end = pdf.indexOf('endstream', start);
+    if (end === -1) break;
+    streamPattern.lastIndex = end + 'endstream'.length;
+
+    // Only page content streams carry text; fonts, images and cross-reference data do not
+    if (/\/(Subtype\s*\/Image|Type\s*\/(XRef|ObjStm|Metadata)|Length[123])\b/.test(dictionary)) continue;
+    const filter = /\/Filter\s*(\[[^\]]*\]|\/\w+)/.exec(dictionary)?.[1];
+    if (filter && filter.replace(/[[\]\s]/g, '') !== '/FlateDecode') continue;
+
+    const raw = data.subarray(start, end);
+    let content: string;
+    try {
+      content = filter
+        ? inflateSync(raw, { maxOutputLength: MAX_STREAM_BYTES }).toString('latin1')
+        : raw.toString('latin1');
+    } catch {
+      continue;
+    }
+    const text = extractContentText(content).trim();
+    if (text) pages.push(text);
+  }
+
+  const text = normalizeWhitespace(pages.join('\n\n'));
+  const title = infoString(pdf, 'Title');
+  const author = infoString(pdf, 'Author');
+  return {
+    text,
+    ...(title && { title }),
+    ...(author && { author }),
+    headings: [],
+    ...(!text && { warnings: ['No text layer was found in this PDF. Scanned documents need to be run through OCR first.'] })
+  };
+}
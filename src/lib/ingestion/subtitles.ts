@@ -0,0 +1,77 @@
+import { ExtractedDocument } from './types';
+import { decodeEntities, normalizeWhitespace } from './text';
+
+// A pause this long between cues starts a new paragraph
+const PARAGRAPH_GAP_MS = 2000;
+
+const TIMING = /^((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})\s*-->\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})/;
+
+interface Cue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+function toMs(timestamp: string): number {
+  const [clock = '', fraction = '0'] = timestamp.split(/[.,]/);
+  const parts = clock.split(':').map(Number);
+  const seconds = parts.reduce((total, part) => total * 60 + part, 0);
+  return seconds * 1000 + Number(fraction.padEnd(3, '0').slice(0, 3));
+}
+
+function cleanCueText(lines: string[]): string {
+  return lines
+    .map(line => line
+      .replace(/<v(?:\.[^\s>]+)?\s+([^>]+)>/gi, '$1: ') // WebVTT voice spans name the speaker
+      .replace(/<[^>]+>/g, '')
+      .replace(/\{\\[^}]*\}/g, '') // SSA positioning tags left in some SRT files
+      .trim())
+    .filter(Boolean)
+    .join(' ');
+}
+
+function parseCues(source: string): Cue[] {
+  const cues: Cue[] = [];
+  const blocks = source.replace(/^﻿/, '').replace(/\r\n?/g, '\n').split(/\n\s*\n/);
+
+  for (const block of blocks) {
+    const lines = block.split('\n').filter(line => line.trim() !== '');
+    const timingIndex = lines.findIndex(line => TIMING.test(line.trim()));
+    if (timingIndex === -1) continue; // Headers, NOTE, STYLE and REGION blocks
+
+    const [, start = '', end = ''] = TIMING.exec(lines[timingIndex]!.trim())!;
+    const text = decodeEntities(cleanCueText(lines.slice(timingIndex + 1)));
+    if (text) cues.push({ start: toMs(start), end: toMs(end), text });
+  }
+  return cues;
+}
+
+/**
+ * Turn SRT or WebVTT captions into transcript paragraphs. Timings and cue numbers are dropped,
+ * consecutive duplicate lines (common in auto-generated captions) are merged, and longer
+ * pauses start new paragraphs.
+ */
+export function extractSubtitles(source: string): ExtractedDocument {
+  const cues = parseCues(source);
+  const paragraphs: string[][] = [];
+  let previous: Cue | undefined;
+
+  for (const cue of cues) {
+    if (previous && cue.text === previous.text) {
+      previous = cue;
+      continue;
+    }
+    if (!previous || cue.start - previous.end >= PARAGRAPH_GAP_MS) {
+      paragraphs.push([]);
+    }
+    paragraphs[paragraphs.length - 1]!.push(cue.text);
+    previous = cue;
+  }
+
+  const text = normalizeWhitespace(paragraphs.map(paragraph => paragraph.join(' ')).join('\n\n'));
+  return {
+    text,
+    headings: [],
+    ...(cues.length === 0 && { warnings: ['No caption cues were found in this file'] })
+  };
+}
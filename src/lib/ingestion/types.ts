@@ -0,0 +1,45 @@
+// Source formats the ingestion pipeline can turn into plain text
+export const SOURCE_FORMATS = ['pdf', 'docx', 'markdown', 'html', 'srt', 'vtt', 'text'] as const;
+export type SourceFormat = typeof SOURCE_FORMATS[number];
+
+export interface SourceHeading {
+  level: number; // 1-6
+  text: string;
+}
+
+// What a format extractor pulls out of a document
+export interface ExtractedDocument {
+  text: string;
+  title?: string;
+  author?: string;
+  headings: SourceHeading[];
+  warnings?: string[];
+}
+
+// Result of ingesting an upload or URL, ready to become Content.originalContent
+export interface IngestedSource extends ExtractedDocument {
+  format: SourceFormat;
+  contentType: 'blog' | 'article' | 'video_transcript' | 'general'; // Suggested Content.contentType
+  fileName?: string;
+  sourceUrl?: string;
+  characterCount: number;
+  wordCount: number;
+  warnings: string[];
+}
+
+// An uploaded or locally supplied file
+export interface SourceFile {
+  data: Buffer;
+  fileName?: string;
+  mimeType?: string;
+}
+
+// Lets tests and callers supply pages without live network access. address is the IP that passed
+// the private address check; the default fetcher connects to it instead of resolving the host again.
+export type SourceFetcher = (
+  url: string,
+  init: { signal: AbortSignal; redirect: 'manual'; headers: Record<string, string>; address: string }
+) => Promise<Response>;
+
+// Resolves a hostname to every address it has; defaults to dns.lookup
+export type SourceResolver = (hostname: string) => Promise<{ address: string; family: number }[]>;
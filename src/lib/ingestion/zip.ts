@@ -0,0 +1,85 @@
+import { inflateRawSync } from 'zlib';
+import { Errors } from '../error-handler';
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+// Upper bound on a single decompressed entry, guards against zip bombs
+const MAX_ENTRY_BYTES = 50 * 1024 * 1024;
+
+export interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+}
+
+function findEndOfCentralDirectory(data: Buffer): number {
+  // The record is 22 bytes plus an optional comment of up to 64KB at the end of the archive
+  const lowest = Math.max(0, data.length - 22 - 0xffff);
+  for (let offset = data.length - 22; offset >= lowest; offset--) {
+    if (data.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) return offset;
+  }
+  throw Errors.validation('File is not a valid ZIP archive');
+}
+
+/**
+ * List the entries of a ZIP archive from its central directory
+ */
+export function listZipEntries(data: Buffer): ZipEntry[] {
+  if (data.length < 22) throw Errors.validation('File is not a valid ZIP archive');
+
+  const eocd = findEndOfCentralDirectory(data);
+  const count = data.readUInt16LE(eocd + 10);
+  let offset = data.readUInt32LE(eocd + 16);
+  const entries: ZipEntry[] = [];
+
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > data.length || data.readUInt32LE(offset) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw Errors.validation('ZIP central directory is corrupt');
+    }
+    const nameLength = data.readUInt16LE(offset + 28);
+    const extraLength = data.readUInt16LE(offset + 30);
+    const commentLength = data.readUInt16LE(offset + 32);
+    entries.push({
+      method: data.readUInt16LE(offset + 10),
+      compressedSize: data.readUInt32LE(offset + 20),
+      uncompressedSize: data.readUInt32LE(offset + 24),
+      localHeaderOffset: data.readUInt32LE(offset + 42),
+      name: data.toString('utf8', offset + 46, offset + 46 + nameLength)
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+/**
+ * Read one file out of a ZIP archive. Supports stored and deflated entries, which is all
+ * Office documents use. Returns undefined when the entry does not exist.
+ */
+export function readZipEntry(data: Buffer, name: string): Buffer | undefined {
+  const entry = listZipEntries(data).find(candidate => candidate.name === name);
+  if (!entry) return undefined;
+
+  if (entry.uncompressedSize > MAX_ENTRY_BYTES) {
+    throw Errors.payloadTooLarge(`Archive entry ${name} is too large to extract`);
+  }
+
+  const header = entry.localHeaderOffset;
+  if (header + 30 > data.length || data.readUInt32LE(header) !== LOCAL_FILE_HEADER) {
+    throw Errors.validation('ZIP entry header is corrupt');
+  }
+  const start = header + 30 + data.readUInt16LE(header + 26) + data.readUInt16LE(header + 28);
+  const compressed = data.subarray(start, start + entry.compressedSize);
+
+  switch (entry.method) {
+    case 0:
+      return compressed;
+    case 8:
+      return inflateRawSync(compressed, { maxOutputLength: MAX_ENTRY_BYTES });
+    default:
+      throw Errors.validation(`Unsupported ZIP compression method ${entry.method}`);
+  }
+}
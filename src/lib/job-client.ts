@@ -0,0 +1,61 @@
+import type { JobProgress, JobStatus } from '@/lib/job-queue';
+
+// Shape returned by /api/jobs and /api/jobs/[id]
+export interface JobSummary<TResult = unknown> {
+  id: string;
+  type: string;
+  status: JobStatus;
+  progress: JobProgress | null;
+  result: TResult | null;
+  error: string | null;
+  attempts: number;
+  maxAttempts: number;
+  cancelRequested: boolean;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+}
+
+interface WaitForJobOptions {
+  intervalMs?: number;
+  timeoutMs?: number;
+  onUpdate?: (job: JobSummary) => void;
+}
+
+const isFinished = (status: JobStatus) => status === 'succeeded' || status === 'failed' || status === 'cancelled';
+
+/**
+ * Poll a background job until it succeeds, fails or is cancelled.
+ * onUpdate sees every poll, so callers can render progress and partial results.
+ */
+export async function waitForJob<TResult = unknown>(jobId: string, options: WaitForJobOptions = {}): Promise<JobSummary<TResult>> {
+  const { intervalMs = 1500, timeoutMs = 10 * 60 * 1000, onUpdate } = options;
+  const deadline = Date.now() + timeoutMs;
+
+  while (true) {
+    const response = await fetch(`/api/jobs/${jobId}`, { cache: 'no-store' });
+    if (!response.ok) {
+      throw new Error(`Failed to load job status (${response.status})`);
+    }
+
+    const { job } = await response.json() as { job: JobSummary<TResult> };
+    onUpdate?.(job);
+    if (isFinished(job.status)) {
+      return job;
+    }
+
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for the job to finish');
+    }
+    await new Promise(resolve => setTimeout(resolve, intervalMs));
+  }
+}
+
+export async function cancelJob(jobId: string): Promise<JobSummary> {
+  const response = await fetch(`/api/jobs/${jobId}`, { method: 'DELETE' });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to cancel job');
+  }
+  return data.job;
+}
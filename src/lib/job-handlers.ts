@@ -0,0 +1,523 @@
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { Errors } from '@/lib/error-handler';
+import { aiService, AIProvider, ContentType, Platform } from '@/lib/ai-service';
+import { providerRegistry } from '@/lib/ai-providers';
+import { aiUsageLedger, createUsageRequestId } from '@/lib/ai-usage-ledger';
+import { saveRepurposeResults } from '@/lib/repurpose-persistence';
+import { contentSourceSchema } from '@/lib/ingestion';
+import { clientCampaigns } from '@/lib/client-campaigns';
+import { brandVoices } from '@/lib/brand-voices';
+import { aiContentAnalyzer } from '@/lib/ai-content-analyzer';
+import type { BrandComplianceReport } from '@/lib/brand-compliance';
+import { glossaries, applyGlossary, applyGlossaryToOutput, withGlossary, GlossaryReplacement } from '@/lib/glossary';
+import { canUserRepurpose, chargeRepurposeOutputs, incrementUsage, PLAN_PLATFORMS, SUBSCRIPTION_LIMITS, SubscriptionPlan } from '@/lib/subscription';
+import { jobQueue, JobContext } from '@/lib/job-queue';
+import { JOB_QUEUE } from '@/lib/config';
+import { contentExporter } from '@/lib/content-export';
+import type { StructuredOutput } from '@/lib/structured-output';
+import type { ConstraintViolation } from '@/lib/platform-constraints';
+
+// Payloads mirror the synchronous endpoints they replace
+export const generateJobSchema = z.object({
+  title: z.string().optional(),
+  keywords: z.string().min(1, 'Keywords are required'),
+  contentType: z.enum(['blog', 'article', 'social_post', 'email', 'video_transcript', 'general']),
+  tone: z.string().optional(),
+  brandVoice: z.string().optional(),
+  brandVoiceId: z.string().optional(), // Brand voice profile, used instead of brandVoice
+  targetAudience: z.string().optional(),
+  additionalInstructions: z.string().optional(),
+  provider: z.string().optional(),
+  model: z.string().optional()
+});
+
+export const repurposeJobSchema = z.object({
+  title: z.string().min(1, 'Title is required'),
+  content: z.string().min(1, 'Content is required'),
+  contentType: z.string().min(1, 'Content type is required'),
+  contentId: z.string().optional(),
+  platforms: z.array(z.enum(['twitter', 'linkedin', 'instagram', 'facebook', 'email', 'newsletter', 'thread', 'youtube', 'tiktok', 'general'])).optional(),
+  brandVoice: z.string().optional(),
+  brandVoiceId: z.string().optional(),
+  tone: z.string().optional(),
+  additionalInstructions: z.string().optional(),
+  provider: z.string().optional(),
+  model: z.string().optional(),
+  source: contentSourceSchema.optional(),
+  clientId: z.string().optional(),
+  campaignId: z.string().optional()
+});
+
+export const bulkRepurposeJobSchema = z.object({
+  ids: z.array(z.string()).min(1, 'At least one item must be selected'),
+  platforms: z.array(z.string()).optional().default(['Twitter', 'LinkedIn', 'Instagram'])
+});
+
+export const JOB_PAYLOAD_SCHEMAS = {
+  generate: generateJobSchema,
+  repurpose: repurposeJobSchema,
+  'bulk-repurpose': bulkRepurposeJobSchema
+} as const;
+
+export type JobType = keyof typeof JOB_PAYLOAD_SCHEMAS;
+
+// One platform card in a repurpose job's progress and result
+export interface RepurposeJobItem {
+  id?: string | null;
+  platform: string;
+  status: 'running' | 'complete' | 'error';
+  content?: string;
+  draft?: string; // Raw model text while the platform is still running
+  structured?: StructuredOutput;
+  constraintWarnings?: ConstraintViolation[];
+  compliance?: BrandComplianceReport;
+  glossary?: GlossaryReplacement[];
+  error?: string;
+}
+
+// One library item in a bulk repurpose job's progress and result
+export interface BulkRepurposeItem {
+  contentId: string;
+  title: string;
+  status: 'success' | 'failed' | 'skipped';
+  message?: string;
+  repurposed?: { platform: string; content: string; id: string }[];
+  platformsProcessed?: number;
+  platformsSuccess?: number;
+}
+
+function parsePayload<T extends z.ZodTypeAny>(schema: T, payload: unknown): z.infer<T> {
+  const parsed = schema.safeParse(payload);
+  if (!parsed.success) {
+    throw Errors.validation('Invalid job payload', { issues: parsed.error.issues });
+  }
+  return parsed.data;
+}
+
+/**
+ * Plan and usage checks repeated when the job runs - usage may have run out while it waited
+ */
+async function loadJobUser(userId: string) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      subscriptionPlan: true,
+      subscriptionStatus: true,
+      usageThisMonth: true,
+      teamId: true,
+      subscriptions: {
+        where: { status: { in: ['active', 'trialing'] } },
+        orderBy: { createdAt: 'desc' },
+        take: 1
+      },
+      settings: { select: { brandVoice: true, preferredPlatforms: true } }
+    }
+  });
+  if (!user) {
+    throw Errors.notFound('User');
+  }
+
+  const plan = (user.subscriptionPlan in PLAN_PLATFORMS ? user.subscriptionPlan : 'free') as SubscriptionPlan;
+  const hasActiveSubscription = user.subscriptionStatus === 'active' || user.subscriptions.length > 0;
+  if (plan !== 'free' && !hasActiveSubscription) {
+    throw Errors.authorization(`Your ${plan} plan requires an active subscription. Please complete payment to continue.`);
+  }
+  if (!(await canUserRepurpose(userId))) {
+    throw Errors.authorization('Monthly usage limit exceeded. Please upgrade your plan or enable overage charges in your settings.');
+  }
+
+  return { user, plan };
+}
+
+function resolveProviderForPlan(provider: string | undefined, plan: SubscriptionPlan) {
+  if (!provider) return undefined;
+  if (!providerRegistry.isAllowedForPlan(provider, plan)) {
+    throw Errors.authorization(`The ${provider} provider is not available on the ${plan} plan.`);
+  }
+  if (!aiService.isProviderAvailable(provider)) {
+    throw Errors.validation(`The ${provider} provider is not available. Available providers: ${aiService.getAvailableProviders().join(', ')}`);
+  }
+  return providerRegistry.resolveId(provider) as AIProvider;
+}
+
+function usageSummary(plan: SubscriptionPlan, currentUsage: number) {
+  const limit = SUBSCRIPTION_LIMITS[plan];
+  return {
+    currentUsage,
+    monthlyLimit: limit === Infinity ? null : limit,
+    plan,
+    remainingUsage: limit === Infinity ? null : Math.max(0, limit - currentUsage)
+  };
+}
+
+/**
+ * Generate original content from keywords and save it as a draft
+ */
+async function runGenerateJob(payload: unknown, { job, reportProgress, throwIfCancelled, heartbeat }: JobContext) {
+  const request = parsePayload(generateJobSchema, payload);
+  const userId = job.userId;
+  const { user, plan } = await loadJobUser(userId);
+  const provider = resolveProviderForPlan(request.provider, plan);
+  const voice = await brandVoices.resolve(userId, {
+    brandVoiceId: request.brandVoiceId,
+    brandVoice: request.brandVoice,
+    fallback: user.settings?.brandVoice
+  });
+  const glossaryTerms = await glossaries.forTeam(user.teamId);
+
+  await throwIfCancelled();
+  await reportProgress({ completed: 0, total: 1, message: 'Generating content' });
+
+  const usageRequestId = createUsageRequestId();
+  const aiResponse = await aiService.generateContent({
+    keywords: request.keywords,
+    contentType: request.contentType as ContentType,
+    tone: request.tone,
+    brandVoice: voice.text,
+    targetAudience: request.targetAudience,
+    additionalInstructions: withGlossary(request.additionalInstructions, glossaryTerms)
+  }, {
+    plan,
+    ...(provider && { provider }),
+    ...(request.model && { model: request.model }),
+    usage: { userId, plan, requestId: usageRequestId }
+  });
+
+  const glossary = applyGlossary(aiResponse.content, glossaryTerms);
+
+  // A worker that lost the job to recovery leaves the charge to the one that holds it now
+  await heartbeat();
+  await incrementUsage(userId).catch((error) => {
+    console.error('[JOB_GENERATE] Error incrementing usage:', error);
+  });
+
+  const title = request.title?.trim() || (request.keywords.length > 50 ? request.keywords.substring(0, 50) + '...' : request.keywords);
+  let savedContent: { id: string; title: string; status: string } | null = null;
+  try {
+    savedContent = await prisma.content.create({
+      data: {
+        title,
+        originalContent: glossary.text,
+        contentType: request.contentType,
+        status: 'Generated',
+        userId,
+        ...(voice.profile && { brandVoiceId: voice.profile.id })
+      },
+      select: { id: true, title: true, status: true }
+    });
+    await aiUsageLedger.linkContent(usageRequestId, savedContent!.id, userId);
+  } catch (saveError) {
+    console.error('[JOB_GENERATE] Error saving generated content:', saveError);
+  }
+
+  return {
+    content: glossary.text,
+    glossary: glossary.replacements,
+    contentId: savedContent?.id ?? null,
+    title: savedContent?.title ?? title,
+    status: savedContent?.status ?? 'Generated',
+    saved: !!savedContent,
+    provider: aiResponse.provider,
+    model: aiResponse.model,
+    usage: usageSummary(plan, user.usageThisMonth + 1)
+  };
+}
+
+/**
+ * Repurpose one piece of content for several platforms. Finished platforms are published
+ * in the job's progress as they arrive so pollers can show them before the rest are done,
+ * and running platforms carry their text so far as a draft.
+ */
+async function runRepurposeJob(payload: unknown, { job, reportProgress, throwIfCancelled, heartbeat }: JobContext) {
+  const request = parsePayload(repurposeJobSchema, payload);
+  const userId = job.userId;
+  const contentId = request.contentId?.trim() || undefined;
+  const { user, plan } = await loadJobUser(userId);
+
+  const availablePlatforms: readonly string[] = PLAN_PLATFORMS[plan];
+  const requestedPlatforms: string[] = request.platforms?.length ? request.platforms : user.settings?.preferredPlatforms ?? [];
+  const platformsToUse = (requestedPlatforms.length
+    ? requestedPlatforms.filter(p => availablePlatforms.includes(p))
+    : [...availablePlatforms]) as Platform[];
+  if (platformsToUse.length === 0) {
+    throw Errors.validation('No platforms are available for your subscription plan or no platforms were selected.');
+  }
+  const provider = resolveProviderForPlan(request.provider, plan);
+  const scope = await clientCampaigns.resolveScope(user.teamId, { clientId: request.clientId, campaignId: request.campaignId });
+  const voice = await brandVoices.resolve(userId, {
+    brandVoiceId: request.brandVoiceId,
+    brandVoice: request.brandVoice,
+    scope,
+    fallback: user.settings?.brandVoice
+  });
+  const glossaryTerms = await glossaries.forTeam(user.teamId);
+
+  await throwIfCancelled();
+
+  const items: RepurposeJobItem[] = platformsToUse.map(platform => ({ platform, status: 'running' }));
+  let progressWrites = Promise.resolve();
+  let lastPublishedAt = 0;
+  const publish = () => {
+    lastPublishedAt = Date.now();
+    const snapshot = items.map(item => ({ ...item }));
+    const completed = snapshot.filter(item => item.status !== 'running').length;
+    progressWrites = progressWrites
+      .then(() => reportProgress({ completed, total: snapshot.length, partial: { items: snapshot } }))
+      .catch((error) => console.error('[JOB_REPURPOSE] Failed to report progress:', error));
+  };
+  publish();
+
+  const usageRequestId = createUsageRequestId();
+
+  const results = await aiService.repurposeContentStream({
+    originalContent: request.content,
+    platforms: platformsToUse,
+    brandVoice: voice.text,
+    tone: request.tone,
+    additionalInstructions: withGlossary(request.additionalInstructions, glossaryTerms)
+  }, (event) => {
+    const item = items.find(candidate => candidate.platform === event.platform);
+    if (!item) return;
+
+    if (event.type === 'token') {
+      // Raw text can still hold forbidden terms, so teams with a glossary only get the finished card
+      if (glossaryTerms.length > 0) return;
+      item.draft = (item.draft ?? '') + event.delta;
+      // Drafts are written at most once per interval rather than once per token
+      if (Date.now() - lastPublishedAt >= JOB_QUEUE.progressIntervalMs) publish();
+    } else if (event.type === 'complete') {
+      // The returned results are these same objects, so the saved rows get the fixes and report too
+      Object.assign(event.result, applyGlossaryToOutput(event.platform, event.result, glossaryTerms));
+      if (voice.details) {
+        event.result.compliance = aiContentAnalyzer.checkBrandCompliance(event.result.content, voice.details);
+      }
+      Object.assign(item, {
+        status: 'complete',
+        content: event.result.content,
+        draft: undefined,
+        structured: event.result.structured,
+        constraintWarnings: event.result.constraintWarnings,
+        compliance: event.result.compliance,
+        glossary: event.result.glossary
+      });
+      publish();
+    } else if (event.type === 'error') {
+      Object.assign(item, { status: 'error', error: event.message, draft: undefined });
+      publish();
+    }
+  }, {
+    plan,
+    ...(provider && { provider }),
+    ...(request.model && { model: request.model }),
+    usage: {
+      userId,
+      plan,
+      requestId: usageRequestId,
+      ...(contentId && { contentId }),
+      ...(scope.clientId && { clientId: scope.clientId })
+    }
+  });
+
+  await progressWrites;
+
+  // Nothing was generated or charged, so another attempt is safe
+  if (results.length === 0) {
+    throw Errors.externalApi('Repurposing failed for every platform', {
+      errors: items.map(item => ({ platform: item.platform, error: item.error }))
+    });
+  }
+
+  // One use per platform that came back
+  await heartbeat();
+  await chargeRepurposeOutputs(userId, plan, user.usageThisMonth, results.length);
+
+  let savedId: string | null = null;
+  let savedRows: { id: string; platform: string }[] = [];
+  let warning: string | undefined;
+  try {
+    const saved = await saveRepurposeResults({
+      userId,
+      contentId,
+      title: request.title,
+      content: request.content,
+      contentType: request.contentType,
+      results,
+      usageRequestId,
+      source: 'job',
+      origin: request.source,
+      scope,
+      brandVoiceId: voice.profile?.id
+    });
+    savedId = saved.id;
+    savedRows = saved.repurposed;
+  } catch (dbError) {
+    console.error('[JOB_REPURPOSE] Failed to save content to database:', dbError);
+    warning = "Content was generated but could not be saved to the database. Please copy any content you'd like to keep.";
+  }
+
+  return {
+    content: {
+      id: savedId,
+      title: request.title,
+      repurposed: items.map(item => ({
+        ...item,
+        id: savedRows.find(row => row.platform === item.platform)?.id ?? null
+      }))
+    },
+    usage: usageSummary(plan, user.usageThisMonth + results.length),
+    ...(warning && { warning })
+  };
+}
+
+/**
+ * Repurpose many library items. Platforms an item already has are skipped, so a retried
+ * or resumed job picks up where the last attempt stopped without charging twice.
+ */
+async function runBulkRepurposeJob(payload: unknown, { job, reportProgress, throwIfCancelled, heartbeat }: JobContext) {
+  const { ids, platforms } = parsePayload(bulkRepurposeJobSchema, payload);
+  const userId = job.userId;
+  const { user, plan } = await loadJobUser(userId);
+
+  const userContent = await prisma.content.findMany({
+    where: { id: { in: ids }, userId },
+    select: {
+      id: true,
+      title: true,
+      originalContent: true,
+      contentType: true,
+      brandVoiceId: true,
+      repurposed: { select: { platform: true } }
+    }
+  });
+  if (userContent.length !== ids.length) {
+    throw Errors.notFound('Some content items');
+  }
+  const glossaryTerms = await glossaries.forTeam(user.teamId);
+
+  const results: BulkRepurposeItem[] = [];
+  const errors: { contentId: string; platform?: string; error: string }[] = [];
+  let totalRepurposed = 0;
+
+  const summarize = () => ({
+    totalProcessed: results.length,
+    totalRepurposed,
+    results,
+    errors: errors.length > 0 ? errors : undefined,
+    summary: {
+      successful: results.filter(r => r.status === 'success').length,
+      failed: results.filter(r => r.status === 'failed').length,
+      skipped: results.filter(r => r.status === 'skipped').length
+    }
+  });
+
+  await reportProgress({ completed: 0, total: userContent.length, message: `Repurposing ${userContent.length} items` });
+
+  for (const content of userContent) {
+    await throwIfCancelled();
+    // Outputs already saved are still charged below: the worker that took over skips them
+    await heartbeat();
+
+    const existingPlatforms = content.repurposed.map((r: { platform: string }) => r.platform);
+    const platformsToRepurpose = platforms.filter(p => !existingPlatforms.includes(p));
+
+    if (platformsToRepurpose.length === 0) {
+      results.push({
+        contentId: content.id,
+        title: content.title,
+        status: 'skipped',
+        message: 'Already repurposed for all selected platforms'
+      });
+    } else {
+      const repurposedItems: { platform: string; content: string; id: string }[] = [];
+      // Content keeps the profile it was written in; the user's default applies otherwise
+      const voice = await brandVoices.resolve(userId, {
+        scope: content.brandVoiceId ? { brandVoiceId: content.brandVoiceId } : undefined,
+        fallback: user.settings?.brandVoice
+      });
+
+      for (const platform of platformsToRepurpose) {
+        try {
+          const repurposedResults = await aiService.repurposeContent({
+            originalContent: content.originalContent,
+            platforms: [platform as Platform],
+            brandVoice: voice.text,
+            additionalInstructions: withGlossary(undefined, glossaryTerms)
+          }, {
+            plan,
+            usage: { userId, plan, contentId: content.id }
+          });
+          const result = repurposedResults[0] && applyGlossaryToOutput(platform as Platform, repurposedResults[0], glossaryTerms);
+          const repurposedContent = result?.content || '';
+
+          const savedRepurpose = await prisma.repurposedContent.create({
+            data: {
+              contentId: content.id,
+              platform,
+              content: repurposedContent,
+              promptVersionId: result?.promptVersionId ?? null,
+              structured: result?.structured,
+              glossary: result?.glossary,
+              ...(voice.details && { compliance: aiContentAnalyzer.checkBrandCompliance(repurposedContent, voice.details) })
+            }
+          });
+
+          repurposedItems.push({ platform, content: repurposedContent, id: savedRepurpose.id });
+        } catch (platformError) {
+          console.error(`[JOB_BULK_REPURPOSE] Error repurposing ${content.id} for ${platform}:`, platformError);
+          errors.push({ contentId: content.id, platform, error: `Failed to repurpose for ${platform}` });
+        }
+      }
+
+      // Charge per item as it finishes so a cancelled job has paid for exactly what it produced
+      if (repurposedItems.length > 0) {
+        await prisma.user.update({
+          where: { id: userId },
+          data: { usageThisMonth: { increment: repurposedItems.length } }
+        });
+        totalRepurposed += repurposedItems.length;
+      }
+
+      results.push({
+        contentId: content.id,
+        title: content.title,
+        status: repurposedItems.length > 0 ? 'success' : 'failed',
+        repurposed: repurposedItems,
+        platformsProcessed: platformsToRepurpose.length,
+        platformsSuccess: repurposedItems.length
+      });
+    }
+
+    await reportProgress({
+      completed: results.length,
+      total: userContent.length,
+      message: `Processed ${results.length} of ${userContent.length} items`,
+      partial: summarize()
+    });
+  }
+
+  console.log('[AUDIT_LOG]', {
+    userId,
+    action: 'BULK_REPURPOSE',
+    timestamp: new Date().toISOString(),
+    details: {
+      jobId: job.id,
+      contentIds: ids,
+      platforms,
+      totalRepurposed,
+      ...summarize().summary
+    }
+  });
+
+  return summarize();
+}
+
+// What each job type leaves in Job.result, for clients reading it through waitForJob
+export type GenerateJobResult = Awaited<ReturnType<typeof runGenerateJob>>;
+export type RepurposeJobResult = Awaited<ReturnType<typeof runRepurposeJob>>;
+export type BulkRepurposeJobResult = Awaited<ReturnType<typeof runBulkRepurposeJob>>;
+
+jobQueue.registerHandler('generate', runGenerateJob);
+jobQueue.registerHandler('repurpose', runRepurposeJob);
+jobQueue.registerHandler('bulk-repurpose', runBulkRepurposeJob);
+jobQueue.registerHandler('export', (payload, context) => contentExporter.runJob(payload, context));
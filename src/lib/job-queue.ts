@@ -0,0 +1,488 @@
+import { randomUUID } from 'crypto';
+import { prisma, Prisma } from '@/lib/prisma';
+import { AppError, Errors } from '@/lib/error-handler';
+import { JOB_QUEUE } from '@/lib/config';
+import { PLAN_JOB_CONCURRENCY, SubscriptionPlan } from '@/lib/subscription';
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export const TERMINAL_JOB_STATUSES: readonly JobStatus[] = ['succeeded', 'failed', 'cancelled'];
+
+// Handler-reported progress; `partial` carries whatever results are ready so far
+export interface JobProgress {
+  completed: number;
+  total: number;
+  message?: string;
+  partial?: unknown;
+}
+
+export interface QueuedJob {
+  id: string;
+  userId: string;
+  type: string;
+  status: JobStatus;
+  payload: unknown;
+  result: unknown;
+  progress: JobProgress | null;
+  error: string | null;
+  attempts: number;
+  maxAttempts: number;
+  runAfter: Date;
+  lockedAt: Date | null;
+  lockedBy: string | null;
+  cancelRequested: boolean;
+  startedAt: Date | null;
+  finishedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface JobContext {
+  job: QueuedJob;
+  reportProgress: (progress: JobProgress) => Promise<void>;
+  // Throws JobCancelledError once the user has asked to cancel; call between units of work
+  throwIfCancelled: () => Promise<void>;
+  // Renews the lock, or throws JobLeaseLostError if another worker took the job; call before charging
+  heartbeat: () => Promise<void>;
+}
+
+export type JobHandler = (payload: unknown, context: JobContext) => Promise<unknown>;
+
+export interface WorkerRunOptions {
+  workerId?: string;
+  maxJobs?: number;
+  budgetMs?: number;
+}
+
+// 'lost' when the job was recovered and handed to another worker before this one finished
+export type JobRunOutcome = JobStatus | 'lost';
+
+export interface WorkerRunSummary {
+  workerId: string;
+  recovered: number;
+  processed: number;
+  succeeded: number;
+  failed: number;
+  retried: number;
+  cancelled: number;
+  lost: number;
+}
+
+export class JobCancelledError extends Error {
+  constructor(message: string = 'Job was cancelled') {
+    super(message);
+    this.name = 'JobCancelledError';
+  }
+}
+
+export class JobLeaseLostError extends Error {
+  constructor(message: string = 'Job is no longer held by this worker') {
+    super(message);
+    this.name = 'JobLeaseLostError';
+  }
+}
+
+// Serializes claims so the per-user running count can't be raced past by two workers
+const CLAIM_LOCK_KEY = 72_410_001;
+// Paired with the user so two requests can't both pass the pending-job limit
+const ENQUEUE_LOCK_KEY = 72_410_002;
+
+/**
+ * Delay before the next attempt: doubles per attempt, capped
+ */
+export function retryDelayMs(attempts: number): number {
+  return Math.min(JOB_QUEUE.retryBaseDelayMs * 2 ** Math.max(0, attempts - 1), JOB_QUEUE.retryMaxDelayMs);
+}
+
+/**
+ * Client errors (bad input, usage limits, missing records) will fail the same way again
+ */
+export function isRetryableJobError(error: unknown): boolean {
+  if (error instanceof JobCancelledError || error instanceof JobLeaseLostError) return false;
+  if (error instanceof AppError) return error.statusCode >= 500;
+  return true;
+}
+
+/**
+ * What the jobs API returns; the payload stays server-side
+ */
+export function toJobSummary(job: QueuedJob) {
+  return {
+    id: job.id,
+    type: job.type,
+    status: job.status,
+    progress: job.progress,
+    result: job.result,
+    error: job.error,
+    attempts: job.attempts,
+    maxAttempts: job.maxAttempts,
+    cancelRequested: job.cancelRequested,
+    runAfter: job.runAfter,
+    createdAt: job.createdAt,
+    startedAt: job.startedAt,
+    finishedAt: job.finishedAt
+  };
+}
+
+class JobQueue {
+  private static instance: JobQueue;
+  private handlers = new Map<string, JobHandler>();
+
+  private constructor() {}
+
+  public static getInstance(): JobQueue {
+    if (!JobQueue.instance) {
+      JobQueue.instance = new JobQueue();
+    }
+    return JobQueue.instance;
+  }
+
+  registerHandler(type: string, handler: JobHandler): void {
+    this.handlers.set(type, handler);
+  }
+
+  hasHandler(type: string): boolean {
+    return this.handlers.has(type);
+  }
+
+  /**
+   * Persist a job for the workers. Rejects once the user's plan has as many jobs waiting as it allows.
+   */
+  async enqueue(
+    userId: string,
+    plan: SubscriptionPlan,
+    type: string,
+    payload: unknown,
+    options: { maxAttempts?: number } = {}
+  ): Promise<QueuedJob> {
+    if (!this.handlers.has(type)) {
+      throw Errors.validation(`Unknown job type: ${type}`);
+    }
+
+    return prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const pending = await this.lockPendingCount(tx, userId);
+      if (pending >= this.pendingLimit(plan)) {
+        throw Errors.rateLimit(
+          `You already have ${pending} jobs in progress. Wait for one to finish or cancel it before starting another.`
+        );
+      }
+
+      return tx.job.create({
+        data: {
+          userId,
+          type,
+          payload: payload as Prisma.InputJsonValue,
+          maxAttempts: options.maxAttempts ?? 3
+        }
+      });
+    });
+  }
+
+  private pendingLimit(plan: SubscriptionPlan): number {
+    const limits = PLAN_JOB_CONCURRENCY[plan] ?? PLAN_JOB_CONCURRENCY.free;
+    return limits.running + limits.queued;
+  }
+
+  /**
+   * Count the user's queued and running jobs while holding their enqueue lock for the rest of the transaction
+   */
+  private async lockPendingCount(tx: Prisma.TransactionClient, userId: string): Promise<number> {
+    await tx.$executeRawUnsafe(`SELECT pg_advisory_xact_lock(${ENQUEUE_LOCK_KEY}, hashtext($1))`, userId);
+    return tx.job.count({
+      where: { userId, status: { in: ['queued', 'running'] } }
+    });
+  }
+
+  async getJob(userId: string, jobId: string): Promise<QueuedJob> {
+    const job = await prisma.job.findFirst({ where: { id: jobId, userId } });
+    if (!job) {
+      throw Errors.notFound('Job');
+    }
+    return job;
+  }
+
+  async listJobs(userId: string, options: { status?: JobStatus[]; type?: string; limit?: number } = {}): Promise<QueuedJob[]> {
+    return prisma.job.findMany({
+      where: {
+        userId,
+        ...(options.status?.length && { status: { in: options.status } }),
+        ...(options.type && { type: options.type })
+      },
+      orderBy: { createdAt: 'desc' },
+      take: Math.min(options.limit ?? 20, 100)
+    });
+  }
+
+  /**
+   * Queued jobs are cancelled straight away; running jobs are flagged and stop at their next checkpoint
+   */
+  async cancel(userId: string, jobId: string): Promise<QueuedJob> {
+    const job = await this.getJob(userId, jobId);
+
+    if (job.status === 'queued') {
+      const { count } = await prisma.job.updateMany({
+        where: { id: job.id, status: 'queued' },
+        data: { status: 'cancelled', finishedAt: new Date() }
+      });
+      // Claimed between the read and the update - fall through and flag the running job
+      if (count > 0) return this.getJob(userId, jobId);
+    }
+
+    if (job.status === 'queued' || job.status === 'running') {
+      await prisma.job.updateMany({
+        where: { id: job.id, status: { in: ['queued', 'running'] } },
+        data: { cancelRequested: true }
+      });
+      return this.getJob(userId, jobId);
+    }
+
+    return job;
+  }
+
+  /**
+   * Queue a failed or cancelled job again with a fresh set of attempts
+   */
+  async retry(userId: string, jobId: string, plan: SubscriptionPlan): Promise<QueuedJob> {
+    const job = await this.getJob(userId, jobId);
+    if (job.status !== 'failed' && job.status !== 'cancelled') {
+      throw Errors.validation(`Only failed or cancelled jobs can be retried; this job is ${job.status}`);
+    }
+
+    return prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const pending = await this.lockPendingCount(tx, userId);
+      if (pending >= this.pendingLimit(plan)) {
+        throw Errors.rateLimit(`You already have ${pending} jobs in progress. Wait for one to finish before retrying.`);
+      }
+
+      return tx.job.update({
+        where: { id: job.id },
+        data: {
+          status: 'queued',
+          attempts: 0,
+          error: null,
+          result: Prisma.DbNull,
+          cancelRequested: false,
+          runAfter: new Date(),
+          finishedAt: null
+        }
+      });
+    });
+  }
+
+  /**
+   * Take the oldest runnable job whose owner is below their plan's running limit
+   */
+  async claimNext(workerId: string): Promise<QueuedJob | null> {
+    const plans = Object.keys(PLAN_JOB_CONCURRENCY) as SubscriptionPlan[];
+    const planLimits = plans.map((_, i) => `WHEN $${i * 2 + 2} THEN $${i * 2 + 3}::int`).join(' ');
+    const params = plans.flatMap(plan => [plan, PLAN_JOB_CONCURRENCY[plan].running]);
+
+    return prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      await tx.$executeRawUnsafe(`SELECT pg_advisory_xact_lock(${CLAIM_LOCK_KEY})`);
+
+      const rows: QueuedJob[] = await tx.$queryRawUnsafe(
+        `UPDATE "Job"
+         SET "status" = 'running',
+             "attempts" = "attempts" + 1,
+             "lockedAt" = NOW(),
+             "lockedBy" = $1,
+             "startedAt" = COALESCE("startedAt", NOW()),
+             "updatedAt" = NOW()
+         WHERE "id" = (
+           SELECT j."id"
+           FROM "Job" j
+           JOIN "User" u ON u."id" = j."userId"
+           WHERE j."status" = 'queued'
+             AND j."runAfter" <= NOW()
+             AND (
+               SELECT COUNT(*) FROM "Job" r WHERE r."userId" = j."userId" AND r."status" = 'running'
+             ) < (CASE u."subscriptionPlan" ${planLimits} ELSE ${PLAN_JOB_CONCURRENCY.free.running} END)
+           ORDER BY j."runAfter", j."createdAt"
+           LIMIT 1
+           FOR UPDATE OF j SKIP LOCKED
+         )
+         RETURNING *`,
+        workerId,
+        ...params
+      );
+
+      return rows[0] ?? null;
+    });
+  }
+
+  /**
+   * Writes only land while this worker still holds the job; recoverStale may have handed it to another
+   */
+  private whileHeld(job: QueuedJob) {
+    return { id: job.id, status: 'running', lockedBy: job.lockedBy };
+  }
+
+  async heartbeat(job: QueuedJob): Promise<void> {
+    const { count } = await prisma.job.updateMany({
+      where: this.whileHeld(job),
+      data: { lockedAt: new Date() }
+    });
+    if (count === 0) throw new JobLeaseLostError();
+  }
+
+  async reportProgress(job: QueuedJob, progress: JobProgress): Promise<void> {
+    const { count } = await prisma.job.updateMany({
+      where: this.whileHeld(job),
+      data: { progress: progress as unknown as Prisma.InputJsonValue, lockedAt: new Date() }
+    });
+    if (count === 0) throw new JobLeaseLostError();
+  }
+
+  async complete(job: QueuedJob, result: unknown): Promise<JobRunOutcome> {
+    const { count } = await prisma.job.updateMany({
+      where: this.whileHeld(job),
+      data: {
+        status: 'succeeded',
+        result: result === undefined || result === null ? Prisma.DbNull : result as Prisma.InputJsonValue,
+        error: null,
+        lockedAt: null,
+        lockedBy: null,
+        finishedAt: new Date()
+      }
+    });
+    return count > 0 ? 'succeeded' : 'lost';
+  }
+
+  /**
+   * Record a failed attempt: back to the queue with a delay while attempts remain, failed otherwise.
+   * Returns the status the job ended up in, or 'lost' if another worker holds it now.
+   */
+  async fail(job: QueuedJob, error: unknown): Promise<JobRunOutcome> {
+    const message = error instanceof Error ? error.message : String(error);
+
+    if (error instanceof JobLeaseLostError) return 'lost';
+
+    if (error instanceof JobCancelledError) {
+      const { count } = await prisma.job.updateMany({
+        where: this.whileHeld(job),
+        data: { status: 'cancelled', lockedAt: null, lockedBy: null, finishedAt: new Date() }
+      });
+      return count > 0 ? 'cancelled' : 'lost';
+    }
+
+    const retry = isRetryableJobError(error) && job.attempts < job.maxAttempts;
+    const { count } = await prisma.job.updateMany({
+      where: this.whileHeld(job),
+      data: {
+        status: retry ? 'queued' : 'failed',
+        error: message,
+        lockedAt: null,
+        lockedBy: null,
+        ...(retry
+          ? { runAfter: new Date(Date.now() + retryDelayMs(job.attempts)) }
+          : { finishedAt: new Date() })
+      }
+    });
+    if (count === 0) return 'lost';
+    return retry ? 'queued' : 'failed';
+  }
+
+  /**
+   * Jobs whose worker went quiet for longer than the lock timeout (crash, function timeout)
+   * go back to the queue, or fail if they are out of attempts. Live workers renew the lock
+   * every third of the timeout, so only stopped ones are caught.
+   */
+  async recoverStale(): Promise<number> {
+    const cutoff = new Date(Date.now() - JOB_QUEUE.lockTimeoutMs);
+    return prisma.$executeRawUnsafe(
+      `UPDATE "Job"
+       SET "status" = CASE
+             WHEN "cancelRequested" THEN 'cancelled'
+             WHEN "attempts" < "maxAttempts" THEN 'queued'
+             ELSE 'failed'
+           END,
+           "error" = 'Worker stopped responding',
+           "finishedAt" = CASE WHEN "cancelRequested" OR "attempts" >= "maxAttempts" THEN NOW() ELSE NULL END,
+           "lockedAt" = NULL,
+           "lockedBy" = NULL,
+           "updatedAt" = NOW()
+       WHERE "status" = 'running' AND "lockedAt" < $1`,
+      cutoff
+    );
+  }
+
+  /**
+   * Run one claimed job through its handler and record the outcome
+   */
+  async runJob(job: QueuedJob): Promise<JobRunOutcome> {
+    const handler = this.handlers.get(job.type);
+    if (!handler) {
+      return this.fail(job, Errors.validation(`No handler registered for job type ${job.type}`));
+    }
+
+    // Long model calls report no progress, so the lock is renewed on a timer as well
+    let leaseLost = false;
+    const heartbeat = async () => {
+      if (leaseLost) throw new JobLeaseLostError();
+      try {
+        await this.heartbeat(job);
+      } catch (error) {
+        if (error instanceof JobLeaseLostError) leaseLost = true;
+        throw error;
+      }
+    };
+    const timer = setInterval(() => {
+      heartbeat().catch((error) => console.error(`[JOB_QUEUE] Heartbeat for job ${job.id} failed:`, error));
+    }, Math.max(1000, Math.floor(JOB_QUEUE.lockTimeoutMs / 3)));
+    timer.unref?.();
+
+    const context: JobContext = {
+      job,
+      reportProgress: (progress) => this.reportProgress(job, progress),
+      heartbeat,
+      throwIfCancelled: async () => {
+        const current = await prisma.job.findUnique({
+          where: { id: job.id },
+          select: { cancelRequested: true }
+        });
+        if (current?.cancelRequested) {
+          throw new JobCancelledError();
+        }
+      }
+    };
+
+    try {
+      const result = await handler(job.payload, context);
+      return await this.complete(job, result);
+    } catch (error) {
+      console.error(`[JOB_QUEUE] ${job.type} job ${job.id} failed (attempt ${job.attempts}/${job.maxAttempts}):`, error);
+      return this.fail(job, error);
+    } finally {
+      clearInterval(timer);
+    }
+  }
+
+  /**
+   * Drain runnable jobs until the queue is empty, maxJobs have run or the time budget is spent.
+   * Called by the cron worker and right after a job is enqueued.
+   */
+  async runWorker(options: WorkerRunOptions = {}): Promise<WorkerRunSummary> {
+    const workerId = options.workerId ?? `worker-${randomUUID()}`;
+    const deadline = Date.now() + (options.budgetMs ?? JOB_QUEUE.workerBudgetMs);
+    const summary: WorkerRunSummary = { workerId, recovered: 0, processed: 0, succeeded: 0, failed: 0, retried: 0, cancelled: 0, lost: 0 };
+
+    summary.recovered = await this.recoverStale();
+
+    while (Date.now() < deadline && (options.maxJobs === undefined || summary.processed < options.maxJobs)) {
+      const job = await this.claimNext(workerId);
+      if (!job) break;
+
+      const status = await this.runJob(job);
+      summary.processed++;
+      if (status === 'succeeded') summary.succeeded++;
+      else if (status === 'failed') summary.failed++;
+      else if (status === 'queued') summary.retried++;
+      else if (status === 'cancelled') summary.cancelled++;
+      else if (status === 'lost') summary.lost++;
+    }
+
+    return summary;
+  }
+}
+
+export const jobQueue = JobQueue.getInstance();
@@ -0,0 +1,39 @@
+import { Errors } from '@/lib/error-handler';
+
+// Library and export filter value for outputs in the content's own language
+export const ORIGINAL_LOCALE = 'original';
+
+/**
+ * A BCP 47 locale in its canonical form ("pt-br" becomes "pt-BR"). Throws a validation error
+ * for anything that isn't a locale.
+ */
+export function normalizeLocale(value: string): string {
+  try {
+    const [locale] = Intl.getCanonicalLocales(value.trim());
+    if (locale) return locale;
+  } catch {
+    // Falls through to the validation error
+  }
+  throw Errors.validation(`"${value}" is not a valid locale`);
+}
+
+/**
+ * English name of a locale for prompts and labels, e.g. "German (Switzerland)"
+ */
+export function localeName(locale: string): string {
+  try {
+    return new Intl.DisplayNames(['en'], { type: 'language' }).of(locale) ?? locale;
+  } catch {
+    return locale;
+  }
+}
+
+/**
+ * Prisma filter on RepurposedContent.locale for a library or export `locale` parameter:
+ * "original" keeps outputs in the content's own language, a locale keeps its translations
+ */
+export function localeFilter(value?: string | null): { locale: string | null } | undefined {
+  if (!value) return undefined;
+  if (value === ORIGINAL_LOCALE) return { locale: null };
+  return { locale: normalizeLocale(value) };
+}
@@ -0,0 +1,219 @@
+import type { Platform } from './ai-service';
+import { StructuredOutput, StructuredOutputMap, getStructuredHashtags } from './structured-output';
+
+// 'twitter' uses X's weighted length: URLs count as 23 and emoji/CJK as 2
+export type CountMode = 'plain' | 'twitter';
+
+export type BannedFormatting = 'markdown' | 'html';
+
+export interface TextLimit {
+  maxCharacters?: number;
+  maxLines?: number;
+}
+
+export interface PlatformConstraints {
+  countMode: CountMode;
+  post?: TextLimit; // The whole published text
+  parts?: Record<string, TextLimit>; // Structured fields; array fields apply to each item
+  hashtags?: { min: number; max: number };
+  bannedFormatting?: BannedFormatting[];
+}
+
+export type ConstraintRule = 'maxCharacters' | 'maxLines' | 'hashtags' | 'formatting';
+
+export interface ConstraintViolation {
+  rule: ConstraintRule;
+  message: string;
+  part?: string;
+  actual?: number;
+  limit?: number;
+}
+
+const PLAIN_TEXT_ONLY: BannedFormatting[] = ['markdown', 'html'];
+
+/**
+ * Hard limits and the ranges the built-in prompts ask for, per platform
+ */
+export const PLATFORM_CONSTRAINTS: Record<Platform, PlatformConstraints> = {
+  twitter: { countMode: 'twitter', post: { maxCharacters: 280 }, hashtags: { min: 1, max: 3 }, bannedFormatting: PLAIN_TEXT_ONLY },
+  thread: { countMode: 'twitter', parts: { tweets: { maxCharacters: 280 } }, bannedFormatting: PLAIN_TEXT_ONLY },
+  linkedin: { countMode: 'plain', post: { maxCharacters: 3000 }, hashtags: { min: 3, max: 5 }, bannedFormatting: PLAIN_TEXT_ONLY },
+  instagram: { countMode: 'plain', post: { maxCharacters: 2200 }, hashtags: { min: 1, max: 30 }, bannedFormatting: PLAIN_TEXT_ONLY },
+  facebook: { countMode: 'plain', post: { maxCharacters: 63206 }, hashtags: { min: 0, max: 2 }, bannedFormatting: PLAIN_TEXT_ONLY },
+  tiktok: { countMode: 'plain', post: { maxCharacters: 2200 }, parts: { hook: { maxLines: 1 } }, bannedFormatting: PLAIN_TEXT_ONLY },
+  youtube: {
+    countMode: 'plain',
+    parts: { title: { maxCharacters: 100, maxLines: 1 }, description: { maxCharacters: 5000 } },
+    bannedFormatting: ['html']
+  },
+  email: { countMode: 'plain', parts: { subject: { maxCharacters: 50, maxLines: 1 }, preheader: { maxLines: 1 } } },
+  newsletter: { countMode: 'plain', parts: { subject: { maxCharacters: 50, maxLines: 1 }, preheader: { maxLines: 1 } } },
+  general: { countMode: 'plain' }
+};
+
+// Hashtags in any script, so translated outputs are counted like English ones
+export const HASHTAG_PATTERN = /#[\p{L}\p{N}_]+/gu;
+
+const URL_PATTERN = /(?:https?:\/\/|www\.)[^\s]+/gi;
+const TWITTER_URL_LENGTH = 23;
+
+// A single emoji, including skin tones, flags and ZWJ sequences
+export const EMOJI_PATTERN = new RegExp(
+  '(?:\\p{Regional_Indicator}{2}|\\p{Extended_Pictographic}(?:\\uFE0F|[\\u{1F3FB}-\\u{1F3FF}])*(?:\\u200D\\p{Extended_Pictographic}(?:\\uFE0F|[\\u{1F3FB}-\\u{1F3FF}])*)*)',
+  'gu'
+);
+
+// Code point ranges X counts as one character; everything else counts as two
+const SINGLE_WEIGHT_RANGES: [number, number][] = [
+  [0, 4351],
+  [8192, 8205],
+  [8208, 8223],
+  [8242, 8247]
+];
+
+/**
+ * Length of a post as X counts it against the 280 limit
+ */
+export function twitterWeightedLength(text: string): number {
+  let length = 0;
+
+  const withoutUrls = text.replace(URL_PATTERN, () => {
+    length += TWITTER_URL_LENGTH;
+    return '';
+  });
+  const withoutEmoji = withoutUrls.replace(EMOJI_PATTERN, () => {
+    length += 2;
+    return '';
+  });
+
+  for (const char of withoutEmoji) {
+    const codePoint = char.codePointAt(0)!;
+    length += SINGLE_WEIGHT_RANGES.some(([start, end]) => codePoint >= start && codePoint <= end) ? 1 : 2;
+  }
+  return length;
+}
+
+/**
+ * Character count the way the platform measures it
+ */
+export function measureLength(platform: Platform, text: string): number {
+  return PLATFORM_CONSTRAINTS[platform].countMode === 'twitter' ? twitterWeightedLength(text) : text.length;
+}
+
+const MARKDOWN_PATTERNS = [
+  /\*\*[^*\n]+\*\*/, // **bold**
+  /__[^_\n]+__/, // __bold__
+  /^#{1,6}\s/m, // # Heading (a hashtag has no space after the #)
+  /\[[^\]\n]+\]\([^)\s]+\)/, // [link](url)
+  /`[^`\n]+`/ // `code`
+];
+const HTML_PATTERN = /<\/?[a-z][a-z0-9]*(?:\s[^>]*)?>/i;
+
+function hasFormatting(text: string, formatting: BannedFormatting): boolean {
+  return formatting === 'html' ? HTML_PATTERN.test(text) : MARKDOWN_PATTERNS.some(pattern => pattern.test(text));
+}
+
+function checkLimit(platform: Platform, text: string, limit: TextLimit, part?: string): ConstraintViolation[] {
+  const violations: ConstraintViolation[] = [];
+  const where = part ? `${part} is` : 'Post is';
+
+  const length = measureLength(platform, text);
+  if (limit.maxCharacters !== undefined && length > limit.maxCharacters) {
+    violations.push({
+      rule: 'maxCharacters',
+      message: `${where} ${length} characters; the limit is ${limit.maxCharacters}`,
+      part,
+      actual: length,
+      limit: limit.maxCharacters
+    });
+  }
+
+  const lines = text.split('\n').length;
+  if (limit.maxLines !== undefined && lines > limit.maxLines) {
+    violations.push({
+      rule: 'maxLines',
+      message: `${where} ${lines} lines; the limit is ${limit.maxLines}`,
+      part,
+      actual: lines,
+      limit: limit.maxLines
+    });
+  }
+
+  return violations;
+}
+
+/**
+ * Text of each structured part a limit applies to. Thread tweets are measured with the numbering they are published with.
+ */
+function structuredPartTexts(platform: Platform, structured: StructuredOutput, field: string): { label: string; text: string }[] {
+  if (platform === 'thread' && field === 'tweets') {
+    const { tweets } = structured as StructuredOutputMap['thread'];
+    return tweets.map((tweet, index) => ({ label: `Tweet ${index + 1}`, text: `${index + 1}/${tweets.length} ${tweet}` }));
+  }
+
+  const value = (structured as Record<string, unknown>)[field];
+  if (typeof value === 'string') return [{ label: field, text: value }];
+  if (Array.isArray(value)) {
+    return value.filter((item): item is string => typeof item === 'string').map((text, index) => ({ label: `${field} ${index + 1}`, text }));
+  }
+  return [];
+}
+
+/**
+ * Check an output against its platform's constraints. Part limits are only checked when the structured form is available.
+ */
+export function validatePlatformOutput(platform: Platform, content: string, structured?: StructuredOutput): ConstraintViolation[] {
+  const constraints = PLATFORM_CONSTRAINTS[platform];
+  const violations: ConstraintViolation[] = [];
+
+  if (constraints.post) {
+    violations.push(...checkLimit(platform, content, constraints.post));
+  }
+
+  if (constraints.parts && structured) {
+    for (const [field, limit] of Object.entries(constraints.parts)) {
+      for (const { label, text } of structuredPartTexts(platform, structured, field)) {
+        violations.push(...checkLimit(platform, text, limit, label));
+      }
+    }
+  }
+
+  if (constraints.hashtags) {
+    const count = structured
+      ? getStructuredHashtags(platform, structured).length
+      : new Set(content.match(HASHTAG_PATTERN) || []).size;
+    const { min, max } = constraints.hashtags;
+    if (count < min || count > max) {
+      violations.push({
+        rule: 'hashtags',
+        message: `Has ${count} hashtag${count === 1 ? '' : 's'}; use ${min === max ? min : `${min}-${max}`}`,
+        actual: count,
+        limit: count > max ? max : min
+      });
+    }
+  }
+
+  for (const formatting of constraints.bannedFormatting ?? []) {
+    if (hasFormatting(content, formatting)) {
+      violations.push({
+        rule: 'formatting',
+        message: formatting === 'html' ? 'Contains HTML tags, which are shown as plain text' : 'Contains markdown, which is shown as plain text'
+      });
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Prompt asking the model to fix the listed violations and nothing else
+ */
+export function buildConstraintRewritePrompt(platform: Platform, output: string, violations: ConstraintViolation[]): string {
+  return [
+    `Your ${platform} post breaks these platform rules:`,
+    violations.map(violation => `- ${violation.message}`).join('\n'),
+    'Rewrite it so every rule is met. Shorten by cutting words, not meaning, and keep the language, the voice and the call to action.',
+    'Post:',
+    output
+  ].join('\n\n');
+}
@@ -26,7 +26,7 @@ export interface PlatformConfig {
   description: string
 }
 
-export const platformConfigs: Record<string, PlatformConfig> = {
+export const platformConfigs = {
   twitter: {
     icon: Twitter,
     color: '#1DA1F2',
@@ -99,12 +99,15 @@ export const platformConfigs: Record<string, PlatformConfig> = {
     name: 'General',
     description: 'Generic content format'
   }
-}
+} satisfies Record<string, PlatformConfig>
+
+// Platform keys used across the app (publishers, connected accounts)
+export type PlatformKey = keyof typeof platformConfigs
 
 // Get platform configuration
 export function getPlatformConfig(platform: string): PlatformConfig {
   const normalizedPlatform = platform.toLowerCase().trim()
-  return platformConfigs[normalizedPlatform] || platformConfigs.general
+  return platformConfigs[normalizedPlatform as PlatformKey] || platformConfigs.general
 }
 
 // Platform icon component
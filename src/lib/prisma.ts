@@ -154,4 +154,7 @@ if (process.env.NODE_ENV !== 'production') {
   globalForPrisma.prisma = prisma
 }
 
-export { prisma } 
\ No newline at end of file
+export { prisma }
+
+// Namespace with Prisma.DbNull, needed to clear nullable Json columns
+export { Prisma } from '../generated/prisma' 
\ No newline at end of file
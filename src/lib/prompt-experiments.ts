@@ -0,0 +1,309 @@
+import { prisma, Prisma } from '@/lib/prisma';
+import { Errors } from '@/lib/error-handler';
+import { promptRegistry, ExperimentArm } from '@/lib/prompt-registry';
+
+// User actions on a generated output that count as an experiment outcome
+export type ExperimentOutcomeType = 'copy' | 'export' | 'edit' | 'regenerate' | 'rating';
+
+export type ExperimentStatus = 'running' | 'stopped' | 'promoted';
+
+export interface NewPromptExperiment {
+  templateId: string;
+  treatmentVersion: number;
+  trafficPercent: number;
+  name?: string;
+  createdBy?: string;
+}
+
+// An output served from an experiment arm, reported once its content has been saved
+export interface PromptExperimentExposure {
+  experimentId: string;
+  arm: ExperimentArm;
+  platform: string;
+  promptVersionId?: string | null;
+}
+
+export interface ExperimentArmResult {
+  arm: ExperimentArm;
+  version: number;
+  generated: number;
+  copies: number;
+  exports: number;
+  edits: number;
+  regenerations: number;
+  ratings: number;
+  copyRate: number;
+  exportRate: number;
+  editRate: number;
+  regenerateRate: number;
+  positiveRatingRate: number | null; // Share of ratings marked helpful
+}
+
+// Row shape of a groupBy over outcomes by arm and type
+export interface OutcomeCount {
+  arm: string;
+  type: string;
+  _count: { _all: number };
+  _avg: { value: number | null };
+}
+
+const ARMS: ExperimentArm[] = ['control', 'treatment'];
+
+const EXPERIMENT_INCLUDE = {
+  template: { select: { key: true, variant: true, name: true, activeVersion: true } }
+} as const;
+
+type ExperimentWithTemplate = Prisma.PromptExperimentGetPayload<{ include: typeof EXPERIMENT_INCLUDE }>;
+
+const rate = (count: number, total: number) => (total > 0 ? Math.round((count / total) * 1000) / 1000 : 0);
+
+/**
+ * Turn outcome counts into per-arm totals and rates. Rates are per generated output.
+ */
+export function summarizeExperimentOutcomes(
+  counts: OutcomeCount[],
+  versions: Record<ExperimentArm, number>
+): ExperimentArmResult[] {
+  return ARMS.map((arm) => {
+    const count = (type: string) => counts.find(row => row.arm === arm && row.type === type)?._count._all ?? 0;
+    const generated = count('generated');
+    const ratings = count('rating');
+    const averageRating = counts.find(row => row.arm === arm && row.type === 'rating')?._avg.value ?? null;
+
+    return {
+      arm,
+      version: versions[arm],
+      generated,
+      copies: count('copy'),
+      exports: count('export'),
+      edits: count('edit'),
+      regenerations: count('regenerate'),
+      ratings,
+      copyRate: rate(count('copy'), generated),
+      exportRate: rate(count('export'), generated),
+      editRate: rate(count('edit'), generated),
+      regenerateRate: rate(count('regenerate'), generated),
+      positiveRatingRate: ratings > 0 && averageRating !== null ? Math.round(averageRating * 1000) / 1000 : null
+    };
+  });
+}
+
+/**
+ * Exposures to report for a batch of repurposed outputs - only those served from an experiment arm
+ */
+export function collectExposures(
+  results: { platform: string; promptVersionId?: string | null; experiment?: { id: string; arm: ExperimentArm } }[]
+): PromptExperimentExposure[] {
+  return results
+    .filter(item => item.experiment)
+    .map(item => ({
+      experimentId: item.experiment!.id,
+      arm: item.experiment!.arm,
+      platform: item.platform,
+      promptVersionId: item.promptVersionId ?? null
+    }));
+}
+
+class PromptExperimentManager {
+  private static instance: PromptExperimentManager;
+
+  private constructor() {}
+
+  public static getInstance(): PromptExperimentManager {
+    if (!PromptExperimentManager.instance) {
+      PromptExperimentManager.instance = new PromptExperimentManager();
+    }
+    return PromptExperimentManager.instance;
+  }
+
+  /**
+   * Experiments, newest first, with their per-arm results
+   */
+  async listExperiments(filter: { templateId?: string; status?: ExperimentStatus } = {}) {
+    const experiments = await prisma.promptExperiment.findMany({
+      where: {
+        ...(filter.templateId && { templateId: filter.templateId }),
+        ...(filter.status && { status: filter.status })
+      },
+      orderBy: { startedAt: 'desc' },
+      include: EXPERIMENT_INCLUDE
+    });
+
+    return Promise.all(experiments.map(async (experiment: ExperimentWithTemplate) => ({
+      ...experiment,
+      results: await this.getResults(experiment)
+    })));
+  }
+
+  /**
+   * Split a template's traffic between its live version (control) and another version
+   */
+  async startExperiment(input: NewPromptExperiment) {
+    const template = await prisma.promptTemplate.findUnique({ where: { id: input.templateId } });
+    if (!template) {
+      throw Errors.notFound('Prompt template');
+    }
+
+    if (input.treatmentVersion === template.activeVersion) {
+      throw Errors.validation('The treatment must be a different version from the live one');
+    }
+
+    const treatment = await prisma.promptTemplateVersion.findUnique({
+      where: { templateId_version: { templateId: template.id, version: input.treatmentVersion } }
+    });
+    if (!treatment) {
+      throw Errors.notFound(`Prompt template version ${input.treatmentVersion}`);
+    }
+
+    const running = await prisma.promptExperiment.findFirst({
+      where: { templateId: template.id, status: 'running' }
+    });
+    if (running) {
+      throw Errors.validation(`"${running.name}" is already running on this template`, { experimentId: running.id });
+    }
+
+    const experiment = await prisma.promptExperiment.create({
+      data: {
+        templateId: template.id,
+        name: input.name || `${template.name}: v${template.activeVersion} vs v${input.treatmentVersion}`,
+        controlVersion: template.activeVersion,
+        treatmentVersion: input.treatmentVersion,
+        trafficPercent: input.trafficPercent,
+        status: 'running',
+        createdBy: input.createdBy || null
+      }
+    });
+
+    promptRegistry.invalidate();
+    return experiment;
+  }
+
+  /**
+   * Stop splitting traffic; everyone gets the live version again and results are kept
+   */
+  async stopExperiment(experimentId: string) {
+    const experiment = await this.getExperiment(experimentId);
+    if (experiment.status !== 'running') {
+      throw Errors.validation('Only a running experiment can be stopped');
+    }
+
+    const stopped = await prisma.promptExperiment.update({
+      where: { id: experimentId },
+      data: { status: 'stopped', endedAt: new Date() }
+    });
+
+    promptRegistry.invalidate();
+    return stopped;
+  }
+
+  /**
+   * End the experiment and make the winning arm's version the live prompt
+   */
+  async promoteExperiment(experimentId: string, winner: ExperimentArm) {
+    const experiment = await this.getExperiment(experimentId);
+    if (experiment.status === 'promoted') {
+      throw Errors.validation('This experiment has already been promoted');
+    }
+
+    const promoted = await prisma.promptExperiment.update({
+      where: { id: experimentId },
+      data: { status: 'promoted', winner, endedAt: experiment.endedAt ?? new Date() }
+    });
+
+    const version = winner === 'treatment' ? experiment.treatmentVersion : experiment.controlVersion;
+    await promptRegistry.activateVersion(experiment.templateId, version);
+
+    return promoted;
+  }
+
+  async getResults(experiment: { id: string; controlVersion: number; treatmentVersion: number }): Promise<ExperimentArmResult[]> {
+    const counts = await prisma.promptExperimentOutcome.groupBy({
+      by: ['arm', 'type'],
+      where: { experimentId: experiment.id },
+      _count: { _all: true },
+      _avg: { value: true }
+    });
+
+    return summarizeExperimentOutcomes(counts, {
+      control: experiment.controlVersion,
+      treatment: experiment.treatmentVersion
+    });
+  }
+
+  /**
+   * Log outputs served from an experiment arm. Never throws - analytics must not fail a request.
+   */
+  async recordExposures(userId: string, contentId: string, exposures: PromptExperimentExposure[]): Promise<void> {
+    if (exposures.length === 0) return;
+
+    try {
+      await prisma.promptExperimentOutcome.createMany({
+        data: exposures.map(exposure => ({
+          experimentId: exposure.experimentId,
+          arm: exposure.arm,
+          promptVersionId: exposure.promptVersionId ?? null,
+          userId,
+          contentId,
+          platform: exposure.platform,
+          type: 'generated'
+        }))
+      });
+    } catch (error) {
+      console.error('[PROMPT_EXPERIMENTS] Failed to record exposures:', error);
+    }
+  }
+
+  /**
+   * Attribute a user action on a platform output to the experiment arm that generated it. Each
+   * action counts once per output, so rates stay per output; rating again replaces the rating.
+   * Returns false when the output wasn't part of a running experiment. Never throws.
+   */
+  async recordOutcome(
+    userId: string,
+    contentId: string,
+    platform: string,
+    type: ExperimentOutcomeType,
+    value?: number
+  ): Promise<boolean> {
+    try {
+      const exposure = await prisma.promptExperimentOutcome.findFirst({
+        where: { contentId, platform, type: 'generated' },
+        orderBy: { createdAt: 'desc' },
+        include: { experiment: { select: { status: true } } }
+      });
+      if (!exposure || exposure.experiment?.status !== 'running') {
+        return false;
+      }
+
+      await prisma.promptExperimentOutcome.upsert({
+        where: { exposureId_type: { exposureId: exposure.id, type } },
+        create: {
+          experimentId: exposure.experimentId,
+          arm: exposure.arm,
+          promptVersionId: exposure.promptVersionId,
+          exposureId: exposure.id,
+          userId,
+          contentId,
+          platform,
+          type,
+          value: value ?? null
+        },
+        update: type === 'rating' ? { userId, value: value ?? null } : {}
+      });
+      return true;
+    } catch (error) {
+      console.error('[PROMPT_EXPERIMENTS] Failed to record outcome:', error);
+      return false;
+    }
+  }
+
+  private async getExperiment(experimentId: string) {
+    const experiment = await prisma.promptExperiment.findUnique({ where: { id: experimentId } });
+    if (!experiment) {
+      throw Errors.notFound('Prompt experiment');
+    }
+    return experiment;
+  }
+}
+
+export const promptExperiments = PromptExperimentManager.getInstance();
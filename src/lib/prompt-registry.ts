@@ -0,0 +1,403 @@
+import { prisma, Prisma } from '@/lib/prisma';
+import { Errors } from '@/lib/error-handler';
+import {
+  DEFAULT_PROMPT_TEMPLATES,
+  DEFAULT_PROMPT_VARIANT,
+  PROMPT_VARIABLES,
+  PromptKey,
+  PromptTemplateDefinition
+} from '@/lib/ai-prompts';
+
+export type PromptVariables = Record<string, string | number | null | undefined>;
+
+const TEMPLATE_LIST_INCLUDE = { _count: { select: { versions: true } } } as const;
+const VERSION_HISTORY_INCLUDE = { _count: { select: { repurposedContent: true } } } as const;
+
+export type PromptTemplateRow = Prisma.PromptTemplateGetPayload<true>;
+export type PromptTemplateSummary = Prisma.PromptTemplateGetPayload<{ include: typeof TEMPLATE_LIST_INCLUDE }>;
+export type PromptVersionWithUsage = Prisma.PromptTemplateVersionGetPayload<{ include: typeof VERSION_HISTORY_INCLUDE }>;
+
+export type ExperimentArm = 'control' | 'treatment';
+
+// The template version a call will use
+export interface ResolvedPrompt {
+  key: PromptKey;
+  variant: string;
+  version: number; // 0 for the built-in fallback
+  versionId: string | null; // null when served from the built-in fallback
+  body: string;
+  experiment?: {
+    id: string;
+    trafficPercent: number;
+    treatment: { version: number; versionId: string; body: string };
+  };
+}
+
+export interface RenderedPrompt {
+  prompt: string;
+  key: PromptKey;
+  variant: string;
+  version: number;
+  versionId: string | null;
+  experiment?: { id: string; arm: ExperimentArm }; // Set when the user was placed in a running experiment
+}
+
+export interface RenderOptions {
+  userId?: string; // Needed for experiment assignment; without it the control is served
+}
+
+export interface NewPromptVersion {
+  body: string;
+  changeNote?: string;
+  createdBy?: string;
+  activate?: boolean;
+}
+
+// Edits go live across instances within this window
+const PROMPT_CACHE_TTL_MS = 60 * 1000;
+
+const TAG_PATTERN = /\{\{\s*([#/]?)\s*([a-zA-Z][a-zA-Z0-9_]*)\s*\}\}/g;
+
+/**
+ * Names of the variables a template references, in order of first use
+ */
+export function extractVariables(body: string): string[] {
+  const names = new Set<string>();
+  for (const match of body.matchAll(TAG_PATTERN)) {
+    names.add(match[2]!);
+  }
+  return Array.from(names);
+}
+
+/**
+ * Check a template before saving: sections must be balanced and only the
+ * variables its prompt family is rendered with may be used
+ */
+export function validateTemplate(key: PromptKey, body: string): string[] {
+  const errors: string[] = [];
+  const open: string[] = [];
+
+  if (!body.trim()) {
+    errors.push('Template body is empty');
+  }
+
+  for (const match of body.matchAll(TAG_PATTERN)) {
+    const [, marker, name] = match;
+    if (marker === '#') {
+      open.push(name!);
+    } else if (marker === '/') {
+      const expected = open.pop();
+      if (expected !== name) {
+        errors.push(expected ? `Section {{#${expected}}} is closed by {{/${name}}}` : `{{/${name}}} has no matching {{#${name}}}`);
+      }
+    }
+  }
+  for (const name of open) {
+    errors.push(`Section {{#${name}}} is never closed`);
+  }
+
+  const allowed = PROMPT_VARIABLES[key] || [];
+  for (const name of extractVariables(body)) {
+    if (!allowed.includes(name)) {
+      errors.push(`Unknown variable "${name}" - available: ${allowed.join(', ')}`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Fill in a template. {{name}} is replaced by the variable (empty when unset);
+ * {{#name}}...{{/name}} is kept only when the variable is set.
+ */
+export function renderTemplate(body: string, variables: PromptVariables): string {
+  const isSet = (name: string) => {
+    const value = variables[name];
+    return value !== undefined && value !== null && String(value).trim() !== '';
+  };
+
+  // Innermost sections first so nesting works
+  const sectionPattern = /\{\{\s*#\s*([a-zA-Z][a-zA-Z0-9_]*)\s*\}\}((?:(?!\{\{\s*#)[\s\S])*?)\{\{\s*\/\s*\1\s*\}\}/;
+  let rendered = body;
+  let match: RegExpMatchArray | null;
+  while ((match = rendered.match(sectionPattern))) {
+    const section = isSet(match[1]!) ? match[2]! : '';
+    rendered = rendered.replace(match[0], () => section);
+  }
+
+  return rendered.replace(/\{\{\s*([a-zA-Z][a-zA-Z0-9_]*)\s*\}\}/g, (_, name: string) =>
+    isSet(name) ? String(variables[name]) : ''
+  );
+}
+
+/**
+ * Sticky experiment assignment: the same user always lands in the same arm of an experiment
+ */
+export function assignExperimentArm(experimentId: string, userId: string, trafficPercent: number): ExperimentArm {
+  // FNV-1a keeps the split stable across instances and restarts
+  let hash = 0x811c9dc5;
+  for (const char of `${experimentId}:${userId}`) {
+    hash ^= char.charCodeAt(0);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) % 100 < trafficPercent ? 'treatment' : 'control';
+}
+
+function findDefinition(key: PromptKey, variant: string): PromptTemplateDefinition | undefined {
+  return DEFAULT_PROMPT_TEMPLATES.find(template => template.key === key && template.variant === variant)
+    || DEFAULT_PROMPT_TEMPLATES.find(template => template.key === key && template.variant === DEFAULT_PROMPT_VARIANT);
+}
+
+class PromptRegistry {
+  private static instance: PromptRegistry;
+  private cache = new Map<string, { prompt: ResolvedPrompt; expiresAt: number }>();
+  private seeding: Promise<void> | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): PromptRegistry {
+    if (!PromptRegistry.instance) {
+      PromptRegistry.instance = new PromptRegistry();
+    }
+    return PromptRegistry.instance;
+  }
+
+  /**
+   * Active template for a prompt family, preferring the platform/content-type variant.
+   * Falls back to the built-in template when the registry tables are unavailable.
+   */
+  async resolve(key: PromptKey, variant: string = DEFAULT_PROMPT_VARIANT): Promise<ResolvedPrompt> {
+    const cacheKey = `${key}:${variant}`;
+    const cached = this.cache.get(cacheKey);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.prompt;
+    }
+
+    let prompt: ResolvedPrompt;
+    try {
+      prompt = await this.loadActive(key, variant)
+        ?? await this.ensureSeeded().then(() => this.loadActive(key, variant))
+        ?? this.builtIn(key, variant);
+    } catch (error) {
+      console.error(`[PROMPT_REGISTRY] Using built-in prompt for ${cacheKey}:`, error);
+      prompt = this.builtIn(key, variant);
+    }
+
+    this.cache.set(cacheKey, { prompt, expiresAt: Date.now() + PROMPT_CACHE_TTL_MS });
+    return prompt;
+  }
+
+  /**
+   * Render the active template with the given variables. While an experiment runs on the
+   * template, the user's arm decides which of its two versions is rendered.
+   */
+  async render(key: PromptKey, variant: string | undefined, variables: PromptVariables, options: RenderOptions = {}): Promise<RenderedPrompt> {
+    const template = await this.resolve(key, variant);
+    const experiment = template.experiment;
+    const arm = experiment && options.userId
+      ? assignExperimentArm(experiment.id, options.userId, experiment.trafficPercent)
+      : null;
+    const served = arm === 'treatment' ? experiment!.treatment : template;
+
+    return {
+      prompt: renderTemplate(served.body, variables),
+      key,
+      variant: template.variant,
+      version: served.version,
+      versionId: served.versionId,
+      ...(experiment && arm && { experiment: { id: experiment.id, arm } })
+    };
+  }
+
+  /**
+   * Create any built-in templates missing from the database as version 1
+   */
+  ensureSeeded(): Promise<void> {
+    if (!this.seeding) {
+      this.seeding = this.seedDefaults().catch((error) => {
+        this.seeding = null; // Try again on the next call
+        throw error;
+      });
+    }
+    return this.seeding;
+  }
+
+  async listTemplates(): Promise<PromptTemplateSummary[]> {
+    await this.ensureSeeded();
+    return prisma.promptTemplate.findMany({
+      orderBy: [{ key: 'asc' }, { variant: 'asc' }],
+      include: TEMPLATE_LIST_INCLUDE
+    });
+  }
+
+  /**
+   * A template with its full version history and how many outputs each version produced
+   */
+  async getTemplate(templateId: string) {
+    const template = await prisma.promptTemplate.findUnique({
+      where: { id: templateId },
+      include: {
+        versions: {
+          orderBy: { version: 'desc' },
+          include: VERSION_HISTORY_INCLUDE
+        }
+      }
+    });
+    if (!template) {
+      throw Errors.notFound('Prompt template');
+    }
+    return { ...template, allowedVariables: PROMPT_VARIABLES[template.key as PromptKey] || [] };
+  }
+
+  /**
+   * Save an edit as a new version, activating it unless asked not to
+   */
+  async createVersion(templateId: string, input: NewPromptVersion) {
+    const template = await prisma.promptTemplate.findUnique({ where: { id: templateId } });
+    if (!template) {
+      throw Errors.notFound('Prompt template');
+    }
+
+    const errors = validateTemplate(template.key as PromptKey, input.body);
+    if (errors.length > 0) {
+      throw Errors.validation('Invalid prompt template', { errors });
+    }
+
+    const version = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const latest = await tx.promptTemplateVersion.findFirst({
+        where: { templateId },
+        orderBy: { version: 'desc' },
+        select: { version: true }
+      });
+
+      const created = await tx.promptTemplateVersion.create({
+        data: {
+          templateId,
+          version: (latest?.version ?? 0) + 1,
+          body: input.body,
+          variables: extractVariables(input.body),
+          changeNote: input.changeNote || null,
+          createdBy: input.createdBy || null
+        }
+      });
+
+      if (input.activate !== false) {
+        await tx.promptTemplate.update({
+          where: { id: templateId },
+          data: { activeVersion: created.version }
+        });
+      }
+
+      return created;
+    });
+
+    this.invalidate();
+    return version;
+  }
+
+  /**
+   * Make an existing version live - used to roll back a bad edit
+   */
+  async activateVersion(templateId: string, version: number) {
+    const existing = await prisma.promptTemplateVersion.findUnique({
+      where: { templateId_version: { templateId, version } }
+    });
+    if (!existing) {
+      throw Errors.notFound(`Prompt template version ${version}`);
+    }
+
+    const template = await prisma.promptTemplate.update({
+      where: { id: templateId },
+      data: { activeVersion: version }
+    });
+
+    this.invalidate();
+    return template;
+  }
+
+  invalidate(): void {
+    this.cache.clear();
+  }
+
+  private async loadActive(key: PromptKey, variant: string): Promise<ResolvedPrompt | null> {
+    const templates: PromptTemplateRow[] = await prisma.promptTemplate.findMany({
+      where: { key, variant: { in: Array.from(new Set([variant, DEFAULT_PROMPT_VARIANT])) } }
+    });
+    const template = templates.find(t => t.variant === variant)
+      || templates.find(t => t.variant === DEFAULT_PROMPT_VARIANT);
+    if (!template) {
+      return null;
+    }
+
+    // A running experiment pins both arms, so changing the live version mid-test doesn't skew it
+    const experiment = await this.loadRunningExperiment(template.id);
+    const active = await prisma.promptTemplateVersion.findUnique({
+      where: { templateId_version: { templateId: template.id, version: experiment?.controlVersion ?? template.activeVersion } }
+    });
+    if (!active) {
+      return null;
+    }
+
+    const resolved: ResolvedPrompt = { key, variant: template.variant, version: active.version, versionId: active.id, body: active.body };
+    if (experiment) {
+      const treatment = await prisma.promptTemplateVersion.findUnique({
+        where: { templateId_version: { templateId: template.id, version: experiment.treatmentVersion } }
+      });
+      if (treatment) {
+        resolved.experiment = {
+          id: experiment.id,
+          trafficPercent: experiment.trafficPercent,
+          treatment: { version: treatment.version, versionId: treatment.id, body: treatment.body }
+        };
+      }
+    }
+    return resolved;
+  }
+
+  private async loadRunningExperiment(templateId: string) {
+    try {
+      return await prisma.promptExperiment.findFirst({
+        where: { templateId, status: 'running' },
+        orderBy: { startedAt: 'desc' }
+      });
+    } catch {
+      // Experiments are optional - serve the live version when their table is unavailable
+      return null;
+    }
+  }
+
+  private builtIn(key: PromptKey, variant: string): ResolvedPrompt {
+    const definition = findDefinition(key, variant);
+    if (!definition) {
+      throw new Error(`No prompt template registered for ${key}`);
+    }
+    return { key, variant: definition.variant, version: 0, versionId: null, body: definition.body };
+  }
+
+  private async seedDefaults(): Promise<void> {
+    for (const definition of DEFAULT_PROMPT_TEMPLATES) {
+      await prisma.promptTemplate.upsert({
+        where: { key_variant: { key: definition.key, variant: definition.variant } },
+        update: {},
+        create: {
+          key: definition.key,
+          variant: definition.variant,
+          name: definition.name,
+          description: definition.description,
+          activeVersion: 1,
+          versions: {
+            create: {
+              version: 1,
+              body: definition.body,
+              variables: extractVariables(definition.body),
+              changeNote: 'Built-in default',
+              createdBy: 'system'
+            }
+          }
+        }
+      });
+    }
+  }
+}
+
+export const promptRegistry = PromptRegistry.getInstance();
@@ -0,0 +1,36 @@
+import { PUBLISHING } from '../config';
+import type { PublishRequest, PublishResult } from '../content-scheduler';
+import { PublisherAccount, PublisherAdapter, PublisherCredentials, PublishPayload } from './types';
+import { callPlatform, jsonHeaders } from './shared';
+
+/**
+ * Facebook Graph API, posting to a page's feed with a page access token. The account's
+ * externalId is the page id.
+ */
+export const facebookPublisher: PublisherAdapter = {
+  id: 'facebook',
+  name: 'Facebook Pages',
+  platforms: ['facebook'],
+
+  isConfigured() {
+    return true; // Tokens come from the connected account
+  },
+
+  buildPayload(request: PublishRequest): PublishPayload {
+    // A link in the post becomes its preview card
+    const link = request.content.match(/https?:\/\/\S+/)?.[0];
+    return { message: request.content, ...(link && { link }) };
+  },
+
+  async send(payload: PublishPayload, credentials: PublisherCredentials, account: PublisherAccount): Promise<PublishResult> {
+    const url = `https://graph.facebook.com/${PUBLISHING.facebookGraphVersion}/${encodeURIComponent(account.externalId)}/feed`;
+    const { body } = await callPlatform<{ id: string }>('Facebook', url, {
+      method: 'POST',
+      headers: jsonHeaders(credentials.accessToken),
+      body: JSON.stringify(payload)
+    });
+
+    // Ids look like {pageId}_{postId}
+    return { externalId: body.id, url: `https://www.facebook.com/${body.id}` };
+  }
+};
@@ -0,0 +1,59 @@
+import { PUBLISHING } from '../config';
+import type { PublishResult } from '../content-scheduler';
+import { PublisherAccount, PublisherAdapter, PublisherCredentials, PublishPayload, PUBLISH_PLATFORMS } from './types';
+
+export interface FakePublication {
+  externalId: string;
+  accountId: string;
+  platform: string;
+  payload: PublishPayload;
+  publishedAt: Date;
+}
+
+// Optional override so tests can make a send fail
+type FakeFailure = (payload: PublishPayload, account: PublisherAccount) => Error | null;
+
+const publications: FakePublication[] = [];
+let failure: FakeFailure | null = null;
+
+/**
+ * Everything the fake adapter has "published" since the last reset, oldest first
+ */
+export function getFakePublications(): FakePublication[] {
+  return [...publications];
+}
+
+export function resetFakePublisher(): void {
+  publications.length = 0;
+  failure = null;
+}
+
+/**
+ * Make sends fail. Return an AppError under 500 for a final failure, anything else to have it retried.
+ */
+export function setFakePublisherFailure(fn: FakeFailure | null): void {
+  failure = fn;
+}
+
+/**
+ * Records payloads in memory instead of calling a platform, so scheduling and dispatching can be
+ * exercised offline. Enabled with PUBLISHING_FAKE_ADAPTER=true, and always when NODE_ENV is "test".
+ */
+export const fakePublisher: PublisherAdapter = {
+  id: 'fake',
+  name: 'Fake (records payloads)',
+  platforms: PUBLISH_PLATFORMS,
+
+  isConfigured() {
+    return PUBLISHING.fakeAdapter || process.env.NODE_ENV === 'test';
+  },
+
+  async send(payload: PublishPayload, _credentials: PublisherCredentials, account: PublisherAccount): Promise<PublishResult> {
+    const error = failure?.(payload, account);
+    if (error) throw error;
+
+    const externalId = `fake-${account.platform}-${publications.length + 1}`;
+    publications.push({ externalId, accountId: account.id, platform: account.platform, payload, publishedAt: new Date() });
+    return { externalId, url: `fake://${account.platform}/${externalId}` };
+  }
+};
@@ -0,0 +1,63 @@
+import { PublisherAdapter, PublisherAdapterId, PublishPlatform } from './types';
+import { xPublisher } from './x';
+import { linkedinPublisher } from './linkedin';
+import { facebookPublisher } from './facebook';
+import { mailchimpPublisher } from './mailchimp';
+import { fakePublisher } from './fake';
+
+export * from './types';
+export { getFakePublications, resetFakePublisher, setFakePublisherFailure } from './fake';
+export type { FakePublication } from './fake';
+
+export interface PublisherSummary {
+  id: PublisherAdapterId;
+  name: string;
+  platforms: readonly PublishPlatform[];
+  configured: boolean;
+}
+
+class PublisherRegistry {
+  private adapters = new Map<PublisherAdapterId, PublisherAdapter>();
+
+  register(adapter: PublisherAdapter): void {
+    this.adapters.set(adapter.id, adapter);
+  }
+
+  get(id: string): PublisherAdapter | undefined {
+    return this.adapters.get(id as PublisherAdapterId);
+  }
+
+  list(): PublisherAdapter[] {
+    return Array.from(this.adapters.values());
+  }
+
+  /**
+   * Adapters an account on the platform can be connected to, real ones first
+   */
+  forPlatform(platform: string): PublisherAdapter[] {
+    return this.list().filter(adapter => adapter.isConfigured() && (adapter.platforms as readonly string[]).includes(platform));
+  }
+
+  /**
+   * The adapter whose payload mapping is used for the platform: the first real one registered
+   */
+  mapperFor(platform: string): PublisherAdapter | undefined {
+    return this.list().find(adapter => adapter.buildPayload && (adapter.platforms as readonly string[]).includes(platform));
+  }
+
+  describe(): PublisherSummary[] {
+    return this.list().map(adapter => ({
+      id: adapter.id,
+      name: adapter.name,
+      platforms: adapter.platforms,
+      configured: adapter.isConfigured()
+    }));
+  }
+}
+
+export const publisherRegistry = new PublisherRegistry();
+
+// The fake goes last so real adapters are offered first
+[xPublisher, linkedinPublisher, facebookPublisher, mailchimpPublisher, fakePublisher].forEach(adapter => {
+  publisherRegistry.register(adapter);
+});
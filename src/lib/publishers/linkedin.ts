@@ -0,0 +1,60 @@
+import { PUBLISHING } from '../config';
+import { Errors } from '../error-handler';
+import type { PublishRequest, PublishResult } from '../content-scheduler';
+import { PublisherAccount, PublisherAdapter, PublisherCredentials, PublishPayload } from './types';
+import { callPlatform, jsonHeaders } from './shared';
+
+const POSTS_URL = 'https://api.linkedin.com/rest/posts';
+
+/**
+ * Commentary uses LinkedIn's "little text" format, where these characters are markup. They are
+ * escaped, and hashtags become hashtag templates so they still link.
+ */
+export function toLittleText(text: string): string {
+  return text
+    .replace(/[\\|{}@[\]()<>#*_~]/g, '\\$&')
+    .replace(/\\#((?:[\p{L}\p{N}]|\\_)+)/gu, '{hashtag|\\#|$1}');
+}
+
+/**
+ * LinkedIn Posts API. The account's externalId is the author URN, a member
+ * (urn:li:person:...) or a company page (urn:li:organization:...).
+ */
+export const linkedinPublisher: PublisherAdapter = {
+  id: 'linkedin',
+  name: 'LinkedIn',
+  platforms: ['linkedin'],
+
+  isConfigured() {
+    return true; // Tokens come from the connected account
+  },
+
+  buildPayload(request: PublishRequest, account: PublisherAccount): PublishPayload {
+    if (!account.externalId.startsWith('urn:li:')) {
+      throw Errors.validation('LinkedIn accounts need the author URN, such as urn:li:organization:123, as their id');
+    }
+    return {
+      author: account.externalId,
+      commentary: toLittleText(request.content),
+      visibility: 'PUBLIC',
+      distribution: { feedDistribution: 'MAIN_FEED', targetEntities: [], thirdPartyDistributionChannels: [] },
+      lifecycleState: 'PUBLISHED',
+      isReshareDisabledByAuthor: false
+    };
+  },
+
+  async send(payload: PublishPayload, credentials: PublisherCredentials): Promise<PublishResult> {
+    const { headers } = await callPlatform('LinkedIn', POSTS_URL, {
+      method: 'POST',
+      headers: jsonHeaders(credentials.accessToken, {
+        'LinkedIn-Version': PUBLISHING.linkedinVersion,
+        'X-Restli-Protocol-Version': '2.0.0'
+      }),
+      body: JSON.stringify(payload)
+    });
+
+    // The new post's URN only comes back in a header
+    const id = headers.get('x-restli-id') ?? undefined;
+    return { externalId: id, ...(id && { url: `https://www.linkedin.com/feed/update/${id}` }) };
+  }
+};
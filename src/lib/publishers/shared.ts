@@ -0,0 +1,98 @@
+import { PUBLISHING } from '../config';
+import { AppError, ErrorSeverity, ErrorType, Errors } from '../error-handler';
+import { PLATFORM_OUTPUT_SCHEMAS, StructuredOutputMap } from '../structured-output';
+import type { Platform } from '../ai-service';
+import type { PublishRequest } from '../content-scheduler';
+
+export interface PlatformResponse<TBody = unknown> {
+  status: number;
+  headers: Headers;
+  body: TBody;
+}
+
+// Where each API puts a human-readable reason
+function platformMessage(body: unknown): string | null {
+  if (typeof body === 'string') return body.slice(0, 200) || null;
+  if (!body || typeof body !== 'object') return null;
+  const fields = body as { error?: { message?: unknown }; detail?: unknown; message?: unknown; title?: unknown };
+  const message = fields.error?.message ?? fields.detail ?? fields.message ?? fields.title;
+  return typeof message === 'string' ? message : null;
+}
+
+// Network failures that happen before the request reaches the platform
+const NOT_SENT_CODES = new Set(['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN']);
+
+function reachedPlatform(error: unknown): boolean {
+  const code = (error as { cause?: { code?: unknown } } | null)?.cause?.code;
+  return !(typeof code === 'string' && NOT_SENT_CODES.has(code));
+}
+
+/**
+ * Call a platform API and turn failures into errors the dispatcher can act on: a rejected token
+ * is final (401) and expires the account, rate limits and outages are retried, and any other
+ * rejection is final with the platform's reason. A POST that times out or loses its connection
+ * may still have created the post, so it is final too rather than risking a duplicate.
+ */
+export async function callPlatform<TBody = unknown>(name: string, url: string, init: RequestInit): Promise<PlatformResponse<TBody>> {
+  let response: Response;
+  try {
+    response = await fetch(url, { ...init, signal: AbortSignal.timeout(PUBLISHING.requestTimeoutMs) });
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    if ((init.method ?? 'GET').toUpperCase() === 'POST' && reachedPlatform(error)) {
+      throw new AppError(
+        `${name} did not confirm the request, so it may have gone through. Check ${name} before publishing again: ${reason}`,
+        ErrorType.EXTERNAL_API,
+        ErrorSeverity.HIGH,
+        409,
+        true,
+        { unconfirmed: true }
+      );
+    }
+    throw Errors.externalApi(`${name} did not respond: ${reason}`);
+  }
+
+  const text = await response.text();
+  let body: unknown = null;
+  try {
+    body = text ? JSON.parse(text) : null;
+  } catch {
+    body = text;
+  }
+  if (response.ok) {
+    // Success bodies are trusted to have the shape the platform documents
+    return { status: response.status, headers: response.headers, body: body as TBody };
+  }
+
+  const message = platformMessage(body) || response.statusText || `HTTP ${response.status}`;
+  if (response.status === 401) {
+    throw Errors.authentication(`${name} rejected the account's token: ${message}`);
+  }
+  if (response.status === 429 || response.status >= 500) {
+    throw Errors.externalApi(`${name} is unavailable (${response.status}): ${message}`, { status: response.status });
+  }
+  throw Errors.validation(`${name} rejected the post: ${message}`, { status: response.status });
+}
+
+export function jsonHeaders(accessToken: string, extra: Record<string, string> = {}): Record<string, string> {
+  return { Authorization: `Bearer ${accessToken}`, 'Content-Type': 'application/json', ...extra };
+}
+
+/**
+ * The post's structured output, when it was saved with one that still matches the platform's shape
+ */
+export function structuredFor<P extends Platform>(platform: P, request: PublishRequest): StructuredOutputMap[P] | null {
+  const parsed = PLATFORM_OUTPUT_SCHEMAS[platform].safeParse(request.structured);
+  return parsed.success ? (parsed.data as StructuredOutputMap[P]) : null;
+}
+
+/**
+ * A required account setting, e.g. the list an email platform sends to
+ */
+export function requireSetting(settings: Record<string, unknown>, key: string, adapterName: string): string {
+  const value = settings[key];
+  if (typeof value !== 'string' || !value.trim()) {
+    throw Errors.validation(`${adapterName} accounts need the "${key}" setting`);
+  }
+  return value.trim();
+}
@@ -0,0 +1,59 @@
+import { platformConfigs, PlatformKey } from '../platform-icons';
+import type { PublishRequest, PublishResult } from '../content-scheduler';
+import type { EmailTheme } from '../email-renderer';
+
+// Identifiers for every adapter the registry knows about
+export const PUBLISHER_ADAPTER_IDS = ['x', 'linkedin', 'facebook', 'mailchimp', 'fake'] as const;
+export type PublisherAdapterId = typeof PUBLISHER_ADAPTER_IDS[number];
+
+// Every platform key except "general", which isn't a channel
+export type PublishPlatform = Exclude<PlatformKey, 'general'>;
+export const PUBLISH_PLATFORMS = (Object.keys(platformConfigs) as PlatformKey[])
+  .filter((platform): platform is PublishPlatform => platform !== 'general');
+
+// The connected account a post goes out through, without its tokens
+export interface PublisherAccount {
+  id: string;
+  platform: PublishPlatform;
+  externalId: string; // Author URN, page id, list id...
+  name: string;
+  settings: Record<string, unknown>;
+}
+
+// Decrypted tokens, only ever held in memory while a post is sent
+export interface PublisherCredentials {
+  accessToken: string;
+  refreshToken: string | null;
+  expiresAt: Date | null;
+}
+
+// What the publishing service knows about the post's owner that payloads may need
+export interface PayloadContext {
+  emailTheme?: EmailTheme; // The team's branding, for email platforms
+}
+
+// What an adapter sends; recorded on the publish attempt, so it must not contain tokens
+export type PublishPayload = Record<string, unknown>;
+
+/**
+ * Contract every publishing backend implements. The adapter that maps a post is the first
+ * registered one for its platform; the account's adapter sends it. That way the fake adapter
+ * records exactly what the real one would have sent.
+ */
+export interface PublisherAdapter {
+  readonly id: PublisherAdapterId;
+  readonly name: string;
+  readonly platforms: readonly PublishPlatform[];
+
+  /** False when the adapter can't be used in this environment */
+  isConfigured(): boolean;
+
+  /** Map a post to the platform API's payload; adapters that only send (the fake) leave it out */
+  buildPayload?(request: PublishRequest, account: PublisherAccount, context?: PayloadContext): PublishPayload;
+
+  /**
+   * Send the payload. Errors follow the job error rules: AppErrors under 500 are final,
+   * anything else (timeouts, rate limits, 5xx) is retried by the dispatcher.
+   */
+  send(payload: PublishPayload, credentials: PublisherCredentials, account: PublisherAccount): Promise<PublishResult>;
+}
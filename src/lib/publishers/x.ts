@@ -0,0 +1,79 @@
+import { AppError, ErrorSeverity, ErrorType } from '../error-handler';
+import { measureLength } from '../platform-constraints';
+import type { PublishRequest, PublishResult } from '../content-scheduler';
+import { PublisherAdapter, PublisherCredentials, PublishPayload } from './types';
+import { callPlatform, jsonHeaders, structuredFor } from './shared';
+
+const TWEETS_URL = 'https://api.twitter.com/2/tweets';
+const MAX_TWEET_LENGTH = 280;
+
+// A rendered thread is "1/3 First tweet\n\n2/3 Second tweet..."; outputs saved before structured output existed only have that
+function splitRenderedThread(content: string): string[] {
+  return content
+    .split(/\n{2,}/)
+    .map(part => part.replace(/^\d+\/\d+\s+/, '').trim())
+    .filter(Boolean);
+}
+
+function threadTweets(request: PublishRequest): string[] {
+  const thread = structuredFor('thread', request);
+  if (!thread) {
+    return splitRenderedThread(request.content);
+  }
+
+  // Hashtags go on the last tweet when they fit, and are dropped when they don't
+  const tweets = [...thread.tweets];
+  const tags = thread.hashtags.join(' ');
+  const last = tweets.length - 1;
+  if (tags && measureLength('thread', `${tweets[last]}\n\n${tags}`) <= MAX_TWEET_LENGTH) {
+    tweets[last] = `${tweets[last]}\n\n${tags}`;
+  }
+  return tweets;
+}
+
+/**
+ * X API v2 with a user-context OAuth 2.0 token (tweet.write). Threads are posted as replies
+ * to the previous tweet.
+ */
+export const xPublisher: PublisherAdapter = {
+  id: 'x',
+  name: 'X',
+  platforms: ['twitter', 'thread'],
+
+  isConfigured() {
+    return true; // Tokens come from the connected account
+  },
+
+  buildPayload(request: PublishRequest): PublishPayload {
+    return { tweets: request.platform === 'thread' ? threadTweets(request) : [request.content] };
+  },
+
+  async send(payload: PublishPayload, credentials: PublisherCredentials): Promise<PublishResult> {
+    const tweets = payload.tweets as string[];
+    const ids: string[] = [];
+
+    for (const text of tweets) {
+      try {
+        const { body } = await callPlatform<{ data: { id: string } }>('X', TWEETS_URL, {
+          method: 'POST',
+          headers: jsonHeaders(credentials.accessToken),
+          body: JSON.stringify({ text, ...(ids.length > 0 && { reply: { in_reply_to_tweet_id: ids[ids.length - 1] } }) })
+        });
+        ids.push(body.data.id);
+      } catch (error) {
+        if (ids.length === 0) throw error;
+        // Retrying would post the start of the thread again
+        throw new AppError(
+          `Posted ${ids.length} of ${tweets.length} tweets before X stopped the thread: ${error instanceof Error ? error.message : String(error)}`,
+          ErrorType.EXTERNAL_API,
+          ErrorSeverity.HIGH,
+          409,
+          true,
+          { postedIds: ids }
+        );
+      }
+    }
+
+    return { externalId: ids[0], url: `https://x.com/i/web/status/${ids[0]}`, ids };
+  }
+};
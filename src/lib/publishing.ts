@@ -0,0 +1,160 @@
+import { prisma, Prisma } from '@/lib/prisma';
+import { PUBLISHING } from '@/lib/config';
+import { AppError, Errors } from '@/lib/error-handler';
+import { isRetryableJobError } from '@/lib/job-queue';
+import { getPlatformConfig } from '@/lib/platform-icons';
+import { connectedAccounts } from '@/lib/connected-accounts';
+import { isEmailPlatform } from '@/lib/email-renderer';
+import { emailOutputs } from '@/lib/email-outputs';
+import { publisherRegistry, PublishPayload } from '@/lib/publishers';
+import type { ContentPublisher, PublishRequest, PublishResult } from '@/lib/content-scheduler';
+
+export interface PublishAttemptView {
+  id: string;
+  accountId: string | null;
+  platform: string;
+  adapter: string;
+  occurrenceAt: Date;
+  attempt: number;
+  status: 'succeeded' | 'failed';
+  payload: PublishPayload;
+  externalId: string | null;
+  url: string | null;
+  error: string | null;
+  retryable: boolean;
+  durationMs: number;
+  createdAt: Date;
+}
+
+/**
+ * Publishes due posts through the connected account they were scheduled with, and records
+ * every attempt. Retrying is left to the dispatcher, which follows the job error rules.
+ */
+class PublishingService implements ContentPublisher {
+  private static instance: PublishingService;
+
+  private constructor() {}
+
+  public static getInstance(): PublishingService {
+    if (!PublishingService.instance) {
+      PublishingService.instance = new PublishingService();
+    }
+    return PublishingService.instance;
+  }
+
+  async publish(request: PublishRequest): Promise<PublishResult> {
+    if (!request.accountId) {
+      throw Errors.validation('This post has no connected account to publish through');
+    }
+
+    const account = await connectedAccounts.loadForPublishing(request.accountId);
+    const adapter = publisherRegistry.get(account.adapter);
+    const attempt = await prisma.publishAttempt.count({ where: { scheduleId: request.scheduleId, occurrenceAt: request.publishAt } }) + 1;
+    const started = Date.now();
+    let payload: PublishPayload = {};
+    let result: PublishResult;
+
+    try {
+      if (!adapter || !adapter.isConfigured()) {
+        throw Errors.validation(`The ${account.adapter} publisher is not available`);
+      }
+      if (account.status !== 'active') {
+        throw Errors.validation(`Reconnect ${account.name} on ${getPlatformConfig(account.platform).name}: ${account.lastError ?? 'its token has expired'}`);
+      }
+      if (account.credentials.expiresAt && account.credentials.expiresAt <= new Date()) {
+        throw Errors.authentication(`The token for ${account.name} expired on ${account.credentials.expiresAt.toISOString()}`);
+      }
+
+      // The platform's own mapping, even when the account sends through the fake adapter
+      const mapper = publisherRegistry.mapperFor(account.platform);
+      const context = isEmailPlatform(account.platform) ? { emailTheme: await emailOutputs.themeFor(request.userId) } : {};
+      payload = mapper?.buildPayload ? mapper.buildPayload(request, account, context) : { text: request.content };
+
+      result = await adapter.send(payload, account.credentials, account);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await this.record(request, account.id, account.adapter, attempt, started, payload, {
+        status: 'failed',
+        error: message,
+        retryable: isRetryableJobError(error)
+      });
+      if (error instanceof AppError && error.statusCode === 401) {
+        await connectedAccounts.markExpired(account.id, message);
+      }
+      throw error;
+    }
+
+    // The platform has the post: failing here would have the dispatcher retry and publish it twice
+    try {
+      await this.record(request, account.id, adapter.id, attempt, started, payload, { status: 'succeeded', result });
+      await connectedAccounts.recordUse(account.id);
+    } catch (error) {
+      console.error(`[PUBLISHING] Published schedule ${request.scheduleId} but failed to record it:`, error);
+    }
+    return { ...result, accountId: account.id, adapter: adapter.id };
+  }
+
+  /**
+   * Recent publish attempts of one of the user's scheduled posts, newest first
+   */
+  async listAttempts(userId: string, scheduleId: string): Promise<PublishAttemptView[]> {
+    const post = await prisma.scheduledPost.findFirst({ where: { id: scheduleId, userId }, select: { id: true } });
+    if (!post) {
+      throw Errors.notFound('Scheduled post');
+    }
+    return prisma.publishAttempt.findMany({
+      where: { scheduleId },
+      select: {
+        id: true,
+        accountId: true,
+        platform: true,
+        adapter: true,
+        occurrenceAt: true,
+        attempt: true,
+        status: true,
+        payload: true,
+        externalId: true,
+        url: true,
+        error: true,
+        retryable: true,
+        durationMs: true,
+        createdAt: true
+      },
+      orderBy: { createdAt: 'desc' },
+      take: PUBLISHING.attemptsListed
+    });
+  }
+
+  private async record(
+    request: PublishRequest,
+    accountId: string,
+    adapter: string,
+    attempt: number,
+    started: number,
+    payload: PublishPayload,
+    outcome: { status: 'succeeded'; result: PublishResult } | { status: 'failed'; error: string; retryable: boolean }
+  ): Promise<void> {
+    await prisma.publishAttempt.create({
+      data: {
+        scheduleId: request.scheduleId,
+        accountId,
+        platform: request.platform,
+        adapter,
+        occurrenceAt: request.publishAt,
+        attempt,
+        status: outcome.status,
+        payload: payload as Prisma.InputJsonValue,
+        durationMs: Date.now() - started,
+        ...(outcome.status === 'succeeded'
+          ? {
+              response: outcome.result as Prisma.InputJsonValue,
+              externalId: typeof outcome.result.externalId === 'string' ? outcome.result.externalId : null,
+              url: typeof outcome.result.url === 'string' ? outcome.result.url : null
+            }
+          : { error: outcome.error, retryable: outcome.retryable })
+      }
+    });
+  }
+}
+
+export const publishingService = PublishingService.getInstance();
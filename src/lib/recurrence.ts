@@ -0,0 +1,282 @@
+import { Errors } from '@/lib/error-handler';
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly';
+
+// The supported subset of an iCalendar RRULE
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number; // Every n days, weeks or months
+  byDay?: number[]; // Weekdays of a weekly rule, 0 = Sunday
+  count?: number; // Occurrences in total, the first one included
+  until?: Date; // No occurrences after this instant
+}
+
+// Wall-clock time in a time zone; month is 1-12
+export interface LocalDateTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+type LocalDate = Pick<LocalDateTime, 'year' | 'month' | 'day'>;
+
+// Shorthands accepted wherever a recurring pattern is
+const PRESETS: Record<string, string> = {
+  daily: 'FREQ=DAILY',
+  weekly: 'FREQ=WEEKLY',
+  biweekly: 'FREQ=WEEKLY;INTERVAL=2',
+  monthly: 'FREQ=MONTHLY',
+  weekdays: 'FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR'
+};
+
+const FREQUENCIES: Record<string, RecurrenceFrequency> = { DAILY: 'daily', WEEKLY: 'weekly', MONTHLY: 'monthly' };
+const DAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const UNITS: Record<RecurrenceFrequency, string> = { daily: 'day', weekly: 'week', monthly: 'month' };
+
+// Periods walked before giving up on finding an occurrence (about 13 years of a daily rule)
+const MAX_PERIODS = 5000;
+
+function parseUntil(value: string): Date | undefined {
+  const compact = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/);
+  const date = compact
+    ? new Date(Date.UTC(+compact[1]!, +compact[2]! - 1, +compact[3]!, +(compact[4] ?? 23), +(compact[5] ?? 59), +(compact[6] ?? 59)))
+    : new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Parse a recurring pattern: a preset ("daily", "weekly", "biweekly", "monthly", "weekdays") or an
+ * RRULE such as "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH;COUNT=10". Throws a validation error otherwise.
+ */
+export function parseRecurrence(pattern: string): RecurrenceRule {
+  const trimmed = pattern.trim();
+  const rule = PRESETS[trimmed.toLowerCase()] ?? trimmed.replace(/^RRULE:/i, '');
+  const invalid = (reason: string) => Errors.validation(`Invalid recurring pattern "${pattern}": ${reason}`);
+
+  if (!rule.includes('=')) throw invalid('use daily, weekdays, weekly, biweekly, monthly or an RRULE such as FREQ=WEEKLY;BYDAY=MO');
+
+  const parts = new Map<string, string>();
+  for (const part of rule.split(';').filter(Boolean)) {
+    const [key, value] = part.split('=');
+    if (!key || !value) throw invalid(`"${part}" is not KEY=VALUE`);
+    parts.set(key.trim().toUpperCase(), value.trim().toUpperCase());
+  }
+
+  const frequency = FREQUENCIES[parts.get('FREQ') ?? ''];
+  if (!frequency) throw invalid('FREQ must be DAILY, WEEKLY or MONTHLY');
+
+  const result: RecurrenceRule = { frequency, interval: 1 };
+  for (const [key, value] of parts) {
+    switch (key) {
+      case 'FREQ':
+        break;
+      case 'INTERVAL':
+        result.interval = Number(value);
+        if (!Number.isInteger(result.interval) || result.interval < 1 || result.interval > 365) throw invalid('INTERVAL must be 1-365');
+        break;
+      case 'BYDAY': {
+        if (frequency !== 'weekly') throw invalid('BYDAY is only supported on weekly rules');
+        const days = value.split(',').map(code => DAY_CODES.indexOf(code));
+        if (days.some(day => day < 0)) throw invalid('BYDAY takes MO, TU, WE, TH, FR, SA or SU');
+        result.byDay = Array.from(new Set(days)).sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7));
+        break;
+      }
+      case 'COUNT':
+        result.count = Number(value);
+        if (!Number.isInteger(result.count) || result.count < 1) throw invalid('COUNT must be a positive whole number');
+        break;
+      case 'UNTIL':
+        result.until = parseUntil(value);
+        if (!result.until) throw invalid('UNTIL must be a date such as 20250131 or 20250131T170000Z');
+        break;
+      default:
+        throw invalid(`${key} is not supported`);
+    }
+  }
+  if (result.count && result.until) throw invalid('use either COUNT or UNTIL');
+  return result;
+}
+
+/**
+ * The canonical RRULE a rule is stored as
+ */
+export function formatRecurrence(rule: RecurrenceRule): string {
+  return [
+    `FREQ=${rule.frequency.toUpperCase()}`,
+    rule.interval > 1 && `INTERVAL=${rule.interval}`,
+    rule.byDay?.length && `BYDAY=${rule.byDay.map(day => DAY_CODES[day]).join(',')}`,
+    rule.count && `COUNT=${rule.count}`,
+    rule.until && `UNTIL=${rule.until.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')}`
+  ].filter(Boolean).join(';');
+}
+
+/**
+ * Short label for the calendar, e.g. "Every 2 weeks on Mon, Thu, 10 times"
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const unit = UNITS[rule.frequency];
+  return [
+    rule.interval > 1 ? `Every ${rule.interval} ${unit}s` : `Every ${unit}`,
+    rule.byDay?.length && ` on ${rule.byDay.map(day => DAY_NAMES[day]).join(', ')}`,
+    rule.count && `, ${rule.count} times`,
+    rule.until && `, until ${rule.until.toISOString().slice(0, 10)}`
+  ].filter(Boolean).join('');
+}
+
+/**
+ * Canonical IANA name of a time zone; throws a validation error for an unknown zone
+ */
+export function normalizeTimeZone(timeZone: string): string {
+  try {
+    return new Intl.DateTimeFormat('en-US', { timeZone: timeZone.trim() }).resolvedOptions().timeZone;
+  } catch {
+    throw Errors.validation(`"${timeZone}" is not a valid time zone`);
+  }
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Wall-clock time of an instant in a time zone
+ */
+export function toLocalTime(date: Date, timeZone: string): LocalDateTime {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    });
+    formatters.set(timeZone, formatter);
+  }
+
+  const parts: Record<string, number> = {};
+  for (const part of formatter.formatToParts(date)) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+  return {
+    year: parts.year!,
+    month: parts.month!,
+    day: parts.day!,
+    hour: parts.hour! % 24,
+    minute: parts.minute!,
+    second: parts.second!
+  };
+}
+
+const wallClockMs = (local: LocalDateTime) =>
+  Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second);
+
+// Milliseconds the zone is ahead of UTC at an instant
+function offsetAt(instant: number, timeZone: string): number {
+  return wallClockMs(toLocalTime(new Date(instant), timeZone)) - Math.floor(instant / 1000) * 1000;
+}
+
+/**
+ * The instant a wall-clock time happens in a time zone. A time that happens twice when the clocks
+ * go back resolves to the first; a time skipped when they go forward moves past the gap.
+ */
+export function fromLocalTime(local: LocalDateTime, timeZone: string): Date {
+  const wall = wallClockMs(local);
+  const first = wall - offsetAt(wall, timeZone);
+  const second = wall - offsetAt(first, timeZone);
+
+  for (const candidate of [Math.min(first, second), Math.max(first, second)]) {
+    if (wallClockMs(toLocalTime(new Date(candidate), timeZone)) === wall) return new Date(candidate);
+  }
+  return new Date(Math.max(first, second));
+}
+
+function addDays(date: LocalDate, days: number): LocalDate {
+  const shifted = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
+  return { year: shifted.getUTCFullYear(), month: shifted.getUTCMonth() + 1, day: shifted.getUTCDate() };
+}
+
+/**
+ * Move an instant by whole days in a time zone, keeping its local time of day across clock changes
+ */
+export function addLocalDays(date: Date, days: number, timeZone: string): Date {
+  const local = toLocalTime(date, timeZone);
+  return fromLocalTime({ ...local, ...addDays(local, days) }, timeZone);
+}
+
+const dayNumber = (date: LocalDate) => Date.UTC(date.year, date.month - 1, date.day) / 86_400_000;
+
+// Candidate dates of a rule in order, from its first occurrence on
+function* occurrenceDates(rule: RecurrenceRule, anchor: LocalDate): Generator<LocalDate> {
+  yield anchor;
+  const weekStart = addDays(anchor, -((new Date(dayNumber(anchor) * 86_400_000).getUTCDay() + 6) % 7));
+
+  for (let period = 1; period < MAX_PERIODS; period++) {
+    if (rule.frequency === 'daily') {
+      yield addDays(anchor, period * rule.interval);
+    } else if (rule.frequency === 'weekly' && !rule.byDay?.length) {
+      yield addDays(anchor, period * rule.interval * 7);
+    } else if (rule.frequency === 'weekly') {
+      // The anchor's own week is period 0; its days after the anchor come first
+      for (const week of period === 1 ? [0, rule.interval] : [period * rule.interval]) {
+        for (const day of rule.byDay!) {
+          const date = addDays(weekStart, week * 7 + ((day + 6) % 7));
+          if (dayNumber(date) > dayNumber(anchor)) yield date;
+        }
+      }
+    } else {
+      // Months without the anchor's day of the month are skipped, as in RFC 5545
+      const monthIndex = anchor.month - 1 + period * rule.interval;
+      const year = anchor.year + Math.floor(monthIndex / 12);
+      const month = (monthIndex % 12) + 1;
+      if (anchor.day <= new Date(Date.UTC(year, month, 0)).getUTCDate()) yield { year, month, day: anchor.day };
+    }
+  }
+}
+
+// Occurrence instants of a rule starting at startsAt, each at the start's local time of day
+function* occurrences(rule: RecurrenceRule, startsAt: Date, timeZone: string): Generator<Date> {
+  const anchor = toLocalTime(startsAt, timeZone);
+  let index = 0;
+  for (const date of occurrenceDates(rule, anchor)) {
+    index++;
+    if (rule.count && index > rule.count) return;
+    const at = index === 1 ? startsAt : fromLocalTime({ ...anchor, ...date }, timeZone);
+    if (rule.until && at > rule.until) return;
+    yield at;
+  }
+}
+
+/**
+ * First occurrence strictly after `after`, or null once the rule has run out
+ */
+export function nextOccurrence(rule: RecurrenceRule, startsAt: Date, after: Date, timeZone: string): Date | null {
+  for (const at of occurrences(rule, startsAt, timeZone)) {
+    if (at > after) return at;
+  }
+  return null;
+}
+
+/**
+ * Occurrences in [from, to), at most `limit` of them
+ */
+export function occurrencesBetween(
+  rule: RecurrenceRule,
+  startsAt: Date,
+  from: Date,
+  to: Date,
+  timeZone: string,
+  limit: number = Infinity
+): Date[] {
+  const result: Date[] = [];
+  for (const at of occurrences(rule, startsAt, timeZone)) {
+    if (at >= to || result.length >= limit) break;
+    if (at >= from) result.push(at);
+  }
+  return result;
+}
@@ -0,0 +1,115 @@
+import { withPrisma } from '@/lib/prisma-dynamic';
+import { withCache } from '@/lib/cache-dynamic';
+import { aiUsageLedger } from '@/lib/ai-usage-ledger';
+import { chunkSummaryStore } from '@/lib/content-chunking';
+import { analyticsTracker } from '@/lib/analytics-tracker';
+import { collectExposures } from '@/lib/prompt-experiments';
+import type { RepurposedContent } from '@/lib/ai-service';
+import type { ContentSource } from '@/lib/ingestion';
+import type { ContentScope } from '@/lib/client-campaigns';
+
+export interface SaveRepurposeResultsInput {
+  userId: string;
+  contentId?: string; // Existing content whose outputs are replaced; new content is created otherwise
+  title: string;
+  content: string;
+  contentType: string;
+  results: RepurposedContent[];
+  usageRequestId: string;
+  source: string; // Recorded with the repurpose analytics event
+  origin?: ContentSource; // Imported file or URL the content was extracted from, saved on new content
+  scope?: ContentScope; // Client and campaign the content is filed under, already checked against the team
+  brandVoiceId?: string; // Brand voice profile the outputs were written in
+}
+
+/**
+ * Save generated platform outputs for a piece of content, then record the analytics
+ * and experiment outcomes that go with them. Throws if the content can't be saved.
+ */
+export async function saveRepurposeResults(input: SaveRepurposeResultsInput) {
+  const { userId, contentId, title, content, contentType, results, usageRequestId, source, origin, scope, brandVoiceId } = input;
+
+  const contentFields = {
+    ...(scope?.clientId && { clientId: scope.clientId }),
+    ...(scope?.campaignId && { campaignId: scope.campaignId }),
+    ...(brandVoiceId && { brandVoiceId })
+  };
+  const repurposedRows = results.map(item => ({
+    platform: item.platform,
+    content: item.content,
+    promptVersionId: item.promptVersionId ?? null,
+    structured: item.structured,
+    compliance: item.compliance,
+    glossary: item.glossary
+  }));
+
+  let regenerated: string[] = [];
+  const saved: { id: string; repurposed: { id: string; platform: string }[] } = await withPrisma(async (prisma) => {
+    if (contentId) {
+      // Platforms that already had an output are regenerations, an experiment outcome
+      const previous = await prisma.repurposedContent.findMany({
+        where: { contentId, platform: { in: results.map(item => item.platform) } },
+        select: { platform: true }
+      });
+      regenerated = previous.map((item: { platform: string }) => item.platform);
+
+      return await prisma.content.update({
+        where: { id: contentId, userId },
+        data: {
+          status: 'Repurposed',
+          ...contentFields,
+          repurposed: {
+            deleteMany: {},
+            create: repurposedRows
+          }
+        },
+        select: { id: true, repurposed: { select: { id: true, platform: true } } }
+      });
+    }
+
+    return await prisma.content.create({
+      data: {
+        title,
+        originalContent: content,
+        contentType,
+        status: 'Repurposed',
+        userId,
+        ...contentFields,
+        ...(origin && {
+          sourceType: origin.format,
+          sourceUrl: origin.sourceUrl ?? null,
+          sourceMetadata: {
+            fileName: origin.fileName,
+            author: origin.author,
+            headings: origin.headings ?? []
+          }
+        }),
+        repurposed: {
+          create: repurposedRows
+        }
+      },
+      select: { id: true, repurposed: { select: { id: true, platform: true } } }
+    });
+  });
+
+  if (!contentId) {
+    await aiUsageLedger.linkContent(usageRequestId, saved.id, userId);
+    await chunkSummaryStore.linkContent(usageRequestId, saved.id, userId);
+  }
+
+  for (const platform of regenerated) {
+    await analyticsTracker.trackContentOutcome(userId, saved.id, platform, 'regenerate');
+  }
+  await analyticsTracker.trackContentRepurpose(userId, saved.id, results.map(item => item.platform), {
+    source,
+    promptExperiments: collectExposures(results)
+  });
+
+  await withCache(async (cache) => {
+    await cache.invalidateContentList(userId);
+  }).catch((cacheError) => {
+    console.error('[REPURPOSE] Failed to invalidate cache:', cacheError);
+  });
+
+  return saved;
+}
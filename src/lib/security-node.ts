@@ -82,25 +82,34 @@ export function decryptSessionData(encryptedData: string, secret: string): strin
   }
 }
 
-// Database encryption utilities (server-side only)
+// Database encryption utilities (server-side only). AES-256-GCM with a key derived from the
+// secret; the output is iv:authTag:ciphertext in hex, and tampering makes decryption return null.
+function deriveKey(key: string): Buffer {
+  return crypto.createHash('sha256').update(key).digest()
+}
+
 export function encryptSensitiveData(data: string, key: string): string {
-  const iv = crypto.randomBytes(16)
-  const cipher = crypto.createCipher('aes-256-cbc', key)
+  const iv = crypto.randomBytes(12)
+  const cipher = crypto.createCipheriv('aes-256-gcm', deriveKey(key), iv)
   let encrypted = cipher.update(data, 'utf8', 'hex')
   encrypted += cipher.final('hex')
-  
-  return `${iv.toString('hex')}:${encrypted}`
+  const authTag = cipher.getAuthTag()
+
+  return `${iv.toString('hex')}:${authTag.toString('hex')}:${encrypted}`
 }
 
 export function decryptSensitiveData(encryptedData: string, key: string): string | null {
   try {
-    const [ivHex, encrypted] = encryptedData.split(':')
+    const [ivHex, authTagHex, encrypted] = encryptedData.split(':')
+    if (!ivHex || !authTagHex || encrypted === undefined) return null
     const iv = Buffer.from(ivHex, 'hex')
-    
-    const decipher = crypto.createDecipher('aes-256-cbc', key)
+    const authTag = Buffer.from(authTagHex, 'hex')
+
+    const decipher = crypto.createDecipheriv('aes-256-gcm', deriveKey(key), iv)
+    decipher.setAuthTag(authTag)
     let decrypted = decipher.update(encrypted, 'hex', 'utf8')
     decrypted += decipher.final('utf8')
-    
+
     return decrypted
   } catch (error) {
     return null
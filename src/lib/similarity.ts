@@ -0,0 +1,175 @@
+import { SIMILARITY } from '@/lib/config';
+
+export type SimilarityLevel = 'duplicate' | 'near_duplicate' | 'partial';
+
+// A stretch of text, as character offsets
+export interface TextSpan {
+  start: number;
+  end: number;
+  text: string;
+}
+
+// Wording shared by the checked text and a source, located in both
+export interface SimilarityPassage extends TextSpan {
+  source: TextSpan;
+}
+
+export interface TextComparison {
+  containment: number; // Share of the checked text's shingles found in the source, 0-1
+  jaccard: number; // Shingles shared out of all shingles in both texts, 0-1
+  spans: TextSpan[]; // Matching stretches of the checked text, merged, for highlighting
+  passages: SimilarityPassage[];
+}
+
+// Shingles of a text with the words they cover, for locating matches
+export interface TextFingerprint {
+  text: string;
+  tokens: [number, number][]; // Start and end offset of every word
+  hashes: number[]; // Shingle starting at each word
+  shingles: Set<number>;
+}
+
+// What is kept per corpus text to screen it without shingling it again
+export interface TextSignature {
+  signature: number[];
+  size: number; // Distinct shingles
+}
+
+const WORD_PATTERN = /[\p{L}\p{N}]+(?:['’][\p{L}]+)*/gu;
+
+// FNV-1a, enough to tell shingles apart within one user's library
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Murmur3 finalizer: scrambles a shingle hash into one independent-looking value per seed
+function mix(value: number): number {
+  let hash = value;
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return hash >>> 0;
+}
+
+const SEEDS = Array.from({ length: SIMILARITY.signatureSize }, (_, i) => mix(Math.imul(i + 1, 0x9e3779b9)));
+
+/**
+ * Word shingles of a text. Words are compared in lower case with accents kept, so wording
+ * matches however it is capitalised or punctuated; texts shorter than one shingle have none.
+ */
+export function fingerprintText(text: string, size: number = SIMILARITY.shingleSize): TextFingerprint {
+  const tokens: [number, number][] = [];
+  const words: string[] = [];
+  for (const match of text.matchAll(WORD_PATTERN)) {
+    tokens.push([match.index!, match.index! + match[0].length]);
+    words.push(match[0].normalize('NFKC').toLowerCase().replace(/’/g, "'"));
+  }
+
+  const hashes: number[] = [];
+  for (let i = 0; i + size <= words.length; i++) {
+    hashes.push(hashString(words.slice(i, i + size).join(' ')));
+  }
+  return { text, tokens, hashes, shingles: new Set(hashes) };
+}
+
+/**
+ * MinHash signature: the lowest scrambled shingle hash for each seed. The share of positions two
+ * signatures agree on estimates the Jaccard similarity of their shingle sets.
+ */
+export function signatureOf(shingles: Set<number>): TextSignature {
+  const signature = SEEDS.map(() => 0xffffffff);
+  for (const shingle of shingles) {
+    for (let i = 0; i < SEEDS.length; i++) {
+      const value = mix(shingle ^ SEEDS[i]!);
+      if (value < signature[i]!) signature[i] = value;
+    }
+  }
+  return { signature, size: shingles.size };
+}
+
+/**
+ * Estimated share of the query's shingles found in the source, from the signatures alone.
+ * Jaccard understates a short text copied into a long one, so it is turned into containment.
+ */
+export function estimateContainment(query: TextSignature, source: TextSignature): number {
+  if (query.size === 0 || source.size === 0) return 0;
+
+  let agree = 0;
+  for (let i = 0; i < query.signature.length; i++) {
+    if (query.signature[i] === source.signature[i]) agree++;
+  }
+  const jaccard = agree / query.signature.length;
+  const shared = (jaccard * (query.size + source.size)) / (1 + jaccard);
+  return Math.min(1, shared / query.size);
+}
+
+const spanOf = (fingerprint: TextFingerprint, first: number, last: number): TextSpan => {
+  const start = fingerprint.tokens[first]![0];
+  const end = fingerprint.tokens[last]![1];
+  return { start, end, text: fingerprint.text.slice(start, end) };
+};
+
+/**
+ * Compare a text with a source word for word. Every run of consecutive shingles the source
+ * repeats in the same order becomes one passage, located in both texts.
+ */
+export function compareTexts(query: TextFingerprint, source: TextFingerprint, size: number = SIMILARITY.shingleSize): TextComparison {
+  let shared = 0;
+  for (const shingle of query.shingles) if (source.shingles.has(shingle)) shared++;
+  const union = query.shingles.size + source.shingles.size - shared;
+  const containment = query.shingles.size > 0 ? shared / query.shingles.size : 0;
+  const jaccard = union > 0 ? shared / union : 0;
+  if (shared === 0) return { containment, jaccard, spans: [], passages: [] };
+
+  const firstAt = new Map<number, number>();
+  source.hashes.forEach((hash, index) => {
+    if (!firstAt.has(hash)) firstAt.set(hash, index);
+  });
+
+  const passages: SimilarityPassage[] = [];
+  for (let i = 0; i < query.hashes.length;) {
+    const j = firstAt.get(query.hashes[i]!);
+    if (j === undefined) {
+      i++;
+      continue;
+    }
+    let length = 1;
+    while (i + length < query.hashes.length && source.hashes[j + length] === query.hashes[i + length]) length++;
+
+    passages.push({
+      ...spanOf(query, i, i + length + size - 2),
+      source: spanOf(source, j, j + length + size - 2)
+    });
+    i += length;
+  }
+
+  return { containment, jaccard, spans: mergeSpans(query.text, passages), passages };
+}
+
+// Passages of the checked text as non-overlapping spans
+function mergeSpans(text: string, passages: TextSpan[]): TextSpan[] {
+  const spans: TextSpan[] = [];
+  for (const { start, end } of [...passages].sort((a, b) => a.start - b.start)) {
+    const last = spans[spans.length - 1];
+    if (last && start <= last.end) {
+      last.end = Math.max(last.end, end);
+      last.text = text.slice(last.start, last.end);
+    } else {
+      spans.push({ start, end, text: text.slice(start, end) });
+    }
+  }
+  return spans;
+}
+
+export function similarityLevel(containment: number): SimilarityLevel {
+  if (containment >= SIMILARITY.duplicate) return 'duplicate';
+  if (containment >= SIMILARITY.nearDuplicate) return 'near_duplicate';
+  return 'partial';
+}
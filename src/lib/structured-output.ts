@@ -0,0 +1,315 @@
+import { z } from 'zod';
+import type { Platform } from './ai-service';
+
+const text = z.string().trim().min(1);
+
+// Models are inconsistent about the leading # and stray spaces
+const hashtags = z
+  .array(z.string().trim().min(1).transform(tag => `#${tag.replace(/^#+/, '').replace(/\s+/g, '')}`))
+  .default([]);
+
+const postSchema = z.object({ text, hashtags });
+
+/**
+ * Shape each platform's repurposed output must have
+ */
+export const PLATFORM_OUTPUT_SCHEMAS = {
+  twitter: postSchema,
+  linkedin: postSchema,
+  facebook: postSchema,
+  general: postSchema,
+  thread: z.object({
+    tweets: z.array(text).min(2, 'A thread needs at least 2 tweets'),
+    hashtags
+  }),
+  instagram: z.object({
+    caption: text,
+    hashtags,
+    altText: text
+  }),
+  tiktok: z.object({
+    hook: text,
+    caption: text,
+    hashtags
+  }),
+  youtube: z.object({
+    title: text,
+    description: text,
+    chapters: z.array(z.object({
+      timestamp: z.string().trim().regex(/^(\d{1,2}:)?\d{1,2}:\d{2}$/, 'Chapter timestamps look like 0:00 or 1:02:03'),
+      title: text
+    })).default([]),
+    tags: z.array(z.string().trim().min(1)).default([])
+  }),
+  email: z.object({
+    subject: text,
+    preheader: text,
+    body: text,
+    callToAction: text
+  }),
+  newsletter: z.object({
+    subject: text,
+    preheader: text,
+    sections: z.array(z.object({ heading: text, body: text })).min(1, 'A newsletter needs at least one section'),
+    callToAction: z.string().trim().optional()
+  })
+} satisfies Record<Platform, z.ZodTypeAny>;
+
+export type StructuredOutputMap = { [P in Platform]: z.infer<(typeof PLATFORM_OUTPUT_SCHEMAS)[P]> };
+export type StructuredOutput = StructuredOutputMap[Platform];
+
+// Example of each shape, shown to the model
+const OUTPUT_EXAMPLES: Record<Platform, unknown> = {
+  twitter: { text: 'Post text without hashtags', hashtags: ['#Example'] },
+  linkedin: { text: 'Post text without hashtags', hashtags: ['#Example'] },
+  facebook: { text: 'Post text without hashtags', hashtags: ['#Example'] },
+  general: { text: 'Content without hashtags', hashtags: ['#Example'] },
+  thread: { tweets: ['First tweet', 'Second tweet'], hashtags: ['#Example'] },
+  instagram: { caption: 'Caption without hashtags', hashtags: ['#Example'], altText: 'Description of the image for screen readers' },
+  tiktok: { hook: 'Opening line spoken in the first seconds', caption: 'Caption without hashtags', hashtags: ['#Example'] },
+  youtube: { title: 'Video title', description: 'Video description', chapters: [{ timestamp: '0:00', title: 'Intro' }], tags: ['example tag'] },
+  email: { subject: 'Subject line', preheader: 'Preview text shown after the subject', body: 'Email body', callToAction: 'Call to action' },
+  newsletter: { subject: 'Subject line', preheader: 'Preview text', sections: [{ heading: 'Section heading', body: 'Section body' }], callToAction: 'Call to action' }
+};
+
+export type StructuredParseResult =
+  | { success: true; data: StructuredOutput }
+  | { success: false; error: string };
+
+/**
+ * Instructions appended to a repurposing prompt so the model answers in the platform's JSON shape
+ */
+export function getOutputFormatInstructions(platform: Platform): string {
+  return [
+    'Respond with only a JSON object in exactly this shape - no markdown code fences and no commentary:',
+    JSON.stringify(OUTPUT_EXAMPLES[platform], null, 2)
+  ].join('\n');
+}
+
+/**
+ * Prompt asking the model to fix a response that failed to parse or validate
+ */
+export function buildRepairPrompt(platform: Platform, response: string, error: string): string {
+  return [
+    `Your previous response for ${platform} could not be used: ${error}`,
+    'Rewrite it keeping the same wording where possible.',
+    getOutputFormatInstructions(platform),
+    'Previous response:',
+    response
+  ].join('\n\n');
+}
+
+/**
+ * Pull the JSON object out of a model response, tolerating code fences and surrounding prose
+ */
+function extractJson(response: string): string {
+  const fenced = response.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const candidate = (fenced ? fenced[1]! : response).trim();
+  const start = candidate.indexOf('{');
+  const end = candidate.lastIndexOf('}');
+  return start !== -1 && end > start ? candidate.slice(start, end + 1) : candidate;
+}
+
+/**
+ * Parse and validate a model response against the platform's schema
+ */
+export function parseStructuredOutput(platform: Platform, response: string): StructuredParseResult {
+  let json: unknown;
+  try {
+    json = JSON.parse(extractJson(response));
+  } catch (error) {
+    return { success: false, error: `Response is not valid JSON (${error instanceof Error ? error.message : String(error)})` };
+  }
+
+  const result = PLATFORM_OUTPUT_SCHEMAS[platform].safeParse(json);
+  if (!result.success) {
+    return {
+      success: false,
+      error: result.error.issues.map(issue => `${issue.path.join('.') || 'response'}: ${issue.message}`).join('; ')
+    };
+  }
+  return { success: true, data: result.data };
+}
+
+/**
+ * Plain-text version of a structured output, used as the post body wherever a single string is needed
+ */
+export function renderStructuredOutput(platform: Platform, output: StructuredOutput): string {
+  const withHashtags = (body: string, tags: string[]) => (tags.length > 0 ? `${body}\n\n${tags.join(' ')}` : body);
+
+  switch (platform) {
+    case 'thread': {
+      const { tweets, hashtags } = output as StructuredOutputMap['thread'];
+      const numbered = tweets.map((tweet, index) => `${index + 1}/${tweets.length} ${tweet}`).join('\n\n');
+      return withHashtags(numbered, hashtags);
+    }
+    case 'instagram': {
+      const { caption, hashtags } = output as StructuredOutputMap['instagram'];
+      return withHashtags(caption, hashtags);
+    }
+    case 'tiktok': {
+      const { hook, caption, hashtags } = output as StructuredOutputMap['tiktok'];
+      return withHashtags(`${hook}\n\n${caption}`, hashtags);
+    }
+    case 'youtube': {
+      const { title, description, chapters, tags } = output as StructuredOutputMap['youtube'];
+      const parts = [title, description];
+      if (chapters.length > 0) parts.push(chapters.map(chapter => `${chapter.timestamp} ${chapter.title}`).join('\n'));
+      if (tags.length > 0) parts.push(`Tags: ${tags.join(', ')}`);
+      return parts.join('\n\n');
+    }
+    case 'email': {
+      const { subject, preheader, body, callToAction } = output as StructuredOutputMap['email'];
+      return `Subject: ${subject}\nPreheader: ${preheader}\n\n${body}\n\n${callToAction}`;
+    }
+    case 'newsletter': {
+      const { subject, preheader, sections, callToAction } = output as StructuredOutputMap['newsletter'];
+      const parts = [`Subject: ${subject}\nPreheader: ${preheader}`, ...sections.map(section => `## ${section.heading}\n\n${section.body}`)];
+      if (callToAction) parts.push(callToAction);
+      return parts.join('\n\n');
+    }
+    default: {
+      const { text, hashtags } = output as StructuredOutputMap['twitter'];
+      return withHashtags(text, hashtags);
+    }
+  }
+}
+
+/**
+ * Readable text of a response still being written: the JSON string values so far, the last one
+ * possibly cut off, one paragraph each with hashtag lists on one line. Plain text is returned as it is.
+ */
+export function renderPartialOutput(draft: string): string {
+  const start = draft.search(/\S/);
+  if (start === -1 || (draft[start] !== '{' && draft[start] !== '`')) return draft;
+
+  const paragraphs: string[] = [];
+  // Each open object or array, with the key an array was opened under
+  const stack: { type: 'object' | 'array'; key?: string }[] = [];
+  let expectingKey = false;
+  let lastKey: string | undefined;
+  let joinToLast = false;
+
+  for (let i = draft.indexOf('{'); i !== -1 && i < draft.length; i++) {
+    const char = draft[i];
+    if (char === '{' || char === '[') {
+      stack.push(char === '{' ? { type: 'object' } : { type: 'array', key: lastKey });
+      expectingKey = char === '{';
+      joinToLast = false;
+    } else if (char === '}' || char === ']') {
+      stack.pop();
+      joinToLast = false;
+    } else if (char === ',') {
+      expectingKey = stack[stack.length - 1]?.type === 'object';
+    } else if (char === ':') {
+      expectingKey = false;
+    } else if (char === '"') {
+      let end = i + 1;
+      while (end < draft.length && draft[end] !== '"') end += draft[end] === '\\' ? 2 : 1;
+      const value = decodeJsonString(draft.slice(i + 1, Math.min(end, draft.length)));
+      i = end;
+
+      if (expectingKey) {
+        lastKey = value;
+        continue;
+      }
+      if (!value.trim()) continue;
+      // Hashtag and tag lists read as one line, like the finished output
+      const parent = stack[stack.length - 1];
+      const isTag = parent?.type === 'array' && (parent.key === 'hashtags' || parent.key === 'tags');
+      if (isTag && joinToLast) {
+        paragraphs[paragraphs.length - 1] += ` ${value}`;
+      } else {
+        paragraphs.push(value);
+      }
+      joinToLast = isTag;
+    }
+  }
+
+  return paragraphs.join('\n\n');
+}
+
+function decodeJsonString(raw: string): string {
+  // An escape cut off at the end of the draft is dropped until the rest of it arrives
+  const complete = raw.replace(/\\(u[0-9a-fA-F]{0,3})?$/, '');
+  try {
+    return JSON.parse(`"${complete}"`);
+  } catch {
+    return complete;
+  }
+}
+
+/**
+ * Hashtags (or YouTube tags) a structured output carries
+ */
+export function getStructuredHashtags(platform: Platform, output: StructuredOutput): string[] {
+  if (platform === 'youtube') {
+    return (output as StructuredOutputMap['youtube']).tags;
+  }
+  return 'hashtags' in output ? output.hashtags : [];
+}
+
+export interface StructuredPart {
+  key: string;
+  label: string;
+  value: string;
+}
+
+/**
+ * The separately usable parts of a structured output, in display order
+ */
+export function getStructuredParts(platform: Platform, output: StructuredOutput): StructuredPart[] {
+  const hashtagPart = (tags: string[]): StructuredPart[] =>
+    tags.length > 0 ? [{ key: 'hashtags', label: 'Hashtags', value: tags.join(' ') }] : [];
+
+  switch (platform) {
+    case 'thread': {
+      const { tweets, hashtags } = output as StructuredOutputMap['thread'];
+      return [
+        ...tweets.map((tweet, index) => ({ key: `tweet-${index + 1}`, label: `Tweet ${index + 1}/${tweets.length}`, value: tweet })),
+        ...hashtagPart(hashtags)
+      ];
+    }
+    case 'instagram': {
+      const { caption, hashtags, altText } = output as StructuredOutputMap['instagram'];
+      return [{ key: 'caption', label: 'Caption', value: caption }, ...hashtagPart(hashtags), { key: 'altText', label: 'Alt text', value: altText }];
+    }
+    case 'tiktok': {
+      const { hook, caption, hashtags } = output as StructuredOutputMap['tiktok'];
+      return [{ key: 'hook', label: 'Hook', value: hook }, { key: 'caption', label: 'Caption', value: caption }, ...hashtagPart(hashtags)];
+    }
+    case 'youtube': {
+      const { title, description, chapters, tags } = output as StructuredOutputMap['youtube'];
+      return [
+        { key: 'title', label: 'Title', value: title },
+        { key: 'description', label: 'Description', value: description },
+        ...(chapters.length > 0
+          ? [{ key: 'chapters', label: 'Chapters', value: chapters.map(chapter => `${chapter.timestamp} ${chapter.title}`).join('\n') }]
+          : []),
+        ...(tags.length > 0 ? [{ key: 'tags', label: 'Tags', value: tags.join(', ') }] : [])
+      ];
+    }
+    case 'email': {
+      const { subject, preheader, body, callToAction } = output as StructuredOutputMap['email'];
+      return [
+        { key: 'subject', label: 'Subject', value: subject },
+        { key: 'preheader', label: 'Preheader', value: preheader },
+        { key: 'body', label: 'Body', value: body },
+        { key: 'callToAction', label: 'Call to action', value: callToAction }
+      ];
+    }
+    case 'newsletter': {
+      const { subject, preheader, sections, callToAction } = output as StructuredOutputMap['newsletter'];
+      return [
+        { key: 'subject', label: 'Subject', value: subject },
+        { key: 'preheader', label: 'Preheader', value: preheader },
+        ...sections.map((section, index) => ({ key: `section-${index + 1}`, label: section.heading, value: section.body })),
+        ...(callToAction ? [{ key: 'callToAction', label: 'Call to action', value: callToAction }] : [])
+      ];
+    }
+    default: {
+      const { text, hashtags } = output as StructuredOutputMap['twitter'];
+      return [{ key: 'text', label: 'Post', value: text }, ...hashtagPart(hashtags)];
+    }
+  }
+}
@@ -0,0 +1,269 @@
+import { EMOJI_PATTERN } from './platform-constraints';
+
+/**
+ * Deterministic measurements of how a set of posts is written. Stored on a brand voice learned from
+ * examples so generated output can later be compared with it without another model call.
+ * Rates are per 100 words unless noted; every number is rounded to two decimals so the same posts
+ * always give the same fingerprint.
+ */
+export interface StylometricFingerprint {
+  version: 1;
+  posts: number;
+  words: number;
+  avgPostWords: number;
+  avgSentenceWords: number;
+  sentenceWordsStdDev: number;
+  avgWordLength: number; // Characters
+  typeTokenRatio: number; // Distinct words / words, averaged per post
+  contractionRate: number;
+  firstPersonRate: number;
+  secondPersonRate: number;
+  capsWordRate: number; // Words written in capitals, e.g. "NEW"
+  exclamationRate: number; // Share of sentences, 0-1
+  questionRate: number; // Share of sentences, 0-1
+  emojiPerPost: number;
+  hashtagPerPost: number;
+  mentionPerPost: number;
+  linkPerPost: number;
+  lineBreaksPerPost: number;
+  functionWords: Record<string, number>; // Rate of each FUNCTION_WORDS entry
+  topWords: string[]; // Most used content words
+  signaturePhrases: string[]; // Phrases repeated across several posts
+}
+
+export type FingerprintFeature =
+  | 'avgSentenceWords'
+  | 'avgWordLength'
+  | 'contractionRate'
+  | 'firstPersonRate'
+  | 'secondPersonRate'
+  | 'capsWordRate'
+  | 'exclamationRate'
+  | 'questionRate'
+  | 'emojiPerPost'
+  | 'hashtagPerPost'
+  | 'functionWords';
+
+export interface FeatureComparison {
+  feature: FingerprintFeature;
+  expected: number;
+  actual: number;
+  score: number; // 0-1
+}
+
+export interface FingerprintComparison {
+  score: number; // 0-100
+  features: FeatureComparison[];
+}
+
+// Common words whose relative frequencies identify a writer regardless of topic
+export const FUNCTION_WORDS = [
+  'the', 'a', 'an', 'and', 'but', 'or', 'so', 'of', 'to', 'in', 'on', 'for', 'with', 'at', 'by', 'from',
+  'about', 'as', 'that', 'this', 'it', 'is', 'are', 'was', 'be', 'not', 'just', 'really', 'very', 'all',
+  'can', 'will', 'if', 'more'
+] as const;
+
+const FIRST_PERSON = new Set(['i', 'me', 'my', 'mine', 'we', 'us', 'our', 'ours']);
+const SECOND_PERSON = new Set(['you', 'your', 'yours', "you're", "you've", "you'll"]);
+const STOPWORDS = new Set<string>([
+  ...FUNCTION_WORDS, ...FIRST_PERSON, ...SECOND_PERSON,
+  'he', 'she', 'they', 'them', 'their', 'his', 'her', 'its', 'were', 'been', 'has', 'have', 'had', 'do', 'does',
+  'did', 'what', 'when', 'where', 'who', 'how', 'why', 'which', 'than', 'then', 'there', 'here', 'these',
+  'those', 'into', 'out', 'up', 'down', 'over', 'no', 'yes', 'our', 'get', 'got', 'one', 'also', 'some', 'any',
+  "it's", "don't", "can't", "i'm", "we're", "that's", 'would', 'could', 'should', 'now', 'new'
+]);
+
+const URL_PATTERN = /(?:https?:\/\/|www\.)\S+/gi;
+const HASHTAG_PATTERN = /(?:^|\s)#[\p{L}\p{N}_]+/gu;
+const MENTION_PATTERN = /(?:^|\s)@\w+/g;
+const WORD_PATTERN = /[\p{L}\p{N}]+(?:['’][\p{L}]+)*/gu;
+const CONTRACTION_PATTERN = /['’](?:t|re|ve|ll|d|m|s)$/;
+
+const TOP_WORDS = 15;
+const SIGNATURE_PHRASES = 10;
+const PHRASE_WINDOW = 4; // Longest word window counted for signature phrases
+
+const round = (value: number) => Math.round(value * 100) / 100;
+const mean = (values: number[]) => (values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : 0);
+const ratePer100 = (count: number, words: number) => (words ? (count / words) * 100 : 0);
+const countMatches = (text: string, pattern: RegExp) => text.match(pattern)?.length ?? 0;
+
+interface PostMeasurements {
+  words: string[]; // Lowercased, in order
+  capsWords: number;
+  sentences: string[];
+  emoji: number;
+  hashtags: number;
+  mentions: number;
+  links: number;
+  lineBreaks: number;
+}
+
+function measurePost(post: string): PostMeasurements {
+  const links = countMatches(post, URL_PATTERN);
+  const hashtags = countMatches(post, HASHTAG_PATTERN);
+  const mentions = countMatches(post, MENTION_PATTERN);
+  const prose = post.replace(URL_PATTERN, ' ').replace(HASHTAG_PATTERN, ' ').replace(MENTION_PATTERN, ' ');
+  const rawWords = prose.match(WORD_PATTERN) ?? [];
+
+  return {
+    words: rawWords.map(word => word.toLowerCase().replace(/’/g, "'")),
+    capsWords: rawWords.filter(word => word.length >= 2 && /^\p{Lu}+$/u.test(word)).length,
+    sentences: (prose.match(/[^.!?\n]+[.!?]*/g) ?? []).map(sentence => sentence.trim()).filter(sentence => /[\p{L}\p{N}]/u.test(sentence)),
+    emoji: countMatches(post, EMOJI_PATTERN),
+    hashtags,
+    mentions,
+    links,
+    lineBreaks: countMatches(post.trim(), /\n/g)
+  };
+}
+
+/**
+ * Phrases that recur across posts, most widespread first. Word windows of up to four words are
+ * counted; overlapping windows found in as many posts are stitched back into the longer phrase.
+ * Phrases made only of stopwords are skipped, as are phrases inside a longer one found as often.
+ */
+function findSignaturePhrases(posts: string[][]): string[] {
+  const minPosts = Math.max(2, Math.ceil(posts.length * 0.2));
+  const postCounts = new Map<string, number>();
+  for (const words of posts) {
+    const seen = new Set<string>();
+    for (let size = 2; size <= PHRASE_WINDOW; size++) {
+      for (let i = 0; i + size <= words.length; i++) {
+        const gram = words.slice(i, i + size);
+        if (gram.every(word => STOPWORDS.has(word))) continue;
+        seen.add(gram.join(' '));
+      }
+    }
+    for (const phrase of seen) postCounts.set(phrase, (postCounts.get(phrase) ?? 0) + 1);
+  }
+
+  const candidates = [...postCounts.entries()]
+    .filter(([, count]) => count >= minPosts)
+    .map(([phrase, count]) => ({ words: phrase.split(' '), count }));
+
+  const overlap = PHRASE_WINDOW - 1;
+  const windows = candidates.filter(candidate => candidate.words.length === PHRASE_WINDOW);
+  for (let stitched = true; stitched;) {
+    stitched = false;
+    for (const head of windows) {
+      const tail = windows.findIndex(other => other !== head && other.count === head.count &&
+        other.words.slice(0, overlap).join(' ') === head.words.slice(-overlap).join(' '));
+      if (tail === -1) continue;
+      head.words = [...head.words, ...windows[tail]!.words.slice(overlap)];
+      windows.splice(tail, 1);
+      stitched = true;
+      break;
+    }
+  }
+
+  const ranked = [...windows, ...candidates.filter(candidate => candidate.words.length < PHRASE_WINDOW)]
+    .map(({ words, count }) => ({ phrase: words.join(' '), length: words.length, count }))
+    .sort((a, b) => b.count - a.count || b.length - a.length || a.phrase.localeCompare(b.phrase));
+
+  const phrases: typeof ranked = [];
+  for (const candidate of ranked) {
+    if (phrases.some(longer => longer.count === candidate.count && ` ${longer.phrase} `.includes(` ${candidate.phrase} `))) continue;
+    phrases.push(candidate);
+    if (phrases.length >= SIGNATURE_PHRASES) break;
+  }
+  return phrases.map(({ phrase }) => phrase);
+}
+
+/**
+ * Measure a set of posts. The same posts in the same order always give the same fingerprint.
+ */
+export function computeFingerprint(posts: string[]): StylometricFingerprint {
+  const measured = posts.map(measurePost);
+  const words = measured.flatMap(post => post.words);
+  const sentences = measured.flatMap(post => post.sentences);
+  const sentenceLengths = sentences.map(sentence => sentence.match(WORD_PATTERN)?.length ?? 0);
+  const avgSentenceWords = mean(sentenceLengths);
+  const sentenceVariance = mean(sentenceLengths.map(length => (length - avgSentenceWords) ** 2));
+
+  const frequencies = new Map<string, number>();
+  for (const word of words) frequencies.set(word, (frequencies.get(word) ?? 0) + 1);
+  const count = (predicate: (word: string) => boolean) => words.filter(predicate).length;
+
+  return {
+    version: 1,
+    posts: posts.length,
+    words: words.length,
+    avgPostWords: round(mean(measured.map(post => post.words.length))),
+    avgSentenceWords: round(avgSentenceWords),
+    sentenceWordsStdDev: round(Math.sqrt(sentenceVariance)),
+    avgWordLength: round(mean(words.map(word => word.length))),
+    typeTokenRatio: round(mean(measured.filter(post => post.words.length).map(post => new Set(post.words).size / post.words.length))),
+    contractionRate: round(ratePer100(count(word => CONTRACTION_PATTERN.test(word)), words.length)),
+    firstPersonRate: round(ratePer100(count(word => FIRST_PERSON.has(word)), words.length)),
+    secondPersonRate: round(ratePer100(count(word => SECOND_PERSON.has(word)), words.length)),
+    capsWordRate: round(ratePer100(measured.reduce((sum, post) => sum + post.capsWords, 0), words.length)),
+    exclamationRate: round(sentences.length ? sentences.filter(sentence => sentence.endsWith('!')).length / sentences.length : 0),
+    questionRate: round(sentences.length ? sentences.filter(sentence => sentence.endsWith('?')).length / sentences.length : 0),
+    emojiPerPost: round(mean(measured.map(post => post.emoji))),
+    hashtagPerPost: round(mean(measured.map(post => post.hashtags))),
+    mentionPerPost: round(mean(measured.map(post => post.mentions))),
+    linkPerPost: round(mean(measured.map(post => post.links))),
+    lineBreaksPerPost: round(mean(measured.map(post => post.lineBreaks))),
+    functionWords: Object.fromEntries(FUNCTION_WORDS.map(word => [word, round(ratePer100(frequencies.get(word) ?? 0, words.length))])),
+    topWords: [...frequencies.entries()]
+      .filter(([word]) => word.length >= 3 && !STOPWORDS.has(word) && !/^\d+$/.test(word))
+      .sort(([a, countA], [b, countB]) => countB - countA || a.localeCompare(b))
+      .slice(0, TOP_WORDS)
+      .map(([word]) => word),
+    signaturePhrases: findSignaturePhrases(measured.map(post => post.words))
+  };
+}
+
+function cosineSimilarity(a: Record<string, number>, b: Record<string, number>): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (const word of FUNCTION_WORDS) {
+    const left = a[word] ?? 0;
+    const right = b[word] ?? 0;
+    dot += left * right;
+    normA += left * left;
+    normB += right * right;
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+// How far a measurement may drift from the fingerprint before its score falls to about a third.
+// Generous, since a single short post moves per-100-word rates a long way.
+const FEATURE_SCALES: Record<Exclude<FingerprintFeature, 'functionWords'>, (fingerprint: StylometricFingerprint) => number> = {
+  avgSentenceWords: fingerprint => Math.max(4, fingerprint.sentenceWordsStdDev),
+  avgWordLength: () => 0.8,
+  contractionRate: () => 4,
+  firstPersonRate: () => 5,
+  secondPersonRate: () => 5,
+  capsWordRate: () => 3,
+  exclamationRate: () => 0.4,
+  questionRate: () => 0.4,
+  emojiPerPost: fingerprint => Math.max(1, fingerprint.emojiPerPost / 2),
+  hashtagPerPost: fingerprint => Math.max(1, fingerprint.hashtagPerPost / 2)
+};
+
+/**
+ * Score how closely a text is written like the posts a fingerprint was taken from, 0-100.
+ * Post length and vocabulary richness are left out because they follow the platform, not the voice.
+ * Function word usage counts double; it is the strongest signal of who wrote a text.
+ */
+export function compareToFingerprint(fingerprint: StylometricFingerprint, text: string): FingerprintComparison {
+  const actual = computeFingerprint([text]);
+  const features: FeatureComparison[] = (Object.keys(FEATURE_SCALES) as (keyof typeof FEATURE_SCALES)[]).map(feature => ({
+    feature,
+    expected: fingerprint[feature],
+    actual: actual[feature],
+    score: round(Math.exp(-Math.abs(actual[feature] - fingerprint[feature]) / FEATURE_SCALES[feature](fingerprint)))
+  }));
+  features.push({
+    feature: 'functionWords',
+    expected: 1,
+    actual: round(cosineSimilarity(fingerprint.functionWords, actual.functionWords)),
+    score: round(cosineSimilarity(fingerprint.functionWords, actual.functionWords))
+  });
+
+  const weighted = features.reduce((sum, feature) => sum + feature.score * (feature.feature === 'functionWords' ? 2 : 1), 0);
+  return { score: Math.round((weighted / (features.length + 1)) * 100), features };
+}
@@ -1,4 +1,5 @@
 import { prisma } from './prisma'
+import type { RevisionAction } from './ai-service'
 
 export type SubscriptionPlan = 'free' | 'basic' | 'pro' | 'agency'
 
@@ -39,6 +40,48 @@ export const OVERAGE_PRICING = {
   agency: 0.06  // $0.06 per overage for agency
 } as const;
 
+// Platforms each plan may repurpose to - MUST match SUBSCRIPTION.md exactly
+export const PLAN_PLATFORMS = {
+  free: ['twitter', 'instagram'],
+  basic: ['twitter', 'instagram', 'facebook'],
+  pro: ['twitter', 'instagram', 'facebook', 'linkedin', 'thread', 'email', 'newsletter'],
+  agency: ['twitter', 'instagram', 'facebook', 'linkedin', 'thread', 'email', 'newsletter']
+} as const;
+
+// Per-plan size limits for source content: the tier repurpose schemas validate against these,
+// and ingestion rejects uploads and extracted text that exceed them. Content over
+// CONTENT_CHUNKING.thresholdChars is chunked and summarised before repurposing.
+export const PLAN_CONTENT_LIMITS = {
+  free: { titleChars: 100, contentChars: 2000, uploadBytes: 1024 * 1024 },
+  basic: { titleChars: 150, contentChars: 5000, uploadBytes: 5 * 1024 * 1024 },
+  pro: { titleChars: 200, contentChars: 60000, uploadBytes: 10 * 1024 * 1024 },
+  agency: { titleChars: 300, contentChars: 200000, uploadBytes: 25 * 1024 * 1024 }
+} as const;
+
+// Uses charged for reworking a single platform output. Anything that calls the model counts
+// like generating that platform again; removing hashtags is done locally and is free.
+export const REVISION_USAGE_COST: Record<RevisionAction, number> = {
+  regenerate: 1,
+  refine: 1,
+  shorter: 1,
+  longer: 1,
+  formal: 1,
+  emoji: 1,
+  remove_hashtags: 0,
+  brand_fix: 1
+};
+
+// Uses charged for each language a platform output is translated into
+export const TRANSLATION_USAGE_COST = 1;
+
+// Background jobs a user may have running at once, and how many more may wait behind them
+export const PLAN_JOB_CONCURRENCY = {
+  free: { running: 1, queued: 3 },
+  basic: { running: 1, queued: 5 },
+  pro: { running: 2, queued: 10 },
+  agency: { running: 4, queued: 25 }
+} as const;
+
 /**
  * Get user's usage information for the current month
  */
@@ -197,6 +240,33 @@ export async function recordOverageCharge(
   }
 }
 
+/**
+ * Count one use per platform that came back. Uses past the monthly limit only get through
+ * with overage consent, so those are also recorded as overage charges.
+ */
+export async function chargeRepurposeOutputs(
+  userId: string,
+  plan: SubscriptionPlan,
+  usageBefore: number,
+  outputs: number
+): Promise<void> {
+  if (outputs <= 0) return;
+
+  try {
+    await prisma.user.update({
+      where: { id: userId },
+      data: { usageThisMonth: { increment: outputs } }
+    });
+  } catch (error) {
+    console.error('Error updating usage:', error);
+  }
+
+  const overage = usageBefore + outputs - Math.max(usageBefore, SUBSCRIPTION_LIMITS[plan]);
+  if (overage > 0) {
+    await recordOverageCharge(userId, overage);
+  }
+}
+
 // Helper function to generate CUID-like IDs
 function generateId(): string {
   return 'cuid_' + Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15);